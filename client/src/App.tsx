@@ -1,4 +1,5 @@
-import { Switch, Route } from "wouter";
+import { useEffect } from "react";
+import { Switch, Route, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -11,6 +12,8 @@ import { LanguageProvider } from "@/i18n";
 import { AppSidebar } from "@/components/app-sidebar";
 import { useAuth } from "@/hooks/use-auth";
 import { SyncProvider } from "@/contexts/SyncContext";
+import { LiveEventsProvider, useLiveEvents } from "@/contexts/LiveEventsContext";
+import { AccountProvider } from "@/contexts/AccountContext";
 import {
   SidebarProvider,
   SidebarTrigger,
@@ -18,7 +21,11 @@ import {
 } from "@/components/ui/sidebar";
 import Dashboard from "@/pages/dashboard";
 import Queue from "@/pages/queue";
+import Inbox from "@/pages/inbox";
 import History from "@/pages/history";
+import Outbox from "@/pages/outbox";
+import Automations from "@/pages/automations";
+import Contacts from "@/pages/contacts";
 import Settings from "@/pages/settings";
 import Connections from "@/pages/connections";
 import Personality from "@/pages/brain/personality";
@@ -26,7 +33,10 @@ import Sources from "@/pages/brain/sources";
 import Dataset from "@/pages/brain/dataset";
 import Trainer from "@/pages/brain/trainer";
 import Guidelines from "@/pages/brain/guidelines";
+import Snippets from "@/pages/brain/snippets";
 import Admin from "@/pages/admin";
+import Team from "@/pages/team";
+import Invite, { rememberPendingInvite, consumePendingInvite } from "@/pages/invite";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
@@ -40,6 +50,10 @@ function Router() {
       <Route path="/queue/comments">{() => <Queue defaultFilter="comment" />}</Route>
       <Route path="/queue/dms">{() => <Queue defaultFilter="dm" />}</Route>
       <Route path="/queue">{() => <Queue />}</Route>
+      <Route path="/inbox" component={Inbox} />
+      <Route path="/outbox" component={Outbox} />
+      <Route path="/automations" component={Automations} />
+      <Route path="/contacts" component={Contacts} />
       <Route path="/history" component={History} />
       <Route path="/settings" component={Settings} />
       <Route path="/connections" component={Connections} />
@@ -47,17 +61,30 @@ function Router() {
       <Route path="/brain/sources" component={Sources} />
       <Route path="/brain/dataset" component={Dataset} />
       <Route path="/brain/guidelines" component={Guidelines} />
+      <Route path="/brain/snippets" component={Snippets} />
       <Route path="/brain/trainer" component={Trainer} />
       <Route path="/admin" component={Admin} />
+      <Route path="/team" component={Team} />
+      <Route path="/invite/:token">{(params) => <Invite token={params.token} />}</Route>
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function AppLayout() {
+  const [, navigate] = useLocation();
+
+  // Resume an invite link that was opened before logging in
+  useEffect(() => {
+    const token = consumePendingInvite();
+    if (token) navigate(`/invite/${token}`);
+  }, [navigate]);
+
+  const { connected: liveConnected } = useLiveEvents();
+
   const { data: pendingMessages } = useQuery<MessageWithResponse[]>({
     queryKey: ["/api/messages/pending"],
-    refetchInterval: 30000,
+    refetchInterval: liveConnected ? false : 30000,
   });
 
   const style = {
@@ -98,6 +125,12 @@ function PublicRoutes() {
   return (
     <Switch>
       <Route path="/login" component={Login} />
+      <Route path="/invite/:token">
+        {(params) => {
+          rememberPendingInvite(params.token);
+          return <Login />;
+        }}
+      </Route>
       <Route component={Landing} />
     </Switch>
   );
@@ -114,7 +147,11 @@ function AuthenticatedApp() {
     return <PublicRoutes />;
   }
 
-  return <AppLayout />;
+  return (
+    <AccountProvider>
+      <AppLayout />
+    </AccountProvider>
+  );
 }
 
 function App() {
@@ -123,10 +160,12 @@ function App() {
       <LanguageProvider defaultLanguage="pt-BR">
         <ThemeProvider defaultTheme="light" storageKey="instagram-ai-theme">
           <TooltipProvider>
-            <SyncProvider>
-              <AuthenticatedApp />
-              <Toaster />
-            </SyncProvider>
+            <LiveEventsProvider>
+              <SyncProvider>
+                <AuthenticatedApp />
+                <Toaster />
+              </SyncProvider>
+            </LiveEventsProvider>
           </TooltipProvider>
         </ThemeProvider>
       </LanguageProvider>
@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Gauge, PauseCircle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface BucketUsage {
+  tokens: number;
+  capacity: number;
+  perHour: number;
+}
+
+interface AccountApiUsage {
+  accountId: number;
+  instagramUsername: string | null;
+  send: BucketUsage;
+  read: BucketUsage;
+  appUsagePct: number;
+  businessUsagePct: number;
+  usageUpdatedAt: string | null;
+  blockedUntil: string | null;
+  lastLimitError: string | null;
+  sent: number;
+  reads: number;
+}
+
+function BudgetRow({ label, bucket }: { label: string; bucket: BucketUsage }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{label}</span>
+        <span>
+          {bucket.tokens}/{bucket.capacity} disponíveis · {bucket.perHour}/h
+        </span>
+      </div>
+      <Progress value={(bucket.tokens / bucket.capacity) * 100} className="h-2" />
+    </div>
+  );
+}
+
+export function ApiUsageCard() {
+  const { data: usage, isLoading } = useQuery<AccountApiUsage[]>({
+    queryKey: ["/api/instagram/usage"],
+    refetchInterval: 15000,
+  });
+
+  if (!isLoading && (!usage || usage.length === 0)) return null;
+
+  return (
+    <Card data-testid="card-api-usage">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Limites da API do Instagram
+        </CardTitle>
+        <CardDescription>
+          Orçamento de envios e consultas por conta. Envios sem orçamento ficam agendados até a conta liberar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          usage!.map((account, index) => {
+            const metaUsage = Math.max(account.appUsagePct, account.businessUsagePct);
+            return (
+              <div key={account.accountId} className="space-y-3" data-testid={`api-usage-${account.accountId}`}>
+                {index > 0 && <Separator />}
+                <div className="flex items-center justify-between gap-2 flex-wrap">
+                  <span className="text-sm font-medium">@{account.instagramUsername || account.accountId}</span>
+                  <div className="flex items-center gap-2">
+                    {account.blockedUntil && (
+                      <Badge variant="destructive" title={account.lastLimitError || undefined}>
+                        <PauseCircle className="h-3 w-3 mr-1" />
+                        Pausada até {format(new Date(account.blockedUntil), "HH:mm")}
+                      </Badge>
+                    )}
+                    <Badge variant={metaUsage >= 80 ? "destructive" : "secondary"}>
+                      Uso Meta: {account.usageUpdatedAt ? `${metaUsage}%` : "—"}
+                    </Badge>
+                  </div>
+                </div>
+                <BudgetRow label={`Envios (${account.sent} desde o reinício)`} bucket={account.send} />
+                <BudgetRow label={`Consultas (${account.reads} desde o reinício)`} bucket={account.read} />
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,12 +15,18 @@ import {
   ChevronDown,
   MessageCircle,
   MessageSquare,
+  MessagesSquare,
   Brain,
   Book,
   BookOpen,
   Database,
   Gamepad2,
   Plug,
+  UserPlus,
+  CalendarClock,
+  MessageSquareQuote,
+  Zap,
+  Contact,
 } from "lucide-react";
 import { SiInstagram } from "react-icons/si";
 import {
@@ -45,7 +51,15 @@ import {
 } from "@/components/ui/collapsible";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useAuth } from "@/hooks/use-auth";
+import { useAccountContext } from "@/contexts/AccountContext";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLanguage } from "@/i18n";
 
@@ -57,6 +71,7 @@ export function AppSidebar({ pendingCount = 0 }: AppSidebarProps) {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
   const { t } = useLanguage();
+  const { accounts, activeAccountId, setActiveAccount } = useAccountContext();
   const [queueOpen, setQueueOpen] = useState(() => location.startsWith("/queue"));
 
   const isQueueActive = location.startsWith("/queue");
@@ -67,6 +82,26 @@ export function AppSidebar({ pendingCount = 0 }: AppSidebarProps) {
       url: "/",
       icon: LayoutDashboard,
     },
+    {
+      title: "Conversas",
+      url: "/inbox",
+      icon: MessagesSquare,
+    },
+    {
+      title: "Envios agendados",
+      url: "/outbox",
+      icon: CalendarClock,
+    },
+    {
+      title: "Automações",
+      url: "/automations",
+      icon: Zap,
+    },
+    {
+      title: "Contatos",
+      url: "/contacts",
+      icon: Contact,
+    },
     {
       title: t.nav.history,
       url: "/history",
@@ -95,6 +130,11 @@ export function AppSidebar({ pendingCount = 0 }: AppSidebarProps) {
       url: "/brain/guidelines",
       icon: BookOpen,
     },
+    {
+      title: "Respostas Prontas",
+      url: "/brain/snippets",
+      icon: MessageSquareQuote,
+    },
     {
       title: "Treinador",
       url: "/brain/trainer",
@@ -108,6 +148,11 @@ export function AppSidebar({ pendingCount = 0 }: AppSidebarProps) {
       url: "/connections",
       icon: Plug,
     },
+    {
+      title: "Equipe",
+      url: "/team",
+      icon: UserPlus,
+    },
   ];
 
   const queueSubItems = [
@@ -159,6 +204,26 @@ export function AppSidebar({ pendingCount = 0 }: AppSidebarProps) {
             </span>
           </div>
         </div>
+
+        {accounts.length > 1 && (
+          <Select
+            value={activeAccountId ? String(activeAccountId) : "all"}
+            onValueChange={(value) => setActiveAccount(value === "all" ? null : parseInt(value))}
+          >
+            <SelectTrigger className="mt-3 h-9" data-testid="select-active-account">
+              <SelectValue placeholder="Conta" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as contas</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={String(account.id)}>
+                  @{account.instagramUsername || account.instagramAccountId}
+                  {account.showTokenWarning ? " ⚠️" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </SidebarHeader>
       
       {user?.showTokenWarning && (
@@ -18,6 +18,11 @@ import {
   ThumbsDown,
   FileImage,
   Video,
+  ScrollText,
+  Clock,
+  ShieldAlert,
+  MessageCircle,
+  UserRound,
 } from "lucide-react";
 import {
   Dialog,
@@ -32,19 +37,23 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ConfidenceBadge } from "@/components/confidence-badge";
+import { GenerationTraceSheet } from "@/components/generation-trace-sheet";
+import { ContactProfileSheet } from "@/components/contact-profile-sheet";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
 import { cn } from "@/lib/utils";
 
-import type { MessageWithResponse } from "@shared/schema";
+import { SnippetSlashMenu, filterSnippets, getSlashQuery, type SlashQuery } from "@/components/snippet-slash-menu";
+import { PRIVATE_REPLY_LABELS } from "@/components/message-card";
+import type { MessageWithResponse, PrivateReply, PrivateReplyStatus, RenderedSnippet, SafetyFlag } from "@shared/schema";
 
 const EMOJI_LIST = [
   "😊", "😃", "😄", "😁", "😆", "😅", "🤣", "😂",
@@ -56,11 +65,27 @@ const EMOJI_LIST = [
   "✅", "❌", "⚠️", "💡", "📌", "📍", "🎯", "🚀",
 ];
 
+// One-click answers to story mentions/replies; {first_name} comes from the sender's name
+const STORY_THANKS_TEMPLATES: Record<"story_mention" | "story_reply", string[]> = {
+  story_mention: [
+    "Obrigado pela menção, {first_name}! 💜",
+    "Que demais, {first_name}! Obrigado por compartilhar 🙌",
+    "Amei o story! Obrigado pelo carinho ✨",
+  ],
+  story_reply: [
+    "Obrigado pela mensagem, {first_name}! 😊",
+    "Que bom que você curtiu, {first_name}! 🙌",
+    "Valeu demais pelo retorno! 💜",
+  ],
+};
+
+const VIDEO_URL_PATTERN = /\.(mp4|mov|webm)(\?|$)/i;
+
 interface ApprovalModalProps {
   message: MessageWithResponse | null;
   isOpen: boolean;
   onClose: () => void;
-  onApprove: (messageId: number, response: string, wasEdited: boolean) => void;
+  onApprove: (messageId: number, response: string, wasEdited: boolean, sendAt?: Date) => void;
   onReject: (messageId: number) => void;
   onRegenerate: (messageId: number) => void;
   isLoading?: boolean;
@@ -83,6 +108,14 @@ export function ApprovalModal({
   const [imageError, setImageError] = useState(false);
   const [videoError, setVideoError] = useState(false);
   const [audioError, setAudioError] = useState(false);
+  const [traceOpen, setTraceOpen] = useState(false);
+  const [contactOpen, setContactOpen] = useState(false);
+  const [schedulePopoverOpen, setSchedulePopoverOpen] = useState(false);
+  const [sendAtInput, setSendAtInput] = useState("");
+  const [slashQuery, setSlashQuery] = useState<SlashQuery | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  const [privateReplyOpen, setPrivateReplyOpen] = useState(false);
+  const [privateReplyText, setPrivateReplyText] = useState("");
 
   // Feedback state
   const [feedbackStatus, setFeedbackStatus] = useState<"like" | "dislike" | null>(null);
@@ -91,6 +124,13 @@ export function ApprovalModal({
 
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  // Snippets with this message's variables already filled in (typing "/" opens the picker)
+  const { data: snippets = [] } = useQuery<RenderedSnippet[]>({
+    queryKey: [`/api/snippets?messageId=${message?.id}`],
+    enabled: isOpen && !!message,
+  });
+  const slashMatches = slashQuery ? filterSnippets(snippets, slashQuery.query) : [];
+
   const feedbackMutation = useMutation({
     mutationFn: async (data: { status: "like" | "dislike"; text?: string }) => {
       if (!message) return;
@@ -115,6 +155,36 @@ export function ApprovalModal({
     },
   });
 
+  // Comment -> DM: queued on the server, the private reply job sends it
+  const privateReplyMutation = useMutation({
+    mutationFn: async (text: string): Promise<PrivateReply> => {
+      const res = await apiRequest("POST", `/api/messages/${message!.id}/private-reply`, { text });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "DM privada na fila",
+        description: "A mensagem será enviada para o autor do comentário.",
+      });
+      setPrivateReplyOpen(false);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
+    },
+    onError: (error: Error) => {
+      let description = "Não foi possível enviar a DM privada.";
+      const match = error.message.match(/\d+:\s*(.+)/);
+      if (match) {
+        try {
+          description = JSON.parse(match[1]).error || description;
+        } catch {
+          description = match[1];
+        }
+      }
+      toast({ title: "Erro", description, variant: "destructive" });
+    },
+  });
+
   const handleFeedback = (status: "like" | "dislike") => {
     setFeedbackStatus(status);
     if (status === "dislike") {
@@ -146,6 +216,42 @@ export function ApprovalModal({
     setEmojiPopoverOpen(false);
   };
 
+  const handleResponseChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setEditedResponse(e.target.value);
+    setSlashQuery(getSlashQuery(e.target.value, e.target.selectionStart));
+    setSlashIndex(0);
+  };
+
+  const insertSnippet = (snippet: RenderedSnippet) => {
+    if (!slashQuery) return;
+    const end = slashQuery.start + 1 + slashQuery.query.length;
+    const caret = slashQuery.start + snippet.rendered.length;
+    setEditedResponse(editedResponse.substring(0, slashQuery.start) + snippet.rendered + editedResponse.substring(end));
+    setSlashQuery(null);
+    setTimeout(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = caret;
+    }, 0);
+  };
+
+  const handleResponseKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashMatches.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setSlashIndex((slashIndex + step + slashMatches.length) % slashMatches.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      insertSnippet(slashMatches[Math.min(slashIndex, slashMatches.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation(); // Close the picker, not the modal
+      setSlashQuery(null);
+    }
+  };
+
   useEffect(() => {
     if (message?.aiResponse) {
       // Check if the response is an error placeholder
@@ -168,6 +274,13 @@ export function ApprovalModal({
       setImageError(false);
       setVideoError(false);
       setAudioError(false);
+      setTraceOpen(false);
+      setContactOpen(false);
+      setSendAtInput("");
+      setSlashQuery(null);
+      setPrivateReplyOpen(false);
+      setPrivateReplyText("");
+      privateReplyMutation.reset();
     } else {
       setHasAIError(true); // No AI response at all
       setEditedResponse("");
@@ -178,12 +291,36 @@ export function ApprovalModal({
   if (!message) return null;
 
   const originalResponse = message.aiResponse?.suggestedResponse || "";
+  const safetyFlags = (message.aiResponse?.safetyFlags as SafetyFlag[] | null) || [];
   const wasEdited = editedResponse !== originalResponse;
+  const storyKind = message.mediaType === "story_mention" || message.mediaType === "story_reply" ? message.mediaType : null;
+  const isStoryVideo = !!storyKind && !!message.mediaUrl && VIDEO_URL_PATTERN.test(message.mediaUrl);
+
+  const storyTemplates = storyKind
+    ? STORY_THANKS_TEMPLATES[storyKind].map((template) =>
+        template.replace(/\{first_name\}/g, message.senderName?.trim().split(/\s+/)[0] || message.senderUsername))
+    : [];
+  // The modal keeps the message it was opened with, so a reply queued here comes from the mutation
+  const privateReply = privateReplyMutation.data ?? message.privateReply ?? null;
 
   const handleApprove = () => {
     onApprove(message.id, editedResponse, wasEdited);
   };
 
+  const handleSchedule = () => {
+    const sendAt = new Date(sendAtInput);
+    if (isNaN(sendAt.getTime()) || sendAt <= new Date()) {
+      toast({
+        title: "Horário inválido",
+        description: "Escolha uma data e hora no futuro.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setSchedulePopoverOpen(false);
+    onApprove(message.id, editedResponse, wasEdited, sendAt);
+  };
+
   const handleReject = () => {
     onReject(message.id);
   };
@@ -238,6 +375,18 @@ export function ApprovalModal({
                     <span className="text-xs text-muted-foreground">
                       @{message.senderUsername}
                     </span>
+                    {message.senderId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => setContactOpen(true)}
+                        data-testid="button-contact-profile"
+                      >
+                        <UserRound className="h-3 w-3 mr-1" />
+                        Perfil
+                      </Button>
+                    )}
                   </div>
                   <span className="text-xs text-muted-foreground">
                     {formatDistanceToNow(new Date(message.createdAt), {
@@ -271,7 +420,7 @@ export function ApprovalModal({
               {/* Media display */}
               {message.mediaUrl && (
                 <div className="mb-3">
-                  {message.mediaType === 'image' || message.mediaType === 'gif' || message.mediaType === 'sticker' ? (
+                  {message.mediaType === 'image' || message.mediaType === 'gif' || message.mediaType === 'sticker' || (storyKind && !isStoryVideo) ? (
                     <>
                       {imageError ? (
                         <div className="w-full h-48 bg-muted rounded-md border flex flex-col items-center justify-center text-muted-foreground">
@@ -290,12 +439,12 @@ export function ApprovalModal({
                       {message.type === 'dm' && !imageError && (
                         <div className="mt-2">
                           <Badge variant="secondary" className="text-xs">
-                            👁️ Imagem analisada pela IA
+                            {storyKind ? "👁️ Story analisado pela IA" : "👁️ Imagem analisada pela IA"}
                           </Badge>
                         </div>
                       )}
                     </>
-                  ) : message.mediaType === 'video' || message.mediaType === 'reel' ? (
+                  ) : message.mediaType === 'video' || message.mediaType === 'reel' || isStoryVideo ? (
                     <>
                       {videoError ? (
                         <div className="w-full h-48 bg-muted rounded-md border flex flex-col items-center justify-center text-muted-foreground">
@@ -434,12 +583,49 @@ export function ApprovalModal({
                   </AlertDescription>
                 </Alert>
               )}
+              {safetyFlags.length > 0 && (
+                <Alert className="py-2 border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30" data-testid="alert-safety-flags">
+                  <ShieldAlert className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-sm">
+                    <p className="font-medium">Retida pelo filtro de segurança antes do envio automático:</p>
+                    <ul className="list-disc pl-4 mt-1">
+                      {safetyFlags.map((flag) => (
+                        <li key={flag.check}>{flag.reason}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {storyKind && (
+                <div className="flex flex-wrap items-center gap-1.5" data-testid="story-thanks-templates">
+                  <span className="text-xs text-muted-foreground">
+                    {storyKind === "story_mention" ? "Agradecer a menção:" : "Responder ao story:"}
+                  </span>
+                  {storyTemplates.map((template, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => {
+                        setEditedResponse(template);
+                        setIsEditing(true);
+                      }}
+                      data-testid={`button-story-template-${index}`}
+                    >
+                      {template}
+                    </Button>
+                  ))}
+                </div>
+              )}
               <div className="flex-1 relative overflow-hidden">
                 <Textarea
                   ref={textareaRef}
                   value={editedResponse}
-                  onChange={(e) => setEditedResponse(e.target.value)}
-                  placeholder={hasAIError ? "Escreva sua resposta aqui..." : "Resposta sugerida pela IA..."}
+                  onChange={handleResponseChange}
+                  onKeyDown={handleResponseKeyDown}
+                  onBlur={() => setSlashQuery(null)}
+                  placeholder={hasAIError ? "Escreva sua resposta aqui... (/ para respostas prontas)" : "Resposta sugerida pela IA..."}
                   className={cn(
                     "h-full min-h-[200px] resize-none",
                     !isEditing && !isLoading && "cursor-not-allowed opacity-50"
@@ -457,6 +643,9 @@ export function ApprovalModal({
                     Editado
                   </Badge>
                 )}
+                {isEditing && (
+                  <SnippetSlashMenu matches={slashMatches} activeIndex={slashIndex} onSelect={insertSnippet} />
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <Button
@@ -506,6 +695,18 @@ export function ApprovalModal({
                   <RotateCcw className="h-4 w-4 mr-1" />
                   Regenerar
                 </Button>
+                {message.aiResponse?.traceId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => setTraceOpen(true)}
+                    data-testid="button-view-trace"
+                  >
+                    <ScrollText className="h-4 w-4 mr-1" />
+                    Ver rastreamento
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -514,6 +715,51 @@ export function ApprovalModal({
         <Separator />
 
         <div className="flex items-center justify-end gap-2 pt-2">
+          {message.type === "comment" && (
+            privateReply && privateReply.status !== "failed" ? (
+              <Badge variant="outline" className="mr-auto font-normal" data-testid="badge-private-reply">
+                <MessageCircle className="h-3 w-3 mr-1" />
+                DM privada {PRIVATE_REPLY_LABELS[privateReply.status as PrivateReplyStatus] ?? privateReply.status}
+              </Badge>
+            ) : (
+              <Popover open={privateReplyOpen} onOpenChange={setPrivateReplyOpen}>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" className="mr-auto" data-testid="button-private-reply">
+                    <MessageCircle className="h-4 w-4 mr-1" />
+                    {privateReply ? "Reenviar DM privada" : "DM privada"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-80 space-y-3" align="start">
+                  <div>
+                    <p className="text-sm font-medium">Responder por DM</p>
+                    <p className="text-xs text-muted-foreground">
+                      Enviada no privado para @{message.senderUsername}. O Instagram permite uma por comentário, em até 7 dias.
+                    </p>
+                  </div>
+                  {privateReply?.lastError && (
+                    <p className="text-xs text-destructive">Última tentativa: {privateReply.lastError}</p>
+                  )}
+                  <Textarea
+                    value={privateReplyText}
+                    onChange={(e) => setPrivateReplyText(e.target.value)}
+                    placeholder={privateReply?.text || "Mensagem..."}
+                    className="min-h-[100px] resize-none"
+                    data-testid="input-private-reply"
+                  />
+                  <Button
+                    size="sm"
+                    className="w-full"
+                    onClick={() => privateReplyMutation.mutate(privateReplyText.trim())}
+                    disabled={!privateReplyText.trim() || privateReplyMutation.isPending}
+                    data-testid="button-send-private-reply"
+                  >
+                    <Send className="h-4 w-4 mr-1" />
+                    Enviar DM
+                  </Button>
+                </PopoverContent>
+              </Popover>
+            )
+          )}
           <Button
             variant="outline"
             onClick={handleReject}
@@ -523,6 +769,36 @@ export function ApprovalModal({
             <X className="h-4 w-4 mr-1" />
             Rejeitar
           </Button>
+          <Popover open={schedulePopoverOpen} onOpenChange={setSchedulePopoverOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={isLoading || !editedResponse.trim()}
+                data-testid="button-schedule"
+              >
+                <Clock className="h-4 w-4 mr-1" />
+                Agendar envio
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3" align="end">
+              <p className="text-sm font-medium">Enviar em</p>
+              <Input
+                type="datetime-local"
+                value={sendAtInput}
+                onChange={(e) => setSendAtInput(e.target.value)}
+                data-testid="input-send-at"
+              />
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={handleSchedule}
+                disabled={!sendAtInput}
+                data-testid="button-confirm-schedule"
+              >
+                Aprovar e agendar
+              </Button>
+            </PopoverContent>
+          </Popover>
           <Button
             variant="default"
             onClick={handleApprove}
@@ -534,6 +810,18 @@ export function ApprovalModal({
           </Button>
         </div>
       </DialogContent>
+      <GenerationTraceSheet
+        messageId={message.id}
+        open={traceOpen}
+        onOpenChange={setTraceOpen}
+      />
+      {message.senderId && (
+        <ContactProfileSheet
+          igsid={message.senderId}
+          open={contactOpen}
+          onOpenChange={setContactOpen}
+        />
+      )}
     </Dialog>
   );
 }
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Check, CheckSquare, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const CONFIDENCE_THRESHOLDS = [95, 90, 85, 80];
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  loadedCount: number;
+  isPending: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApprove: () => void;
+  onReject: () => void;
+  onRegenerate: () => void;
+  onApproveAbove: (threshold: number) => void;
+}
+
+export function BulkActionBar({
+  selectedCount,
+  loadedCount,
+  isPending,
+  onSelectAll,
+  onClear,
+  onApprove,
+  onReject,
+  onRegenerate,
+  onApproveAbove,
+}: BulkActionBarProps) {
+  const [threshold, setThreshold] = useState(90);
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap rounded-lg border bg-muted/40 p-3" data-testid="bulk-action-bar">
+      {selectedCount > 0 ? (
+        <>
+          <span className="text-sm font-medium mr-2">
+            {selectedCount} selecionada{selectedCount === 1 ? "" : "s"}
+          </span>
+          <Button size="sm" onClick={onApprove} disabled={isPending} data-testid="button-bulk-approve">
+            {isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+            Aprovar
+          </Button>
+          <Button size="sm" variant="outline" onClick={onRegenerate} disabled={isPending} data-testid="button-bulk-regenerate">
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Regenerar
+          </Button>
+          <Button size="sm" variant="outline" onClick={onReject} disabled={isPending} data-testid="button-bulk-reject">
+            <X className="h-4 w-4 mr-1" />
+            Rejeitar
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onClear} disabled={isPending} data-testid="button-bulk-clear">
+            Limpar seleção
+          </Button>
+        </>
+      ) : (
+        <Button size="sm" variant="ghost" onClick={onSelectAll} disabled={loadedCount === 0} data-testid="button-bulk-select-all">
+          <CheckSquare className="h-4 w-4 mr-1" />
+          Selecionar as {loadedCount} carregadas
+        </Button>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        <Select value={String(threshold)} onValueChange={(v) => setThreshold(Number(v))}>
+          <SelectTrigger className="h-9 w-[90px]" data-testid="select-bulk-threshold">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CONFIDENCE_THRESHOLDS.map((value) => (
+              <SelectItem key={value} value={String(value)}>
+                ≥ {value}%
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="secondary" disabled={isPending} data-testid="button-bulk-approve-above">
+              Aprovar todas acima
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Aprovar todas com confiança ≥ {threshold}%?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Vale para todas as mensagens pendentes que atendem à busca e ao tipo atuais, inclusive as que ainda
+                não foram carregadas na lista. As respostas saem como estão; envios sem orçamento da API ficam
+                agendados e respostas retidas pelo filtro de segurança são ignoradas.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction onClick={() => onApproveAbove(threshold)} data-testid="button-confirm-bulk-approve-above">
+                Aprovar
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
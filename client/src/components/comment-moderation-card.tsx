@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { EyeOff, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAccountContext } from "@/contexts/AccountContext";
+import type { CommentModerationConfig } from "@shared/schema";
+
+// One username per line or comma, "@" optional
+const toUsernames = (text: string) =>
+  text.split(/[\n,]/).map((item) => item.trim().replace(/^@/, "").toLowerCase()).filter(Boolean);
+
+export function CommentModerationCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { accounts, activeAccountId } = useAccountContext();
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [autoHideSpam, setAutoHideSpam] = useState(false);
+  const [autoHideOffensive, setAutoHideOffensive] = useState(false);
+  const [blockedText, setBlockedText] = useState("");
+
+  const account = accounts.find((a) => a.id === accountId) || null;
+
+  // Follow the account picked in the sidebar, falling back to the first one
+  useEffect(() => {
+    if (accounts.length === 0) return;
+    if (!accountId || !accounts.some((a) => a.id === accountId)) {
+      setAccountId(activeAccountId ?? accounts[0].id);
+    }
+  }, [accounts, activeAccountId]);
+
+  useEffect(() => {
+    const config = account?.commentModeration || null;
+    setAutoHideSpam(config?.autoHideSpam ?? false);
+    setAutoHideOffensive(config?.autoHideOffensive ?? false);
+    setBlockedText((config?.blockedUsernames || []).map((u) => `@${u}`).join("\n"));
+  }, [account?.id, account?.commentModeration]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (commentModeration: CommentModerationConfig | null) => {
+      await apiRequest("PATCH", `/api/instagram/accounts/${accountId}`, { commentModeration });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+      toast({ title: "Moderação salva", description: "Vale para os próximos comentários desta conta." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar a moderação de comentários.", variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    const blockedUsernames = toUsernames(blockedText);
+    saveMutation.mutate(autoHideSpam || autoHideOffensive || blockedUsernames.length > 0
+      ? { autoHideSpam, autoHideOffensive, blockedUsernames }
+      : null);
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Card data-testid="card-comment-moderation">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <EyeOff className="h-5 w-5" />
+            Moderação de comentários
+          </CardTitle>
+          {accounts.length > 1 && (
+            <Select value={accountId ? String(accountId) : undefined} onValueChange={(value) => setAccountId(Number(value))}>
+              <SelectTrigger className="w-[220px]" data-testid="select-comment-moderation-account">
+                <SelectValue placeholder="Conta" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={String(a.id)}>
+                    @{a.instagramUsername || a.instagramAccountId}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <CardDescription>
+          Comentários ocultados aqui somem da publicação para os outros seguidores e não recebem resposta.
+          Todas as ações ficam registradas no histórico do comentário.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor="moderation-spam">Ocultar spam</Label>
+            <p className="text-xs text-muted-foreground mt-1">Divulgação de outros perfis, golpes, correntes e bots.</p>
+          </div>
+          <Switch id="moderation-spam" checked={autoHideSpam} onCheckedChange={setAutoHideSpam} data-testid="switch-moderation-spam" />
+        </div>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Label htmlFor="moderation-offensive">Ocultar comentários ofensivos</Label>
+            <p className="text-xs text-muted-foreground mt-1">Insultos, discurso de ódio e assédio. Críticas educadas não são ocultadas.</p>
+          </div>
+          <Switch id="moderation-offensive" checked={autoHideOffensive} onCheckedChange={setAutoHideOffensive} data-testid="switch-moderation-offensive" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="moderation-blocked">Usuários bloqueados</Label>
+          <Textarea
+            id="moderation-blocked"
+            value={blockedText}
+            onChange={(e) => setBlockedText(e.target.value)}
+            placeholder={"@perfil_spam\n@outro_usuario"}
+            rows={4}
+            data-testid="textarea-moderation-blocked"
+          />
+          <p className="text-xs text-muted-foreground">
+            Um por linha. Os comentários desses usuários são ocultados assim que chegam.
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saveMutation.isPending || !accountId} data-testid="button-save-comment-moderation">
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Salvar moderação
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Ban, Eye, EyeOff, Loader2, ShieldEllipsis, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { TeamData } from "@/pages/team";
+import type {
+  CommentModerationAction,
+  CommentModerationLogEntry,
+  CommentModerationReason,
+  MessageWithResponse,
+} from "@shared/schema";
+
+const ACTION_LABELS: Record<CommentModerationAction, string> = {
+  hide: "Ocultado",
+  unhide: "Reexibido",
+  delete: "Excluído",
+};
+
+const REASON_LABELS: Record<CommentModerationReason, string> = {
+  manual: "",
+  spam: "spam",
+  offensive: "ofensivo",
+  blocklist: "usuário bloqueado",
+};
+
+// Badge text for instagram_messages.moderation_status
+export const MODERATION_STATUS_LABELS: Record<string, string> = {
+  hidden: "Oculto",
+  deleted: "Excluído",
+};
+
+// Same "N: {json}" unwrapping the queue uses for API errors
+function errorMessage(error: Error, fallback: string): string {
+  const match = error.message.match(/\d+:\s*(.+)/);
+  if (!match) return fallback;
+  try {
+    return JSON.parse(match[1]).error || fallback;
+  } catch {
+    return match[1];
+  }
+}
+
+interface CommentModerationMenuProps {
+  message: MessageWithResponse;
+}
+
+// Hide / unhide / delete a comment on Instagram and ban its author, with the audit trail underneath
+export function CommentModerationMenu({ message }: CommentModerationMenuProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data: log = [], isLoading: isLogLoading } = useQuery<CommentModerationLogEntry[]>({
+    queryKey: [`/api/messages/${message.id}/moderation`],
+    enabled: open,
+  });
+  const { data: team } = useQuery<TeamData>({
+    queryKey: ["/api/team"],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+    });
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: CommentModerationAction) => {
+      await apiRequest("POST", `/api/messages/${message.id}/moderation`, { action });
+      return action;
+    },
+    onSuccess: (action) => {
+      invalidate();
+      toast({ title: `Comentário ${ACTION_LABELS[action].toLowerCase()} no Instagram` });
+    },
+    onError: (error: Error) => {
+      invalidate(); // The failed attempt is in the history too
+      toast({ title: "Erro", description: errorMessage(error, "Não foi possível moderar o comentário."), variant: "destructive" });
+    },
+  });
+
+  const blockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/messages/${message.id}/block-author`);
+      return res.json() as Promise<{ username: string; hidden: boolean; error?: string }>;
+    },
+    onSuccess: (data) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+      toast({
+        title: `@${data.username} bloqueado`,
+        description: data.hidden
+          ? "O comentário foi ocultado e os próximos deste usuário também serão."
+          : `Os próximos comentários serão ocultados. Este não pôde ser ocultado: ${data.error}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: errorMessage(error, "Não foi possível bloquear o usuário."), variant: "destructive" });
+    },
+  });
+
+  const isDeleted = message.moderationStatus === "deleted";
+  const isBusy = actionMutation.isPending || blockMutation.isPending;
+  const actorName = (entry: CommentModerationLogEntry) =>
+    entry.actorUserId
+      ? team?.members.find((m) => m.userId === entry.actorUserId)?.name ?? "Membro removido"
+      : "Automático";
+
+  return (
+    // Keeps clicks inside the menu from opening the message
+    <div onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" disabled={isBusy} data-testid={`button-moderate-${message.id}`}>
+            {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldEllipsis className="h-4 w-4" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          {!isDeleted && (
+            <>
+              {message.moderationStatus === "hidden" ? (
+                <DropdownMenuItem onClick={() => actionMutation.mutate("unhide")} data-testid={`menu-unhide-${message.id}`}>
+                  <Eye className="h-4 w-4 mr-2" />
+                  Reexibir no Instagram
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onClick={() => actionMutation.mutate("hide")} data-testid={`menu-hide-${message.id}`}>
+                  <EyeOff className="h-4 w-4 mr-2" />
+                  Ocultar no Instagram
+                </DropdownMenuItem>
+              )}
+              {message.senderUsername && (
+                <DropdownMenuItem onClick={() => blockMutation.mutate()} data-testid={`menu-block-${message.id}`}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Bloquear @{message.senderUsername}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem
+                onClick={() => setConfirmDelete(true)}
+                className="text-destructive focus:text-destructive"
+                data-testid={`menu-delete-${message.id}`}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Excluir do Instagram
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Histórico</DropdownMenuLabel>
+          {isLogLoading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : log.length === 0 ? (
+            <p className="px-2 pb-2 text-xs text-muted-foreground">Nenhuma ação registrada.</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto px-2 pb-2 space-y-1.5">
+              {log.map((entry) => (
+                <div key={entry.id} className="text-xs" data-testid={`moderation-log-${entry.id}`}>
+                  <p>
+                    <span className={entry.success ? "font-medium" : "font-medium text-destructive"}>
+                      {ACTION_LABELS[entry.action as CommentModerationAction] ?? entry.action}
+                      {!entry.success && " (falhou)"}
+                    </span>
+                    {" · "}
+                    {actorName(entry)}
+                    {REASON_LABELS[entry.reason as CommentModerationReason] && ` · ${REASON_LABELS[entry.reason as CommentModerationReason]}`}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {format(new Date(entry.createdAt), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    {(entry.error || entry.detail) && ` · ${entry.error || entry.detail}`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir comentário?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O comentário de @{message.senderUsername} será apagado da publicação no Instagram. Essa ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => actionMutation.mutate("delete")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid={`button-confirm-delete-${message.id}`}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
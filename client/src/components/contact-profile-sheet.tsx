@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ExternalLink, Loader2, Save, UserRound } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
+import { cn } from "@/lib/utils";
+
+import type { ContactInput, ContactProfile, ContactSentiment, LeadStage } from "@shared/schema";
+
+interface ContactProfileSheetProps {
+  igsid: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SENTIMENT_COLORS: Record<ContactSentiment, string> = {
+  positive: "bg-green-500",
+  neutral: "bg-muted-foreground/40",
+  negative: "bg-red-500",
+};
+
+const SENTIMENT_LABELS: Record<ContactSentiment, string> = {
+  positive: "Positiva",
+  neutral: "Neutra",
+  negative: "Negativa",
+};
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: "Novo",
+  contacted: "Contatado",
+  qualified: "Qualificado",
+  customer: "Cliente",
+  lost: "Perdido",
+};
+
+const NO_STAGE = "none";
+
+// Custom fields are edited as one "campo: valor" per line
+function fieldsToText(fields: Record<string, string>) {
+  return Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join("\n");
+}
+
+function textToFields(text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim();
+    if (key) fields[key] = line.slice(separator + 1).trim();
+  }
+  return fields;
+}
+
+const TREND_LABELS: Record<NonNullable<ContactProfile["sentimentTrend"]>, string> = {
+  improving: "Melhorando",
+  worsening: "Piorando",
+  stable: "Estável",
+};
+
+function formatDate(value: Date | string | null) {
+  return value ? format(new Date(value), "dd/MM/yyyy") : "—";
+}
+
+export function ContactProfileSheet({ igsid, open, onOpenChange }: ContactProfileSheetProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [leadStage, setLeadStage] = useState<LeadStage | typeof NO_STAGE>(NO_STAGE);
+  const [fieldsText, setFieldsText] = useState("");
+
+  const { data: profile, isLoading, isError } = useQuery<ContactProfile>({
+    queryKey: ["/api/contacts", igsid],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    setNotes(profile?.notes || "");
+    setTagsText(profile?.tags.join(", ") || "");
+    setEmail(profile?.email || "");
+    setPhone(profile?.phone || "");
+    setLeadStage(profile?.leadStage || NO_STAGE);
+    setFieldsText(fieldsToText(profile?.customFields || {}));
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ContactInput) => {
+      const res = await apiRequest("PATCH", `/api/contacts/${igsid}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts", igsid] });
+      // Contacts list queries are keyed by their full URL
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/contacts?"),
+      });
+      toast({ title: "Contato atualizado", description: "A IA vai considerar as anotações nas próximas respostas." });
+    },
+    onError: (error: Error) => {
+      const invalid = error.message.startsWith("400");
+      toast({
+        title: "Erro",
+        description: invalid ? "Confira o e-mail, o telefone e os campos." : "Falha ao salvar as anotações.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      notes: notes.trim() || null,
+      tags: tagsText.split(",").map((tag) => tag.trim()).filter(Boolean),
+      email: email.trim() || null,
+      phone: phone.trim() || null,
+      leadStage: leadStage === NO_STAGE ? null : leadStage,
+      customFields: textToFields(fieldsText),
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <UserRound className="h-5 w-5" />
+            Perfil do contato
+          </SheetTitle>
+          <SheetDescription>
+            Tudo o que já trocamos com esta pessoa, em DMs e comentários.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {isError && (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Não foi possível carregar o perfil deste contato.
+          </p>
+        )}
+
+        {profile && (
+          <div className="mt-4 space-y-4" data-testid="contact-profile">
+            <div className="flex items-center gap-3">
+              <Avatar className="h-12 w-12 border">
+                <AvatarImage src={profile.avatar || undefined} />
+                <AvatarFallback className={`text-xs text-white font-semibold ${getAvatarGradient(profile.username || igsid)}`}>
+                  {getInitials(profile.name || profile.username || "?")}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="font-medium truncate">{profile.name || "Sem nome"}</p>
+                {profile.username && <p className="text-sm text-muted-foreground">@{profile.username}</p>}
+                {profile.followersCount !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    {profile.followersCount.toLocaleString("pt-BR")} seguidores
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Primeiro contato</p>
+                <p className="font-medium">{formatDate(profile.firstSeenAt)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Última interação</p>
+                <p className="font-medium">{formatDate(profile.lastSeenAt)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">DMs</p>
+                <p className="font-medium">{profile.dmCount}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Comentários</p>
+                <p className="font-medium">{profile.commentCount}</p>
+              </div>
+            </div>
+
+            {profile.sentiment.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs text-muted-foreground">Tom das mensagens (mais antigas → recentes)</p>
+                  {profile.sentimentTrend && (
+                    <Badge variant="outline" className="text-xs" data-testid="badge-sentiment-trend">
+                      {TREND_LABELS[profile.sentimentTrend]}
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {profile.sentiment.map((point, index) => (
+                    <span
+                      key={index}
+                      className={cn("h-2.5 w-2.5 rounded-full", SENTIMENT_COLORS[point.sentiment])}
+                      title={`${formatDate(point.at)} · ${SENTIMENT_LABELS[point.sentiment]}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Dados do lead</h4>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="E-mail"
+                  className="text-sm"
+                  data-testid="input-contact-email"
+                />
+                <Input
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  placeholder="Telefone"
+                  className="text-sm"
+                  data-testid="input-contact-phone"
+                />
+              </div>
+              <Select value={leadStage} onValueChange={(v) => setLeadStage(v as LeadStage | typeof NO_STAGE)}>
+                <SelectTrigger className="text-sm" data-testid="select-contact-lead-stage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STAGE}>Sem etapa</SelectItem>
+                  {(Object.keys(LEAD_STAGE_LABELS) as LeadStage[]).map((stage) => (
+                    <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Textarea
+                value={fieldsText}
+                onChange={(e) => setFieldsText(e.target.value)}
+                placeholder={"Campos extras, um por linha (ex.: cidade: Campinas)"}
+                className="min-h-[60px] text-sm font-mono"
+                data-testid="textarea-contact-fields"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Anotações da equipe</h4>
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Ex.: cliente desde 2022, prefere ser chamada pelo apelido..."
+                className="min-h-[80px] text-sm"
+                maxLength={2000}
+                data-testid="textarea-contact-notes"
+              />
+              <Input
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
+                placeholder="Tags separadas por vírgula (ex.: cliente, vip)"
+                className="text-sm"
+                data-testid="input-contact-tags"
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">A IA usa estas anotações ao responder esta pessoa.</p>
+                <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-contact">
+                  {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Salvar
+                </Button>
+              </div>
+            </div>
+
+            {profile.posts.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Posts em que comentou</h4>
+                  {profile.posts.map((post) => (
+                    <div key={post.postId} className="flex items-center gap-2 text-sm">
+                      {post.thumbnailUrl && (
+                        <img src={post.thumbnailUrl} alt="" className="h-8 w-8 rounded object-cover border" />
+                      )}
+                      <p className="flex-1 min-w-0 truncate text-muted-foreground">{post.caption || "Sem legenda"}</p>
+                      <Badge variant="secondary" className="text-xs">{post.comments}</Badge>
+                      {post.permalink && (
+                        <a href={post.permalink} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                          <ExternalLink className="h-3.5 w-3.5" />
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {profile.previousReplies.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Respostas anteriores</h4>
+                  {profile.previousReplies.map((reply, index) => (
+                    <div key={index} className="rounded-md border p-2 text-sm space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>{reply.channel === "dm" ? "DM" : "Comentário"}</span>
+                        <span>{formatDate(reply.at)}</span>
+                      </div>
+                      {reply.message && <p className="text-muted-foreground italic line-clamp-2">"{reply.message}"</p>}
+                      <p className="whitespace-pre-wrap">{reply.reply}</p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
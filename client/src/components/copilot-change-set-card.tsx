@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, ShieldCheck, X, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type {
+  CopilotChange,
+  CopilotChangeResult,
+  CopilotChangeSet,
+  CopilotChangeSetStatus,
+  ContactSegmentFilter,
+} from "@shared/schema";
+
+const STATUS_LABELS: Record<CopilotChangeSetStatus, string> = {
+  pending: "Aguardando confirmação",
+  applying: "Aplicando",
+  applied: "Aplicado",
+  partial: "Aplicado em parte",
+  failed: "Falhou",
+  rejected: "Descartado",
+};
+
+function describeFilter(filter: ContactSegmentFilter) {
+  const parts = [
+    filter.q && `"${filter.q}"`,
+    filter.tags?.length && `tags ${filter.tags.join(", ")}`,
+    filter.keywords?.length && `falaram ${filter.keywords.join(", ")}`,
+    filter.leadStages?.length && `etapa ${filter.leadStages.join(", ")}`,
+    filter.messageType && (filter.messageType === "dm" ? "por DM" : "por comentário"),
+    filter.activeWithinDays && `nos últimos ${filter.activeWithinDays} dias`,
+    filter.hasEmail && "com e-mail",
+    filter.hasPhone && "com telefone",
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "todos os contatos";
+}
+
+function ChangeSummary({ change }: { change: CopilotChange }) {
+  switch (change.type) {
+    case "add_guideline":
+      return (
+        <>
+          <p className="font-medium">Nova diretriz (prioridade {change.priority ?? 1})</p>
+          <p className="text-muted-foreground whitespace-pre-wrap">{change.rule}</p>
+        </>
+      );
+    case "update_guideline":
+      return (
+        <>
+          <p className="font-medium">
+            Editar diretriz #{change.id}
+            {change.priority !== undefined && ` · prioridade ${change.priority}`}
+            {change.isActive !== undefined && (change.isActive ? " · reativar" : " · desativar")}
+          </p>
+          {change.rule && <p className="text-muted-foreground whitespace-pre-wrap">{change.rule}</p>}
+        </>
+      );
+    case "add_manual_qa":
+      return (
+        <>
+          <p className="font-medium">Nova correção de ouro</p>
+          <p className="text-muted-foreground">P: {change.question}</p>
+          <p className="text-muted-foreground">R: {change.answer}</p>
+        </>
+      );
+    case "update_system_prompt":
+      return (
+        <>
+          <p className="font-medium">Substituir o System Prompt</p>
+          <pre className="max-h-40 overflow-auto rounded border bg-muted/30 p-2 text-xs whitespace-pre-wrap">{change.prompt}</pre>
+        </>
+      );
+    case "tag_contacts":
+      return (
+        <>
+          <p className="font-medium">Adicionar tags: {change.tags.join(", ")}</p>
+          <p className="text-muted-foreground">Contatos: {describeFilter(change.filter)}</p>
+        </>
+      );
+    case "regenerate_drafts":
+      return (
+        <p className="font-medium">
+          Regenerar {change.messageIds.length} rascunho(s) pendente(s): {change.messageIds.map((id) => `#${id}`).join(", ")}
+        </p>
+      );
+  }
+}
+
+// Changes proposed by the copilot in one answer, applied only after the user confirms
+export function CopilotChangeSetCard({ changeSet: initial }: { changeSet: CopilotChangeSet }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [changeSet, setChangeSet] = useState(initial);
+
+  const changes = changeSet.changes as CopilotChange[];
+  const results = (changeSet.results as CopilotChangeResult[] | null) ?? [];
+  const status = changeSet.status as CopilotChangeSetStatus;
+
+  const decideMutation = useMutation({
+    mutationFn: async (decision: "apply" | "reject") => {
+      const res = await apiRequest("POST", `/api/copilot/change-sets/${changeSet.id}/${decision}`);
+      return res.json() as Promise<CopilotChangeSet>;
+    },
+    onSuccess: (updated, decision) => {
+      setChangeSet(updated);
+      if (decision === "reject") return;
+
+      // Whatever the set touched is refetched wherever it is shown
+      for (const key of ["/api/settings", "/api/brain/prompt-versions", "/api/brain/guidelines", "/api/brain/manual-qa"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      queryClient.invalidateQueries({
+        predicate: (query) => /^\/api\/(contacts|messages)/.test(String(query.queryKey[0])),
+      });
+      toast({
+        title: STATUS_LABELS[updated.status as CopilotChangeSetStatus] ?? updated.status,
+        description: updated.status === "applied" ? "As alterações do copiloto foram aplicadas." : "Veja o resultado de cada alteração.",
+        variant: updated.status === "failed" ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409")
+          ? "Estas alterações já foram aplicadas ou descartadas."
+          : "Não foi possível concluir a operação.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="w-full rounded-lg border bg-muted/20 p-3 space-y-3 mt-2" data-testid={`copilot-change-set-${changeSet.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          {changes.length} alteração(ões) proposta(s)
+        </p>
+        <Badge variant={status === "failed" ? "destructive" : status === "pending" ? "outline" : "secondary"} className="text-xs">
+          {STATUS_LABELS[status] ?? status}
+        </Badge>
+      </div>
+
+      <ol className="space-y-2">
+        {changes.map((change, index) => {
+          const result = results[index];
+          return (
+            <li key={index} className="rounded-md border bg-background p-2 text-sm space-y-1">
+              <ChangeSummary change={change} />
+              {result && (
+                <p
+                  className={cn(
+                    "text-xs flex items-center gap-1",
+                    result.status === "applied" ? "text-green-600 dark:text-green-400" : "text-destructive"
+                  )}
+                >
+                  {result.status === "applied" ? <CheckCircle2 className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                  {result.detail}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {status === "pending" && (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => decideMutation.mutate("reject")}
+            disabled={decideMutation.isPending}
+            data-testid={`button-reject-change-set-${changeSet.id}`}
+          >
+            <X className="h-3 w-3 mr-1" />
+            Descartar
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => decideMutation.mutate("apply")}
+            disabled={decideMutation.isPending}
+            data-testid={`button-apply-change-set-${changeSet.id}`}
+          >
+            {decideMutation.isPending ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <CheckCircle2 className="h-3 w-3 mr-1" />}
+            Aplicar
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
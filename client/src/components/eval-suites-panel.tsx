@@ -0,0 +1,725 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ClipboardCheck,
+  Download,
+  GitCompare,
+  Loader2,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { diffWords, type DiffPart } from "@/lib/text-diff";
+import type {
+  EvalCase,
+  EvalCaseInput,
+  EvalComparison,
+  EvalResult,
+  EvalRun,
+  EvalScores,
+  EvalSuite,
+  EvalSuiteSummary,
+} from "@shared/schema";
+
+interface SuiteDetail {
+  suite: EvalSuite;
+  cases: EvalCase[];
+  runs: EvalRun[];
+}
+
+const RUN_STATUS_LABELS: Record<string, string> = {
+  running: "Executando",
+  completed: "Concluída",
+  failed: "Falhou",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  manual_qa: "Correção",
+  ai_response: "Aprovada",
+};
+
+const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+function formatScore(score: number | null | undefined) {
+  return score === null || score === undefined ? "—" : `${Math.round(score * 100)}%`;
+}
+
+function scoreColor(score: number | null | undefined) {
+  if (score === null || score === undefined) return "text-muted-foreground";
+  if (score >= 0.8) return "text-green-600 dark:text-green-400";
+  if (score >= 0.6) return "text-yellow-600 dark:text-yellow-400";
+  return "text-red-600 dark:text-red-400";
+}
+
+function ScoreBadges({ scores }: { scores: EvalScores | null }) {
+  if (!scores) return null;
+  const metTraits = scores.traits.filter((t) => t.met).length;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {scores.judge !== null && <Badge variant="outline" className="text-xs">Juiz {formatScore(scores.judge)}</Badge>}
+      {scores.guidelines !== null && <Badge variant="outline" className="text-xs">Diretrizes {formatScore(scores.guidelines)}</Badge>}
+      {scores.similarity !== null && <Badge variant="outline" className="text-xs">Similaridade {formatScore(scores.similarity)}</Badge>}
+      {scores.traits.length > 0 && (
+        <Badge variant="outline" className="text-xs" title={scores.traits.map((t) => `${t.met ? "✓" : "✗"} ${t.trait}`).join("\n")}>
+          Características {metTraits}/{scores.traits.length}
+        </Badge>
+      )}
+      {scores.length === false && <Badge variant="destructive" className="text-xs">Longa demais</Badge>}
+      {scores.forbidden.length > 0 && (
+        <Badge variant="destructive" className="text-xs" title={scores.forbidden.join(", ")}>
+          Frase proibida
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+function ResultColumn({ result, diff, side }: { result: EvalResult | null; diff: DiffPart[] | null; side: "a" | "b" }) {
+  if (!result) {
+    return <p className="text-sm text-muted-foreground italic">Aguardando...</p>;
+  }
+  if (result.error) {
+    return <p className="text-sm text-destructive">{result.error}</p>;
+  }
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn("text-sm font-semibold", scoreColor(result.score))}>{formatScore(result.score)}</span>
+        <ScoreBadges scores={result.scores as EvalScores | null} />
+      </div>
+      <p className="text-sm whitespace-pre-wrap">
+        {diff
+          ? diff
+              .filter((part) => part.kind === "same" || (side === "a" ? part.kind === "removed" : part.kind === "added"))
+              .map((part, index) => (
+                <span
+                  key={index}
+                  className={cn(
+                    part.kind === "removed" && "bg-red-500/15 line-through decoration-red-500/60",
+                    part.kind === "added" && "bg-green-500/20"
+                  )}
+                >
+                  {part.text}
+                </span>
+              ))
+          : result.response}
+      </p>
+      {result.judgeNotes && <p className="text-xs text-muted-foreground italic">{result.judgeNotes}</p>}
+    </div>
+  );
+}
+
+function ComparisonView({ runA, runB, onClose }: { runA: number; runB: number; onClose: () => void }) {
+  const { data, isLoading } = useQuery<EvalComparison>({
+    queryKey: [`/api/evals/compare?a=${runA}&b=${runB}`],
+    refetchInterval: (query) => {
+      const comparison = query.state.data;
+      return comparison && (comparison.a.status === "running" || comparison.b.status === "running") ? 3000 : false;
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const header = (run: EvalRun) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="font-medium truncate">{run.label}</p>
+        <Badge variant={run.status === "failed" ? "destructive" : "secondary"} className="text-xs">
+          {RUN_STATUS_LABELS[run.status] || run.status}
+        </Badge>
+      </div>
+      <p className={cn("text-2xl font-semibold", scoreColor(run.avgScore))}>{formatScore(run.avgScore)}</p>
+      {run.status === "running" && <Progress value={(run.completedCount / Math.max(1, run.caseCount)) * 100} className="h-1.5" />}
+      {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4" data-testid="eval-comparison">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium flex items-center gap-2">
+          <GitCompare className="h-4 w-4" />
+          Comparação caso a caso
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Fechar
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <Card><CardContent className="p-4">{header(data.a)}</CardContent></Card>
+        <Card><CardContent className="p-4">{header(data.b)}</CardContent></Card>
+      </div>
+      {data.cases.map(({ case: evalCase, a, b }) => {
+        const diff = a?.response && b?.response ? diffWords(a.response, b.response) : null;
+        const delta = a?.score != null && b?.score != null ? b.score - a.score : null;
+        return (
+          <Card key={evalCase.id} data-testid={`eval-comparison-case-${evalCase.id}`}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium">"{evalCase.message}"</p>
+                  {evalCase.goldenAnswer && (
+                    <p className="text-xs text-muted-foreground">Referência: {evalCase.goldenAnswer}</p>
+                  )}
+                </div>
+                {delta !== null && Math.abs(delta) >= 0.05 && (
+                  <Badge variant={delta > 0 ? "default" : "destructive"} className="text-xs shrink-0">
+                    {delta > 0 ? "+" : ""}{Math.round(delta * 100)} pts
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <ResultColumn result={a} diff={diff} side="a" />
+                <ResultColumn result={b} diff={diff} side="b" />
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+export function EvalSuitesPanel({ currentPrompt }: { currentPrompt: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedSuiteId, setSelectedSuiteId] = useState<number | null>(null);
+  const [selectedRuns, setSelectedRuns] = useState<number[]>([]);
+  const [comparing, setComparing] = useState<[number, number] | null>(null);
+
+  const [suiteDialogOpen, setSuiteDialogOpen] = useState(false);
+  const [suiteName, setSuiteName] = useState("");
+  const [suiteForbidden, setSuiteForbidden] = useState("");
+
+  const [caseDialogOpen, setCaseDialogOpen] = useState(false);
+  const [caseMessage, setCaseMessage] = useState("");
+  const [caseType, setCaseType] = useState<"dm" | "comment">("dm");
+  const [caseGolden, setCaseGolden] = useState("");
+  const [caseTraits, setCaseTraits] = useState("");
+  const [caseMaxLength, setCaseMaxLength] = useState("");
+
+  const [compareDialogOpen, setCompareDialogOpen] = useState(false);
+  const [labelA, setLabelA] = useState("Prompt atual");
+  const [labelB, setLabelB] = useState("Candidato");
+  const [promptB, setPromptB] = useState("");
+
+  const { data: suites = [], isLoading } = useQuery<EvalSuiteSummary[]>({
+    queryKey: ["/api/evals/suites"],
+  });
+
+  const { data: detail } = useQuery<SuiteDetail>({
+    queryKey: ["/api/evals/suites", selectedSuiteId],
+    enabled: selectedSuiteId !== null,
+    refetchInterval: (query) => (query.state.data?.runs.some((run) => run.status === "running") ? 3000 : false),
+  });
+
+  const invalidateSuite = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/evals/suites"] });
+  };
+
+  const createSuiteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/evals/suites", {
+        name: suiteName.trim(),
+        forbiddenPhrases: splitLines(suiteForbidden),
+      });
+      return res.json() as Promise<EvalSuite>;
+    },
+    onSuccess: (suite) => {
+      invalidateSuite();
+      setSelectedSuiteId(suite.id);
+      setSuiteDialogOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao criar a suíte.", variant: "destructive" });
+    },
+  });
+
+  const deleteSuiteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/evals/suites/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSuite();
+      setSelectedSuiteId(null);
+      setComparing(null);
+      toast({ title: "Suíte removida" });
+    },
+  });
+
+  const createCaseMutation = useMutation({
+    mutationFn: async (data: EvalCaseInput) => {
+      await apiRequest("POST", `/api/evals/suites/${selectedSuiteId}/cases`, data);
+    },
+    onSuccess: () => {
+      invalidateSuite();
+      setCaseDialogOpen(false);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao salvar o caso.", variant: "destructive" });
+    },
+  });
+
+  const deleteCaseMutation = useMutation({
+    mutationFn: async (caseId: number) => {
+      await apiRequest("DELETE", `/api/evals/suites/${selectedSuiteId}/cases/${caseId}`);
+    },
+    onSuccess: invalidateSuite,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (source: "manual_qa" | "ai_response") => {
+      const res = await apiRequest("POST", `/api/evals/suites/${selectedSuiteId}/import`, { source, limit: 20 });
+      return res.json() as Promise<{ imported: number }>;
+    },
+    onSuccess: ({ imported }) => {
+      invalidateSuite();
+      toast({
+        title: imported > 0 ? `${imported} casos importados` : "Nada novo para importar",
+        description: imported > 0 ? "A resposta original vira a referência de cada caso." : undefined,
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao importar casos.", variant: "destructive" });
+    },
+  });
+
+  const startRun = async (label: string, systemPrompt: string | null) => {
+    const res = await apiRequest("POST", `/api/evals/suites/${selectedSuiteId}/runs`, { label, systemPrompt });
+    return res.json() as Promise<EvalRun>;
+  };
+
+  const runMutation = useMutation({
+    mutationFn: () => startRun("Prompt atual", null),
+    onSuccess: invalidateSuite,
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const compareMutation = useMutation({
+    mutationFn: async () => {
+      const a = await startRun(labelA.trim() || "A", null);
+      const b = await startRun(labelB.trim() || "B", promptB.trim());
+      return [a.id, b.id] as [number, number];
+    },
+    onSuccess: (pair) => {
+      invalidateSuite();
+      setCompareDialogOpen(false);
+      setComparing(pair);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const selectSuite = (id: number) => {
+    setSelectedSuiteId(id);
+    setSelectedRuns([]);
+    setComparing(null);
+  };
+
+  const toggleRun = (id: number) => {
+    setSelectedRuns((prev) => (prev.includes(id) ? prev.filter((r) => r !== id) : [...prev, id].slice(-2)));
+  };
+
+  const openCaseDialog = () => {
+    setCaseMessage("");
+    setCaseType("dm");
+    setCaseGolden("");
+    setCaseTraits("");
+    setCaseMaxLength("");
+    setCaseDialogOpen(true);
+  };
+
+  const openCompareDialog = () => {
+    setPromptB(currentPrompt);
+    setCompareDialogOpen(true);
+  };
+
+  const cases = detail?.cases ?? [];
+  const runs = detail?.runs ?? [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6 flex-1 min-h-0 overflow-y-auto">
+      <Card className="h-fit">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Suítes</CardTitle>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setSuiteName("");
+                setSuiteForbidden("");
+                setSuiteDialogOpen(true);
+              }}
+              data-testid="button-new-eval-suite"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Nova
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {!isLoading && suites.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma suíte ainda.</p>
+          )}
+          {suites.map((suite) => (
+            <button
+              key={suite.id}
+              onClick={() => selectSuite(suite.id)}
+              className={cn(
+                "w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted",
+                selectedSuiteId === suite.id && "bg-muted"
+              )}
+              data-testid={`eval-suite-${suite.id}`}
+            >
+              <p className="font-medium truncate">{suite.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {suite.caseCount} casos · última nota{" "}
+                <span className={scoreColor(suite.lastRun?.avgScore)}>{formatScore(suite.lastRun?.avgScore)}</span>
+              </p>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {!detail ? (
+        <EmptyState
+          icon={ClipboardCheck}
+          title="Testes de regressão da IA"
+          description="Crie uma suíte com mensagens reais e respostas de referência. Depois de mudar o prompt, as diretrizes ou a identidade, rode a suíte e veja se as respostas pioraram."
+        />
+      ) : (
+        <div className="space-y-6 min-w-0">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>{detail.suite.name}</CardTitle>
+                  <CardDescription>
+                    {cases.length} casos
+                    {(detail.suite.forbiddenPhrases as string[]).length > 0 &&
+                      ` · ${(detail.suite.forbiddenPhrases as string[]).length} frases proibidas`}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 justify-end">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" disabled={importMutation.isPending} data-testid="button-import-eval-cases">
+                        {importMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+                        Importar
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => importMutation.mutate("manual_qa")}>
+                        Correções de ouro
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => importMutation.mutate("ai_response")}>
+                        Respostas aprovadas
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button variant="outline" size="sm" onClick={openCaseDialog} data-testid="button-new-eval-case">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Caso
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={openCompareDialog}
+                    disabled={cases.length === 0}
+                    data-testid="button-compare-prompts"
+                  >
+                    <GitCompare className="h-4 w-4 mr-1" />
+                    Comparar prompts
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => runMutation.mutate()}
+                    disabled={cases.length === 0 || runMutation.isPending}
+                    data-testid="button-run-eval"
+                  >
+                    {runMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                    Rodar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteSuiteMutation.mutate(detail.suite.id)}
+                    title="Excluir suíte"
+                    data-testid="button-delete-eval-suite"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {runs.length === 0 && <p className="text-sm text-muted-foreground">Nenhuma execução ainda.</p>}
+              {runs.map((run) => (
+                <div key={run.id} className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm" data-testid={`eval-run-${run.id}`}>
+                  <Checkbox
+                    checked={selectedRuns.includes(run.id)}
+                    onCheckedChange={() => toggleRun(run.id)}
+                    disabled={run.status === "failed" && run.completedCount === 0}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {run.label}
+                      {run.systemPrompt && <span className="text-xs text-muted-foreground font-normal"> · prompt alternativo</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(run.createdAt), "dd/MM/yyyy HH:mm")} · {run.completedCount}/{run.caseCount} casos
+                      {run.error && <span className="text-destructive"> · {run.error}</span>}
+                    </p>
+                  </div>
+                  {run.status === "running" ? (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  ) : (
+                    <span className={cn("font-semibold", scoreColor(run.avgScore))}>{formatScore(run.avgScore)}</span>
+                  )}
+                  <Badge variant={run.status === "failed" ? "destructive" : "secondary"} className="text-xs">
+                    {RUN_STATUS_LABELS[run.status] || run.status}
+                  </Badge>
+                </div>
+              ))}
+              {runs.length > 1 && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={selectedRuns.length !== 2}
+                    onClick={() => setComparing([selectedRuns[0], selectedRuns[1]])}
+                    data-testid="button-compare-runs"
+                  >
+                    Comparar selecionadas
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {comparing ? (
+            <ComparisonView runA={comparing[0]} runB={comparing[1]} onClose={() => setComparing(null)} />
+          ) : (
+            <div className="space-y-2">
+              {cases.map((evalCase) => (
+                <Card key={evalCase.id} data-testid={`eval-case-${evalCase.id}`}>
+                  <CardContent className="p-3 flex items-start gap-3">
+                    <div className="flex-1 min-w-0 space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">{evalCase.messageType === "comment" ? "Comentário" : "DM"}</Badge>
+                        <Badge variant="secondary" className="text-xs">{SOURCE_LABELS[evalCase.source] || evalCase.source}</Badge>
+                      </div>
+                      <p className="font-medium">"{evalCase.message}"</p>
+                      {evalCase.goldenAnswer && <p className="text-muted-foreground">→ {evalCase.goldenAnswer}</p>}
+                      {(evalCase.expectedTraits as string[]).length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {(evalCase.expectedTraits as string[]).map((trait) => (
+                            <Badge key={trait} variant="outline" className="text-xs font-normal">{trait}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => deleteCaseMutation.mutate(evalCase.id)}
+                      title="Remover caso"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <Dialog open={suiteDialogOpen} onOpenChange={setSuiteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova suíte de avaliação</DialogTitle>
+            <DialogDescription>Um conjunto de casos que a IA precisa continuar acertando.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Nome</Label>
+              <Input value={suiteName} onChange={(e) => setSuiteName(e.target.value)} placeholder="Perguntas de preço" maxLength={100} />
+            </div>
+            <div className="space-y-1">
+              <Label>Frases proibidas (uma por linha, valem para todos os casos)</Label>
+              <Textarea
+                value={suiteForbidden}
+                onChange={(e) => setSuiteForbidden(e.target.value)}
+                placeholder={"Como uma IA\nNão posso ajudar"}
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuiteDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => createSuiteMutation.mutate()} disabled={!suiteName.trim() || createSuiteMutation.isPending}>
+              Criar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={caseDialogOpen} onOpenChange={setCaseDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Novo caso</DialogTitle>
+            <DialogDescription>A mensagem recebida e o que se espera da resposta.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_140px] gap-2">
+              <div className="space-y-1">
+                <Label>Mensagem</Label>
+                <Textarea value={caseMessage} onChange={(e) => setCaseMessage(e.target.value)} className="min-h-[60px]" />
+              </div>
+              <div className="space-y-1">
+                <Label>Tipo</Label>
+                <Select value={caseType} onValueChange={(v) => setCaseType(v as "dm" | "comment")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dm">DM</SelectItem>
+                    <SelectItem value="comment">Comentário</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Resposta de referência (opcional)</Label>
+              <Textarea value={caseGolden} onChange={(e) => setCaseGolden(e.target.value)} className="min-h-[60px]" />
+            </div>
+            <div className="space-y-1">
+              <Label>Características esperadas (uma por linha)</Label>
+              <Textarea
+                value={caseTraits}
+                onChange={(e) => setCaseTraits(e.target.value)}
+                placeholder={"Indica o link da bio\nNão informa preço por DM"}
+                className="min-h-[60px]"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Tamanho máximo (caracteres, opcional)</Label>
+              <Input type="number" min={10} value={caseMaxLength} onChange={(e) => setCaseMaxLength(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCaseDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() =>
+                createCaseMutation.mutate({
+                  message: caseMessage.trim(),
+                  messageType: caseType,
+                  goldenAnswer: caseGolden.trim() || null,
+                  expectedTraits: splitLines(caseTraits),
+                  forbiddenPhrases: [],
+                  maxLength: parseInt(caseMaxLength) || null,
+                })
+              }
+              disabled={!caseMessage.trim() || createCaseMutation.isPending}
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={compareDialogOpen} onOpenChange={setCompareDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Comparar versões do prompt</DialogTitle>
+            <DialogDescription>
+              Roda a suíte duas vezes: com o prompt em uso e com a versão abaixo. A versão candidata não é salva.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Nome da versão A (prompt em uso)</Label>
+                <Input value={labelA} onChange={(e) => setLabelA(e.target.value)} maxLength={100} />
+              </div>
+              <div className="space-y-1">
+                <Label>Nome da versão B</Label>
+                <Input value={labelB} onChange={(e) => setLabelB(e.target.value)} maxLength={100} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Prompt da versão B</Label>
+              <Textarea
+                value={promptB}
+                onChange={(e) => setPromptB(e.target.value)}
+                className="min-h-[240px] font-mono text-xs"
+                data-testid="textarea-candidate-prompt"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompareDialogOpen(false)}>Cancelar</Button>
+            <Button onClick={() => compareMutation.mutate()} disabled={!promptB.trim() || compareMutation.isPending}>
+              {compareMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Rodar comparação
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Loader2, ScrollText } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+
+import type { GenerationTrace, TraceSection, TraceFewShot } from "@shared/schema";
+
+interface GenerationTraceSheetProps {
+  messageId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TraceBlock({ title, badge, children }: { title: string; badge?: string; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-md border">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm font-medium hover:bg-muted/50">
+        <span className="flex items-center gap-1.5">
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          {title}
+        </span>
+        {badge && <Badge variant="secondary" className="text-xs font-normal">{badge}</Badge>}
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t px-3 py-2">
+        {children}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function SectionBlock({ section }: { section: TraceSection }) {
+  return (
+    <TraceBlock title={section.label} badge={`~${section.tokens} tokens`}>
+      {section.sources && section.sources.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {section.sources.map((source, index) => (
+            <Badge key={index} variant="outline" className="text-xs font-normal">
+              {source.source}#{source.id}
+              {source.score !== undefined && ` · ${Math.round(source.score * 100)}%`}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <pre className="max-h-72 overflow-auto whitespace-pre-wrap text-xs text-muted-foreground">{section.content}</pre>
+    </TraceBlock>
+  );
+}
+
+export function GenerationTraceSheet({ messageId, open, onOpenChange }: GenerationTraceSheetProps) {
+  const { data: trace, isLoading, isError } = useQuery<GenerationTrace>({
+    queryKey: ["/api/messages", messageId, "trace"],
+    enabled: open,
+  });
+
+  const sections = (trace?.sections as TraceSection[] | undefined) || [];
+  const fewShot = (trace?.fewShot as TraceFewShot[] | null | undefined) || [];
+  const estimatedTokens = sections.reduce((sum, section) => sum + section.tokens, 0);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ScrollText className="h-5 w-5" />
+            Como a IA montou esta resposta
+          </SheetTitle>
+          <SheetDescription>
+            Exatamente o que foi enviado ao modelo, na ordem do prompt.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {isError && (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nenhum rastreamento disponível para esta sugestão.
+          </p>
+        )}
+
+        {trace && (
+          <div className="mt-4 space-y-4" data-testid="generation-trace">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Modelo</p>
+                <p className="font-medium">{trace.provider} · {trace.model || "padrão"}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Latência</p>
+                <p className="font-medium">{trace.latencyMs !== null ? `${(trace.latencyMs / 1000).toFixed(1)}s` : "—"}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Tokens (entrada / saída)</p>
+                <p className="font-medium">
+                  {trace.promptTokens ?? `~${estimatedTokens}`} / {trace.completionTokens ?? "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Gerado em</p>
+                <p className="font-medium">{format(new Date(trace.createdAt), "dd/MM/yyyy HH:mm:ss")}</p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="outline">{trace.kind === "regenerate" ? "Regenerada" : "Gerada"}</Badge>
+              {trace.usedVision && <Badge variant="outline">Visão (imagem)</Badge>}
+              {trace.attempts > 1 && <Badge variant="outline">{trace.attempts} tentativas</Badge>}
+            </div>
+
+            {trace.reasoning && (
+              <div className="rounded-md bg-muted/50 p-3">
+                <p className="mb-1 text-xs font-medium text-muted-foreground">Raciocínio do modelo</p>
+                <p className="whitespace-pre-wrap text-sm">{trace.reasoning}</p>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Seções do prompt</h4>
+              {sections.map((section) => (
+                <SectionBlock key={section.key} section={section} />
+              ))}
+            </div>
+
+            {fewShot.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Exemplos few-shot ({fewShot.length})</h4>
+                {fewShot.map((example) => (
+                  <TraceBlock key={example.id} title={example.question} badge={`#${example.id}`}>
+                    <p className="whitespace-pre-wrap text-xs text-muted-foreground">{example.answer}</p>
+                  </TraceBlock>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Entrada e saída</h4>
+              {trace.userPrompt && (
+                <TraceBlock title="Mensagem enviada ao modelo">
+                  <pre className="max-h-72 overflow-auto whitespace-pre-wrap text-xs text-muted-foreground">{trace.userPrompt}</pre>
+                </TraceBlock>
+              )}
+              {trace.rawOutput && (
+                <TraceBlock title="Resposta bruta do modelo">
+                  <pre className="max-h-72 overflow-auto whitespace-pre-wrap text-xs text-muted-foreground">{trace.rawOutput}</pre>
+                </TraceBlock>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Placed after a paginated list: asks for the next page as it scrolls into view
+export function LoadMoreSentinel({ hasMore, isLoading, onLoadMore }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore && !isLoading) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-4 text-muted-foreground" data-testid="load-more-sentinel">
+      {isLoading && <Loader2 className="h-5 w-5 animate-spin" />}
+    </div>
+  );
+}
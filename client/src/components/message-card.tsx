@@ -1,23 +1,37 @@
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
-import { MessageSquare, AtSign, Eye, Image, Video, Mic, FileImage, Play, ExternalLink, Reply } from "lucide-react";
+import { MessageSquare, MessageCircle, AtSign, Eye, Image, Video, Mic, FileImage, Play, ExternalLink, Reply, ShieldAlert } from "lucide-react";
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ConfidenceBadge } from "@/components/confidence-badge";
+import { CommentModerationMenu, MODERATION_STATUS_LABELS } from "@/components/comment-moderation-menu";
 import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
-import type { MessageWithResponse } from "@shared/schema";
+import type { MessageWithResponse, PrivateReplyStatus, SafetyFlag } from "@shared/schema";
 import { useState } from "react";
 
+export const PRIVATE_REPLY_LABELS: Record<PrivateReplyStatus, string> = {
+  queued: "na fila",
+  sending: "enviando",
+  sent: "enviada",
+  failed: "falhou",
+};
+
 interface MessageCardProps {
   message: MessageWithResponse;
   onView: (message: MessageWithResponse) => void;
+  // Bulk selection (approval queue); the checkbox only shows when onSelectChange is set
+  selected?: boolean;
+  onSelectChange?: (message: MessageWithResponse, selected: boolean) => void;
 }
 
-export function MessageCard({ message, onView }: MessageCardProps) {
+export function MessageCard({ message, onView, selected = false, onSelectChange }: MessageCardProps) {
   const [imageError, setImageError] = useState(false);
+  const safetyFlags = (message.aiResponse?.safetyFlags as SafetyFlag[] | null) || [];
   
   const getStatusBadge = () => {
     switch (message.status) {
@@ -45,6 +59,12 @@ export function MessageCard({ message, onView }: MessageCardProps) {
             Auto-enviado
           </Badge>
         );
+      case "scheduled":
+        return (
+          <Badge variant="outline" className="bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400 border-0">
+            Agendado
+          </Badge>
+        );
       default:
         return null;
     }
@@ -76,6 +96,16 @@ export function MessageCard({ message, onView }: MessageCardProps) {
     >
       <CardContent className="p-4">
         <div className="flex items-start gap-3">
+          {onSelectChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectChange(message, checked === true)}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-3"
+              aria-label="Selecionar mensagem"
+              data-testid={`checkbox-message-${message.id}`}
+            />
+          )}
           <Avatar className="h-10 w-10 border">
             <AvatarImage src={message.senderAvatar || undefined} />
             <AvatarFallback className={`text-xs text-white font-semibold ${getAvatarGradient(message.senderUsername)}`}>
@@ -206,6 +236,29 @@ export function MessageCard({ message, onView }: MessageCardProps) {
             
             <div className="flex items-center gap-2 mt-2 flex-wrap">
               {getStatusBadge()}
+              {safetyFlags.length > 0 && message.status === "pending" && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Badge variant="outline" className="bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400 border-0" data-testid={`badge-safety-${message.id}`}>
+                      <ShieldAlert className="h-3 w-3 mr-1" />
+                      Retida
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs">
+                    {safetyFlags.map((flag) => flag.reason).join(" · ")}
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              {message.moderationStatus && (
+                <Badge variant="outline" className="bg-muted text-muted-foreground border-0" data-testid={`badge-moderation-${message.id}`}>
+                  {MODERATION_STATUS_LABELS[message.moderationStatus] ?? message.moderationStatus}
+                </Badge>
+              )}
+              {(message.tags as string[] | null)?.map((tag) => (
+                <Badge key={tag} variant="secondary" className="font-normal" data-testid={`badge-tag-${message.id}-${tag}`}>
+                  #{tag}
+                </Badge>
+              ))}
               {message.aiResponse && (
                 <ConfidenceBadge
                   score={message.aiResponse.confidenceScore}
@@ -219,19 +272,47 @@ export function MessageCard({ message, onView }: MessageCardProps) {
                 })}
               </span>
             </div>
+
+            {message.privateReply && (
+              <div
+                className="mt-2 flex items-start gap-2 rounded-md border bg-muted/40 px-2 py-1.5 text-xs"
+                data-testid={`private-reply-${message.id}`}
+              >
+                <MessageCircle className="h-3.5 w-3.5 shrink-0 mt-0.5 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <span className="font-medium">
+                    DM privada · {PRIVATE_REPLY_LABELS[message.privateReply.status as PrivateReplyStatus] ?? message.privateReply.status}
+                  </span>
+                  <p className="text-muted-foreground line-clamp-1">{message.privateReply.text}</p>
+                </div>
+                {message.privateReply.conversationId && (
+                  <Link
+                    href={`/inbox?conversation=${message.privateReply.conversationId}`}
+                    onClick={(e) => e.stopPropagation()}
+                    className="shrink-0 underline text-muted-foreground hover:text-foreground"
+                    data-testid={`link-private-reply-conversation-${message.id}`}
+                  >
+                    Ver conversa
+                  </Link>
+                )}
+              </div>
+            )}
           </div>
           
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={(e) => {
-              e.stopPropagation();
-              onView(message);
-            }}
-            data-testid={`button-view-message-${message.id}`}
-          >
-            <Eye className="h-4 w-4" />
-          </Button>
+          <div className="flex flex-col items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={(e) => {
+                e.stopPropagation();
+                onView(message);
+              }}
+              data-testid={`button-view-message-${message.id}`}
+            >
+              <Eye className="h-4 w-4" />
+            </Button>
+            {message.type === "comment" && <CommentModerationMenu message={message} />}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -13,8 +14,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Link } from "wouter";
 import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
-import type { MessageWithResponse } from "@shared/schema";
+import { PRIVATE_REPLY_LABELS } from "@/components/message-card";
+import { CommentModerationMenu, MODERATION_STATUS_LABELS } from "@/components/comment-moderation-menu";
+import type { MessageWithResponse, PrivateReplyStatus } from "@shared/schema";
 
 interface PostCommentGroupProps {
   postId: string;
@@ -23,6 +27,8 @@ interface PostCommentGroupProps {
   postPermalink: string | null;
   comments: MessageWithResponse[];
   onViewMessage: (message: MessageWithResponse) => void;
+  selectedIds?: Set<number>;
+  onSelectChange?: (messages: MessageWithResponse[], selected: boolean) => void;
 }
 
 function getConfidenceBadge(score: number | undefined) {
@@ -55,6 +61,8 @@ export function PostCommentGroup({
   postPermalink,
   comments,
   onViewMessage,
+  selectedIds,
+  onSelectChange,
 }: PostCommentGroupProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [sortOrder, setSortOrder] = useState<"relevant" | "recent" | "oldest" | "followers">("relevant");
@@ -80,6 +88,8 @@ export function PostCommentGroup({
     });
   }, [comments, sortOrder]);
 
+  const selectedCount = selectedIds ? comments.filter((c) => selectedIds.has(c.id)).length : 0;
+
   return (
     <Card className="overflow-hidden" data-testid={`post-group-${postId}`}>
       <CardHeader
@@ -123,6 +133,15 @@ export function PostCommentGroup({
                 )}
               </div>
               <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                {onSelectChange && (
+                  <Checkbox
+                    checked={selectedCount === 0 ? false : selectedCount === comments.length ? true : "indeterminate"}
+                    onCheckedChange={() => onSelectChange(comments, selectedCount < comments.length)}
+                    className="mr-2"
+                    aria-label="Selecionar todos os comentários da publicação"
+                    data-testid={`checkbox-post-${postId}`}
+                  />
+                )}
                 <Select
                   value={sortOrder}
                   onValueChange={(v) => setSortOrder(v as any)}
@@ -177,6 +196,16 @@ export function PostCommentGroup({
                 data-testid={`comment-item-${comment.id}`}
               >
                 <div className="flex items-start gap-3">
+                  {onSelectChange && (
+                    <Checkbox
+                      checked={selectedIds?.has(comment.id) ?? false}
+                      onCheckedChange={(checked) => onSelectChange([comment], checked === true)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-2"
+                      aria-label="Selecionar comentário"
+                      data-testid={`checkbox-comment-${comment.id}`}
+                    />
+                  )}
                   <Avatar className="h-8 w-8">
                     <AvatarImage src={comment.senderAvatar || undefined} />
                     <AvatarFallback className={`text-xs text-white font-semibold ${getAvatarGradient(comment.senderUsername)}`}>
@@ -197,6 +226,11 @@ export function PostCommentGroup({
                         })}
                       </span>
                       {getConfidenceBadge(comment.aiResponse?.confidenceScore)}
+                      {comment.moderationStatus && (
+                        <Badge variant="outline" className="text-xs bg-muted text-muted-foreground border-0">
+                          {MODERATION_STATUS_LABELS[comment.moderationStatus] ?? comment.moderationStatus}
+                        </Badge>
+                      )}
                     </div>
 
                     {comment.parentCommentText && (
@@ -223,7 +257,29 @@ export function PostCommentGroup({
                         <p className="text-xs line-clamp-2">{comment.aiResponse.suggestedResponse}</p>
                       </div>
                     )}
+
+                    {comment.privateReply && (
+                      <div className="mt-2 p-2 rounded bg-muted/50 border border-muted" data-testid={`private-reply-${comment.id}`}>
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+                          <span>
+                            DM privada · {PRIVATE_REPLY_LABELS[comment.privateReply.status as PrivateReplyStatus] ?? comment.privateReply.status}
+                          </span>
+                          {comment.privateReply.conversationId && (
+                            <Link
+                              href={`/inbox?conversation=${comment.privateReply.conversationId}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="underline hover:text-foreground"
+                            >
+                              Ver conversa
+                            </Link>
+                          )}
+                        </div>
+                        <p className="text-xs line-clamp-2">{comment.privateReply.text}</p>
+                      </div>
+                    )}
                   </div>
+
+                  <CommentModerationMenu message={comment} />
                 </div>
               </div>
             ))}
@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FlaskConical, Loader2, Plus, Square, Trophy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAccountContext } from "@/contexts/AccountContext";
+import type { ExperimentVariant, ExperimentVariantStats, PromptExperimentSummary } from "@shared/schema";
+import type { SettingsData } from "@/types/settings";
+
+const EXPERIMENTS_QUERY_KEY = ["/api/experiments"];
+const ALL_ACCOUNTS = "all";
+
+const VARIANT_LABELS: Record<ExperimentVariant, string> = {
+  a: "A · Prompt atual",
+  b: "B · Desafiante",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  running: "Em andamento",
+  stopped: "Encerrado",
+  promoted: "Vencedor promovido",
+};
+
+interface ExperimentDraft {
+  name: string;
+  accountId: number | null;
+  trafficSplit: number;
+  challengerPrompt: string;
+}
+
+function rate(part: number, total: number): number | null {
+  return total > 0 ? part / total : null;
+}
+
+function formatRate(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}min`;
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+// One row per metric; "higher" says which direction is better, to highlight the leading variant
+const METRICS: { label: string; higher: boolean | null; value: (s: ExperimentVariantStats) => number | null; format: (v: number | null) => string }[] = [
+  { label: "Contatos", higher: null, value: (s) => s.senders, format: (v) => String(v ?? 0) },
+  { label: "Respostas geradas", higher: null, value: (s) => s.responses, format: (v) => String(v ?? 0) },
+  { label: "Aprovação", higher: true, value: (s) => rate(s.approved, s.approved + s.rejected), format: formatRate },
+  { label: "Editadas antes do envio", higher: false, value: (s) => rate(s.edited, s.approved), format: formatRate },
+  { label: "👍 Curtidas", higher: true, value: (s) => rate(s.likes, s.likes + s.dislikes), format: formatRate },
+  { label: "Contato respondeu (7 dias)", higher: true, value: (s) => rate(s.contactReplied, s.sent), format: formatRate },
+  { label: "Latência da IA", higher: false, value: (s) => (s.avgLatencyMs === null ? null : s.avgLatencyMs / 1000), format: (v) => (v === null ? "—" : `${v.toFixed(1)}s`) },
+  { label: "Tempo até o envio", higher: false, value: (s) => s.avgSecondsToSend, format: formatSeconds },
+];
+
+function ExperimentResults({ experiment }: { experiment: PromptExperimentSummary }) {
+  const [a, b] = experiment.variants;
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Métrica</TableHead>
+          <TableHead className="text-right">{VARIANT_LABELS.a}</TableHead>
+          <TableHead className="text-right">{VARIANT_LABELS.b}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {METRICS.map((metric) => {
+          const valueA = metric.value(a);
+          const valueB = metric.value(b);
+          const leader = metric.higher === null || valueA === null || valueB === null || valueA === valueB
+            ? null
+            : (valueA > valueB) === metric.higher ? "a" : "b";
+          return (
+            <TableRow key={metric.label}>
+              <TableCell className="text-sm">{metric.label}</TableCell>
+              <TableCell className={`text-right text-sm ${leader === "a" ? "font-semibold text-green-600 dark:text-green-400" : ""}`}>
+                {metric.format(valueA)}
+              </TableCell>
+              <TableCell className={`text-right text-sm ${leader === "b" ? "font-semibold text-green-600 dark:text-green-400" : ""}`}>
+                {metric.format(valueB)}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function PromptExperimentsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { accounts } = useAccountContext();
+  const [draft, setDraft] = useState<ExperimentDraft | null>(null);
+  const [toPromote, setToPromote] = useState<{ experiment: PromptExperimentSummary; variant: ExperimentVariant } | null>(null);
+
+  const { data: experiments = [], isLoading } = useQuery<PromptExperimentSummary[]>({
+    queryKey: EXPERIMENTS_QUERY_KEY,
+    refetchInterval: 30000,
+  });
+
+  const { data: settings } = useQuery<SettingsData>({
+    queryKey: ["/api/settings"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    const conflict = error.message.startsWith("409");
+    toast({
+      title: "Erro",
+      description: conflict ? "Já existe um teste em andamento para esta conta." : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ExperimentDraft) => {
+      const res = await apiRequest("POST", "/api/experiments", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: EXPERIMENTS_QUERY_KEY });
+      setDraft(null);
+      toast({ title: "Teste A/B iniciado", description: "Novos contatos serão divididos entre as duas versões do prompt." });
+    },
+    onError: onError("Não foi possível iniciar o teste."),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/experiments/${id}/stop`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: EXPERIMENTS_QUERY_KEY });
+      toast({ title: "Teste encerrado", description: "Todas as respostas voltam a usar o prompt atual." });
+    },
+    onError: onError("Não foi possível encerrar o teste."),
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ id, variant }: { id: number; variant: ExperimentVariant }) => {
+      await apiRequest("POST", `/api/experiments/${id}/promote`, { variant });
+    },
+    onSuccess: (_data, { variant }) => {
+      queryClient.invalidateQueries({ queryKey: EXPERIMENTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brain/prompt-versions"] });
+      setToPromote(null);
+      toast({
+        title: "Vencedor promovido",
+        description: variant === "b" ? "O prompt desafiante agora é o prompt em uso." : "O prompt atual foi mantido.",
+      });
+    },
+    onError: (error: Error) => {
+      setToPromote(null);
+      onError("Não foi possível promover a variante.")(error);
+    },
+  });
+
+  const accountLabel = (experiment: PromptExperimentSummary) =>
+    experiment.accountId ? `@${experiment.accountUsername || experiment.accountId}` : "Todas as contas";
+
+  const running = experiments.filter((e) => e.status === "running");
+  const finished = experiments.filter((e) => e.status !== "running").slice(0, 5);
+
+  return (
+    <Card data-testid="card-prompt-experiments">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg font-medium flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Testes A/B de prompt
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setDraft({
+              name: "",
+              accountId: null,
+              trafficSplit: 50,
+              challengerPrompt: settings?.systemPrompt || "",
+            })}
+            data-testid="button-new-experiment"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Novo teste
+          </Button>
+        </div>
+        <CardDescription>
+          Compare o prompt atual com um desafiante em mensagens reais. Cada contato recebe sempre a mesma versão.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : experiments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum teste A/B criado ainda.</p>
+        ) : (
+          <>
+            {running.map((experiment) => (
+              <div key={experiment.id} className="space-y-3" data-testid={`experiment-${experiment.id}`}>
+                <div className="flex items-start justify-between gap-2 flex-wrap">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{experiment.name}</span>
+                      <Badge>{STATUS_LABELS.running}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {accountLabel(experiment)} · {100 - experiment.trafficSplit}% A / {experiment.trafficSplit}% B · desde {format(new Date(experiment.createdAt), "dd/MM/yyyy")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setToPromote({ experiment, variant: "a" })}>
+                      <Trophy className="h-3 w-3 mr-1" />
+                      Promover A
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setToPromote({ experiment, variant: "b" })}>
+                      <Trophy className="h-3 w-3 mr-1" />
+                      Promover B
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => stopMutation.mutate(experiment.id)}
+                      disabled={stopMutation.isPending}
+                    >
+                      <Square className="h-3 w-3 mr-1" />
+                      Encerrar
+                    </Button>
+                  </div>
+                </div>
+                <ExperimentResults experiment={experiment} />
+              </div>
+            ))}
+
+            {finished.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Testes anteriores</p>
+                {finished.map((experiment) => (
+                  <div key={experiment.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{experiment.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {accountLabel(experiment)}
+                        {experiment.endedAt && ` · encerrado em ${format(new Date(experiment.endedAt), "dd/MM/yyyy")}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {experiment.status === "stopped" && (
+                        <Button size="sm" variant="ghost" onClick={() => setToPromote({ experiment, variant: "b" })}>
+                          Promover B
+                        </Button>
+                      )}
+                      <Badge variant="outline">
+                        {experiment.winner
+                          ? `${STATUS_LABELS.promoted}: ${experiment.winner.toUpperCase()}`
+                          : STATUS_LABELS[experiment.status] ?? experiment.status}
+                      </Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Novo teste A/B</DialogTitle>
+            <DialogDescription>
+              A variante A é o prompt em uso. Os contatos novos são sorteados entre as variantes e mantêm a sua até o fim do teste.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="experiment-name">Nome</Label>
+                  <Input
+                    id="experiment-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="Ex.: Tom mais direto"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Conta</Label>
+                  <Select
+                    value={draft.accountId ? String(draft.accountId) : ALL_ACCOUNTS}
+                    onValueChange={(v) => setDraft({ ...draft, accountId: v === ALL_ACCOUNTS ? null : Number(v) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_ACCOUNTS}>Todas as contas</SelectItem>
+                      {accounts.map((a) => (
+                        <SelectItem key={a.id} value={String(a.id)}>
+                          @{a.instagramUsername || a.instagramAccountId}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <Label>Divisão do tráfego</Label>
+                  <span className="text-muted-foreground">
+                    {100 - draft.trafficSplit}% A / {draft.trafficSplit}% B
+                  </span>
+                </div>
+                <Slider
+                  min={5}
+                  max={95}
+                  step={5}
+                  value={[draft.trafficSplit]}
+                  onValueChange={([value]) => setDraft({ ...draft, trafficSplit: value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="experiment-prompt">Prompt desafiante (B)</Label>
+                <Textarea
+                  id="experiment-prompt"
+                  value={draft.challengerPrompt}
+                  onChange={(e) => setDraft({ ...draft, challengerPrompt: e.target.value })}
+                  className="min-h-[240px] font-mono text-sm"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => draft && createMutation.mutate(draft)}
+              disabled={
+                !draft?.name.trim() ||
+                !draft.challengerPrompt.trim() ||
+                draft.challengerPrompt.trim() === (settings?.systemPrompt || "").trim() ||
+                createMutation.isPending
+              }
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Iniciar teste
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={toPromote !== null} onOpenChange={(open) => !open && setToPromote(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Promover {toPromote && VARIANT_LABELS[toPromote.variant]}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toPromote?.variant === "b"
+                ? "O teste termina e o prompt desafiante passa a ser o prompt em uso para todas as mensagens. A troca fica no histórico de versões."
+                : "O teste termina e todas as mensagens continuam com o prompt atual."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => toPromote && promoteMutation.mutate({ id: toPromote.experiment.id, variant: toPromote.variant })}
+            >
+              {promoteMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Promover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { diffLines } from "@/lib/text-diff";
+import type { PromptVersionSource, PromptVersionSummary } from "@shared/schema";
+
+const VERSIONS_QUERY_KEY = ["/api/brain/prompt-versions"];
+
+const SOURCE_LABELS: Record<PromptVersionSource, string> = {
+  manual: "Edição manual",
+  architect: "Arquiteto",
+  merge: "Mesclagem",
+  synthesis: "Síntese",
+  rollback: "Restauração",
+  admin: "Administrador",
+  initial: "Versão inicial",
+  experiment: "Teste A/B",
+  copilot: "Copiloto",
+};
+
+function VersionDiff({ before, after }: { before: string; after: string }) {
+  const parts = diffLines(before, after);
+  if (!parts.some((part) => part.kind !== "same")) {
+    return <p className="text-xs text-muted-foreground">Sem diferenças em relação à versão anterior.</p>;
+  }
+
+  return (
+    <pre className="max-h-80 overflow-auto rounded-md border bg-muted/30 p-3 text-xs font-mono whitespace-pre-wrap">
+      {parts.map((part, i) => (
+        <div
+          key={i}
+          className={cn(
+            part.kind === "added" && "bg-green-100 text-green-900 dark:bg-green-900/30 dark:text-green-200",
+            part.kind === "removed" && "bg-red-100 text-red-900 line-through dark:bg-red-900/30 dark:text-red-200",
+            part.kind === "same" && "text-muted-foreground"
+          )}
+        >
+          {part.kind === "added" ? "+ " : part.kind === "removed" ? "- " : "  "}
+          {part.text || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+export function PromptVersionHistory() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [versionToRestore, setVersionToRestore] = useState<PromptVersionSummary | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<PromptVersionSummary[]>({
+    queryKey: VERSIONS_QUERY_KEY,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/brain/prompt-versions/${id}/rollback`);
+      return res.json();
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: VERSIONS_QUERY_KEY });
+      setVersionToRestore(null);
+      const restored = versions.find((v) => v.id === id);
+      toast({
+        title: "Versão restaurada",
+        description: restored ? `O prompt da v${restored.version} voltou a ser usado.` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      setVersionToRestore(null);
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409")
+          ? "Esta versão já é o prompt em uso."
+          : "Não foi possível restaurar a versão.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Histórico de versões
+        </CardTitle>
+        <CardDescription>
+          Cada alteração do prompt fica registrada. Compare com a versão anterior e restaure qualquer uma com um clique.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma versão registrada ainda.</p>
+        ) : (
+          versions.map((version, index) => {
+            // Newest first: the next entry is the version this one replaced
+            const previous = versions[index + 1];
+            const isCurrent = index === 0;
+            const isExpanded = expandedId === version.id;
+            const approvalRate = version.responseCount > 0
+              ? Math.round((version.approvedCount / version.responseCount) * 100)
+              : null;
+
+            return (
+              <div key={version.id} className="rounded-lg border p-3 space-y-2" data-testid={`prompt-version-${version.id}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left space-y-1"
+                    onClick={() => setExpandedId(isExpanded ? null : version.id)}
+                  >
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">v{version.version}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {SOURCE_LABELS[version.source as PromptVersionSource] ?? version.source}
+                      </Badge>
+                      {isCurrent && <Badge className="text-xs">Em uso</Badge>}
+                      {version.restoredFromId !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          de v{versions.find((v) => v.id === version.restoredFromId)?.version ?? "?"}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(version.createdAt), "dd/MM/yyyy HH:mm")}
+                      {" · "}
+                      {version.authorName || (version.authorId ? "Usuário removido" : "Sistema")}
+                      {version.responseCount > 0 && (
+                        <>
+                          {" · "}
+                          {version.responseCount} respostas
+                          {approvalRate !== null && ` · ${approvalRate}% aprovadas`}
+                          {version.editedCount > 0 && ` · ${version.editedCount} editadas`}
+                        </>
+                      )}
+                    </p>
+                  </button>
+                  {!isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVersionToRestore(version)}
+                      disabled={rollbackMutation.isPending}
+                      data-testid={`button-restore-version-${version.id}`}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restaurar
+                    </Button>
+                  )}
+                </div>
+                {isExpanded && (
+                  previous ? (
+                    <VersionDiff before={previous.content ?? ""} after={version.content ?? ""} />
+                  ) : (
+                    <pre className="max-h-80 overflow-auto rounded-md border bg-muted/30 p-3 text-xs font-mono whitespace-pre-wrap">
+                      {version.content || "(prompt vazio)"}
+                    </pre>
+                  )
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <AlertDialog open={versionToRestore !== null} onOpenChange={(open) => !open && setVersionToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar v{versionToRestore?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O prompt atual será substituído pelo conteúdo desta versão. A troca fica registrada como uma nova versão, então você pode desfazê-la depois.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => versionToRestore && rollbackMutation.mutate(versionToRestore.id)}
+            >
+              {rollbackMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Restaurar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
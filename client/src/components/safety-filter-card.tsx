@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAccountContext } from "@/contexts/AccountContext";
+import type { SafetyFilterConfig } from "@shared/schema";
+
+const DEFAULT_FILTER: SafetyFilterConfig = {
+  blockedWords: [],
+  checkLinks: true,
+  allowedDomains: ["instagram.com"],
+  blockContactInfo: true,
+  requireGroundedNumbers: true,
+  maxLength: 1000,
+  moderation: false,
+};
+
+// One entry per line or comma
+const toList = (text: string) => text.split(/[\n,]/).map((item) => item.trim()).filter(Boolean);
+
+function SwitchRow({ id, label, description, checked, onCheckedChange }: {
+  id: string;
+  label: string;
+  description: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-4">
+      <div>
+        <Label htmlFor={id}>{label}</Label>
+        <p className="text-xs text-muted-foreground mt-1">{description}</p>
+      </div>
+      <Switch id={id} checked={checked} onCheckedChange={onCheckedChange} data-testid={`switch-${id}`} />
+    </div>
+  );
+}
+
+export function SafetyFilterCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { accounts, activeAccountId } = useAccountContext();
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [draft, setDraft] = useState<SafetyFilterConfig>(DEFAULT_FILTER);
+  const [blockedWordsText, setBlockedWordsText] = useState("");
+  const [domainsText, setDomainsText] = useState("");
+
+  const account = accounts.find((a) => a.id === accountId) || null;
+
+  // Follow the account picked in the sidebar, falling back to the first one
+  useEffect(() => {
+    if (accounts.length === 0) return;
+    if (!accountId || !accounts.some((a) => a.id === accountId)) {
+      setAccountId(activeAccountId ?? accounts[0].id);
+    }
+  }, [accounts, activeAccountId]);
+
+  useEffect(() => {
+    const filter = account?.safetyFilter || null;
+    const next = filter || DEFAULT_FILTER;
+    setEnabled(!!filter);
+    setDraft(next);
+    setBlockedWordsText(next.blockedWords.join("\n"));
+    setDomainsText(next.allowedDomains.join("\n"));
+  }, [account?.id, account?.safetyFilter]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (safetyFilter: SafetyFilterConfig | null) => {
+      await apiRequest("PATCH", `/api/instagram/accounts/${accountId}`, { safetyFilter });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+      toast({ title: "Filtro salvo", description: "As verificações valem para os próximos auto-envios desta conta." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar o filtro de segurança.", variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    saveMutation.mutate(enabled
+      ? { ...draft, blockedWords: toList(blockedWordsText), allowedDomains: toList(domainsText) }
+      : null);
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <Card data-testid="card-safety-filter">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Filtro de segurança
+          </CardTitle>
+          {accounts.length > 1 && (
+            <Select value={accountId ? String(accountId) : undefined} onValueChange={(value) => setAccountId(Number(value))}>
+              <SelectTrigger className="w-[220px]" data-testid="select-safety-filter-account">
+                <SelectValue placeholder="Conta" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map((a) => (
+                  <SelectItem key={a.id} value={String(a.id)}>
+                    @{a.instagramUsername || a.instagramAccountId}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <CardDescription>
+          Verificações feitas antes de qualquer resposta automática sair. Se alguma falhar, a mensagem fica na fila
+          de aprovação com o motivo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <SwitchRow
+          id="safety-filter-enabled"
+          label="Ativar filtro nesta conta"
+          description="Desativado, as respostas automáticas saem apenas com base na confiança da IA."
+          checked={enabled}
+          onCheckedChange={setEnabled}
+        />
+
+        {enabled && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <Label htmlFor="safety-blocked-words">Palavras bloqueadas</Label>
+              <Textarea
+                id="safety-blocked-words"
+                value={blockedWordsText}
+                onChange={(e) => setBlockedWordsText(e.target.value)}
+                placeholder={"garantido\ngrátis\n100% de desconto"}
+                rows={3}
+                data-testid="textarea-safety-blocked-words"
+              />
+              <p className="text-xs text-muted-foreground">Uma por linha. Maiúsculas e acentos são ignorados.</p>
+            </div>
+
+            <SwitchRow
+              id="safety-check-links"
+              label="Permitir só links conhecidos"
+              description="Links para domínios fora da lista abaixo seguram a resposta."
+              checked={draft.checkLinks}
+              onCheckedChange={(checkLinks) => setDraft({ ...draft, checkLinks })}
+            />
+            {draft.checkLinks && (
+              <Textarea
+                value={domainsText}
+                onChange={(e) => setDomainsText(e.target.value)}
+                placeholder={"instagram.com\nminhaloja.com.br"}
+                rows={2}
+                data-testid="textarea-safety-allowed-domains"
+              />
+            )}
+
+            <SwitchRow
+              id="safety-contact-info"
+              label="Bloquear telefones e e-mails"
+              description="Contatos que não estão na base de conhecimento não são enviados."
+              checked={draft.blockContactInfo}
+              onCheckedChange={(blockContactInfo) => setDraft({ ...draft, blockContactInfo })}
+            />
+            <SwitchRow
+              id="safety-grounded-numbers"
+              label="Conferir números"
+              description="Preços, prazos e quantidades precisam aparecer no conhecimento ou na conversa."
+              checked={draft.requireGroundedNumbers}
+              onCheckedChange={(requireGroundedNumbers) => setDraft({ ...draft, requireGroundedNumbers })}
+            />
+            <SwitchRow
+              id="safety-moderation"
+              label="Moderação por IA"
+              description="Uma segunda chamada à IA verifica se a resposta é ofensiva ou inadequada."
+              checked={draft.moderation}
+              onCheckedChange={(moderation) => setDraft({ ...draft, moderation })}
+            />
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="safety-max-length">Tamanho máximo (caracteres)</Label>
+              <Input
+                id="safety-max-length"
+                type="number"
+                min={1}
+                max={2200}
+                value={draft.maxLength ?? ""}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  setDraft({ ...draft, maxLength: isNaN(value) ? null : Math.max(1, Math.min(2200, value)) });
+                }}
+                placeholder="Sem limite"
+                className="w-[140px]"
+                data-testid="input-safety-max-length"
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saveMutation.isPending || !accountId} data-testid="button-save-safety-filter">
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Salvar filtro
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { SendSchedule } from "@shared/schema";
+
+const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
+
+const DEFAULT_SCHEDULE: SendSchedule = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "America/Sao_Paulo",
+  delaySeconds: { min: 30, max: 180 },
+  businessHours: { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" },
+  quietHours: { start: "22:00", end: "08:00" },
+};
+
+interface SendScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountLabel: string;
+  schedule: SendSchedule | null;
+  onSave: (schedule: SendSchedule | null) => void;
+  isSaving?: boolean;
+}
+
+export function SendScheduleDialog({
+  open,
+  onOpenChange,
+  accountLabel,
+  schedule,
+  onSave,
+  isSaving = false,
+}: SendScheduleDialogProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [draft, setDraft] = useState<SendSchedule>(DEFAULT_SCHEDULE);
+
+  useEffect(() => {
+    if (open) {
+      setEnabled(!!schedule);
+      setDraft(schedule || DEFAULT_SCHEDULE);
+    }
+  }, [open, schedule]);
+
+  const businessHours = draft.businessHours || DEFAULT_SCHEDULE.businessHours!;
+  const quietHours = draft.quietHours || DEFAULT_SCHEDULE.quietHours!;
+  const delayInvalid = draft.delaySeconds.max < draft.delaySeconds.min;
+
+  const setDelay = (key: "min" | "max", value: string) => {
+    const seconds = Math.max(0, Math.min(3600, parseInt(value, 10) || 0));
+    setDraft({ ...draft, delaySeconds: { ...draft.delaySeconds, [key]: seconds } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Horário de envio — {accountLabel}</DialogTitle>
+          <DialogDescription>
+            Respostas automáticas esperam um tempo aleatório antes de sair e ficam guardadas fora do horário comercial
+            e durante o horário de silêncio.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="send-schedule-enabled">Usar envio com horário</Label>
+          <Switch
+            id="send-schedule-enabled"
+            checked={enabled}
+            onCheckedChange={setEnabled}
+            data-testid="switch-send-schedule"
+          />
+        </div>
+
+        {enabled && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Fuso horário</Label>
+              <Input
+                value={draft.timezone}
+                onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                placeholder="America/Sao_Paulo"
+                data-testid="input-send-schedule-timezone"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Atraso antes de enviar (segundos)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  max={3600}
+                  value={draft.delaySeconds.min}
+                  onChange={(e) => setDelay("min", e.target.value)}
+                  className="w-[110px]"
+                  data-testid="input-send-delay-min"
+                />
+                <span className="text-sm text-muted-foreground">a</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={3600}
+                  value={draft.delaySeconds.max}
+                  onChange={(e) => setDelay("max", e.target.value)}
+                  className="w-[110px]"
+                  data-testid="input-send-delay-max"
+                />
+              </div>
+              {delayInvalid && (
+                <p className="text-xs text-destructive">O máximo deve ser maior ou igual ao mínimo.</p>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Horário comercial</Label>
+                <Switch
+                  checked={!!draft.businessHours}
+                  onCheckedChange={(checked) => setDraft({ ...draft, businessHours: checked ? businessHours : null })}
+                  data-testid="switch-business-hours"
+                />
+              </div>
+              {draft.businessHours && (
+                <>
+                  <ToggleGroup
+                    type="multiple"
+                    variant="outline"
+                    size="sm"
+                    className="justify-start"
+                    value={businessHours.days.map(String)}
+                    onValueChange={(days) => days.length > 0 && setDraft({
+                      ...draft,
+                      businessHours: { ...businessHours, days: days.map(Number).sort() },
+                    })}
+                  >
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <ToggleGroupItem key={day} value={String(day)} data-testid={`toggle-business-day-${day}`}>
+                        {label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={businessHours.start}
+                      onChange={(e) => setDraft({ ...draft, businessHours: { ...businessHours, start: e.target.value } })}
+                      className="w-[130px]"
+                    />
+                    <span className="text-sm text-muted-foreground">às</span>
+                    <Input
+                      type="time"
+                      value={businessHours.end}
+                      onChange={(e) => setDraft({ ...draft, businessHours: { ...businessHours, end: e.target.value } })}
+                      className="w-[130px]"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Horário de silêncio</Label>
+                <Switch
+                  checked={!!draft.quietHours}
+                  onCheckedChange={(checked) => setDraft({ ...draft, quietHours: checked ? quietHours : null })}
+                  data-testid="switch-quiet-hours"
+                />
+              </div>
+              {draft.quietHours && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={quietHours.start}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...quietHours, start: e.target.value } })}
+                    className="w-[130px]"
+                  />
+                  <span className="text-sm text-muted-foreground">até</span>
+                  <Input
+                    type="time"
+                    value={quietHours.end}
+                    onChange={(e) => setDraft({ ...draft, quietHours: { ...quietHours, end: e.target.value } })}
+                    className="w-[130px]"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => onSave(enabled ? draft : null)}
+            disabled={isSaving || (enabled && (delayInvalid || !draft.timezone.trim()))}
+            data-testid="button-save-send-schedule"
+          >
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
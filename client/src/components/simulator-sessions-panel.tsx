@@ -0,0 +1,473 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Bot,
+  Check,
+  History,
+  Loader2,
+  MessagesSquare,
+  Pencil,
+  Plus,
+  Save,
+  Send,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type {
+  DmConversation,
+  SimulatorSession,
+  SimulatorSessionSummary,
+  SimulatorTurn,
+} from "@shared/schema";
+
+interface SessionDetail {
+  session: SimulatorSession;
+  turns: SimulatorTurn[];
+}
+
+const SESSIONS_QUERY_KEY = ["/api/simulator/sessions"];
+
+function TurnBubble({
+  turn,
+  senderName,
+  disabled,
+  onEdit,
+}: {
+  turn: SimulatorTurn;
+  senderName: string;
+  disabled: boolean;
+  onEdit: (content: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(turn.content);
+  const isFollower = turn.role === "follower";
+
+  return (
+    <div className={cn("flex gap-3", isFollower ? "justify-end" : "justify-start")} data-testid={`simulator-turn-${turn.id}`}>
+      {!isFollower && (
+        <div className="h-8 w-8 rounded-lg bg-primary/10 text-primary flex items-center justify-center flex-shrink-0">
+          <Bot className="h-4 w-4" />
+        </div>
+      )}
+      <div className={cn("flex flex-col gap-1 max-w-[80%]", isFollower ? "items-end" : "items-start")}>
+        <span className="text-xs text-muted-foreground">{isFollower ? senderName : "IA"}</span>
+        {editing ? (
+          <div className="w-[min(36rem,80vw)] space-y-2">
+            <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} className="min-h-[100px]" />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>
+                <X className="h-3 w-3 mr-1" />
+                Cancelar
+              </Button>
+              <Button
+                size="sm"
+                disabled={!draft.trim() || disabled}
+                onClick={() => {
+                  onEdit(draft.trim());
+                  setEditing(false);
+                }}
+              >
+                <Check className="h-3 w-3 mr-1" />
+                Aplicar
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div
+            className={cn(
+              "rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap",
+              isFollower ? "bg-primary text-primary-foreground" : "bg-muted"
+            )}
+          >
+            {turn.content}
+          </div>
+        )}
+        {!isFollower && !editing && (
+          <div className="flex items-center gap-2 flex-wrap">
+            {turn.confidence !== null && (
+              <span className="text-xs text-muted-foreground">Confiança {Math.round(turn.confidence * 100)}%</span>
+            )}
+            {turn.originalContent !== null && (
+              <Badge variant="outline" className="text-xs" title={`Resposta da IA: ${turn.originalContent}`}>
+                editada
+              </Badge>
+            )}
+            {turn.manualQaId !== null && (
+              <Badge variant="secondary" className="text-xs">salva</Badge>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={disabled}
+              onClick={() => {
+                setDraft(turn.content);
+                setEditing(true);
+              }}
+              data-testid={`button-edit-turn-${turn.id}`}
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Corrigir
+            </Button>
+          </div>
+        )}
+        {!isFollower && turn.realResponse && (
+          <div className="rounded-md border border-dashed px-3 py-2 text-xs text-muted-foreground whitespace-pre-wrap">
+            <span className="font-medium">Resposta real: </span>
+            {turn.realResponse}
+          </div>
+        )}
+      </div>
+      {isFollower && (
+        <div className="h-8 w-8 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+          <User className="h-4 w-4" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SimulatorSessionsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [message, setMessage] = useState("");
+  const [replayDialogOpen, setReplayDialogOpen] = useState(false);
+  const [replaySearch, setReplaySearch] = useState("");
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<SimulatorSessionSummary[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+  });
+
+  const { data: detail } = useQuery<SessionDetail>({
+    queryKey: ["/api/simulator/sessions", selectedId],
+    enabled: selectedId !== null,
+  });
+
+  const { data: conversations = [], isLoading: conversationsLoading } = useQuery<DmConversation[]>({
+    queryKey: ["/api/conversations?status=all"],
+    enabled: replayDialogOpen,
+  });
+
+  const turns = detail?.turns ?? [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [turns.length]);
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+  };
+
+  const createSessionMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/simulator/sessions", {});
+      return res.json() as Promise<SimulatorSession>;
+    },
+    onSuccess: (session) => {
+      invalidateSessions();
+      setSelectedId(session.id);
+      setMessage("");
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao criar a conversa.", variant: "destructive" });
+    },
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (conversationId: number) => {
+      const res = await apiRequest("POST", "/api/simulator/replay", { conversationId });
+      return res.json() as Promise<SimulatorSession>;
+    },
+    onSuccess: (session) => {
+      invalidateSessions();
+      setSelectedId(session.id);
+      setReplayDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message.replace(/^\d+: /, ""), variant: "destructive" });
+    },
+  });
+
+  const deleteSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/simulator/sessions/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      setSelectedId(null);
+      toast({ title: "Conversa removida" });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (text: string) => {
+      await apiRequest("POST", `/api/simulator/sessions/${selectedId}/turns`, { message: text });
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      setMessage("");
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao gerar resposta da IA.", variant: "destructive" });
+    },
+  });
+
+  const editTurnMutation = useMutation({
+    mutationFn: async ({ turnId, content }: { turnId: number; content: string }) => {
+      await apiRequest("PATCH", `/api/simulator/sessions/${selectedId}/turns/${turnId}`, { content });
+    },
+    onSuccess: invalidateSessions,
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao salvar a correção.", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/simulator/sessions/${selectedId}/save`);
+      return res.json() as Promise<{ saved: number }>;
+    },
+    onSuccess: ({ saved }) => {
+      invalidateSessions();
+      queryClient.invalidateQueries({ queryKey: ["/api/brain/manual-qa"] });
+      toast({
+        title: "Conversa salva como treinamento",
+        description: `${saved} respostas viraram correções de ouro.`,
+      });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao salvar a conversa.", variant: "destructive" });
+    },
+  });
+
+  const handleSend = () => {
+    if (!message.trim() || sendMutation.isPending) return;
+    sendMutation.mutate(message.trim());
+  };
+
+  const filteredConversations = conversations.filter((conversation) => {
+    const search = replaySearch.trim().toLowerCase();
+    if (!search) return true;
+    return [conversation.senderName, conversation.senderUsername, conversation.lastMessagePreview]
+      .some((value) => value?.toLowerCase().includes(search));
+  });
+
+  const busy = sendMutation.isPending || editTurnMutation.isPending || saveMutation.isPending;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6 flex-1 min-h-0">
+      <Card className="h-fit max-h-full overflow-y-auto">
+        <CardHeader className="pb-3 space-y-2">
+          <CardTitle className="text-base">Conversas</CardTitle>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => createSessionMutation.mutate()}
+              disabled={createSessionMutation.isPending}
+              data-testid="button-new-simulator-session"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Nova
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => {
+                setReplaySearch("");
+                setReplayDialogOpen(true);
+              }}
+              data-testid="button-replay-conversation"
+            >
+              <History className="h-4 w-4 mr-1" />
+              Reproduzir
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {!isLoading && sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma conversa ainda.</p>
+          )}
+          {sessions.map((session) => (
+            <button
+              key={session.id}
+              onClick={() => setSelectedId(session.id)}
+              className={cn(
+                "w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted",
+                selectedId === session.id && "bg-muted"
+              )}
+              data-testid={`simulator-session-${session.id}`}
+            >
+              <p className="font-medium truncate">{session.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(session.updatedAt), "dd/MM HH:mm")} · {Math.floor(session.turnCount / 2)} trocas
+                {session.editedCount > 0 && ` · ${session.editedCount} corrigidas`}
+                {session.savedAt && " · salva"}
+              </p>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      {!detail ? (
+        <EmptyState
+          icon={MessagesSquare}
+          title="Conversas completas com a IA"
+          description="Faça o papel do seguidor por várias mensagens seguidas, corrija as respostas da IA onde precisar e salve a conversa inteira como treinamento. Ou reproduza uma conversa real com o prompt atual."
+        />
+      ) : (
+        <Card className="flex flex-col min-h-0 overflow-hidden">
+          <CardHeader className="pb-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <CardTitle className="truncate">{detail.session.title}</CardTitle>
+                <CardDescription>
+                  {detail.session.source === "replay" ? "Conversa real reproduzida com o prompt atual" : "Conversa simulada"}
+                  {" · "}seguidor: {detail.session.senderName}
+                  {detail.session.savedAt && ` · salva em ${format(new Date(detail.session.savedAt), "dd/MM/yyyy HH:mm")}`}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => saveMutation.mutate()}
+                  disabled={turns.length === 0 || busy}
+                  data-testid="button-save-simulator-session"
+                >
+                  {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+                  Salvar como treinamento
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteSessionMutation.mutate(detail.session.id)}
+                  title="Excluir conversa"
+                  data-testid="button-delete-simulator-session"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="flex-1 min-h-0 flex flex-col gap-4">
+            <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+              {turns.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  Escreva a primeira mensagem do seguidor.
+                </p>
+              )}
+              {turns.map((turn) => (
+                <TurnBubble
+                  key={`${turn.id}-${turn.content}`}
+                  turn={turn}
+                  senderName={detail.session.senderName}
+                  disabled={busy}
+                  onEdit={(content) => editTurnMutation.mutate({ turnId: turn.id, content })}
+                />
+              ))}
+              {sendMutation.isPending && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  IA respondendo...
+                </div>
+              )}
+            </div>
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSend();
+                  }
+                }}
+                placeholder={`Mensagem de ${detail.session.senderName}...`}
+                className="min-h-[44px] max-h-32 resize-none"
+                data-testid="input-simulator-turn"
+              />
+              <Button size="icon" onClick={handleSend} disabled={!message.trim() || busy} data-testid="button-send-simulator-turn">
+                {sendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={replayDialogOpen} onOpenChange={(open) => !replayMutation.isPending && setReplayDialogOpen(open)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Reproduzir conversa real</DialogTitle>
+            <DialogDescription>
+              As últimas mensagens do contato são respondidas de novo com o prompt atual, lado a lado com o que foi enviado de verdade.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={replaySearch}
+            onChange={(e) => setReplaySearch(e.target.value)}
+            placeholder="Buscar por nome ou mensagem..."
+          />
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {conversationsLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {!conversationsLoading && filteredConversations.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma conversa encontrada.</p>
+            )}
+            {filteredConversations.map((conversation) => (
+              <button
+                key={conversation.id}
+                onClick={() => replayMutation.mutate(conversation.id)}
+                disabled={replayMutation.isPending}
+                className="w-full text-left rounded-md px-3 py-2 text-sm transition-colors hover:bg-muted disabled:opacity-50"
+                data-testid={`replay-conversation-${conversation.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium truncate">
+                    {conversation.senderName || conversation.senderUsername || "Contato"}
+                    {conversation.senderUsername && (
+                      <span className="text-xs text-muted-foreground font-normal"> @{conversation.senderUsername}</span>
+                    )}
+                  </p>
+                  {replayMutation.isPending && replayMutation.variables === conversation.id && (
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {format(new Date(conversation.lastMessageAt), "dd/MM HH:mm")} · {conversation.lastMessagePreview || "—"}
+                </p>
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
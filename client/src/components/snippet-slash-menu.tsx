@@ -0,0 +1,62 @@
+import { cn } from "@/lib/utils";
+import type { RenderedSnippet } from "@shared/schema";
+
+const MAX_RESULTS = 8;
+
+export interface SlashQuery {
+  start: number; // Index of the "/" in the text
+  query: string;
+}
+
+// "/name" being typed right before the caret, at the start of the text or after a space
+export function getSlashQuery(text: string, caret: number): SlashQuery | null {
+  const match = text.slice(0, caret).match(/(?:^|\s)\/([a-z0-9_-]*)$/i);
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1].toLowerCase() };
+}
+
+export function filterSnippets(snippets: RenderedSnippet[], query: string): RenderedSnippet[] {
+  return snippets
+    .filter((s) => s.name.includes(query) || s.title.toLowerCase().includes(query))
+    .slice(0, MAX_RESULTS);
+}
+
+interface SnippetSlashMenuProps {
+  matches: RenderedSnippet[];
+  activeIndex: number;
+  onSelect: (snippet: RenderedSnippet) => void;
+}
+
+export function SnippetSlashMenu({ matches, activeIndex, onSelect }: SnippetSlashMenuProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div
+      className="absolute left-2 right-2 bottom-2 z-10 max-h-56 overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+      data-testid="snippet-slash-menu"
+    >
+      {matches.map((snippet, index) => (
+        <button
+          key={snippet.id}
+          type="button"
+          // mousedown keeps the textarea focused and the caret where it was
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(snippet);
+          }}
+          className={cn(
+            "w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-muted",
+            index === activeIndex && "bg-muted"
+          )}
+          data-testid={`snippet-option-${snippet.name}`}
+        >
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{snippet.title}</span>
+            <code className="text-xs text-muted-foreground">/{snippet.name}</code>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{snippet.rendered}</p>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { setActiveAccountId } from "@/lib/queryClient";
+import type { CommentModerationConfig, SafetyFilterConfig, SendSchedule } from "@shared/schema";
+
+export interface InstagramAccountSummary {
+  id: number;
+  instagramAccountId: string;
+  instagramUsername: string | null;
+  instagramProfilePic: string | null;
+  tokenExpiresAt: string | null;
+  showTokenWarning: boolean;
+  operationMode: string | null;
+  confidenceThreshold: number | null;
+  sendSchedule: SendSchedule | null;
+  safetyFilter: SafetyFilterConfig | null;
+  commentModeration: CommentModerationConfig | null;
+  isPrimary: boolean;
+  connected: boolean;
+}
+
+interface AccountContextValue {
+  accounts: InstagramAccountSummary[];
+  activeAccountId: number | null; // null = all accounts
+  activeAccount: InstagramAccountSummary | null;
+  setActiveAccount: (accountId: number | null) => void;
+}
+
+const STORAGE_KEY = "instagram-active-account";
+
+const AccountContext = createContext<AccountContextValue | undefined>(undefined);
+
+function readStoredAccountId(): number | null {
+  const stored = parseInt(localStorage.getItem(STORAGE_KEY) || "", 10);
+  return isNaN(stored) ? null : stored;
+}
+
+export function AccountProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [activeAccountId, setActiveAccountIdState] = useState<number | null>(() => {
+    // Set synchronously so the very first queries already carry the header
+    const stored = readStoredAccountId();
+    setActiveAccountId(stored);
+    return stored;
+  });
+
+  const { data: accounts = [] } = useQuery<InstagramAccountSummary[]>({
+    queryKey: ["/api/instagram/accounts"],
+  });
+
+  const setActiveAccount = (accountId: number | null) => {
+    if (accountId === activeAccountId) return;
+
+    setActiveAccountId(accountId);
+    setActiveAccountIdState(accountId);
+    if (accountId) {
+      localStorage.setItem(STORAGE_KEY, String(accountId));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+
+    // Every cached list/stat was scoped to the previous account
+    queryClient.invalidateQueries();
+  };
+
+  // Fall back to "all accounts" if the stored account was removed
+  useEffect(() => {
+    if (activeAccountId && accounts.length > 0 && !accounts.some(a => a.id === activeAccountId)) {
+      setActiveAccount(null);
+    }
+  }, [accounts, activeAccountId]);
+
+  const activeAccount = accounts.find(a => a.id === activeAccountId) || null;
+
+  return (
+    <AccountContext.Provider value={{ accounts, activeAccountId, activeAccount, setActiveAccount }}>
+      {children}
+    </AccountContext.Provider>
+  );
+}
+
+export function useAccountContext() {
+  const context = useContext(AccountContext);
+  if (context === undefined) {
+    throw new Error("useAccountContext must be used within an AccountProvider");
+  }
+  return context;
+}
@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import type { LiveEventType } from "@shared/schema";
+
+type LiveEventHandler = (data: any) => void;
+
+interface LiveEventsContextValue {
+  connected: boolean; // false = stream down, pages fall back to polling
+  subscribe: (type: LiveEventType, handler: LiveEventHandler) => () => void;
+}
+
+const EVENT_TYPES: LiveEventType[] = [
+  "message.created",
+  "message.draft_ready",
+  "message.status_changed",
+  "message.auto_sent",
+  "message.private_reply",
+  "sync.progress",
+  "token.warning",
+];
+
+// Lists and counters that depend on messages (query keys may carry a query string)
+const MESSAGE_QUERY_PREFIXES = ["/api/messages", "/api/stats", "/api/conversations", "/api/scheduled-sends"];
+
+const LiveEventsContext = createContext<LiveEventsContextValue | undefined>(undefined);
+
+export function LiveEventsProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(new Map<LiveEventType, Set<LiveEventHandler>>());
+
+  useEffect(() => {
+    if (!isAuthenticated || typeof EventSource === "undefined") return;
+
+    // The browser reconnects on its own after network errors; a rejected stream (401) stays closed
+    const source = new EventSource("/api/events", { withCredentials: true });
+    source.addEventListener("ready", () => setConnected(true));
+    source.onerror = () => setConnected(false);
+
+    const applyToCache = (type: LiveEventType) => {
+      if (type.startsWith("message.")) {
+        queryClient.invalidateQueries({
+          predicate: (query) => MESSAGE_QUERY_PREFIXES.some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+        });
+      } else if (type === "token.warning") {
+        queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      }
+    };
+
+    for (const type of EVENT_TYPES) {
+      source.addEventListener(type, (event) => {
+        let data: any = {};
+        try {
+          data = JSON.parse((event as MessageEvent).data || "{}");
+        } catch {
+          // Keep the empty payload; the cache refresh below doesn't need it
+        }
+        applyToCache(type);
+        handlersRef.current.get(type)?.forEach((handler) => handler(data));
+      });
+    }
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [isAuthenticated, queryClient]);
+
+  const subscribe = (type: LiveEventType, handler: LiveEventHandler) => {
+    let handlers = handlersRef.current.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      handlersRef.current.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  };
+
+  return (
+    <LiveEventsContext.Provider value={{ connected, subscribe }}>
+      {children}
+    </LiveEventsContext.Provider>
+  );
+}
+
+export function useLiveEvents() {
+  const context = useContext(LiveEventsContext);
+  if (context === undefined) {
+    throw new Error("useLiveEvents must be used within a LiveEventsProvider");
+  }
+  return context;
+}
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useRef, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { accountHeaders } from "@/lib/queryClient";
+import { useLiveEvents } from "@/contexts/LiveEventsContext";
 
 interface SyncProgress {
   stage: string;
@@ -37,8 +39,67 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastStatusRef = useRef<'running' | 'completed' | 'error' | null>(null);
   const isPollingRef = useRef<boolean>(false);
+  const { connected: liveConnected, subscribe } = useLiveEvents();
+  const liveConnectedRef = useRef(liveConnected);
 
-  // Function to start polling for sync progress
+  // Applies a progress snapshot, pushed by the event stream or fetched by the polling fallback
+  const applyProgress = (data: SyncProgress) => {
+    if (data.status === 'running') {
+      setIsSyncing(true);
+      setSyncProgress(data.percent || 0);
+      setSyncStatus(data.stage || "Sincronizando...");
+      setSyncError(null);
+      lastStatusRef.current = 'running';
+    } else if (data.status === 'completed' && (lastStatusRef.current === 'running' || (lastStatusRef.current === null && data.percent === 100))) {
+      // Sync just completed - handle transition from running or null (after refresh)
+      setIsSyncing(false);
+      setSyncProgress(100);
+      setSyncStatus("Concluído!");
+      setSyncError(null);
+
+      // Show success toast only if we haven't already shown it
+      if (lastStatusRef.current === 'running' || (lastStatusRef.current === null && data.percent === 100)) {
+        const postsCount = data.result?.captionsCount || 0;
+        const interactionsCount = data.result?.interactionCount || 0;
+
+        toast({
+          title: "✅ Sincronização Concluída",
+          description: `${postsCount} posts e ${interactionsCount} interações sincronizadas! Agora clique em 'Gerar Personalidade via IA' para clonar seu tom de voz.`,
+        });
+
+        // Invalidate queries to refresh data
+        queryClient.invalidateQueries({ queryKey: ["/api/knowledge/instagram-profiles"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/brain/dataset"] });
+      }
+
+      // Reset state after brief animation
+      setTimeout(() => {
+        setSyncProgress(0);
+        setSyncStatus("");
+      }, 2000);
+
+      stopPolling();
+      lastStatusRef.current = 'completed';
+    } else if (data.status === 'error' && lastStatusRef.current === 'running') {
+      // Sync encountered an error
+      setIsSyncing(false);
+      setSyncProgress(0);
+      setSyncStatus("");
+      setSyncError(data.error || "Erro ao sincronizar conta");
+
+      // Show error toast
+      toast({
+        title: "Erro",
+        description: data.error || "Erro ao sincronizar conta.",
+        variant: "destructive",
+      });
+
+      stopPolling();
+      lastStatusRef.current = 'error';
+    }
+  };
+
+  // Function to start polling for sync progress (fallback while the event stream is down)
   const startPolling = () => {
     if (pollingIntervalRef.current) {
       return; // Already polling
@@ -58,72 +119,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         });
         
         if (response.ok) {
-          const data: SyncProgress = await response.json();
-          
-          // Update state based on progress
-          if (data.status === 'running') {
-            setIsSyncing(true);
-            setSyncProgress(data.percent || 0);
-            setSyncStatus(data.stage || "Sincronizando...");
-            setSyncError(null);
-            lastStatusRef.current = 'running';
-          } else if (data.status === 'completed' && (lastStatusRef.current === 'running' || (lastStatusRef.current === null && data.percent === 100))) {
-            // Sync just completed - handle transition from running or null (after refresh)
-            setIsSyncing(false);
-            setSyncProgress(100);
-            setSyncStatus("Concluído!");
-            setSyncError(null);
-            
-            // Show success toast only if we haven't already shown it
-            if (lastStatusRef.current === 'running' || (lastStatusRef.current === null && data.percent === 100)) {
-              const postsCount = data.result?.captionsCount || 0;
-              const interactionsCount = data.result?.interactionCount || 0;
-              
-              toast({
-                title: "✅ Sincronização Concluída",
-                description: `${postsCount} posts e ${interactionsCount} interações sincronizadas! Agora clique em 'Gerar Personalidade via IA' para clonar seu tom de voz.`,
-              });
-
-              // Invalidate queries to refresh data
-              queryClient.invalidateQueries({ queryKey: ["/api/knowledge/instagram-profiles"] });
-              queryClient.invalidateQueries({ queryKey: ["/api/brain/dataset"] });
-            }
-
-            // Reset state after brief animation
-            setTimeout(() => {
-              setSyncProgress(0);
-              setSyncStatus("");
-            }, 2000);
-
-            // Stop polling
-            if (pollingIntervalRef.current) {
-              clearInterval(pollingIntervalRef.current);
-              pollingIntervalRef.current = null;
-            }
-
-            lastStatusRef.current = 'completed';
-          } else if (data.status === 'error' && lastStatusRef.current === 'running') {
-            // Sync encountered an error
-            setIsSyncing(false);
-            setSyncProgress(0);
-            setSyncStatus("");
-            setSyncError(data.error || "Erro ao sincronizar conta");
-
-            // Show error toast
-            toast({
-              title: "Erro",
-              description: data.error || "Erro ao sincronizar conta.",
-              variant: "destructive",
-            });
-
-            // Stop polling
-            if (pollingIntervalRef.current) {
-              clearInterval(pollingIntervalRef.current);
-              pollingIntervalRef.current = null;
-            }
-
-            lastStatusRef.current = 'error';
-          }
+          applyProgress(await response.json());
         }
       } catch (err) {
         console.error("Progress polling error:", err);
@@ -141,6 +137,25 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Progress arrives over the event stream; poll only while it is disconnected
+  const followSync = () => {
+    if (!liveConnectedRef.current) startPolling();
+  };
+
+  // applyProgress only touches state setters and refs, so the first render's copy stays valid
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => subscribe("sync.progress", applyProgress), []);
+
+  useEffect(() => {
+    liveConnectedRef.current = liveConnected;
+    if (liveConnected) {
+      stopPolling();
+    } else if (lastStatusRef.current === 'running') {
+      startPolling();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveConnected]);
+
   // Start sync function
   const startSync = async () => {
     try {
@@ -152,7 +167,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
 
       const response = await fetch("/api/knowledge/sync-official", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...accountHeaders() },
         credentials: "include",
         body: JSON.stringify({}),
       });
@@ -162,8 +177,8 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         
         // Check if already syncing
         if (errorData.code === "ALREADY_SYNCING") {
-          // Just start polling without error
-          startPolling();
+          // Just follow the running sync without error
+          followSync();
           return;
         }
 
@@ -171,8 +186,8 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
         throw new Error(errorData.error || "Erro ao iniciar sincronização");
       }
 
-      // Sync started successfully, begin polling
-      startPolling();
+      // Sync started successfully, follow its progress
+      followSync();
     } catch (error: unknown) {
       setIsSyncing(false);
       setSyncProgress(0);
@@ -216,7 +231,7 @@ export function SyncProvider({ children }: { children: React.ReactNode }) {
             setSyncProgress(data.percent || 0);
             setSyncStatus(data.stage || "Sincronizando...");
             lastStatusRef.current = 'running';
-            startPolling();
+            followSync();
           }
         }
       } catch (err) {
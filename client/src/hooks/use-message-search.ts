@@ -0,0 +1,42 @@
+import { useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { MessageSearchPage, MessageWithResponse } from "@shared/schema";
+
+// Filters as sent in the query string (see messageSearchSchema); lists are comma-joined, empty values are dropped
+export type MessageSearchParams = Record<string, string | number | boolean | string[] | undefined>;
+
+// Infinite, server-filtered message list on top of GET /api/messages/search.
+// The key keeps the "/api/messages" prefix so live events and mutations invalidate it.
+export function useMessageSearch(filters: MessageSearchParams, options: { enabled?: boolean; refetchInterval?: number | false } = {}) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+    } else if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  }
+  const url = `/api/messages/search?${params.toString()}`;
+
+  const query = useInfiniteQuery<MessageSearchPage>({
+    queryKey: [url],
+    initialPageParam: null,
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(params);
+      if (pageParam) pageParams.set("cursor", String(pageParam));
+      const res = await apiRequest("GET", `/api/messages/search?${pageParams.toString()}`);
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: options.enabled,
+    refetchInterval: options.refetchInterval,
+  });
+
+  const messages = useMemo<MessageWithResponse[]>(
+    () => query.data?.pages.flatMap((page) => page.items) ?? [],
+    [query.data],
+  );
+
+  return { ...query, messages };
+}
@@ -7,6 +7,18 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Instagram account selected in the sidebar (null = all accounts).
+// Sent on every API call so the server scopes inbox, stats and knowledge to it.
+let activeAccountId: number | null = null;
+
+export function setActiveAccountId(accountId: number | null) {
+  activeAccountId = accountId;
+}
+
+export function accountHeaders(): Record<string, string> {
+  return activeAccountId ? { "x-instagram-account-id": String(activeAccountId) } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -14,7 +26,9 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data
+      ? { "Content-Type": "application/json", ...accountHeaders() }
+      : accountHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +44,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
+      headers: accountHeaders(),
       credentials: "include",
     });
 
@@ -0,0 +1,38 @@
+export type DiffPart = { text: string; kind: "same" | "removed" | "added" };
+
+// Longest-common-subsequence diff between two token lists
+function diffTokens(a: string[], b: string[]): DiffPart[] {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ text: a[i++], kind: "same" });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ text: a[i++], kind: "removed" });
+    } else {
+      parts.push({ text: b[j++], kind: "added" });
+    }
+  }
+  while (i < a.length) parts.push({ text: a[i++], kind: "removed" });
+  while (j < b.length) parts.push({ text: b[j++], kind: "added" });
+  return parts;
+}
+
+// Word-level diff, whitespace kept so the parts join back into the text
+export function diffWords(before: string, after: string): DiffPart[] {
+  return diffTokens(before.split(/(\s+)/), after.split(/(\s+)/));
+}
+
+// Line-level diff, for long texts such as system prompts
+export function diffLines(before: string, after: string): DiffPart[] {
+  return diffTokens(before.split("\n"), after.split("\n"));
+}
@@ -18,6 +18,9 @@ import {
   AlertTriangle,
   Globe,
   Save,
+  RotateCcw,
+  Inbox,
+  Database,
 } from "lucide-react";
 import {
   Card,
@@ -92,11 +95,49 @@ interface UserStats {
   lastActivity: string | null;
 }
 
+interface DeadWebhookJob {
+  id: number;
+  idempotencyKey: string;
+  eventType: string;
+  entryId: string;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  processedAt: string | null;
+  payload: string;
+}
+
+interface WebhookQueueData {
+  stats: Record<string, number>;
+  deadJobs: DeadWebhookJob[];
+}
+
+interface EmbeddingIndexData {
+  provider: string;
+  pgvector: boolean;
+  stats: Record<string, { total: number; embedded: number }>;
+}
+
+const KNOWLEDGE_SOURCE_LABELS: Record<string, string> = {
+  gold: "Q&A Manual",
+  dataset: "Dataset",
+  media: "Posts",
+  interaction: "Interações",
+};
+
 interface GlobalSettings {
   operationMode: string;
   confidenceThreshold: number;
   systemPrompt: string;
   aiTone: string;
+  aiProvider: string;
+  aiModel: string;
+  aiBaseUrl: string;
+  embeddingProvider: string;
+  transcriptionProvider: string;
+  availableProviders: { id: string; label: string; defaultModel: string }[];
+  embeddingProviders: string[];
+  transcriptionProviders: string[];
 }
 
 export default function Admin() {
@@ -124,6 +165,18 @@ export default function Admin() {
     refetchInterval: 30000,
   });
 
+  const { data: webhookQueue } = useQuery<WebhookQueueData>({
+    queryKey: ["/api/admin/webhook-queue"],
+    enabled: !!user?.isAdmin,
+    refetchInterval: 30000,
+  });
+
+  const { data: embeddingIndex } = useQuery<EmbeddingIndexData>({
+    queryKey: ["/api/admin/embeddings"],
+    enabled: !!user?.isAdmin,
+    refetchInterval: 60000,
+  });
+
   const { data: globalSettings, isLoading: isLoadingGlobalSettings } = useQuery<GlobalSettings>({
     queryKey: ["/api/admin/global-settings"],
     enabled: !!user?.isAdmin,
@@ -164,7 +217,8 @@ export default function Admin() {
 
   const handleSaveGlobalSettings = () => {
     if (localGlobalSettings) {
-      saveGlobalSettingsMutation.mutate(localGlobalSettings);
+      const { availableProviders, embeddingProviders, transcriptionProviders, ...updates } = localGlobalSettings;
+      saveGlobalSettingsMutation.mutate(updates);
     }
   };
 
@@ -195,7 +249,9 @@ export default function Admin() {
       return await apiRequest("DELETE", "/api/clear-messages");
     },
     onSuccess: (data: any) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/user-stats"] });
       toast({
@@ -253,6 +309,67 @@ export default function Admin() {
     },
   });
 
+  const retryWebhookJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      return apiRequest("POST", `/api/admin/webhook-queue/${jobId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhook-queue"] });
+      toast({
+        title: "Sucesso",
+        description: "Evento devolvido à fila de processamento",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível reprocessar o evento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runEmbeddingBackfillMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/embeddings/backfill");
+      return res.json() as Promise<{ embedded: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/embeddings"] });
+      toast({
+        title: "Sucesso",
+        description: `${data.embedded} registro(s) indexado(s)`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível indexar a base de conhecimento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const discardWebhookJobMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      return apiRequest("DELETE", `/api/admin/webhook-queue/${jobId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhook-queue"] });
+      toast({
+        title: "Sucesso",
+        description: "Evento descartado",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível descartar o evento",
+        variant: "destructive",
+      });
+    },
+  });
+
   const [refreshingUserId, setRefreshingUserId] = useState<string | null>(null);
 
   const refreshInstagramMutation = useMutation({
@@ -876,6 +993,117 @@ export default function Admin() {
                       </p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="global-ai-provider">Provedor de IA Padrão</Label>
+                      <Select
+                        value={localGlobalSettings.aiProvider}
+                        onValueChange={(value) =>
+                          setLocalGlobalSettings({ ...localGlobalSettings, aiProvider: value })
+                        }
+                      >
+                        <SelectTrigger id="global-ai-provider" data-testid="select-global-ai-provider">
+                          <SelectValue placeholder="Selecione o provedor" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {localGlobalSettings.availableProviders.map((provider) => (
+                            <SelectItem key={provider.id} value={provider.id}>
+                              {provider.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Usado para gerar respostas, no Copiloto e no Arquiteto. Usuários podem escolher outro provedor.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="global-ai-model">Modelo</Label>
+                      <Input
+                        id="global-ai-model"
+                        value={localGlobalSettings.aiModel}
+                        onChange={(e) =>
+                          setLocalGlobalSettings({ ...localGlobalSettings, aiModel: e.target.value })
+                        }
+                        placeholder={
+                          localGlobalSettings.availableProviders.find((p) => p.id === localGlobalSettings.aiProvider)?.defaultModel
+                          || "Modelo padrão do provedor"
+                        }
+                        data-testid="input-global-ai-model"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Deixe em branco para usar o modelo padrão do provedor.
+                      </p>
+                    </div>
+
+                    {localGlobalSettings.aiProvider === "openai_compatible" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="global-ai-base-url">URL do Servidor</Label>
+                        <Input
+                          id="global-ai-base-url"
+                          value={localGlobalSettings.aiBaseUrl}
+                          onChange={(e) =>
+                            setLocalGlobalSettings({ ...localGlobalSettings, aiBaseUrl: e.target.value })
+                          }
+                          placeholder="http://localhost:11434/v1"
+                          data-testid="input-global-ai-base-url"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Endpoint compatível com a API da OpenAI (Ollama, llama.cpp, vLLM).
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="global-embedding-provider">Provedor de Embeddings</Label>
+                        <Select
+                          value={localGlobalSettings.embeddingProvider}
+                          onValueChange={(value) =>
+                            setLocalGlobalSettings({ ...localGlobalSettings, embeddingProvider: value })
+                          }
+                        >
+                          <SelectTrigger id="global-embedding-provider" data-testid="select-global-embedding-provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {localGlobalSettings.availableProviders
+                              .filter((p) => localGlobalSettings.embeddingProviders.includes(p.id))
+                              .map((provider) => (
+                                <SelectItem key={provider.id} value={provider.id}>
+                                  {provider.label}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="global-transcription-provider">Provedor de Transcrição</Label>
+                        <Select
+                          value={localGlobalSettings.transcriptionProvider}
+                          onValueChange={(value) =>
+                            setLocalGlobalSettings({ ...localGlobalSettings, transcriptionProvider: value })
+                          }
+                        >
+                          <SelectTrigger id="global-transcription-provider" data-testid="select-global-transcription-provider">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {localGlobalSettings.availableProviders
+                              .filter((p) => localGlobalSettings.transcriptionProviders.includes(p.id))
+                              .map((provider) => (
+                                <SelectItem key={provider.id} value={provider.id}>
+                                  {provider.label}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground -mt-2">
+                      Embeddings e transcrição valem para todo o sistema. Ao trocar o provedor de embeddings, a base de conhecimento é reindexada automaticamente em segundo plano.
+                    </p>
+
                     <div className="space-y-2">
                       <Label htmlFor="global-system-prompt">Prompt do Sistema Padrão</Label>
                       <Textarea
@@ -941,6 +1169,147 @@ export default function Admin() {
         </TabsContent>
 
         <TabsContent value="maintenance" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Inbox className="h-5 w-5" />
+                Fila de Webhooks
+              </CardTitle>
+              <CardDescription>
+                Eventos do Instagram são salvos no banco e processados em segundo plano.
+                Eventos que falharam em todas as tentativas ficam na lista de falhas abaixo.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" data-testid="badge-queue-pending">
+                  Pendentes: {webhookQueue?.stats.pending ?? 0}
+                </Badge>
+                <Badge variant="outline" data-testid="badge-queue-processing">
+                  Processando: {webhookQueue?.stats.processing ?? 0}
+                </Badge>
+                <Badge variant="outline" data-testid="badge-queue-done">
+                  Concluídos: {webhookQueue?.stats.done ?? 0}
+                </Badge>
+                <Badge
+                  variant={(webhookQueue?.stats.dead ?? 0) > 0 ? "destructive" : "outline"}
+                  data-testid="badge-queue-dead"
+                >
+                  Falhas: {webhookQueue?.stats.dead ?? 0}
+                </Badge>
+              </div>
+
+              {!webhookQueue?.deadJobs.length ? (
+                <div className="text-center py-6 text-muted-foreground text-sm">
+                  <CheckCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  Nenhum evento com falha
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Evento</TableHead>
+                      <TableHead>Tentativas</TableHead>
+                      <TableHead>Último Erro</TableHead>
+                      <TableHead>Recebido</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {webhookQueue.deadJobs.map((job) => (
+                      <TableRow key={job.id} data-testid={`row-dead-job-${job.id}`}>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <Badge variant="secondary" className="w-fit">{job.eventType}</Badge>
+                            <span className="text-xs font-mono text-muted-foreground break-all" title={job.payload}>
+                              {job.idempotencyKey}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{job.attempts}</TableCell>
+                        <TableCell>
+                          <span className="text-xs text-destructive line-clamp-2" title={job.lastError || ""}>
+                            {job.lastError || "-"}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm text-muted-foreground">
+                            {formatLastActivity(job.createdAt)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryWebhookJobMutation.mutate(job.id)}
+                              disabled={retryWebhookJobMutation.isPending}
+                              data-testid={`button-retry-job-${job.id}`}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Reprocessar
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => discardWebhookJobMutation.mutate(job.id)}
+                              disabled={discardWebhookJobMutation.isPending}
+                              data-testid={`button-discard-job-${job.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5" />
+                Índice Vetorial
+              </CardTitle>
+              <CardDescription>
+                Registros da base de conhecimento com embedding gerado. Novos registros são indexados
+                automaticamente a cada minuto.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(embeddingIndex?.stats ?? {}).map(([source, stat]) => (
+                  <Badge
+                    key={source}
+                    variant={stat.embedded < stat.total ? "secondary" : "outline"}
+                    data-testid={`badge-embeddings-${source}`}
+                  >
+                    {KNOWLEDGE_SOURCE_LABELS[source] ?? source}: {stat.embedded}/{stat.total}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  Provedor: {embeddingIndex?.provider ?? "-"} ·{" "}
+                  {embeddingIndex?.pgvector ? "pgvector ativo" : "pgvector indisponível (busca em memória)"}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runEmbeddingBackfillMutation.mutate()}
+                  disabled={runEmbeddingBackfillMutation.isPending}
+                  data-testid="button-run-embedding-backfill"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${runEmbeddingBackfillMutation.isPending ? "animate-spin" : ""}`} />
+                  Indexar agora
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Limpar Mensagens</CardTitle>
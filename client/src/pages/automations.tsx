@@ -0,0 +1,703 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Edit2, FlaskConical, Info, Loader2, Plus, Trash2, Zap } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAccountContext } from "@/contexts/AccountContext";
+import { CommentModerationCard } from "@/components/comment-moderation-card";
+import type { TeamData } from "@/pages/team";
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationConditions,
+  AutomationRule,
+  AutomationRuleInput,
+  MessageIntent,
+} from "@shared/schema";
+
+const ALL_ACCOUNTS = "all";
+
+const INTENT_LABELS: Record<MessageIntent, string> = {
+  question: "Pergunta",
+  request: "Pedido",
+  complaint: "Reclamação",
+  praise: "Elogio",
+  urgent: "Urgente",
+  casual: "Casual",
+};
+
+const ACTION_LABELS: Record<AutomationActionType, string> = {
+  send_reply: "Responder com texto fixo",
+  send_dm: "Enviar DM ao autor do comentário",
+  manual_review: "Forçar revisão manual",
+  skip_ai: "Não gerar resposta da IA",
+  tag: "Adicionar tags",
+  assign: "Atribuir conversa",
+};
+
+// Form state keeps list fields as the text the user is typing
+interface ActionDraft {
+  type: AutomationActionType;
+  text: string;
+  tagsText: string;
+  userId: string;
+}
+
+interface RuleDraft {
+  name: string;
+  accountId: number | null;
+  priority: number;
+  stopOnMatch: boolean;
+  isActive: boolean;
+  messageTypes: ("dm" | "comment")[];
+  keywordsText: string;
+  pattern: string;
+  intents: MessageIntent[];
+  postIdsText: string;
+  minFollowers: string;
+  maxFollowers: string;
+  firstContact: "any" | "first" | "returning";
+  actions: ActionDraft[];
+}
+
+interface AutomationTestResult {
+  intent: MessageIntent;
+  matchedRules: { id: number; name: string }[];
+  reply: string | null;
+  privateReply: string | null;
+  skipAI: boolean;
+  manualReview: boolean;
+  tags: string[];
+}
+
+const EMPTY_ACTION: ActionDraft = { type: "send_reply", text: "", tagsText: "", userId: "" };
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  accountId: null,
+  priority: 0,
+  stopOnMatch: true,
+  isActive: true,
+  messageTypes: [],
+  keywordsText: "",
+  pattern: "",
+  intents: [],
+  postIdsText: "",
+  minFollowers: "",
+  maxFollowers: "",
+  firstContact: "any",
+  actions: [EMPTY_ACTION],
+};
+
+// One entry per comma or line
+const toList = (text: string) => text.split(/[\n,]/).map((item) => item.trim()).filter(Boolean);
+
+function draftFromRule(rule: AutomationRule): RuleDraft {
+  const c = rule.conditions as AutomationConditions;
+  return {
+    name: rule.name,
+    accountId: rule.accountId,
+    priority: rule.priority,
+    stopOnMatch: rule.stopOnMatch,
+    isActive: rule.isActive,
+    messageTypes: c.messageTypes || [],
+    keywordsText: (c.keywords || []).join(", "),
+    pattern: c.pattern || "",
+    intents: c.intents || [],
+    postIdsText: (c.postIds || []).join(", "),
+    minFollowers: c.minFollowers !== undefined ? String(c.minFollowers) : "",
+    maxFollowers: c.maxFollowers !== undefined ? String(c.maxFollowers) : "",
+    firstContact: c.firstContact === undefined ? "any" : c.firstContact ? "first" : "returning",
+    actions: (rule.actions as AutomationAction[]).map((a) => ({
+      ...EMPTY_ACTION,
+      type: a.type,
+      text: "text" in a ? a.text : "",
+      tagsText: "tags" in a ? a.tags.join(", ") : "",
+      userId: "userId" in a ? a.userId : "",
+    })),
+  };
+}
+
+function ruleFromDraft(draft: RuleDraft): AutomationRuleInput {
+  const conditions: AutomationConditions = {};
+  if (draft.messageTypes.length > 0) conditions.messageTypes = draft.messageTypes;
+  if (toList(draft.keywordsText).length > 0) conditions.keywords = toList(draft.keywordsText);
+  if (draft.pattern.trim()) conditions.pattern = draft.pattern.trim();
+  if (draft.intents.length > 0) conditions.intents = draft.intents;
+  if (toList(draft.postIdsText).length > 0) conditions.postIds = toList(draft.postIdsText);
+  if (draft.minFollowers !== "") conditions.minFollowers = Number(draft.minFollowers);
+  if (draft.maxFollowers !== "") conditions.maxFollowers = Number(draft.maxFollowers);
+  if (draft.firstContact !== "any") conditions.firstContact = draft.firstContact === "first";
+
+  const actions = draft.actions.map((a): AutomationAction => {
+    switch (a.type) {
+      case "send_reply":
+      case "send_dm":
+        return { type: a.type, text: a.text };
+      case "tag":
+        return { type: "tag", tags: toList(a.tagsText) };
+      case "assign":
+        return { type: "assign", userId: a.userId };
+      default:
+        return { type: a.type };
+    }
+  });
+
+  return {
+    name: draft.name.trim(),
+    accountId: draft.accountId,
+    priority: draft.priority,
+    stopOnMatch: draft.stopOnMatch,
+    isActive: draft.isActive,
+    conditions,
+    actions,
+  };
+}
+
+function describeConditions(c: AutomationConditions): string[] {
+  const parts: string[] = [];
+  if (c.messageTypes) parts.push(c.messageTypes.map((t) => (t === "dm" ? "DM" : "Comentário")).join(" ou "));
+  if (c.keywords) parts.push(`Palavras: ${c.keywords.join(", ")}`);
+  if (c.pattern) parts.push(`Regex: /${c.pattern}/`);
+  if (c.intents) parts.push(`Intenção: ${c.intents.map((i) => INTENT_LABELS[i]).join(", ")}`);
+  if (c.postIds) parts.push(`${c.postIds.length} publicação(ões)`);
+  if (c.minFollowers !== undefined) parts.push(`≥ ${c.minFollowers} seguidores`);
+  if (c.maxFollowers !== undefined) parts.push(`≤ ${c.maxFollowers} seguidores`);
+  if (c.firstContact !== undefined) parts.push(c.firstContact ? "Primeiro contato" : "Contato recorrente");
+  return parts.length > 0 ? parts : ["Todas as mensagens"];
+}
+
+export default function Automations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { accounts } = useAccountContext();
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [testText, setTestText] = useState("");
+  const [testType, setTestType] = useState<"dm" | "comment">("comment");
+  const [testResult, setTestResult] = useState<AutomationTestResult | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery<AutomationRule[]>({
+    queryKey: ["/api/automations"],
+  });
+
+  const { data: team } = useQuery<TeamData>({
+    queryKey: ["/api/team"],
+  });
+
+  const accountLabel = (accountId: number | null) => {
+    if (!accountId) return "Todas as contas";
+    const account = accounts.find((a) => a.id === accountId);
+    return account ? `@${account.instagramUsername || account.instagramAccountId}` : "Conta removida";
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AutomationRuleInput) => {
+      if (editingId) {
+        await apiRequest("PATCH", `/api/automations/${editingId}`, data);
+      } else {
+        await apiRequest("POST", "/api/automations", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+      setIsDialogOpen(false);
+      toast({ title: "Regra salva", description: "Vale para as próximas mensagens recebidas." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar a regra. Confira os campos.", variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: AutomationRule) => {
+      await apiRequest("PATCH", `/api/automations/${rule.id}`, { isActive: !rule.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/automations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/automations"] });
+      toast({ title: "Regra removida" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/automations/test", { text: testText, type: testType });
+      return (await res.json()) as AutomationTestResult;
+    },
+    onSuccess: setTestResult,
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao testar as regras.", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (rule?: AutomationRule) => {
+    setEditingId(rule?.id ?? null);
+    setDraft(rule ? draftFromRule(rule) : EMPTY_DRAFT);
+    setIsDialogOpen(true);
+  };
+
+  const updateAction = (index: number, updates: Partial<ActionDraft>) => {
+    setDraft({ ...draft, actions: draft.actions.map((a, i) => (i === index ? { ...a, ...updates } : a)) });
+  };
+
+  const toggleInList = <T,>(list: T[], item: T) =>
+    list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+  return (
+    <div className="flex flex-col h-full p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Automações</h1>
+          <p className="text-muted-foreground mt-2">
+            Regras por palavra-chave, intenção ou publicação, aplicadas antes da IA gerar a resposta.
+          </p>
+        </div>
+        <Button onClick={() => openDialog()} data-testid="button-new-automation">
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Regra
+        </Button>
+      </div>
+
+      <Card className="bg-blue-50/50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Info className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+            <CardTitle className="text-base">Como funcionam as regras</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-1">
+          <p>
+            As regras ativas são avaliadas por prioridade (menor primeiro). Quando todas as condições batem, as ações
+            são aplicadas; com "Parar nas próximas" ligado, as regras seguintes são ignoradas.
+          </p>
+          <p>
+            Exemplo de campanha: comentário com a palavra <code>LINK</code> numa publicação → enviar DM com o link e
+            responder "Te mandei no direct!". Os textos aceitam <code>{"{first_name}"}</code>,{" "}
+            <code>{"{post_link}"}</code> e <code>{"{{snippet:nome}}"}</code>.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Suas Regras</CardTitle>
+            <Badge variant="secondary">{rules.length}</Badge>
+          </div>
+          <CardDescription>Ative ou desative conforme a campanha.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <Zap className="h-16 w-16 mb-4 opacity-50" />
+              <p>Nenhuma regra criada ainda.</p>
+              <p className="text-sm mt-1">Clique em "Nova Regra" para começar.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="p-4 border rounded-lg hover:bg-muted/30 transition-colors"
+                  data-testid={`automation-${rule.id}`}
+                >
+                  <div className="flex items-start gap-4">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={() => toggleMutation.mutate(rule)}
+                      disabled={toggleMutation.isPending}
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{rule.name}</span>
+                        <Badge variant="outline">{accountLabel(rule.accountId)}</Badge>
+                        <span className="text-xs text-muted-foreground">Prioridade {rule.priority}</span>
+                      </div>
+                      <div className="flex items-center gap-1 flex-wrap">
+                        {describeConditions(rule.conditions as AutomationConditions).map((part) => (
+                          <Badge key={part} variant="secondary" className="font-normal">{part}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        → {(rule.actions as AutomationAction[]).map((a) => ACTION_LABELS[a.type]).join(" · ")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {rule.matchCount} disparo{rule.matchCount === 1 ? "" : "s"}
+                        {rule.lastMatchedAt &&
+                          ` · último ${formatDistanceToNow(new Date(rule.lastMatchedAt), { addSuffix: true, locale: ptBR })}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Testar regras
+          </CardTitle>
+          <CardDescription>Veja quais regras ativas uma mensagem dispararia. Nada é enviado.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={testType} onValueChange={(v) => setTestType(v as "dm" | "comment")}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="comment">Comentário</SelectItem>
+                <SelectItem value="dm">DM</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={testText}
+              onChange={(e) => setTestText(e.target.value)}
+              placeholder="Ex.: Quero o LINK!"
+              data-testid="input-automation-test"
+            />
+            <Button onClick={() => testMutation.mutate()} disabled={!testText.trim() || testMutation.isPending}>
+              {testMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Testar
+            </Button>
+          </div>
+          {testResult && (
+            <div className="text-sm space-y-1" data-testid="automation-test-result">
+              <p>Intenção detectada: <strong>{INTENT_LABELS[testResult.intent]}</strong></p>
+              {testResult.matchedRules.length === 0 ? (
+                <p className="text-muted-foreground">Nenhuma regra disparou: a IA responderia normalmente.</p>
+              ) : (
+                <>
+                  <p>Regras: {testResult.matchedRules.map((r) => r.name).join(", ")}</p>
+                  {testResult.reply && <p>Resposta fixa: "{testResult.reply}"</p>}
+                  {testResult.privateReply && <p>DM privada: "{testResult.privateReply}"</p>}
+                  {testResult.skipAI && <p>A IA não geraria resposta.</p>}
+                  {testResult.manualReview && <p>Ficaria na fila para revisão manual.</p>}
+                  {testResult.tags.length > 0 && <p>Tags: {testResult.tags.join(", ")}</p>}
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CommentModerationCard />
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Editar Regra" : "Nova Regra"}</DialogTitle>
+            <DialogDescription>Condições vazias não filtram. Todas as preenchidas precisam bater.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="automation-name">Nome</Label>
+                <Input
+                  id="automation-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Campanha LINK"
+                  data-testid="input-automation-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="automation-priority">Prioridade</Label>
+                <Input
+                  id="automation-priority"
+                  type="number"
+                  min={0}
+                  max={1000}
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <Select
+                  value={draft.accountId ? String(draft.accountId) : ALL_ACCOUNTS}
+                  onValueChange={(v) => setDraft({ ...draft, accountId: v === ALL_ACCOUNTS ? null : Number(v) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ACCOUNTS}>Todas as contas</SelectItem>
+                    {accounts.map((a) => (
+                      <SelectItem key={a.id} value={String(a.id)}>
+                        @{a.instagramUsername || a.instagramAccountId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end justify-between gap-2 pb-2">
+                <Label htmlFor="automation-stop">Parar nas próximas regras</Label>
+                <Switch
+                  id="automation-stop"
+                  checked={draft.stopOnMatch}
+                  onCheckedChange={(stopOnMatch) => setDraft({ ...draft, stopOnMatch })}
+                />
+              </div>
+            </div>
+
+            <Separator />
+            <p className="text-sm font-medium">Condições</p>
+
+            <div className="flex items-center gap-4">
+              {(["comment", "dm"] as const).map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.messageTypes.includes(type)}
+                    onCheckedChange={() => setDraft({ ...draft, messageTypes: toggleInList(draft.messageTypes, type) })}
+                  />
+                  {type === "dm" ? "DMs" : "Comentários"}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="automation-keywords">Palavras-chave (qualquer uma)</Label>
+                <Input
+                  id="automation-keywords"
+                  value={draft.keywordsText}
+                  onChange={(e) => setDraft({ ...draft, keywordsText: e.target.value })}
+                  placeholder="link, quero, preço"
+                  data-testid="input-automation-keywords"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="automation-pattern">Expressão regular</Label>
+                <Input
+                  id="automation-pattern"
+                  value={draft.pattern}
+                  onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                  placeholder="^eu quero"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Intenção</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(INTENT_LABELS) as MessageIntent[]).map((intent) => (
+                  <Badge
+                    key={intent}
+                    variant={draft.intents.includes(intent) ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => setDraft({ ...draft, intents: toggleInList(draft.intents, intent) })}
+                  >
+                    {INTENT_LABELS[intent]}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="automation-posts">IDs das publicações</Label>
+              <Input
+                id="automation-posts"
+                value={draft.postIdsText}
+                onChange={(e) => setDraft({ ...draft, postIdsText: e.target.value })}
+                placeholder="Vazio = todas as publicações"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="automation-min-followers">Mín. seguidores</Label>
+                <Input
+                  id="automation-min-followers"
+                  type="number"
+                  min={0}
+                  value={draft.minFollowers}
+                  onChange={(e) => setDraft({ ...draft, minFollowers: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="automation-max-followers">Máx. seguidores</Label>
+                <Input
+                  id="automation-max-followers"
+                  type="number"
+                  min={0}
+                  value={draft.maxFollowers}
+                  onChange={(e) => setDraft({ ...draft, maxFollowers: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Contato</Label>
+                <Select
+                  value={draft.firstContact}
+                  onValueChange={(v) => setDraft({ ...draft, firstContact: v as RuleDraft["firstContact"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Qualquer</SelectItem>
+                    <SelectItem value="first">Primeiro contato</SelectItem>
+                    <SelectItem value="returning">Recorrente</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <Separator />
+            <p className="text-sm font-medium">Ações</p>
+
+            {draft.actions.map((action, index) => (
+              <div key={index} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={action.type}
+                    onValueChange={(v) => updateAction(index, { type: v as AutomationActionType })}
+                  >
+                    <SelectTrigger className="flex-1" data-testid={`select-automation-action-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ACTION_LABELS) as AutomationActionType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {ACTION_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+                    disabled={draft.actions.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {(action.type === "send_reply" || action.type === "send_dm") && (
+                  <Textarea
+                    value={action.text}
+                    onChange={(e) => updateAction(index, { text: e.target.value })}
+                    placeholder={action.type === "send_dm" ? "Oi {first_name}! Aqui está o link: ..." : "Te mandei no direct, {first_name}!"}
+                    rows={3}
+                  />
+                )}
+                {action.type === "tag" && (
+                  <Input
+                    value={action.tagsText}
+                    onChange={(e) => updateAction(index, { tagsText: e.target.value })}
+                    placeholder="lead, campanha-link"
+                  />
+                )}
+                {action.type === "assign" && (
+                  <Select value={action.userId || undefined} onValueChange={(userId) => updateAction(index, { userId })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Membro da equipe" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {team?.members.map((m) => (
+                        <SelectItem key={m.userId} value={m.userId}>
+                          {m.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, actions: [...draft.actions, { ...EMPTY_ACTION, type: "tag" }] })}
+              disabled={draft.actions.length >= 10}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar ação
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(ruleFromDraft(draft))}
+              disabled={saveMutation.isPending || !draft.name.trim()}
+              data-testid="button-save-automation"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { SafetyFilterCard } from "@/components/safety-filter-card";
 import {
   Select,
   SelectContent,
@@ -380,6 +381,8 @@ export default function Guidelines() {
         </CardContent>
       </Card>
 
+      <SafetyFilterCard />
+
       {/* Edit Dialog */}
       <Dialog open={!!editingGuideline} onOpenChange={(open) => !open && setEditingGuideline(null)}>
         <DialogContent>
@@ -42,6 +42,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useLanguage } from "@/i18n";
 import { useSyncContext } from "@/contexts/SyncContext";
+import { PromptVersionHistory } from "@/components/prompt-version-history";
 import type { SettingsData } from "@/types/settings";
 
 export default function Personality() {
@@ -83,6 +84,7 @@ export default function Personality() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brain/prompt-versions"] });
       setIsEditingPrompt(false); // Reset to readOnly after save
       toast({
         title: t.settings.saved,
@@ -113,6 +115,7 @@ export default function Personality() {
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/brain/prompt-versions"] });
       toast({
         title: "🎭 Personalidade Gerada",
         description: data.message || "Sua personalidade foi clonada com sucesso!",
@@ -339,6 +342,8 @@ export default function Personality() {
             </CardContent>
           </Card>
 
+          <PromptVersionHistory />
+
           {/* Instagram Profile Sync Section */}
           <Card>
             <CardHeader>
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Edit2, Info, Loader2, MessageSquareQuote, Plus, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useAccountContext } from "@/contexts/AccountContext";
+import type { Snippet, SnippetInput, SnippetVariable } from "@shared/schema";
+
+const ALL_ACCOUNTS = "all";
+
+const VARIABLES_HINT = (["first_name", "full_name", "username", "post_link"] satisfies SnippetVariable[])
+  .map((v) => `{${v}}`)
+  .join(", ");
+
+const EMPTY_DRAFT: SnippetInput = { accountId: null, name: "", title: "", body: "", tags: [] };
+
+export default function Snippets() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { accounts } = useAccountContext();
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<SnippetInput>(EMPTY_DRAFT);
+  const [tagsText, setTagsText] = useState("");
+
+  const { data: snippets = [], isLoading } = useQuery<Snippet[]>({
+    queryKey: ["/api/snippets"],
+  });
+
+  const accountLabel = (accountId: number | null) => {
+    if (!accountId) return "Todas as contas";
+    const account = accounts.find((a) => a.id === accountId);
+    return account ? `@${account.instagramUsername || account.instagramAccountId}` : "Conta removida";
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SnippetInput) => {
+      if (editingId) {
+        await apiRequest("PATCH", `/api/snippets/${editingId}`, data);
+      } else {
+        await apiRequest("POST", "/api/snippets", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editingId ? "Resposta atualizada" : "Resposta criada",
+        description: `Use /${draft.name} no editor de aprovação ou {{snippet:${draft.name}}} nas diretrizes.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message.startsWith("409")
+          ? "Já existe uma resposta pronta com esse nome."
+          : "Falha ao salvar a resposta pronta.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/snippets/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      toast({ title: "Resposta removida" });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Falha ao remover a resposta pronta.", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (snippet?: Snippet) => {
+    const next = snippet
+      ? { accountId: snippet.accountId, name: snippet.name, title: snippet.title, body: snippet.body, tags: snippet.tags as string[] }
+      : EMPTY_DRAFT;
+    setEditingId(snippet?.id ?? null);
+    setDraft(next);
+    setTagsText(next.tags.join(", "));
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      ...draft,
+      name: draft.name.trim().toLowerCase(),
+      tags: tagsText.split(",").map((tag) => tag.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Respostas Prontas</h1>
+          <p className="text-muted-foreground mt-2">
+            Textos aprovados para reutilizar no editor de aprovação e nas respostas geradas pela IA.
+          </p>
+        </div>
+        <Button onClick={() => openDialog()} data-testid="button-new-snippet">
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Resposta
+        </Button>
+      </div>
+
+      <Card className="bg-blue-50/50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Info className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+            <CardTitle className="text-base">Como usar</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground space-y-1">
+          <p>No editor de aprovação, digite <code>/</code> seguido do nome para inserir uma resposta.</p>
+          <p>
+            Em uma diretriz, cite <code>{"{{snippet:nome}}"}</code> (ex.: "Quando perguntarem o preço, responda com{" "}
+            <code>{"{{snippet:precos}}"}</code>") e a IA insere o texto aprovado palavra por palavra.
+          </p>
+          <p>
+            Variáveis preenchidas com os dados da mensagem:{" "}
+            {VARIABLES_HINT}.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Suas Respostas</CardTitle>
+            <Badge variant="secondary">{snippets.length}</Badge>
+          </div>
+          <CardDescription>Respostas da conta ativa e as compartilhadas por todas as contas.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : snippets.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <MessageSquareQuote className="h-16 w-16 mb-4 opacity-50" />
+              <p>Nenhuma resposta pronta criada ainda.</p>
+              <p className="text-sm mt-1">Clique em "Nova Resposta" para começar.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {snippets.map((snippet) => (
+                <div
+                  key={snippet.id}
+                  className="p-4 border rounded-lg hover:bg-muted/30 transition-colors"
+                  data-testid={`snippet-${snippet.id}`}
+                >
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{snippet.title}</span>
+                        <code className="text-xs text-muted-foreground">/{snippet.name}</code>
+                        <Badge variant="outline">{accountLabel(snippet.accountId)}</Badge>
+                        {(snippet.tags as string[]).map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{snippet.body}</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(snippet)}>
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(snippet.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Editar Resposta Pronta" : "Nova Resposta Pronta"}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? "Renomear quebra as diretrizes que citam o nome antigo."
+                : "O nome é usado no atalho / e nas diretrizes."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="snippet-name">Nome</Label>
+                <Input
+                  id="snippet-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="precos"
+                  data-testid="input-snippet-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="snippet-title">Título</Label>
+                <Input
+                  id="snippet-title"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="Tabela de preços"
+                  data-testid="input-snippet-title"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snippet-body">Texto</Label>
+              <Textarea
+                id="snippet-body"
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                placeholder="Oi {first_name}! Os valores estão no link da bio 😊"
+                rows={5}
+                data-testid="textarea-snippet-body"
+              />
+              <p className="text-xs text-muted-foreground">
+                Variáveis: {VARIABLES_HINT}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Conta</Label>
+                <Select
+                  value={draft.accountId ? String(draft.accountId) : ALL_ACCOUNTS}
+                  onValueChange={(value) => setDraft({ ...draft, accountId: value === ALL_ACCOUNTS ? null : Number(value) })}
+                >
+                  <SelectTrigger data-testid="select-snippet-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ACCOUNTS}>Todas as contas</SelectItem>
+                    {accounts.map((a) => (
+                      <SelectItem key={a.id} value={String(a.id)}>
+                        @{a.instagramUsername || a.instagramAccountId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="snippet-tags">Tags</Label>
+                <Input
+                  id="snippet-tags"
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                  placeholder="vendas, frete"
+                  data-testid="input-snippet-tags"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveMutation.isPending || !draft.name.trim() || !draft.title.trim() || !draft.body.trim()}
+              data-testid="button-save-snippet"
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ import {
   Dna,
   GitMerge,
   Replace,
+  ClipboardCheck,
+  MessagesSquare,
 } from "lucide-react";
 import {
   Card,
@@ -45,10 +47,14 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { MarkdownRenderer } from "@/components/markdown-renderer";
+import { EvalSuitesPanel } from "@/components/eval-suites-panel";
+import { SimulatorSessionsPanel } from "@/components/simulator-sessions-panel";
+import { CopilotChangeSetCard } from "@/components/copilot-change-set-card";
 import { useLanguage } from "@/i18n";
 import type { SettingsData } from "@/types/settings";
+import type { CopilotChangeSet } from "@shared/schema";
 
-type Mode = "simulator" | "architect" | "copilot" | "operation";
+type Mode = "simulator" | "conversation" | "architect" | "copilot" | "operation" | "evaluation";
 
 interface ChatMessage {
   id: string;
@@ -61,6 +67,7 @@ interface ChatMessage {
     target: "identity" | "database" | null;
     reason: string;
   } | null;
+  changeSet?: CopilotChangeSet | null; // For copilot mode - changes waiting for confirmation
 }
 
 export default function Trainer() {
@@ -156,6 +163,7 @@ export default function Trainer() {
         originalUserMessage: variables.message,
         isFinalInstruction: data.isFinalInstruction,
         recommendation: data.recommendation,
+        changeSet: data.changeSet,
       };
       setMessages((prev) => [...prev, botMsg]);
     },
@@ -222,7 +230,7 @@ export default function Trainer() {
 
   const applyPromptMutation = useMutation({
     mutationFn: async (systemPrompt: string) => {
-      await apiRequest("PATCH", "/api/settings", { systemPrompt });
+      await apiRequest("PATCH", "/api/settings", { systemPrompt, promptSource: "architect" });
     },
     onSuccess: () => {
       toast({
@@ -243,7 +251,7 @@ export default function Trainer() {
   const replaceIdentityMutation = useMutation({
     mutationFn: async (content: string) => {
       console.log("[Architect] Replacing system prompt with new content");
-      await apiRequest("PATCH", "/api/settings", { systemPrompt: content });
+      await apiRequest("PATCH", "/api/settings", { systemPrompt: content, promptSource: "architect" });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
@@ -295,7 +303,7 @@ export default function Trainer() {
   // Legacy mutation kept for backwards compatibility
   const saveToIdentityMutation = useMutation({
     mutationFn: async (content: string) => {
-      await apiRequest("PATCH", "/api/settings", { systemPrompt: content });
+      await apiRequest("PATCH", "/api/settings", { systemPrompt: content, promptSource: "architect" });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
@@ -586,9 +594,11 @@ export default function Trainer() {
             <h1 className="text-2xl font-semibold">Console de Comando Central</h1>
             <p className="text-muted-foreground">
               {mode === "simulator" && "Simule conversas para testar a IA. Apenas simulação e treinamento - sem ações de prompt ou regras."}
+              {mode === "conversation" && "Conversas com várias mensagens: corrija as respostas da IA e salve a conversa inteira como treinamento."}
               {mode === "architect" && "Único lugar para construir e enviar o System Prompt que define a personalidade da IA."}
               {mode === "copilot" && "Tire dúvidas sobre o sistema, estatísticas e configurações."}
               {mode === "operation" && "Configure o modo de operação da IA."}
+              {mode === "evaluation" && "Rode conjuntos de casos de referência e compare versões do prompt antes de mudar a IA."}
             </p>
           </div>
           <div className="flex gap-2">
@@ -603,8 +613,8 @@ export default function Trainer() {
           </div>
         </div>
 
-        <div className="bg-muted/50 p-1 rounded-full flex w-full max-w-2xl mx-auto">
-          {(["simulator", "architect", "copilot", "operation"] as const).map((m) => (
+        <div className="bg-muted/50 p-1 rounded-full flex w-full max-w-4xl mx-auto">
+          {(["simulator", "conversation", "architect", "copilot", "operation", "evaluation"] as const).map((m) => (
             <button
               key={m}
               onClick={() => handleModeChange(m)}
@@ -614,17 +624,23 @@ export default function Trainer() {
                 }`}
             >
               {m === "simulator" && <Bot className="h-4 w-4" />}
+              {m === "conversation" && <MessagesSquare className="h-4 w-4" />}
               {m === "architect" && <PencilRuler className="h-4 w-4" />}
               {m === "copilot" && <Cpu className="h-4 w-4" />}
               {m === "operation" && <Terminal className="h-4 w-4" />}
+              {m === "evaluation" && <ClipboardCheck className="h-4 w-4" />}
               <span className="capitalize">
                 {m === "simulator"
                   ? "Simulador"
-                  : m === "architect"
-                    ? "Arquiteto"
-                    : m === "copilot"
-                      ? "Copiloto"
-                      : "Modo de Operação"}
+                  : m === "conversation"
+                    ? "Conversas"
+                    : m === "architect"
+                      ? "Arquiteto"
+                      : m === "copilot"
+                        ? "Copiloto"
+                        : m === "operation"
+                          ? "Modo de Operação"
+                          : "Avaliação"}
               </span>
             </button>
           ))}
@@ -793,7 +809,11 @@ export default function Trainer() {
       </div>
 
 
-      {mode !== "operation" && (
+      {mode === "evaluation" && <EvalSuitesPanel currentPrompt={settings?.systemPrompt || ""} />}
+
+      {mode === "conversation" && <SimulatorSessionsPanel />}
+
+      {mode !== "operation" && mode !== "evaluation" && mode !== "conversation" && (
       <Card className="flex-1 flex flex-col overflow-hidden relative border shadow-sm rounded-xl bg-background">
         <div
           className="flex-1 overflow-y-auto p-4 space-y-6 pb-32"
@@ -872,6 +892,10 @@ export default function Trainer() {
                     </div>
                   )}
 
+                  {msg.role === "assistant" && mode === "copilot" && msg.changeSet && (
+                    <CopilotChangeSetCard changeSet={msg.changeSet} />
+                  )}
+
                   {msg.role === "assistant" && mode === "architect" && msg.isFinalInstruction && !dismissedSuggestions.has(index) && (() => {
                     const handleDismiss = () => {
                       setDismissedSuggestions(prev => new Set([...Array.from(prev), index]));
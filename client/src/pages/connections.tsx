@@ -4,8 +4,12 @@ import { useSearch } from "wouter";
 import {
   RefreshCw,
   AlertCircle,
+  AlertTriangle,
   CheckCircle,
   ExternalLink,
+  Plus,
+  Trash2,
+  CalendarClock,
 } from "lucide-react";
 import { SiInstagram } from "react-icons/si";
 import {
@@ -16,8 +20,17 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Alert,
   AlertDescription,
@@ -26,6 +39,9 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useLanguage } from "@/i18n";
+import { useAccountContext, type InstagramAccountSummary } from "@/contexts/AccountContext";
+import { SendScheduleDialog } from "@/components/send-schedule-dialog";
+import type { SendSchedule } from "@shared/schema";
 
 interface SettingsData {
   instagramConnected: boolean;
@@ -39,6 +55,8 @@ export default function Connections() {
   const searchString = useSearch();
   const [isConnecting, setIsConnecting] = useState(false);
   const { t } = useLanguage();
+  const { accounts } = useAccountContext();
+  const [scheduleAccount, setScheduleAccount] = useState<InstagramAccountSummary | null>(null);
 
   const { data: settings, isLoading } = useQuery<SettingsData>({
     queryKey: ["/api/settings"],
@@ -53,6 +71,7 @@ export default function Connections() {
         description: t.settings.errors.instagramConnectedDesc,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
       window.history.replaceState({}, "", "/connections");
     }
     const error = params.get("instagram_error");
@@ -66,6 +85,8 @@ export default function Connections() {
         errorMessage = t.settings.errors.sessionExpired;
       } else if (error === "credentials_missing") {
         errorMessage = t.settings.errors.credentialsMissing;
+      } else if (error === "account_already_connected") {
+        errorMessage = "Esta conta do Instagram já está conectada a outro usuário.";
       }
       toast({
         title: t.settings.errors.connectionError,
@@ -82,6 +103,7 @@ export default function Connections() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/knowledge/instagram-profiles"] });
       toast({
         title: t.settings.connection.disconnected,
@@ -133,7 +155,9 @@ export default function Connections() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/pending"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
 
       const added = (data.synced?.messages || 0) + (data.synced?.comments || 0);
 
@@ -166,6 +190,54 @@ export default function Connections() {
     },
   });
 
+  const updateAccountMutation = useMutation({
+    mutationFn: async ({ id, ...data }: {
+      id: number;
+      operationMode?: string | null;
+      confidenceThreshold?: number | null;
+      sendSchedule?: SendSchedule | null;
+    }) => {
+      await apiRequest("PATCH", `/api/instagram/accounts/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+      setScheduleAccount(null);
+      toast({
+        title: "Conta atualizada",
+        description: "As configurações desta conta foram salvas.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.common.error,
+        description: "Erro ao salvar as configurações da conta.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeAccountMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/instagram/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/instagram/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Conta removida",
+        description: "A conta foi desconectada deste workspace.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: t.common.error,
+        description: "Erro ao remover a conta.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleConnectInstagram = async () => {
     setIsConnecting(true);
     try {
@@ -302,6 +374,120 @@ export default function Connections() {
             </div>
           )}
 
+          {settings.instagramConnected && (
+            <>
+              <Separator />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label>Contas conectadas</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Cada conta pode ter seu próprio modo de operação e limiar de confiança. Deixe em "Padrão" para usar as configurações gerais.
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleConnectInstagram}
+                    disabled={isConnecting}
+                    data-testid="button-add-account"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Adicionar conta
+                  </Button>
+                </div>
+
+                {accounts.map((account) => (
+                  <div
+                    key={account.id}
+                    className="flex items-center justify-between gap-4 p-3 rounded-lg border flex-wrap"
+                    data-testid={`row-account-${account.id}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {account.instagramProfilePic ? (
+                        <img
+                          src={account.instagramProfilePic}
+                          alt={account.instagramUsername || ""}
+                          className="h-8 w-8 rounded-full object-cover"
+                        />
+                      ) : (
+                        <SiInstagram className="h-8 w-8 p-1.5 rounded-full bg-muted" />
+                      )}
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">@{account.instagramUsername || account.instagramAccountId}</span>
+                          {account.isPrimary && <Badge variant="secondary">Principal</Badge>}
+                        </div>
+                        {account.showTokenWarning && (
+                          <span className="flex items-center gap-1 text-xs text-destructive">
+                            <AlertTriangle className="h-3 w-3" />
+                            Token expirando — reconecte esta conta
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={account.operationMode || "inherit"}
+                        onValueChange={(value) => updateAccountMutation.mutate({
+                          id: account.id,
+                          operationMode: value === "inherit" ? null : value,
+                        })}
+                      >
+                        <SelectTrigger className="w-[150px]" data-testid={`select-account-mode-${account.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="inherit">Padrão</SelectItem>
+                          <SelectItem value="manual">Manual</SelectItem>
+                          <SelectItem value="semi_auto">Semi-automático</SelectItem>
+                          <SelectItem value="auto">Automático</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        placeholder="Padrão"
+                        defaultValue={account.confidenceThreshold ?? ""}
+                        className="w-[90px]"
+                        title="Limiar de confiança (%)"
+                        onBlur={(e) => {
+                          const value = e.target.value === "" ? null : Number(e.target.value);
+                          if (value !== account.confidenceThreshold) {
+                            updateAccountMutation.mutate({ id: account.id, confidenceThreshold: value });
+                          }
+                        }}
+                        data-testid={`input-account-threshold-${account.id}`}
+                      />
+                      <Button
+                        variant={account.sendSchedule ? "secondary" : "ghost"}
+                        size="icon"
+                        onClick={() => setScheduleAccount(account)}
+                        title="Horário de envio"
+                        data-testid={`button-account-schedule-${account.id}`}
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeAccountMutation.mutate(account.id)}
+                        disabled={removeAccountMutation.isPending}
+                        title="Remover conta"
+                        data-testid={`button-remove-account-${account.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           <Separator />
 
           <div className="space-y-2">
@@ -322,6 +508,15 @@ export default function Connections() {
           </div>
         </CardContent>
       </Card>
+
+      <SendScheduleDialog
+        open={!!scheduleAccount}
+        onOpenChange={(open) => !open && setScheduleAccount(null)}
+        accountLabel={`@${scheduleAccount?.instagramUsername || scheduleAccount?.instagramAccountId || ""}`}
+        schedule={scheduleAccount?.sendSchedule || null}
+        onSave={(sendSchedule) => scheduleAccount && updateAccountMutation.mutate({ id: scheduleAccount.id, sendSchedule })}
+        isSaving={updateAccountMutation.isPending}
+      />
     </div>
   );
 }
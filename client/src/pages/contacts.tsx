@@ -0,0 +1,463 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Contact as ContactIcon, Download, Filter, Loader2, Save, Trash2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { EmptyState } from "@/components/empty-state";
+import { ContactProfileSheet, LEAD_STAGE_LABELS } from "@/components/contact-profile-sheet";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ContactListItem, ContactSegment, ContactSegmentFilter, LeadStage } from "@shared/schema";
+
+const ANY = "any";
+
+interface FilterDraft {
+  q: string;
+  tags: string;
+  keywords: string;
+  activeWithinDays: string;
+  leadStage: LeadStage | typeof ANY;
+  messageType: "dm" | "comment" | typeof ANY;
+  contactInfo: "email" | "phone" | typeof ANY;
+}
+
+const EMPTY_DRAFT: FilterDraft = {
+  q: "",
+  tags: "",
+  keywords: "",
+  activeWithinDays: "",
+  leadStage: ANY,
+  messageType: ANY,
+  contactInfo: ANY,
+};
+
+const splitList = (text: string) => text.split(",").map((item) => item.trim()).filter(Boolean);
+
+function toFilter(draft: FilterDraft): ContactSegmentFilter {
+  const filter: ContactSegmentFilter = {};
+  if (draft.q.trim()) filter.q = draft.q.trim();
+  if (splitList(draft.tags).length > 0) filter.tags = splitList(draft.tags);
+  if (splitList(draft.keywords).length > 0) filter.keywords = splitList(draft.keywords);
+  if (parseInt(draft.activeWithinDays) > 0) filter.activeWithinDays = parseInt(draft.activeWithinDays);
+  if (draft.leadStage !== ANY) filter.leadStages = [draft.leadStage];
+  if (draft.messageType !== ANY) filter.messageType = draft.messageType;
+  if (draft.contactInfo === "email") filter.hasEmail = true;
+  if (draft.contactInfo === "phone") filter.hasPhone = true;
+  return filter;
+}
+
+function toDraft(filter: ContactSegmentFilter): FilterDraft {
+  return {
+    q: filter.q || "",
+    tags: filter.tags?.join(", ") || "",
+    keywords: filter.keywords?.join(", ") || "",
+    activeWithinDays: filter.activeWithinDays ? String(filter.activeWithinDays) : "",
+    leadStage: filter.leadStages?.[0] || ANY,
+    messageType: filter.messageType || ANY,
+    contactInfo: filter.hasEmail ? "email" : filter.hasPhone ? "phone" : ANY,
+  };
+}
+
+// Same encoding the server expects in the query string (lists comma-separated)
+function toQueryString(filter: ContactSegmentFilter): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  return params.toString();
+}
+
+export default function Contacts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<FilterDraft>(EMPTY_DRAFT);
+  const [applied, setApplied] = useState<ContactSegmentFilter>({});
+  const [segmentId, setSegmentId] = useState<number | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [segmentName, setSegmentName] = useState("");
+  const [profileIgsid, setProfileIgsid] = useState<string | null>(null);
+
+  const queryString = toQueryString(applied);
+
+  const { data: contacts = [], isLoading } = useQuery<ContactListItem[]>({
+    queryKey: [`/api/contacts?${queryString}`],
+  });
+
+  const { data: segments = [] } = useQuery<ContactSegment[]>({
+    queryKey: ["/api/contacts/segments"],
+  });
+
+  const saveSegmentMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/contacts/segments", { name, filter: applied });
+      return res.json() as Promise<ContactSegment>;
+    },
+    onSuccess: (segment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/segments"] });
+      setSegmentId(segment.id);
+      setSaveDialogOpen(false);
+      toast({ title: "Segmento salvo", description: `"${segment.name}" está disponível para exportar.` });
+    },
+    onError: (error: Error) => {
+      const conflict = error.message.startsWith("409");
+      toast({
+        title: "Erro",
+        description: conflict ? "Já existe um segmento com esse nome." : "Falha ao salvar o segmento.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteSegmentMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/contacts/segments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/segments"] });
+      setSegmentId(null);
+      toast({ title: "Segmento removido" });
+    },
+  });
+
+  const updateDraft = (patch: Partial<FilterDraft>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setSegmentId(null); // Edited: no longer the saved segment
+  };
+
+  const applyFilter = () => setApplied(toFilter(draft));
+
+  const selectSegment = (value: string) => {
+    const segment = segments.find((s) => String(s.id) === value);
+    if (!segment) {
+      setSegmentId(null);
+      setDraft(EMPTY_DRAFT);
+      setApplied({});
+      return;
+    }
+    const filter = segment.filter as ContactSegmentFilter;
+    setSegmentId(segment.id);
+    setDraft(toDraft(filter));
+    setApplied(filter);
+  };
+
+  // A selected segment exports by id, so the download always reflects what was saved
+  const exportUrl = (format: "csv" | "json") =>
+    segmentId
+      ? `/api/contacts/segments/${segmentId}/export?format=${format}`
+      : `/api/contacts/export?${queryString}${queryString ? "&" : ""}format=${format}`;
+
+  return (
+    <div className="flex flex-col h-full p-6 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Contatos</h1>
+          <p className="text-muted-foreground mt-2">
+            Todas as pessoas que falaram com você, com tags, etapa do lead e dados capturados nas DMs.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild data-testid="button-export-csv">
+            <a href={exportUrl("csv")} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild data-testid="button-export-json">
+            <a href={exportUrl("json")} download>
+              <Download className="h-4 w-4 mr-2" />
+              JSON
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Filter className="h-5 w-5" />
+                Filtro
+              </CardTitle>
+              <CardDescription>
+                Ex.: quem perguntou o preço na última semana: palavras "preço, valor, quanto custa" nos últimos 7 dias.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={segmentId ? String(segmentId) : ANY} onValueChange={selectSegment}>
+                <SelectTrigger className="w-[220px]" data-testid="select-segment">
+                  <SelectValue placeholder="Segmentos salvos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Filtro personalizado</SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={String(segment.id)}>
+                      {segment.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {segmentId && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteSegmentMutation.mutate(segmentId)}
+                  title="Excluir segmento"
+                  data-testid="button-delete-segment"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Busca</Label>
+              <Input
+                value={draft.q}
+                onChange={(e) => updateDraft({ q: e.target.value })}
+                placeholder="Nome, @usuário, e-mail, telefone..."
+                data-testid="input-contact-search"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Palavras nas mensagens</Label>
+              <Input
+                value={draft.keywords}
+                onChange={(e) => updateDraft({ keywords: e.target.value })}
+                placeholder="preço, valor, quanto custa"
+                data-testid="input-contact-keywords"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Ativos nos últimos (dias)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={365}
+                value={draft.activeWithinDays}
+                onChange={(e) => updateDraft({ activeWithinDays: e.target.value })}
+                placeholder="7"
+                data-testid="input-contact-days"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Tags (qualquer uma)</Label>
+              <Input
+                value={draft.tags}
+                onChange={(e) => updateDraft({ tags: e.target.value })}
+                placeholder="vip, cliente"
+                data-testid="input-contact-tags-filter"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Etapa do lead</Label>
+              <Select value={draft.leadStage} onValueChange={(v) => updateDraft({ leadStage: v as FilterDraft["leadStage"] })}>
+                <SelectTrigger data-testid="select-lead-stage-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Todas</SelectItem>
+                  {(Object.keys(LEAD_STAGE_LABELS) as LeadStage[]).map((stage) => (
+                    <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Canal</Label>
+                <Select value={draft.messageType} onValueChange={(v) => updateDraft({ messageType: v as FilterDraft["messageType"] })}>
+                  <SelectTrigger data-testid="select-message-type-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Todos</SelectItem>
+                    <SelectItem value="dm">DMs</SelectItem>
+                    <SelectItem value="comment">Comentários</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Dados</Label>
+                <Select value={draft.contactInfo} onValueChange={(v) => updateDraft({ contactInfo: v as FilterDraft["contactInfo"] })}>
+                  <SelectTrigger data-testid="select-contact-info-filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Qualquer</SelectItem>
+                    <SelectItem value="email">Com e-mail</SelectItem>
+                    <SelectItem value="phone">Com telefone</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSegmentName("");
+                setSaveDialogOpen(true);
+              }}
+              disabled={Object.keys(applied).length === 0}
+              data-testid="button-save-segment"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Salvar como segmento
+            </Button>
+            <Button onClick={applyFilter} data-testid="button-apply-filter">
+              Aplicar filtro
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : contacts.length === 0 ? (
+        <EmptyState
+          icon={ContactIcon}
+          title="Nenhum contato encontrado"
+          description="Os contatos aparecem aqui quando alguém manda uma DM ou comenta nos seus posts."
+        />
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contato</TableHead>
+                  <TableHead>E-mail</TableHead>
+                  <TableHead>Telefone</TableHead>
+                  <TableHead>Etapa</TableHead>
+                  <TableHead>Tags</TableHead>
+                  <TableHead className="text-right">DMs / Coment.</TableHead>
+                  <TableHead>Última interação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts.map((contact) => (
+                  <TableRow
+                    key={contact.id}
+                    className="cursor-pointer"
+                    onClick={() => setProfileIgsid(contact.igsid)}
+                    data-testid={`row-contact-${contact.id}`}
+                  >
+                    <TableCell>
+                      <p className="font-medium">{contact.name || "Sem nome"}</p>
+                      {contact.username && <p className="text-xs text-muted-foreground">@{contact.username}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm">{contact.email || "—"}</TableCell>
+                    <TableCell className="text-sm">{contact.phone || "—"}</TableCell>
+                    <TableCell>
+                      {contact.leadStage ? (
+                        <Badge variant="outline">{LEAD_STAGE_LABELS[contact.leadStage as LeadStage] || contact.leadStage}</Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(contact.tags as string[]).map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {contact.dmCount} / {contact.commentCount}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(contact.lastSeenAt), { addSuffix: true, locale: ptBR })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Salvar segmento</DialogTitle>
+            <DialogDescription>
+              O filtro aplicado fica salvo com este nome; a lista é recalculada a cada exportação.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Nome</Label>
+            <Input
+              value={segmentName}
+              onChange={(e) => setSegmentName(e.target.value)}
+              placeholder="Perguntaram o preço (7 dias)"
+              maxLength={100}
+              data-testid="input-segment-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveSegmentMutation.mutate(segmentName.trim())}
+              disabled={!segmentName.trim() || saveSegmentMutation.isPending}
+              data-testid="button-confirm-save-segment"
+            >
+              {saveSegmentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {profileIgsid && (
+        <ContactProfileSheet
+          igsid={profileIgsid}
+          open={!!profileIgsid}
+          onOpenChange={(open) => !open && setProfileIgsid(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -10,9 +10,12 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatsCard } from "@/components/stats-card";
 import { ActivityItem } from "@/components/activity-item";
+import { ApiUsageCard } from "@/components/api-usage-card";
+import { PromptExperimentsCard } from "@/components/prompt-experiments-card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Separator } from "@/components/ui/separator";
 import { useLanguage } from "@/i18n";
+import { useLiveEvents } from "@/contexts/LiveEventsContext";
 import type { MessageWithResponse } from "@shared/schema";
 
 interface DashboardStats {
@@ -27,16 +30,18 @@ interface DashboardStats {
 export default function Dashboard() {
   const { t } = useLanguage();
 
+  const { connected: liveConnected } = useLiveEvents();
+
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/stats"],
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
+    refetchInterval: liveConnected ? false : 5000, // Pushed over the event stream; poll only as fallback
   });
 
   const { data: recentMessages, isLoading: messagesLoading } = useQuery<
     MessageWithResponse[]
   >({
     queryKey: ["/api/messages/recent"],
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
+    refetchInterval: liveConnected ? false : 5000,
   });
 
   const { data: user } = useQuery<{
@@ -217,6 +222,10 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <PromptExperimentsCard />
+
+      <ApiUsageCard />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { formatDistanceToNow, format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -13,6 +13,10 @@ import {
   Bot,
   ChevronRight,
   ArrowLeft,
+  Gauge,
+  Pencil,
+  ThumbsUp,
+  Image as ImageIcon,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -30,8 +34,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { EmptyState } from "@/components/empty-state";
 import { ConfidenceBadge } from "@/components/confidence-badge";
+import { LoadMoreSentinel } from "@/components/load-more-sentinel";
+import { useMessageSearch, type MessageSearchParams } from "@/hooks/use-message-search";
 import { getAvatarGradient } from "@/lib/avatar-utils";
 import type { MessageWithResponse } from "@shared/schema";
+import type { TeamData } from "@/pages/team";
 
 interface ConversationGroup {
   senderUsername: string;
@@ -42,32 +49,70 @@ interface ConversationGroup {
   messageCount: number;
 }
 
+// Same thresholds as ConfidenceBadge (Alta >= 80%, Média >= 50%)
+const CONFIDENCE_BANDS: Record<string, { minConfidence?: number; maxConfidence?: number }> = {
+  high: { minConfidence: 0.8 },
+  medium: { minConfidence: 0.5, maxConfidence: 0.8 },
+  low: { maxConfidence: 0.5 },
+};
+
 export default function History() {
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [confidenceFilter, setConfidenceFilter] = useState<string>("all");
+  const [editedFilter, setEditedFilter] = useState<string>("all");
+  const [feedbackFilter, setFeedbackFilter] = useState<string>("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [postFilter, setPostFilter] = useState<string | null>(null);
   const [selectedConversation, setSelectedConversation] = useState<ConversationGroup | null>(null);
 
-  const { data: messages, isLoading } = useQuery<MessageWithResponse[]>({
-    queryKey: ["/api/messages"],
-  });
+  // Search runs on the server; wait for the user to stop typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
-  const filteredMessages = useMemo(() => {
-    return messages?.filter((msg) => {
-      const matchesSearch =
-        searchQuery === "" ||
-        (msg.content?.toLowerCase() || "").includes(searchQuery.toLowerCase()) ||
-        msg.senderName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        msg.senderUsername.toLowerCase().includes(searchQuery.toLowerCase());
+  const filters: MessageSearchParams = {
+    q: debouncedSearch,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    type: typeFilter === "all" ? undefined : typeFilter,
+    ...(CONFIDENCE_BANDS[confidenceFilter] ?? {}),
+    wasEdited: editedFilter === "all" ? undefined : editedFilter === "edited",
+    feedback: feedbackFilter === "all" ? undefined : feedbackFilter,
+    // Date inputs are local days; send the whole day as an instant range
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    postId: postFilter ?? undefined,
+  };
 
-      const matchesStatus = statusFilter === "all" || msg.status === statusFilter;
+  const {
+    messages: filteredMessages,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useMessageSearch(filters);
 
-      return matchesSearch && matchesStatus;
-    });
-  }, [messages, searchQuery, statusFilter]);
+  // The open conversation loads on its own, so it is complete regardless of the list filters
+  const conversationKey = selectedConversation
+    ? selectedConversation.senderUsername || selectedConversation.lastMessage.senderId || ""
+    : "";
+  const conversationSearch = useMessageSearch({ sender: conversationKey }, { enabled: !!conversationKey });
 
-  const conversations = useMemo(() => {
-    if (!filteredMessages) return [];
+  // Resolve who approved each reply (team workspaces)
+  const { data: team } = useQuery<TeamData>({
+    queryKey: ["/api/team"],
+  });
+  const memberNames = useMemo(
+    () => new Map(team?.members.map((m) => [m.userId, m.name]) ?? []),
+    [team],
+  );
 
+  // Groups cover the pages loaded so far; more messages join them as the list scrolls
+  const conversations = useMemo(() => {
     const grouped = new Map<string, ConversationGroup>();
 
     filteredMessages.forEach((msg) => {
@@ -98,12 +143,6 @@ export default function History() {
       new Date(b.lastMessage.createdAt).getTime() - new Date(a.lastMessage.createdAt).getTime()
     );
 
-    result.forEach(group => {
-      group.messages.sort((a, b) =>
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      );
-    });
-
     return result;
   }, [filteredMessages]);
 
@@ -173,7 +212,7 @@ export default function History() {
             <div>
               <h1 className="text-xl font-semibold">{selectedConversation.senderName}</h1>
               <p className="text-sm text-muted-foreground">
-                @{selectedConversation.senderUsername} · {selectedConversation.messageCount} mensagens
+                @{selectedConversation.senderUsername} · mais recentes primeiro
               </p>
             </div>
           </div>
@@ -181,7 +220,10 @@ export default function History() {
 
         <ScrollArea className="h-[calc(100vh-200px)]">
           <div className="space-y-4 pr-4">
-            {selectedConversation.messages.map((message) => (
+            {conversationSearch.isLoading && (
+              <Skeleton className="h-32 w-full" />
+            )}
+            {conversationSearch.messages.map((message) => (
               <Card key={message.id} className="overflow-hidden" data-testid={`card-message-${message.id}`}>
                 <CardContent className="p-4 space-y-3">
                   <div className="flex items-center justify-between gap-2 flex-wrap">
@@ -195,6 +237,21 @@ export default function History() {
                         {message.type === "dm" ? "DM" : "Comentário"}
                       </Badge>
                       {getStatusBadge(message.status)}
+                      {message.type === "comment" && message.postId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 px-1.5 text-xs"
+                          onClick={() => {
+                            setPostFilter(message.postId);
+                            setSelectedConversation(null);
+                          }}
+                          data-testid={`button-filter-post-${message.id}`}
+                        >
+                          <ImageIcon className="h-3 w-3 mr-1" />
+                          Ver publicação
+                        </Button>
+                      )}
                       {message.aiResponse && (
                         <ConfidenceBadge
                           score={message.aiResponse.confidenceScore}
@@ -241,6 +298,11 @@ export default function History() {
                         {message.aiResponse.wasEdited && (
                           <Badge variant="secondary" className="text-xs">Editada</Badge>
                         )}
+                        {message.aiResponse.approvedBy && (
+                          <span className="text-xs font-normal text-muted-foreground">
+                            por {memberNames.get(message.aiResponse.approvedBy) || "membro removido"}
+                          </span>
+                        )}
                       </p>
                       <p className="text-sm whitespace-pre-wrap">
                         {message.aiResponse.finalResponse || message.aiResponse.suggestedResponse}
@@ -250,6 +312,11 @@ export default function History() {
                 </CardContent>
               </Card>
             ))}
+            <LoadMoreSentinel
+              hasMore={!!conversationSearch.hasNextPage}
+              isLoading={conversationSearch.isFetchingNextPage}
+              onLoadMore={conversationSearch.fetchNextPage}
+            />
           </div>
         </ScrollArea>
       </div>
@@ -289,6 +356,85 @@ export default function History() {
             <SelectItem value="pending">Pendentes</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[160px]" data-testid="select-type-filter">
+            <MessageSquare className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Tipo" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">DMs e comentários</SelectItem>
+            <SelectItem value="dm">DMs</SelectItem>
+            <SelectItem value="comment">Comentários</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={confidenceFilter} onValueChange={setConfidenceFilter}>
+          <SelectTrigger className="w-[170px]" data-testid="select-confidence-filter">
+            <Gauge className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Confiança" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Qualquer confiança</SelectItem>
+            <SelectItem value="high">Alta</SelectItem>
+            <SelectItem value="medium">Média</SelectItem>
+            <SelectItem value="low">Baixa</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={editedFilter} onValueChange={setEditedFilter}>
+          <SelectTrigger className="w-[160px]" data-testid="select-edited-filter">
+            <Pencil className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Edição" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Editadas ou não</SelectItem>
+            <SelectItem value="edited">Editadas</SelectItem>
+            <SelectItem value="unedited">Sem edição</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={feedbackFilter} onValueChange={setFeedbackFilter}>
+          <SelectTrigger className="w-[160px]" data-testid="select-feedback-filter">
+            <ThumbsUp className="h-4 w-4 mr-2" />
+            <SelectValue placeholder="Feedback" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Qualquer feedback</SelectItem>
+            <SelectItem value="like">Curtidas</SelectItem>
+            <SelectItem value="dislike">Não curtidas</SelectItem>
+            <SelectItem value="none">Sem feedback</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-[150px]"
+            aria-label="De"
+            data-testid="input-history-from"
+          />
+          <span className="text-sm text-muted-foreground">até</span>
+          <Input
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-[150px]"
+            aria-label="Até"
+            data-testid="input-history-to"
+          />
+        </div>
+        {postFilter && (
+          <Badge variant="secondary" className="gap-1">
+            <ImageIcon className="h-3 w-3" />
+            Uma publicação
+            <button
+              type="button"
+              onClick={() => setPostFilter(null)}
+              aria-label="Remover filtro de publicação"
+              data-testid="button-clear-post-filter"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        )}
       </div>
 
       {isLoading ? (
@@ -360,6 +506,11 @@ export default function History() {
               </CardContent>
             </Card>
           ))}
+          <LoadMoreSentinel
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
+          />
         </div>
       ) : (
         <EmptyState
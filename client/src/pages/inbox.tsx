@@ -0,0 +1,525 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Bot,
+  CheckCircle,
+  Clock,
+  Loader2,
+  MessageCircle,
+  MessagesSquare,
+  RotateCcw,
+  Send,
+} from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfidenceBadge } from "@/components/confidence-badge";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveEvents } from "@/contexts/LiveEventsContext";
+import { apiRequest } from "@/lib/queryClient";
+import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
+import { cn } from "@/lib/utils";
+import type { TeamData } from "@/pages/team";
+import type { DmConversation, InstagramMessage, MessageWithResponse, PrivateReply } from "@shared/schema";
+
+type StatusFilter = "open" | "snoozed" | "closed" | "all";
+
+interface ConversationThread {
+  conversation: DmConversation;
+  messages: MessageWithResponse[];
+  privateReplies: (PrivateReply & { comment: InstagramMessage })[]; // Comments that opened the thread
+}
+
+interface ThreadBubble {
+  key: string;
+  direction: "in" | "out";
+  text: string | null;
+  mediaUrl?: string | null;
+  mediaType?: string | null;
+  at: Date;
+}
+
+const STATUS_LABELS: Record<StatusFilter, string> = {
+  open: "Abertas",
+  snoozed: "Adiadas",
+  closed: "Fechadas",
+  all: "Todas",
+};
+
+const SNOOZE_OPTIONS = [
+  { value: "1", label: "1 hora" },
+  { value: "4", label: "4 horas" },
+  { value: "24", label: "1 dia" },
+  { value: "168", label: "1 semana" },
+];
+
+const UNASSIGNED = "unassigned";
+
+function conversationName(conversation: DmConversation) {
+  return conversation.senderName || conversation.senderUsername || conversation.senderId;
+}
+
+// Flattens the thread into chat bubbles: inbound messages, the replies we sent for them,
+// and messages sent directly from Instagram (echoes)
+function buildBubbles(thread: ConversationThread): ThreadBubble[] {
+  const bubbles: ThreadBubble[] = [];
+  const sentReplies = new Set<string>();
+
+  for (const message of thread.messages) {
+    const isOutbound = message.senderId !== thread.conversation.senderId;
+    if (isOutbound) {
+      // Replies approved here also come back as echoes; show them only once
+      if (message.content && sentReplies.has(message.content.trim())) continue;
+      bubbles.push({
+        key: `m-${message.id}`,
+        direction: "out",
+        text: message.content,
+        mediaUrl: message.mediaUrl,
+        mediaType: message.mediaType,
+        at: new Date(message.createdAt),
+      });
+      continue;
+    }
+
+    bubbles.push({
+      key: `m-${message.id}`,
+      direction: "in",
+      text: message.content,
+      mediaUrl: message.mediaUrl,
+      mediaType: message.mediaType,
+      at: new Date(message.createdAt),
+    });
+
+    const reply = message.aiResponse?.finalResponse;
+    if (reply && (message.status === "approved" || message.status === "auto_sent")) {
+      sentReplies.add(reply.trim());
+      bubbles.push({
+        key: `r-${message.id}`,
+        direction: "out",
+        text: reply,
+        at: new Date(message.aiResponse?.approvedAt || message.processedAt || message.createdAt),
+      });
+    }
+  }
+
+  return bubbles;
+}
+
+export default function Inbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { connected: liveConnected } = useLiveEvents();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [onlyMine, setOnlyMine] = useState(false);
+  const searchString = useSearch();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const listParams = new URLSearchParams({ status: statusFilter });
+  if (onlyMine) listParams.set("assigned", "me");
+
+  const { data: conversations, isLoading } = useQuery<DmConversation[]>({
+    queryKey: [`/api/conversations?${listParams.toString()}`],
+    refetchInterval: liveConnected ? 30000 : 5000, // New messages are pushed; the slow poll catches assignment changes
+  });
+
+  // /inbox?conversation=ID opens that thread (link from a comment's private reply)
+  useEffect(() => {
+    const linked = Number(new URLSearchParams(searchString).get("conversation"));
+    if (linked) setSelectedId(linked);
+  }, [searchString]);
+
+  const { data: thread, isLoading: isThreadLoading } = useQuery<ConversationThread>({
+    queryKey: ["/api/conversations", selectedId],
+    enabled: selectedId !== null,
+    refetchInterval: liveConnected ? 30000 : 5000,
+  });
+
+  const { data: team } = useQuery<TeamData>({
+    queryKey: ["/api/team"],
+  });
+
+  const canSend = team?.role === "owner" || team?.role === "editor";
+  const canEditDraft = canSend || team?.role === "reviewer";
+  const memberNames = useMemo(
+    () => new Map((team?.members || []).map((m) => [m.userId, m.name])),
+    [team],
+  );
+
+  const bubbles = useMemo(() => (thread ? buildBubbles(thread) : []), [thread]);
+
+  // The AI draft belongs to the most recent inbound message still waiting for a reply
+  const pendingMessage = useMemo(() => {
+    if (!thread) return null;
+    const inbound = thread.messages.filter((m) => m.senderId === thread.conversation.senderId);
+    const latest = inbound[inbound.length - 1];
+    return latest && latest.status === "pending" && latest.aiResponse ? latest : null;
+  }, [thread]);
+
+  const originalDraft = pendingMessage?.aiResponse?.finalResponse || pendingMessage?.aiResponse?.suggestedResponse || "";
+
+  useEffect(() => {
+    setDraft(originalDraft);
+  }, [pendingMessage?.id, originalDraft]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [bubbles.length, selectedId]);
+
+  const invalidateInbox = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/conversations"),
+    });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/conversations/${id}/read`);
+    },
+    onSuccess: invalidateInbox,
+  });
+
+  // Opening a thread clears its unread counter
+  useEffect(() => {
+    if (thread && thread.conversation.unreadCount > 0 && !markReadMutation.isPending) {
+      markReadMutation.mutate(thread.conversation.id);
+    }
+  }, [thread?.conversation.id, thread?.conversation.unreadCount]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { status?: string; snoozedUntil?: string; assignedTo?: string | null }) => {
+      const res = await apiRequest("PATCH", `/api/conversations/${selectedId}`, updates);
+      return res.json();
+    },
+    onSuccess: invalidateInbox,
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível atualizar a conversa.", variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async ({ messageId, response, wasEdited }: { messageId: number; response: string; wasEdited: boolean }) => {
+      const res = await apiRequest("POST", `/api/messages/${messageId}/approve`, { response, wasEdited });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateInbox();
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+
+      if (data.messageSent) {
+        toast({ title: "Resposta enviada", description: "A resposta foi enviada com sucesso para o Instagram." });
+      } else {
+        toast({
+          title: "Erro ao enviar",
+          description: data.error || "Não foi possível enviar a resposta para o Instagram.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível aprovar a resposta.", variant: "destructive" });
+    },
+  });
+
+  const saveDraftMutation = useMutation({
+    mutationFn: async ({ messageId, response }: { messageId: number; response: string }) => {
+      await apiRequest("PATCH", `/api/messages/${messageId}/response`, { response });
+    },
+    onSuccess: () => {
+      invalidateInbox();
+      toast({ title: "Sugestão salva", description: "Um editor pode revisar e enviar a resposta." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível salvar a sugestão.", variant: "destructive" });
+    },
+  });
+
+  const snooze = (hours: string) => {
+    const until = new Date(Date.now() + parseInt(hours) * 60 * 60 * 1000);
+    updateMutation.mutate({ status: "snoozed", snoozedUntil: until.toISOString() });
+  };
+
+  const conversation = thread?.conversation;
+
+  return (
+    <div className="flex h-full min-h-0">
+      {/* Conversation list */}
+      <div className="w-80 shrink-0 border-r flex flex-col min-h-0">
+        <div className="p-3 border-b space-y-2">
+          <h1 className="text-lg font-semibold">Conversas</h1>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <SelectTrigger className="flex-1" data-testid="select-inbox-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as StatusFilter[]).map((status) => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={onlyMine ? "default" : "outline"}
+              size="sm"
+              onClick={() => setOnlyMine(!onlyMine)}
+              data-testid="button-inbox-only-mine"
+            >
+              Minhas
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="p-3 space-y-3">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : !conversations?.length ? (
+            <p className="p-6 text-sm text-muted-foreground text-center">Nenhuma conversa aqui.</p>
+          ) : (
+            conversations.map((c) => {
+              const name = conversationName(c);
+              return (
+                <button
+                  key={c.id}
+                  onClick={() => setSelectedId(c.id)}
+                  className={cn(
+                    "w-full flex items-start gap-3 p-3 text-left border-b hover-elevate",
+                    selectedId === c.id && "bg-accent",
+                  )}
+                  data-testid={`row-conversation-${c.id}`}
+                >
+                  <Avatar className="h-10 w-10">
+                    <AvatarImage src={c.senderAvatar || undefined} />
+                    <AvatarFallback className={cn("text-white text-xs", getAvatarGradient(c.senderUsername || c.senderId))}>
+                      {getInitials(name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn("truncate text-sm", c.unreadCount > 0 && "font-semibold")}>{name}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {formatDistanceToNow(new Date(c.lastMessageAt), { locale: ptBR, addSuffix: false })}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate text-xs text-muted-foreground">{c.lastMessagePreview}</span>
+                      {c.unreadCount > 0 && (
+                        <Badge className="h-5 min-w-5 px-1.5 shrink-0">{c.unreadCount}</Badge>
+                      )}
+                    </div>
+                    {c.assignedTo && (
+                      <span className="text-[11px] text-muted-foreground">
+                        {memberNames.get(c.assignedTo) || "Membro"}
+                      </span>
+                    )}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* Thread */}
+      <div className="flex-1 flex flex-col min-h-0 min-w-0">
+        {selectedId === null ? (
+          <div className="flex-1 flex items-center justify-center">
+            <EmptyState
+              icon={MessagesSquare}
+              title="Selecione uma conversa"
+              description="Escolha uma conversa para ver o histórico completo e a sugestão da IA."
+            />
+          </div>
+        ) : isThreadLoading || !conversation ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3 p-3 border-b flex-wrap">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{conversationName(conversation)}</p>
+                {conversation.senderUsername && (
+                  <p className="text-xs text-muted-foreground">@{conversation.senderUsername}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={conversation.assignedTo || UNASSIGNED}
+                  onValueChange={(v) => updateMutation.mutate({ assignedTo: v === UNASSIGNED ? null : v })}
+                  disabled={!canSend}
+                >
+                  <SelectTrigger className="w-[170px]" data-testid="select-conversation-assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Sem responsável</SelectItem>
+                    {team?.members.map((m) => (
+                      <SelectItem key={m.userId} value={m.userId}>{m.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {conversation.status === "open" ? (
+                  <>
+                    <Select value="" onValueChange={snooze} disabled={!canSend}>
+                      <SelectTrigger className="w-[120px]" data-testid="select-conversation-snooze">
+                        <Clock className="h-4 w-4 mr-1" />
+                        <SelectValue placeholder="Adiar" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SNOOZE_OPTIONS.map((o) => (
+                          <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateMutation.mutate({ status: "closed" })}
+                      disabled={!canSend || updateMutation.isPending}
+                      data-testid="button-close-conversation"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Fechar
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ status: "open" })}
+                    disabled={!canSend || updateMutation.isPending}
+                    data-testid="button-reopen-conversation"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reabrir
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {conversation.status === "snoozed" && conversation.snoozedUntil && (
+              <div className="px-3 py-2 text-xs text-muted-foreground border-b bg-muted/40">
+                Adiada até {format(new Date(conversation.snoozedUntil), "dd/MM 'às' HH:mm", { locale: ptBR })}
+              </div>
+            )}
+
+            {thread?.privateReplies?.map((reply) => (
+              <div
+                key={reply.id}
+                className="px-3 py-2 text-xs border-b bg-muted/40 flex items-start gap-2"
+                data-testid={`private-reply-origin-${reply.id}`}
+              >
+                <MessageCircle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="text-muted-foreground">
+                    Resposta privada enviada a partir do comentário
+                    {reply.comment.postPermalink && (
+                      <>
+                        {" em "}
+                        <a href={reply.comment.postPermalink} target="_blank" rel="noreferrer" className="underline">
+                          publicação
+                        </a>
+                      </>
+                    )}
+                  </p>
+                  <p className="truncate">"{reply.comment.content}"</p>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-2">
+              {bubbles.map((b) => (
+                <div key={b.key} className={cn("flex", b.direction === "out" ? "justify-end" : "justify-start")}>
+                  <div
+                    className={cn(
+                      "max-w-[70%] rounded-2xl px-3 py-2 text-sm",
+                      b.direction === "out" ? "bg-primary text-primary-foreground" : "bg-muted",
+                    )}
+                  >
+                    {b.mediaUrl && b.mediaType === "image" && (
+                      <img src={b.mediaUrl} alt="" className="rounded-lg mb-1 max-h-60" />
+                    )}
+                    {b.text ? (
+                      <p className="whitespace-pre-wrap break-words">{b.text}</p>
+                    ) : (
+                      <p className="italic opacity-80">[{b.mediaType || "mídia"}]</p>
+                    )}
+                    <p className="text-[10px] opacity-70 mt-1 text-right">{format(b.at, "dd/MM HH:mm")}</p>
+                  </div>
+                </div>
+              ))}
+              <div ref={bottomRef} />
+            </div>
+
+            {pendingMessage?.aiResponse && (
+              <div className="border-t p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Bot className="h-4 w-4" />
+                  Sugestão da IA
+                  <ConfidenceBadge score={pendingMessage.aiResponse.confidenceScore} size="sm" />
+                </div>
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={3}
+                  disabled={!canEditDraft}
+                  data-testid="textarea-inbox-draft"
+                />
+                <div className="flex justify-end gap-2">
+                  {canSend ? (
+                    <Button
+                      onClick={() => approveMutation.mutate({
+                        messageId: pendingMessage.id,
+                        response: draft,
+                        wasEdited: draft !== pendingMessage.aiResponse!.suggestedResponse,
+                      })}
+                      disabled={!draft.trim() || approveMutation.isPending}
+                      data-testid="button-inbox-send"
+                    >
+                      {approveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4 mr-2" />
+                      )}
+                      Enviar
+                    </Button>
+                  ) : canEditDraft && (
+                    <Button
+                      variant="outline"
+                      onClick={() => saveDraftMutation.mutate({ messageId: pendingMessage.id, response: draft })}
+                      disabled={!draft.trim() || draft === originalDraft || saveDraftMutation.isPending}
+                      data-testid="button-inbox-save-draft"
+                    >
+                      Salvar sugestão
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Loader2, UserPlus, AlertCircle } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLE_LABELS } from "@/pages/team";
+
+const PENDING_INVITE_KEY = "pending-team-invite";
+
+// Invite links opened while logged out are resumed after login
+export function rememberPendingInvite(token: string) {
+  sessionStorage.setItem(PENDING_INVITE_KEY, token);
+}
+
+export function consumePendingInvite(): string | null {
+  const token = sessionStorage.getItem(PENDING_INVITE_KEY);
+  if (token) sessionStorage.removeItem(PENDING_INVITE_KEY);
+  return token;
+}
+
+interface InviteInfo {
+  organizationName: string;
+  role: keyof typeof ROLE_LABELS;
+  expiresAt: string;
+  alreadyMember: boolean;
+}
+
+export default function Invite({ token }: { token: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const { data: invite, isLoading, error } = useQuery<InviteInfo>({
+    queryKey: ["/api/team/join", token],
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/team/join/${token}`);
+    },
+    onSuccess: () => {
+      // Switch every cached query to the new workspace
+      queryClient.invalidateQueries();
+      toast({ title: "Bem-vindo à equipe!", description: `Você entrou em ${invite?.organizationName}.` });
+      navigate("/");
+    },
+    onError: (err: Error) => {
+      const message = err.message.replace(/^\d+:\s*/, "");
+      let description = "Não foi possível aceitar o convite.";
+      try {
+        description = JSON.parse(message).error || description;
+      } catch {
+        // Plain-text error body
+      }
+      toast({ title: "Erro", description, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md">
+        {error || !invite ? (
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-destructive" />
+              Convite inválido
+            </CardTitle>
+            <CardDescription>
+              Este link de convite expirou, já foi usado ou foi revogado. Peça um novo link ao dono da equipe.
+            </CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserPlus className="h-5 w-5" />
+                {invite.organizationName}
+              </CardTitle>
+              <CardDescription>
+                Você foi convidado para a equipe como <strong>{ROLE_LABELS[invite.role]}</strong>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invite.alreadyMember && (
+                <p className="text-sm text-muted-foreground">
+                  Você já faz parte de outra equipe. Saia dela na página Equipe antes de aceitar este convite.
+                </p>
+              )}
+              <Button
+                className="w-full"
+                onClick={() => acceptMutation.mutate()}
+                disabled={acceptMutation.isPending || invite.alreadyMember}
+                data-testid="button-accept-invite"
+              >
+                {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Aceitar convite
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AtSign,
+  Bot,
+  Clock,
+  Edit3,
+  Loader2,
+  MessageSquare,
+  Send,
+  X,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ScheduledSendWithMessage } from "@shared/schema";
+
+type OutboxTab = "scheduled" | "failed" | "sent" | "cancelled";
+
+const TAB_LABELS: Record<OutboxTab, string> = {
+  scheduled: "Agendados",
+  failed: "Falharam",
+  sent: "Enviados",
+  cancelled: "Cancelados",
+};
+
+const toInputValue = (date: string | Date) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+export default function Outbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<OutboxTab>("scheduled");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftText, setDraftText] = useState("");
+  const [draftSendAt, setDraftSendAt] = useState("");
+
+  const { data: sends, isLoading } = useQuery<ScheduledSendWithMessage[]>({
+    queryKey: [`/api/scheduled-sends?status=${tab}`],
+    refetchInterval: tab === "scheduled" ? 15000 : false,
+  });
+
+  const invalidateOutbox = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/scheduled-sends"),
+    });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; responseText?: string; sendAt?: string }) => {
+      await apiRequest("PATCH", `/api/scheduled-sends/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateOutbox();
+      setEditingId(null);
+      toast({ title: "Envio atualizado" });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível atualizar o envio (talvez já tenha sido enviado).", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/scheduled-sends/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidateOutbox();
+      toast({ title: "Envio cancelado", description: "A mensagem voltou para a fila de aprovação." });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Não foi possível cancelar o envio.", variant: "destructive" });
+    },
+  });
+
+  const startEditing = (send: ScheduledSendWithMessage) => {
+    setEditingId(send.id);
+    setDraftText(send.responseText);
+    setDraftSendAt(toInputValue(send.sendAt));
+  };
+
+  const saveEdit = (id: number) => {
+    const sendAt = new Date(draftSendAt);
+    if (!draftText.trim() || isNaN(sendAt.getTime())) {
+      toast({ title: "Dados inválidos", description: "Preencha o texto e um horário válido.", variant: "destructive" });
+      return;
+    }
+    updateMutation.mutate({ id, responseText: draftText, sendAt: sendAt.toISOString() });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Envios agendados</h1>
+        <p className="text-muted-foreground">
+          Respostas aguardando o horário de envio: auto-envios segurados pelo horário da conta e aprovações agendadas.
+        </p>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value) => { setTab(value as OutboxTab); setEditingId(null); }}>
+        <TabsList>
+          {(Object.keys(TAB_LABELS) as OutboxTab[]).map((key) => (
+            <TabsTrigger key={key} value={key} data-testid={`tab-outbox-${key}`}>
+              {TAB_LABELS[key]}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : !sends || sends.length === 0 ? (
+        <EmptyState
+          icon={Clock}
+          title="Nenhum envio aqui"
+          description="Quando uma resposta for agendada, ela aparece nesta lista até ser enviada."
+        />
+      ) : (
+        <div className="space-y-3">
+          {sends.map((send) => (
+            <Card key={send.id} data-testid={`card-scheduled-send-${send.id}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4 flex-wrap">
+                  <div>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {send.message.type === "dm" ? <MessageSquare className="h-4 w-4" /> : <AtSign className="h-4 w-4" />}
+                      {send.message.senderName}
+                      <span className="text-sm font-normal text-muted-foreground">@{send.message.senderUsername}</span>
+                    </CardTitle>
+                    <CardDescription className="mt-1 line-clamp-2">
+                      {send.message.content || `Mídia (${send.message.mediaType || "arquivo"})`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {send.origin === "auto" && (
+                      <Badge variant="outline">
+                        <Bot className="h-3 w-3 mr-1" />
+                        Automático
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" title={format(new Date(send.sentAt || send.sendAt), "dd/MM/yyyy HH:mm:ss")}>
+                      <Clock className="h-3 w-3 mr-1" />
+                      {send.status === "sent" && send.sentAt
+                        ? `Enviado ${formatDistanceToNow(new Date(send.sentAt), { addSuffix: true, locale: ptBR })}`
+                        : format(new Date(send.sendAt), "dd/MM 'às' HH:mm", { locale: ptBR })}
+                    </Badge>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {editingId === send.id ? (
+                  <>
+                    <Textarea
+                      value={draftText}
+                      onChange={(e) => setDraftText(e.target.value)}
+                      className="min-h-[100px]"
+                      data-testid={`textarea-scheduled-send-${send.id}`}
+                    />
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Input
+                        type="datetime-local"
+                        value={draftSendAt}
+                        onChange={(e) => setDraftSendAt(e.target.value)}
+                        className="w-[220px]"
+                        data-testid={`input-scheduled-send-at-${send.id}`}
+                      />
+                      <Button size="sm" onClick={() => saveEdit(send.id)} disabled={updateMutation.isPending}>
+                        Salvar
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Descartar
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap rounded-md bg-muted/40 p-3">{send.responseText}</p>
+                )}
+
+                {send.lastError && (
+                  <p className="text-xs text-destructive">
+                    Último erro{send.attempts > 1 ? ` (${send.attempts} tentativas)` : ""}: {send.lastError}
+                  </p>
+                )}
+
+                {send.status === "scheduled" && editingId !== send.id && (
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => startEditing(send)}
+                      data-testid={`button-edit-scheduled-send-${send.id}`}
+                    >
+                      <Edit3 className="h-4 w-4 mr-1" />
+                      Editar
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateMutation.mutate({ id: send.id, sendAt: new Date().toISOString() })}
+                      disabled={updateMutation.isPending}
+                      data-testid={`button-send-now-${send.id}`}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Enviar agora
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelMutation.mutate(send.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-scheduled-send-${send.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Cancelar envio
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
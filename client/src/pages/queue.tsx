@@ -1,6 +1,7 @@
 import { useState, useMemo, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Search, Filter, RefreshCw, MessageSquare, AtSign, LayoutGrid, List, ArrowUpDown } from "lucide-react";
+import { format } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Search, Filter, RefreshCw, MessageSquare, AtSign, LayoutGrid, List, ArrowUpDown, CircleDashed } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,10 +17,14 @@ import { MessageCard } from "@/components/message-card";
 import { PostCommentGroup } from "@/components/post-comment-group";
 import { ApprovalModal } from "@/components/approval-modal";
 import { EmptyState } from "@/components/empty-state";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { LoadMoreSentinel } from "@/components/load-more-sentinel";
 import { useToast } from "@/hooks/use-toast";
+import { useLiveEvents } from "@/contexts/LiveEventsContext";
+import { useMessageSearch } from "@/hooks/use-message-search";
 import { apiRequest } from "@/lib/queryClient";
 import { getInitials, getAvatarGradient } from "@/lib/avatar-utils";
-import type { MessageWithResponse } from "@shared/schema";
+import type { MessageWithResponse, BulkMessageAction, BulkActionResponse } from "@shared/schema";
 
 interface PostGroup {
   postId: string;
@@ -42,14 +47,26 @@ interface QueueProps {
   defaultFilter?: "all" | "dm" | "comment";
 }
 
+// "story" = DMs that mention or reply to a story (STORY_MEDIA_TYPES on the server)
+type QueueTypeFilter = "all" | "dm" | "comment" | "story";
+
+const STORY_MEDIA_TYPES = ["story_mention", "story_reply"];
+
+function searchTypeFilter(typeFilter: QueueTypeFilter): { type?: "dm" | "comment"; mediaType?: string[] } {
+  if (typeFilter === "story") return { type: "dm", mediaType: STORY_MEDIA_TYPES };
+  return { type: typeFilter === "all" ? undefined : typeFilter };
+}
+
 export default function Queue({ defaultFilter = "all" }: QueueProps) {
   const [selectedMessage, setSelectedMessage] =
     useState<MessageWithResponse | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [typeFilter, setTypeFilter] = useState<"all" | "dm" | "comment">(defaultFilter);
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<QueueTypeFilter>(defaultFilter);
   const [viewMode, setViewMode] = useState<"grouped" | "list">("grouped");
   const [postSort, setPostSort] = useState<"recent" | "oldest">("recent");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -58,35 +75,76 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
     setTypeFilter(defaultFilter);
   }, [defaultFilter]);
 
-  const { data: messages, isLoading, refetch, isRefetching } = useQuery<MessageWithResponse[]>({
-    queryKey: ["/api/messages/pending"],
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
-  });
+  const { connected: liveConnected } = useLiveEvents();
+
+  // Search runs on the server; wait for the user to stop typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const {
+    messages: filteredMessages,
+    isLoading,
+    refetch,
+    isRefetching,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useMessageSearch(
+    {
+      status: "pending",
+      ...searchTypeFilter(typeFilter),
+      q: debouncedSearch,
+    },
+    { refetchInterval: liveConnected ? false : 5000 }, // Pushed over the event stream; poll only as fallback
+  );
+
+  // Drop selections that left the list (handled elsewhere, or filtered out)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      const visible = new Set(filteredMessages.map((m) => m.id));
+      const next = new Set(Array.from(prev).filter((id) => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filteredMessages]);
 
   const approveMutation = useMutation({
     mutationFn: async ({
       messageId,
       response,
       wasEdited,
+      sendAt,
     }: {
       messageId: number;
       response: string;
       wasEdited: boolean;
+      sendAt?: Date;
     }) => {
       const res = await apiRequest("POST", `/api/messages/${messageId}/approve`, {
         response,
         wasEdited,
+        sendAt: sendAt?.toISOString(),
       });
       return res.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/pending"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/recent"] });
       setIsModalOpen(false);
       setSelectedMessage(null);
 
-      if (data.messageSent) {
+      if (data.scheduled) {
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith("/api/scheduled-sends"),
+        });
+        toast({
+          title: "Envio agendado",
+          description: `A resposta será enviada em ${format(new Date(data.sendAt), "dd/MM 'às' HH:mm")}.`,
+        });
+      } else if (data.messageSent) {
         toast({
           title: "Resposta enviada",
           description: "A resposta foi enviada com sucesso para o Instagram.",
@@ -128,9 +186,10 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
       await apiRequest("POST", `/api/messages/${messageId}/reject`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/pending"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/recent"] });
       setIsModalOpen(false);
       setSelectedMessage(null);
       toast({
@@ -162,7 +221,9 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
       return data;
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/pending"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
       if (selectedMessage) {
         setSelectedMessage({
           ...selectedMessage,
@@ -200,13 +261,90 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
     },
   });
 
+  const bulkMutation = useMutation({
+    mutationFn: async (body: {
+      action: BulkMessageAction;
+      messageIds?: number[];
+      filter?: { q?: string; type?: "dm" | "comment"; mediaType?: string[]; minConfidence?: number };
+    }): Promise<BulkActionResponse> => {
+      const res = await apiRequest("POST", "/api/messages/bulk", body);
+      return res.json();
+    },
+    onSuccess: (data, { action }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => ["/api/messages", "/api/stats", "/api/scheduled-sends"].some(
+          (prefix) => String(query.queryKey[0]).startsWith(prefix),
+        ),
+      });
+      // Keep what failed selected so it can be retried or opened one by one
+      setSelectedIds(new Set(data.results.filter((r) => r.status === "failed").map((r) => r.messageId)));
+
+      const { counts } = data;
+      const parts = [
+        counts.sent && `${counts.sent} enviada${counts.sent === 1 ? "" : "s"}`,
+        counts.scheduled && `${counts.scheduled} agendada${counts.scheduled === 1 ? "" : "s"}`,
+        counts.rejected && `${counts.rejected} rejeitada${counts.rejected === 1 ? "" : "s"}`,
+        counts.regenerated && `${counts.regenerated} regenerada${counts.regenerated === 1 ? "" : "s"}`,
+        counts.skipped && `${counts.skipped} ignorada${counts.skipped === 1 ? "" : "s"}`,
+        counts.failed && `${counts.failed} com erro`,
+      ].filter(Boolean);
+      const firstError = data.results.find((r) => r.status === "failed")?.error;
+      const titles: Record<BulkMessageAction, string> = {
+        approve: "Aprovação em lote",
+        reject: "Rejeição em lote",
+        regenerate: "Regeneração em lote",
+      };
+
+      toast({
+        title: titles[action],
+        description: [
+          parts.length > 0 ? `${parts.join(", ")}.` : "Nenhuma mensagem pendente encontrada.",
+          firstError && `Primeiro erro: ${firstError}`,
+          data.truncated && "Ainda há mensagens que atendem ao filtro; execute de novo para continuar.",
+        ].filter(Boolean).join(" "),
+        variant: counts.failed > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro na ação em lote",
+        description: error.message || "Não foi possível processar as mensagens selecionadas.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSelectChange = (messages: MessageWithResponse[], selected: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      messages.forEach((m) => (selected ? next.add(m.id) : next.delete(m.id)));
+      return next;
+    });
+  };
+
+  const runBulkOnSelection = (action: BulkMessageAction) => {
+    bulkMutation.mutate({ action, messageIds: Array.from(selectedIds) });
+  };
+
+  // Targets the server-side filter, so pages that haven't been scrolled into view are included
+  const handleApproveAbove = (threshold: number) => {
+    bulkMutation.mutate({
+      action: "approve",
+      filter: {
+        q: debouncedSearch || undefined,
+        ...searchTypeFilter(typeFilter),
+        minConfidence: threshold / 100,
+      },
+    });
+  };
+
   const handleViewMessage = (message: MessageWithResponse) => {
     setSelectedMessage(message);
     setIsModalOpen(true);
   };
 
-  const handleApprove = (messageId: number, response: string, wasEdited: boolean) => {
-    approveMutation.mutate({ messageId, response, wasEdited });
+  const handleApprove = (messageId: number, response: string, wasEdited: boolean, sendAt?: Date) => {
+    approveMutation.mutate({ messageId, response, wasEdited, sendAt });
   };
 
   const handleReject = (messageId: number) => {
@@ -217,23 +355,7 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
     regenerateMutation.mutate(messageId);
   };
 
-  const filteredMessages = messages?.filter((msg) => {
-    const matchesSearch =
-      searchQuery === "" ||
-      (msg.content || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
-      msg.senderName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      msg.senderUsername.toLowerCase().includes(searchQuery.toLowerCase());
-
-    const matchesType = typeFilter === "all" || msg.type === typeFilter;
-
-    return matchesSearch && matchesType;
-  });
-
   const { postGroups, dmMessages, dmConversations, ungroupedComments } = useMemo(() => {
-    if (!filteredMessages) {
-      return { postGroups: [], dmMessages: [], dmConversations: [], ungroupedComments: [] };
-    }
-
     const dms = filteredMessages.filter((msg) => msg.type === "dm");
     const comments = filteredMessages.filter((msg) => msg.type === "comment");
 
@@ -372,7 +494,7 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
         {defaultFilter === "all" && (
           <Select
             value={typeFilter}
-            onValueChange={(v) => setTypeFilter(v as "all" | "dm" | "comment")}
+            onValueChange={(v) => setTypeFilter(v as QueueTypeFilter)}
           >
             <SelectTrigger className="w-[160px]" data-testid="select-type-filter">
               <Filter className="h-4 w-4 mr-2" />
@@ -392,6 +514,12 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
                   Comentários
                 </div>
               </SelectItem>
+              <SelectItem value="story">
+                <div className="flex items-center gap-2">
+                  <CircleDashed className="h-3 w-3" />
+                  Stories
+                </div>
+              </SelectItem>
             </SelectContent>
           </Select>
         )}
@@ -436,6 +564,20 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
         </div>
       </div>
 
+      {filteredMessages.length > 0 && (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          loadedCount={filteredMessages.length}
+          isPending={bulkMutation.isPending}
+          onSelectAll={() => handleSelectChange(filteredMessages, true)}
+          onClear={() => setSelectedIds(new Set())}
+          onApprove={() => runBulkOnSelection("approve")}
+          onReject={() => runBulkOnSelection("reject")}
+          onRegenerate={() => runBulkOnSelection("regenerate")}
+          onApproveAbove={handleApproveAbove}
+        />
+      )}
+
       {isLoading ? (
         <div className="space-y-4">
           {[1, 2, 3, 4].map((i) => (
@@ -449,7 +591,7 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
             </div>
           ))}
         </div>
-      ) : filteredMessages && filteredMessages.length > 0 ? (
+      ) : filteredMessages.length > 0 ? (
         <div className="space-y-6">
           {viewMode === "grouped" ? (
             <>
@@ -504,6 +646,8 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
                               key={message.id}
                               message={message}
                               onView={handleViewMessage}
+                              selected={selectedIds.has(message.id)}
+                              onSelectChange={(m, selected) => handleSelectChange([m], selected)}
                             />
                           ))}
                         </div>
@@ -550,6 +694,8 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
                           postPermalink={group.postPermalink}
                           comments={group.comments}
                           onViewMessage={handleViewMessage}
+                          selectedIds={selectedIds}
+                          onSelectChange={handleSelectChange}
                         />
                       ))}
                     </div>
@@ -566,6 +712,8 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
                           key={message.id}
                           message={message}
                           onView={handleViewMessage}
+                          selected={selectedIds.has(message.id)}
+                          onSelectChange={(m, selected) => handleSelectChange([m], selected)}
                         />
                       ))}
                     </div>
@@ -580,9 +728,16 @@ export default function Queue({ defaultFilter = "all" }: QueueProps) {
                 key={message.id}
                 message={message}
                 onView={handleViewMessage}
+                selected={selectedIds.has(message.id)}
+                onSelectChange={(m, selected) => handleSelectChange([m], selected)}
               />
             ))
           )}
+          <LoadMoreSentinel
+            hasMore={!!hasNextPage}
+            isLoading={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
+          />
         </div>
       ) : (
         <EmptyState
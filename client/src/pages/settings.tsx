@@ -44,6 +44,13 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useLanguage } from "@/i18n";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface SettingsData {
   instagramConnected: boolean;
@@ -54,6 +61,13 @@ interface SettingsData {
   systemPrompt: string;
   autoReplyEnabled: boolean;
   aiTone?: "professional" | "friendly" | "casual";
+  aiProvider?: string | null;
+  aiModel?: string;
+  availableProviders?: { id: string; label: string; defaultModel: string }[];
+  globalDefaults?: {
+    aiProvider: string;
+    aiModel: string;
+  };
 }
 
 export default function Settings() {
@@ -123,6 +137,8 @@ export default function Settings() {
         errorMessage = t.settings.errors.sessionExpired;
       } else if (error === "credentials_missing") {
         errorMessage = t.settings.errors.credentialsMissing;
+      } else if (error === "account_already_connected") {
+        errorMessage = "Esta conta do Instagram já está conectada a outro usuário.";
       }
       toast({
         title: t.settings.errors.connectionError,
@@ -209,7 +225,9 @@ export default function Settings() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/messages/pending"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages"),
+      });
 
       const added = (data.synced?.messages || 0) + (data.synced?.comments || 0);
 
@@ -401,7 +419,8 @@ export default function Settings() {
 
   const handleSave = () => {
     if (localSettings) {
-      saveMutation.mutate(localSettings);
+      const { availableProviders, globalDefaults, ...updates } = localSettings;
+      saveMutation.mutate(updates);
     }
   };
 
@@ -812,6 +831,61 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Provedor de IA</CardTitle>
+              <CardDescription>
+                Escolha qual modelo gera suas respostas. Por padrão, segue a configuração global do sistema.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="ai-provider">Provedor</Label>
+                  <Select
+                    value={localSettings.aiProvider || "global"}
+                    onValueChange={(value) =>
+                      setLocalSettings({
+                        ...localSettings,
+                        aiProvider: value === "global" ? null : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger id="ai-provider" data-testid="select-ai-provider">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="global">
+                        Padrão global ({localSettings.availableProviders?.find((p) => p.id === localSettings.globalDefaults?.aiProvider)?.label || "OpenAI"})
+                      </SelectItem>
+                      {localSettings.availableProviders?.map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>
+                          {provider.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ai-model">Modelo</Label>
+                  <Input
+                    id="ai-model"
+                    value={localSettings.aiModel || ""}
+                    onChange={(e) =>
+                      setLocalSettings({ ...localSettings, aiModel: e.target.value })
+                    }
+                    disabled={!localSettings.aiProvider}
+                    placeholder={
+                      localSettings.availableProviders?.find((p) => p.id === localSettings.aiProvider)?.defaultModel
+                      || "Modelo padrão do provedor"
+                    }
+                    data-testid="input-ai-model"
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>{t.settings.ai.systemPrompt}</CardTitle>
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Copy,
+  Link2,
+  Loader2,
+  LogOut,
+  Trash2,
+  UserPlus,
+  Users,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type TeamRole = "owner" | "editor" | "reviewer" | "viewer";
+
+export interface TeamMember {
+  userId: string;
+  name: string;
+  email: string | null;
+  role: TeamRole;
+  joinedAt: string | null;
+}
+
+interface TeamInvite {
+  id: number;
+  token: string;
+  role: TeamRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface TeamData {
+  organization: { id: number; name: string } | null;
+  role: TeamRole;
+  actorUserId: string;
+  members: TeamMember[];
+  invites: TeamInvite[];
+}
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Dono",
+  editor: "Editor",
+  reviewer: "Revisor",
+  viewer: "Leitor",
+};
+
+const ROLE_DESCRIPTIONS: Record<Exclude<TeamRole, "owner">, string> = {
+  editor: "Aprova, edita e envia respostas",
+  reviewer: "Sugere e edita respostas, sem enviar",
+  viewer: "Apenas visualiza",
+};
+
+function inviteUrl(token: string) {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+export default function Team() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inviteRole, setInviteRole] = useState<TeamRole>("editor");
+
+  const { data: team, isLoading } = useQuery<TeamData>({
+    queryKey: ["/api/team"],
+  });
+
+  const isOwner = team?.role === "owner";
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(token));
+      toast({ title: "Link copiado", description: "Envie o link para a pessoa que você quer convidar." });
+    } catch {
+      toast({ title: "Erro", description: "Não foi possível copiar o link.", variant: "destructive" });
+    }
+  };
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (role: TeamRole) => {
+      const res = await apiRequest("POST", "/api/team/invites", { role });
+      return res.json() as Promise<TeamInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      copyLink(invite.token);
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Erro ao gerar convite.", variant: "destructive" });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/team/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: TeamRole }) => {
+      await apiRequest("PATCH", `/api/team/members/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+      toast({ title: "Papel atualizado" });
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Erro ao alterar papel.", variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest("DELETE", `/api/team/members/${userId}`);
+    },
+    onSuccess: (_data, userId) => {
+      if (userId === team?.actorUserId) {
+        // Left the team: everything cached belonged to the old workspace
+        queryClient.invalidateQueries();
+        toast({ title: "Você saiu da equipe" });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/team"] });
+        toast({ title: "Membro removido" });
+      }
+    },
+    onError: () => {
+      toast({ title: "Erro", description: "Erro ao remover membro.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !team) {
+    return (
+      <div className="p-6 flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Equipe</h1>
+          <p className="text-muted-foreground">
+            {team.organization?.name || "Convide pessoas para responder mensagens com você."}
+          </p>
+        </div>
+        <Badge variant="secondary">Seu papel: {ROLE_LABELS[team.role]}</Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Membros
+          </CardTitle>
+          <CardDescription>
+            Todos os membros compartilham a mesma caixa de entrada, cérebro da IA e contas conectadas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {team.members.map((member) => (
+            <div
+              key={member.userId}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg border flex-wrap"
+              data-testid={`row-member-${member.userId}`}
+            >
+              <div>
+                <p className="font-medium">
+                  {member.name}
+                  {member.userId === team.actorUserId && <span className="text-muted-foreground"> (você)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {member.email}
+                  {member.joinedAt && ` · desde ${format(new Date(member.joinedAt), "dd/MM/yyyy", { locale: ptBR })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {isOwner && member.role !== "owner" ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as TeamRole })}
+                  >
+                    <SelectTrigger className="w-[130px]" data-testid={`select-member-role-${member.userId}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="reviewer">{ROLE_LABELS.reviewer}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={member.role === "owner" ? "default" : "outline"}>{ROLE_LABELS[member.role]}</Badge>
+                )}
+                {isOwner && member.role !== "owner" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    disabled={removeMemberMutation.isPending}
+                    title="Remover membro"
+                    data-testid={`button-remove-member-${member.userId}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+                {!isOwner && member.userId === team.actorUserId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    disabled={removeMemberMutation.isPending}
+                    data-testid="button-leave-team"
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sair da equipe
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {isOwner && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Convidar
+            </CardTitle>
+            <CardDescription>
+              Gere um link de convite e envie para a pessoa. O link vale por 7 dias e só pode ser usado uma vez.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as TeamRole)}>
+                <SelectTrigger className="w-[280px]" data-testid="select-invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(["editor", "reviewer", "viewer"] as const).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]} — {ROLE_DESCRIPTIONS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => createInviteMutation.mutate(inviteRole)}
+                disabled={createInviteMutation.isPending}
+                data-testid="button-create-invite"
+              >
+                {createInviteMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Link2 className="h-4 w-4 mr-2" />
+                )}
+                Gerar link
+              </Button>
+            </div>
+
+            {team.invites.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Convites pendentes</p>
+                {team.invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center gap-2" data-testid={`row-invite-${invite.id}`}>
+                    <Badge variant="outline">{ROLE_LABELS[invite.role]}</Badge>
+                    <Input readOnly value={inviteUrl(invite.token)} className="font-mono text-xs" />
+                    <Button variant="ghost" size="icon" onClick={() => copyLink(invite.token)} title="Copiar link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => revokeInviteMutation.mutate(invite.id)}
+                      disabled={revokeInviteMutation.isPending}
+                      title="Revogar convite"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { db } from "./db";
 import { sql } from "drizzle-orm";
+import { PGVECTOR_DIMENSIONS, setPgvectorAvailable } from "./utils/pgvector";
 
 export async function ensureSchema() {
   try {
@@ -17,6 +18,733 @@ export async function ensureSchema() {
       );
     `);
 
+    // Create webhook_jobs table (durable webhook ingestion queue) if not exists
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "webhook_jobs" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "idempotency_key" text NOT NULL UNIQUE,
+        "event_type" text NOT NULL,
+        "entry_id" text NOT NULL,
+        "payload" jsonb NOT NULL,
+        "status" text DEFAULT 'pending' NOT NULL,
+        "attempts" integer DEFAULT 0 NOT NULL,
+        "next_attempt_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "locked_at" timestamp,
+        "last_error" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "processed_at" timestamp
+      );
+    `);
+
+    // Create instagram_accounts table (multiple accounts per workspace) if not exists
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "instagram_accounts" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "instagram_account_id" text NOT NULL UNIQUE,
+        "instagram_username" text,
+        "instagram_profile_pic" text,
+        "instagram_recipient_id" text,
+        "facebook_page_id" text,
+        "access_token" text,
+        "token_expires_at" timestamp,
+        "token_refreshed_at" timestamp,
+        "refresh_attempts" integer DEFAULT 0 NOT NULL,
+        "last_refresh_error" text,
+        "show_token_warning" boolean DEFAULT false NOT NULL,
+        "operation_mode" text,
+        "auto_approve_threshold" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+
+    try {
+      await db.execute(sql`
+        ALTER TABLE "instagram_messages"
+        ADD COLUMN IF NOT EXISTS "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE SET NULL;
+      `);
+      await db.execute(sql`ALTER TABLE "media_library" ADD COLUMN IF NOT EXISTS "account_id" integer;`);
+      await db.execute(sql`ALTER TABLE "interaction_dialect" ADD COLUMN IF NOT EXISTS "account_id" integer;`);
+
+      // Backfill: each user's existing connection becomes their first account
+      // (the users table token is already encrypted with the same scheme)
+      await db.execute(sql`
+        INSERT INTO "instagram_accounts" (
+          "user_id", "instagram_account_id", "instagram_username", "instagram_profile_pic",
+          "instagram_recipient_id", "facebook_page_id", "access_token", "token_expires_at",
+          "token_refreshed_at", "show_token_warning"
+        )
+        SELECT "id", "instagram_account_id", "instagram_username", "instagram_profile_pic",
+          "instagram_recipient_id", "facebook_page_id", "instagram_access_token", "token_expires_at",
+          "token_refreshed_at", COALESCE("show_token_warning", false)
+        FROM "users"
+        WHERE "instagram_account_id" IS NOT NULL AND "instagram_account_id" <> ''
+        ON CONFLICT ("instagram_account_id") DO NOTHING;
+      `);
+
+      // Attach legacy rows to the owner's primary account
+      for (const table of ["instagram_messages", "media_library", "interaction_dialect"]) {
+        await db.execute(sql`
+          UPDATE ${sql.identifier(table)} t
+          SET "account_id" = a."id"
+          FROM "users" u
+          JOIN "instagram_accounts" a ON a."instagram_account_id" = u."instagram_account_id" AND a."user_id" = u."id"
+          WHERE t."account_id" IS NULL AND t."user_id" = u."id";
+        `);
+      }
+    } catch (e) {
+      console.log("Instagram accounts migration skipped:", e);
+    }
+
+    // Create team workspace tables (organizations, members, invite links) if not exist
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "organizations" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "name" text NOT NULL,
+        "owner_id" text NOT NULL UNIQUE,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "organization_members" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "organization_id" integer NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "user_id" text NOT NULL UNIQUE,
+        "role" text NOT NULL,
+        "invited_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "organization_invites" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "organization_id" integer NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "token" text NOT NULL UNIQUE,
+        "role" text NOT NULL,
+        "created_by" text NOT NULL,
+        "expires_at" timestamp NOT NULL,
+        "accepted_by" text,
+        "accepted_at" timestamp,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+
+    // Create dm_conversations table (DM threads per account + sender) if not exists
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "dm_conversations" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE SET NULL,
+        "sender_id" text NOT NULL,
+        "sender_name" text,
+        "sender_username" text,
+        "sender_avatar" text,
+        "last_message_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "last_message_preview" text,
+        "unread_count" integer DEFAULT 0 NOT NULL,
+        "assigned_to" text,
+        "status" text DEFAULT 'open' NOT NULL,
+        "snoozed_until" timestamp,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+
+    try {
+      await db.execute(sql`
+        ALTER TABLE "instagram_messages"
+        ADD COLUMN IF NOT EXISTS "conversation_id" integer REFERENCES "dm_conversations"("id") ON DELETE SET NULL;
+      `);
+
+      // Backfill: group existing inbound DMs into threads (own-account echoes are skipped)
+      await db.execute(sql`
+        INSERT INTO "dm_conversations" (
+          "user_id", "account_id", "sender_id", "sender_name", "sender_username", "sender_avatar",
+          "last_message_at", "last_message_preview"
+        )
+        SELECT DISTINCT ON (m."user_id", m."account_id", m."sender_id")
+          m."user_id", m."account_id", m."sender_id", m."sender_name", m."sender_username", m."sender_avatar",
+          m."created_at", LEFT(COALESCE(m."content", ''), 200)
+        FROM "instagram_messages" m
+        WHERE m."type" = 'dm' AND m."sender_id" IS NOT NULL AND m."conversation_id" IS NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM "instagram_accounts" a
+            WHERE a."instagram_account_id" = m."sender_id" OR a."instagram_recipient_id" = m."sender_id"
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM "dm_conversations" c
+            WHERE c."user_id" = m."user_id" AND c."account_id" IS NOT DISTINCT FROM m."account_id" AND c."sender_id" = m."sender_id"
+          )
+        ORDER BY m."user_id", m."account_id", m."sender_id", m."created_at" DESC;
+      `);
+      await db.execute(sql`
+        UPDATE "instagram_messages" m
+        SET "conversation_id" = c."id"
+        FROM "dm_conversations" c
+        WHERE m."conversation_id" IS NULL AND m."type" = 'dm'
+          AND c."user_id" = m."user_id" AND c."account_id" IS NOT DISTINCT FROM m."account_id" AND c."sender_id" = m."sender_id";
+      `);
+    } catch (e) {
+      console.log("DM conversations migration skipped:", e);
+    }
+
+    // Create knowledge_embeddings table (vectors for the four knowledge tables) if not exists
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "knowledge_embeddings" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "source" text NOT NULL,
+        "source_id" integer NOT NULL,
+        "provider" text NOT NULL,
+        "content_hash" text NOT NULL,
+        "embedding" jsonb NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "knowledge_embeddings_source_unique" UNIQUE ("source", "source_id")
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "knowledge_embeddings_user_idx" ON "knowledge_embeddings" ("user_id", "provider");
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "knowledge_embedding_failures" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "source" text NOT NULL,
+        "source_id" integer NOT NULL,
+        "provider" text NOT NULL,
+        "content_hash" text NOT NULL,
+        "attempts" integer DEFAULT 1 NOT NULL,
+        "last_error" text,
+        "last_attempt_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "knowledge_embedding_failures_source_unique" UNIQUE ("source", "source_id")
+      );
+    `);
+
+    try {
+      // Seed from the vectors ai_dataset already has (all produced by OpenAI)
+      await db.execute(sql`
+        INSERT INTO "knowledge_embeddings" ("user_id", "source", "source_id", "provider", "content_hash", "embedding")
+        SELECT "user_id", 'dataset', "id", 'openai', md5("question"), "embedding"
+        FROM "ai_dataset"
+        WHERE "embedding" IS NOT NULL AND jsonb_typeof("embedding") = 'array'
+        ON CONFLICT ("source", "source_id") DO NOTHING;
+      `);
+    } catch (e) {
+      console.log("Knowledge embeddings seed skipped:", e);
+    }
+
+    // pgvector is optional: without it, retrieval scores the JSON vectors in-process
+    try {
+      await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector;`);
+      await db.execute(sql`
+        ALTER TABLE "knowledge_embeddings"
+        ADD COLUMN IF NOT EXISTS "embedding_vec" vector(${sql.raw(String(PGVECTOR_DIMENSIONS))});
+      `);
+      // Mirror vectors written while the extension was missing
+      await db.execute(sql`
+        UPDATE "knowledge_embeddings"
+        SET "embedding_vec" = "embedding"::text::vector
+        WHERE "embedding_vec" IS NULL AND jsonb_array_length("embedding") = ${PGVECTOR_DIMENSIONS};
+      `);
+      setPgvectorAvailable(true);
+
+      try {
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS "knowledge_embeddings_vec_idx"
+          ON "knowledge_embeddings" USING hnsw ("embedding_vec" vector_cosine_ops);
+        `);
+      } catch (e) {
+        console.log("HNSW index unavailable (pgvector < 0.5?), vector search will scan:", e);
+      }
+    } catch (e) {
+      console.log("pgvector unavailable, vector search will run in-process:", e instanceof Error ? e.message : e);
+    }
+
+    // Create generation_traces table (prompt inspector) if not exists
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "generation_traces" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "kind" text DEFAULT 'generate' NOT NULL,
+        "provider" text,
+        "model" text,
+        "latency_ms" integer,
+        "prompt_tokens" integer,
+        "completion_tokens" integer,
+        "sections" jsonb NOT NULL,
+        "few_shot" jsonb,
+        "user_prompt" text,
+        "raw_output" text,
+        "reasoning" text,
+        "used_vision" boolean DEFAULT false NOT NULL,
+        "attempts" integer DEFAULT 1 NOT NULL,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+
+    try {
+      await db.execute(sql`
+        ALTER TABLE "ai_responses"
+        ADD COLUMN IF NOT EXISTS "trace_id" integer REFERENCES "generation_traces"("id") ON DELETE SET NULL;
+      `);
+    } catch (e) {
+      console.log("Column trace_id might already exist or table missing");
+    }
+
+    // Send scheduler: per-account timing and the durable outbox
+    try {
+      await db.execute(sql`ALTER TABLE "instagram_accounts" ADD COLUMN IF NOT EXISTS "send_schedule" jsonb;`);
+    } catch (e) {
+      console.log("Column send_schedule might already exist or table missing");
+    }
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "scheduled_sends" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE SET NULL,
+        "message_id" integer NOT NULL REFERENCES "instagram_messages"("id") ON DELETE CASCADE,
+        "response_text" text NOT NULL,
+        "origin" text NOT NULL,
+        "status" text DEFAULT 'scheduled' NOT NULL,
+        "send_at" timestamp NOT NULL,
+        "attempts" integer DEFAULT 0 NOT NULL,
+        "locked_at" timestamp,
+        "last_error" text,
+        "created_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "sent_at" timestamp
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "scheduled_sends_due_idx" ON "scheduled_sends" ("status", "send_at");
+    `);
+
+    // Outbound safety filter: per-account checks and the reasons a reply was held
+    try {
+      await db.execute(sql`ALTER TABLE "instagram_accounts" ADD COLUMN IF NOT EXISTS "safety_filter" jsonb;`);
+      await db.execute(sql`ALTER TABLE "ai_responses" ADD COLUMN IF NOT EXISTS "safety_flags" jsonb;`);
+    } catch (e) {
+      console.log("Columns safety_filter/safety_flags might already exist or table missing");
+    }
+
+    // Snippets library (reusable approved replies)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "snippets" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE CASCADE,
+        "name" text NOT NULL,
+        "title" text NOT NULL,
+        "body" text NOT NULL,
+        "tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "snippets_user_name_unique" UNIQUE ("user_id", "name")
+      );
+    `);
+
+    // Automation rules (keyword/intent triggers) and the tags they put on messages
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "automation_rules" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE CASCADE,
+        "name" text NOT NULL,
+        "is_active" boolean DEFAULT true NOT NULL,
+        "priority" integer DEFAULT 0 NOT NULL,
+        "conditions" jsonb NOT NULL,
+        "actions" jsonb NOT NULL,
+        "stop_on_match" boolean DEFAULT true NOT NULL,
+        "match_count" integer DEFAULT 0 NOT NULL,
+        "last_matched_at" timestamp,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+
+    // Private replies (comment -> DM) and the thread each one opened
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "private_replies" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE SET NULL,
+        "message_id" integer NOT NULL UNIQUE REFERENCES "instagram_messages"("id") ON DELETE CASCADE,
+        "conversation_id" integer REFERENCES "dm_conversations"("id") ON DELETE SET NULL,
+        "recipient_id" text,
+        "text" text NOT NULL,
+        "origin" text NOT NULL,
+        "status" text DEFAULT 'queued' NOT NULL,
+        "attempts" integer DEFAULT 0 NOT NULL,
+        "send_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "last_error" text,
+        "instagram_message_id" text,
+        "created_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "sent_at" timestamp
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "private_replies_due_idx" ON "private_replies" ("status", "send_at");
+    `);
+    try {
+      await db.execute(sql`ALTER TABLE "instagram_messages" ADD COLUMN IF NOT EXISTS "tags" jsonb DEFAULT '[]'::jsonb NOT NULL;`);
+    } catch (e) {
+      console.log("Column tags might already exist or table missing");
+    }
+
+    // Comment moderation: per-account auto-hide settings, comment visibility and the audit trail
+    try {
+      await db.execute(sql`ALTER TABLE "instagram_accounts" ADD COLUMN IF NOT EXISTS "comment_moderation" jsonb;`);
+      await db.execute(sql`ALTER TABLE "instagram_messages" ADD COLUMN IF NOT EXISTS "moderation_status" text;`);
+    } catch (e) {
+      console.log("Columns comment_moderation/moderation_status might already exist or table missing");
+    }
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "comment_moderation_log" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE SET NULL,
+        "message_id" integer REFERENCES "instagram_messages"("id") ON DELETE SET NULL,
+        "comment_id" text NOT NULL,
+        "action" text NOT NULL,
+        "reason" text NOT NULL,
+        "detail" text,
+        "actor_user_id" text,
+        "success" boolean NOT NULL,
+        "error" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS "comment_moderation_log_message_idx" ON "comment_moderation_log" ("message_id");
+    `);
+
+    // Contacts: team notes and tags per person (IGSID)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "contacts" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "igsid" text NOT NULL,
+        "username" text,
+        "notes" text,
+        "tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "updated_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "contacts_user_igsid_unique" UNIQUE ("user_id", "igsid")
+      );
+    `);
+    try {
+      await db.execute(sql`
+        ALTER TABLE "contacts"
+        ADD COLUMN IF NOT EXISTS "name" text,
+        ADD COLUMN IF NOT EXISTS "email" text,
+        ADD COLUMN IF NOT EXISTS "phone" text,
+        ADD COLUMN IF NOT EXISTS "lead_stage" text,
+        ADD COLUMN IF NOT EXISTS "custom_fields" jsonb DEFAULT '{}'::jsonb NOT NULL,
+        ADD COLUMN IF NOT EXISTS "first_seen_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        ADD COLUMN IF NOT EXISTS "last_seen_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL;
+      `);
+
+      // Backfill: one contact per sender that wrote before contacts were recorded (own accounts skipped)
+      await db.execute(sql`
+        INSERT INTO "contacts" ("user_id", "igsid", "username", "name", "first_seen_at", "last_seen_at")
+        SELECT m."user_id", m."sender_id",
+          (array_agg(m."sender_username" ORDER BY m."created_at" DESC))[1],
+          (array_agg(m."sender_name" ORDER BY m."created_at" DESC))[1],
+          min(m."created_at"), max(m."created_at")
+        FROM "instagram_messages" m
+        WHERE m."sender_id" IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM "instagram_accounts" a
+            WHERE a."instagram_account_id" = m."sender_id" OR a."instagram_recipient_id" = m."sender_id"
+          )
+        GROUP BY m."user_id", m."sender_id"
+        ON CONFLICT ("user_id", "igsid") DO NOTHING;
+      `);
+      // Profile and segment queries read a person's messages by sender
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "instagram_messages_user_sender_idx" ON "instagram_messages" ("user_id", "sender_id", "created_at");
+      `);
+    } catch (e) {
+      console.log("Contacts migration skipped:", e);
+    }
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "contact_segments" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "name" text NOT NULL,
+        "filter" jsonb NOT NULL,
+        "created_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "contact_segments_user_name_unique" UNIQUE ("user_id", "name")
+      );
+    `);
+
+    // System prompt history (one row per change of users.ai_context)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "system_prompt_versions" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "version" integer NOT NULL,
+        "content" text,
+        "source" text NOT NULL,
+        "author_id" text,
+        "restored_from_id" integer,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "system_prompt_versions_user_version_unique" UNIQUE ("user_id", "version")
+      );
+    `);
+    try {
+      await db.execute(sql`
+        ALTER TABLE "ai_responses"
+        ADD COLUMN IF NOT EXISTS "prompt_version_id" integer REFERENCES "system_prompt_versions"("id") ON DELETE SET NULL;
+      `);
+    } catch (e) {
+      console.log("Column prompt_version_id might already exist or table missing");
+    }
+    // Prompts written before versioning become version 1
+    try {
+      await db.execute(sql`
+        INSERT INTO "system_prompt_versions" ("user_id", "version", "content", "source")
+        SELECT u."id", 1, u."ai_context", 'initial'
+        FROM "users" u
+        WHERE u."ai_context" IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM "system_prompt_versions" v WHERE v."user_id" = u."id");
+      `);
+    } catch (e) {
+      console.log("System prompt versions backfill skipped:", e);
+    }
+
+    // A/B tests of the system prompt and the variant each sender was given
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "prompt_experiments" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "account_id" integer REFERENCES "instagram_accounts"("id") ON DELETE CASCADE,
+        "name" text NOT NULL,
+        "challenger_prompt" text NOT NULL,
+        "traffic_split" integer DEFAULT 50 NOT NULL,
+        "status" text DEFAULT 'running' NOT NULL,
+        "winner" text,
+        "created_by" text,
+        "ended_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "ended_at" timestamp
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "prompt_experiment_assignments" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "experiment_id" integer NOT NULL REFERENCES "prompt_experiments"("id") ON DELETE CASCADE,
+        "sender_key" text NOT NULL,
+        "variant" text NOT NULL,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "prompt_experiment_assignments_experiment_sender_unique" UNIQUE ("experiment_id", "sender_key")
+      );
+    `);
+    try {
+      await db.execute(sql`
+        ALTER TABLE "ai_responses"
+        ADD COLUMN IF NOT EXISTS "experiment_id" integer REFERENCES "prompt_experiments"("id") ON DELETE SET NULL,
+        ADD COLUMN IF NOT EXISTS "experiment_variant" text;
+      `);
+    } catch (e) {
+      console.log("Columns experiment_id/experiment_variant might already exist or table missing");
+    }
+
+    // Evaluation suites (golden sets), their runs and per-case results
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "eval_suites" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "name" text NOT NULL,
+        "description" text,
+        "forbidden_phrases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "created_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "eval_cases" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "suite_id" integer NOT NULL REFERENCES "eval_suites"("id") ON DELETE CASCADE,
+        "message" text NOT NULL,
+        "message_type" text DEFAULT 'dm' NOT NULL,
+        "sender_name" text,
+        "post_caption" text,
+        "golden_answer" text,
+        "expected_traits" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "forbidden_phrases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "max_length" integer,
+        "source" text DEFAULT 'manual' NOT NULL,
+        "source_id" integer,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "eval_runs" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "suite_id" integer NOT NULL REFERENCES "eval_suites"("id") ON DELETE CASCADE,
+        "user_id" text NOT NULL,
+        "label" text NOT NULL,
+        "system_prompt" text,
+        "status" text DEFAULT 'running' NOT NULL,
+        "case_count" integer DEFAULT 0 NOT NULL,
+        "completed_count" integer DEFAULT 0 NOT NULL,
+        "avg_score" real,
+        "error" text,
+        "started_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "finished_at" timestamp
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "eval_results" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "run_id" integer NOT NULL REFERENCES "eval_runs"("id") ON DELETE CASCADE,
+        "case_id" integer NOT NULL REFERENCES "eval_cases"("id") ON DELETE CASCADE,
+        "response" text,
+        "error" text,
+        "scores" jsonb,
+        "score" real,
+        "judge_notes" text,
+        "trace_id" integer REFERENCES "generation_traces"("id") ON DELETE SET NULL,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "eval_results_run_case_unique" UNIQUE ("run_id", "case_id")
+      );
+    `);
+    // Runs execute in the server process: one still "running" at boot died with the previous process
+    try {
+      await db.execute(sql`
+        UPDATE "eval_runs" SET "status" = 'failed', "error" = 'Interrompida por reinício do servidor', "finished_at" = now()
+        WHERE "status" = 'running';
+      `);
+    } catch (e) {
+      console.log("Eval runs cleanup skipped:", e);
+    }
+
+    // Trainer simulator sessions (multi-turn transcripts and replays of real threads)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "simulator_sessions" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "title" text NOT NULL,
+        "sender_name" text DEFAULT 'Seguidor' NOT NULL,
+        "source" text DEFAULT 'manual' NOT NULL,
+        "conversation_id" integer REFERENCES "dm_conversations"("id") ON DELETE SET NULL,
+        "created_by" text,
+        "saved_at" timestamp,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+      );
+    `);
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "simulator_turns" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "session_id" integer NOT NULL REFERENCES "simulator_sessions"("id") ON DELETE CASCADE,
+        "position" integer NOT NULL,
+        "role" text NOT NULL,
+        "content" text NOT NULL,
+        "original_content" text,
+        "real_response" text,
+        "confidence" real,
+        "trace_id" integer REFERENCES "generation_traces"("id") ON DELETE SET NULL,
+        "manual_qa_id" integer REFERENCES "manual_qa"("id") ON DELETE SET NULL,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        CONSTRAINT "simulator_turns_session_position_unique" UNIQUE ("session_id", "position")
+      );
+    `);
+
+    // Copilot change sets (proposed by the agent, applied only after confirmation; audit trail)
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS "copilot_change_sets" (
+        "id" serial PRIMARY KEY NOT NULL,
+        "user_id" text NOT NULL,
+        "requested_by" text,
+        "request" text,
+        "changes" jsonb NOT NULL,
+        "status" text DEFAULT 'pending' NOT NULL,
+        "results" jsonb,
+        "decided_by" text,
+        "created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        "decided_at" timestamp
+      );
+    `);
+    // A set still "applying" at boot was cut off midway: some of its changes may be in place
+    try {
+      await db.execute(sql`
+        UPDATE "copilot_change_sets" SET "status" = 'failed'
+        WHERE "status" = 'applying';
+      `);
+    } catch (e) {
+      console.log("Copilot change sets cleanup skipped:", e);
+    }
+
+    // One thread per (owner, account, sender). Duplicates left by concurrent webhooks are merged
+    // into the oldest thread before the index goes in; account_id is coalesced so NULLs collide too.
+    try {
+      for (const table of ["instagram_messages", "private_replies", "simulator_sessions"]) {
+        await db.execute(sql`
+          WITH ranked AS (
+            SELECT "id", MIN("id") OVER (PARTITION BY "user_id", COALESCE("account_id", 0), "sender_id") AS "keep_id"
+            FROM "dm_conversations"
+          )
+          UPDATE ${sql.identifier(table)} t SET "conversation_id" = r."keep_id"
+          FROM ranked r
+          WHERE t."conversation_id" = r."id" AND r."id" <> r."keep_id";
+        `);
+      }
+      await db.execute(sql`
+        DELETE FROM "dm_conversations" c
+        USING "dm_conversations" k
+        WHERE k."user_id" = c."user_id" AND COALESCE(k."account_id", 0) = COALESCE(c."account_id", 0)
+          AND k."sender_id" = c."sender_id" AND k."id" < c."id";
+      `);
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS "dm_conversations_user_account_sender_idx"
+        ON "dm_conversations" ("user_id", COALESCE("account_id", 0), "sender_id");
+      `);
+    } catch (e) {
+      console.log("DM conversations unique index skipped:", e);
+    }
+
+    // Story mentions/replies: which story the message refers to
+    try {
+      await db.execute(sql`ALTER TABLE "instagram_messages" ADD COLUMN IF NOT EXISTS "story_id" text;`);
+    } catch (e) {
+      console.log("Column story_id might already exist or table missing");
+    }
+
+    // Message search: keyset pagination and Portuguese full-text over content and replies
+    // (expressions must match MESSAGE_CONTENT_TSV / AI_RESPONSE_TSV in storage.ts)
+    try {
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "instagram_messages_user_created_idx" ON "instagram_messages" ("user_id", "created_at" DESC, "id" DESC);
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "instagram_messages_content_fts_idx" ON "instagram_messages"
+        USING GIN (to_tsvector('portuguese', coalesce("content", '')));
+      `);
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "ai_responses_reply_fts_idx" ON "ai_responses"
+        USING GIN (to_tsvector('portuguese', coalesce("final_response", "suggested_response")));
+      `);
+    } catch (e) {
+      console.log("Message search indexes could not be created:", e);
+    }
+
+    // Per-user LLM provider selection
+    try {
+      await db.execute(sql`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "ai_provider" varchar;`);
+      await db.execute(sql`ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "ai_model" varchar;`);
+    } catch (e) {
+      console.log("Columns ai_provider/ai_model might already exist or table missing");
+    }
+
     // Check for new columns in ai_responses
     try {
       await db.execute(sql`
@@ -27,6 +755,15 @@ export async function ensureSchema() {
       console.log("Column feedback_status might already exist or table missing");
     }
 
+    try {
+      await db.execute(sql`
+        ALTER TABLE "ai_responses"
+        ADD COLUMN IF NOT EXISTS "approved_by" text;
+      `);
+    } catch (e) {
+      console.log("Column approved_by might already exist or table missing");
+    }
+
     console.log("Schema verification completed.");
   } catch (error) {
     console.error("Schema verification failed:", error);
@@ -7,10 +7,8 @@
  * 3. Manual Q&A - Human corrections (GOLDEN RULES)
  */
 
-import OpenAI from "openai";
 import { storage } from "./storage";
-
-const openai = new OpenAI();
+import { callLLM } from "./lib/llm";
 
 // Content limits to prevent OpenAI token overflow
 const MAX_CAPTIONS = 30;
@@ -123,7 +121,8 @@ export async function syncAllKnowledge(
     userId: string,
     accessToken: string,
     instagramAccountId: string,
-    onProgress?: (progress: SyncProgress) => void
+    onProgress?: (progress: SyncProgress) => void,
+    accountId?: number
 ): Promise<SyncResult> {
     console.log(`[SyncKnowledge] Delegating to new processor for userId: ${userId}`);
 
@@ -133,7 +132,7 @@ export async function syncAllKnowledge(
     // 3. ENFORCE LIMITS (max 50 posts)
     // 4. INTELLIGENT PARSING (owner reply detection)
     // 5. TRANSACTIONAL INSERT
-    return syncInstagramProcessor(userId, accessToken, instagramAccountId, onProgress);
+    return syncInstagramProcessor(userId, accessToken, instagramAccountId, onProgress, accountId);
 }
 
 // ============================================
@@ -235,17 +234,12 @@ IMPORTANTE: As diretrizes prioritárias devem aparecer no início do prompt e de
 Responda APENAS com o System Prompt final.`;
 
     try {
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-                { role: "system", content: "Você cria System Prompts profissionais para chatbots de Instagram." },
-                { role: "user", content: analysisPrompt }
-            ],
-            temperature: 0.7,
-            max_tokens: 2000,
-        });
+        const response = await callLLM([
+            { role: "system", content: "Você cria System Prompts profissionais para chatbots de Instagram." },
+            { role: "user", content: analysisPrompt }
+        ], { temperature: 0.7, maxTokens: 2000, userId });
 
-        const systemPrompt = response.choices[0]?.message?.content || "";
+        const systemPrompt = response.content || "";
 
         console.log(`[IdentitySynthesizer] ✅ System Prompt gerado (${systemPrompt.length} caracteres)`);
 
@@ -273,10 +267,11 @@ export async function syncInstagramKnowledge(
     userId: string,
     accessToken: string,
     instagramAccountId: string,
-    onProgress?: (progress: SyncProgress) => void
+    onProgress?: (progress: SyncProgress) => void,
+    accountId?: number
 ): Promise<{ captions: string[]; bio: string; username: string }> {
-    const result = await syncAllKnowledge(userId, accessToken, instagramAccountId, onProgress);
-    const mediaLibrary = await storage.getMediaLibrary(userId);
+    const result = await syncAllKnowledge(userId, accessToken, instagramAccountId, onProgress, accountId);
+    const mediaLibrary = await storage.getMediaLibrary(userId, accountId);
     const captions = mediaLibrary
         .map(m => m.caption)
         .filter((c): c is string => !!c);
@@ -4,6 +4,10 @@ import { setupMediaEndpoint } from "./utils/media-storage";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { startTokenRefreshJob, autoFixMissingRecipientIds } from "./jobs/token-refresh-job";
+import { startWebhookQueueWorker, stopWebhookQueueWorker } from "./jobs/webhook-queue-worker";
+import { startEmbeddingBackfillJob, stopEmbeddingBackfillJob } from "./jobs/embedding-backfill-job";
+import { startSendScheduler, stopSendScheduler } from "./jobs/send-scheduler-job";
+import { startPrivateReplyJob, stopPrivateReplyJob } from "./jobs/private-reply-job";
 import { ensureSchema } from "./ensure-schema";
 
 const app = express();
@@ -167,6 +171,18 @@ app.use((req, res, next) => {
 
       // Start token refresh job (runs daily at 3am)
       startTokenRefreshJob();
+
+      // Start webhook queue worker (processes persisted webhook events)
+      startWebhookQueueWorker();
+
+      // Start embedding backfill (vectors for the knowledge tables used by retrieval)
+      startEmbeddingBackfillJob();
+
+      // Start send scheduler (delayed auto-sends and approvals with a send time)
+      startSendScheduler();
+
+      // Start private reply queue (comment -> DM)
+      startPrivateReplyJob();
     },
   );
 
@@ -189,6 +205,12 @@ app.use((req, res, next) => {
       await new Promise<void>((resolve) => server.close(() => resolve()));
       log("HTTP server closed.");
 
+      // Stop claiming webhook jobs; in-flight ones are requeued on next boot
+      stopWebhookQueueWorker();
+      stopEmbeddingBackfillJob();
+      stopSendScheduler();
+      stopPrivateReplyJob();
+
       // 2) fechar pool do banco
       try {
         const { pool } = await import("./db");
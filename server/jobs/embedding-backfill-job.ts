@@ -0,0 +1,80 @@
+import { storage } from "../storage";
+import { embedText, resolveEmbeddingProviderName, LLMError } from "../lib/llm";
+
+const POLL_INTERVAL_MS = 60 * 1000; // New knowledge rows get a vector within a minute
+const BATCH_SIZE = 100; // Rows embedded per tick
+const MAX_TEXT_LENGTH = 8000; // Characters; keeps long transcriptions under the model's input limit
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Hourly sweep of vectors whose source row was deleted
+
+let pollTimer: NodeJS.Timeout | null = null;
+let cleanupTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+export function startEmbeddingBackfillJob() {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => void runEmbeddingBackfill(), POLL_INTERVAL_MS);
+  cleanupTimer = setInterval(() => void cleanupOrphans(), CLEANUP_INTERVAL_MS);
+  void cleanupOrphans().then(() => runEmbeddingBackfill());
+
+  console.log("[Embeddings] Backfill iniciado");
+}
+
+export function stopEmbeddingBackfillJob() {
+  if (pollTimer) clearInterval(pollTimer);
+  if (cleanupTimer) clearInterval(cleanupTimer);
+  pollTimer = null;
+  cleanupTimer = null;
+}
+
+// Embeds knowledge rows that are new, were edited or came from another provider.
+// Returns how many vectors were written.
+export async function runEmbeddingBackfill(): Promise<number> {
+  if (running) return 0;
+  running = true;
+
+  let embedded = 0;
+  try {
+    const provider = await resolveEmbeddingProviderName();
+    const pending = await storage.getKnowledgePendingEmbedding(provider, BATCH_SIZE);
+    if (pending.length === 0) return 0;
+
+    for (const row of pending) {
+      try {
+        const embedding = await embedText(row.text.substring(0, MAX_TEXT_LENGTH), provider);
+        await storage.upsertKnowledgeEmbedding({ ...row, provider, embedding });
+        embedded++;
+      } catch (error) {
+        // Missing key or rate limit affects every row: stop and retry on the next tick
+        if (error instanceof LLMError && (error.code === "MISSING_API_KEY" || error.code === "RATE_LIMIT")) {
+          console.warn(`[Embeddings] Backfill pausado (${error.code}): ${error.message}`);
+          break;
+        }
+        console.error(`[Embeddings] Falha ao gerar vetor para ${row.source}#${row.sourceId}:`, error);
+        await storage.recordKnowledgeEmbeddingFailure({
+          ...row,
+          provider,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    console.log(`[Embeddings] ${embedded}/${pending.length} vetor(es) gerado(s) com ${provider}`);
+  } catch (error) {
+    console.error("[Embeddings] Erro no backfill:", error);
+  } finally {
+    running = false;
+  }
+  return embedded;
+}
+
+async function cleanupOrphans() {
+  try {
+    const removed = await storage.cleanupOrphanKnowledgeEmbeddings();
+    if (removed > 0) {
+      console.log(`[Embeddings] ${removed} vetor(es) órfão(s) removido(s)`);
+    }
+  } catch (error) {
+    console.error("[Embeddings] Erro ao limpar vetores órfãos:", error);
+  }
+}
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import { publishEvent } from "../utils/live-events";
+import type { PrivateReply } from "@shared/schema";
+
+export type PrivateReplyHandler = (reply: PrivateReply) => Promise<{
+  success: boolean;
+  messageId?: string;
+  recipientId?: string;
+  error?: string;
+  retryAt?: Date;
+}>;
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const MAX_ATTEMPTS = 3; // After this many failures the reply stays on the comment as 'failed'
+const RETRY_DELAY_MS = 60 * 1000; // 1 min, 2 min between attempts
+
+let replyHandler: PrivateReplyHandler | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+// Registered by registerRoutes, where the Instagram send helpers live
+export function setPrivateReplyHandler(handler: PrivateReplyHandler) {
+  replyHandler = handler;
+}
+
+export function startPrivateReplyJob() {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => void drainQueuedReplies(), POLL_INTERVAL_MS);
+
+  // Anything still 'sending' at boot was interrupted by the previous shutdown
+  void recoverInterruptedReplies().then(() => drainQueuedReplies());
+
+  console.log("[Private Reply] Fila de respostas privadas iniciada");
+}
+
+export function stopPrivateReplyJob() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+// Called after queueing so the DM goes out without waiting for the next poll
+export function kickPrivateReplyJob() {
+  if (pollTimer) void drainQueuedReplies();
+}
+
+async function drainQueuedReplies() {
+  if (draining || !replyHandler) return;
+  draining = true;
+
+  try {
+    let reply = await storage.claimNextPrivateReply();
+    while (reply) {
+      await runReply(reply, replyHandler);
+      reply = await storage.claimNextPrivateReply();
+    }
+  } catch (error) {
+    console.error("[Private Reply] Erro ao processar respostas privadas:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+function notify(reply: PrivateReply | undefined) {
+  if (!reply) return;
+  publishEvent(reply.userId, "message.private_reply", {
+    messageId: reply.messageId,
+    status: reply.status,
+    conversationId: reply.conversationId,
+  });
+}
+
+async function runReply(reply: PrivateReply, handler: PrivateReplyHandler) {
+  let error: string;
+  try {
+    const result = await handler(reply);
+    if (result.success) {
+      notify(await storage.completePrivateReply(reply.id, result.messageId ?? null, result.recipientId ?? null));
+      console.log(`[Private Reply] ✅ DM enviada para o comentário ${reply.messageId}`);
+      return;
+    }
+    // Rate limited: wait for the account's budget instead of counting a failure
+    if (result.retryAt) {
+      await storage.deferPrivateReply(reply.id, result.retryAt, result.error || "Limite de envios da conta atingido");
+      console.warn(`[Private Reply] ⏳ Resposta ${reply.id} adiada para ${result.retryAt.toISOString()} (limite da conta)`);
+      return;
+    }
+    error = result.error || "Falha desconhecida no envio";
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  if (reply.attempts >= MAX_ATTEMPTS) {
+    notify(await storage.failPrivateReply(reply.id, error, null));
+    console.error(`[Private Reply] ❌ Resposta ${reply.id} falhou após ${reply.attempts} tentativas: ${error}`);
+    return;
+  }
+
+  const delay = RETRY_DELAY_MS * reply.attempts;
+  await storage.failPrivateReply(reply.id, error, new Date(Date.now() + delay));
+  console.warn(`[Private Reply] ⚠️ Resposta ${reply.id} falhou (tentativa ${reply.attempts}/${MAX_ATTEMPTS}), nova tentativa em ${Math.round(delay / 1000)}s: ${error}`);
+}
+
+async function recoverInterruptedReplies() {
+  try {
+    const interrupted = await storage.failInterruptedPrivateReplies();
+    if (interrupted.length > 0) {
+      console.warn(`[Private Reply] ${interrupted.length} resposta(s) interrompida(s) marcada(s) como falha`);
+    }
+  } catch (error) {
+    console.error("[Private Reply] Erro ao recuperar respostas interrompidas:", error);
+  }
+}
@@ -0,0 +1,102 @@
+import { storage } from "../storage";
+import type { ScheduledSend } from "@shared/schema";
+
+export type ScheduledSendHandler = (send: ScheduledSend) => Promise<{ success: boolean; error?: string; retryAt?: Date }>;
+
+const POLL_INTERVAL_MS = 15 * 1000; // Sends go out at most 15s after their time
+const MAX_ATTEMPTS = 3; // After this many failures the send stays in the outbox as 'failed'
+const RETRY_DELAY_MS = 60 * 1000; // 1 min, 2 min between attempts
+
+let sendHandler: ScheduledSendHandler | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+// Registered by registerRoutes, where the Instagram send helpers live
+export function setScheduledSendHandler(handler: ScheduledSendHandler) {
+  sendHandler = handler;
+}
+
+export function startSendScheduler() {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => void drainDueSends(), POLL_INTERVAL_MS);
+
+  // Anything still 'sending' at boot was interrupted by the previous shutdown
+  void recoverInterruptedSends().then(() => drainDueSends());
+
+  console.log("[Send Scheduler] Agendador de envios iniciado");
+}
+
+export function stopSendScheduler() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+// Called after scheduling or rescheduling so sends due now don't wait for the next poll
+export function kickSendScheduler() {
+  if (pollTimer) void drainDueSends();
+}
+
+async function drainDueSends() {
+  if (draining || !sendHandler) return;
+  draining = true;
+
+  try {
+    let send = await storage.claimNextScheduledSend();
+    while (send) {
+      await runSend(send, sendHandler);
+      send = await storage.claimNextScheduledSend();
+    }
+  } catch (error) {
+    console.error("[Send Scheduler] Erro ao processar envios agendados:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function runSend(send: ScheduledSend, handler: ScheduledSendHandler) {
+  let error: string;
+  try {
+    const result = await handler(send);
+    if (result.success) {
+      await storage.completeScheduledSend(send.id);
+      console.log(`[Send Scheduler] ✅ Envio ${send.id} (mensagem ${send.messageId}) concluído`);
+      return;
+    }
+    // Rate limited: wait for the account's budget instead of counting a failure
+    if (result.retryAt) {
+      await storage.deferScheduledSend(send.id, result.retryAt, result.error || "Limite de envios da conta atingido");
+      console.warn(`[Send Scheduler] ⏳ Envio ${send.id} adiado para ${result.retryAt.toISOString()} (limite da conta)`);
+      return;
+    }
+    error = result.error || "Falha desconhecida no envio";
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  if (send.attempts >= MAX_ATTEMPTS) {
+    await storage.failScheduledSend(send.id, error, null);
+    // Back to the approval queue so someone can answer by hand
+    await storage.updateMessageStatus(send.messageId, send.userId, "pending");
+    console.error(`[Send Scheduler] ❌ Envio ${send.id} falhou após ${send.attempts} tentativas: ${error}`);
+    return;
+  }
+
+  const delay = RETRY_DELAY_MS * send.attempts;
+  await storage.failScheduledSend(send.id, error, new Date(Date.now() + delay));
+  console.warn(`[Send Scheduler] ⚠️ Envio ${send.id} falhou (tentativa ${send.attempts}/${MAX_ATTEMPTS}), nova tentativa em ${Math.round(delay / 1000)}s: ${error}`);
+}
+
+async function recoverInterruptedSends() {
+  try {
+    const interrupted = await storage.failInterruptedScheduledSends();
+    for (const send of interrupted) {
+      await storage.updateMessageStatus(send.messageId, send.userId, "pending");
+    }
+    if (interrupted.length > 0) {
+      console.warn(`[Send Scheduler] ${interrupted.length} envio(s) interrompido(s) marcado(s) como falha`);
+    }
+  } catch (error) {
+    console.error("[Send Scheduler] Erro ao recuperar envios interrompidos:", error);
+  }
+}
@@ -1,8 +1,12 @@
 import * as cron from "node-cron";
 import { db } from "../db";
 import { users } from "@shared/models/auth";
+import { instagramAccounts } from "@shared/schema";
+import { storage } from "../storage";
+import { encrypt } from "../encryption";
 import { refreshInstagramToken } from "../utils/token-refresh";
-import { sql, and, lt, gt, isNotNull } from "drizzle-orm";
+import { publishEvent } from "../utils/live-events";
+import { sql, and, eq, lt, gt, isNotNull } from "drizzle-orm";
 
 export function startTokenRefreshJob() {
   cron.schedule("0 3 * * *", async () => {
@@ -17,28 +21,35 @@ export function startTokenRefreshJob() {
       const now = new Date();
       const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-      const expiringUsers = await db
-        .select()
-        .from(users)
-        .where(
-          and(
-            isNotNull(users.tokenExpiresAt),
-            isNotNull(users.instagramAccessToken),
-            lt(users.tokenExpiresAt, sevenDaysFromNow),
-            gt(users.tokenExpiresAt, now)
-          )
-        );
+      // Every connected account has its own token; the users row mirrors the primary one
+      const accounts = await storage.getAllInstagramAccounts();
+      const expiringAccounts = accounts.filter(account =>
+        account.accessToken &&
+        account.tokenExpiresAt &&
+        account.tokenExpiresAt < sevenDaysFromNow &&
+        account.tokenExpiresAt > now
+      );
+
+      console.log(`[Token Refresh Job] ${expiringAccounts.length} tokens para renovar`);
 
-      console.log(`[Token Refresh Job] ${expiringUsers.length} tokens para renovar`);
+      for (const account of expiringAccounts) {
+        if (!account.accessToken) continue;
 
-      for (const user of expiringUsers) {
-        if (!user.instagramAccessToken) continue;
+        console.log(`[Token Refresh Job] Renovando token de @${account.instagramUsername}...`);
 
-        console.log(`[Token Refresh Job] Renovando token de ${user.email}...`);
-        
-        const result = await refreshInstagramToken(user.instagramAccessToken);
+        // storage hands tokens back decrypted; the refresh helper works on encrypted ones
+        const result = await refreshInstagramToken(encrypt(account.accessToken));
 
         if (result.success && result.newToken && result.expiresAt) {
+          await storage.updateInstagramAccount(account.id, account.userId, {
+            accessToken: result.newToken,
+            tokenExpiresAt: result.expiresAt,
+            tokenRefreshedAt: new Date(),
+            refreshAttempts: 0,
+            lastRefreshError: null,
+            showTokenWarning: false,
+          });
+
           await db
             .update(users)
             .set({
@@ -49,13 +60,18 @@ export function startTokenRefreshJob() {
               lastRefreshError: null,
               showTokenWarning: false,
             })
-            .where(sql`${users.id} = ${user.id}`);
+            .where(and(eq(users.id, account.userId), eq(users.instagramAccountId, account.instagramAccountId)));
 
-          console.log(`[Token Refresh Job] ✅ Token renovado para ${user.email}`);
+          console.log(`[Token Refresh Job] ✅ Token renovado para @${account.instagramUsername}`);
 
         } else {
-          const currentAttempts = parseInt(user.refreshAttempts || "0");
-          const newAttempts = currentAttempts + 1;
+          const newAttempts = account.refreshAttempts + 1;
+
+          await storage.updateInstagramAccount(account.id, account.userId, {
+            refreshAttempts: newAttempts,
+            lastRefreshError: result.error || "Erro desconhecido",
+            showTokenWarning: newAttempts >= 2,
+          });
 
           await db
             .update(users)
@@ -64,9 +80,13 @@ export function startTokenRefreshJob() {
               lastRefreshError: result.error || "Erro desconhecido",
               showTokenWarning: newAttempts >= 2,
             })
-            .where(sql`${users.id} = ${user.id}`);
+            .where(and(eq(users.id, account.userId), eq(users.instagramAccountId, account.instagramAccountId)));
 
-          console.log(`[Token Refresh Job] ❌ Falha ao renovar token de ${user.email}: ${result.error}`);
+          if (newAttempts >= 2) {
+            publishEvent(account.userId, "token.warning", { accountId: account.id, reason: "refresh_failed" });
+          }
+
+          console.log(`[Token Refresh Job] ❌ Falha ao renovar token de @${account.instagramUsername}: ${result.error}`);
         }
       }
 
@@ -152,6 +172,7 @@ export async function checkExpiringTokens() {
         .update(users)
         .set({ showTokenWarning: true })
         .where(sql`${users.id} = ${user.id}`);
+      publishEvent(user.id, "token.warning", { reason: "expiring" });
     }
 
     console.log(`[Token Check] ${expiringUsers.length} usuários com tokens expirando em 3 dias`);
@@ -175,12 +196,34 @@ export async function checkExpiringTokens() {
         .update(users)
         .set({ showTokenWarning: true })
         .where(sql`${users.id} = ${user.id}`);
+      publishEvent(user.id, "token.warning", { reason: "expired" });
     }
 
     if (expiredUsers.length > 0) {
       console.log(`[Token Check] ${expiredUsers.length} usuários com tokens expirados`);
     }
 
+    // Same warning per connected account (covers expiring and already expired tokens)
+    const flaggedAccounts = await db
+      .update(instagramAccounts)
+      .set({ showTokenWarning: true })
+      .where(
+        and(
+          isNotNull(instagramAccounts.tokenExpiresAt),
+          isNotNull(instagramAccounts.accessToken),
+          lt(instagramAccounts.tokenExpiresAt, threeDaysFromNow)
+        )
+      )
+      .returning({ id: instagramAccounts.id, userId: instagramAccounts.userId });
+
+    for (const account of flaggedAccounts) {
+      publishEvent(account.userId, "token.warning", { accountId: account.id, reason: "expiring" });
+    }
+
+    if (flaggedAccounts.length > 0) {
+      console.log(`[Token Check] ${flaggedAccounts.length} conta(s) com tokens expirando ou expirados`);
+    }
+
   } catch (error) {
     console.error("[Token Check] Erro ao verificar tokens");
   }
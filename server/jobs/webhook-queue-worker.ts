@@ -0,0 +1,98 @@
+import { storage } from "../storage";
+import type { WebhookJob } from "@shared/schema";
+
+export type WebhookJobHandler = (job: WebhookJob) => Promise<void>;
+
+const POLL_INTERVAL_MS = 2000; // How often to look for due jobs
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000; // Hourly stale-lock recovery and cleanup
+const MAX_ATTEMPTS = 5; // After this many failures the job goes to the dead-letter list
+const BASE_BACKOFF_MS = 30000; // 30s, 60s, 120s, 240s...
+const STALE_LOCK_MS = 10 * 60 * 1000; // A job 'processing' for 10 min was abandoned by a crashed worker
+const DONE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Keep processed keys 7 days for deduplication
+
+let jobHandler: WebhookJobHandler | null = null;
+let pollTimer: NodeJS.Timeout | null = null;
+let maintenanceTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+// Registered by registerRoutes, where the comment/DM processors live
+export function setWebhookJobHandler(handler: WebhookJobHandler) {
+  jobHandler = handler;
+}
+
+export function startWebhookQueueWorker() {
+  if (pollTimer) return;
+
+  pollTimer = setInterval(() => void drainWebhookQueue(), POLL_INTERVAL_MS);
+  maintenanceTimer = setInterval(() => void runMaintenance(), MAINTENANCE_INTERVAL_MS);
+
+  // Jobs this instance left 'processing' before a restart come back with the stale-lock rule;
+  // fresher locks may belong to another instance that is still running them
+  void runMaintenance().then(() => drainWebhookQueue());
+
+  console.log("[Webhook Queue] Worker iniciado");
+}
+
+export function stopWebhookQueueWorker() {
+  if (pollTimer) clearInterval(pollTimer);
+  if (maintenanceTimer) clearInterval(maintenanceTimer);
+  pollTimer = null;
+  maintenanceTimer = null;
+}
+
+// Called right after enqueueing so new events don't wait for the next poll
+export function kickWebhookQueueWorker() {
+  if (pollTimer) void drainWebhookQueue();
+}
+
+async function drainWebhookQueue() {
+  if (draining || !jobHandler) return;
+  draining = true;
+
+  try {
+    let job = await storage.claimNextWebhookJob();
+    while (job) {
+      await runJob(job, jobHandler);
+      job = await storage.claimNextWebhookJob();
+    }
+  } catch (error) {
+    console.error("[Webhook Queue] Erro ao consumir fila:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+async function runJob(job: WebhookJob, handler: WebhookJobHandler) {
+  try {
+    await handler(job);
+    await storage.completeWebhookJob(job.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await storage.failWebhookJob(job.id, message, null);
+      console.error(`[Webhook Queue] ☠️ Job ${job.id} (${job.idempotencyKey}) movido para dead-letter após ${job.attempts} tentativas: ${message}`);
+      return;
+    }
+
+    const delay = BASE_BACKOFF_MS * Math.pow(2, job.attempts - 1);
+    await storage.failWebhookJob(job.id, message, new Date(Date.now() + delay));
+    console.warn(`[Webhook Queue] ⚠️ Job ${job.id} falhou (tentativa ${job.attempts}/${MAX_ATTEMPTS}), nova tentativa em ${Math.round(delay / 1000)}s: ${message}`);
+  }
+}
+
+async function runMaintenance(lockedBefore = new Date(Date.now() - STALE_LOCK_MS)) {
+  try {
+    const requeued = await storage.requeueStaleWebhookJobs(lockedBefore);
+    if (requeued > 0) {
+      console.log(`[Webhook Queue] ${requeued} job(s) abandonado(s) devolvido(s) à fila`);
+    }
+
+    const cleaned = await storage.cleanupProcessedWebhookJobs(new Date(Date.now() - DONE_RETENTION_MS));
+    if (cleaned > 0) {
+      console.log(`[Webhook Queue] ${cleaned} job(s) processado(s) antigo(s) removido(s)`);
+    }
+  } catch (error) {
+    console.error("[Webhook Queue] Erro na manutenção da fila:", error);
+  }
+}
@@ -8,11 +8,9 @@
 
 import { db } from "../../db";
 import { mediaLibrary, interactionDialect } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import OpenAI from "openai";
+import { eq, and } from "drizzle-orm";
 import { transcribeVideoAudio } from "../../transcription";
-
-const openai = new OpenAI();
+import { callLLM } from "../llm";
 
 // ============================================
 // CONSTANTS
@@ -55,6 +53,22 @@ function safeTruncate(text: string, maxLength: number): string {
     return truncated + '...';
 }
 
+/**
+ * Describe an image with the workspace's LLM provider (vision, cheaper model)
+ */
+async function describeImage(prompt: string, imageUrl: string, userId: string): Promise<string | null> {
+    const response = await callLLM([
+        {
+            role: "user",
+            content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: imageUrl } }
+            ]
+        }
+    ], { fast: true, maxTokens: VISION_MAX_TOKENS, userId });
+    return response.content || null;
+}
+
 /**
  * Fallback transcription using caption when real transcription fails
  */
@@ -153,19 +167,23 @@ interface SyncProgress {
 // ============================================
 // STEP 1: NUCLEAR CLEAN
 // ============================================
-async function nuclearClean(userId: string): Promise<{ mediaDeleted: number; interactionsDeleted: number }> {
-    console.log('[SYNC] Cleaning old data for user:', userId);
+async function nuclearClean(userId: string, accountId?: number): Promise<{ mediaDeleted: number; interactionsDeleted: number }> {
+    console.log('[SYNC] Cleaning old data for user:', userId, accountId ? `(account ${accountId})` : '');
 
-    // Delete ALL existing media for this user
+    // Delete ALL existing media for this user (only the synced account's when given)
     const mediaResult = await db
         .delete(mediaLibrary)
-        .where(eq(mediaLibrary.userId, userId))
+        .where(accountId
+            ? and(eq(mediaLibrary.userId, userId), eq(mediaLibrary.accountId, accountId))
+            : eq(mediaLibrary.userId, userId))
         .returning({ id: mediaLibrary.id });
 
-    // Delete ALL existing interactions for this user
+    // Delete ALL existing interactions for this user (only the synced account's when given)
     const interactionResult = await db
         .delete(interactionDialect)
-        .where(eq(interactionDialect.userId, userId))
+        .where(accountId
+            ? and(eq(interactionDialect.userId, userId), eq(interactionDialect.accountId, accountId))
+            : eq(interactionDialect.userId, userId))
         .returning({ id: interactionDialect.id });
 
     const mediaDeleted = mediaResult.length;
@@ -657,6 +675,7 @@ function findOwnerReply(
 // ============================================
 interface MediaEntry {
     userId: string;
+    accountId: number | null;
     instagramMediaId: string;
     caption: string | null;
     mediaType: string;
@@ -673,7 +692,8 @@ async function insertMediaAndInteractions(
     ownerUsername: string,
     ownerInstagramId: string,
     accessToken: string,
-    onProgress?: (progress: SyncProgress) => void
+    onProgress?: (progress: SyncProgress) => void,
+    accountId?: number
 ): Promise<{ mediaCount: number; interactionCount: number }> {
     let mediaCount = 0;
     let interactionCount = 0;
@@ -729,25 +749,9 @@ async function insertMediaAndInteractions(
             // For videos, also analyze thumbnail visually to complement audio transcription
             if (post.media_type === 'VIDEO' && (post.thumbnail_url || post.media_url)) {
                 try {
-                    const videoImageUrl = post.thumbnail_url || post.media_url;
+                    const videoImageUrl = (post.thumbnail_url || post.media_url)!;
                     console.log(`[SYNC] Generating visual analysis of video thumbnail for post ${post.id}...`);
-                    const visionResponse = await openai.chat.completions.create({
-                        model: "gpt-4o-mini",
-                        messages: [
-                            {
-                                role: "user",
-                                content: [
-                                    {
-                                        type: "text",
-                                        text: VISION_ANALYSIS_PROMPT_VIDEO
-                                    },
-                                    { type: "image_url", image_url: { url: videoImageUrl } }
-                                ]
-                            }
-                        ],
-                        max_tokens: VISION_MAX_TOKENS,
-                    });
-                    imageDescription = visionResponse.choices[0]?.message?.content || null;
+                    imageDescription = await describeImage(VISION_ANALYSIS_PROMPT_VIDEO, videoImageUrl, userId);
 
                     if (imageDescription) {
                         console.log(`[SYNC] Video visual analysis result: ${imageDescription}`);
@@ -762,23 +766,7 @@ async function insertMediaAndInteractions(
             if (post.media_type === 'IMAGE' && post.media_url) {
                 try {
                     console.log(`[SYNC] Generating vision analysis for image ${post.id}...`);
-                    const visionResponse = await openai.chat.completions.create({
-                        model: "gpt-4o-mini",
-                        messages: [
-                            {
-                                role: "user",
-                                content: [
-                                    {
-                                        type: "text",
-                                        text: VISION_ANALYSIS_PROMPT_STANDARD
-                                    },
-                                    { type: "image_url", image_url: { url: post.media_url } }
-                                ]
-                            }
-                        ],
-                        max_tokens: VISION_MAX_TOKENS,
-                    });
-                    imageDescription = visionResponse.choices[0]?.message?.content || null;
+                    imageDescription = await describeImage(VISION_ANALYSIS_PROMPT_STANDARD, post.media_url, userId);
 
                     // CRITICAL: Append vision analysis to caption with visible prefix
                     if (imageDescription) {
@@ -805,23 +793,7 @@ async function insertMediaAndInteractions(
                             if (child.media_type === 'IMAGE' && child.media_url) {
                                 try {
                                     console.log(`[SYNC] Analyzing carousel slide ${i + 1}/${children.length}...`);
-                                    const visionResponse = await openai.chat.completions.create({
-                                        model: "gpt-4o-mini",
-                                        messages: [
-                                            {
-                                                role: "user",
-                                                content: [
-                                                    {
-                                                        type: "text",
-                                                        text: VISION_ANALYSIS_PROMPT_STANDARD
-                                                    },
-                                                    { type: "image_url", image_url: { url: child.media_url } }
-                                                ]
-                                            }
-                                        ],
-                                        max_tokens: VISION_MAX_TOKENS,
-                                    });
-                                    const childDescription = visionResponse.choices[0]?.message?.content || null;
+                                    const childDescription = await describeImage(VISION_ANALYSIS_PROMPT_STANDARD, child.media_url, userId);
                                     if (childDescription) {
                                         descriptions.push(`Slide ${i + 1}: ${childDescription}`);
                                     }
@@ -841,23 +813,7 @@ async function insertMediaAndInteractions(
                         console.log(`[SYNC] No carousel children found, using fallback to main media_url`);
                         if (post.media_url) {
                             try {
-                                const visionResponse = await openai.chat.completions.create({
-                                    model: "gpt-4o-mini",
-                                    messages: [
-                                        {
-                                            role: "user",
-                                            content: [
-                                                {
-                                                    type: "text",
-                                                    text: VISION_ANALYSIS_PROMPT_STANDARD
-                                                },
-                                                { type: "image_url", image_url: { url: post.media_url } }
-                                            ]
-                                        }
-                                    ],
-                                    max_tokens: VISION_MAX_TOKENS,
-                                });
-                                imageDescription = visionResponse.choices[0]?.message?.content || null;
+                                imageDescription = await describeImage(VISION_ANALYSIS_PROMPT_STANDARD, post.media_url, userId);
                                 if (imageDescription) {
                                     enrichedCaption = (post.caption || "") + `\n\n${VISION_ANALYSIS_PREFIX} ${imageDescription}`;
                                 }
@@ -874,6 +830,7 @@ async function insertMediaAndInteractions(
             // Insert the media entry with enriched caption
             const mediaEntry: MediaEntry = {
                 userId,
+                accountId: accountId ?? null,
                 instagramMediaId: post.id,
                 caption: enrichedCaption,
                 mediaType: post.media_type || 'IMAGE',
@@ -901,6 +858,7 @@ async function insertMediaAndInteractions(
             for (const interaction of interactions) {
                 await db.insert(interactionDialect).values({
                     userId,
+                    accountId: accountId ?? null,
                     mediaId: savedMedia.id, // Link to the post!
                     channelType: interaction.channelType,
                     senderName: interaction.senderName,
@@ -934,7 +892,8 @@ export async function syncInstagramProcessor(
     userId: string,
     accessToken: string,
     instagramAccountId: string,
-    onProgress?: (progress: SyncProgress) => void
+    onProgress?: (progress: SyncProgress) => void,
+    accountId?: number
 ): Promise<SyncResult> {
     console.log(`[SYNC] Starting synchronization for userId: ${userId}`);
     console.log(`[SYNC] 🔍 DEBUG - Owner Info: ID=${instagramAccountId}, Token Length=${accessToken.length}`);
@@ -966,7 +925,7 @@ export async function syncInstagramProcessor(
     // STEP 2: NUCLEAR CLEAN (AFTER TOKEN VERIFIED)
     // ========================================
     report("Limpando dados antigos...", 15);
-    const { mediaDeleted, interactionsDeleted } = await nuclearClean(userId);
+    const { mediaDeleted, interactionsDeleted } = await nuclearClean(userId, accountId);
     console.log('[SYNC] Post-clean verification:', { mediaDeleted, interactionsDeleted });
     // ========================================
     // STEP 3: FETCH WITH DEPTH
@@ -990,7 +949,8 @@ export async function syncInstagramProcessor(
         username,
         instagramAccountId,
         accessToken,
-        onProgress
+        onProgress,
+        accountId
     );
 
     // ========================================
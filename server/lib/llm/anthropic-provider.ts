@@ -0,0 +1,180 @@
+import {
+  LLMError,
+  type ChatCompletionMessageParam,
+  type ChatOptions,
+  type ChatResult,
+  type LLMProvider,
+  type MessageContent,
+  type ToolCall,
+} from "./types";
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+interface AnthropicProviderConfig {
+  apiKey?: string;
+  model: string;
+  fastModel: string;
+}
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+interface AnthropicResponse {
+  content?: ({ type: "text"; text: string } | { type: "tool_use"; id: string; name: string; input: unknown })[];
+  model?: string;
+  usage?: { input_tokens: number; output_tokens: number };
+  error?: { type: string; message: string };
+}
+
+function contentToBlocks(content: MessageContent | null | undefined): AnthropicBlock[] {
+  if (!content) return [];
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+
+  return content.map((part): AnthropicBlock => {
+    if (part.type === "text") return { type: "text", text: part.text };
+
+    const dataUrl = part.image_url.url.match(/^data:([^;]+);base64,(.+)$/);
+    return dataUrl
+      ? { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } }
+      : { type: "image", source: { type: "url", url: part.image_url.url } };
+  });
+}
+
+function textOf(content: MessageContent | null | undefined): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content.map(p => (p.type === "text" ? p.text : "")).join("\n");
+}
+
+// Anthropic takes the system prompt separately and requires strictly alternating roles
+function toAnthropicMessages(messages: ChatCompletionMessageParam[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      system.push(textOf(msg.content));
+      continue;
+    }
+
+    let role: AnthropicMessage["role"];
+    let blocks: AnthropicBlock[];
+    if (msg.role === "tool") {
+      role = "user";
+      blocks = [{ type: "tool_result", tool_use_id: msg.tool_call_id || "", content: textOf(msg.content) }];
+    } else if (msg.role === "assistant") {
+      role = "assistant";
+      blocks = contentToBlocks(msg.content);
+      for (const call of msg.tool_calls || []) {
+        let input: unknown = {};
+        try {
+          input = JSON.parse(call.function.arguments || "{}");
+        } catch {
+          // Keep an empty input for malformed arguments
+        }
+        blocks.push({ type: "tool_use", id: call.id, name: call.function.name, input });
+      }
+    } else {
+      role = "user";
+      blocks = contentToBlocks(msg.content);
+    }
+
+    if (blocks.length === 0) continue;
+    const last = converted[converted.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: converted };
+}
+
+// Claude has no JSON response format; the prompt asks for it and we cut the object out
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.substring(start, end + 1) : text;
+}
+
+export function createAnthropicProvider(config: AnthropicProviderConfig): LLMProvider {
+  return {
+    name: "anthropic",
+
+    async chat(messages: ChatCompletionMessageParam[], options: ChatOptions = {}): Promise<ChatResult> {
+      if (!config.apiKey) {
+        throw new LLMError("Missing env: ANTHROPIC_API_KEY", "MISSING_API_KEY");
+      }
+
+      const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+      const model = options.model || (options.fast ? config.fastModel : config.model);
+      const requestBody: Record<string, unknown> = {
+        model,
+        max_tokens: options.maxTokens ?? 1024,
+        messages: anthropicMessages,
+      };
+
+      const systemPrompt = options.jsonMode
+        ? `${system}\n\nResponda APENAS com um objeto JSON válido, sem texto antes ou depois.`
+        : system;
+      if (systemPrompt.trim()) requestBody.system = systemPrompt;
+      if (options.temperature !== undefined) requestBody.temperature = options.temperature;
+      if (options.tools && options.tools.length > 0) {
+        requestBody.tools = options.tools.map(t => ({
+          name: t.function.name,
+          description: t.function.description,
+          input_schema: t.function.parameters || { type: "object", properties: {} },
+        }));
+      }
+
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": config.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      const data = await response.json() as AnthropicResponse;
+      if (!response.ok) {
+        const message = data.error?.message || `HTTP ${response.status}`;
+        throw new LLMError(message, response.status === 429 ? "RATE_LIMIT" : "API_ERROR");
+      }
+
+      const text = (data.content || [])
+        .map(block => (block.type === "text" ? block.text : ""))
+        .join("");
+      const toolCalls: ToolCall[] = (data.content || [])
+        .filter((block): block is { type: "tool_use"; id: string; name: string; input: unknown } => block.type === "tool_use")
+        .map(block => ({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+
+      return {
+        message: {
+          role: "assistant",
+          content: options.jsonMode ? extractJsonObject(text) : (text || null),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        model: data.model || model,
+        usage: data.usage
+          ? { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens }
+          : undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import {
+  LLMError,
+  type ChatCompletionMessageParam,
+  type ChatOptions,
+  type ChatResult,
+  type LLMProvider,
+  type MessageContent,
+  type ToolCall,
+} from "./types";
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+interface GeminiProviderConfig {
+  apiKey?: string;
+  model: string;
+  fastModel: string;
+  embeddingModel: string;
+}
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: unknown } }
+  | { functionResponse: { name: string; response: { content: string } } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: GeminiPart[] } }[];
+  embedding?: { values: number[] };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  error?: { code: number; message: string; status?: string };
+}
+
+// Gemini only reads inline images, so remote URLs are downloaded first
+async function imageToInlineData(url: string): Promise<GeminiPart> {
+  const dataUrl = url.match(/^data:([^;]+);base64,(.+)$/);
+  if (dataUrl) {
+    return { inlineData: { mimeType: dataUrl[1], data: dataUrl[2] } };
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new LLMError(`Falha ao baixar imagem (HTTP ${response.status})`, "API_ERROR");
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return {
+    inlineData: {
+      mimeType: response.headers.get("content-type")?.split(";")[0] || "image/jpeg",
+      data: buffer.toString("base64"),
+    },
+  };
+}
+
+async function contentToParts(content: MessageContent | null | undefined): Promise<GeminiPart[]> {
+  if (!content) return [];
+  if (typeof content === "string") return content ? [{ text: content }] : [];
+
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    parts.push(part.type === "text" ? { text: part.text } : await imageToInlineData(part.image_url.url));
+  }
+  return parts;
+}
+
+function textOf(content: MessageContent | null | undefined): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content.map(p => (p.type === "text" ? p.text : "")).join("\n");
+}
+
+async function toGeminiContents(messages: ChatCompletionMessageParam[]): Promise<{ system: string; contents: GeminiContent[] }> {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  // Gemini answers tool calls by function name, not by call ID
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      system.push(textOf(msg.content));
+      continue;
+    }
+
+    let role: GeminiContent["role"];
+    let parts: GeminiPart[];
+    if (msg.role === "tool") {
+      role = "user";
+      parts = [{
+        functionResponse: {
+          name: toolNames.get(msg.tool_call_id || "") || msg.name || "tool",
+          response: { content: textOf(msg.content) },
+        },
+      }];
+    } else if (msg.role === "assistant") {
+      role = "model";
+      parts = await contentToParts(msg.content);
+      for (const call of msg.tool_calls || []) {
+        toolNames.set(call.id, call.function.name);
+        let args: unknown = {};
+        try {
+          args = JSON.parse(call.function.arguments || "{}");
+        } catch {
+          // Keep empty args for malformed arguments
+        }
+        parts.push({ functionCall: { name: call.function.name, args } });
+      }
+    } else {
+      role = "user";
+      parts = await contentToParts(msg.content);
+    }
+
+    if (parts.length === 0) continue;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return { system: system.join("\n\n"), contents };
+}
+
+export function createGeminiProvider(config: GeminiProviderConfig): LLMProvider {
+  async function request(model: string, method: string, body: unknown): Promise<GeminiResponse> {
+    if (!config.apiKey) {
+      throw new LLMError("Missing env: GEMINI_API_KEY ou GOOGLE_API_KEY", "MISSING_API_KEY");
+    }
+
+    const response = await fetch(`${GEMINI_API_URL}/${model}:${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": config.apiKey,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json() as GeminiResponse;
+    if (!response.ok) {
+      const message = data.error?.message || `HTTP ${response.status}`;
+      throw new LLMError(message, response.status === 429 ? "RATE_LIMIT" : "API_ERROR");
+    }
+    return data;
+  }
+
+  function readText(data: GeminiResponse): string {
+    return (data.candidates?.[0]?.content?.parts || [])
+      .map(part => ("text" in part ? part.text : ""))
+      .join("");
+  }
+
+  return {
+    name: "gemini",
+
+    async chat(messages: ChatCompletionMessageParam[], options: ChatOptions = {}): Promise<ChatResult> {
+      const { system, contents } = await toGeminiContents(messages);
+      const generationConfig: Record<string, unknown> = {
+        maxOutputTokens: options.maxTokens ?? 1024,
+      };
+      if (options.temperature !== undefined) generationConfig.temperature = options.temperature;
+      if (options.jsonMode) generationConfig.responseMimeType = "application/json";
+
+      const body: Record<string, unknown> = { contents, generationConfig };
+      if (system.trim()) body.systemInstruction = { parts: [{ text: system }] };
+      if (options.tools && options.tools.length > 0) {
+        body.tools = [{
+          functionDeclarations: options.tools.map(t => ({
+            name: t.function.name,
+            description: t.function.description,
+            parameters: t.function.parameters,
+          })),
+        }];
+      }
+
+      const model = options.model || (options.fast ? config.fastModel : config.model);
+      const data = await request(model, "generateContent", body);
+      const parts = data.candidates?.[0]?.content?.parts || [];
+      const toolCalls: ToolCall[] = parts
+        .filter((part): part is { functionCall: { name: string; args: unknown } } => "functionCall" in part)
+        .map((part, index) => ({
+          id: `call_${Date.now()}_${index}`,
+          type: "function",
+          function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+        }));
+
+      const text = readText(data);
+      return {
+        message: {
+          role: "assistant",
+          content: text || null,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        model,
+        usage: data.usageMetadata
+          ? {
+              promptTokens: data.usageMetadata.promptTokenCount || 0,
+              completionTokens: data.usageMetadata.candidatesTokenCount || 0,
+            }
+          : undefined,
+      };
+    },
+
+    async embed(text: string): Promise<number[]> {
+      const data = await request(config.embeddingModel, "embedContent", {
+        content: { parts: [{ text }] },
+      });
+      if (!data.embedding?.values) {
+        throw new LLMError("Invalid embedding response", "API_ERROR");
+      }
+      return data.embedding.values;
+    },
+
+    // Gemini has no dedicated speech endpoint; the audio goes inline to the chat model
+    async transcribe(file: Blob, _filename: string, language = "pt"): Promise<string> {
+      const data = Buffer.from(await file.arrayBuffer()).toString("base64");
+      const result = await request(config.fastModel, "generateContent", {
+        contents: [{
+          role: "user",
+          parts: [
+            { inlineData: { mimeType: file.type || "video/mp4", data } },
+            { text: `Transcreva literalmente a fala deste arquivo (idioma: ${language}). Responda apenas com a transcrição, ou com um texto vazio se não houver fala.` },
+          ],
+        }],
+      });
+      return readText(result);
+    },
+  };
+}
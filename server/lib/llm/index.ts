@@ -0,0 +1,229 @@
+import { storage } from "../../storage";
+import { getOpenAIConfig } from "../../utils/openai-config";
+import { createOpenAIProvider } from "./openai-provider";
+import { createAnthropicProvider } from "./anthropic-provider";
+import { createGeminiProvider } from "./gemini-provider";
+import { createMockProvider } from "./mock-provider";
+import {
+  LLMError,
+  type AssistantMessage,
+  type ChatCompletionMessageParam,
+  type ChatOptions,
+  type LLMProvider,
+  type LLMProviderName,
+  type TokenUsage,
+} from "./types";
+
+export * from "./types";
+
+export const LLM_PROVIDERS: { id: LLMProviderName; label: string; defaultModel: string }[] = [
+  { id: "openai", label: "OpenAI", defaultModel: "gpt-4o" },
+  { id: "anthropic", label: "Anthropic (Claude)", defaultModel: process.env.ANTHROPIC_MODEL || "claude-sonnet-4-20250514" },
+  { id: "gemini", label: "Google Gemini", defaultModel: process.env.GEMINI_MODEL || "gemini-2.0-flash" },
+  { id: "openai_compatible", label: "Servidor compatível com OpenAI (Ollama, llama.cpp)", defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1" },
+  { id: "mock", label: "Mock (testes, sem rede)", defaultModel: "mock" },
+];
+
+// Providers that can produce embeddings / transcriptions (Anthropic has neither)
+export const EMBEDDING_PROVIDERS: LLMProviderName[] = ["openai", "gemini", "openai_compatible", "mock"];
+export const TRANSCRIPTION_PROVIDERS: LLMProviderName[] = ["openai", "gemini", "openai_compatible", "mock"];
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === "string" && LLM_PROVIDERS.some(p => p.id === value);
+}
+
+interface ProviderOptions {
+  model?: string | null;
+  baseURL?: string | null;
+}
+
+function defaultModelFor(name: LLMProviderName): string {
+  return LLM_PROVIDERS.find(p => p.id === name)!.defaultModel;
+}
+
+export function createProvider(name: LLMProviderName, options: ProviderOptions = {}): LLMProvider {
+  const model = options.model || defaultModelFor(name);
+
+  switch (name) {
+    case "anthropic":
+      return createAnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        model,
+        fastModel: options.model || process.env.ANTHROPIC_FAST_MODEL || "claude-3-5-haiku-latest",
+      });
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY,
+        model,
+        fastModel: options.model || process.env.GEMINI_FAST_MODEL || "gemini-2.0-flash-lite",
+        embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || "text-embedding-004",
+      });
+    case "openai_compatible":
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        baseURL: (options.baseURL || process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1").replace(/\/+$/, ""),
+        model,
+        fastModel: model,
+        embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || "nomic-embed-text",
+        transcriptionModel: process.env.LOCAL_LLM_TRANSCRIPTION_MODEL || "whisper-1",
+        requireApiKey: false,
+      });
+    case "mock":
+      return createMockProvider();
+    case "openai":
+    default: {
+      const config = getOpenAIConfig();
+      return createOpenAIProvider({
+        name: "openai",
+        apiKey: config.apiKey,
+        baseURL: (config.baseURL || "https://api.openai.com/v1").replace(/\/+$/, ""),
+        model,
+        fastModel: options.model || "gpt-4o-mini",
+        embeddingModel: "text-embedding-3-small",
+        transcriptionModel: "whisper-1",
+        requireApiKey: true,
+      });
+    }
+  }
+}
+
+function envProvider(key: string): LLMProviderName | undefined {
+  const value = process.env[key];
+  return isLLMProviderName(value) ? value : undefined;
+}
+
+export interface LLMSelection {
+  provider: LLMProviderName;
+  model: string | null;    // null = provider default
+  source: "user" | "global" | "env" | "default";
+}
+
+// Per-user choice wins over the admin's global choice, then LLM_PROVIDER, then OpenAI
+export async function resolveLLMSelection(userId?: string): Promise<LLMSelection> {
+  if (userId) {
+    const user = await storage.getUser(userId);
+    if (isLLMProviderName(user?.aiProvider)) {
+      return { provider: user!.aiProvider, model: user!.aiModel || null, source: "user" };
+    }
+  }
+
+  const globalProvider = await storage.getSetting("global_aiProvider");
+  if (isLLMProviderName(globalProvider?.value)) {
+    const globalModel = await storage.getSetting("global_aiModel");
+    return { provider: globalProvider!.value, model: globalModel?.value || null, source: "global" };
+  }
+
+  const fromEnv = envProvider("LLM_PROVIDER");
+  if (fromEnv) {
+    return { provider: fromEnv, model: null, source: "env" };
+  }
+  return { provider: "openai", model: null, source: "default" };
+}
+
+async function getCompatibleBaseURL(): Promise<string | null> {
+  const setting = await storage.getSetting("global_aiBaseUrl");
+  return setting?.value || null;
+}
+
+export async function getLLMProvider(userId?: string): Promise<{ provider: LLMProvider; selection: LLMSelection }> {
+  const selection = await resolveLLMSelection(userId);
+  const baseURL = selection.provider === "openai_compatible" ? await getCompatibleBaseURL() : null;
+  return {
+    provider: createProvider(selection.provider, { model: selection.model, baseURL }),
+    selection,
+  };
+}
+
+// Embeddings and transcription are workspace-wide (stored vectors must share one model),
+// so they only follow the global setting. Providers without the capability fall back to OpenAI.
+async function resolveCapabilityProviderName(
+  settingKey: "global_embeddingProvider" | "global_transcriptionProvider",
+  envKey: string,
+  supported: LLMProviderName[]
+): Promise<LLMProviderName> {
+  const setting = await storage.getSetting(settingKey);
+  const name = (isLLMProviderName(setting?.value) ? setting!.value : undefined)
+    || envProvider(envKey)
+    || envProvider("LLM_PROVIDER")
+    || "openai";
+  return supported.includes(name) ? name : "openai";
+}
+
+async function createCapabilityProvider(name: LLMProviderName): Promise<LLMProvider> {
+  const baseURL = name === "openai_compatible" ? await getCompatibleBaseURL() : null;
+  return createProvider(name, { baseURL });
+}
+
+// Stored vectors are tagged with this name so a provider switch marks them stale
+export async function resolveEmbeddingProviderName(): Promise<LLMProviderName> {
+  return resolveCapabilityProviderName("global_embeddingProvider", "LLM_EMBEDDING_PROVIDER", EMBEDDING_PROVIDERS);
+}
+
+function isRetryable(error: unknown): boolean {
+  // Network failures surface as plain errors; API errors are LLMErrors
+  return !(error instanceof LLMError) || error.code === "RATE_LIMIT";
+}
+
+export interface LLMCallResult {
+  message: AssistantMessage;
+  provider: LLMProviderName;
+  model: string;
+  usage?: TokenUsage;
+  latencyMs: number;
+}
+
+// Single entry point for chat completions (text, JSON mode, vision and tool calls)
+export async function callLLM(
+  messages: ChatCompletionMessageParam[],
+  options: ChatOptions & { userId?: string } = {}
+): Promise<AssistantMessage> {
+  return (await callLLMDetailed(messages, options)).message;
+}
+
+// Same as callLLM, plus which model answered, token usage and latency (for generation traces)
+export async function callLLMDetailed(
+  messages: ChatCompletionMessageParam[],
+  options: ChatOptions & { userId?: string } = {}
+): Promise<LLMCallResult> {
+  const { userId, ...chatOptions } = options;
+  const { provider, selection } = await getLLMProvider(userId);
+  const model = chatOptions.model || selection.model || (chatOptions.fast ? "default (fast)" : defaultModelFor(selection.provider));
+
+  console.log(`[LLM] Calling provider=${provider.name} model=${model} (source: ${selection.source})`);
+  const startTime = Date.now();
+
+  let lastError: unknown = null;
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      const result = await provider.chat(messages, chatOptions);
+      const latencyMs = Date.now() - startTime;
+      console.log(`[LLM] Response OK (${latencyMs}ms), content length: ${result.message.content?.length || 0}`);
+      return { ...result, provider: provider.name, latencyMs };
+    } catch (err) {
+      lastError = err;
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      console.error(`[LLM] ${provider.name} request failed (${Date.now() - startTime}ms), attempt ${attempt}/3: ${errorMessage}`);
+
+      if (!isRetryable(err)) throw err;
+      if (attempt < 3) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  if (lastError instanceof LLMError) throw lastError;
+  throw new LLMError(lastError instanceof Error ? lastError.message : "Failed after 3 attempts", "API_ERROR");
+}
+
+export async function embedText(text: string, providerName?: LLMProviderName): Promise<number[]> {
+  const provider = await createCapabilityProvider(providerName || await resolveEmbeddingProviderName());
+  return provider.embed!(text);
+}
+
+export async function transcribeAudio(file: Blob, filename: string, language?: string): Promise<string> {
+  const provider = await createCapabilityProvider(
+    await resolveCapabilityProviderName("global_transcriptionProvider", "LLM_TRANSCRIPTION_PROVIDER", TRANSCRIPTION_PROVIDERS)
+  );
+  return provider.transcribe!(file, filename, language);
+}
@@ -0,0 +1,53 @@
+import type {
+  ChatCompletionMessageParam,
+  ChatOptions,
+  ChatResult,
+  LLMProvider,
+} from "./types";
+
+const MOCK_EMBEDDING_DIMENSIONS = 1536; // Same size as text-embedding-3-small
+
+function lastUserText(messages: ChatCompletionMessageParam[]): string {
+  const last = [...messages].reverse().find(m => m.role === "user");
+  if (!last?.content) return "";
+  if (typeof last.content === "string") return last.content;
+  return last.content.map(p => (p.type === "text" ? p.text : "[imagem]")).join(" ");
+}
+
+// Offline provider for local development and tests: deterministic, no network, no key.
+// Embeddings are hashed bags of words, so texts sharing words still score as similar.
+export function createMockProvider(): LLMProvider {
+  return {
+    name: "mock",
+
+    async chat(messages: ChatCompletionMessageParam[], options: ChatOptions = {}): Promise<ChatResult> {
+      const input = lastUserText(messages).substring(0, 120);
+      const reply = `[mock] Resposta para: ${input}`;
+      return {
+        message: {
+          role: "assistant",
+          content: options.jsonMode
+            ? JSON.stringify({ response: reply, confidence: 0.9, reasoning: "[mock] resposta determinística" })
+            : reply,
+        },
+        model: "mock",
+      };
+    },
+
+    async embed(text: string): Promise<number[]> {
+      const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+          hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+      }
+      return vector;
+    },
+
+    async transcribe(): Promise<string> {
+      return "[mock] Transcrição de teste";
+    },
+  };
+}
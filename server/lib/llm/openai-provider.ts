@@ -0,0 +1,125 @@
+import {
+  LLMError,
+  type AssistantMessage,
+  type ChatCompletionMessageParam,
+  type ChatOptions,
+  type ChatResult,
+  type LLMProvider,
+  type LLMProviderName,
+} from "./types";
+
+interface OpenAIProviderConfig {
+  name: LLMProviderName;
+  apiKey?: string;
+  baseURL: string;
+  model: string;
+  fastModel: string;
+  embeddingModel: string;
+  transcriptionModel: string;
+  requireApiKey: boolean; // Local servers (Ollama, llama.cpp) usually run without a key
+}
+
+interface OpenAIChatResponse {
+  choices?: { message: AssistantMessage }[];
+  model?: string;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+  error?: { message: string; type?: string };
+}
+
+// Direct HTTP adapter for OpenAI and any server exposing the same API
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  function headers(json: boolean): Record<string, string> {
+    if (config.requireApiKey && !config.apiKey) {
+      throw new LLMError(
+        config.name === "openai"
+          ? "Missing env: OPENAI_API_KEY ou AI_INTEGRATIONS_OPENAI_API_KEY"
+          : `API key não configurada para ${config.name}`,
+        "MISSING_API_KEY"
+      );
+    }
+    const result: Record<string, string> = {};
+    if (json) result["Content-Type"] = "application/json";
+    if (config.apiKey) result["Authorization"] = `Bearer ${config.apiKey}`;
+    return result;
+  }
+
+  async function failFromResponse(response: Response): Promise<never> {
+    const text = await response.text();
+    let message = `HTTP ${response.status}`;
+    try {
+      message = (JSON.parse(text) as OpenAIChatResponse).error?.message || message;
+    } catch {
+      if (text) message = text.substring(0, 300);
+    }
+    throw new LLMError(message, response.status === 429 ? "RATE_LIMIT" : "API_ERROR");
+  }
+
+  return {
+    name: config.name,
+
+    async chat(messages: ChatCompletionMessageParam[], options: ChatOptions = {}): Promise<ChatResult> {
+      const model = options.model || (options.fast ? config.fastModel : config.model);
+      const requestBody: Record<string, unknown> = {
+        model,
+        messages,
+        max_tokens: options.maxTokens ?? 1024,
+      };
+      if (options.temperature !== undefined) requestBody.temperature = options.temperature;
+      if (options.jsonMode) requestBody.response_format = { type: "json_object" };
+      if (options.tools && options.tools.length > 0) requestBody.tools = options.tools;
+
+      const response = await fetch(`${config.baseURL}/chat/completions`, {
+        method: "POST",
+        headers: headers(true),
+        body: JSON.stringify(requestBody),
+      });
+      if (!response.ok) await failFromResponse(response);
+
+      const data = await response.json() as OpenAIChatResponse;
+      const message = data.choices?.[0]?.message;
+      if (!message) {
+        throw new LLMError(`No response message from ${config.name}`, "API_ERROR");
+      }
+      return {
+        message,
+        model: data.model || model,
+        usage: data.usage
+          ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    async embed(text: string): Promise<number[]> {
+      const response = await fetch(`${config.baseURL}/embeddings`, {
+        method: "POST",
+        headers: headers(true),
+        body: JSON.stringify({ model: config.embeddingModel, input: text, encoding_format: "float" }),
+      });
+      if (!response.ok) await failFromResponse(response);
+
+      const data = await response.json() as { data?: { embedding: number[] }[] };
+      const embedding = data.data?.[0]?.embedding;
+      if (!embedding) {
+        throw new LLMError("Invalid embedding response", "API_ERROR");
+      }
+      return embedding;
+    },
+
+    async transcribe(file: Blob, filename: string, language = "pt"): Promise<string> {
+      const formData = new FormData();
+      formData.append("file", file, filename);
+      formData.append("model", config.transcriptionModel);
+      formData.append("language", language);
+      formData.append("response_format", "text");
+
+      const response = await fetch(`${config.baseURL}/audio/transcriptions`, {
+        method: "POST",
+        headers: headers(false),
+        body: formData,
+      });
+      if (!response.ok) await failFromResponse(response);
+
+      return response.text();
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Provider-neutral LLM types.
+// Messages and tools use the OpenAI chat shape; each adapter converts to its own API.
+
+export type TextContent = {
+  type: "text";
+  text: string;
+};
+
+export type ImageContent = {
+  type: "image_url";
+  image_url: {
+    url: string;
+    detail?: "low" | "high" | "auto";
+  };
+};
+
+export type MessageContent = string | (TextContent | ImageContent)[];
+
+export type ChatCompletionMessageParam = {
+  role: "system" | "user" | "assistant" | "tool";
+  content?: MessageContent | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+  name?: string;
+};
+
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+export type Tool = {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;
+  };
+};
+
+export type AssistantMessage = {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: ToolCall[];
+};
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What an adapter returns: the message plus the model that actually answered.
+// Kept apart from the message so it can be appended to history untouched.
+export interface ChatResult {
+  message: AssistantMessage;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export type LLMProviderName = "openai" | "anthropic" | "gemini" | "openai_compatible" | "mock";
+
+export interface ChatOptions {
+  tools?: Tool[];
+  jsonMode?: boolean;     // Response must be a single JSON object
+  fast?: boolean;         // Prefer the provider's cheaper model (vision captions, prompt merges)
+  model?: string;         // Explicit model; overrides the provider defaults
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  chat(messages: ChatCompletionMessageParam[], options?: ChatOptions): Promise<ChatResult>;
+  embed?(text: string): Promise<number[]>;
+  transcribe?(file: Blob, filename: string, language?: string): Promise<string>;
+}
+
+// Structured error shared by every adapter
+export class LLMError extends Error {
+  code: "MISSING_API_KEY" | "API_ERROR" | "RATE_LIMIT" | "PARSE_ERROR";
+
+  constructor(message: string, code: LLMError["code"]) {
+    super(message);
+    this.name = "LLMError";
+    this.code = code;
+  }
+}
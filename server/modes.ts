@@ -1,7 +1,7 @@
-import { callOpenAI, ChatCompletionMessageParam, Tool, MessageContent, ImageContent, TextContent } from "./openai";
+import { callLLM, ChatCompletionMessageParam, Tool, MessageContent, ImageContent, TextContent } from "./lib/llm";
 import { storage } from "./storage";
 import { db } from "./db";
-import { aiDataset, instagramMessages, aiResponses, learningHistory, knowledgeLinks, knowledgeFiles, users, settings } from "@shared/schema";
+import { aiDataset, instagramMessages, aiResponses, learningHistory, knowledgeLinks, knowledgeFiles, users, settings, copilotChangeSchema, type CopilotChange } from "@shared/schema";
 import { eq, count, sql, and, gte, desc } from "drizzle-orm";
 import * as fs from "fs";
 import * as path from "path";
@@ -52,7 +52,7 @@ Regras para a recomendação:
 
 Se você está apenas fazendo perguntas de esclarecimento, conversando ou não tem uma instrução final, NÃO inclua este bloco JSON.`;
 
-export async function runArchitectAgent(history: ChatMessage[]): Promise<ArchitectResponse> {
+export async function runArchitectAgent(history: ChatMessage[], userId?: string): Promise<ArchitectResponse> {
   // Convert history to OpenAI format
   const messages: ChatCompletionMessageParam[] = [
     { role: "system", content: ARCHITECT_SYSTEM_PROMPT },
@@ -62,7 +62,7 @@ export async function runArchitectAgent(history: ChatMessage[]): Promise<Archite
     })),
   ];
 
-  const response = await callOpenAI(messages);
+  const response = await callLLM(messages, { userId });
   const content = response.content || "Desculpe, não consegui gerar uma resposta.";
 
   // Parse the metadata block if present
@@ -121,6 +121,14 @@ const COPILOT_SYSTEM_PROMPT = `Você é o Copiloto Técnico do Sistema de IA par
 
 ### ANÁLISE
 - **get_technical_suggestions**: Análise técnica e sugestões de melhorias
+- **get_guidelines**: Diretrizes (regras prioritárias) da conta, com IDs
+
+### PROPOSTAS DE ALTERAÇÃO (só valem depois que o usuário confirma)
+- **propose_add_guideline** / **propose_update_guideline**: criar ou editar uma diretriz
+- **propose_add_manual_qa**: adicionar uma correção de ouro (pergunta e resposta ideal)
+- **propose_update_system_prompt**: substituir o System Prompt inteiro
+- **propose_tag_contacts**: adicionar tags aos contatos que batem com um filtro
+- **propose_regenerate_drafts**: regenerar rascunhos pendentes da Fila de Aprovação
 
 ## ARQUITETURA DO SISTEMA
 - **Frontend**: React + TypeScript + TailwindCSS + Shadcn UI (client/src/)
@@ -147,7 +155,8 @@ const COPILOT_SYSTEM_PROMPT = `Você é o Copiloto Técnico do Sistema de IA par
 - Para contagens, use as ferramentas que retornam COUNT(*) real
 - Para dados específicos, use execute_sql com queries personalizadas
 - Seja preciso e técnico
-- Nunca invente números - sempre consulte as ferramentas`;
+- Nunca invente números - sempre consulte as ferramentas
+- Para mudar algo, use as ferramentas propose_*: nada é aplicado na hora. As propostas aparecem para o usuário como um conjunto de alterações com os botões Aplicar/Descartar. Diga o que foi proposto e nunca afirme que já foi aplicado`;
 
 const COPILOT_TOOLS: Tool[] = [
   // === FERRAMENTAS DE ACESSO TOTAL AO BANCO ===
@@ -318,8 +327,137 @@ const COPILOT_TOOLS: Tool[] = [
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "get_guidelines",
+      description: "Lista as diretrizes (regras prioritárias) da conta do usuário, com ID, prioridade, categoria e se estão ativas.",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: [],
+      },
+    },
+  },
+];
+
+// Second tier: each call only queues a change; the user confirms the set in the trainer
+const COPILOT_PROPOSAL_TOOLS: Tool[] = [
+  {
+    type: "function",
+    function: {
+      name: "propose_add_guideline",
+      description: "Propõe uma nova diretriz (regra prioritária que a IA sempre segue).",
+      parameters: {
+        type: "object",
+        properties: {
+          rule: { type: "string", description: "Texto da regra" },
+          priority: { type: "integer", description: "Prioridade de 1 a 5 (5 = mais importante). Padrão: 1" },
+          category: { type: "string", description: "Categoria: geral, politica, comportamento, marca..." },
+        },
+        required: ["rule"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_update_guideline",
+      description: "Propõe editar, repriorizar, ativar ou desativar uma diretriz existente (ID vindo de get_guidelines).",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "integer", description: "ID da diretriz" },
+          rule: { type: "string", description: "Novo texto da regra" },
+          priority: { type: "integer", description: "Nova prioridade de 1 a 5" },
+          isActive: { type: "boolean", description: "false para desativar, true para reativar" },
+        },
+        required: ["id"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_add_manual_qa",
+      description: "Propõe uma correção de ouro: a resposta ideal para uma pergunta que os seguidores fazem.",
+      parameters: {
+        type: "object",
+        properties: {
+          question: { type: "string", description: "Mensagem do seguidor" },
+          answer: { type: "string", description: "Resposta ideal" },
+        },
+        required: ["question", "answer"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_update_system_prompt",
+      description: "Propõe substituir o System Prompt da IA. Envie o prompt COMPLETO, não só o trecho alterado (o atual está em users.ai_context).",
+      parameters: {
+        type: "object",
+        properties: {
+          prompt: { type: "string", description: "Novo System Prompt completo" },
+        },
+        required: ["prompt"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_tag_contacts",
+      description: "Propõe adicionar tags a todos os contatos que batem com o filtro (mesmos critérios dos segmentos de contatos).",
+      parameters: {
+        type: "object",
+        properties: {
+          filter: {
+            type: "object",
+            description: "Filtro de contatos. Ao menos um critério.",
+            properties: {
+              q: { type: "string", description: "Nome, @username, e-mail, telefone ou notas" },
+              tags: { type: "array", items: { type: "string" }, description: "Contatos com qualquer uma destas tags" },
+              keywords: { type: "array", items: { type: "string" }, description: "Alguma mensagem do contato contém uma destas palavras" },
+              messageType: { type: "string", enum: ["dm", "comment"] },
+              activeWithinDays: { type: "integer", description: "Escreveu nos últimos N dias" },
+            },
+          },
+          tags: { type: "array", items: { type: "string" }, description: "Tags a adicionar (as atuais são mantidas)" },
+        },
+        required: ["filter", "tags"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "propose_regenerate_drafts",
+      description: "Propõe regenerar as sugestões da IA de mensagens pendentes na Fila de Aprovação (no máximo 20 por vez).",
+      parameters: {
+        type: "object",
+        properties: {
+          messageIds: { type: "array", items: { type: "integer" }, description: "IDs em instagram_messages (status pending)" },
+        },
+        required: ["messageIds"],
+      },
+    },
+  },
 ];
 
+const PROPOSAL_TYPES: Record<string, CopilotChange["type"]> = {
+  propose_add_guideline: "add_guideline",
+  propose_update_guideline: "update_guideline",
+  propose_add_manual_qa: "add_manual_qa",
+  propose_update_system_prompt: "update_system_prompt",
+  propose_tag_contacts: "tag_contacts",
+  propose_regenerate_drafts: "regenerate_drafts",
+};
+
+// Max changes in one proposal, so a runaway loop can't queue hundreds of edits
+const MAX_PROPOSED_CHANGES = 20;
+
 // ========== NOVAS FERRAMENTAS DE ACESSO TOTAL ==========
 
 // Executa SQL SELECT diretamente no banco
@@ -847,7 +985,50 @@ async function executeGetTechnicalSuggestions(): Promise<string> {
   }
 }
 
-export async function runCopilotAgent(history: ChatMessage[], userId: string, attachments?: string[]): Promise<string> {
+async function executeGetGuidelines(userId: string): Promise<string> {
+  try {
+    const guidelines = await storage.getGuidelines(userId);
+    return JSON.stringify({
+      total: guidelines.length,
+      guidelines: guidelines.map(g => ({
+        id: g.id,
+        rule: g.rule,
+        priority: g.priority,
+        category: g.category,
+        is_active: g.isActive,
+      })),
+    });
+  } catch (error) {
+    console.error("[Copilot] Error fetching guidelines:", error);
+    return JSON.stringify({ error: "Erro ao consultar as diretrizes", details: String(error) });
+  }
+}
+
+// Validates a proposal tool call and queues it; the tool result tells the model it is not applied yet
+function queueProposal(toolName: string, args: Record<string, unknown>, proposed: CopilotChange[]): string {
+  if (proposed.length >= MAX_PROPOSED_CHANGES) {
+    return JSON.stringify({ error: `Limite de ${MAX_PROPOSED_CHANGES} alterações por proposta atingido` });
+  }
+
+  const parsed = copilotChangeSchema.safeParse({ ...args, type: PROPOSAL_TYPES[toolName] });
+  if (!parsed.success) {
+    return JSON.stringify({ error: "Proposta inválida", details: parsed.error.flatten() });
+  }
+
+  proposed.push(parsed.data);
+  return JSON.stringify({
+    queued: true,
+    position: proposed.length,
+    status: "Aguardando confirmação do usuário - ainda NÃO foi aplicada",
+  });
+}
+
+export interface CopilotResponse {
+  response: string;
+  proposedChanges: CopilotChange[]; // Queued by the propose_* tools, for the caller to store as a change set
+}
+
+export async function runCopilotAgent(history: ChatMessage[], userId: string, attachments?: string[]): Promise<CopilotResponse> {
   const messages: ChatCompletionMessageParam[] = [
     { role: "system", content: COPILOT_SYSTEM_PROMPT },
     ...history.map((msg) => ({
@@ -921,9 +1102,11 @@ export async function runCopilotAgent(history: ChatMessage[], userId: string, at
     console.log("DEBUG PAYLOAD:", JSON.stringify(lastMsg.content, null, 2));
   }
 
+  const proposedChanges: CopilotChange[] = [];
+
   // Tool execution loop (max 10 turns to allow multiple tool calls)
   for (let i = 0; i < 10; i++) {
-    const response = await callOpenAI(messages, COPILOT_TOOLS);
+    const response = await callLLM(messages, { tools: [...COPILOT_TOOLS, ...COPILOT_PROPOSAL_TOOLS], userId });
 
     if (response.tool_calls && response.tool_calls.length > 0) {
       // Append the assistant's message with tool calls to history
@@ -978,6 +1161,18 @@ export async function runCopilotAgent(history: ChatMessage[], userId: string, at
             case "get_technical_suggestions":
               result = await executeGetTechnicalSuggestions();
               break;
+            case "get_guidelines":
+              result = await executeGetGuidelines(userId);
+              break;
+            // === PROPOSTAS (aplicadas só após confirmação) ===
+            case "propose_add_guideline":
+            case "propose_update_guideline":
+            case "propose_add_manual_qa":
+            case "propose_update_system_prompt":
+            case "propose_tag_contacts":
+            case "propose_regenerate_drafts":
+              result = queueProposal(toolCall.function.name, args, proposedChanges);
+              break;
             default:
               result = JSON.stringify({ error: `Ferramenta desconhecida: ${toolCall.function.name}` });
           }
@@ -996,9 +1191,9 @@ export async function runCopilotAgent(history: ChatMessage[], userId: string, at
       // Loop continues to get the final response from OpenAI based on tool outputs
     } else {
       // No tool calls, just return the content
-      return response.content || "Desculpe, não consegui gerar uma resposta.";
+      return { response: response.content || "Desculpe, não consegui gerar uma resposta.", proposedChanges };
     }
   }
 
-  return "Desculpe, excedi o limite de tentativas de processamento.";
+  return { response: "Desculpe, excedi o limite de tentativas de processamento.", proposedChanges };
 }
@@ -1,70 +1,17 @@
 import { storage } from "./storage";
-import { getOpenAIConfig } from "./utils/openai-config";
-import { generateEmbedding, cosineSimilarity } from "./utils/openai_embeddings";
-
-// Types for OpenAI API - supports both text and vision
-export type TextContent = {
-  type: "text";
-  text: string;
-};
-
-export type ImageContent = {
-  type: "image_url";
-  image_url: {
-    url: string;
-    detail?: "low" | "high" | "auto";
-  };
-};
-
-export type MessageContent = string | (TextContent | ImageContent)[];
-
-export type ChatCompletionMessageParam = {
-  role: "system" | "user" | "assistant" | "tool";
-  content?: MessageContent | null;
-  tool_calls?: ToolCall[];
-  tool_call_id?: string;
-  name?: string;
-};
-
-export type ToolCall = {
-  id: string;
-  type: "function";
-  function: {
-    name: string;
-    arguments: string;
-  };
-};
-
-export type Tool = {
-  type: "function";
-  function: {
-    name: string;
-    description?: string;
-    parameters?: Record<string, any>;
-  };
-};
-
-interface OpenAIResponse {
-  id: string;
-  choices: {
-    message: {
-      role: "assistant";
-      content: string | null;
-      tool_calls?: ToolCall[];
-    };
-  }[];
-  error?: {
-    message: string;
-    type: string;
-    code: string;
-  };
-}
+import { callLLMDetailed, LLMError, resolveEmbeddingProviderName, type LLMCallResult, type ChatCompletionMessageParam, type MessageContent, type TextContent, type ImageContent } from "./lib/llm";
+import { generateEmbedding } from "./utils/openai_embeddings";
+import { applySnippets, formatSnippetsContext, type SnippetContext } from "./utils/snippets";
+import { formatStoryContext, type StoryContext } from "./utils/story-context";
+import type { KnowledgeSource, TraceSection, TraceFewShot, Snippet, MessageIntent } from "@shared/schema";
 
 interface GenerateResponseResult {
   suggestedResponse: string;
   confidenceScore: number;
   error?: string;
   errorCode?: "MISSING_API_KEY" | "API_ERROR" | "RATE_LIMIT" | "PARSE_ERROR";
+  traceId?: number; // Generation trace of this suggestion (only when userId is known)
+  promptVersionId?: number; // Workspace prompt version used (none with the global/default prompt)
 }
 
 // Context for comments - includes post and parent comment information
@@ -88,235 +35,155 @@ export interface ConversationHistoryEntry {
   timestamp: Date;
 }
 
-function isRateLimitError(error: unknown): boolean {
-  const errorMsg = error instanceof Error ? error.message : String(error);
-  return (
-    errorMsg.includes("429") ||
-    errorMsg.includes("RATELIMIT_EXCEEDED") ||
-    errorMsg.toLowerCase().includes("quota") ||
-    errorMsg.toLowerCase().includes("rate limit")
-  );
+// What the team wrote down about the sender (contacts table)
+export interface ContactContext {
+  notes: string | null;
+  tags: string[];
 }
 
-// Custom error class for structured error handling
-export class OpenAIError extends Error {
-  code: "MISSING_API_KEY" | "API_ERROR" | "RATE_LIMIT" | "PARSE_ERROR";
-  
-  constructor(message: string, code: OpenAIError["code"]) {
-    super(message);
-    this.name = "OpenAIError";
-    this.code = code;
-  }
+// Evaluation runs and A/B challengers: a system prompt used without saving it. Evaluation runs also
+// keep golden corrections out of the prompt when the case under test was made from them (or the
+// model sees the answer)
+export interface GenerationOverrides {
+  systemPrompt?: string;
+  excludeManualQAIds?: number[];
 }
 
-// Direct HTTP call to OpenAI API - no SDK needed, works in any environment
-export async function callOpenAI(
-  messages: ChatCompletionMessageParam[],
-  tools?: Tool[],
-  responseFormat?: { type: "json_object" | "text" }
-): Promise<OpenAIResponse["choices"][0]["message"]> {
-  const config = getOpenAIConfig();
-  
-  // Log API configuration for debugging (safe - no secrets)
-  const hasApiKey = !!config.apiKey;
-  const isProduction = process.env.NODE_ENV === "production";
-  const apiKeyPreview = config.apiKey ? `${config.apiKey.substring(0, 10)}...` : "none";
-  
-  console.log(
-    `[OpenAI] Environment: ${isProduction ? "PRODUCTION" : "DEVELOPMENT"}, ` +
-    `API Key=${hasApiKey ? "YES" : "NO"} (${apiKeyPreview}, source: ${config.apiKeySource || "none"}), ` +
-    `Base URL=${config.baseURL || "https://api.openai.com/v1"} (source: ${config.baseURLSource || "default"})`
-  );
-  
-  if (!hasApiKey) {
-    console.error("[OpenAI] CRITICAL: No API key configured. Check Secrets in Deployment settings.");
-    throw new OpenAIError(
-      "Missing env: OPENAI_API_KEY ou AI_INTEGRATIONS_OPENAI_API_KEY",
-      "MISSING_API_KEY"
-    );
-  }
-
-  const baseURL = config.baseURL || "https://api.openai.com/v1";
-  const url = `${baseURL}/chat/completions`;
-  
-  const requestBody: any = {
-    model: "gpt-4o",
-    messages,
-    max_tokens: 1024,
-  };
-
-  if (responseFormat) {
-    requestBody.response_format = responseFormat;
-  }
-
-  if (tools && tools.length > 0) {
-    requestBody.tools = tools;
-  }
+// Per-message inputs beyond the text and thread: snippets and variable values, the story a DM
+// points at, the team's notes on the sender and prompt overrides
+export interface GenerationContext {
+  snippets?: SnippetContext;
+  story?: StoryContext;
+  contact?: ContactContext;
+  overrides?: GenerationOverrides;
+}
 
-  console.log("[OpenAI] Calling API with model: gpt-4o via direct HTTP");
-  const startTime = Date.now();
+function formatContactSection(contact?: ContactContext): string {
+  if (!contact || (!contact.notes && contact.tags.length === 0)) return "";
+  const lines: string[] = [];
+  if (contact.tags.length > 0) lines.push(`Tags: ${contact.tags.join(", ")}`);
+  if (contact.notes) lines.push(`Anotações: ${contact.notes}`);
 
-  // Retry logic
-  let lastError: Error | null = null;
-  for (let attempt = 1; attempt <= 3; attempt++) {
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${config.apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
-      });
+  return `
+═══════════════════════════════════════════════════════
+SOBRE ESTA PESSOA (anotações da equipe):
+${lines.join("\n")}
+═══════════════════════════════════════════════════════
 
-      const latency = Date.now() - startTime;
-      const data = await response.json() as OpenAIResponse;
+IMPORTANTE: Use estas informações para personalizar a resposta, mas nunca mencione que existem anotações sobre a pessoa.
 
-      if (!response.ok) {
-        const errorMessage = data.error?.message || `HTTP ${response.status}`;
-        const errorType = data.error?.type || "unknown";
-        console.error(`[OpenAI] API Error (${latency}ms): status=${response.status}, type=${errorType}, message=${errorMessage}`);
-        
-        if (response.status === 429) {
-          // Rate limit - wait and retry
-          console.log(`[OpenAI] Rate limit hit, attempt ${attempt}/3, waiting...`);
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-          lastError = new Error(errorMessage);
-          continue;
-        }
-        
-        throw new OpenAIError(errorMessage, "API_ERROR");
-      }
+`;
+}
 
-      const message = data.choices?.[0]?.message;
-      console.log(`[OpenAI] Response OK (${latency}ms), content length: ${message?.content?.length || 0}`);
-      
-      if (!message) {
-        throw new OpenAIError("No response message from OpenAI", "API_ERROR");
-      }
-      
-      return message;
-    } catch (err: any) {
-      const latency = Date.now() - startTime;
-      
-      if (err instanceof OpenAIError) {
-        throw err;
-      }
-      
-      console.error(`[OpenAI] Request failed (${latency}ms), attempt ${attempt}/3:`, err.message || err);
-      lastError = err;
-      
-      if (attempt < 3) {
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-      }
-    }
+// Version row of the workspace prompt just loaded; prompts written before versioning have none
+async function resolvePromptVersionId(userId: string, prompt: string): Promise<number | undefined> {
+  try {
+    const latest = await storage.getLatestPromptVersion(userId);
+    return latest && latest.content === prompt ? latest.id : undefined;
+  } catch (err) {
+    console.error("[OpenAI] Error resolving prompt version:", err);
+    return undefined;
   }
+}
 
-  throw lastError || new OpenAIError("Failed after 3 attempts", "API_ERROR");
+function isRateLimitError(error: unknown): boolean {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  return (
+    errorMsg.includes("429") ||
+    errorMsg.includes("RATELIMIT_EXCEEDED") ||
+    errorMsg.toLowerCase().includes("quota") ||
+    errorMsg.toLowerCase().includes("rate limit")
+  );
 }
 
 // Enhanced retrieval with weighted scoring from all knowledge sources
 interface RetrievalExample {
+  id: number;
   question: string;
   answer: string;
   score: number;
-  source: "gold" | "media" | "interaction" | "dataset";
+  source: KnowledgeSource;
   weight: number; // Boost factor
 }
 
+// Boost per knowledge source: human corrections > real conversations > posts > legacy dataset
+const SOURCE_WEIGHTS: Record<KnowledgeSource, number> = {
+  gold: 2.0,
+  interaction: 1.5,
+  media: 1.2,
+  dataset: 1.0,
+};
+
+// Word-overlap thresholds for rows without a vector yet (the rules used before embeddings)
+const TEXT_ONLY_THRESHOLDS: Record<KnowledgeSource, number> = {
+  gold: 0.3, // Lower so more gold examples are included
+  dataset: 0.6,
+  media: 0.4,
+  interaction: 0.5,
+};
+
+// Hybrid relevance = vector similarity blended with word overlap (keeps exact-term matches on top)
+const VECTOR_SCORE_SHARE = 0.8;
+const MIN_HYBRID_SCORE = 0.45;
+const NEAREST_NEIGHBOURS = 40; // Vector candidates fetched before weighting
+
 async function retrieveRelevantExamples(
   queryText: string,
   userId: string,
   limit: number = 5
-): Promise<RetrievalExample[]> {
+): Promise<(RetrievalExample & { finalScore: number })[]> {
   try {
-    const queryEmbedding = await generateEmbedding(queryText);
     const examples: RetrievalExample[] = [];
+    const seen = new Set<string>();
 
-    // 1. Retrieve from Manual Q&A (Gold entries - highest weight)
+    // 1. Nearest neighbours from the vector index (pgvector, or in-process when unavailable)
+    let provider: string | null = null;
     try {
-      const manualQA = await storage.getManualQA(userId);
-      for (const qa of manualQA) {
-        // For now, we'll use text similarity since manualQA doesn't have embeddings yet
-        // In future, we could add embeddings to manualQA table
-        const simpleScore = calculateTextSimilarity(queryText, qa.question);
-        // Gold items use 0.3 threshold (lower than dataset 0.6) to ensure more gold examples are included
-        if (simpleScore > 0.3) {
+      provider = await resolveEmbeddingProviderName();
+      const queryEmbedding = await generateEmbedding(queryText);
+      const matches = await storage.findNearestKnowledge(userId, provider, queryEmbedding, NEAREST_NEIGHBOURS);
+      const candidates = await storage.getKnowledgeCandidates(matches);
+
+      for (const candidate of candidates) {
+        const textScore = calculateTextSimilarity(queryText, candidate.matchText);
+        const score = VECTOR_SCORE_SHARE * (candidate.similarity ?? 0) + (1 - VECTOR_SCORE_SHARE) * textScore;
+        seen.add(`${candidate.source}:${candidate.id}`);
+        if (score > MIN_HYBRID_SCORE) {
           examples.push({
-            question: qa.question,
-            answer: qa.answer,
-            score: simpleScore,
-            source: "gold",
-            weight: 2.0 // 2x weight for gold entries
+            id: candidate.id,
+            question: candidate.question,
+            answer: candidate.answer,
+            score,
+            source: candidate.source,
+            weight: SOURCE_WEIGHTS[candidate.source],
           });
         }
       }
     } catch (err) {
-      console.error("[Retrieval] Error loading manual QA:", err);
+      // Without a query vector every row is scored by word overlap below
+      console.error("[Retrieval] Vector search unavailable, using text similarity only:", err);
+      provider = null;
     }
 
-    // 2. Retrieve from AI Dataset (with embeddings)
+    // 2. Rows not embedded yet (new or still being backfilled) fall back to word overlap
     try {
-      const dataset = await storage.getDataset(userId);
-      for (const entry of dataset) {
-        if (entry.embedding) {
-          const vec = entry.embedding as number[];
-          const score = cosineSimilarity(queryEmbedding, vec);
-          if (score > 0.6) {
-            examples.push({
-              question: entry.question,
-              answer: entry.answer,
-              score,
-              source: "dataset",
-              weight: 1.0 // Standard weight
-            });
-          }
-        }
-      }
-    } catch (err) {
-      console.error("[Retrieval] Error loading dataset:", err);
-    }
-
-    // 3. Retrieve from Media Library (posts with captions)
-    try {
-      const mediaLibrary = await storage.getMediaLibrary(userId);
-      for (const media of mediaLibrary) {
-        if (media.caption) {
-          const simpleScore = calculateTextSimilarity(queryText, media.caption);
-          if (simpleScore > 0.4) {
-            examples.push({
-              question: `Sobre o post: ${media.caption.substring(0, 100)}...`,
-              answer: media.imageDescription || media.videoTranscription || media.caption,
-              score: simpleScore,
-              source: "media",
-              weight: 1.2 // Slightly higher weight for media context
-            });
-          }
-        }
-      }
-    } catch (err) {
-      console.error("[Retrieval] Error loading media library:", err);
-    }
-
-    // 4. Retrieve from Interaction Dialect (real conversations)
-    try {
-      const interactions = await storage.getInteractionDialect(userId);
-      for (const interaction of interactions) {
-        if (interaction.myResponse) {
-          const simpleScore = calculateTextSimilarity(queryText, interaction.userMessage);
-          if (simpleScore > 0.5) {
-            examples.push({
-              question: interaction.userMessage,
-              answer: interaction.myResponse,
-              score: simpleScore,
-              source: "interaction",
-              weight: 1.5 // Higher weight for real interactions
-            });
-          }
+      const unembedded = await storage.getUnembeddedKnowledge(userId, provider);
+      for (const candidate of unembedded) {
+        if (seen.has(`${candidate.source}:${candidate.id}`)) continue;
+        const score = calculateTextSimilarity(queryText, candidate.matchText);
+        if (score > TEXT_ONLY_THRESHOLDS[candidate.source]) {
+          examples.push({
+            id: candidate.id,
+            question: candidate.question,
+            answer: candidate.answer,
+            score,
+            source: candidate.source,
+            weight: SOURCE_WEIGHTS[candidate.source],
+          });
         }
       }
     } catch (err) {
-      console.error("[Retrieval] Error loading interaction dialect:", err);
+      console.error("[Retrieval] Error loading unembedded knowledge:", err);
     }
 
     // Calculate weighted scores and sort
@@ -385,8 +252,8 @@ async function isTooSimilarToRecent(
   }
 }
 
-// Intent detection based on message content
-function detectMessageIntent(message: string): "question" | "complaint" | "praise" | "request" | "casual" | "urgent" {
+// Intent detection based on message content (also used by automation rule conditions)
+export function detectMessageIntent(message: string): MessageIntent {
   const lowerMsg = message.toLowerCase();
   
   // Urgent indicators
@@ -476,6 +343,76 @@ function extractPersonalityTraits(interactions: any[]): string[] {
   return traits.length > 0 ? traits : ["Tom amigável e profissional", "Respostas claras e diretas"];
 }
 
+// ============================================
+// Generation traces (what the model saw for each suggestion)
+// ============================================
+
+// The model call behind a suggestion, captured for its trace
+interface TracedCall {
+  llm: LLMCallResult;
+  usedVision: boolean;
+  reasoning: string | null;
+}
+
+// No tokenizer dependency: ~4 characters per token is close enough to compare sections
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function traceSection(
+  key: string,
+  label: string,
+  content: string,
+  sources?: TraceSection["sources"]
+): TraceSection | null {
+  const trimmed = content.trim();
+  if (!trimmed) return null;
+  return {
+    key,
+    label,
+    content: trimmed,
+    tokens: estimateTokens(trimmed),
+    ...(sources && sources.length > 0 ? { sources } : {}),
+  };
+}
+
+async function saveGenerationTrace(
+  userId: string | undefined,
+  kind: "generate" | "regenerate",
+  call: TracedCall | null,
+  details: {
+    sections: (TraceSection | null)[];
+    fewShot: TraceFewShot[];
+    userPrompt: string;
+    attempts: number;
+  }
+): Promise<number | undefined> {
+  if (!userId || !call) return undefined;
+
+  try {
+    const trace = await storage.createGenerationTrace({
+      userId,
+      kind,
+      provider: call.llm.provider,
+      model: call.llm.model,
+      latencyMs: call.llm.latencyMs,
+      promptTokens: call.llm.usage?.promptTokens ?? null,
+      completionTokens: call.llm.usage?.completionTokens ?? null,
+      sections: details.sections.filter((section): section is TraceSection => section !== null),
+      fewShot: details.fewShot,
+      userPrompt: details.userPrompt,
+      rawOutput: call.llm.message.content,
+      reasoning: call.reasoning,
+      usedVision: call.usedVision,
+      attempts: details.attempts,
+    });
+    return trace.id;
+  } catch (err) {
+    // A missing trace must never block the reply itself
+    console.error("[OpenAI] Error saving generation trace:", err);
+    return undefined;
+  }
+}
 
 export async function generateAIResponse(
   messageContent: string,
@@ -484,37 +421,61 @@ export async function generateAIResponse(
   userId?: string,
   commentContext?: CommentContext,
   conversationHistory?: ConversationHistoryEntry[],
-  attachments?: string[]
+  messageAttachments?: string[],
+  context: GenerationContext = {}
 ): Promise<GenerateResponseResult> {
+  const { snippets: snippetContext, story: storyContext, contact: contactContext, overrides } = context;
+  // The story image goes to vision like any other attachment
+  const attachments = storyContext?.imageUrl
+    ? [...(messageAttachments ?? []), storyContext.imageUrl]
+    : messageAttachments;
+
   // 1. Get System Prompt (Per-user or Global fallback)
-  let systemPrompt = "";
-  if (userId) {
+  let systemPrompt = overrides?.systemPrompt || "";
+  let systemPromptSource = systemPrompt ? "override" : "default";
+  if (userId && !systemPrompt) {
     const user = await storage.getUser(userId);
     if (user?.aiContext) {
       systemPrompt = user.aiContext;
+      systemPromptSource = "user";
     }
   }
 
   if (!systemPrompt) {
     const systemPromptSetting = await storage.getSetting("systemPrompt");
     systemPrompt = systemPromptSetting?.value || getDefaultSystemPrompt();
+    if (systemPromptSetting?.value) systemPromptSource = "global";
   }
+  const promptVersionId = userId && systemPromptSource === "user"
+    ? await resolvePromptVersionId(userId, systemPrompt)
+    : undefined;
 
   const learningHistory = await storage.getLearningHistory();
   const learningContext = formatLearningContext(learningHistory.slice(0, 10));
+  const learningSources = learningContext
+    ? learningHistory.slice(0, 5).map(entry => ({ source: "learning_history", id: entry.id }))
+    : [];
 
   // Fetch knowledge base context if userId is provided
   let knowledgeContext = "";
   let ragContext = ""; // New RAG context
   let guidelinesContext = ""; // Guidelines context
+  let knowledgeSources: TraceSection["sources"] = [];
+  let guidelineSources: TraceSection["sources"] = [];
+  let ragSources: TraceSection["sources"] = [];
+  let availableSnippets: Snippet[] = [];
+  let snippetsContext = "";
   
   // NEW: Golden Corrections will be added as few-shot examples in messages array
-  let goldenCorrections: Array<{ question: string; answer: string }> = [];
+  let goldenCorrections: TraceFewShot[] = [];
+  const excludedGolden = new Set(overrides?.excludeManualQAIds ?? []);
 
   if (userId) {
     // Fetch Knowledge Context (Links & Files)
     try {
-      knowledgeContext = await storage.getKnowledgeContext(userId);
+      const knowledge = await storage.getKnowledgeContextWithSources(userId);
+      knowledgeContext = knowledge.context;
+      knowledgeSources = knowledge.sources;
       if (knowledgeContext) {
         console.log(`[OpenAI] Knowledge context loaded for user ${userId}, length: ${knowledgeContext.length}`);
       }
@@ -527,10 +488,11 @@ export async function generateAIResponse(
       const guidelines = await storage.getGuidelines(userId);
       const activeGuidelines = guidelines.filter(g => g.isActive);
       if (activeGuidelines.length > 0) {
-        const guidelinesList = activeGuidelines
-          .sort((a, b) => b.priority - a.priority) // Higher priority first
+        const sortedGuidelines = activeGuidelines.sort((a, b) => b.priority - a.priority); // Higher priority first
+        const guidelinesList = sortedGuidelines
           .map((g, i) => `${i + 1}. ${g.rule}`)
           .join("\n");
+        guidelineSources = sortedGuidelines.map(g => ({ source: "user_guidelines", id: g.id }));
         
         guidelinesContext = `
 ═══════════════════════════════════════════════════════
@@ -548,13 +510,22 @@ do seu comportamento e nunca devem ser ignoradas.
       console.error("[OpenAI] Error loading guidelines:", err);
     }
 
+    // Fetch Snippets (approved texts the model references as {{snippet:name}})
+    try {
+      availableSnippets = await storage.getSnippets(userId, snippetContext?.accountId ?? undefined);
+      snippetsContext = formatSnippetsContext(availableSnippets);
+    } catch (err) {
+      console.error("[OpenAI] Error loading snippets:", err);
+    }
+
     // Fetch Golden Corrections (Manual Q&A) for few-shot examples
     try {
       // Note: getManualQA returns entries sorted by createdAt DESC (most recent first)
-      const manualQA = await storage.getManualQA(userId);
+      const manualQA = (await storage.getManualQA(userId)).filter(qa => !excludedGolden.has(qa.id));
       if (manualQA.length > 0) {
         // Use the 10 most recent golden corrections as few-shot examples
         goldenCorrections = manualQA.slice(0, 10).map(qa => ({
+          id: qa.id,
           question: qa.question,
           answer: qa.answer
         }));
@@ -566,9 +537,16 @@ do seu comportamento e nunca devem ser ignoradas.
 
     // ENHANCED RAG Logic - Retrieve from all knowledge sources with weighted scoring
     try {
-      const relevantExamples = await retrieveRelevantExamples(messageContent, userId, 5);
+      const relevantExamples = (await retrieveRelevantExamples(messageContent, userId, 5 + excludedGolden.size))
+        .filter(ex => !(ex.source === "gold" && excludedGolden.has(ex.id)))
+        .slice(0, 5);
       
       if (relevantExamples.length > 0) {
+        ragSources = relevantExamples.map(ex => ({
+          source: ex.source,
+          id: ex.id,
+          score: Math.round(ex.finalScore * 100) / 100,
+        }));
         const examplesList = relevantExamples.map((ex, i) => {
           const sourceLabel = {
             gold: "⭐ Ouro",
@@ -749,15 +727,20 @@ REGRAS DE GERAÇÃO DE RESPOSTA:
     }
   }
 
+  // Story mentions/replies: what the story was, so the reply doesn't ignore it
+  const storySection = storyContext ? formatStoryContext(storyContext) : "";
+  const contactSection = formatContactSection(contactContext);
+
   // Build the full system prompt with all knowledge sources
   const fullSystemPrompt = `${systemPrompt}
 
 ${guidelinesContext}
+${snippetsContext}
 ${styleIntentContext}
 ${knowledgeContext ? `\n${knowledgeContext}\n` : ""}
 ${ragContext}
 ${learningContext}
-${postContextSection}${conversationHistorySection}`;
+${postContextSection}${storySection}${contactSection}${conversationHistorySection}`;
 
   const userPrompt = `Agora, gere uma resposta para a seguinte mensagem:
 
@@ -778,6 +761,9 @@ A confiança deve ser um número entre 0 e 1, onde:
 - 0.5-0.69: Resposta incerta, melhor revisar com humano
 - Abaixo de 0.5: Muito incerto, precisa de revisão humana`;
 
+  // Last model call, kept for the generation trace
+  let tracedCall: TracedCall | null = null;
+
   // Helper function to make the actual API call
   async function makeAICall(useVision: boolean): Promise<GenerateResponseResult> {
     let userContent: MessageContent;
@@ -877,17 +863,15 @@ A confiança deve ser um número entre 0 e 1, onde:
     // Add the actual user message
     messages.push({ role: "user", content: userContent });
 
-    const message = await callOpenAI(
-      messages,
-      undefined, // tools
-      { type: "json_object" } // responseFormat
-    );
+    const llm = await callLLMDetailed(messages, { jsonMode: true, userId });
+    tracedCall = { llm, usedVision: !!shouldUseVision, reasoning: null };
 
-    const content = message.content;
+    const content = llm.message.content;
 
     let parsed;
     try {
       parsed = JSON.parse(content || "{}");
+      tracedCall.reasoning = typeof parsed.reasoning === "string" ? parsed.reasoning : null;
     } catch (parseErr) {
       console.error("[OpenAI] Failed to parse JSON response:", content?.substring(0, 200));
       return {
@@ -904,6 +888,31 @@ A confiança deve ser um número entre 0 e 1, onde:
     };
   }
 
+  // Attach the persisted trace to whatever the model produced
+  async function withTrace(generated: GenerateResponseResult, attempts: number): Promise<GenerateResponseResult> {
+    generated = applySnippets(generated, availableSnippets, snippetContext?.variables ?? {});
+    const traceId = await saveGenerationTrace(userId, "generate", tracedCall, {
+      sections: [
+        traceSection("system_prompt", "Prompt do sistema", systemPrompt, [{ source: "system_prompt", id: systemPromptSource }]),
+        traceSection("guidelines", "Diretrizes", guidelinesContext, guidelineSources),
+        traceSection("snippets", "Respostas prontas", snippetsContext, availableSnippets.map(s => ({ source: "snippets", id: s.id }))),
+        traceSection("style_intent", "Estilo e intenção", styleIntentContext),
+        traceSection("knowledge", "Base de conhecimento", knowledgeContext, knowledgeSources),
+        traceSection("rag", "Exemplos recuperados (RAG)", ragContext, ragSources),
+        traceSection("learning", "Correções recentes", learningContext, learningSources),
+        traceSection("post_context", "Contexto da publicação", postContextSection),
+        traceSection("story", "Contexto do story", storySection),
+        traceSection("contact", "Anotações do contato", contactSection),
+        traceSection("conversation_history", "Histórico da conversa", conversationHistorySection),
+      ],
+      fewShot: goldenCorrections,
+      userPrompt,
+      attempts,
+    });
+    if (promptVersionId) generated = { ...generated, promptVersionId };
+    return traceId ? { ...generated, traceId } : generated;
+  }
+
   try {
     // First attempt: try with vision if available
     const hasAttachments = attachments && attachments.length > 0;
@@ -927,7 +936,7 @@ A confiança deve ser um número entre 0 e 1, onde:
           console.log("[OpenAI] Retrying WITHOUT image (fallback to text-only)...");
           
           // Don't retry if it's a rate limit or missing API key error
-          if (visionError instanceof OpenAIError && 
+          if (visionError instanceof LLMError && 
               (visionError.code === "MISSING_API_KEY" || visionError.code === "RATE_LIMIT")) {
             throw visionError;
           }
@@ -953,19 +962,19 @@ A confiança deve ser um número entre 0 e 1, onde:
       }
       
       // Response is good or we've exhausted attempts
-      return result;
+      return await withTrace(result, attemptCount);
     }
     
     // If we exit the loop, return the last result (guaranteed to be defined after at least one iteration)
     console.log(`[Anti-Repetition] Exhausted regeneration attempts, returning last result`);
-    return result!; // Safe: loop always executes at least once
+    return await withTrace(result!, attemptCount); // Safe: loop always executes at least once
   } catch (error) {
     console.error("[OpenAI] Error generating AI response:");
     console.error("[OpenAI] Error type:", error?.constructor?.name);
     console.error("[OpenAI] Error message:", error instanceof Error ? error.message : String(error));
     
     // Return structured error
-    if (error instanceof OpenAIError) {
+    if (error instanceof LLMError) {
       return {
         suggestedResponse: "",
         confidenceScore: 0,
@@ -1035,33 +1044,48 @@ export async function regenerateResponse(
   previousSuggestion: string,
   userId?: string,
   commentContext?: CommentContext,
-  conversationHistory?: ConversationHistoryEntry[]
+  conversationHistory?: ConversationHistoryEntry[],
+  context: GenerationContext = {}
 ): Promise<GenerateResponseResult> {
+  // Golden corrections are only excluded by evaluation runs, which never regenerate
+  const { snippets: snippetContext, story: storyContext, contact: contactContext, overrides } = context;
   // 1. Get System Prompt (Per-user or Global fallback)
-  let systemPrompt = "";
-  if (userId) {
+  let systemPrompt = overrides?.systemPrompt || "";
+  let systemPromptSource = systemPrompt ? "override" : "default";
+  if (userId && !systemPrompt) {
     const user = await storage.getUser(userId);
     if (user?.aiContext) {
       systemPrompt = user.aiContext;
+      systemPromptSource = "user";
     }
   }
 
   if (!systemPrompt) {
     const systemPromptSetting = await storage.getSetting("systemPrompt");
     systemPrompt = systemPromptSetting?.value || getDefaultSystemPrompt();
+    if (systemPromptSetting?.value) systemPromptSource = "global";
   }
+  const promptVersionId = userId && systemPromptSource === "user"
+    ? await resolvePromptVersionId(userId, systemPrompt)
+    : undefined;
 
   // Fetch knowledge base context if userId is provided
   let knowledgeContext = "";
   let guidelinesContext = "";
+  let knowledgeSources: TraceSection["sources"] = [];
+  let guidelineSources: TraceSection["sources"] = [];
+  let availableSnippets: Snippet[] = [];
+  let snippetsContext = "";
   
   // NEW: Golden Corrections will be added as few-shot examples in messages array
-  let goldenCorrections: Array<{ question: string; answer: string }> = [];
+  let goldenCorrections: TraceFewShot[] = [];
   
   if (userId) {
     // Fetch Knowledge Context (Links & Files)
     try {
-      knowledgeContext = await storage.getKnowledgeContext(userId);
+      const knowledge = await storage.getKnowledgeContextWithSources(userId);
+      knowledgeContext = knowledge.context;
+      knowledgeSources = knowledge.sources;
     } catch (err) {
       console.error("[OpenAI] Regenerate: Error loading knowledge context:", err);
     }
@@ -1071,10 +1095,11 @@ export async function regenerateResponse(
       const guidelines = await storage.getGuidelines(userId);
       const activeGuidelines = guidelines.filter(g => g.isActive);
       if (activeGuidelines.length > 0) {
-        const guidelinesList = activeGuidelines
-          .sort((a, b) => b.priority - a.priority) // Higher priority first
+        const sortedGuidelines = activeGuidelines.sort((a, b) => b.priority - a.priority); // Higher priority first
+        const guidelinesList = sortedGuidelines
           .map((g, i) => `${i + 1}. ${g.rule}`)
           .join("\n");
+        guidelineSources = sortedGuidelines.map(g => ({ source: "user_guidelines", id: g.id }));
         
         guidelinesContext = `
 ═══════════════════════════════════════════════════════
@@ -1092,6 +1117,14 @@ do seu comportamento e nunca devem ser ignoradas.
       console.error("[OpenAI] Regenerate: Error loading guidelines:", err);
     }
 
+    // Fetch Snippets (approved texts the model references as {{snippet:name}})
+    try {
+      availableSnippets = await storage.getSnippets(userId, snippetContext?.accountId ?? undefined);
+      snippetsContext = formatSnippetsContext(availableSnippets);
+    } catch (err) {
+      console.error("[OpenAI] Regenerate: Error loading snippets:", err);
+    }
+
     // Fetch Golden Corrections (Manual Q&A) for few-shot examples
     try {
       // Note: getManualQA returns entries sorted by createdAt DESC (most recent first)
@@ -1099,6 +1132,7 @@ do seu comportamento e nunca devem ser ignoradas.
       if (manualQA.length > 0) {
         // Use the 10 most recent golden corrections as few-shot examples
         goldenCorrections = manualQA.slice(0, 10).map(qa => ({
+          id: qa.id,
           question: qa.question,
           answer: qa.answer
         }));
@@ -1141,9 +1175,9 @@ IMPORTANTE: Analise o histórico acima para:
 
   // Build context section for comments (with vision support for regenerate)
   let postContextSection = "";
-  let hasPostImageRegen = false;
+  let hasPostImageRegen = !!storyContext?.imageUrl; // DMs about a story send the story image instead
   let hasTranscriptionRegen = false;
-  const postImageUrlRegen = commentContext?.postThumbnailUrl;
+  const postImageUrlRegen = commentContext?.postThumbnailUrl || storyContext?.imageUrl || undefined;
   const postTranscriptionRegen = commentContext?.postVideoTranscription;
   
   if (messageType === "comment" && commentContext) {
@@ -1205,11 +1239,16 @@ ${contextPointsRegen.map((p, i) => `${i + 1}. ${p}`).join("\n")}
     }
   }
 
+  // Story mentions/replies: what the story was, so the reply doesn't ignore it
+  const storySection = storyContext ? formatStoryContext(storyContext) : "";
+  const contactSection = formatContactSection(contactContext);
+
   // Build the full system prompt with all knowledge sources
   const fullSystemPrompt = `${systemPrompt}
 ${guidelinesContext}
+${snippetsContext}
 ${knowledgeContext ? `\n${knowledgeContext}\n` : ""}
-${postContextSection}${conversationHistorySection}`;
+${postContextSection}${storySection}${contactSection}${conversationHistorySection}`;
 
   const userPrompt = `A resposta anterior foi rejeitada ou o usuário pediu uma nova sugestão.
 
@@ -1228,6 +1267,9 @@ Responda em formato JSON com a seguinte estrutura:
   "reasoning": "breve explicação"
 }`;
 
+  // Last model call, kept for the generation trace
+  let tracedCall: TracedCall | null = null;
+
   // Helper function to make the actual API call for regenerate
   async function makeRegenAICall(useVision: boolean): Promise<GenerateResponseResult> {
     let userContentRegen: MessageContent;
@@ -1273,17 +1315,15 @@ Responda em formato JSON com a seguinte estrutura:
     // Add the actual user message
     messagesRegen.push({ role: "user", content: userContentRegen });
 
-    const message = await callOpenAI(
-      messagesRegen,
-      undefined, // tools
-      { type: "json_object" } // responseFormat
-    );
+    const llm = await callLLMDetailed(messagesRegen, { jsonMode: true, userId });
+    tracedCall = { llm, usedVision: useVision && hasPostImageRegen, reasoning: null };
 
-    const content = message.content;
+    const content = llm.message.content;
 
     let parsed;
     try {
       parsed = JSON.parse(content || "{}");
+      tracedCall.reasoning = typeof parsed.reasoning === "string" ? parsed.reasoning : null;
     } catch (parseErr) {
       console.error("[OpenAI] Failed to parse regenerate JSON response");
       return {
@@ -1300,13 +1340,34 @@ Responda em formato JSON com a seguinte estrutura:
     };
   }
 
+  async function withTrace(generated: GenerateResponseResult): Promise<GenerateResponseResult> {
+    generated = applySnippets(generated, availableSnippets, snippetContext?.variables ?? {});
+    const traceId = await saveGenerationTrace(userId, "regenerate", tracedCall, {
+      sections: [
+        traceSection("system_prompt", "Prompt do sistema", systemPrompt, [{ source: "system_prompt", id: systemPromptSource }]),
+        traceSection("guidelines", "Diretrizes", guidelinesContext, guidelineSources),
+        traceSection("snippets", "Respostas prontas", snippetsContext, availableSnippets.map(s => ({ source: "snippets", id: s.id }))),
+        traceSection("knowledge", "Base de conhecimento", knowledgeContext, knowledgeSources),
+        traceSection("post_context", "Contexto da publicação", postContextSection),
+        traceSection("story", "Contexto do story", storySection),
+        traceSection("contact", "Anotações do contato", contactSection),
+        traceSection("conversation_history", "Histórico da conversa", conversationHistorySection),
+      ],
+      fewShot: goldenCorrections,
+      userPrompt,
+      attempts: 1,
+    });
+    if (promptVersionId) generated = { ...generated, promptVersionId };
+    return traceId ? { ...generated, traceId } : generated;
+  }
+
   try {
     // First attempt: try with vision if available
     const shouldTryVisionRegen = hasPostImageRegen && postImageUrlRegen;
     
     if (shouldTryVisionRegen) {
       try {
-        return await makeRegenAICall(true);
+        return await withTrace(await makeRegenAICall(true));
       } catch (visionError) {
         // Vision failed - likely expired image URL
         const errorMsg = visionError instanceof Error ? visionError.message : String(visionError);
@@ -1314,22 +1375,22 @@ Responda em formato JSON com a seguinte estrutura:
         console.log("[OpenAI] Regenerate: retrying WITHOUT image (fallback to text-only)...");
         
         // Don't retry if it's a rate limit or missing API key error
-        if (visionError instanceof OpenAIError && 
+        if (visionError instanceof LLMError && 
             (visionError.code === "MISSING_API_KEY" || visionError.code === "RATE_LIMIT")) {
           throw visionError;
         }
         
         // Retry without vision
-        return await makeRegenAICall(false);
+        return await withTrace(await makeRegenAICall(false));
       }
     } else {
       // No vision needed, just make a regular call
-      return await makeRegenAICall(false);
+      return await withTrace(await makeRegenAICall(false));
     }
   } catch (error) {
     console.error("[OpenAI] Error regenerating AI response:", error instanceof Error ? error.message : error);
     
-    if (error instanceof OpenAIError) {
+    if (error instanceof LLMError) {
       return {
         suggestedResponse: "",
         confidenceScore: 0,
@@ -0,0 +1,134 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext, getAssignableUserIds } from "../utils/auth-context";
+import { detectMessageIntent } from "../openai";
+import { planAutomation } from "../utils/automation-rules";
+import { automationRuleInputSchema, type AutomationAction } from "@shared/schema";
+
+const router = Router();
+
+// Dry run input for POST /api/automations/test
+const automationTestSchema = z.object({
+    text: z.string().max(2000),
+    type: z.enum(["dm", "comment"]).default("comment"),
+    postId: z.string().nullable().default(null),
+    followersCount: z.number().int().min(0).nullable().default(null),
+    firstContact: z.boolean().default(false),
+});
+
+// Checks the parts of a rule zod can't: the account and the assignee belong to the workspace
+async function validateRuleTargets(
+    userId: string,
+    data: { accountId?: number | null; actions?: AutomationAction[] }
+): Promise<string | null> {
+    if (data.accountId && !(await storage.getInstagramAccount(data.accountId, userId))) {
+        return "Account not found";
+    }
+    const assignees = (data.actions || []).flatMap(a => a.type === "assign" ? [a.userId] : []);
+    if (assignees.length > 0) {
+        const allowed = await getAssignableUserIds(userId);
+        if (assignees.some(id => !allowed.includes(id))) {
+            return "Assignee is not a member of this workspace";
+        }
+    }
+    return null;
+}
+
+// ============================================
+// Automation Rules API Endpoints
+// ============================================
+
+// GET /api/automations - Every rule of the workspace, in evaluation order
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const rules = await storage.getAutomationRules(userId);
+        res.json(rules);
+    } catch (error) {
+        console.error("Error fetching automation rules:", error);
+        res.status(500).json({ error: "Failed to fetch automation rules" });
+    }
+});
+
+// POST /api/automations - Create a rule
+router.post("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = automationRuleInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid rule", details: parsed.error.flatten() });
+        }
+
+        const invalid = await validateRuleTargets(userId, parsed.data);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const rule = await storage.createAutomationRule({ ...parsed.data, userId });
+        res.status(201).json(rule);
+    } catch (error) {
+        console.error("Error creating automation rule:", error);
+        res.status(500).json({ error: "Failed to create automation rule" });
+    }
+});
+
+// POST /api/automations/test - Which active rules a sample message would trigger (nothing is sent)
+router.post("/test", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, accountId } = await getUserContext(req);
+        const parsed = automationTestSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid test message", details: parsed.error.flatten() });
+        }
+
+        const { text, ...facts } = parsed.data;
+        const intent = detectMessageIntent(text);
+        const rules = await storage.getActiveAutomationRules(userId, accountId ?? null);
+        const plan = planAutomation(rules, { ...facts, text, intent });
+        res.json({ intent, ...plan, matchedRules: plan.matchedRules.map(r => ({ id: r.id, name: r.name })) });
+    } catch (error) {
+        console.error("Error testing automation rules:", error);
+        res.status(500).json({ error: "Failed to test automation rules" });
+    }
+});
+
+// PATCH /api/automations/:id - Edit a rule (also used to toggle isActive)
+router.patch("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = automationRuleInputSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid rule", details: parsed.error.flatten() });
+        }
+
+        const invalid = await validateRuleTargets(userId, parsed.data);
+        if (invalid) {
+            return res.status(400).json({ error: invalid });
+        }
+
+        const rule = await storage.updateAutomationRule(parseInt(req.params.id), userId, parsed.data);
+        if (!rule) {
+            return res.status(404).json({ error: "Rule not found" });
+        }
+        res.json(rule);
+    } catch (error) {
+        console.error("Error updating automation rule:", error);
+        res.status(500).json({ error: "Failed to update automation rule" });
+    }
+});
+
+// DELETE /api/automations/:id
+router.delete("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        await storage.deleteAutomationRule(parseInt(req.params.id), userId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting automation rule:", error);
+        res.status(500).json({ error: "Failed to delete automation rule" });
+    }
+});
+
+export default router;
@@ -3,10 +3,13 @@ import { storage } from "../storage";
 import { isAuthenticated, authStorage } from "../replit_integrations/auth";
 import { generateEmbedding } from "../utils/openai_embeddings";
 import { generateAIResponse } from "../openai";
+import { callLLM } from "../lib/llm";
 import { runArchitectAgent, runCopilotAgent } from "../modes";
 import { getUserContext } from "../utils/auth-context";
+import { snippetVariablesFor } from "../utils/snippets";
+import { simulatorChatHistory } from "../utils/simulator";
+import { saveSystemPrompt, rollbackSystemPrompt } from "../utils/prompt-versions";
 import { decrypt, isEncrypted } from "../encryption";
-import OpenAI from "openai";
 
 const router = Router();
 
@@ -224,7 +227,7 @@ router.post("/migrate-legacy", isAuthenticated, async (req, res) => {
 // POST /api/brain/merge-prompts - Merge new prompt with existing system prompt using AI
 router.post("/merge-prompts", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, actorUserId } = await getUserContext(req);
         const { newPrompt } = req.body;
 
         if (!newPrompt) {
@@ -233,9 +236,10 @@ router.post("/merge-prompts", isAuthenticated, async (req, res) => {
 
         console.log("[Merge Prompts] Starting merge for user:", userId);
 
-        // Get current settings to fetch existing system prompt
-        const allSettings = await storage.getSettings();
-        const currentPrompt = allSettings[`${userId}_aiContext`] || allSettings["global_aiContext"] || "";
+        // The prompt in use: the user's own, or the global default they inherit
+        const user = await storage.getUser(userId);
+        const globalPrompt = await storage.getSetting("global_aiContext");
+        const currentPrompt = user?.aiContext || globalPrompt?.value || "";
 
         console.log("[Merge Prompts] Current prompt length:", currentPrompt.length);
         console.log("[Merge Prompts] New prompt length:", newPrompt.length);
@@ -243,7 +247,7 @@ router.post("/merge-prompts", isAuthenticated, async (req, res) => {
         // If no current prompt, just save the new one
         if (!currentPrompt.trim()) {
             console.log("[Merge Prompts] No existing prompt, saving new prompt directly");
-            await storage.setSetting(`${userId}_aiContext`, newPrompt);
+            await saveSystemPrompt(userId, newPrompt, "merge", actorUserId);
             return res.json({ success: true, merged: newPrompt });
         }
 
@@ -271,23 +275,17 @@ ${newPrompt}
 
 Retorne APENAS o System Prompt mesclado, sem nenhum texto adicional.`;
 
-        const openai = new OpenAI();
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: mergeSystemPrompt },
-                { role: "user", content: "Mescle os dois prompts acima em um único System Prompt unificado." }
-            ],
-            max_tokens: 4000,
-            temperature: 0.3,
-        });
+        const response = await callLLM([
+            { role: "system", content: mergeSystemPrompt },
+            { role: "user", content: "Mescle os dois prompts acima em um único System Prompt unificado." }
+        ], { fast: true, maxTokens: 4000, temperature: 0.3, userId });
 
-        const mergedPrompt = response.choices[0]?.message?.content?.trim() || newPrompt;
+        const mergedPrompt = response.content?.trim() || newPrompt;
 
         console.log("[Merge Prompts] AI merged prompt successfully. Length:", mergedPrompt.length);
 
-        // Save the merged prompt
-        await storage.setSetting(`${userId}_aiContext`, mergedPrompt);
+        // Save the merged prompt (as a new prompt version)
+        await saveSystemPrompt(userId, mergedPrompt, "merge", actorUserId);
 
         console.log("[Merge Prompts] Saved merged prompt for user:", userId);
 
@@ -298,10 +296,42 @@ Retorne APENAS o System Prompt mesclado, sem nenhum texto adicional.`;
     }
 });
 
+const PROMPT_VERSION_HISTORY_LIMIT = 50;
+
+// GET /api/brain/prompt-versions - System prompt history, newest first (the first entry is the prompt in use)
+router.get("/prompt-versions", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const versions = await storage.getPromptVersions(userId, PROMPT_VERSION_HISTORY_LIMIT);
+        res.json(versions);
+    } catch (error) {
+        console.error("Error fetching prompt versions:", error);
+        res.status(500).json({ error: "Failed to fetch prompt versions" });
+    }
+});
+
+// POST /api/brain/prompt-versions/:id/rollback - Make an older version the prompt in use again
+router.post("/prompt-versions/:id/rollback", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const version = await rollbackSystemPrompt(userId, parseInt(req.params.id), actorUserId);
+        if (version === undefined) {
+            return res.status(404).json({ error: "Version not found" });
+        }
+        if (version === null) {
+            return res.status(409).json({ error: "This version is already the prompt in use" });
+        }
+        res.json(version);
+    } catch (error) {
+        console.error("Error rolling back prompt version:", error);
+        res.status(500).json({ error: "Failed to roll back prompt version" });
+    }
+});
+
 // POST /api/brain/simulate - Trainer/Simulator Endpoint
 router.post("/simulate", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, actorUserId, accountId } = await getUserContext(req);
         const { message, senderName, mode, history, postCaption, postImageUrl, attachments } = req.body;
 
         if (!message && mode !== "architect" && mode !== "copilot") {
@@ -312,7 +342,7 @@ router.post("/simulate", isAuthenticated, async (req, res) => {
         const currentMode = mode || "simulator";
 
         if (currentMode === "architect") {
-            const result = await runArchitectAgent(history || []);
+            const result = await runArchitectAgent(history || [], userId);
             return res.json({
                 response: result.response,
                 confidence: 1.0,
@@ -322,8 +352,20 @@ router.post("/simulate", isAuthenticated, async (req, res) => {
         }
 
         if (currentMode === "copilot") {
-            const response = await runCopilotAgent(history || [], userId, attachments);
-            return res.json({ response, confidence: 1.0 });
+            const { response, proposedChanges } = await runCopilotAgent(history || [], userId, attachments);
+            // Write tools only propose: the set waits for confirmation in the trainer
+            let changeSet = null;
+            if (proposedChanges.length > 0) {
+                const lastUserMessage = [...(history || [])].reverse().find((m: { role: string }) => m.role === "user");
+                changeSet = await storage.createCopilotChangeSet({
+                    userId,
+                    requestedBy: actorUserId,
+                    request: lastUserMessage?.content?.slice(0, 2000) ?? null,
+                    changes: proposedChanges,
+                });
+                console.log(`[Copilot] Change set ${changeSet.id} proposed with ${proposedChanges.length} change(s) for user ${userId}`);
+            }
+            return res.json({ response, confidence: 1.0, changeSet });
         }
 
         // Simulator Mode (Legacy)
@@ -342,8 +384,9 @@ router.post("/simulate", isAuthenticated, async (req, res) => {
             senderName || "Simulated User",
             userId,
             commentContext,
-            undefined, // No history for now (could add simple history later)
-            attachments
+            messageType === "dm" ? simulatorChatHistory(history, senderName || "Simulated User") : undefined,
+            attachments,
+            { snippets: { accountId, variables: snippetVariablesFor({ senderName: senderName || "Simulated User" }) } }
         );
 
         res.json({
@@ -364,12 +407,12 @@ router.post("/simulate", isAuthenticated, async (req, res) => {
 // GET /api/brain/knowledge/stats - Get counts for all 3 tables
 router.get("/knowledge/stats", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, accountId } = await getUserContext(req);
 
         const [manualQACount, mediaLibraryCount, interactionCount] = await Promise.all([
             storage.getManualQACount(userId),
-            storage.getMediaLibraryCount(userId),
-            storage.getInteractionDialectCount(userId),
+            storage.getMediaLibraryCount(userId, accountId),
+            storage.getInteractionDialectCount(userId, accountId),
         ]);
 
         res.json({
@@ -445,8 +488,8 @@ router.delete("/manual-qa/:id", isAuthenticated, async (req, res) => {
 // GET /api/brain/media-library - List all media library entries
 router.get("/media-library", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
-        const entries = await storage.getMediaLibrary(userId);
+        const { userId, accountId } = await getUserContext(req);
+        const entries = await storage.getMediaLibrary(userId, accountId);
         res.json(entries);
     } catch (error) {
         console.error("Error fetching media library:", error);
@@ -457,9 +500,9 @@ router.get("/media-library", isAuthenticated, async (req, res) => {
 // GET /api/brain/interaction-dialect - List all interaction dialect entries
 router.get("/interaction-dialect", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, accountId } = await getUserContext(req);
         const channelType = req.query.channelType as string | undefined;
-        const entries = await storage.getInteractionDialect(userId, channelType);
+        const entries = await storage.getInteractionDialect(userId, channelType, accountId);
         res.json(entries);
     } catch (error) {
         console.error("Error fetching interaction dialect:", error);
@@ -482,7 +525,7 @@ router.get("/sync-knowledge/progress", isAuthenticated, async (req, res) => {
 // POST /api/brain/sync-knowledge - Sync all knowledge from Instagram (with progress)
 router.post("/sync-knowledge", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, accountId } = await getUserContext(req);
 
         // Check if sync is already running
         const existingProgress = syncKnowledgeProgress.get(userId);
@@ -496,7 +539,15 @@ router.post("/sync-knowledge", isAuthenticated, async (req, res) => {
 
         const user = await authStorage.getUser(userId);
 
-        if (!user?.instagramAccessToken || !user?.instagramAccountId) {
+        // Sync the account selected in the UI, or the primary connection
+        const accounts = await storage.getInstagramAccounts(userId);
+        const account = accounts.find(a =>
+            accountId ? a.id === accountId : a.instagramAccountId === user?.instagramAccountId
+        );
+        const instagramAccountId = account?.instagramAccountId || user?.instagramAccountId;
+        const storedToken = account?.accessToken || user?.instagramAccessToken;
+
+        if (!storedToken || !instagramAccountId) {
             return res.status(400).json({
                 error: "Conecte sua conta Instagram primeiro",
                 code: "NOT_CONNECTED"
@@ -504,7 +555,7 @@ router.post("/sync-knowledge", isAuthenticated, async (req, res) => {
         }
 
         // Decrypt access token if needed
-        let accessToken = user.instagramAccessToken;
+        let accessToken = storedToken;
         if (isEncrypted(accessToken)) {
             accessToken = decrypt(accessToken);
         }
@@ -534,7 +585,9 @@ router.post("/sync-knowledge", isAuthenticated, async (req, res) => {
                 const result = await syncAllKnowledge(
                     userId,
                     accessToken,
-                    user.instagramAccountId
+                    instagramAccountId,
+                    undefined,
+                    account?.id
                 );
 
                 console.log(`[Brain Sync] ✅ Sincronização concluída: ${result.mediaCount} posts, ${result.interactionCount} interações`);
@@ -595,15 +648,15 @@ router.post("/sync-knowledge", isAuthenticated, async (req, res) => {
 // POST /api/brain/synthesize-identity - Generate personality from knowledge tables
 router.post("/synthesize-identity", isAuthenticated, async (req, res) => {
     try {
-        const { userId } = await getUserContext(req);
+        const { userId, actorUserId } = await getUserContext(req);
 
         // Import identity synthesizer
         const { synthesizeIdentity } = await import("../identity-synthesizer");
 
         const result = await synthesizeIdentity(userId);
 
-        // Save the generated system prompt to user settings
-        await storage.setSetting(`${userId}_aiContext`, result.systemPrompt);
+        // Save the generated system prompt (as a new prompt version)
+        await saveSystemPrompt(userId, result.systemPrompt, "synthesis", actorUserId);
 
         res.json({
             success: true,
@@ -817,18 +870,12 @@ Se a regra já estiver boa, confirme e sugira apenas pequenos ajustes se necess
 
 Responda em português brasileiro e seja colaborativo.`;
 
-        const openai = new OpenAI();
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o-mini",
-            messages: [
-                { role: "system", content: systemPrompt },
-                ...conversationHistory,
-            ],
-            max_tokens: 800,
-            temperature: 0.7,
-        });
+        const response = await callLLM([
+            { role: "system", content: systemPrompt },
+            ...conversationHistory,
+        ], { fast: true, maxTokens: 800, temperature: 0.7, userId });
 
-        const aiResponse = response.choices[0].message.content || "Desculpe, não consegui processar sua solicitação.";
+        const aiResponse = response.content || "Desculpe, não consegui processar sua solicitação.";
 
         res.json({
             response: aiResponse,
@@ -0,0 +1,213 @@
+import { Router, type Response } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { buildContactProfile } from "../utils/contact-profile";
+import { CONTACT_EXPORT_LIMIT, contactsToCsv } from "../utils/contact-export";
+import {
+    contactInputSchema,
+    contactSegmentFilterSchema,
+    contactSegmentInputSchema,
+    type ContactSegmentFilter,
+} from "@shared/schema";
+
+const router = Router();
+
+const CONTACT_LIST_LIMIT = 200;
+
+// Sends a contact list as a CSV or JSON download
+async function sendExport(res: Response, userId: string, filter: ContactSegmentFilter, format: unknown, baseName: string) {
+    const items = await storage.searchContacts(userId, filter, CONTACT_EXPORT_LIMIT);
+    const fileName = `${baseName.replace(/[^\w-]+/g, "-").toLowerCase() || "contatos"}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === "json") {
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}.json"`);
+        return res.json(items);
+    }
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}.csv"`);
+    res.send(contactsToCsv(items));
+}
+
+// ============================================
+// Contacts (profiles, tags, segments, export) API Endpoints
+// ============================================
+
+// GET /api/contacts - Contacts matching a filter (see contactSegmentFilterSchema), last seen first
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = contactSegmentFilterSchema.safeParse(req.query);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid filter", details: parsed.error.flatten() });
+        }
+
+        const contacts = await storage.searchContacts(userId, parsed.data, CONTACT_LIST_LIMIT);
+        res.json(contacts);
+    } catch (error) {
+        console.error("Error fetching contacts:", error);
+        res.status(500).json({ error: "Failed to fetch contacts" });
+    }
+});
+
+// GET /api/contacts/export - Same filter as the list, as a download (?format=csv|json)
+router.get("/export", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const { format, ...query } = req.query;
+        const parsed = contactSegmentFilterSchema.safeParse(query);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid filter", details: parsed.error.flatten() });
+        }
+
+        await sendExport(res, userId, parsed.data, format, "contatos");
+    } catch (error) {
+        console.error("Error exporting contacts:", error);
+        res.status(500).json({ error: "Failed to export contacts" });
+    }
+});
+
+// GET /api/contacts/segments - Saved segments of the workspace
+router.get("/segments", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const segments = await storage.getContactSegments(userId);
+        res.json(segments);
+    } catch (error) {
+        console.error("Error fetching contact segments:", error);
+        res.status(500).json({ error: "Failed to fetch contact segments" });
+    }
+});
+
+// POST /api/contacts/segments - Save a filter under a name
+router.post("/segments", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = contactSegmentInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid segment", details: parsed.error.flatten() });
+        }
+
+        const existing = await storage.getContactSegments(userId);
+        if (existing.some(s => s.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+            return res.status(409).json({ error: "A segment with this name already exists" });
+        }
+
+        const segment = await storage.createContactSegment(userId, parsed.data, actorUserId);
+        res.status(201).json(segment);
+    } catch (error) {
+        console.error("Error creating contact segment:", error);
+        res.status(500).json({ error: "Failed to create contact segment" });
+    }
+});
+
+// PATCH /api/contacts/segments/:id - Rename or change the filter
+router.patch("/segments/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const id = parseInt(req.params.id);
+        const parsed = contactSegmentInputSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid segment", details: parsed.error.flatten() });
+        }
+
+        if (parsed.data.name) {
+            const existing = await storage.getContactSegments(userId);
+            if (existing.some(s => s.id !== id && s.name.toLowerCase() === parsed.data.name!.toLowerCase())) {
+                return res.status(409).json({ error: "A segment with this name already exists" });
+            }
+        }
+
+        const segment = await storage.updateContactSegment(id, userId, parsed.data);
+        if (!segment) {
+            return res.status(404).json({ error: "Segment not found" });
+        }
+        res.json(segment);
+    } catch (error) {
+        console.error("Error updating contact segment:", error);
+        res.status(500).json({ error: "Failed to update contact segment" });
+    }
+});
+
+// DELETE /api/contacts/segments/:id
+router.delete("/segments/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const deleted = await storage.deleteContactSegment(parseInt(req.params.id), userId);
+        if (!deleted) {
+            return res.status(404).json({ error: "Segment not found" });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting contact segment:", error);
+        res.status(500).json({ error: "Failed to delete contact segment" });
+    }
+});
+
+// GET /api/contacts/segments/:id/export - Download a saved segment (?format=csv|json)
+router.get("/segments/:id/export", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const segment = await storage.getContactSegment(parseInt(req.params.id), userId);
+        if (!segment) {
+            return res.status(404).json({ error: "Segment not found" });
+        }
+
+        // Saved filters are re-validated: the schema may have changed since they were stored
+        const filter = contactSegmentFilterSchema.safeParse(segment.filter);
+        if (!filter.success) {
+            return res.status(400).json({ error: "Segment filter is no longer valid", details: filter.error.flatten() });
+        }
+
+        await sendExport(res, userId, filter.data, req.query.format, segment.name);
+    } catch (error) {
+        console.error("Error exporting contact segment:", error);
+        res.status(500).json({ error: "Failed to export contact segment" });
+    }
+});
+
+// GET /api/contacts/:igsid - Profile aggregated from every message of this person, plus team notes/tags
+router.get("/:igsid", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const profile = await buildContactProfile(userId, req.params.igsid);
+        if (!profile) {
+            return res.status(404).json({ error: "Contact not found" });
+        }
+        res.json(profile);
+    } catch (error) {
+        console.error("Error fetching contact profile:", error);
+        res.status(500).json({ error: "Failed to fetch contact profile" });
+    }
+});
+
+// PATCH /api/contacts/:igsid - Edit notes, tags, lead stage and fields (creates the contact if needed)
+router.patch("/:igsid", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = contactInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid contact", details: parsed.error.flatten() });
+        }
+
+        const igsid = req.params.igsid;
+        const [latest] = await storage.getContactMessages(userId, igsid, 1);
+        if (!latest && !(await storage.getContact(userId, igsid))) {
+            return res.status(404).json({ error: "Contact not found" });
+        }
+
+        const tags = parsed.data.tags ? Array.from(new Set(parsed.data.tags)) : undefined;
+        const contact = await storage.upsertContact(userId, igsid, {
+            ...parsed.data,
+            ...(tags ? { tags } : {}),
+            ...(latest ? { username: latest.senderUsername, name: latest.senderName } : {}),
+            updatedBy: actorUserId,
+        });
+        res.json(contact);
+    } catch (error) {
+        console.error("Error updating contact:", error);
+        res.status(500).json({ error: "Failed to update contact" });
+    }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext, getAssignableUserIds } from "../utils/auth-context";
+import { CONVERSATION_STATUSES, type ConversationStatus, type InsertDmConversation } from "@shared/schema";
+
+const router = Router();
+
+// ============================================
+// DM Conversation Threads API Endpoints
+// ============================================
+
+// GET /api/conversations - List threads (?status=open|snoozed|closed|all, ?assigned=me)
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId, accountId } = await getUserContext(req);
+        const statusParam = String(req.query.status || "open");
+        const status = CONVERSATION_STATUSES.includes(statusParam as ConversationStatus)
+            ? statusParam as ConversationStatus
+            : undefined;
+
+        const conversations = await storage.getConversations(userId, {
+            accountId,
+            status,
+            assignedTo: req.query.assigned === "me" ? actorUserId : undefined,
+        });
+        res.json(conversations);
+    } catch (error) {
+        console.error("Error fetching conversations:", error);
+        res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+});
+
+// GET /api/conversations/:id - Thread details with every message (oldest first)
+router.get("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const conversation = await storage.getConversation(parseInt(req.params.id), userId);
+        if (!conversation) {
+            return res.status(404).json({ error: "Conversation not found" });
+        }
+
+        const messages = await storage.getConversationMessages(conversation.id, userId);
+        // Comments whose private reply opened this thread, shown above it
+        const privateReplies = await storage.getPrivateRepliesForConversation(conversation.id, userId);
+        res.json({ conversation, messages, privateReplies });
+    } catch (error) {
+        console.error("Error fetching conversation:", error);
+        res.status(500).json({ error: "Failed to fetch conversation" });
+    }
+});
+
+// POST /api/conversations/:id/read - Reset the unread counter
+router.post("/:id/read", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        await storage.markConversationRead(parseInt(req.params.id), userId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error marking conversation as read:", error);
+        res.status(500).json({ error: "Failed to mark conversation as read" });
+    }
+});
+
+// PATCH /api/conversations/:id - Change status, snooze or assignee
+router.patch("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const { status, snoozedUntil, assignedTo } = req.body;
+        const updates: Partial<InsertDmConversation> = {};
+
+        if (status !== undefined) {
+            if (!CONVERSATION_STATUSES.includes(status)) {
+                return res.status(400).json({ error: "Invalid status" });
+            }
+            updates.status = status;
+            updates.snoozedUntil = null;
+
+            if (status === "snoozed") {
+                const until = new Date(snoozedUntil);
+                if (!snoozedUntil || isNaN(until.getTime()) || until <= new Date()) {
+                    return res.status(400).json({ error: "snoozedUntil must be a future date" });
+                }
+                updates.snoozedUntil = until;
+            }
+        }
+
+        if (assignedTo !== undefined) {
+            if (assignedTo !== null && !(await getAssignableUserIds(userId)).includes(assignedTo)) {
+                return res.status(400).json({ error: "Assignee is not a member of this workspace" });
+            }
+            updates.assignedTo = assignedTo;
+        }
+
+        const conversation = await storage.updateConversation(parseInt(req.params.id), userId, updates);
+        if (!conversation) {
+            return res.status(404).json({ error: "Conversation not found" });
+        }
+        res.json(conversation);
+    } catch (error) {
+        console.error("Error updating conversation:", error);
+        res.status(500).json({ error: "Failed to update conversation" });
+    }
+});
+
+export default router;
@@ -0,0 +1,319 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { executeEvalRun } from "../utils/eval-runner";
+import {
+    evalSuiteInputSchema,
+    evalCaseInputSchema,
+    evalImportSchema,
+    evalRunInputSchema,
+    type EvalComparison,
+    type InsertEvalCase,
+} from "@shared/schema";
+
+const router = Router();
+
+// Largest suite a run accepts, and how many runs of a suite may execute at once (a comparison starts two)
+const MAX_CASES_PER_RUN = 100;
+const MAX_RUNNING_PER_SUITE = 2;
+
+// ============================================
+// Evaluation Suites (golden sets) API Endpoints
+// ============================================
+
+// GET /api/evals/suites - Suites with their case count and latest run
+router.get("/suites", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        res.json(await storage.getEvalSuites(userId));
+    } catch (error) {
+        console.error("Error fetching eval suites:", error);
+        res.status(500).json({ error: "Failed to fetch eval suites" });
+    }
+});
+
+// POST /api/evals/suites
+router.post("/suites", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = evalSuiteInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid suite", details: parsed.error.flatten() });
+        }
+
+        const suite = await storage.createEvalSuite(userId, parsed.data, actorUserId);
+        res.status(201).json(suite);
+    } catch (error) {
+        console.error("Error creating eval suite:", error);
+        res.status(500).json({ error: "Failed to create eval suite" });
+    }
+});
+
+// GET /api/evals/suites/:id - The suite with its cases and runs (newest first)
+router.get("/suites/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        const [cases, runs] = await Promise.all([storage.getEvalCases(suite.id), storage.getEvalRuns(suite.id)]);
+        res.json({ suite, cases, runs });
+    } catch (error) {
+        console.error("Error fetching eval suite:", error);
+        res.status(500).json({ error: "Failed to fetch eval suite" });
+    }
+});
+
+// PATCH /api/evals/suites/:id
+router.patch("/suites/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = evalSuiteInputSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid suite", details: parsed.error.flatten() });
+        }
+
+        const suite = await storage.updateEvalSuite(parseInt(req.params.id), userId, parsed.data);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+        res.json(suite);
+    } catch (error) {
+        console.error("Error updating eval suite:", error);
+        res.status(500).json({ error: "Failed to update eval suite" });
+    }
+});
+
+// DELETE /api/evals/suites/:id - Also removes its cases, runs and results
+router.delete("/suites/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        await storage.deleteEvalSuite(parseInt(req.params.id), userId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting eval suite:", error);
+        res.status(500).json({ error: "Failed to delete eval suite" });
+    }
+});
+
+// POST /api/evals/suites/:id/cases - Hand-written case
+router.post("/suites/:id/cases", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        const parsed = evalCaseInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid case", details: parsed.error.flatten() });
+        }
+
+        const [evalCase] = await storage.createEvalCases([{ ...parsed.data, suiteId: suite.id, source: "manual" }]);
+        res.status(201).json(evalCase);
+    } catch (error) {
+        console.error("Error creating eval case:", error);
+        res.status(500).json({ error: "Failed to create eval case" });
+    }
+});
+
+// PATCH /api/evals/suites/:id/cases/:caseId
+router.patch("/suites/:id/cases/:caseId", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        const parsed = evalCaseInputSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid case", details: parsed.error.flatten() });
+        }
+
+        const evalCase = await storage.updateEvalCase(parseInt(req.params.caseId), suite.id, parsed.data);
+        if (!evalCase) {
+            return res.status(404).json({ error: "Case not found" });
+        }
+        res.json(evalCase);
+    } catch (error) {
+        console.error("Error updating eval case:", error);
+        res.status(500).json({ error: "Failed to update eval case" });
+    }
+});
+
+// DELETE /api/evals/suites/:id/cases/:caseId
+router.delete("/suites/:id/cases/:caseId", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        await storage.deleteEvalCase(parseInt(req.params.caseId), suite.id);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting eval case:", error);
+        res.status(500).json({ error: "Failed to delete eval case" });
+    }
+});
+
+// POST /api/evals/suites/:id/import - Cases from golden corrections (manual_qa) or approved replies,
+// most recent first, skipping rows the suite already has
+router.post("/suites/:id/import", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        const parsed = evalImportSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid import", details: parsed.error.flatten() });
+        }
+        const { source, limit } = parsed.data;
+
+        const existing = new Set(
+            (await storage.getEvalCases(suite.id)).filter(c => c.source === source).map(c => c.sourceId)
+        );
+
+        let candidates: InsertEvalCase[];
+        if (source === "manual_qa") {
+            candidates = (await storage.getManualQA(userId)).map(qa => ({
+                suiteId: suite.id,
+                message: qa.question,
+                goldenAnswer: qa.answer,
+                source,
+                sourceId: qa.id,
+            }));
+        } else {
+            // Over-fetch so already-imported replies don't eat into the limit
+            candidates = (await storage.getApprovedReplies(userId, limit + existing.size)).map(reply => ({
+                suiteId: suite.id,
+                message: reply.content,
+                messageType: reply.type,
+                senderName: reply.senderName,
+                postCaption: reply.type === "comment" ? reply.postCaption : null,
+                goldenAnswer: reply.reply,
+                source,
+                sourceId: reply.aiResponseId,
+            }));
+        }
+
+        const created = await storage.createEvalCases(
+            candidates.filter(c => !existing.has(c.sourceId ?? null)).slice(0, limit)
+        );
+        console.log(`[Evals] Imported ${created.length} cases from ${source} into suite ${suite.id}`);
+        res.status(201).json({ imported: created.length });
+    } catch (error) {
+        console.error("Error importing eval cases:", error);
+        res.status(500).json({ error: "Failed to import eval cases" });
+    }
+});
+
+// POST /api/evals/suites/:id/runs - Run the suite against a prompt version (202: runs in the background)
+router.post("/suites/:id/runs", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const suite = await storage.getEvalSuite(parseInt(req.params.id), userId);
+        if (!suite) {
+            return res.status(404).json({ error: "Suite not found" });
+        }
+
+        const parsed = evalRunInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid run", details: parsed.error.flatten() });
+        }
+
+        const cases = await storage.getEvalCases(suite.id);
+        if (cases.length === 0) {
+            return res.status(400).json({ error: "The suite has no cases" });
+        }
+        if (cases.length > MAX_CASES_PER_RUN) {
+            return res.status(400).json({ error: `A run takes at most ${MAX_CASES_PER_RUN} cases` });
+        }
+
+        const running = (await storage.getEvalRuns(suite.id)).filter(r => r.status === "running");
+        if (running.length >= MAX_RUNNING_PER_SUITE) {
+            return res.status(409).json({ error: "This suite already has runs in progress" });
+        }
+
+        const run = await storage.createEvalRun({
+            suiteId: suite.id,
+            userId,
+            label: parsed.data.label,
+            systemPrompt: parsed.data.systemPrompt ?? null,
+            caseCount: cases.length,
+            startedBy: actorUserId,
+        });
+
+        executeEvalRun(run, suite, cases).catch(err => console.error("[Evals] Unhandled run error:", err));
+        res.status(202).json(run);
+    } catch (error) {
+        console.error("Error starting eval run:", error);
+        res.status(500).json({ error: "Failed to start eval run" });
+    }
+});
+
+// GET /api/evals/runs/:id - Run status and the results so far
+router.get("/runs/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const run = await storage.getEvalRun(parseInt(req.params.id), userId);
+        if (!run) {
+            return res.status(404).json({ error: "Run not found" });
+        }
+
+        res.json({ run, results: await storage.getEvalResults(run.id) });
+    } catch (error) {
+        console.error("Error fetching eval run:", error);
+        res.status(500).json({ error: "Failed to fetch eval run" });
+    }
+});
+
+// GET /api/evals/compare?a=:runId&b=:runId - Two runs of the same suite side by side, per case
+router.get("/compare", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const [a, b] = await Promise.all([
+            storage.getEvalRun(parseInt(String(req.query.a)), userId),
+            storage.getEvalRun(parseInt(String(req.query.b)), userId),
+        ]);
+        if (!a || !b) {
+            return res.status(404).json({ error: "Run not found" });
+        }
+        if (a.suiteId !== b.suiteId) {
+            return res.status(400).json({ error: "Runs belong to different suites" });
+        }
+
+        const [cases, resultsA, resultsB] = await Promise.all([
+            storage.getEvalCases(a.suiteId),
+            storage.getEvalResults(a.id),
+            storage.getEvalResults(b.id),
+        ]);
+        const byCaseA = new Map(resultsA.map(r => [r.caseId, r]));
+        const byCaseB = new Map(resultsB.map(r => [r.caseId, r]));
+
+        const comparison: EvalComparison = {
+            a,
+            b,
+            cases: cases.map(evalCase => ({
+                case: evalCase,
+                a: byCaseA.get(evalCase.id) ?? null,
+                b: byCaseB.get(evalCase.id) ?? null,
+            })),
+        };
+        res.json(comparison);
+    } catch (error) {
+        console.error("Error comparing eval runs:", error);
+        res.status(500).json({ error: "Failed to compare eval runs" });
+    }
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { addEventStream } from "../utils/live-events";
+
+const router = Router();
+
+// ============================================
+// Live Events (Server-Sent Events)
+// ============================================
+
+// GET /api/events - Stream of workspace events (new messages, drafts, status changes, sync progress)
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+        });
+        // Browsers reconnect after this many ms if the stream drops
+        res.write("retry: 5000\n\n");
+        res.write("event: ready\ndata: {}\n\n");
+
+        const removeStream = addEventStream(userId, res);
+        req.on("close", removeStream);
+    } catch (error) {
+        console.error("Error opening event stream:", error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: "Failed to open event stream" });
+        }
+    }
+});
+
+export default router;
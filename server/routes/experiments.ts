@@ -0,0 +1,148 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { saveSystemPrompt } from "../utils/prompt-versions";
+import {
+    promptExperimentInputSchema,
+    promptExperimentUpdateSchema,
+    EXPERIMENT_VARIANTS,
+} from "@shared/schema";
+
+const router = Router();
+
+const EXPERIMENT_LIST_LIMIT = 20;
+
+// Body of POST /api/experiments/:id/promote
+const promoteSchema = z.object({
+    variant: z.enum(EXPERIMENT_VARIANTS),
+});
+
+// ============================================
+// Prompt Experiments (A/B tests) API Endpoints
+// ============================================
+
+// GET /api/experiments - Experiments with per-variant results, newest first
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        res.json(await storage.getPromptExperiments(userId, EXPERIMENT_LIST_LIMIT));
+    } catch (error) {
+        console.error("Error fetching prompt experiments:", error);
+        res.status(500).json({ error: "Failed to fetch prompt experiments" });
+    }
+});
+
+// POST /api/experiments - Start testing a challenger prompt against the one in use
+router.post("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = promptExperimentInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid experiment", details: parsed.error.flatten() });
+        }
+        if (parsed.data.accountId && !(await storage.getInstagramAccount(parsed.data.accountId, userId))) {
+            return res.status(400).json({ error: "Account not found" });
+        }
+
+        // The account's own experiment comes first, so this only finds one with the exact same scope
+        const running = await storage.getRunningPromptExperiment(userId, parsed.data.accountId);
+        if (running && running.accountId === parsed.data.accountId) {
+            return res.status(409).json({ error: "An experiment is already running for this account" });
+        }
+
+        const experiment = await storage.createPromptExperiment(userId, parsed.data, actorUserId);
+        console.log(`[Experiments] Experiment ${experiment.id} started for user ${userId} (${experiment.trafficSplit}% on the challenger)`);
+        res.status(201).json(experiment);
+    } catch (error) {
+        console.error("Error creating prompt experiment:", error);
+        res.status(500).json({ error: "Failed to create prompt experiment" });
+    }
+});
+
+// PATCH /api/experiments/:id - Rename or change the split of a running experiment
+router.patch("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = promptExperimentUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid experiment", details: parsed.error.flatten() });
+        }
+
+        const existing = await storage.getPromptExperiment(parseInt(req.params.id), userId);
+        if (!existing) {
+            return res.status(404).json({ error: "Experiment not found" });
+        }
+        if (existing.status !== "running") {
+            return res.status(409).json({ error: "The experiment has ended" });
+        }
+
+        res.json(await storage.updatePromptExperiment(existing.id, userId, parsed.data));
+    } catch (error) {
+        console.error("Error updating prompt experiment:", error);
+        res.status(500).json({ error: "Failed to update prompt experiment" });
+    }
+});
+
+// POST /api/experiments/:id/stop - End the experiment without changing the prompt in use
+router.post("/:id/stop", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const existing = await storage.getPromptExperiment(parseInt(req.params.id), userId);
+        if (!existing) {
+            return res.status(404).json({ error: "Experiment not found" });
+        }
+        if (existing.status !== "running") {
+            return res.status(409).json({ error: "The experiment has ended" });
+        }
+
+        const experiment = await storage.updatePromptExperiment(existing.id, userId, {
+            status: "stopped",
+            endedBy: actorUserId,
+            endedAt: new Date(),
+        });
+        console.log(`[Experiments] Experiment ${existing.id} stopped`);
+        res.json(experiment);
+    } catch (error) {
+        console.error("Error stopping prompt experiment:", error);
+        res.status(500).json({ error: "Failed to stop prompt experiment" });
+    }
+});
+
+// POST /api/experiments/:id/promote - End the experiment keeping the winner: promoting "b" makes
+// the challenger the prompt in use (as a new prompt version), promoting "a" keeps the current one
+router.post("/:id/promote", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = promoteSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid variant", details: parsed.error.flatten() });
+        }
+
+        const existing = await storage.getPromptExperiment(parseInt(req.params.id), userId);
+        if (!existing) {
+            return res.status(404).json({ error: "Experiment not found" });
+        }
+        if (existing.status === "promoted") {
+            return res.status(409).json({ error: "A winner was already promoted" });
+        }
+
+        if (parsed.data.variant === "b") {
+            await saveSystemPrompt(userId, existing.challengerPrompt, "experiment", actorUserId);
+        }
+        const experiment = await storage.updatePromptExperiment(existing.id, userId, {
+            status: "promoted",
+            winner: parsed.data.variant,
+            endedBy: actorUserId,
+            endedAt: existing.endedAt ?? new Date(),
+        });
+        console.log(`[Experiments] Experiment ${existing.id}: variant ${parsed.data.variant} promoted`);
+        res.json(experiment);
+    } catch (error) {
+        console.error("Error promoting experiment variant:", error);
+        res.status(500).json({ error: "Failed to promote experiment variant" });
+    }
+});
+
+export default router;
@@ -1,10 +1,11 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import fs from "fs";
-import { storage } from "../storage";
-import { generateAIResponse, regenerateResponse, type ConversationHistoryEntry } from "../openai";
+import { storage, InvalidSearchCursorError } from "../storage";
+import { generateAIResponse, regenerateResponse, detectMessageIntent, type ConversationHistoryEntry } from "../openai";
 import { getOpenAIConfig } from "../utils/openai-config";
-import { createMessageApiSchema, instagramMessages, aiResponses, interactionDialect, mediaLibrary, type InstagramMessage } from "@shared/schema";
+import { LLM_PROVIDERS, EMBEDDING_PROVIDERS, TRANSCRIPTION_PROVIDERS, isLLMProviderName, resolveLLMSelection, resolveEmbeddingProviderName } from "../lib/llm";
+import { createMessageApiSchema, instagramMessages, aiResponses, interactionDialect, mediaLibrary, type InstagramMessage, type AiResponse, type MessageWithResponse, type WebhookJob, type InstagramAccount, type ScheduledSend, type PrivateReply } from "@shared/schema";
 import * as schema from "@shared/schema";
 import { z } from "zod";
 import { setupAuth, registerAuthRoutes, isAuthenticated, authStorage } from "../replit_integrations/auth";
@@ -19,10 +20,36 @@ import { ObjectStorageService, registerObjectStorageRoutes } from "../replit_int
 import { getOrCreateTranscription } from "../transcription";
 import { syncInstagramKnowledge, synthesizeIdentity } from "../identity-synthesizer";
 import brainRouter from "./brain";
+import teamRouter from "./team";
+import conversationsRouter from "./conversations";
+import scheduledSendsRouter from "./scheduled-sends";
+import eventsRouter from "./events";
+import snippetsRouter from "./snippets";
+import automationsRouter from "./automations";
+import contactsRouter from "./contacts";
+import evalsRouter from "./evals";
+import experimentsRouter from "./experiments";
+import simulatorRouter from "./simulator";
 import { generateEmbedding } from "../utils/openai_embeddings";
 import { runArchitectAgent, runCopilotAgent } from "../modes";
-import { getUserContext } from "../utils/auth-context";
+import { applyCopilotChanges } from "../utils/copilot-changes";
+import { getUserContext, enforceWorkspaceRole } from "../utils/auth-context";
 import { resolveInstagramSender } from "../utils/instagram-identity";
+import { setWebhookJobHandler, kickWebhookQueueWorker } from "../jobs/webhook-queue-worker";
+import { runEmbeddingBackfill } from "../jobs/embedding-backfill-job";
+import { setScheduledSendHandler, kickSendScheduler } from "../jobs/send-scheduler-job";
+import { setPrivateReplyHandler, kickPrivateReplyJob } from "../jobs/private-reply-job";
+import { isPgvectorAvailable } from "../utils/pgvector";
+import { computeSendAt, parseSendSchedule, isValidTimeZone } from "../utils/send-schedule";
+import { parseSafetyFilter, runSafetyChecks } from "../utils/safety-filter";
+import { parseCommentModeration, evaluateComment } from "../utils/comment-moderation";
+import { publishEvent } from "../utils/live-events";
+import { expandSnippetReferences, snippetVariablesFor } from "../utils/snippets";
+import { generationContextFor } from "../utils/generation-context";
+import { extractContactDetails } from "../utils/contact-extraction";
+import { saveSystemPrompt } from "../utils/prompt-versions";
+import { planAutomation, type AutomationPlan } from "../utils/automation-rules";
+import { tryAcquire, graphFetch, recordUsageHeaders, recordRateLimitError, isRateLimitError, getUsageSnapshot } from "../utils/graph-rate-limiter";
 
 // Store last 50 webhooks received for debugging (in-memory)
 interface WebhookProcessingResult {
@@ -74,11 +101,7 @@ interface AssocCacheEntry { userId: string; expiry: number; }
 const successCache: Map<string, AssocCacheEntry> = new Map(); // pageId -> userId (10 min TTL)
 const failCache: Map<string, number> = new Map(); // pageId -> expiry timestamp (60s cooldown)
 
-// Global deduplication cache for webhook messages (prevents duplicate processing across requests)
-// Maps Instagram message ID (mid) -> timestamp when first processed
-const recentlyProcessedMids = new Map<string, number>();
-const DEDUP_CACHE_TTL_MS = 120000; // 120 seconds - how long to remember processed message IDs
-const DEDUP_CLEANUP_INTERVAL_MS = 30000; // 30 seconds - how often to clean expired entries
+// Cross-request deduplication by comment ID / mid is done by the webhook_jobs idempotency key
 const CONTENT_DEDUP_WINDOW_MS = 300000; // 5 minutes - extended window for content-based deduplication
 
 // Clean expired cache entries periodically
@@ -93,22 +116,6 @@ function cleanAssocCache() {
 }
 setInterval(cleanAssocCache, 60000); // Clean every minute
 
-// Clean recently processed message IDs older than TTL
-function cleanRecentlyProcessedMids() {
-  const before = recentlyProcessedMids.size;
-  const cutoff = Date.now() - DEDUP_CACHE_TTL_MS;
-  for (const [mid, timestamp] of recentlyProcessedMids) {
-    if (timestamp < cutoff) {
-      recentlyProcessedMids.delete(mid);
-    }
-  }
-  const after = recentlyProcessedMids.size;
-  if (before !== after) {
-    console.log(`[DEDUP-CACHE] Cleaned ${before - after} expired entries, ${after} remaining`);
-  }
-}
-setInterval(cleanRecentlyProcessedMids, DEDUP_CLEANUP_INTERVAL_MS);
-
 // Auto-associate Facebook Page ID to user by calling Graph API
 async function autoAssociatePageId(pageId: string, allUsers: any[]): Promise<any | null> {
   const now = Date.now();
@@ -193,6 +200,50 @@ async function autoAssociatePageId(pageId: string, allUsers: any[]): Promise<any
   return null;
 }
 
+// Merge a connected Instagram account into its owner's user record.
+// The webhook pipeline and the send helpers read credentials and reply settings
+// from the user object, so this lets them work per account without changes.
+// Per-account operationMode/autoApproveThreshold override the owner's when set.
+function withInstagramAccount(owner: any, account: InstagramAccount): any {
+  return {
+    ...owner,
+    instagramAccountId: account.instagramAccountId,
+    instagramUsername: account.instagramUsername || owner.instagramUsername,
+    instagramProfilePic: account.instagramProfilePic || owner.instagramProfilePic,
+    instagramRecipientId: account.instagramRecipientId,
+    facebookPageId: account.facebookPageId,
+    instagramAccessToken: account.accessToken,
+    tokenExpiresAt: account.tokenExpiresAt,
+    operationMode: account.operationMode ?? owner.operationMode,
+    autoApproveThreshold: account.autoApproveThreshold ?? owner.autoApproveThreshold,
+    sendSchedule: account.sendSchedule,
+    safetyFilter: account.safetyFilter,
+    commentModeration: account.commentModeration,
+    accountRecordId: account.id,
+  };
+}
+
+// Match a webhook entry/recipient ID against the instagram_accounts table
+async function findUserByInstagramAccount(webhookId: string, allUsers: any[]): Promise<any | null> {
+  if (!webhookId) return null;
+  const account = await storage.findInstagramAccountByWebhookId(webhookId);
+  if (!account) return null;
+  const owner = allUsers.find((u: any) => u.id === account.userId);
+  if (!owner) return null;
+  identityLog(`webhookId=${webhookId} matched instagram_accounts id=${account.id} -> userId=${owner.id}`);
+  return withInstagramAccount(owner, account);
+}
+
+// Credentials to reply with for a stored message: the account that received it,
+// or the owner's primary connection for messages from before multi-account support
+async function resolveMessageSender(message: InstagramMessage, owner: any): Promise<any> {
+  if (message.accountId && message.userId) {
+    const account = await storage.getInstagramAccount(message.accountId, message.userId);
+    if (account) return withInstagramAccount(owner, account);
+  }
+  return owner;
+}
+
 // Auto-associate Instagram Business Account ID for comment webhooks
 // When object="instagram", entry.id is the IG Business Account ID (linked to Facebook Page)
 // OAuth saves Creator ID from /me, which may differ from this ID
@@ -402,13 +453,24 @@ function verifyWebhookSignature(payload: string, signature: string | undefined):
   }
 }
 
+// retryAt is set when the account is out of send budget (or Instagram rate-limited it):
+// the reply was not sent and should be retried from the outbox at that time
+type SendResult = { success: boolean; messageId?: string; recipientId?: string; error?: string; retryAt?: Date };
+
 // Send Instagram DM via Graph API
 async function sendInstagramMessage(
   recipientIgsid: string,
   messageText: string,
   accessToken: string,
   instagramAccountId: string
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
+): Promise<SendResult> {
+  // Out of send budget: the caller defers the reply to the outbox
+  const budget = tryAcquire(instagramAccountId, "send");
+  if (!budget.ok) {
+    console.warn(`[Rate Limit] DM para ${recipientIgsid} adiado até ${budget.retryAt.toISOString()}`);
+    return { success: false, error: "Limite de envios da conta atingido", retryAt: budget.retryAt };
+  }
+
   try {
     console.log(`Sending Instagram DM to ${recipientIgsid}...`);
 
@@ -430,6 +492,7 @@ async function sendInstagramMessage(
 
     const data = await response.json();
     console.log(`Instagram send message response:`, JSON.stringify(data));
+    recordUsageHeaders(instagramAccountId, response.headers);
 
     if (response.ok && data.message_id) {
       console.log(`Message sent successfully! ID: ${data.message_id}`);
@@ -440,6 +503,11 @@ async function sendInstagramMessage(
       const errorMsg = String(data.error.message || 'Erro desconhecido');
       console.error(`Instagram DM API error [${errorCode}]:`, errorMsg);
 
+      if (isRateLimitError(data.error)) {
+        const retryAt = recordRateLimitError(instagramAccountId, data.error);
+        return { success: false, error: 'Limite de mensagens atingido. O envio foi reagendado.', retryAt };
+      }
+
       let userFriendlyError = errorMsg;
       if (errorCode === 100) {
         userFriendlyError = 'Destinatário inválido ou conversa não permitida.';
@@ -467,8 +535,16 @@ async function sendInstagramMessage(
 async function replyToInstagramComment(
   commentId: string,
   messageText: string,
-  accessToken: string
-): Promise<{ success: boolean; commentId?: string; error?: string }> {
+  accessToken: string,
+  instagramAccountId: string
+): Promise<{ success: boolean; commentId?: string; error?: string; retryAt?: Date }> {
+  // Out of send budget: the caller defers the reply to the outbox
+  const budget = tryAcquire(instagramAccountId, "send");
+  if (!budget.ok) {
+    console.warn(`[Rate Limit] Resposta ao comentário ${commentId} adiada até ${budget.retryAt.toISOString()}`);
+    return { success: false, error: "Limite de envios da conta atingido", retryAt: budget.retryAt };
+  }
+
   try {
     console.log(`Replying to Instagram comment ${commentId}...`);
 
@@ -489,6 +565,7 @@ async function replyToInstagramComment(
 
     const data = await response.json();
     console.log(`Instagram reply comment response:`, JSON.stringify(data));
+    recordUsageHeaders(instagramAccountId, response.headers);
 
     if (response.ok && data.id) {
       console.log(`Comment reply sent successfully! ID: ${data.id}`);
@@ -500,6 +577,11 @@ async function replyToInstagramComment(
       const errorMsg = String(data.error.message || 'Erro desconhecido');
       console.error(`Instagram API error [${errorCode}/${errorSubcode}]:`, errorMsg);
 
+      if (isRateLimitError(data.error)) {
+        const retryAt = recordRateLimitError(instagramAccountId, data.error);
+        return { success: false, error: 'Limite de requisições atingido. O envio foi reagendado.', retryAt };
+      }
+
       let userFriendlyError = errorMsg;
       if (errorCode === 100 && errorSubcode === 33) {
         userFriendlyError = 'Comentário não encontrado ou foi deletado do Instagram.';
@@ -525,6 +607,564 @@ async function replyToInstagramComment(
   }
 }
 
+// Private reply: a DM to the author of a comment, sent through the comment (Instagram allows
+// one per comment, within 7 days of it). The commenter sees it as a message request.
+async function sendPrivateReply(
+  commentId: string,
+  messageText: string,
+  accessToken: string,
+  instagramAccountId: string
+): Promise<SendResult> {
+  const budget = tryAcquire(instagramAccountId, "send");
+  if (!budget.ok) {
+    console.warn(`[Rate Limit] Resposta privada ao comentário ${commentId} adiada até ${budget.retryAt.toISOString()}`);
+    return { success: false, error: "Limite de envios da conta atingido", retryAt: budget.retryAt };
+  }
+
+  try {
+    const url = `https://graph.instagram.com/v21.0/${instagramAccountId}/messages`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        recipient: { comment_id: commentId },
+        message: { text: messageText },
+        access_token: accessToken,
+      }),
+    });
+
+    const data = await response.json();
+    recordUsageHeaders(instagramAccountId, response.headers);
+
+    if (response.ok && data.message_id) {
+      // recipient_id is the commenter's IGSID: the key of the DM thread the reply opens
+      return { success: true, messageId: data.message_id, recipientId: data.recipient_id };
+    } else if (data.error) {
+      if (isRateLimitError(data.error)) {
+        const retryAt = recordRateLimitError(instagramAccountId, data.error);
+        return { success: false, error: 'Limite de mensagens atingido.', retryAt };
+      }
+      console.error(`Instagram private reply API error [${data.error.code}]:`, data.error.message);
+      return { success: false, error: String(data.error.message || 'Erro desconhecido') };
+    }
+    return { success: false, error: 'Erro desconhecido ao enviar resposta privada' };
+  } catch (error) {
+    console.error(`Error sending private reply:`, error);
+    return { success: false, error: String(error) };
+  }
+}
+
+// Hide/unhide (POST ?hide=) or delete (DELETE) a comment on the account's media.
+// Counted against the send budget: they are writes, like replies.
+async function moderateInstagramComment(
+  commentId: string,
+  action: schema.CommentModerationAction,
+  accessToken: string,
+  instagramAccountId: string
+): Promise<SendResult> {
+  const budget = tryAcquire(instagramAccountId, "send");
+  if (!budget.ok) {
+    return { success: false, error: "Limite de envios da conta atingido", retryAt: budget.retryAt };
+  }
+
+  try {
+    const url = `https://graph.instagram.com/v21.0/${commentId}`;
+    const response = action === "delete"
+      ? await fetch(`${url}?${new URLSearchParams({ access_token: accessToken })}`, { method: 'DELETE' })
+      : await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({ hide: String(action === "hide"), access_token: accessToken }),
+        });
+
+    const data = await response.json();
+    recordUsageHeaders(instagramAccountId, response.headers);
+
+    if (response.ok && data.success !== false) {
+      return { success: true };
+    } else if (data.error) {
+      if (isRateLimitError(data.error)) {
+        const retryAt = recordRateLimitError(instagramAccountId, data.error);
+        return { success: false, error: 'Limite de requisições atingido.', retryAt };
+      }
+      console.error(`Instagram comment moderation API error [${data.error.code}]:`, data.error.message);
+      return { success: false, error: String(data.error.message || 'Erro desconhecido') };
+    }
+    return { success: false, error: 'Erro desconhecido ao moderar comentário' };
+  } catch (error) {
+    console.error(`Error moderating comment:`, error);
+    return { success: false, error: String(error) };
+  }
+}
+
+// Send a reply to a stored message (DM or comment) with the credentials of the account that received it
+async function deliverReply(message: InstagramMessage, text: string): Promise<SendResult> {
+  if (message.type === "dm" && message.senderId) {
+    const owner = await authStorage.getUser(message.userId);
+    const messageOwner = owner && await resolveMessageSender(message, owner);
+    if (messageOwner?.instagramAccessToken && messageOwner?.instagramAccountId) {
+      return sendInstagramMessage(
+        message.senderId,
+        text,
+        messageOwner.instagramAccessToken,
+        messageOwner.instagramAccountId
+      );
+    }
+    return { success: false, error: "Instagram not connected for this user" };
+  }
+
+  if (message.type === "comment" && message.instagramId) {
+    const owner = await authStorage.getUser(message.userId);
+    const messageOwner = owner && await resolveMessageSender(message, owner);
+    if (messageOwner?.instagramAccessToken) {
+      const result = await replyToInstagramComment(
+        message.instagramId,
+        text,
+        messageOwner.instagramAccessToken,
+        messageOwner.instagramAccountId || message.userId
+      );
+      return { success: result.success, messageId: result.commentId, error: result.error, retryAt: result.retryAt };
+    }
+    return { success: false, error: "Instagram not connected for this user" };
+  }
+
+  if (message.type === "comment") {
+    return { success: false, error: "Comment ID not available for reply" };
+  }
+  return { success: false, error: "No senderId available" };
+}
+
+// Queue a private reply (DM) to the author of a comment; the private reply job sends it.
+// undefined = the comment already has a queued or sent private reply.
+async function queuePrivateReply(
+  message: InstagramMessage,
+  text: string,
+  origin: "automation" | "manual",
+  createdBy: string | null
+): Promise<PrivateReply | undefined> {
+  const reply = await storage.queuePrivateReply({
+    userId: message.userId,
+    accountId: message.accountId,
+    messageId: message.id,
+    text,
+    origin,
+    createdBy,
+  });
+  if (reply) kickPrivateReplyJob();
+  return reply;
+}
+
+// Hide, unhide or delete a stored comment on Instagram and record the attempt in the audit log.
+// actorUserId = null for automatic actions (blocklist, spam/offensive classifier).
+async function moderateComment(
+  message: InstagramMessage,
+  action: schema.CommentModerationAction,
+  reason: schema.CommentModerationReason,
+  detail: string | null,
+  actorUserId: string | null
+): Promise<SendResult> {
+  const owner = await authStorage.getUser(message.userId);
+  const messageOwner = owner && await resolveMessageSender(message, owner);
+  let result: SendResult;
+  if (messageOwner?.instagramAccessToken && messageOwner?.instagramAccountId) {
+    const rawToken = messageOwner.instagramAccessToken;
+    const accessToken = isEncrypted(rawToken) ? decrypt(rawToken) : rawToken;
+    result = await moderateInstagramComment(message.instagramId, action, accessToken, messageOwner.instagramAccountId);
+  } else {
+    result = { success: false, error: "Instagram not connected for this user" };
+  }
+
+  await storage.addCommentModerationLog({
+    userId: message.userId,
+    accountId: message.accountId,
+    messageId: message.id,
+    commentId: message.instagramId,
+    action,
+    reason,
+    detail,
+    actorUserId,
+    success: result.success,
+    error: result.success ? null : result.error ?? null,
+  });
+
+  if (result.success) {
+    await storage.updateMessage(message.id, message.userId, {
+      moderationStatus: action === "unhide" ? null : action === "hide" ? "hidden" : "deleted",
+    });
+    if (action === "delete") {
+      await storage.cancelScheduledSendsForMessage(message.id, message.userId);
+    }
+    // A hidden or deleted comment needs no reply; an already answered one keeps its status
+    if (action !== "unhide" && message.status === "pending") {
+      await storage.updateMessageStatus(message.id, message.userId, "rejected");
+    } else {
+      publishEvent(message.userId, "message.status_changed", { messageId: message.id, status: message.status });
+    }
+    console.log(`[Comment Moderation] Comentário ${message.id} (${action}, ${reason}) por ${actorUserId ?? "regra automática"}`);
+  }
+  return result;
+}
+
+// Put a reply in the outbox; the send scheduler job delivers it at sendAt.
+// The message leaves the approval queue ('scheduled') until it is sent or cancelled.
+async function scheduleReply(
+  message: InstagramMessage,
+  text: string,
+  origin: "auto" | "manual",
+  sendAt: Date,
+  createdBy: string | null
+): Promise<ScheduledSend> {
+  await storage.cancelScheduledSendsForMessage(message.id, message.userId);
+  const scheduled = await storage.createScheduledSend({
+    userId: message.userId,
+    accountId: message.accountId,
+    messageId: message.id,
+    responseText: text,
+    origin,
+    sendAt,
+    createdBy,
+  });
+  await storage.updateMessageStatus(message.id, message.userId, "scheduled");
+  kickSendScheduler();
+  return scheduled;
+}
+
+// Per-request caps for POST /api/messages/bulk (regenerating costs one LLM call per message)
+const BULK_ACTION_LIMITS: Record<schema.BulkMessageAction, number> = {
+  approve: 500,
+  reject: 500,
+  regenerate: 50,
+};
+
+// Approve a reply: send it now, or put it in the outbox for sendAt (or for when the account
+// has send budget again), then record the decision and learn from it. Bulk approvals pass
+// learn = false: a comment storm would fill the dataset with near-identical examples.
+async function approveReply(
+  message: InstagramMessage,
+  aiResponse: AiResponse,
+  response: string,
+  wasEdited: boolean,
+  sendAt: Date | null,
+  actorUserId: string,
+  learn = true
+): Promise<{ sendResult: SendResult; sendAt: Date | null }> {
+  let sendResult: SendResult = { success: false };
+  if (!sendAt) {
+    // Send the message via Instagram API
+    sendResult = await deliverReply(message, response);
+
+    // Out of send budget: queue it for when the account has budget again
+    if (sendResult.retryAt) {
+      sendAt = sendResult.retryAt;
+    }
+  }
+
+  if (sendAt) {
+    await scheduleReply(message, response, "manual", sendAt, actorUserId);
+    await storage.updateAiResponse(aiResponse.id, message.userId, {
+      finalResponse: response,
+      wasEdited: wasEdited,
+      approvedBy: actorUserId,
+    });
+  } else {
+    // Update message status based on send result
+    const newStatus = sendResult.success ? "approved" : "pending";
+    await storage.updateMessageStatus(message.id, message.userId, newStatus);
+    await storage.updateAiResponse(aiResponse.id, message.userId, {
+      finalResponse: response,
+      wasEdited: wasEdited,
+      wasApproved: sendResult.success,
+      approvedAt: sendResult.success ? new Date() : undefined,
+      approvedBy: sendResult.success ? actorUserId : undefined,
+    });
+  }
+
+  // If edited, add to learning history (always enabled)
+  if (learn && wasEdited) {
+    const originalContent = getMessageContentForAI(message);
+
+    // 1. Add to Legacy Learning History (global log)
+    await storage.createLearningEntry({
+      originalMessage: originalContent,
+      originalSuggestion: aiResponse.suggestedResponse,
+      correctedResponse: response,
+    });
+
+    // 2. NEW SaaS: Add to Manual Q&A (Golden Rules - FIFO 500)
+    try {
+      await storage.addManualQA({
+        userId: message.userId,
+        question: originalContent,
+        answer: response,
+        source: "approval_queue",
+      });
+      console.log(`[ManualQA] Added golden correction for user ${message.userId}`);
+    } catch (e) {
+      console.error("[ManualQA] Failed to add golden correction:", e);
+    }
+
+    // 3. Also add to User Dataset for RAG (Memory)
+    try {
+      // Generate embedding for the question/content
+      const embedding = await generateEmbedding(originalContent);
+
+      if (embedding) {
+        await storage.addDatasetEntry({
+          userId: message.userId, // Use the message owner's ID
+          question: originalContent,
+          answer: response,
+          embedding: embedding as any,
+        });
+        console.log(`[Auto-Learn] Added corrected response to dataset for user ${message.userId}`);
+      }
+    } catch (e) {
+      console.error("[Auto-Learn] Failed to auto-add to dataset:", e);
+      // Don't fail the request if auto-learning fails
+    }
+  } else if (learn && (sendResult.success || sendAt)) {
+    // Even if not edited, store approved high-confidence responses as examples
+    // This builds up the knowledge base with successful responses
+    const originalContent = getMessageContentForAI(message);
+
+    // Confidence threshold for storing approved responses
+    const HIGH_CONFIDENCE_THRESHOLD = 0.8;
+
+    if (aiResponse.confidenceScore >= HIGH_CONFIDENCE_THRESHOLD) {
+      try {
+        const embedding = await generateEmbedding(originalContent);
+
+        if (embedding) {
+          await storage.addDatasetEntry({
+            userId: message.userId,
+            question: originalContent,
+            answer: response,
+            embedding: embedding as any,
+          });
+          console.log(`[Auto-Learn] Stored high-confidence approved response (${aiResponse.confidenceScore.toFixed(2)}) for user ${message.userId}`);
+        }
+      } catch (e) {
+        console.error("[Auto-Learn] Failed to store approved response:", e);
+      }
+    }
+  }
+
+  return { sendResult, sendAt };
+}
+
+// Ask the model for a new suggestion (with the same post/conversation context as the first one)
+// and store it on the message's AI response, clearing any safety flags of the previous one
+async function regenerateReply(
+  message: MessageWithResponse
+): Promise<{ aiResponse?: AiResponse; error?: string; errorCode?: string }> {
+  const previousResponse = message.aiResponse?.suggestedResponse || "";
+
+  // Build context for comments (including image for vision and transcription)
+  const commentContext = message.type === "comment" ? {
+    postCaption: message.postCaption,
+    postPermalink: message.postPermalink,
+    postThumbnailUrl: message.postThumbnailUrl, // Include for AI vision analysis
+    postVideoUrl: message.postVideoUrl, // Include for audio transcription
+    postMediaType: message.postMediaType, // 'image', 'video', 'carousel'
+    postVideoTranscription: message.postVideoTranscription, // Cached transcription
+    parentCommentText: message.parentCommentText,
+    parentCommentUsername: message.parentCommentUsername,
+  } : undefined;
+
+  // Fetch conversation history for DMs
+  let conversationHistory: ConversationHistoryEntry[] | undefined;
+  if (message.type === "dm" && message.senderId) {
+    const historyMessages = await storage.getConversationHistory(message.senderId, message.userId, 10);
+    conversationHistory = historyMessages
+      .filter(m => m.id !== message.id)
+      .map(m => ({
+        senderName: m.senderName,
+        content: m.content || "",
+        response: m.aiResponse?.finalResponse || m.aiResponse?.suggestedResponse,
+        timestamp: m.createdAt,
+      }));
+  }
+
+  // The variant is sticky per sender, so a regeneration stays in the variant of the first suggestion
+  const { context, experiment } = await generationContextFor(message);
+  const aiResult = await regenerateResponse(
+    getMessageContentForAI(message),
+    message.type as "dm" | "comment",
+    message.senderName,
+    previousResponse,
+    message.userId,
+    commentContext,
+    conversationHistory,
+    context
+  );
+
+  if (aiResult.error || aiResult.errorCode) {
+    return { error: aiResult.error, errorCode: aiResult.errorCode };
+  }
+
+  let aiResponse = await storage.getAiResponse(message.id, message.userId);
+  if (aiResponse) {
+    await storage.updateAiResponse(aiResponse.id, message.userId, {
+      suggestedResponse: aiResult.suggestedResponse,
+      confidenceScore: aiResult.confidenceScore,
+      traceId: aiResult.traceId,
+      promptVersionId: aiResult.promptVersionId ?? null,
+      experimentId: experiment?.experimentId ?? null,
+      experimentVariant: experiment?.variant ?? null,
+      safetyFlags: null,
+    });
+    aiResponse = {
+      ...aiResponse,
+      suggestedResponse: aiResult.suggestedResponse,
+      confidenceScore: aiResult.confidenceScore,
+    };
+  } else {
+    aiResponse = await storage.createAiResponse({
+      messageId: message.id,
+      suggestedResponse: aiResult.suggestedResponse,
+      confidenceScore: aiResult.confidenceScore,
+      traceId: aiResult.traceId,
+      promptVersionId: aiResult.promptVersionId ?? null,
+      experimentId: experiment?.experimentId ?? null,
+      experimentVariant: experiment?.variant ?? null,
+    });
+  }
+
+  return { aiResponse };
+}
+
+// Outbound safety stage for auto-sends: a reply that fails any of the account's checks
+// stays in the approval queue, with the reasons stored on its AI response
+async function passesSafetyFilter(
+  messageId: number,
+  userId: string,
+  safetyFilter: unknown,
+  text: string,
+  traceId?: number
+): Promise<boolean> {
+  const config = parseSafetyFilter(safetyFilter);
+  if (!config) return true;
+
+  const flags = await runSafetyChecks(text, config, { userId, traceId });
+  if (flags.length === 0) return true;
+
+  const aiResponse = await storage.getAiResponse(messageId, userId);
+  if (aiResponse) {
+    await storage.updateAiResponse(aiResponse.id, userId, { safetyFlags: flags });
+  }
+  console.warn(`[Safety Filter] Auto-envio da mensagem ${messageId} retido para revisão: ${flags.map(f => f.reason).join("; ")}`);
+  return false;
+}
+
+// Blocklist and auto-hide check for a freshly stored comment. true = the comment was hidden
+// and the webhook should not draft or send a reply to it.
+async function autoModerateComment(message: InstagramMessage, instagramUser: any): Promise<boolean> {
+  const config = parseCommentModeration(instagramUser.commentModeration);
+  if (!config) return false;
+
+  const verdict = await evaluateComment(
+    { text: message.content || "", username: message.senderUsername },
+    config,
+    message.userId
+  );
+  if (!verdict) return false;
+
+  const result = await moderateComment(message, "hide", verdict.reason, verdict.detail, null);
+  if (!result.success) {
+    console.error(`[Comment Moderation] ❌ Falha ao ocultar comentário ${message.id}: ${result.error}`);
+  }
+  return result.success;
+}
+
+// Evaluate the automation rules for a freshly stored incoming message and carry out the
+// actions that don't depend on the AI (fixed reply, private reply, tags, assignee).
+// The returned plan tells the webhook whether to generate a draft and whether it may auto-send;
+// null = no rule matched, the normal AI path applies.
+async function runAutomationRules(message: InstagramMessage, instagramUser: any): Promise<AutomationPlan | null> {
+  const rules = await storage.getActiveAutomationRules(message.userId, message.accountId);
+  if (rules.length === 0) return null;
+
+  const text = message.content || "";
+  const needsFirstContact = rules.some(rule => (rule.conditions as schema.AutomationConditions).firstContact !== undefined);
+  const plan = planAutomation(rules, {
+    type: message.type as "dm" | "comment",
+    text,
+    intent: detectMessageIntent(text),
+    postId: message.postId,
+    followersCount: message.senderFollowersCount ?? null,
+    firstContact: needsFirstContact && !!message.senderId
+      && await storage.isFirstContact(message.userId, message.senderId, message.id),
+  });
+  if (plan.matchedRules.length === 0) return null;
+
+  console.log(`[Automation] Mensagem ${message.id}: regras ${plan.matchedRules.map(rule => `"${rule.name}"`).join(", ")}`);
+  for (const rule of plan.matchedRules) {
+    await storage.recordAutomationRuleMatch(rule.id);
+  }
+
+  await storage.addMessageTags(message.id, message.userId, plan.tags);
+  if (plan.assignTo && message.conversationId) {
+    await storage.updateConversation(message.conversationId, message.userId, { assignedTo: plan.assignTo });
+  }
+
+  if (!plan.reply && !plan.privateReply) return plan;
+
+  // Reply texts accept the same {{snippet:name}} references and variables as AI replies
+  const snippets = await storage.getSnippets(message.userId, message.accountId ?? undefined);
+  const variables = snippetVariablesFor(message);
+
+  if (plan.privateReply && message.type === "comment") {
+    const privateText = expandSnippetReferences(plan.privateReply, snippets, variables).text;
+    if (await queuePrivateReply(message, privateText, "automation", null)) {
+      console.log(`[Automation] Resposta privada para @${message.senderUsername} na fila`);
+    }
+  }
+
+  if (plan.reply) {
+    // The fixed reply takes the place of the AI draft: visible in the queue, learnable when edited
+    const replyText = expandSnippetReferences(plan.reply, snippets, variables).text;
+    const aiResponse = await storage.createAiResponse({
+      messageId: message.id,
+      suggestedResponse: replyText,
+      confidenceScore: 1,
+    });
+
+    // Same gates as an AI reply: the account's operation mode and the outbound safety filter.
+    // A reply that doesn't pass stays in the queue as a pending draft.
+    const operationMode = instagramUser.operationMode || "manual";
+    const threshold = parseFloat(instagramUser.autoApproveThreshold || "0.9");
+    const shouldAutoSend =
+      !plan.manualReview &&
+      (operationMode === "auto" || (operationMode === "semi_auto" && aiResponse.confidenceScore >= threshold)) &&
+      await passesSafetyFilter(message.id, message.userId, instagramUser.safetyFilter, replyText);
+    if (!shouldAutoSend) return plan;
+
+    const sendSchedule = parseSendSchedule(instagramUser.sendSchedule);
+    if (sendSchedule) {
+      await scheduleReply(message, replyText, "auto", computeSendAt(sendSchedule), null);
+      return plan;
+    }
+
+    const sendResult = await deliverReply(message, replyText);
+    if (sendResult.success) {
+      await storage.updateMessageStatus(message.id, message.userId, "auto_sent");
+      await storage.updateAiResponse(aiResponse.id, message.userId, {
+        finalResponse: replyText,
+        wasApproved: true,
+        approvedAt: new Date(),
+      });
+      console.log(`[Automation] ✅ Resposta fixa enviada para @${message.senderUsername}`);
+    } else if (sendResult.retryAt) {
+      await scheduleReply(message, replyText, "auto", sendResult.retryAt, null);
+    } else {
+      console.error(`[Automation] ❌ Falha ao enviar resposta fixa: ${sendResult.error}`);
+    }
+  }
+
+  return plan;
+}
+
 // Helper to extract user info from request
 // getUserContext moved to ../utils/auth-context.ts
 
@@ -538,6 +1178,9 @@ export async function registerRoutes(
   await setupAuth(app);
   registerAuthRoutes(app);
 
+  // Team roles: members act on the owner's workspace, limited by their role
+  app.use(["/api/messages", "/api/brain", "/api/knowledge", "/api/settings", "/api/instagram", "/api/conversations", "/api/scheduled-sends", "/api/snippets", "/api/automations", "/api/copilot", "/api/experiments", "/api/evals", "/api/simulator", "/api/contacts", "/api/my-data", "/api/facebook", "/api/seed-demo"], enforceWorkspaceRole);
+
   // Register Object Storage routes for file uploads
   registerObjectStorageRoutes(app);
 
@@ -866,8 +1509,8 @@ export async function registerRoutes(
   // Get dashboard stats
   app.get("/api/stats", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames } = await getUserContext(req);
-      const stats = await storage.getStats(userId, isAdmin, excludeSenderIds, excludeSenderUsernames);
+      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
+      const stats = await storage.getStats(userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching stats:", error);
@@ -891,8 +1534,13 @@ export async function registerRoutes(
   // AI Configuration Status (diagnostic endpoint - no secrets exposed)
   app.get("/api/ai-status", isAuthenticated, async (req, res) => {
     try {
+      const { userId } = await getUserContext(req);
       const config = getOpenAIConfig();
+      const selection = await resolveLLMSelection(userId);
       res.json({
+        provider: selection.provider,
+        model: selection.model,
+        providerSource: selection.source,
         configured: !!config.apiKey,
         apiKeySource: config.apiKeySource || "none",
         baseURLConfigured: !!config.baseURL,
@@ -910,8 +1558,9 @@ export async function registerRoutes(
   // AI Connection Test (makes a real API call to verify the connection works)
   app.get("/api/ai-test", isAuthenticated, async (req, res) => {
     try {
-      // Use the actual generateAIResponse function to test
-      const testResult = await generateAIResponse("Olá", "dm", "TestUser");
+      // Use the actual generateAIResponse function to test (with the caller's provider)
+      const { userId } = await getUserContext(req);
+      const testResult = await generateAIResponse("Olá", "dm", "TestUser", userId);
 
       if (testResult.error || testResult.errorCode) {
         return res.json({
@@ -940,8 +1589,8 @@ export async function registerRoutes(
   // Get all messages
   app.get("/api/messages", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames } = await getUserContext(req);
-      const messages = await storage.getMessages(userId, isAdmin, excludeSenderIds, excludeSenderUsernames);
+      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
+      const messages = await storage.getMessages(userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching messages:", error);
@@ -952,8 +1601,8 @@ export async function registerRoutes(
   // Get pending messages
   app.get("/api/messages/pending", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames } = await getUserContext(req);
-      const messages = await storage.getPendingMessages(userId, isAdmin, excludeSenderIds, excludeSenderUsernames);
+      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
+      const messages = await storage.getPendingMessages(userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching pending messages:", error);
@@ -964,9 +1613,9 @@ export async function registerRoutes(
   // Get recent messages
   app.get("/api/messages/recent", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames } = await getUserContext(req);
+      const { userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
       const limit = parseInt(req.query.limit as string) || 10;
-      const messages = await storage.getRecentMessages(limit, userId, isAdmin, excludeSenderIds, excludeSenderUsernames);
+      const messages = await storage.getRecentMessages(limit, userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching recent messages:", error);
@@ -974,6 +1623,25 @@ export async function registerRoutes(
     }
   });
 
+  // Search messages server-side (filters + full-text), newest first, one page per cursor
+  app.get("/api/messages/search", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
+      const parsed = schema.messageSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid search filters" });
+      }
+      const page = await storage.searchMessages(userId, parsed.data, { accountId, excludeSenderIds, excludeSenderUsernames });
+      res.json(page);
+    } catch (error) {
+      if (error instanceof InvalidSearchCursorError) {
+        return res.status(400).json({ error: "Invalid search cursor" });
+      }
+      console.error("Error searching messages:", error);
+      res.status(500).json({ error: "Failed to search messages" });
+    }
+  });
+
   // Update message status
   app.patch("/api/messages/:id/status", isAuthenticated, async (req, res) => {
     try {
@@ -1150,12 +1818,25 @@ export async function registerRoutes(
       const globalAutoApproveThreshold = await storage.getSetting("global_autoApproveThreshold");
       const globalAiTone = await storage.getSetting("global_aiTone");
       const globalAiContext = await storage.getSetting("global_aiContext");
+      const globalAiProvider = await storage.getSetting("global_aiProvider");
+      const globalAiModel = await storage.getSetting("global_aiModel");
+      const globalAiBaseUrl = await storage.getSetting("global_aiBaseUrl");
+      const globalEmbeddingProvider = await storage.getSetting("global_embeddingProvider");
+      const globalTranscriptionProvider = await storage.getSetting("global_transcriptionProvider");
 
       res.json({
         operationMode: globalOperationMode?.value || "manual",
         confidenceThreshold: Math.round(parseFloat(globalAutoApproveThreshold?.value || "0.9") * 100),
         systemPrompt: globalAiContext?.value || "",
         aiTone: globalAiTone?.value || "",
+        aiProvider: globalAiProvider?.value || "openai",
+        aiModel: globalAiModel?.value || "",
+        aiBaseUrl: globalAiBaseUrl?.value || "",
+        embeddingProvider: globalEmbeddingProvider?.value || "openai",
+        transcriptionProvider: globalTranscriptionProvider?.value || "openai",
+        availableProviders: LLM_PROVIDERS,
+        embeddingProviders: EMBEDDING_PROVIDERS,
+        transcriptionProviders: TRANSCRIPTION_PROVIDERS,
       });
     } catch (error) {
       console.error("Error fetching global settings:", error);
@@ -1185,6 +1866,30 @@ export async function registerRoutes(
       if (updates.aiTone !== undefined) {
         await storage.setSetting("global_aiTone", updates.aiTone);
       }
+      if (updates.aiProvider !== undefined) {
+        if (!isLLMProviderName(updates.aiProvider)) {
+          return res.status(400).json({ error: "Invalid AI provider" });
+        }
+        await storage.setSetting("global_aiProvider", updates.aiProvider);
+      }
+      if (updates.aiModel !== undefined) {
+        await storage.setSetting("global_aiModel", String(updates.aiModel || "").trim());
+      }
+      if (updates.aiBaseUrl !== undefined) {
+        await storage.setSetting("global_aiBaseUrl", String(updates.aiBaseUrl || "").trim());
+      }
+      if (updates.embeddingProvider !== undefined) {
+        if (!EMBEDDING_PROVIDERS.includes(updates.embeddingProvider)) {
+          return res.status(400).json({ error: "Invalid embedding provider" });
+        }
+        await storage.setSetting("global_embeddingProvider", updates.embeddingProvider);
+      }
+      if (updates.transcriptionProvider !== undefined) {
+        if (!TRANSCRIPTION_PROVIDERS.includes(updates.transcriptionProvider)) {
+          return res.status(400).json({ error: "Invalid transcription provider" });
+        }
+        await storage.setSetting("global_transcriptionProvider", updates.transcriptionProvider);
+      }
 
       console.log("[Admin] Global settings updated:", updates);
       res.json({ success: true, message: "Configurações globais atualizadas com sucesso" });
@@ -1197,7 +1902,7 @@ export async function registerRoutes(
   // Reset user settings to use global defaults (admin only)
   app.post("/api/admin/users/:userId/reset-settings", isAuthenticated, async (req, res) => {
     try {
-      const { isAdmin } = await getUserContext(req);
+      const { isAdmin, actorUserId } = await getUserContext(req);
       if (!isAdmin) {
         return res.status(403).json({ error: "Admin access required" });
       }
@@ -1214,8 +1919,8 @@ export async function registerRoutes(
         operationMode: null,
         autoApproveThreshold: null,
         aiTone: null,
-        aiContext: null,
       });
+      await saveSystemPrompt(targetUserId, null, "admin", actorUserId);
 
       console.log(`[Admin] Reset settings for user ${targetUserId} to use global defaults`);
       res.json({ success: true, message: "Configurações do usuário resetadas para usar os padrões globais" });
@@ -1228,7 +1933,7 @@ export async function registerRoutes(
   // Update specific user settings (admin only)
   app.patch("/api/admin/users/:userId/settings", isAuthenticated, async (req, res) => {
     try {
-      const { isAdmin } = await getUserContext(req);
+      const { isAdmin, actorUserId } = await getUserContext(req);
       if (!isAdmin) {
         return res.status(403).json({ error: "Admin access required" });
       }
@@ -1249,9 +1954,6 @@ export async function registerRoutes(
       if (updates.confidenceThreshold !== undefined) {
         userUpdates.autoApproveThreshold = String(updates.confidenceThreshold / 100);
       }
-      if (updates.systemPrompt !== undefined) {
-        userUpdates.aiContext = updates.systemPrompt;
-      }
       if (updates.aiTone !== undefined) {
         userUpdates.aiTone = updates.aiTone;
       }
@@ -1260,6 +1962,9 @@ export async function registerRoutes(
         await authStorage.updateUser(targetUserId, userUpdates);
         console.log(`[Admin] Updated settings for user ${targetUserId}:`, userUpdates);
       }
+      if (updates.systemPrompt !== undefined) {
+        await saveSystemPrompt(targetUserId, updates.systemPrompt, "admin", actorUserId);
+      }
 
       res.json({ success: true, message: "Configurações do usuário atualizadas com sucesso" });
     } catch (error) {
@@ -1343,6 +2048,7 @@ export async function registerRoutes(
         await authStorage.updateUser(targetUserId, {
           showTokenWarning: true
         });
+        publishEvent(targetUserId, "token.warning", { reason: "invalid_token" });
 
         return res.status(400).json({
           error: "Token inválido ou expirado",
@@ -1428,6 +2134,7 @@ export async function registerRoutes(
           lastRefreshError: result.error || "Erro desconhecido",
           showTokenWarning: true,
         });
+        publishEvent(targetUserId, "token.warning", { reason: "refresh_failed" });
 
         console.log(`[Admin] ❌ Falha ao renovar token de ${user.email}: ${result.error}`);
 
@@ -1464,6 +2171,32 @@ export async function registerRoutes(
     }
   });
 
+  // Generation trace of a message's current AI suggestion (prompt inspector)
+  app.get("/api/messages/:id/trace", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid message ID" });
+      }
+
+      const aiResponse = await storage.getAiResponse(id, userId);
+      if (!aiResponse?.traceId) {
+        return res.status(404).json({ error: "Trace not found" });
+      }
+
+      const trace = await storage.getGenerationTrace(aiResponse.traceId, userId);
+      if (!trace) {
+        return res.status(404).json({ error: "Trace not found" });
+      }
+
+      res.json(trace);
+    } catch (error) {
+      console.error("Error fetching generation trace:", error);
+      res.status(500).json({ error: "Failed to fetch generation trace" });
+    }
+  });
+
   // Create new message (simulates Instagram webhook)
   app.post("/api/messages", isAuthenticated, async (req, res) => {
     try {
@@ -1498,31 +2231,40 @@ export async function registerRoutes(
           }));
       }
 
+      const { context, experiment } = await generationContextFor(message);
       const aiResult = await generateAIResponse(
         getMessageContentForAI(message),
         message.type as "dm" | "comment",
         message.senderName,
         userId,
         commentContext,
-        conversationHistory
+        conversationHistory,
+        undefined,
+        context
       );
 
       const aiResponse = await storage.createAiResponse({
         messageId: message.id,
         suggestedResponse: aiResult.suggestedResponse,
         confidenceScore: aiResult.confidenceScore,
+        traceId: aiResult.traceId,
+        promptVersionId: aiResult.promptVersionId ?? null,
+        experimentId: experiment?.experimentId ?? null,
+        experimentVariant: experiment?.variant ?? null,
       });
 
       // Check if auto mode (100% auto) or semi-auto mode with high confidence
-      // Use user-specific settings from their record
+      // Use the message's account settings, falling back to the owner's (same as the webhook path)
       const messageUser = await authStorage.getUser(userId);
-      const userOperationMode = messageUser?.operationMode || "manual";
-      const userThreshold = parseFloat(messageUser?.autoApproveThreshold || "0.9");
+      const messageOwner = messageUser && await resolveMessageSender(message, messageUser);
+      const userOperationMode = messageOwner?.operationMode || "manual";
+      const userThreshold = parseFloat(messageOwner?.autoApproveThreshold || "0.9");
 
       const shouldAutoSend =
-        userOperationMode === "auto" || // 100% automatic mode
-        (userOperationMode === "semi_auto" &&
-          aiResult.confidenceScore >= userThreshold);
+        (userOperationMode === "auto" || // 100% automatic mode
+          (userOperationMode === "semi_auto" &&
+            aiResult.confidenceScore >= userThreshold)) &&
+        await passesSafetyFilter(message.id, userId, messageOwner?.safetyFilter, aiResult.suggestedResponse, aiResult.traceId);
 
       if (shouldAutoSend) {
         // Auto-approve and send
@@ -1548,7 +2290,7 @@ export async function registerRoutes(
   // Approve message response
   app.post("/api/messages/:id/approve", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin } = await getUserContext(req);
+      const { userId, actorUserId, isAdmin } = await getUserContext(req);
       const id = parseInt(req.params.id);
       const { response, wasEdited } = req.body;
 
@@ -1567,125 +2309,23 @@ export async function registerRoutes(
         return res.status(404).json({ error: "AI response not found" });
       }
 
-      // Send the message via Instagram API (only for DMs with senderId)
-      let sendResult: { success: boolean; messageId?: string; error?: string } = {
-        success: false,
-        error: "No senderId available"
-      };
-      if (message.type === "dm" && message.senderId) {
-        // Get the message owner's Instagram credentials
-        const messageOwner = await authStorage.getUser(message.userId);
-        if (messageOwner?.instagramAccessToken && messageOwner?.instagramAccountId) {
-          sendResult = await sendInstagramMessage(
-            message.senderId,
-            response,
-            messageOwner.instagramAccessToken,
-            messageOwner.instagramAccountId
-          );
-        } else {
-          sendResult = { success: false, error: "Instagram not connected for this user" };
+      // Optional "send at": the reply goes to the outbox instead of being sent now
+      let sendAt: Date | null = null;
+      if (req.body.sendAt) {
+        sendAt = new Date(req.body.sendAt);
+        if (isNaN(sendAt.getTime())) {
+          return res.status(400).json({ error: "Invalid sendAt" });
         }
-      } else if (message.type === "comment" && message.instagramId) {
-        // Reply to comment via Instagram API
-        const messageOwner = await authStorage.getUser(message.userId);
-        if (messageOwner?.instagramAccessToken) {
-          const result = await replyToInstagramComment(
-            message.instagramId,
-            response,
-            messageOwner.instagramAccessToken
-          );
-          sendResult = {
-            success: result.success,
-            messageId: result.commentId,
-            error: result.error
-          };
-        } else {
-          sendResult = { success: false, error: "Instagram not connected for this user" };
+        if (sendAt.getTime() <= Date.now()) {
+          sendAt = null;
         }
-      } else if (message.type === "comment" && !message.instagramId) {
-        sendResult = { success: false, error: "Comment ID not available for reply" };
-      }
-
-      // Update message status based on send result
-      const newStatus = sendResult.success ? "approved" : "pending";
-      await storage.updateMessageStatus(id, userId, newStatus);
-      await storage.updateAiResponse(aiResponse.id, userId, {
-        finalResponse: response,
-        wasEdited: wasEdited,
-        wasApproved: sendResult.success,
-        approvedAt: sendResult.success ? new Date() : undefined,
-      });
-
-      // If edited, add to learning history (always enabled)
-      if (wasEdited) {
-        const originalContent = getMessageContentForAI(message);
-
-        // 1. Add to Legacy Learning History (global log)
-        await storage.createLearningEntry({
-          originalMessage: originalContent,
-          originalSuggestion: aiResponse.suggestedResponse,
-          correctedResponse: response,
-        });
+      }
 
-        // 2. NEW SaaS: Add to Manual Q&A (Golden Rules - FIFO 500)
-        try {
-          await storage.addManualQA({
-            userId: message.userId,
-            question: originalContent,
-            answer: response,
-            source: "approval_queue",
-          });
-          console.log(`[ManualQA] Added golden correction for user ${message.userId}`);
-        } catch (e) {
-          console.error("[ManualQA] Failed to add golden correction:", e);
-        }
+      const { sendResult, sendAt: scheduledAt } = await approveReply(message, aiResponse, response, wasEdited, sendAt, actorUserId);
 
-        // 3. Also add to User Dataset for RAG (Memory)
-        try {
-          // Generate embedding for the question/content
-          const embedding = await generateEmbedding(originalContent);
-
-          if (embedding) {
-            await storage.addDatasetEntry({
-              userId: message.userId, // Use the message owner's ID
-              question: originalContent,
-              answer: response,
-              embedding: embedding as any,
-            });
-            console.log(`[Auto-Learn] Added corrected response to dataset for user ${message.userId}`);
-          }
-        } catch (e) {
-          console.error("[Auto-Learn] Failed to auto-add to dataset:", e);
-          // Don't fail the request if auto-learning fails
-        }
+      if (scheduledAt) {
+        res.json({ success: true, messageSent: false, scheduled: true, sendAt: scheduledAt });
       } else if (sendResult.success) {
-        // Even if not edited, store approved high-confidence responses as examples
-        // This builds up the knowledge base with successful responses
-        const originalContent = getMessageContentForAI(message);
-
-        // Confidence threshold for storing approved responses
-        const HIGH_CONFIDENCE_THRESHOLD = 0.8;
-
-        if (aiResponse.confidenceScore >= HIGH_CONFIDENCE_THRESHOLD) {
-          try {
-            const embedding = await generateEmbedding(originalContent);
-
-            if (embedding) {
-              await storage.addDatasetEntry({
-                userId: message.userId,
-                question: originalContent,
-                answer: response,
-                embedding: embedding as any,
-              });
-              console.log(`[Auto-Learn] Stored high-confidence approved response (${aiResponse.confidenceScore.toFixed(2)}) for user ${message.userId}`);
-            }
-          } catch (e) {
-            console.error("[Auto-Learn] Failed to store approved response:", e);
-          }
-        }
-      }
-
-      if (sendResult.success) {
         res.json({ success: true, messageSent: true });
       } else {
         res.json({
@@ -1733,10 +2373,120 @@ export async function registerRoutes(
     }
   });
 
-  // Regenerate AI response
-  app.post("/api/messages/:id/regenerate", isAuthenticated, async (req, res) => {
+  // Hide, unhide or delete a comment on Instagram (audited)
+  app.post("/api/messages/:id/moderation", isAuthenticated, async (req, res) => {
     try {
-      const { userId, isAdmin } = await getUserContext(req);
+      const { userId, actorUserId } = await getUserContext(req);
+      const parsed = schema.commentModerationActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid moderation action", details: parsed.error.flatten() });
+      }
+
+      const message = await storage.getMessage(parseInt(req.params.id), userId);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (message.type !== "comment") {
+        return res.status(400).json({ error: "Only comments can be moderated" });
+      }
+      if (message.moderationStatus === "deleted") {
+        return res.status(409).json({ error: "Este comentário já foi excluído do Instagram" });
+      }
+
+      const result = await moderateComment(message, parsed.data.action, "manual", null, actorUserId);
+      if (!result.success) {
+        return res.status(result.retryAt ? 429 : 502).json({ error: result.error || "Falha ao moderar comentário" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error moderating comment:", error);
+      res.status(500).json({ error: "Failed to moderate comment" });
+    }
+  });
+
+  // Ban the author of a comment: add them to the account's blocklist (their next comments are
+  // hidden by the webhook) and hide this one
+  app.post("/api/messages/:id/block-author", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, actorUserId } = await getUserContext(req);
+      const message = await storage.getMessage(parseInt(req.params.id), userId);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (message.type !== "comment" || !message.senderUsername || !message.accountId) {
+        return res.status(400).json({ error: "Only comments with a known author and account can be blocked" });
+      }
+
+      const account = await storage.getInstagramAccount(message.accountId, userId);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      const username = message.senderUsername.replace(/^@/, "").toLowerCase();
+      const config = parseCommentModeration(account.commentModeration)
+        ?? { autoHideSpam: false, autoHideOffensive: false, blockedUsernames: [] };
+      if (!config.blockedUsernames.includes(username)) {
+        await storage.updateInstagramAccount(account.id, userId, {
+          commentModeration: { ...config, blockedUsernames: [...config.blockedUsernames, username] },
+        });
+      }
+
+      const result: SendResult = message.moderationStatus
+        ? { success: true } // Already hidden or deleted
+        : await moderateComment(message, "hide", "blocklist", `@${username} bloqueado manualmente`, actorUserId);
+      res.json({ success: true, username, hidden: result.success, error: result.error });
+    } catch (error) {
+      console.error("Error blocking comment author:", error);
+      res.status(500).json({ error: "Failed to block comment author" });
+    }
+  });
+
+  // Audit trail of moderation actions on a comment, newest first
+  app.get("/api/messages/:id/moderation", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      const log = await storage.getCommentModerationLog(parseInt(req.params.id), userId);
+      res.json(log);
+    } catch (error) {
+      console.error("Error fetching moderation log:", error);
+      res.status(500).json({ error: "Failed to fetch moderation log" });
+    }
+  });
+
+  // Send a private reply (DM) to the author of a comment
+  app.post("/api/messages/:id/private-reply", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, actorUserId } = await getUserContext(req);
+      const parsed = schema.privateReplyInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid private reply", details: parsed.error.flatten() });
+      }
+
+      const message = await storage.getMessage(parseInt(req.params.id), userId);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (message.type !== "comment") {
+        return res.status(400).json({ error: "Private replies are only available for comments" });
+      }
+      if (Date.now() - new Date(message.createdAt).getTime() > schema.PRIVATE_REPLY_WINDOW_MS) {
+        return res.status(400).json({ error: "O Instagram só permite respostas privadas a comentários de até 7 dias" });
+      }
+
+      const reply = await queuePrivateReply(message, parsed.data.text, "manual", actorUserId);
+      if (!reply) {
+        return res.status(409).json({ error: "Este comentário já tem uma resposta privada" });
+      }
+      res.status(201).json(reply);
+    } catch (error) {
+      console.error("Error sending private reply:", error);
+      res.status(500).json({ error: "Failed to send private reply" });
+    }
+  });
+
+  // Regenerate AI response
+  app.post("/api/messages/:id/regenerate", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, isAdmin } = await getUserContext(req);
       const id = parseInt(req.params.id);
 
       const message = await storage.getMessage(id, userId);
@@ -1749,77 +2499,201 @@ export async function registerRoutes(
         return res.status(403).json({ error: "Access denied" });
       }
 
-      const previousResponse = message.aiResponse?.suggestedResponse || "";
-
-      // Build context for comments (including image for vision and transcription)
-      const commentContext = message.type === "comment" ? {
-        postCaption: message.postCaption,
-        postPermalink: message.postPermalink,
-        postThumbnailUrl: message.postThumbnailUrl, // Include for AI vision analysis
-        postVideoUrl: message.postVideoUrl, // Include for audio transcription
-        postMediaType: message.postMediaType, // 'image', 'video', 'carousel'
-        postVideoTranscription: message.postVideoTranscription, // Cached transcription
-        parentCommentText: message.parentCommentText,
-        parentCommentUsername: message.parentCommentUsername,
-      } : undefined;
-
-      // Fetch conversation history for DMs
-      let conversationHistory: ConversationHistoryEntry[] | undefined;
-      if (message.type === "dm" && message.senderId) {
-        const historyMessages = await storage.getConversationHistory(message.senderId, userId, 10);
-        conversationHistory = historyMessages
-          .filter(m => m.id !== message.id)
-          .map(m => ({
-            senderName: m.senderName,
-            content: m.content || "",
-            response: m.aiResponse?.finalResponse || m.aiResponse?.suggestedResponse,
-            timestamp: m.createdAt,
-          }));
-      }
-
-      const aiResult = await regenerateResponse(
-        getMessageContentForAI(message),
-        message.type as "dm" | "comment",
-        message.senderName,
-        previousResponse,
-        userId,
-        commentContext,
-        conversationHistory
-      );
+      const result = await regenerateReply(message);
 
       // Check if AI generation failed
-      if (aiResult.error || aiResult.errorCode) {
-        console.error(`[Regenerate] AI Error: ${aiResult.errorCode} - ${aiResult.error}`);
+      if (!result.aiResponse) {
+        console.error(`[Regenerate] AI Error: ${result.errorCode} - ${result.error}`);
         return res.status(500).json({
-          error: aiResult.error || "Erro ao gerar resposta da IA",
-          errorCode: aiResult.errorCode,
+          error: result.error || "Erro ao gerar resposta da IA",
+          errorCode: result.errorCode,
           aiConfigured: !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY || !!process.env.OPENAI_API_KEY,
         });
       }
 
-      let aiResponse = await storage.getAiResponse(id, userId);
-      if (aiResponse) {
-        await storage.updateAiResponse(aiResponse.id, userId, {
-          suggestedResponse: aiResult.suggestedResponse,
-          confidenceScore: aiResult.confidenceScore,
-        });
-        aiResponse = {
-          ...aiResponse,
-          suggestedResponse: aiResult.suggestedResponse,
-          confidenceScore: aiResult.confidenceScore,
-        };
+      res.json({ aiResponse: result.aiResponse });
+    } catch (error) {
+      console.error("Error regenerating response:", error);
+      res.status(500).json({ error: "Failed to regenerate response" });
+    }
+  });
+
+  // Bulk approve (the reply as it stands) / reject / regenerate pending messages.
+  // Items are processed one by one and each gets its own result; one failed send never aborts the batch.
+  app.post("/api/messages/bulk", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, actorUserId, excludeSenderIds, excludeSenderUsernames, accountId } = await getUserContext(req);
+      const parsed = schema.bulkMessageActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid bulk action" });
+      }
+      const { action, messageIds, filter } = parsed.data;
+      const limit = BULK_ACTION_LIMITS[action];
+
+      let ids: number[];
+      let truncated = false;
+      if (messageIds) {
+        ids = Array.from(new Set(messageIds));
+        if (ids.length > limit) {
+          return res.status(400).json({ error: `No máximo ${limit} mensagens por vez` });
+        }
       } else {
-        aiResponse = await storage.createAiResponse({
-          messageId: id,
-          suggestedResponse: aiResult.suggestedResponse,
-          confidenceScore: aiResult.confidenceScore,
-        });
+        // Resolve the filter server-side so "everything above N%" covers pages the client never loaded
+        ids = [];
+        let cursor: string | undefined;
+        do {
+          const page = await storage.searchMessages(
+            userId,
+            { ...filter, status: ["pending"], limit: 100, cursor },
+            { accountId, excludeSenderIds, excludeSenderUsernames }
+          );
+          ids.push(...page.items.map(m => m.id));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor && ids.length < limit);
+        truncated = ids.length > limit || !!cursor;
+        ids = ids.slice(0, limit);
       }
 
-      res.json({ aiResponse });
+      const results: schema.BulkItemResult[] = [];
+      for (const id of ids) {
+        try {
+          const message = await storage.getMessage(id, userId);
+          if (!message) {
+            results.push({ messageId: id, status: "skipped", error: "Message not found" });
+            continue;
+          }
+          // Already handled (by someone else, or by an earlier batch)
+          if (message.status !== "pending") {
+            results.push({ messageId: id, status: "skipped", error: `Status: ${message.status}` });
+            continue;
+          }
+
+          if (action === "reject") {
+            await storage.updateMessageStatus(id, userId, "rejected");
+            if (message.aiResponse) {
+              await storage.updateAiResponse(message.aiResponse.id, userId, { wasApproved: false });
+            }
+            results.push({ messageId: id, status: "rejected" });
+          } else if (action === "regenerate") {
+            const result = await regenerateReply(message);
+            results.push(result.aiResponse
+              ? { messageId: id, status: "regenerated" }
+              : { messageId: id, status: "failed", error: result.error || result.errorCode || "Erro ao gerar resposta da IA" });
+          } else {
+            const aiResponse = message.aiResponse;
+            if (!aiResponse) {
+              results.push({ messageId: id, status: "skipped", error: "Sem sugestão da IA" });
+              continue;
+            }
+            // Replies held by the safety filter need someone to read the reasons first
+            if (aiResponse.safetyFlags) {
+              results.push({ messageId: id, status: "skipped", error: "Retida pelo filtro de segurança" });
+              continue;
+            }
+            const response = aiResponse.finalResponse || aiResponse.suggestedResponse;
+            const { sendResult, sendAt } = await approveReply(message, aiResponse, response, aiResponse.wasEdited, null, actorUserId, false);
+            if (sendAt) {
+              results.push({ messageId: id, status: "scheduled", sendAt: sendAt.toISOString() });
+            } else if (sendResult.success) {
+              results.push({ messageId: id, status: "sent" });
+            } else {
+              results.push({ messageId: id, status: "failed", error: sendResult.error || "Falha no envio" });
+            }
+          }
+        } catch (error) {
+          console.error(`[Bulk] Erro em ${action} da mensagem ${id}:`, error);
+          results.push({ messageId: id, status: "failed", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      const counts: Record<schema.BulkItemStatus, number> = { sent: 0, scheduled: 0, rejected: 0, regenerated: 0, skipped: 0, failed: 0 };
+      for (const result of results) {
+        counts[result.status]++;
+      }
+      console.log(`[Bulk] ${action} de ${results.length} mensagens por ${actorUserId}:`, counts);
+
+      const response: schema.BulkActionResponse = { results, counts, truncated };
+      res.json(response);
     } catch (error) {
-      console.error("Error regenerating response:", error);
-      res.status(500).json({ error: "Failed to regenerate response" });
+      console.error("Error running bulk action:", error);
+      res.status(500).json({ error: "Failed to run bulk action" });
+    }
+  });
+
+  // Copilot change sets: proposed by the trainer copilot, applied only when someone confirms.
+  // Here (not in the brain router) because draft regeneration shares regenerateReply with the queue.
+  app.get("/api/copilot/change-sets", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      res.json(await storage.getCopilotChangeSets(userId, 50));
+    } catch (error) {
+      console.error("Error fetching copilot change sets:", error);
+      res.status(500).json({ error: "Failed to fetch copilot change sets" });
+    }
+  });
+
+  app.post("/api/copilot/change-sets/:id/apply", isAuthenticated, async (req, res) => {
+    // Set while this request holds the set in "applying", so a failure never leaves it stuck there
+    let claimedId: number | null = null;
+    let results: schema.CopilotChangeResult[] = [];
+    try {
+      const { userId, actorUserId } = await getUserContext(req);
+      const id = parseInt(req.params.id);
+      const claimed = await storage.decideCopilotChangeSet(id, userId, "applying", actorUserId);
+      if (!claimed) {
+        const existing = await storage.getCopilotChangeSet(id, userId);
+        return existing
+          ? res.status(409).json({ error: "Change set already decided", status: existing.status })
+          : res.status(404).json({ error: "Change set not found" });
+      }
+      claimedId = id;
+
+      // Stored changes are re-validated: the schema may have tightened since they were proposed
+      const parsed = z.array(schema.copilotChangeSchema).safeParse(claimed.changes);
+      if (!parsed.success) {
+        await storage.finishCopilotChangeSet(id, "failed", []);
+        claimedId = null;
+        return res.status(400).json({ error: "Invalid change set", details: parsed.error.flatten() });
+      }
+
+      const applied = await applyCopilotChanges(parsed.data, {
+        userId,
+        actorUserId,
+        regenerateDraft: regenerateReply,
+      });
+      results = applied.results;
+      const changeSet = await storage.finishCopilotChangeSet(id, applied.status, results);
+      claimedId = null;
+      console.log(`[Copilot] Change set ${id} ${applied.status} by ${actorUserId}:`, results.map(r => r.status).join(", "));
+      res.json(changeSet);
+    } catch (error) {
+      console.error("Error applying copilot change set:", error);
+      if (claimedId !== null) {
+        try {
+          await storage.finishCopilotChangeSet(claimedId, "failed", results);
+        } catch (finishError) {
+          console.error(`[Copilot] Could not mark change set ${claimedId} as failed:`, finishError);
+        }
+      }
+      res.status(500).json({ error: "Failed to apply copilot change set" });
+    }
+  });
+
+  app.post("/api/copilot/change-sets/:id/reject", isAuthenticated, async (req, res) => {
+    try {
+      const { userId, actorUserId } = await getUserContext(req);
+      const id = parseInt(req.params.id);
+      const changeSet = await storage.decideCopilotChangeSet(id, userId, "rejected", actorUserId);
+      if (!changeSet) {
+        const existing = await storage.getCopilotChangeSet(id, userId);
+        return existing
+          ? res.status(409).json({ error: "Change set already decided", status: existing.status })
+          : res.status(404).json({ error: "Change set not found" });
+      }
+      res.json(changeSet);
+    } catch (error) {
+      console.error("Error rejecting copilot change set:", error);
+      res.status(500).json({ error: "Failed to reject copilot change set" });
     }
   });
 
@@ -1969,6 +2843,9 @@ export async function registerRoutes(
 
       const isInstagramConnected = !!(user.instagramAccountId && user.instagramAccessToken);
 
+      const globalAiProvider = await storage.getSetting("global_aiProvider");
+      const globalAiModel = await storage.getSetting("global_aiModel");
+
       res.json({
         instagramConnected: isInstagramConnected,
         instagramUsername: user.instagramUsername || "",
@@ -1977,6 +2854,9 @@ export async function registerRoutes(
         confidenceThreshold: Math.round(parseFloat(autoApproveThreshold) * 100),
         systemPrompt: aiContext,
         aiTone,
+        aiProvider: user.aiProvider || null, // null = follow the global provider
+        aiModel: user.aiModel || "",
+        availableProviders: LLM_PROVIDERS,
         autoReplyEnabled: operationMode === "auto" || operationMode === "semi_auto",
         // Include info about which settings are personalized vs global (for UI indication)
         isPersonalized: {
@@ -1984,6 +2864,7 @@ export async function registerRoutes(
           confidenceThreshold: !!user.autoApproveThreshold,
           systemPrompt: !!user.aiContext,
           aiTone: !!user.aiTone,
+          aiProvider: !!user.aiProvider,
         },
         // Global defaults for reference
         globalDefaults: {
@@ -1991,6 +2872,8 @@ export async function registerRoutes(
           confidenceThreshold: Math.round(parseFloat(globalAutoApproveThreshold?.value || "0.9") * 100),
           systemPrompt: globalAiContext?.value || "",
           aiTone: globalAiTone?.value || "",
+          aiProvider: globalAiProvider?.value || "openai",
+          aiModel: globalAiModel?.value || "",
         },
       });
     } catch (error) {
@@ -2002,7 +2885,7 @@ export async function registerRoutes(
   // Update settings (per-user)
   app.patch("/api/settings", isAuthenticated, async (req, res) => {
     try {
-      const { userId } = await getUserContext(req);
+      const { userId, actorUserId } = await getUserContext(req);
       const updates = req.body;
 
       const userUpdates: Record<string, string | null> = {};
@@ -2013,18 +2896,32 @@ export async function registerRoutes(
       if (updates.confidenceThreshold !== undefined) {
         userUpdates.autoApproveThreshold = String(updates.confidenceThreshold / 100);
       }
-      if (updates.systemPrompt !== undefined) {
-        userUpdates.aiContext = updates.systemPrompt;
+      if (updates.systemPrompt !== undefined && updates.systemPrompt !== null && typeof updates.systemPrompt !== "string") {
+        return res.status(400).json({ error: "Invalid system prompt" });
       }
       if (updates.aiTone !== undefined) {
         userUpdates.aiTone = updates.aiTone;
       }
+      if (updates.aiProvider !== undefined) {
+        if (updates.aiProvider !== null && !isLLMProviderName(updates.aiProvider)) {
+          return res.status(400).json({ error: "Invalid AI provider" });
+        }
+        userUpdates.aiProvider = updates.aiProvider;
+      }
+      if (updates.aiModel !== undefined) {
+        userUpdates.aiModel = String(updates.aiModel || "").trim() || null;
+      }
 
       // Update user record with new settings
       if (Object.keys(userUpdates).length > 0) {
         await authStorage.updateUser(userId, userUpdates);
       }
 
+      // The system prompt is versioned (the trainer's architect mode sends promptSource: "architect")
+      if (updates.systemPrompt !== undefined) {
+        await saveSystemPrompt(userId, updates.systemPrompt, updates.promptSource === "architect" ? "architect" : "manual", actorUserId);
+      }
+
       res.json({ success: true });
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -2082,6 +2979,8 @@ export async function registerRoutes(
           messageId: message.id,
           suggestedResponse: aiResult.suggestedResponse,
           confidenceScore: aiResult.confidenceScore,
+          traceId: aiResult.traceId,
+          promptVersionId: aiResult.promptVersionId ?? null,
         });
       }
 
@@ -2504,10 +3403,43 @@ export async function registerRoutes(
       console.log(`instagramRecipientId AUTO-CONFIGURED to: ${finalInstagramRecipientId}`);
       console.log(`OAuth IDs for reference - tokenUserId: ${tokenUserId}, instagramAccountId: ${finalInstagramAccountId}`);
 
+      // An Instagram account can only belong to one workspace
+      const existingAccount = await storage.findInstagramAccountByWebhookId(finalInstagramAccountId);
+      if (existingAccount && existingAccount.instagramAccountId === finalInstagramAccountId && existingAccount.userId !== userId) {
+        console.log(`[OAUTH] ❌ Account ${finalInstagramAccountId} already connected to another user`);
+        return res.redirect("/settings?instagram_error=account_already_connected");
+      }
+
       console.log(`[OAUTH] 💾 ABOUT TO SAVE - UserID: ${userId}`);
-      console.log(`[OAUTH] 💾 Updates object:`, JSON.stringify(updates, null, 2));
 
-      await authStorage.updateUser(userId, updates);
+      const savedAccount = await storage.upsertInstagramAccount({
+        userId,
+        instagramAccountId: finalInstagramAccountId,
+        instagramUsername,
+        instagramProfilePic: profilePictureUrl || null,
+        instagramRecipientId: finalInstagramRecipientId,
+        facebookPageId,
+        accessToken: longLivedToken,
+        tokenExpiresAt,
+        tokenRefreshedAt: new Date(),
+        refreshAttempts: 0,
+        lastRefreshError: null,
+        showTokenWarning: false,
+      });
+      console.log(`[OAUTH] 💾 Instagram account #${savedAccount.id} saved (@${instagramUsername})`);
+
+      // The users row keeps mirroring the primary account: only overwrite it on the
+      // first connection or when reconnecting that same account. Connecting a
+      // different account while one is already connected adds a new account.
+      const isPrimaryAccount = !existingUser?.instagramAccountId ||
+        existingUser.instagramAccountId === finalInstagramAccountId;
+
+      if (isPrimaryAccount) {
+        console.log(`[OAUTH] 💾 Updates object:`, JSON.stringify(updates, null, 2));
+        await authStorage.updateUser(userId, updates);
+      } else {
+        console.log(`[OAUTH] ➕ Added secondary account @${instagramUsername}; primary remains @${existingUser?.instagramUsername}`);
+      }
 
 
       console.log(`[OAUTH] ✅ SAVE COMPLETED for user ${userId}`);
@@ -2559,6 +3491,11 @@ export async function registerRoutes(
       await storage.setSetting("lastUnmappedWebhookTimestamp", "");
       console.log(`[OAUTH] ✅ Cleared lastUnmappedWebhookRecipientId and Timestamp`);
 
+      if (!isPrimaryAccount) {
+        delete (req.session as any).instagramAuthUserId;
+        return res.redirect("/settings?instagram_connected=true");
+      }
+
       // Update global settings
       await storage.setSetting("instagramConnected", "true");
 
@@ -2591,8 +3528,14 @@ export async function registerRoutes(
   // Sync Instagram messages and comments
   app.post("/api/instagram/sync", isAuthenticated, async (req, res) => {
     try {
-      const { userId } = await getUserContext(req);
-      const user = await authStorage.getUser(userId);
+      const { userId, accountId } = await getUserContext(req);
+      const owner = await authStorage.getUser(userId);
+      // Sync the account selected in the UI, or the primary connection
+      const accounts = await storage.getInstagramAccounts(userId);
+      const account = accounts.find(a =>
+        accountId ? a.id === accountId : a.instagramAccountId === owner?.instagramAccountId
+      );
+      const user = owner && account ? withInstagramAccount(owner, account) : owner;
 
       if (!user?.instagramAccessToken || !user?.instagramAccountId) {
         return res.status(400).json({ error: "Instagram not connected" });
@@ -2662,6 +3605,7 @@ export async function registerRoutes(
 
                       const newMessage = await storage.createMessage({
                         userId,
+                        accountId: account?.id ?? null,
                         instagramId: comment.id,
                         type: "comment",
                         senderName: displayName,
@@ -2680,6 +3624,7 @@ export async function registerRoutes(
 
                       // AI Response Logic for new messages
                       try {
+                        const { context, experiment } = await generationContextFor(newMessage);
                         const aiResult = await generateAIResponse(
                           comment.text,
                           "comment",
@@ -2689,13 +3634,20 @@ export async function registerRoutes(
                             postCaption,
                             postPermalink: post.permalink || null,
                             postThumbnailUrl,
-                          }
+                          },
+                          undefined,
+                          undefined,
+                          context
                         );
 
                         await storage.createAiResponse({
                           messageId: newMessage.id,
                           suggestedResponse: aiResult.suggestedResponse,
                           confidenceScore: aiResult.confidenceScore,
+                          traceId: aiResult.traceId,
+                          promptVersionId: aiResult.promptVersionId ?? null,
+                          experimentId: experiment?.experimentId ?? null,
+                          experimentVariant: experiment?.variant ?? null,
                         });
                       } catch (aiError: any) {
                         console.error("AI error:", aiError);
@@ -2725,6 +3677,7 @@ export async function registerRoutes(
                           console.log(`[SYNC] Storing reply from ${replyUsername}: "${reply.text}"`);
                           const newReply = await storage.createMessage({
                             userId,
+                            accountId: account?.id ?? null,
                             instagramId: reply.id,
                             type: "comment", // It's still a comment
                             senderName: replyDisplayName,
@@ -2856,43 +3809,207 @@ export async function registerRoutes(
     console.error(`Missing environment variables: ${missingEnvVars.join(', ')}`);
     console.error("The server cannot start safely without these variables.");
 
-    // In production, we might want to exit. In Replit dev, we warn aggressively.
-    if (process.env.NODE_ENV === 'production') {
-      console.error("EXITING due to missing configuration.");
-      process.exit(1);
+    // In production, we might want to exit. In Replit dev, we warn aggressively.
+    if (process.env.NODE_ENV === 'production') {
+      console.error("EXITING due to missing configuration.");
+      process.exit(1);
+    }
+  } else {
+    console.log("[SYSTEM] ✅ Integrity Check Passed: Critical environment variables present.");
+  }
+
+  app.post("/api/instagram/disconnect", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+
+      // Clear imported media and interactions before disconnecting
+      const mediaDeleted = await storage.clearMediaLibrary(userId);
+      const interactionsDeleted = await storage.clearInteractionDialect(userId);
+      console.log(`[Instagram Disconnect] Cleared ${mediaDeleted} media entries and ${interactionsDeleted} interactions for user ${userId}`);
+
+      // Delete all Instagram profiles for this user in a single batch operation
+      const profilesDeleted = await storage.deleteInstagramProfilesByUserId(userId);
+      console.log(`[Instagram Disconnect] Deleted ${profilesDeleted} Instagram profile(s) for user ${userId}`);
+
+      // Remove every connected account of the workspace
+      const accounts = await storage.getInstagramAccounts(userId);
+      for (const account of accounts) {
+        await storage.deleteInstagramAccount(account.id, userId);
+      }
+
+      // Clear user's Instagram credentials
+      await authStorage.updateUser(userId, {
+        instagramAccountId: null,
+        instagramUsername: null,
+        instagramAccessToken: null,
+      });
+
+      // Update global settings
+      await storage.setSetting("instagramConnected", "false");
+      await storage.setSetting("instagramUsername", "");
+
+      res.json({ success: true, mediaDeleted, interactionsDeleted, profilesDeleted, accountsDeleted: accounts.length });
+    } catch (error) {
+      console.error("Error disconnecting Instagram:", error);
+      res.status(500).json({ error: "Failed to disconnect Instagram" });
+    }
+  });
+
+  // List the workspace's connected Instagram accounts (tokens are never exposed)
+  app.get("/api/instagram/accounts", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      const user = await authStorage.getUser(userId);
+      const accounts = await storage.getInstagramAccounts(userId);
+
+      res.json(accounts.map(account => ({
+        id: account.id,
+        instagramAccountId: account.instagramAccountId,
+        instagramUsername: account.instagramUsername,
+        instagramProfilePic: account.instagramProfilePic,
+        tokenExpiresAt: account.tokenExpiresAt,
+        showTokenWarning: account.showTokenWarning,
+        operationMode: account.operationMode,
+        confidenceThreshold: account.autoApproveThreshold
+          ? Math.round(parseFloat(account.autoApproveThreshold) * 100)
+          : null,
+        sendSchedule: account.sendSchedule,
+        safetyFilter: account.safetyFilter,
+        commentModeration: account.commentModeration,
+        isPrimary: account.instagramAccountId === user?.instagramAccountId,
+        connected: !!account.accessToken,
+      })));
+    } catch (error) {
+      console.error("Error fetching Instagram accounts:", error);
+      res.status(500).json({ error: "Failed to fetch Instagram accounts" });
+    }
+  });
+
+  // Graph API budget per connected account (in-memory since the last restart)
+  app.get("/api/instagram/usage", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      const accounts = await storage.getInstagramAccounts(userId);
+
+      res.json(accounts.map(account => ({
+        accountId: account.id,
+        instagramUsername: account.instagramUsername,
+        ...getUsageSnapshot(account.instagramAccountId),
+      })));
+    } catch (error) {
+      console.error("Error fetching Instagram API usage:", error);
+      res.status(500).json({ error: "Failed to fetch Instagram API usage" });
+    }
+  });
+
+  // Per-account reply settings (null = inherit the workspace settings)
+  app.patch("/api/instagram/accounts/:id", isAuthenticated, async (req, res) => {
+    try {
+      const { userId } = await getUserContext(req);
+      const id = parseInt(req.params.id);
+      const { operationMode, confidenceThreshold, sendSchedule, safetyFilter, commentModeration } = req.body;
+      const updates: Partial<schema.InsertInstagramAccount> = {};
+
+      if (operationMode !== undefined) {
+        if (operationMode !== null && !["manual", "semi_auto", "auto"].includes(operationMode)) {
+          return res.status(400).json({ error: "Invalid operation mode" });
+        }
+        updates.operationMode = operationMode;
+      }
+
+      if (confidenceThreshold !== undefined) {
+        if (confidenceThreshold === null) {
+          updates.autoApproveThreshold = null;
+        } else {
+          const threshold = Number(confidenceThreshold);
+          if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+            return res.status(400).json({ error: "Invalid confidence threshold" });
+          }
+          updates.autoApproveThreshold = (threshold / 100).toString();
+        }
+      }
+
+      if (sendSchedule !== undefined) {
+        if (sendSchedule === null) {
+          updates.sendSchedule = null;
+        } else {
+          const parsed = schema.sendScheduleSchema.safeParse(sendSchedule);
+          if (!parsed.success || !isValidTimeZone(parsed.data.timezone)) {
+            return res.status(400).json({ error: "Invalid send schedule" });
+          }
+          updates.sendSchedule = parsed.data;
+        }
+      }
+
+      if (safetyFilter !== undefined) {
+        if (safetyFilter === null) {
+          updates.safetyFilter = null;
+        } else {
+          const parsed = schema.safetyFilterSchema.safeParse(safetyFilter);
+          if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid safety filter" });
+          }
+          updates.safetyFilter = parsed.data;
+        }
+      }
+
+      if (commentModeration !== undefined) {
+        if (commentModeration === null) {
+          updates.commentModeration = null;
+        } else {
+          const parsed = schema.commentModerationSchema.safeParse(commentModeration);
+          if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid comment moderation settings" });
+          }
+          updates.commentModeration = parsed.data;
+        }
+      }
+
+      const account = await storage.updateInstagramAccount(id, userId, updates);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error updating Instagram account:", error);
+      res.status(500).json({ error: "Failed to update Instagram account" });
     }
-  } else {
-    console.log("[SYSTEM] ✅ Integrity Check Passed: Critical environment variables present.");
-  }
+  });
 
-  app.post("/api/instagram/disconnect", isAuthenticated, async (req, res) => {
+  // Remove a single connected account
+  app.delete("/api/instagram/accounts/:id", isAuthenticated, async (req, res) => {
     try {
       const { userId } = await getUserContext(req);
+      const id = parseInt(req.params.id);
 
-      // Clear imported media and interactions before disconnecting
-      const mediaDeleted = await storage.clearMediaLibrary(userId);
-      const interactionsDeleted = await storage.clearInteractionDialect(userId);
-      console.log(`[Instagram Disconnect] Cleared ${mediaDeleted} media entries and ${interactionsDeleted} interactions for user ${userId}`);
-
-      // Delete all Instagram profiles for this user in a single batch operation
-      const profilesDeleted = await storage.deleteInstagramProfilesByUserId(userId);
-      console.log(`[Instagram Disconnect] Deleted ${profilesDeleted} Instagram profile(s) for user ${userId}`);
+      const account = await storage.getInstagramAccount(id, userId);
+      if (!account) {
+        return res.status(404).json({ error: "Account not found" });
+      }
 
-      // Clear user's Instagram credentials
-      await authStorage.updateUser(userId, {
-        instagramAccountId: null,
-        instagramUsername: null,
-        instagramAccessToken: null,
-      });
+      await storage.deleteInstagramAccount(id, userId);
 
-      // Update global settings
-      await storage.setSetting("instagramConnected", "false");
-      await storage.setSetting("instagramUsername", "");
+      // If the primary account was removed, promote the next one (or clear the connection)
+      const user = await authStorage.getUser(userId);
+      if (user?.instagramAccountId === account.instagramAccountId) {
+        const [next] = await storage.getInstagramAccounts(userId);
+        await authStorage.updateUser(userId, {
+          instagramAccountId: next?.instagramAccountId ?? null,
+          instagramUsername: next?.instagramUsername ?? null,
+          instagramProfilePic: next?.instagramProfilePic ?? null,
+          instagramRecipientId: next?.instagramRecipientId ?? null,
+          facebookPageId: next?.facebookPageId ?? null,
+          instagramAccessToken: next?.accessToken ?? null,
+          tokenExpiresAt: next?.tokenExpiresAt ?? null,
+        });
+        console.log(`[Instagram Accounts] Primary account @${account.instagramUsername} removed; new primary: ${next ? "@" + next.instagramUsername : "none"}`);
+      }
 
-      res.json({ success: true, mediaDeleted, interactionsDeleted, profilesDeleted });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error disconnecting Instagram:", error);
-      res.status(500).json({ error: "Failed to disconnect Instagram" });
+      console.error("Error removing Instagram account:", error);
+      res.status(500).json({ error: "Failed to remove Instagram account" });
     }
   });
 
@@ -3246,10 +4363,6 @@ export async function registerRoutes(
       recentWebhooks.pop();
     }
 
-    // 🔒 DEDUPLICATION: Track processed message IDs within this webhook request
-    // Prevents duplicate processing when Meta sends same message in both 'changes' and 'messaging' arrays
-    const processedMessageIds = new Set<string>();
-
     try {
       // Verify webhook signature from Meta
       const signature = req.headers["x-hub-signature-256"] as string | undefined;
@@ -3306,7 +4419,22 @@ export async function registerRoutes(
         return res.sendStatus(404);
       }
 
-      // Process each entry
+      // Persist each event to the durable queue; the worker does the heavy processing
+      // (profile lookups, transcription, AI) after Meta has been acknowledged
+      let enqueuedCount = 0;
+      let duplicateCount = 0;
+      const receivedAt = new Date(webhookReceiveTimestamp);
+
+      const enqueue = async (eventType: string, idempotencyKey: string, entryId: string, payload: any) => {
+        const job = await storage.enqueueWebhookJob({ idempotencyKey, eventType, entryId, payload, createdAt: receivedAt });
+        if (job) {
+          enqueuedCount++;
+        } else {
+          duplicateCount++;
+          console.log(`[WEBHOOK-QUEUE] ⏭️ DEDUP: ${idempotencyKey} já está na fila, ignorando`);
+        }
+      };
+
       for (const entryItem of entry || []) {
 
         // DEBUG MODE LOGGING - ENTRY PROCESSING
@@ -3325,97 +4453,140 @@ export async function registerRoutes(
           })
         }).catch(() => { });
 
+        const entryId = String(entryItem.id ?? "");
         const changes = entryItem.changes || [];
         const messaging = entryItem.messaging || [];
 
-        console.log(`Entry ID: ${entryItem.id}, Changes: ${changes.length}, Messaging: ${messaging.length}`);
+        console.log(`Entry ID: ${entryId}, Changes: ${changes.length}, Messaging: ${messaging.length}`);
 
-        // Process comments and mentions (Instagram Graph API format)
+        // Comments and mentions (Instagram Graph API format)
         for (const change of changes) {
           console.log(`=== CHANGE RECEIVED: field="${change.field}" ===`);
-          console.log("Change value:", JSON.stringify(change.value).substring(0, 500));
-
-          if (change.field === "comments") {
-            console.log(">>> Processing COMMENT webhook");
-            await processWebhookComment(change.value, entryItem.id);
-          } else if (change.field === "mentions") {
-            console.log(">>> Processing MENTION webhook");
-            await processWebhookComment(change.value, entryItem.id);
-          } else if (change.field === "messages") {
-            // Instagram Graph API DM format (different from Messenger Platform)
-            console.log("╔════════════════════════════════════════════════════════════════════╗");
-            console.log("║  📨 WEBHOOK field='messages' DETECTADO - FORMATO GRAPH API DM     ║");
-            console.log("╚════════════════════════════════════════════════════════════════════╝");
-            console.log("[DM-GRAPH] Entry ID:", entryItem.id);
-            console.log("[DM-GRAPH] Change value keys:", Object.keys(change.value || {}));
-            console.log("[DM-GRAPH] Change value (parcial):", JSON.stringify(change.value).substring(0, 800));
-
-            // Try to process as DM - adapt Graph API format to Messenger format
-            const graphValue = change.value;
-            if (graphValue) {
-              // Graph API format typically has: sender, recipient, timestamp, message
-              const adaptedMessage = {
-                sender: graphValue.sender || { id: graphValue.from?.id },
-                recipient: { id: entryItem.id },
-                message: {
-                  mid: graphValue.id || graphValue.message_id || `graph_${Date.now()}`,
-                  text: graphValue.text || graphValue.message?.text,
-                  attachments: graphValue.attachments || graphValue.message?.attachments
-                },
-                timestamp: graphValue.timestamp || Date.now()
-              };
 
-              console.log("[DM-GRAPH] Adapted message for processing:", JSON.stringify(adaptedMessage).substring(0, 500));
-
-              if (adaptedMessage.sender?.id || graphValue.from?.id) {
-                console.log(">>> Processing DM from Graph API format");
-                await processWebhookMessage(adaptedMessage, entryItem.id, processedMessageIds);
-              } else {
-                console.log("[DM-GRAPH] ⚠️ Could not extract sender ID from Graph API payload");
-              }
-            }
+          if (change.field === "comments" || change.field === "mentions") {
+            const commentId = change.value?.id || change.value?.comment_id;
+            await enqueue(
+              change.field === "mentions" ? "mention" : "comment",
+              webhookIdempotencyKey("comment", commentId, change.value),
+              entryId,
+              change.value
+            );
+          } else if (change.field === "messages") {
+            // Instagram Graph API DM format - adapted to Messenger format by the worker
+            const mid = change.value?.id || change.value?.message_id;
+            await enqueue("graph_message", webhookIdempotencyKey("dm", mid, change.value), entryId, change.value);
           } else {
             console.log(`>>> Unknown field type: ${change.field}`);
           }
         }
 
-        // Process direct messages (Messenger Platform format)
-        // IMPORTANT: Pass entryItem.id to identify which account received the webhook
+        // Direct messages (Messenger Platform format)
+        // Same "dm:" key as the Graph API format, so a mid delivered in both arrays is only queued once
         for (const messageEvent of messaging) {
-
-          // DEBUG MODE LOGGING - MESSAGING EVENT
-          fetch('http://localhost:7242/ingest/28fbbae3-ada8-4b01-b8f6-6f5b0b63015b', {
-            method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({
-              location: 'server/routes/index.ts:messaging_loop',
-              message: 'Processando evento de mensagem',
-              data: {
-                messageEvent: messageEvent,
-                entryId: entryItem.id
-              },
-              timestamp: Date.now(),
-              sessionId: 'debug-session',
-              hypothesisId: '3'
-            })
-          }).catch(() => { });
-
-          console.log("=== MESSAGING EVENT RECEIVED ===");
-          console.log("Messaging event:", JSON.stringify(messageEvent).substring(0, 500));
-          console.log(`Entry ID (account that received webhook): ${entryItem.id}`);
-
           if (messageEvent.message) {
-            console.log(">>> Processing DM webhook");
-            await processWebhookMessage(messageEvent, entryItem.id, processedMessageIds);
+            await enqueue("message", webhookIdempotencyKey("dm", messageEvent.message.mid, messageEvent), entryId, messageEvent);
           }
         }
       }
 
-      // Always respond quickly to webhooks
+      console.log(`[WEBHOOK-QUEUE] ✅ ${enqueuedCount} evento(s) enfileirado(s), ${duplicateCount} duplicado(s)`);
+
+      // Acknowledge immediately - processing happens in the queue worker
       res.sendStatus(200);
+      kickWebhookQueueWorker();
     } catch (error) {
-      console.error("Error processing webhook:", error);
-      // Still respond 200 to prevent Meta from retrying
-      res.sendStatus(200);
+      console.error("Error enqueueing webhook:", error);
+      // Nothing was persisted: let Meta redeliver instead of losing the event
+      res.sendStatus(500);
+    }
+  });
+
+  // Builds the durable deduplication key for a webhook event.
+  // Falls back to a hash of the payload when Meta doesn't send an ID.
+  function webhookIdempotencyKey(prefix: string, id: string | undefined, payload: any): string {
+    if (id) return `${prefix}:${id}`;
+    const hash = crypto.createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+    return `${prefix}:sha256:${hash}`;
+  }
+
+  // Queue worker entry point: dispatches a persisted event to the matching processor.
+  // Errors propagate so the worker can retry with backoff.
+  async function processWebhookJob(job: WebhookJob) {
+    currentWebhookTimestamp = job.createdAt.toISOString();
+    const payload = job.payload as any;
+
+    console.log(`[WEBHOOK-QUEUE] Processando job ${job.id} (${job.eventType}, tentativa ${job.attempts})`);
+
+    if (job.eventType === "comment" || job.eventType === "mention") {
+      await processWebhookComment(payload, job.entryId);
+    } else if (job.eventType === "graph_message") {
+      // Graph API format typically has: sender, recipient, timestamp, message
+      const adaptedMessage = {
+        sender: payload.sender || { id: payload.from?.id },
+        recipient: { id: job.entryId },
+        message: {
+          // Stable across retries so message dedup still recognises the event
+          mid: payload.id || payload.message_id || `graph_${job.idempotencyKey}`,
+          text: payload.text || payload.message?.text,
+          attachments: payload.attachments || payload.message?.attachments
+        },
+        timestamp: payload.timestamp || Date.now()
+      };
+
+      if (adaptedMessage.sender?.id) {
+        console.log(">>> Processing DM from Graph API format");
+        await processWebhookMessage(adaptedMessage, job.entryId);
+      } else {
+        console.log("[DM-GRAPH] ⚠️ Could not extract sender ID from Graph API payload");
+      }
+    } else if (job.eventType === "message") {
+      await processWebhookMessage(payload, job.entryId);
+    } else {
+      console.log(`[WEBHOOK-QUEUE] Tipo de evento desconhecido: ${job.eventType}`);
+    }
+  }
+
+  setWebhookJobHandler(processWebhookJob);
+
+  // Delivers outbox entries when their send time comes (see jobs/send-scheduler-job.ts)
+  setScheduledSendHandler(async (scheduled) => {
+    const message = await storage.getMessage(scheduled.messageId, scheduled.userId);
+    if (!message) {
+      return { success: false, error: "Message not found" };
+    }
+
+    const result = await deliverReply(message, scheduled.responseText);
+    if (result.success) {
+      await storage.updateMessageStatus(message.id, message.userId, scheduled.origin === "auto" ? "auto_sent" : "approved");
+      if (message.aiResponse) {
+        await storage.updateAiResponse(message.aiResponse.id, message.userId, {
+          finalResponse: scheduled.responseText,
+          wasApproved: true,
+          approvedAt: new Date(),
+        });
+      }
+    }
+    return result;
+  });
+
+  // Sends queued comment -> DM private replies (see jobs/private-reply-job.ts)
+  setPrivateReplyHandler(async (reply) => {
+    const message = await storage.getMessage(reply.messageId, reply.userId);
+    if (!message || message.type !== "comment") {
+      return { success: false, error: "Comment not found" };
+    }
+
+    const owner = await authStorage.getUser(message.userId);
+    const messageOwner = owner && await resolveMessageSender(message, owner);
+    if (!messageOwner?.instagramAccessToken || !messageOwner?.instagramAccountId) {
+      return { success: false, error: "Instagram not connected for this user" };
     }
+
+    const rawToken = messageOwner.instagramAccessToken;
+    const accessToken = isEncrypted(rawToken) ? decrypt(rawToken) : rawToken;
+    const result = await sendPrivateReply(message.instagramId, reply.text, accessToken, messageOwner.instagramAccountId);
+    // Older Graph versions omit recipient_id; the comment author's id is the same IGSID
+    return result.success ? { ...result, recipientId: result.recipientId || message.senderId || undefined } : result;
   });
 
   // Helper function to process incoming comments from webhooks
@@ -3434,16 +4605,6 @@ export async function registerRoutes(
       const text = commentData.text;
       const fromUser = commentData.from;
 
-      // 🔒 GLOBAL DEDUPLICATION: Check if already processed in ANY recent webhook request
-      // This prevents duplicate processing when Meta sends same comment in separate HTTP requests
-      if (commentId && recentlyProcessedMids.has(commentId)) {
-        const cachedTime = recentlyProcessedMids.get(commentId);
-        const ageSeconds = cachedTime ? Math.floor((Date.now() - cachedTime) / 1000) : 0;
-        console.log(`[COMMENT-WEBHOOK] ⏭️ GLOBAL DEDUP: commentId=${commentId} already processed ${ageSeconds}s ago, skipping`);
-        return;
-      }
-      // NOTE: Global cache marking moved to just before DB insertion to prevent false positives
-
       console.log("[COMMENT-WEBHOOK] Dados extraídos:");
       console.log("  - Comment ID:", commentId);
       console.log("  - Media ID:", mediaId);
@@ -3496,13 +4657,21 @@ export async function registerRoutes(
         console.log(`      Match: ${matches ? "✅ SIM" : "❌ NÃO"}`);
       });
 
+      // Match by connected accounts first (a workspace may have several)
+      let instagramUser = await findUserByInstagramAccount(pageId, allUsers);
+      if (instagramUser) {
+        console.log(`[COMMENT-WEBHOOK] ✅ Encontrado pela conta conectada #${instagramUser.accountRecordId} (@${instagramUser.instagramUsername})`);
+      }
+
       // Match by pageId (entry.id = Instagram account ID that received the webhook)
-      let instagramUser = allUsers.find((u: any) =>
-        u.instagramAccountId && u.instagramAccountId === pageId
-      );
+      if (!instagramUser) {
+        instagramUser = allUsers.find((u: any) =>
+          u.instagramAccountId && u.instagramAccountId === pageId
+        );
+      }
 
       // AUTO-CONFIGURE: If matched by instagramAccountId and recipientId is not stored yet, store it
-      if (instagramUser && !instagramUser.instagramRecipientId) {
+      if (instagramUser && !instagramUser.accountRecordId && !instagramUser.instagramRecipientId) {
         try {
           await authStorage.updateUser(instagramUser.id, {
             instagramRecipientId: pageId
@@ -3662,7 +4831,7 @@ export async function registerRoutes(
 
           // Try Instagram Graph API direct lookup
           const directUrl = `https://graph.instagram.com/v21.0/${fromUserId}?fields=profile_pic,profile_picture_url&access_token=${encodeURIComponent(accessToken)}`;
-          const directRes = await fetch(directUrl);
+          const directRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, directUrl);
           const directData = await directRes.json() as any;
 
           if (directRes.ok && (directData.profile_pic || directData.profile_picture_url)) {
@@ -3688,7 +4857,7 @@ export async function registerRoutes(
 
             // Fallback: Try Facebook Graph API
             const fbUrl = `https://graph.facebook.com/v21.0/${fromUserId}?fields=profile_pic&access_token=${encodeURIComponent(accessToken)}`;
-            const fbRes = await fetch(fbUrl);
+            const fbRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, fbUrl);
             const fbData = await fbRes.json() as any;
 
             if (fbRes.ok && fbData.profile_pic) {
@@ -3709,7 +4878,7 @@ export async function registerRoutes(
           const encToken = instagramUser.instagramAccessToken;
           const accessToken = isEncrypted(encToken) ? decrypt(encToken) : encToken;
           const discoveryUrl = `https://graph.instagram.com/v21.0/${instagramUser.instagramAccountId}?fields=business_discovery.username(${username}){profile_picture_url,name,username,followers_count}&access_token=${encodeURIComponent(accessToken)}`;
-          const discoveryRes = await fetch(discoveryUrl);
+          const discoveryRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, discoveryUrl);
           const discoveryData = await discoveryRes.json();
 
           if (discoveryRes.ok && discoveryData?.business_discovery) {
@@ -3757,7 +4926,7 @@ export async function registerRoutes(
           const accessToken = isEncrypted(encToken) ? decrypt(encToken) : encToken;
           // Request permalink, caption, and thumbnail/media URL
           const mediaUrl = `https://graph.instagram.com/v21.0/${mediaId}?fields=permalink,caption,thumbnail_url,media_url,media_type&access_token=${encodeURIComponent(accessToken)}`;
-          const mediaRes = await fetch(mediaUrl);
+          const mediaRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, mediaUrl);
           const mediaData = await mediaRes.json() as any;
 
           if (mediaRes.ok && mediaData) {
@@ -3802,7 +4971,7 @@ export async function registerRoutes(
 
           // Fetch parent comment details from Instagram API
           const parentUrl = `https://graph.instagram.com/v21.0/${parentId}?fields=text,username,from&access_token=${encodeURIComponent(accessToken)}`;
-          const parentRes = await fetch(parentUrl);
+          const parentRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, parentUrl, undefined, 10000);
           const parentData = await parentRes.json() as any;
 
           if (parentRes.ok && parentData) {
@@ -3831,7 +5000,7 @@ export async function registerRoutes(
 
           // Fetch all replies to the parent comment
           const repliesUrl = `https://graph.instagram.com/v21.0/${parentId}/replies?fields=id,text,username,from{id,username}&access_token=${encodeURIComponent(accessToken)}`;
-          const repliesRes = await fetch(repliesUrl);
+          const repliesRes = await graphFetch(instagramUser.instagramAccountId || instagramUser.id, repliesUrl);
           const repliesData = await repliesRes.json() as any;
 
           if (repliesRes.ok && repliesData.data) {
@@ -3872,25 +5041,13 @@ export async function registerRoutes(
         return;
       }
 
-      // 🔒 FINAL DEDUP CHECKPOINT: Mark in global cache just before DB insertion
-      if (commentId) {
-        // Double-check in case of race condition between first check and now
-        if (recentlyProcessedMids.has(commentId)) {
-          const cachedTime = recentlyProcessedMids.get(commentId);
-          const ageSeconds = cachedTime ? Math.floor((Date.now() - cachedTime) / 1000) : 0;
-          console.log(`[COMMENT-WEBHOOK] ⏭️ RACE CONDITION PREVENTED: commentId=${commentId} was marked during processing (${ageSeconds}s ago)`);
-          return;
-        }
-        recentlyProcessedMids.set(commentId, Date.now());
-        console.log(`[COMMENT-WEBHOOK] 🔒 Marked commentId=${commentId} in global cache before DB insertion`);
-      }
-
       // Create the message with error handling for database-level duplicate constraint violations
       console.log("[COMMENT-WEBHOOK] Criando mensagem no banco...");
       let newMessage: InstagramMessage;
       try {
         newMessage = await storage.createMessage({
           userId: instagramUser.id,
+          accountId: instagramUser.accountRecordId ?? null,
           instagramId: commentId,
           type: "comment",
           senderName: displayName,
@@ -3931,6 +5088,15 @@ export async function registerRoutes(
       console.log("  - User ID:", instagramUser.id);
       console.log("  - Type:", "comment");
 
+      // Keep the author's contact current (segments and exports read from it)
+      if (!isManualReply) {
+        try {
+          await storage.recordContactActivity(newMessage);
+        } catch (contactError) {
+          console.error("[COMMENT-WEBHOOK] ⚠️ Erro ao registrar contato:", contactError);
+        }
+      }
+
       // Transcribe video audio if available
       let postVideoTranscription: string | null = null;
       if (postVideoUrl && postMediaType === 'video') {
@@ -3948,8 +5114,32 @@ export async function registerRoutes(
         }
       }
 
-      // Generate AI response with post context (including image for vision and transcription)
+      // Blocklisted authors and comments classified as spam/offensive are hidden before anything else
+      let autoHidden = false;
       if (!isManualReply) {
+        try {
+          autoHidden = await autoModerateComment(newMessage, instagramUser);
+        } catch (moderationError) {
+          console.error("[COMMENT-WEBHOOK] ⚠️ Erro na moderação automática:", moderationError);
+        }
+      }
+
+      // Automation rules run first: they may answer with a fixed reply or keep the AI out
+      let automation: AutomationPlan | null = null;
+      if (!isManualReply && !autoHidden) {
+        try {
+          automation = await runAutomationRules(newMessage, instagramUser);
+        } catch (automationError) {
+          console.error("[COMMENT-WEBHOOK] ⚠️ Erro nas regras de automação:", automationError);
+        }
+      }
+
+      // Generate AI response with post context (including image for vision and transcription)
+      if (autoHidden) {
+        console.log("[COMMENT-WEBHOOK] ⏭️ Pulando IA: comentário ocultado pela moderação automática");
+      } else if (automation?.reply || automation?.skipAI) {
+        console.log("[COMMENT-WEBHOOK] ⏭️ Pulando IA: comentário tratado por regra de automação");
+      } else if (!isManualReply) {
         console.log("[COMMENT-WEBHOOK] Gerando resposta IA...");
         console.log("[COMMENT-WEBHOOK] Contexto da publicação:", {
           postCaption: postCaption?.substring(0, 100),
@@ -3959,6 +5149,7 @@ export async function registerRoutes(
           parentCommentText,
           parentCommentUsername
         });
+        const { context, experiment } = await generationContextFor(newMessage);
         const aiResult = await generateAIResponse(text, "comment", displayName, instagramUser.id, {
           postCaption,
           postPermalink,
@@ -3969,11 +5160,15 @@ export async function registerRoutes(
           parentCommentText,
           parentCommentUsername,
           siblingComments, // Include sibling comments for thread context
-        });
+        }, undefined, undefined, context);
         await storage.createAiResponse({
           messageId: newMessage.id,
           suggestedResponse: aiResult.suggestedResponse,
           confidenceScore: aiResult.confidenceScore,
+          traceId: aiResult.traceId,
+          promptVersionId: aiResult.promptVersionId ?? null,
+          experimentId: experiment?.experimentId ?? null,
+          experimentVariant: experiment?.variant ?? null,
         });
         console.log("[COMMENT-WEBHOOK] ✅ Resposta IA gerada!");
         console.log("  - Confiança:", aiResult.confidenceScore);
@@ -3988,13 +5183,22 @@ export async function registerRoutes(
         console.log("  - Confiança IA:", aiResult.confidenceScore);
 
         const shouldAutoSend =
-          userOperationMode === "auto" || // 100% automatic mode
-          (userOperationMode === "semi_auto" &&
-            aiResult.confidenceScore >= userThreshold);
+          !automation?.manualReview &&
+          (userOperationMode === "auto" || // 100% automatic mode
+            (userOperationMode === "semi_auto" &&
+              aiResult.confidenceScore >= userThreshold)) &&
+          await passesSafetyFilter(newMessage.id, instagramUser.id, instagramUser.safetyFilter, aiResult.suggestedResponse, aiResult.traceId);
 
         console.log("  - Deve auto-enviar:", shouldAutoSend);
 
-        if (shouldAutoSend && instagramUser.instagramAccessToken) {
+        const sendSchedule = parseSendSchedule(instagramUser.sendSchedule);
+
+        if (shouldAutoSend && sendSchedule) {
+          // Human-like timing: the send scheduler delivers it later
+          const sendAt = computeSendAt(sendSchedule);
+          await scheduleReply(newMessage, aiResult.suggestedResponse, "auto", sendAt, null);
+          console.log(`[COMMENT-WEBHOOK] 🕒 Resposta automática agendada para ${sendAt.toISOString()}`);
+        } else if (shouldAutoSend && instagramUser.instagramAccessToken) {
           // Get the AI response to update it
           const aiResponse = await storage.getAiResponse(newMessage.id, instagramUser.id);
           if (aiResponse) {
@@ -4005,7 +5209,8 @@ export async function registerRoutes(
             const sendResult = await replyToInstagramComment(
               commentId,
               aiResult.suggestedResponse,
-              autoToken
+              autoToken,
+              instagramUser.instagramAccountId
             );
 
             if (sendResult.success) {
@@ -4016,6 +5221,10 @@ export async function registerRoutes(
                 approvedAt: new Date(),
               });
               console.log(`[COMMENT-WEBHOOK] ✅ Resposta automática enviada para ${username}`);
+            } else if (sendResult.retryAt) {
+              // Out of budget: deferred to the outbox instead of dropped
+              await scheduleReply(newMessage, aiResult.suggestedResponse, "auto", sendResult.retryAt, null);
+              console.warn(`[COMMENT-WEBHOOK] 🕒 Resposta automática adiada pelo limite de envios até ${sendResult.retryAt.toISOString()}`);
             } else {
               console.error(`[COMMENT-WEBHOOK] ❌ Falha ao enviar resposta automática: ${sendResult.error}`);
               // Keep as pending if send failed
@@ -4046,6 +5255,7 @@ export async function registerRoutes(
         reason: `Erro ao processar comentário: ${error instanceof Error ? error.message : String(error)}`,
         messageType: 'comment'
       }, currentWebhookTimestamp);
+      throw error; // Let the queue worker retry
     }
   }
 
@@ -4063,7 +5273,7 @@ export async function registerRoutes(
     };
   }
 
-  async function processWebhookMessage(messageData: any, entryId: string | undefined, processedMids: Set<string>) {
+  async function processWebhookMessage(messageData: any, entryId: string | undefined) {
     try {
       console.log(`[DM-WEBHOOK] START PROCESSING`);
       console.log(`[DM-WEBHOOK] Payload Sender (Who sent it): ${messageData.sender?.id}`);
@@ -4077,19 +5287,6 @@ export async function registerRoutes(
       const messageId = messageData.message?.mid;
       dmTrace("START", `entryId=${entryId || 'N/A'} senderId=${senderId || 'N/A'} recipientId=${recipientId || 'N/A'} mid=${messageId || 'N/A'}`);
 
-      // 🔒 GLOBAL CROSS-REQUEST DEDUP: Primary defense against Meta's double-delivery
-      // Check IMMEDIATELY after extracting mid, BEFORE any meaningful processing
-      // (dmTrace above is just debug logging - safe to call even for duplicates)
-      if (messageId && recentlyProcessedMids.has(messageId)) {
-        const cachedTime = recentlyProcessedMids.get(messageId);
-        const ageSeconds = cachedTime ? Math.floor((Date.now() - cachedTime) / 1000) : 0;
-        console.log(`[DM-WEBHOOK] ⏭️ GLOBAL DEDUP: mid=${messageId} already processed ${ageSeconds}s ago, skipping`);
-        dmTrace("SKIPPED=true", `reason=GLOBAL_DEDUP mid=${messageId} age=${ageSeconds}s`);
-        return;
-      }
-      // NOTE: Global cache marking moved to just before DB insertion to prevent false positives
-      // from validation failures or early returns
-
       let text = messageData.message?.text;
       const attachments = messageData.message?.attachments;
       const isEcho = messageData.message?.is_echo === true;
@@ -4125,16 +5322,6 @@ export async function registerRoutes(
         return;
       }
 
-      // 🔒 DEDUPLICATION: Check if already processed in this webhook batch, then mark as processing
-      // This check happens AFTER validation to ensure only valid messages are tracked
-      if (processedMids.has(messageId)) {
-        console.log(`[DM-WEBHOOK] ⏭️ SKIPPING duplicate mid=${messageId} (already processed in this webhook batch)`);
-        dmTrace("SKIPPED=true", `reason=DUPLICATE_IN_BATCH mid=${messageId}`);
-        return;
-      }
-      processedMids.add(messageId);
-      console.log(`[DM-WEBHOOK] 🔖 Marked mid=${messageId} as processing in this batch`);
-
       // ⚠️ MOVED: Message check must happen AFTER identifying the user
       // See below...
 
@@ -4147,12 +5334,20 @@ export async function registerRoutes(
       // DM WEBHOOKS: entry.id IS the Instagram Business Account ID (same as comments)
       // Priority: facebookPageId > instagramAccountId > instagramRecipientId > auto-associate
 
-      // 1. Try facebookPageId first (DM webhooks use Page ID)
-      let instagramUser = allUsers.find((u: any) =>
-        u.facebookPageId && u.facebookPageId === recipientId
-      );
+      // 0. Connected accounts table (a workspace may have several accounts)
+      let instagramUser = await findUserByInstagramAccount(recipientId, allUsers);
       if (instagramUser) {
-        console.log(`[DM-WEBHOOK] Matched user ${instagramUser.id} by facebookPageId`);
+        console.log(`[DM-WEBHOOK] Matched user ${instagramUser.id} by connected account #${instagramUser.accountRecordId}`);
+      }
+
+      // 1. Try facebookPageId first (DM webhooks use Page ID)
+      if (!instagramUser) {
+        instagramUser = allUsers.find((u: any) =>
+          u.facebookPageId && u.facebookPageId === recipientId
+        );
+        if (instagramUser) {
+          console.log(`[DM-WEBHOOK] Matched user ${instagramUser.id} by facebookPageId`);
+        }
       }
 
       // 2. Fallback: instagramAccountId (legacy + comments)
@@ -4166,7 +5361,7 @@ export async function registerRoutes(
       }
 
       // If matched by instagramAccountId and recipientId is not stored yet, store it
-      if (instagramUser && !instagramUser.instagramRecipientId) {
+      if (instagramUser && !instagramUser.accountRecordId && !instagramUser.instagramRecipientId) {
         try {
           await authStorage.updateUser(instagramUser.id, {
             instagramRecipientId: recipientId
@@ -4357,6 +5552,23 @@ export async function registerRoutes(
       // Process attachments (photos, videos, audio, gifs, etc.)
       let mediaUrl: string | null = null;
       let mediaType: string | null = null;
+      let storyId: string | null = null;
+
+      // Stored copy when possible: CDN links (stories especially) expire within hours
+      const storeMedia = async (url: string): Promise<string> => {
+        console.log(`Downloading ${mediaType} from:`, url.substring(0, 100) + '...');
+        try {
+          const mediaResult = await downloadAndStoreMedia(url, messageId);
+          if (mediaResult.success && mediaResult.url) {
+            console.log(`Media stored successfully at: ${mediaResult.url}`);
+            return mediaResult.url;
+          }
+          console.log(`Failed to store media: ${mediaResult.error}`);
+        } catch (e) {
+          console.log(`Error downloading media:`, e);
+        }
+        return url;
+      };
 
       if (attachments && attachments.length > 0) {
         const attachment = attachments[0]; // Process first attachment
@@ -4406,20 +5618,7 @@ export async function registerRoutes(
         // Try to download and store media
         // Update payloadUrl reference if we found a better one above
         if (payloadUrl) {
-          console.log(`Downloading ${mediaType} from:`, payloadUrl.substring(0, 100) + '...');
-          try {
-            const mediaResult = await downloadAndStoreMedia(payloadUrl, messageId);
-            if (mediaResult.success && mediaResult.url) {
-              mediaUrl = mediaResult.url;
-              console.log(`Media stored successfully at: ${mediaUrl}`);
-            } else {
-              console.log(`Failed to store media: ${mediaResult.error}`);
-              mediaUrl = payloadUrl;
-            }
-          } catch (e) {
-            console.log(`Error downloading media:`, e);
-            mediaUrl = payloadUrl;
-          }
+          mediaUrl = await storeMedia(payloadUrl);
         } else if (mediaType === 'story_mention') {
           // Fallback for expired/private stories
           text = text ? text : "[Story Mention]";
@@ -4427,6 +5626,18 @@ export async function registerRoutes(
         }
       }
 
+      // Replies to one of our stories carry the story in reply_to instead of an attachment
+      const storyReply = messageData.message?.reply_to?.story;
+      if (storyReply && !mediaType) {
+        mediaType = 'story_reply';
+        storyId = storyReply.id ? String(storyReply.id) : null;
+        if (storyReply.url) {
+          mediaUrl = await storeMedia(storyReply.url);
+        } else {
+          console.log("[Story Reply] Story URL not in payload (expired or private).");
+        }
+      }
+
       // Build content description for AI (used for webhook path - uses natural language)
       let contentForAI = text || '';
       if (mediaType && !text) {
@@ -4501,27 +5712,12 @@ export async function registerRoutes(
         }
       }
 
-      // 🔒 FINAL DEDUP CHECKPOINT: Mark in global cache just before DB insertion
-      // This prevents race conditions where two concurrent webhooks both pass all checks
-      // but before either completes the DB insertion
-      if (messageId) {
-        // Double-check in case of race condition between first check and now
-        if (recentlyProcessedMids.has(messageId)) {
-          const cachedTime = recentlyProcessedMids.get(messageId);
-          const ageSeconds = cachedTime ? Math.floor((Date.now() - cachedTime) / 1000) : 0;
-          console.log(`[DM-WEBHOOK] ⏭️ RACE CONDITION PREVENTED: mid=${messageId} was marked during processing (${ageSeconds}s ago)`);
-          dmTrace("SKIPPED=true", `reason=RACE_CONDITION_AVOIDED mid=${messageId}`);
-          return;
-        }
-        recentlyProcessedMids.set(messageId, Date.now());
-        console.log(`[DM-WEBHOOK] 🔒 Marked mid=${messageId} in global cache before DB insertion`);
-      }
-
       // Create the message with error handling for database-level duplicate constraint violations
       let newMessage: InstagramMessage;
       try {
         newMessage = await storage.createMessage({
           userId: instagramUser.id,
+          accountId: instagramUser.accountRecordId ?? null,
           instagramId: messageId,
           type: "dm",
           senderName: senderName,
@@ -4532,6 +5728,7 @@ export async function registerRoutes(
           content: text || null,
           mediaUrl: mediaUrl,
           mediaType: mediaType,
+          storyId: storyId,
         });
       } catch (error: unknown) {
         // Handle unique constraint violation (duplicate instagramId at DB level)
@@ -4550,6 +5747,33 @@ export async function registerRoutes(
       // PONTO 3 ENQUEUE: DM-TRACE log (SAFE - IDs only)
       dmTrace("ENQUEUED=true", `messageId=${newMessage.id} userId=${instagramUser.id} mid=${messageId}`);
 
+      // Attach to the DM thread; for our own (echo) messages the other participant is the recipient
+      const participantId = isManualReply ? recipientId : senderId;
+      if (participantId) {
+        try {
+          const conversation = await storage.recordConversationMessage(newMessage, participantId, !isManualReply);
+          newMessage = { ...newMessage, conversationId: conversation.id };
+          // Private replies sent to this person point at the thread from now on
+          await storage.linkPrivateReplyConversation(conversation);
+        } catch (convError) {
+          console.error(`[DM-WEBHOOK] ⚠️ Erro ao vincular conversa para mid=${messageId}:`, convError);
+        }
+      }
+
+      // Keep the sender's contact current and pick up an e-mail/phone they typed
+      if (!isManualReply && senderId) {
+        try {
+          await storage.recordContactActivity(newMessage);
+          const details = text ? await extractContactDetails(text, instagramUser.id) : null;
+          if (details) {
+            await storage.fillContactDetails(instagramUser.id, senderId, details);
+            console.log(`[DM-WEBHOOK] 📇 Dados de contato extraídos para senderId=${senderId}`);
+          }
+        } catch (contactError) {
+          console.error(`[DM-WEBHOOK] ⚠️ Erro ao registrar contato para mid=${messageId}:`, contactError);
+        }
+      }
+
       // Transcribe media if it's video, reel, or audio
       let mediaTranscription: string | null = null;
       if (mediaUrl && (mediaType === 'video' || mediaType === 'reel' || mediaType === 'audio')) {
@@ -4589,18 +5813,35 @@ export async function registerRoutes(
           timestamp: m.createdAt,
         }));
 
+      // Automation rules run first: they may answer with a fixed reply or keep the AI out
+      let automation: AutomationPlan | null = null;
+      if (!isManualReply) {
+        try {
+          automation = await runAutomationRules(newMessage, instagramUser);
+        } catch (automationError) {
+          console.error("[DM-WEBHOOK] ⚠️ Erro nas regras de automação:", automationError);
+        }
+      }
+
       // Generate AI response with conversation history
       let aiResult: any = null;
 
-      if (!isManualReply) {
+      if (automation?.reply || automation?.skipAI) {
+        console.log("[DM-WEBHOOK] ⏭️ Pulando IA: mensagem tratada por regra de automação");
+      } else if (!isManualReply) {
         // Enable Vision API for images
         const attachments = (mediaType === 'image' && mediaUrl) ? [mediaUrl] : undefined;
 
-        aiResult = await generateAIResponse(contentForAI, "dm", senderName, instagramUser.id, undefined, conversationHistory, attachments);
+        const { context, experiment } = await generationContextFor(newMessage);
+        aiResult = await generateAIResponse(contentForAI, "dm", senderName, instagramUser.id, undefined, conversationHistory, attachments, context);
         await storage.createAiResponse({
           messageId: newMessage.id,
           suggestedResponse: aiResult.suggestedResponse,
           confidenceScore: aiResult.confidenceScore,
+          traceId: aiResult.traceId,
+          promptVersionId: aiResult.promptVersionId ?? null,
+          experimentId: experiment?.experimentId ?? null,
+          experimentVariant: experiment?.variant ?? null,
         });
       } else {
         console.log("[DM-WEBHOOK] ⏭️ Pulando IA pois é uma resposta manual (Sincronização)");
@@ -4612,12 +5853,20 @@ export async function registerRoutes(
 
       // Only auto-send if we have an AI result (not manual reply)
       const shouldAutoSend =
-        !isManualReply && aiResult && (
+        !isManualReply && aiResult && !automation?.manualReview && (
           userOperationMode === "auto" || // 100% automatic mode
           (userOperationMode === "semi_auto" &&
-            aiResult.confidenceScore >= userThreshold));
+            aiResult.confidenceScore >= userThreshold)) &&
+        await passesSafetyFilter(newMessage.id, instagramUser.id, instagramUser.safetyFilter, aiResult.suggestedResponse, aiResult.traceId);
+
+      const sendSchedule = parseSendSchedule(instagramUser.sendSchedule);
 
-      if (shouldAutoSend && senderId) {
+      if (shouldAutoSend && senderId && sendSchedule) {
+        // Human-like timing: the send scheduler delivers it later
+        const sendAt = computeSendAt(sendSchedule);
+        await scheduleReply(newMessage, aiResult.suggestedResponse, "auto", sendAt, null);
+        console.log(`[DM-WEBHOOK] 🕒 Resposta automática agendada para ${sendAt.toISOString()}`);
+      } else if (shouldAutoSend && senderId) {
         // Get the AI response to update it
         const aiResponse = await storage.getAiResponse(newMessage.id, instagramUser.id);
         if (aiResponse) {
@@ -4639,6 +5888,10 @@ export async function registerRoutes(
               approvedAt: new Date(),
             });
             console.log(`Auto-sent DM response to ${senderUsername || senderId}`);
+          } else if (sendResult.retryAt) {
+            // Out of budget: deferred to the outbox instead of dropped
+            await scheduleReply(newMessage, aiResult.suggestedResponse, "auto", sendResult.retryAt, null);
+            console.warn(`[DM-WEBHOOK] 🕒 Resposta automática adiada pelo limite de envios até ${sendResult.retryAt.toISOString()}`);
           } else {
             console.error(`Failed to auto-send DM: ${sendResult.error}`);
             // Keep as pending if send failed
@@ -4650,6 +5903,7 @@ export async function registerRoutes(
       console.log("Webhook DM processed successfully:", messageId, mediaType ? `(with ${mediaType})` : '');
     } catch (error) {
       console.error("Error processing webhook DM:", error);
+      throw error; // Let the queue worker retry
     }
   }
 
@@ -4719,6 +5973,119 @@ export async function registerRoutes(
     }
   });
 
+  // Admin endpoint for the webhook ingestion queue (counts + dead-letter list)
+  app.get("/api/admin/webhook-queue", isAuthenticated, async (req, res) => {
+    try {
+      const { isAdmin } = await getUserContext(req);
+      if (!isAdmin) {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const [stats, deadJobs] = await Promise.all([
+        storage.getWebhookJobStats(),
+        storage.getDeadWebhookJobs(50),
+      ]);
+
+      res.json({
+        stats,
+        deadJobs: deadJobs.map(job => ({
+          id: job.id,
+          idempotencyKey: job.idempotencyKey,
+          eventType: job.eventType,
+          entryId: job.entryId,
+          attempts: job.attempts,
+          lastError: job.lastError,
+          createdAt: job.createdAt,
+          processedAt: job.processedAt,
+          payload: JSON.stringify(job.payload).substring(0, 500),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching webhook queue:", error);
+      res.status(500).json({ error: "Failed to fetch webhook queue" });
+    }
+  });
+
+  // Re-enqueue a dead-letter webhook job (admin only)
+  app.post("/api/admin/webhook-queue/:id/retry", isAuthenticated, async (req, res) => {
+    try {
+      const { isAdmin } = await getUserContext(req);
+      if (!isAdmin) {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      const job = await storage.retryWebhookJob(id);
+      if (!job) {
+        return res.status(404).json({ error: "Dead-letter job not found" });
+      }
+
+      kickWebhookQueueWorker();
+      res.json({ success: true, job: { id: job.id, status: job.status } });
+    } catch (error) {
+      console.error("Error retrying webhook job:", error);
+      res.status(500).json({ error: "Failed to retry webhook job" });
+    }
+  });
+
+  // Discard a webhook job (admin only)
+  app.delete("/api/admin/webhook-queue/:id", isAuthenticated, async (req, res) => {
+    try {
+      const { isAdmin } = await getUserContext(req);
+      if (!isAdmin) {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid job ID" });
+      }
+
+      await storage.deleteWebhookJob(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting webhook job:", error);
+      res.status(500).json({ error: "Failed to delete webhook job" });
+    }
+  });
+
+  // Knowledge vector index coverage (admin only)
+  app.get("/api/admin/embeddings", isAuthenticated, async (req, res) => {
+    try {
+      const { isAdmin } = await getUserContext(req);
+      if (!isAdmin) {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const provider = await resolveEmbeddingProviderName();
+      const stats = await storage.getKnowledgeEmbeddingStats(provider);
+      res.json({ provider, pgvector: isPgvectorAvailable(), stats });
+    } catch (error) {
+      console.error("Error fetching embedding stats:", error);
+      res.status(500).json({ error: "Failed to fetch embedding stats" });
+    }
+  });
+
+  // Run one backfill batch now instead of waiting for the next tick (admin only)
+  app.post("/api/admin/embeddings/backfill", isAuthenticated, async (req, res) => {
+    try {
+      const { isAdmin } = await getUserContext(req);
+      if (!isAdmin) {
+        return res.status(403).json({ error: "Admin access required" });
+      }
+
+      const embedded = await runEmbeddingBackfill();
+      res.json({ success: true, embedded });
+    } catch (error) {
+      console.error("Error running embedding backfill:", error);
+      res.status(500).json({ error: "Failed to run embedding backfill" });
+    }
+  });
+
   // Admin endpoint to check Meta webhook subscriptions
   app.get("/api/admin/webhook-subscriptions", isAuthenticated, async (req, res) => {
     try {
@@ -5399,6 +6766,12 @@ export async function registerRoutes(
   }
   const syncOfficialProgress = new Map<string, SyncOfficialProgress>();
 
+  // Every progress update is also pushed to the workspace's open tabs
+  const setSyncOfficialProgress = (userId: string, progress: SyncOfficialProgress) => {
+    syncOfficialProgress.set(userId, progress);
+    publishEvent(userId, "sync.progress", { ...progress });
+  };
+
   // GET /api/knowledge/sync-official/progress - Get sync progress
   app.get("/api/knowledge/sync-official/progress", isAuthenticated, async (req, res) => {
     try {
@@ -5414,7 +6787,7 @@ export async function registerRoutes(
   // POST /api/knowledge/sync-official - Sync user's connected Instagram account
   app.post("/api/knowledge/sync-official", isAuthenticated, async (req, res) => {
     try {
-      const { userId } = await getUserContext(req);
+      const { userId, accountId } = await getUserContext(req);
 
       // Check if sync is already running
       const existingProgress = syncOfficialProgress.get(userId);
@@ -5426,8 +6799,13 @@ export async function registerRoutes(
         });
       }
 
-      // Get user's Instagram credentials
-      const user = await storage.getUser(userId);
+      // Get Instagram credentials: the account selected in the UI, or the primary connection
+      const owner = await storage.getUser(userId);
+      const accounts = await storage.getInstagramAccounts(userId);
+      const account = accounts.find(a =>
+        accountId ? a.id === accountId : a.instagramAccountId === owner?.instagramAccountId
+      );
+      const user = owner && account ? withInstagramAccount(owner, account) : owner;
 
       if (!user?.instagramAccessToken || !user?.instagramAccountId) {
         return res.status(400).json({
@@ -5436,13 +6814,15 @@ export async function registerRoutes(
         });
       }
 
-      // Decrypt access token
-      const accessToken = decrypt(user.instagramAccessToken);
+      // Decrypt access token (account tokens come back already decrypted)
+      const accessToken = isEncrypted(user.instagramAccessToken)
+        ? decrypt(user.instagramAccessToken)
+        : user.instagramAccessToken;
 
       console.log(`[Sync Official] Iniciando sincronização para userId: ${userId}`);
 
       // Initialize progress with running status
-      syncOfficialProgress.set(userId, {
+      setSyncOfficialProgress(userId, {
         stage: "Iniciando sincronização...",
         percent: 0,
         status: 'running'
@@ -5463,18 +6843,19 @@ export async function registerRoutes(
             user.instagramAccountId,
             (progress) => {
               // Update progress map for polling endpoint
-              syncOfficialProgress.set(userId, {
+              setSyncOfficialProgress(userId, {
                 ...progress,
                 status: 'running'
               });
-            }
+            },
+            account?.id
           );
 
           const captionsCount = result.captions.length;
 
           // Get interaction count to show in the profile stats
-          const interactionCount = await storage.getInteractionDialectCount(userId);
-          const withReplies = (await storage.getInteractionDialect(userId, 'public_comment'))
+          const interactionCount = await storage.getInteractionDialectCount(userId, account?.id);
+          const withReplies = (await storage.getInteractionDialect(userId, 'public_comment', account?.id))
             .filter(i => i.myResponse).length;
 
           // Update or create profile record
@@ -5509,7 +6890,7 @@ export async function registerRoutes(
           console.log(`[Sync Official] ✅ Sincronização concluída: ${captionsCount} posts, ${interactionCount} conversas (${withReplies} com respostas)`);
 
           // Mark as completed with result
-          syncOfficialProgress.set(userId, {
+          setSyncOfficialProgress(userId, {
             stage: "Concluído!",
             percent: 100,
             status: 'completed',
@@ -5528,7 +6909,7 @@ export async function registerRoutes(
           console.error("[Sync Official] Background sync error:", error);
 
           // Mark as error with message
-          syncOfficialProgress.set(userId, {
+          setSyncOfficialProgress(userId, {
             stage: "Erro na sincronização",
             percent: 0,
             status: 'error',
@@ -5552,7 +6933,7 @@ export async function registerRoutes(
   // POST /api/knowledge/generate-personality - Generate AI personality from Instagram captions
   app.post("/api/knowledge/generate-personality", isAuthenticated, async (req, res) => {
     try {
-      const { userId } = await getUserContext(req);
+      const { userId, actorUserId } = await getUserContext(req);
 
       // Get user's Instagram profiles (data should already be synced)
       const user = await storage.getUser(userId);
@@ -5579,10 +6960,8 @@ export async function registerRoutes(
 
       const result = await Promise.race([resultPromise, timeoutPromise]) as any;
 
-      // Save the generated systemPrompt to user's aiContext
-      await authStorage.updateUser(userId, {
-        aiContext: result.systemPrompt
-      });
+      // Save the generated systemPrompt to user's aiContext (as a new prompt version)
+      await saveSystemPrompt(userId, result.systemPrompt, "synthesis", actorUserId);
 
       console.log(`[Generate Personality] ✅ Personalidade gerada e salva para @${username}`);
 
@@ -5679,5 +7058,35 @@ export async function registerRoutes(
   // Mount the modular Brain router
   app.use("/api/brain", brainRouter);
 
+  // Team workspace (members, roles, invite links)
+  app.use("/api/team", teamRouter);
+
+  // DM conversation threads (inbox)
+  app.use("/api/conversations", conversationsRouter);
+
+  // Send scheduler outbox
+  app.use("/api/scheduled-sends", scheduledSendsRouter);
+
+  // Snippet library (canned responses)
+  app.use("/api/snippets", snippetsRouter);
+
+  // Keyword/intent automation rules
+  app.use("/api/automations", automationsRouter);
+
+  // Contacts (profiles, tags, segments, export)
+  app.use("/api/contacts", contactsRouter);
+
+  // Evaluation suites (golden sets) for the AI persona
+  app.use("/api/evals", evalsRouter);
+
+  // A/B tests of the system prompt on live traffic
+  app.use("/api/experiments", experimentsRouter);
+
+  // Trainer simulator sessions (multi-turn transcripts and thread replays)
+  app.use("/api/simulator", simulatorRouter);
+
+  // Live event stream (SSE)
+  app.use("/api/events", eventsRouter);
+
   return httpServer;
 }
@@ -0,0 +1,92 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { kickSendScheduler } from "../jobs/send-scheduler-job";
+import { SCHEDULED_SEND_STATUSES, type ScheduledSendStatus } from "@shared/schema";
+
+const router = Router();
+
+// ============================================
+// Send Scheduler Outbox API Endpoints
+// ============================================
+
+// GET /api/scheduled-sends - Outbox (?status=scheduled|failed|sent|cancelled|all, default: waiting)
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, accountId } = await getUserContext(req);
+        const statusParam = String(req.query.status || "scheduled");
+
+        let statuses: ScheduledSendStatus[];
+        if (statusParam === "all") {
+            statuses = [...SCHEDULED_SEND_STATUSES];
+        } else if (statusParam === "scheduled") {
+            statuses = ["scheduled", "sending"];
+        } else if (SCHEDULED_SEND_STATUSES.includes(statusParam as ScheduledSendStatus)) {
+            statuses = [statusParam as ScheduledSendStatus];
+        } else {
+            return res.status(400).json({ error: "Invalid status" });
+        }
+
+        const sends = await storage.getScheduledSends(userId, { accountId, statuses });
+        res.json(sends);
+    } catch (error) {
+        console.error("Error fetching scheduled sends:", error);
+        res.status(500).json({ error: "Failed to fetch scheduled sends" });
+    }
+});
+
+// PATCH /api/scheduled-sends/:id - Edit the text or move the send time of a waiting send
+router.patch("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const { responseText, sendAt } = req.body;
+        const updates: { responseText?: string; sendAt?: Date } = {};
+
+        if (responseText !== undefined) {
+            if (typeof responseText !== "string" || !responseText.trim()) {
+                return res.status(400).json({ error: "responseText cannot be empty" });
+            }
+            updates.responseText = responseText;
+        }
+
+        // A past time means "send now"
+        if (sendAt !== undefined) {
+            const date = new Date(sendAt);
+            if (!sendAt || isNaN(date.getTime())) {
+                return res.status(400).json({ error: "Invalid sendAt" });
+            }
+            updates.sendAt = date;
+        }
+
+        const send = await storage.updateScheduledSend(parseInt(req.params.id), userId, updates);
+        if (!send) {
+            return res.status(404).json({ error: "Scheduled send not found or already processed" });
+        }
+
+        if (updates.sendAt) kickSendScheduler();
+        res.json(send);
+    } catch (error) {
+        console.error("Error updating scheduled send:", error);
+        res.status(500).json({ error: "Failed to update scheduled send" });
+    }
+});
+
+// POST /api/scheduled-sends/:id/cancel - Cancel a waiting send; the message returns to the approval queue
+router.post("/:id/cancel", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const send = await storage.cancelScheduledSend(parseInt(req.params.id), userId);
+        if (!send) {
+            return res.status(404).json({ error: "Scheduled send not found or already processed" });
+        }
+
+        await storage.updateMessageStatus(send.messageId, userId, "pending");
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error cancelling scheduled send:", error);
+        res.status(500).json({ error: "Failed to cancel scheduled send" });
+    }
+});
+
+export default router;
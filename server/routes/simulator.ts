@@ -0,0 +1,303 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { generateAIResponse } from "../openai";
+import { snippetVariablesFor } from "../utils/snippets";
+import { storyContextFor } from "../utils/story-context";
+import { contactContextFor } from "../utils/contact-profile";
+import { historyFromTurns, replayExchanges, historyBeforeExchange } from "../utils/simulator";
+import {
+    simulatorSessionInputSchema,
+    simulatorTurnInputSchema,
+    simulatorTurnUpdateSchema,
+    simulatorReplayInputSchema,
+    type InsertSimulatorTurn,
+} from "@shared/schema";
+
+const router = Router();
+
+const SESSION_LIST_LIMIT = 30;
+const MAX_SESSION_TURNS = 60;
+// Replays generate one reply per follower message, synchronously: keep the request short
+const MAX_REPLAY_MESSAGES = 8;
+const DEFAULT_TITLE = "Conversa simulada";
+
+// ============================================
+// Simulator Sessions API Endpoints
+// ============================================
+
+// GET /api/simulator/sessions - Most recently active first
+router.get("/sessions", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        res.json(await storage.getSimulatorSessions(userId, SESSION_LIST_LIMIT));
+    } catch (error) {
+        console.error("Error fetching simulator sessions:", error);
+        res.status(500).json({ error: "Failed to fetch simulator sessions" });
+    }
+});
+
+// POST /api/simulator/sessions - Empty session; the operator writes the first follower message
+router.post("/sessions", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId } = await getUserContext(req);
+        const parsed = simulatorSessionInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid session", details: parsed.error.flatten() });
+        }
+
+        const session = await storage.createSimulatorSession({
+            userId,
+            title: parsed.data.title || DEFAULT_TITLE,
+            senderName: parsed.data.senderName || "Seguidor",
+            source: "manual",
+            conversationId: null,
+            createdBy: actorUserId,
+        });
+        res.status(201).json(session);
+    } catch (error) {
+        console.error("Error creating simulator session:", error);
+        res.status(500).json({ error: "Failed to create simulator session" });
+    }
+});
+
+// GET /api/simulator/sessions/:id - The session with its transcript
+router.get("/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const session = await storage.getSimulatorSession(parseInt(req.params.id), userId);
+        if (!session) {
+            return res.status(404).json({ error: "Session not found" });
+        }
+
+        res.json({ session, turns: await storage.getSimulatorTurns(session.id) });
+    } catch (error) {
+        console.error("Error fetching simulator session:", error);
+        res.status(500).json({ error: "Failed to fetch simulator session" });
+    }
+});
+
+// DELETE /api/simulator/sessions/:id - Golden corrections already saved from it are kept
+router.delete("/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        await storage.deleteSimulatorSession(parseInt(req.params.id), userId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting simulator session:", error);
+        res.status(500).json({ error: "Failed to delete simulator session" });
+    }
+});
+
+// POST /api/simulator/sessions/:id/turns - The follower's next message and the AI's answer,
+// generated with the transcript so far as conversation history
+router.post("/sessions/:id/turns", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, accountId } = await getUserContext(req);
+        const session = await storage.getSimulatorSession(parseInt(req.params.id), userId);
+        if (!session) {
+            return res.status(404).json({ error: "Session not found" });
+        }
+
+        const parsed = simulatorTurnInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid turn", details: parsed.error.flatten() });
+        }
+
+        const turns = await storage.getSimulatorTurns(session.id);
+        if (turns.length + 2 > MAX_SESSION_TURNS) {
+            return res.status(400).json({ error: `A session holds at most ${MAX_SESSION_TURNS} turns` });
+        }
+
+        const aiResult = await generateAIResponse(
+            parsed.data.message,
+            "dm",
+            session.senderName,
+            userId,
+            undefined,
+            historyFromTurns(turns, session.senderName),
+            parsed.data.attachments,
+            { snippets: { accountId, variables: snippetVariablesFor({ senderName: session.senderName }) } }
+        );
+        if (aiResult.error || !aiResult.suggestedResponse) {
+            return res.status(500).json({
+                error: aiResult.error || "Erro ao gerar resposta da IA",
+                errorCode: aiResult.errorCode,
+            });
+        }
+
+        const position = turns.length > 0 ? turns[turns.length - 1].position + 1 : 0;
+        const attachmentNote = parsed.data.attachments?.length ? `\n[${parsed.data.attachments.length} imagem(ns) anexada(s)]` : "";
+        const added = await storage.addSimulatorTurns([
+            { sessionId: session.id, position, role: "follower", content: parsed.data.message + attachmentNote },
+            {
+                sessionId: session.id,
+                position: position + 1,
+                role: "ai",
+                content: aiResult.suggestedResponse,
+                confidence: aiResult.confidenceScore,
+                traceId: aiResult.traceId ?? null,
+            },
+        ]);
+
+        // An untitled session takes its name from the first message
+        await storage.updateSimulatorSession(session.id, userId, turns.length === 0 && session.title === DEFAULT_TITLE
+            ? { title: parsed.data.message.slice(0, 60) }
+            : {});
+        res.status(201).json(added);
+    } catch (error) {
+        console.error("Error adding simulator turn:", error);
+        res.status(500).json({ error: "Failed to add simulator turn" });
+    }
+});
+
+// PATCH /api/simulator/sessions/:id/turns/:turnId - Correct an AI turn (the model's answer is kept)
+router.patch("/sessions/:id/turns/:turnId", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const session = await storage.getSimulatorSession(parseInt(req.params.id), userId);
+        if (!session) {
+            return res.status(404).json({ error: "Session not found" });
+        }
+
+        const parsed = simulatorTurnUpdateSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid turn", details: parsed.error.flatten() });
+        }
+
+        const turn = (await storage.getSimulatorTurns(session.id)).find(t => t.id === parseInt(req.params.turnId));
+        if (!turn) {
+            return res.status(404).json({ error: "Turn not found" });
+        }
+        if (turn.role !== "ai") {
+            return res.status(400).json({ error: "Only AI turns can be corrected" });
+        }
+
+        const original = turn.originalContent ?? turn.content;
+        const updated = await storage.updateSimulatorTurn(turn.id, session.id, {
+            content: parsed.data.content,
+            originalContent: parsed.data.content === original ? null : original,
+        });
+        await storage.updateSimulatorSession(session.id, userId, {});
+        res.json(updated);
+    } catch (error) {
+        console.error("Error updating simulator turn:", error);
+        res.status(500).json({ error: "Failed to update simulator turn" });
+    }
+});
+
+// POST /api/simulator/sessions/:id/save - Every AI turn (as corrected) becomes a golden correction
+// for the follower message before it. Saving again updates the same corrections.
+router.post("/sessions/:id/save", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const session = await storage.getSimulatorSession(parseInt(req.params.id), userId);
+        if (!session) {
+            return res.status(404).json({ error: "Session not found" });
+        }
+
+        const turns = await storage.getSimulatorTurns(session.id);
+        let saved = 0;
+        for (let i = 1; i < turns.length; i++) {
+            const turn = turns[i];
+            const previous = turns[i - 1];
+            if (turn.role !== "ai" || previous.role !== "follower") continue;
+
+            const entry = { question: previous.content, answer: turn.content };
+            // The correction may be gone (deleted by hand or by the 500-entry FIFO)
+            const updated = turn.manualQaId ? await storage.updateManualQA(turn.manualQaId, userId, entry) : undefined;
+            if (!updated) {
+                const created = await storage.addManualQA({ userId, ...entry, source: "simulator" });
+                await storage.updateSimulatorTurn(turn.id, session.id, { manualQaId: created.id });
+            }
+            saved++;
+        }
+
+        await storage.updateSimulatorSession(session.id, userId, { savedAt: new Date() });
+        console.log(`[Simulator] Session ${session.id} saved as ${saved} golden corrections for user ${userId}`);
+        res.json({ saved });
+    } catch (error) {
+        console.error("Error saving simulator session:", error);
+        res.status(500).json({ error: "Failed to save simulator session" });
+    }
+});
+
+// POST /api/simulator/replay - New session from a real DM thread: the last follower messages, each
+// answered by the current prompt with the real thread before it as history, next to the real reply
+router.post("/replay", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId, accountId } = await getUserContext(req);
+        const parsed = simulatorReplayInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid replay", details: parsed.error.flatten() });
+        }
+
+        const conversation = await storage.getConversation(parsed.data.conversationId, userId);
+        if (!conversation) {
+            return res.status(404).json({ error: "Conversation not found" });
+        }
+
+        const exchanges = replayExchanges(conversation, await storage.getConversationMessages(conversation.id, userId));
+        if (exchanges.length === 0) {
+            return res.status(400).json({ error: "The conversation has no messages from the contact" });
+        }
+
+        const senderName = conversation.senderName || conversation.senderUsername || "Seguidor";
+        const start = Math.max(0, exchanges.length - MAX_REPLAY_MESSAGES);
+        const turns: Omit<InsertSimulatorTurn, "sessionId">[] = [];
+        for (let i = start; i < exchanges.length; i++) {
+            const exchange = exchanges[i];
+            const aiResult = await generateAIResponse(
+                exchange.content,
+                "dm",
+                senderName,
+                userId,
+                undefined,
+                historyBeforeExchange(exchanges, i, senderName),
+                undefined,
+                {
+                    snippets: { accountId: conversation.accountId ?? accountId, variables: snippetVariablesFor(exchange.message) },
+                    story: storyContextFor(exchange.message),
+                    contact: await contactContextFor(exchange.message),
+                }
+            );
+            if (aiResult.error || !aiResult.suggestedResponse) {
+                return res.status(500).json({
+                    error: aiResult.error || "Erro ao gerar resposta da IA",
+                    errorCode: aiResult.errorCode,
+                });
+            }
+
+            const position = (i - start) * 2;
+            turns.push(
+                { position, role: "follower", content: exchange.content },
+                {
+                    position: position + 1,
+                    role: "ai",
+                    content: aiResult.suggestedResponse,
+                    realResponse: exchange.realResponse,
+                    confidence: aiResult.confidenceScore,
+                    traceId: aiResult.traceId ?? null,
+                },
+            );
+        }
+
+        const session = await storage.createSimulatorSession({
+            userId,
+            title: `Reprodução: ${conversation.senderUsername ? `@${conversation.senderUsername}` : senderName}`,
+            senderName,
+            source: "replay",
+            conversationId: conversation.id,
+            createdBy: actorUserId,
+        });
+        await storage.addSimulatorTurns(turns.map(turn => ({ ...turn, sessionId: session.id })));
+        console.log(`[Simulator] Replayed conversation ${conversation.id} (${turns.length / 2} messages) into session ${session.id}`);
+        res.status(201).json(session);
+    } catch (error) {
+        console.error("Error replaying conversation:", error);
+        res.status(500).json({ error: "Failed to replay conversation" });
+    }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext } from "../utils/auth-context";
+import { renderSnippet, snippetVariablesFor } from "../utils/snippets";
+import { snippetInputSchema, type RenderedSnippet } from "@shared/schema";
+
+const router = Router();
+
+// ============================================
+// Snippet Library (canned responses) API Endpoints
+// ============================================
+
+// GET /api/snippets - Library for the active account (?messageId= renders the variables for that message)
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, accountId } = await getUserContext(req);
+
+        if (req.query.messageId) {
+            const message = await storage.getMessage(parseInt(String(req.query.messageId)), userId);
+            if (!message) {
+                return res.status(404).json({ error: "Message not found" });
+            }
+
+            const variables = snippetVariablesFor(message);
+            const list = await storage.getSnippets(userId, message.accountId ?? undefined);
+            const rendered: RenderedSnippet[] = list.map(s => ({ ...s, rendered: renderSnippet(s.body, variables) }));
+            return res.json(rendered);
+        }
+
+        const list = await storage.getSnippets(userId, accountId);
+        res.json(list);
+    } catch (error) {
+        console.error("Error fetching snippets:", error);
+        res.status(500).json({ error: "Failed to fetch snippets" });
+    }
+});
+
+// POST /api/snippets - Create a snippet (accountId null = every account of the workspace)
+router.post("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const parsed = snippetInputSchema.safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid snippet", details: parsed.error.flatten() });
+        }
+
+        const data = parsed.data;
+        if (data.accountId && !(await storage.getInstagramAccount(data.accountId, userId))) {
+            return res.status(400).json({ error: "Account not found" });
+        }
+        if (await storage.getSnippetByName(userId, data.name)) {
+            return res.status(409).json({ error: "A snippet with this name already exists" });
+        }
+
+        const snippet = await storage.createSnippet({ ...data, userId });
+        res.status(201).json(snippet);
+    } catch (error) {
+        console.error("Error creating snippet:", error);
+        res.status(500).json({ error: "Failed to create snippet" });
+    }
+});
+
+// PATCH /api/snippets/:id - Edit a snippet. Renaming breaks guidelines that reference the old name.
+router.patch("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        const id = parseInt(req.params.id);
+        const parsed = snippetInputSchema.partial().safeParse(req.body);
+        if (!parsed.success) {
+            return res.status(400).json({ error: "Invalid snippet", details: parsed.error.flatten() });
+        }
+
+        const data = parsed.data;
+        if (data.accountId && !(await storage.getInstagramAccount(data.accountId, userId))) {
+            return res.status(400).json({ error: "Account not found" });
+        }
+        if (data.name) {
+            const existing = await storage.getSnippetByName(userId, data.name);
+            if (existing && existing.id !== id) {
+                return res.status(409).json({ error: "A snippet with this name already exists" });
+            }
+        }
+
+        const snippet = await storage.updateSnippet(id, userId, data);
+        if (!snippet) {
+            return res.status(404).json({ error: "Snippet not found" });
+        }
+        res.json(snippet);
+    } catch (error) {
+        console.error("Error updating snippet:", error);
+        res.status(500).json({ error: "Failed to update snippet" });
+    }
+});
+
+// DELETE /api/snippets/:id
+router.delete("/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId } = await getUserContext(req);
+        await storage.deleteSnippet(parseInt(req.params.id), userId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting snippet:", error);
+        res.status(500).json({ error: "Failed to delete snippet" });
+    }
+});
+
+export default router;
@@ -0,0 +1,231 @@
+import { Router } from "express";
+import crypto from "crypto";
+import { storage } from "../storage";
+import { isAuthenticated } from "../replit_integrations/auth";
+import { getUserContext, INVITABLE_ROLES, type WorkspaceRole } from "../utils/auth-context";
+
+const router = Router();
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Invite links stay valid for 7 days
+
+function displayName(user: { firstName: string | null; lastName: string | null; email: string | null } | undefined): string {
+    if (!user) return "Usuário removido";
+    const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+    return name || user.email || "Usuário";
+}
+
+// ============================================
+// Team Workspace API Endpoints
+// ============================================
+
+// GET /api/team - Current workspace, the caller's role, members and pending invites
+router.get("/", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId, role } = await getUserContext(req);
+        const organization = await storage.getOrganizationByOwner(userId);
+        const owner = await storage.getUser(userId);
+
+        const members: { userId: string; name: string; email: string | null; role: WorkspaceRole; joinedAt: Date | null }[] = [
+            { userId, name: displayName(owner), email: owner?.email ?? null, role: "owner", joinedAt: owner?.createdAt ?? null },
+        ];
+
+        if (organization) {
+            for (const member of await storage.getOrganizationMembers(organization.id)) {
+                const user = await storage.getUser(member.userId);
+                members.push({
+                    userId: member.userId,
+                    name: displayName(user),
+                    email: user?.email ?? null,
+                    role: member.role as WorkspaceRole,
+                    joinedAt: member.createdAt,
+                });
+            }
+        }
+
+        const invites = organization && role === "owner"
+            ? await storage.getPendingOrganizationInvites(organization.id)
+            : [];
+
+        res.json({
+            organization: organization ? { id: organization.id, name: organization.name } : null,
+            role,
+            actorUserId,
+            members,
+            invites: invites.map(i => ({ id: i.id, token: i.token, role: i.role, expiresAt: i.expiresAt, createdAt: i.createdAt })),
+        });
+    } catch (error) {
+        console.error("Error fetching team:", error);
+        res.status(500).json({ error: "Failed to fetch team" });
+    }
+});
+
+// POST /api/team/invites - Create an invite link (owner only)
+router.post("/invites", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, role } = await getUserContext(req);
+        if (role !== "owner") {
+            return res.status(403).json({ error: "Only the workspace owner can invite members" });
+        }
+
+        const inviteRole = req.body.role as WorkspaceRole;
+        if (!INVITABLE_ROLES.includes(inviteRole)) {
+            return res.status(400).json({ error: "Invalid role" });
+        }
+
+        // The organization is created on the first invite
+        let organization = await storage.getOrganizationByOwner(userId);
+        if (!organization) {
+            const owner = await storage.getUser(userId);
+            organization = await storage.createOrganization({
+                name: `Equipe de ${displayName(owner)}`,
+                ownerId: userId,
+            });
+        }
+
+        const invite = await storage.createOrganizationInvite({
+            organizationId: organization.id,
+            token: crypto.randomBytes(24).toString("hex"),
+            role: inviteRole,
+            createdBy: userId,
+            expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+        });
+
+        console.log(`[Team] Convite criado para org ${organization.id} (${inviteRole})`);
+        res.json({ id: invite.id, token: invite.token, role: invite.role, expiresAt: invite.expiresAt });
+    } catch (error) {
+        console.error("Error creating invite:", error);
+        res.status(500).json({ error: "Failed to create invite" });
+    }
+});
+
+// DELETE /api/team/invites/:id - Revoke a pending invite (owner only)
+router.delete("/invites/:id", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, role } = await getUserContext(req);
+        if (role !== "owner") {
+            return res.status(403).json({ error: "Only the workspace owner can revoke invites" });
+        }
+
+        const organization = await storage.getOrganizationByOwner(userId);
+        if (organization) {
+            await storage.deleteOrganizationInvite(parseInt(req.params.id), organization.id);
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error revoking invite:", error);
+        res.status(500).json({ error: "Failed to revoke invite" });
+    }
+});
+
+// GET /api/team/join/:token - Invite details shown before accepting
+router.get("/join/:token", isAuthenticated, async (req, res) => {
+    try {
+        const invite = await storage.getOrganizationInviteByToken(req.params.token);
+        if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+            return res.status(404).json({ error: "Convite inválido ou expirado" });
+        }
+
+        const { actorUserId } = await getUserContext(req);
+        const membership = await storage.getMembershipForUser(actorUserId);
+        // Invites are always created by the owner
+        const organization = await storage.getOrganizationByOwner(invite.createdBy);
+
+        res.json({
+            organizationName: organization?.name ?? "Equipe",
+            role: invite.role,
+            expiresAt: invite.expiresAt,
+            alreadyMember: !!membership,
+        });
+    } catch (error) {
+        console.error("Error fetching invite:", error);
+        res.status(500).json({ error: "Failed to fetch invite" });
+    }
+});
+
+// POST /api/team/join/:token - Accept an invite with the logged-in account
+router.post("/join/:token", isAuthenticated, async (req, res) => {
+    try {
+        const { actorUserId } = await getUserContext(req);
+
+        const invite = await storage.getOrganizationInviteByToken(req.params.token);
+        if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+            return res.status(404).json({ error: "Convite inválido ou expirado" });
+        }
+
+        const organization = await storage.getOrganizationByOwner(invite.createdBy);
+        if (!organization || organization.id !== invite.organizationId) {
+            return res.status(404).json({ error: "Convite inválido ou expirado" });
+        }
+        if (organization.ownerId === actorUserId) {
+            return res.status(400).json({ error: "Você já é o dono desta equipe" });
+        }
+        if (await storage.getMembershipForUser(actorUserId)) {
+            return res.status(409).json({ error: "Você já faz parte de uma equipe. Saia dela antes de aceitar outro convite." });
+        }
+
+        await storage.addOrganizationMember({
+            organizationId: organization.id,
+            userId: actorUserId,
+            role: invite.role,
+            invitedBy: invite.createdBy,
+        });
+        await storage.acceptOrganizationInvite(invite.id, actorUserId);
+
+        console.log(`[Team] ✅ ${actorUserId} entrou na org ${organization.id} como ${invite.role}`);
+        res.json({ success: true, role: invite.role });
+    } catch (error) {
+        console.error("Error accepting invite:", error);
+        res.status(500).json({ error: "Failed to accept invite" });
+    }
+});
+
+// PATCH /api/team/members/:userId - Change a member's role (owner only)
+router.patch("/members/:userId", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, role } = await getUserContext(req);
+        if (role !== "owner") {
+            return res.status(403).json({ error: "Only the workspace owner can change roles" });
+        }
+
+        const newRole = req.body.role as WorkspaceRole;
+        if (!INVITABLE_ROLES.includes(newRole)) {
+            return res.status(400).json({ error: "Invalid role" });
+        }
+
+        const organization = await storage.getOrganizationByOwner(userId);
+        const member = organization && await storage.updateOrganizationMemberRole(organization.id, req.params.userId, newRole);
+        if (!member) {
+            return res.status(404).json({ error: "Member not found" });
+        }
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error updating member role:", error);
+        res.status(500).json({ error: "Failed to update member role" });
+    }
+});
+
+// DELETE /api/team/members/:userId - Remove a member (owner), or leave the team (self)
+router.delete("/members/:userId", isAuthenticated, async (req, res) => {
+    try {
+        const { userId, actorUserId, role } = await getUserContext(req);
+        const isSelf = req.params.userId === actorUserId;
+        if (role !== "owner" && !isSelf) {
+            return res.status(403).json({ error: "Only the workspace owner can remove members" });
+        }
+
+        const organization = await storage.getOrganizationByOwner(userId);
+        if (!organization) {
+            return res.status(404).json({ error: "Member not found" });
+        }
+
+        await storage.removeOrganizationMember(organization.id, req.params.userId);
+        console.log(`[Team] ${req.params.userId} removido da org ${organization.id}${isSelf ? " (saiu)" : ""}`);
+        res.json({ success: true });
+    } catch (error) {
+        console.error("Error removing member:", error);
+        res.status(500).json({ error: "Failed to remove member" });
+    }
+});
+
+export default router;
@@ -38,17 +38,119 @@ import {
   userGuidelines,
   type UserGuideline,
   type InsertUserGuideline,
+  webhookJobs,
+  type WebhookJob,
+  type InsertWebhookJob,
+  instagramAccounts,
+  type InstagramAccount,
+  type InsertInstagramAccount,
+  organizations,
+  organizationMembers,
+  organizationInvites,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type InsertOrganizationMember,
+  type OrganizationInvite,
+  type InsertOrganizationInvite,
+  dmConversations,
+  type DmConversation,
+  type InsertDmConversation,
+  type ConversationStatus,
+  knowledgeEmbeddings,
+  knowledgeEmbeddingFailures,
+  generationTraces,
+  type GenerationTrace,
+  type InsertGenerationTrace,
+  scheduledSends,
+  snippets,
+  type ScheduledSend,
+  type InsertScheduledSend,
+  type ScheduledSendStatus,
+  type ScheduledSendWithMessage,
+  type MessageSearchQuery,
+  type Snippet,
+  type InsertSnippet,
+  automationRules,
+  type AutomationRule,
+  type InsertAutomationRule,
+  privateReplies,
+  type PrivateReply,
+  type InsertPrivateReply,
+  commentModerationLog,
+  type CommentModerationLogEntry,
+  type InsertCommentModerationLogEntry,
+  contacts,
+  contactSegments,
+  type Contact,
+  type ContactInput,
+  type ContactProfile,
+  type ContactListItem,
+  type ContactSegment,
+  type ContactSegmentFilter,
+  type ContactSegmentInput,
+  type MessageSearchPage,
+  systemPromptVersions,
+  type SystemPromptVersion,
+  type PromptVersionSource,
+  type PromptVersionSummary,
+  promptExperiments,
+  promptExperimentAssignments,
+  type PromptExperiment,
+  type PromptExperimentInput,
+  type PromptExperimentSummary,
+  type ExperimentVariant,
+  type ExperimentVariantStats,
+  evalSuites,
+  evalCases,
+  evalRuns,
+  evalResults,
+  simulatorSessions,
+  simulatorTurns,
+  type SimulatorSession,
+  type SimulatorSessionSummary,
+  type SimulatorTurn,
+  type InsertSimulatorTurn,
+  copilotChangeSets,
+  type CopilotChangeSet,
+  type CopilotChangeSetStatus,
+  type CopilotChangeResult,
+  type EvalSuite,
+  type EvalSuiteInput,
+  type EvalSuiteSummary,
+  type EvalCase,
+  type EvalCaseInput,
+  type InsertEvalCase,
+  type EvalRun,
+  type EvalResult,
+  KNOWLEDGE_SOURCES,
+  type KnowledgeSource,
+  type KnowledgeCandidate,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, ne, or, isNull, inArray, like } from "drizzle-orm";
+import { encrypt, decrypt, isEncrypted } from "./encryption";
+import { cosineSimilarity } from "./utils/openai_embeddings";
+import { canUsePgvector, isPgvectorAvailable, toVectorLiteral } from "./utils/pgvector";
+import { publishEvent } from "./utils/live-events";
+import { eq, desc, and, sql, ne, or, isNull, isNotNull, inArray, like, lt, gte, lte, type SQL } from "drizzle-orm";
+
+// E-mail/phone/interest found in a DM; only fills what the contact doesn't have yet
+export type ExtractedContactDetails = { email?: string | null; phone?: string | null; interest?: string | null };
+
+// An approved reply as an evaluation case source (the message and what was actually sent)
+export type ApprovedReply = Pick<InstagramMessage, "type" | "senderName" | "postCaption"> & { aiResponseId: number; content: string; reply: string };
+
+// Counts and commented posts of one person, aggregated over every message they sent
+export type ContactActivity = Pick<ContactProfile, "dmCount" | "commentCount" | "firstSeenAt" | "lastSeenAt" | "posts">;
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   createUser(user: UpsertUser): Promise<User>;
 
-  getMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]>;
-  getPendingMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]>;
-  getRecentMessages(limit?: number, userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]>;
+  getMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]>;
+  getPendingMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]>;
+  getRecentMessages(limit?: number, userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]>;
+  searchMessages(userId: string, query: MessageSearchQuery, scope?: { accountId?: number; excludeSenderIds?: string[]; excludeSenderUsernames?: string[] }): Promise<MessageSearchPage>;
   getMessage(id: number, userId: string): Promise<MessageWithResponse | undefined>;
   getMessageByInstagramId(instagramId: string, userId: string): Promise<InstagramMessage | undefined>;
   getMessagesByInstagramIds(instagramIds: string[], userId: string): Promise<InstagramMessage[]>;
@@ -58,12 +160,18 @@ export interface IStorage {
   updateMessageStatus(id: number, userId: string, status: string): Promise<void>;
   updateMessage(id: number, userId: string, updates: Partial<InsertInstagramMessage>): Promise<void>;
   updateMessageTranscription(id: number, userId: string, transcription: string): Promise<void>;
+  addMessageTags(id: number, userId: string, tags: string[]): Promise<void>;
+  isFirstContact(userId: string, senderId: string, exceptMessageId: number): Promise<boolean>;
 
   getAiResponse(messageId: number, userId: string): Promise<AiResponse | undefined>;
   createAiResponse(response: InsertAiResponse): Promise<AiResponse>;
   updateAiResponse(id: number, userId: string, updates: Partial<AiResponse>): Promise<void>;
   updateAiResponseFeedback(id: number, userId: string, feedbackStatus: string, humanFeedback?: string): Promise<void>;
 
+  // Generation Traces (prompt inspector)
+  createGenerationTrace(trace: InsertGenerationTrace): Promise<GenerationTrace>;
+  getGenerationTrace(id: number, userId: string): Promise<GenerationTrace | undefined>;
+
   createLearningEntry(entry: InsertLearningHistory): Promise<LearningHistory>;
   getLearningHistory(): Promise<LearningHistory[]>;
 
@@ -77,9 +185,9 @@ export interface IStorage {
 
   clearAllMessages(): Promise<{ aiResponses: number; messages: number }>;
 
-  getPendingMessagesCount(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<number>;
+  getPendingMessagesCount(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<number>;
 
-  getStats(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<{
+  getStats(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<{
     totalMessages: number;
     pendingMessages: number;
     approvedToday: number;
@@ -116,6 +224,7 @@ export interface IStorage {
 
   // Get all knowledge content for AI context
   getKnowledgeContext(userId: string): Promise<string>;
+  getKnowledgeContextWithSources(userId: string): Promise<{ context: string; sources: { source: "link" | "file"; id: number }[] }>;
 
   // Dataset Methods
   getDataset(userId: string): Promise<AiDatasetEntry[]>;
@@ -144,17 +253,17 @@ export interface IStorage {
   getManualQACount(userId: string): Promise<number>;
 
   // Media Library (50 posts per user)
-  getMediaLibrary(userId: string): Promise<MediaLibraryEntry[]>;
+  getMediaLibrary(userId: string, accountId?: number): Promise<MediaLibraryEntry[]>;
   addMediaLibraryEntry(entry: InsertMediaLibraryEntry): Promise<MediaLibraryEntry>;
   clearMediaLibrary(userId: string): Promise<number>;
-  getMediaLibraryCount(userId: string): Promise<number>;
+  getMediaLibraryCount(userId: string, accountId?: number): Promise<number>;
 
   // Interaction Dialect (500 interactions per user - 50 posts × 10 threads)
-  getInteractionDialect(userId: string, channelType?: string): Promise<InteractionDialectEntry[]>;
+  getInteractionDialect(userId: string, channelType?: string, accountId?: number): Promise<InteractionDialectEntry[]>;
   getInteractionsByMediaId(mediaId: number): Promise<InteractionDialectEntry[]>;
   addInteractionDialect(entry: InsertInteractionDialectEntry): Promise<InteractionDialectEntry>;
   clearInteractionDialect(userId: string): Promise<number>;
-  getInteractionDialectCount(userId: string): Promise<number>;
+  getInteractionDialectCount(userId: string, accountId?: number): Promise<number>;
 
   // User Guidelines (priority rules)
   getGuidelines(userId: string): Promise<UserGuideline[]>;
@@ -162,6 +271,271 @@ export interface IStorage {
   updateGuideline(id: number, userId: string, data: Partial<InsertUserGuideline>): Promise<UserGuideline | undefined>;
   deleteGuideline(id: number, userId: string): Promise<void>;
   getGuidelinesCount(userId: string): Promise<number>;
+
+  // Instagram Accounts (multiple per workspace)
+  getInstagramAccounts(userId: string): Promise<InstagramAccount[]>;
+  getInstagramAccount(id: number, userId: string): Promise<InstagramAccount | undefined>;
+  getAllInstagramAccounts(): Promise<InstagramAccount[]>;
+  findInstagramAccountByWebhookId(webhookId: string): Promise<InstagramAccount | undefined>;
+  upsertInstagramAccount(data: InsertInstagramAccount): Promise<InstagramAccount>;
+  updateInstagramAccount(id: number, userId: string, data: Partial<InsertInstagramAccount>): Promise<InstagramAccount | undefined>;
+  deleteInstagramAccount(id: number, userId: string): Promise<void>;
+
+  // Team Workspaces
+  getOrganizationByOwner(ownerId: string): Promise<Organization | undefined>;
+  createOrganization(data: InsertOrganization): Promise<Organization>;
+  getMembershipForUser(userId: string): Promise<{ member: OrganizationMember; organization: Organization } | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]>;
+  addOrganizationMember(data: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMemberRole(organizationId: number, userId: string, role: string): Promise<OrganizationMember | undefined>;
+  removeOrganizationMember(organizationId: number, userId: string): Promise<void>;
+  createOrganizationInvite(data: InsertOrganizationInvite): Promise<OrganizationInvite>;
+  getOrganizationInviteByToken(token: string): Promise<OrganizationInvite | undefined>;
+  getPendingOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]>;
+  acceptOrganizationInvite(id: number, userId: string): Promise<void>;
+  deleteOrganizationInvite(id: number, organizationId: number): Promise<void>;
+
+  // DM Conversations
+  getConversations(userId: string, filters?: { accountId?: number; status?: ConversationStatus; assignedTo?: string }): Promise<DmConversation[]>;
+  getConversation(id: number, userId: string): Promise<DmConversation | undefined>;
+  getConversationMessages(conversationId: number, userId: string): Promise<MessageWithResponse[]>;
+  recordConversationMessage(message: InstagramMessage, participantId: string, inbound: boolean): Promise<DmConversation>;
+  updateConversation(id: number, userId: string, data: Partial<InsertDmConversation>): Promise<DmConversation | undefined>;
+  markConversationRead(id: number, userId: string): Promise<void>;
+
+  // Webhook Ingestion Queue
+  enqueueWebhookJob(job: InsertWebhookJob): Promise<WebhookJob | undefined>;
+  claimNextWebhookJob(): Promise<WebhookJob | undefined>;
+  completeWebhookJob(id: number): Promise<void>;
+  failWebhookJob(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  requeueStaleWebhookJobs(lockedBefore: Date): Promise<number>;
+  cleanupProcessedWebhookJobs(processedBefore: Date): Promise<number>;
+  getWebhookJobStats(): Promise<Record<string, number>>;
+  getDeadWebhookJobs(limit?: number): Promise<WebhookJob[]>;
+  retryWebhookJob(id: number): Promise<WebhookJob | undefined>;
+  deleteWebhookJob(id: number): Promise<void>;
+
+  // Send Scheduler (outbox)
+  createScheduledSend(entry: InsertScheduledSend): Promise<ScheduledSend>;
+  getScheduledSends(userId: string, options: { accountId?: number; statuses: ScheduledSendStatus[] }): Promise<ScheduledSendWithMessage[]>;
+  getScheduledSend(id: number, userId: string): Promise<ScheduledSend | undefined>;
+  updateScheduledSend(id: number, userId: string, data: { responseText?: string; sendAt?: Date }): Promise<ScheduledSend | undefined>;
+  cancelScheduledSend(id: number, userId: string): Promise<ScheduledSend | undefined>;
+  cancelScheduledSendsForMessage(messageId: number, userId: string): Promise<number>;
+  claimNextScheduledSend(): Promise<ScheduledSend | undefined>;
+  completeScheduledSend(id: number): Promise<void>;
+  failScheduledSend(id: number, error: string, retryAt: Date | null): Promise<void>;
+  deferScheduledSend(id: number, retryAt: Date, reason: string): Promise<void>;
+  failInterruptedScheduledSends(): Promise<ScheduledSend[]>;
+
+  // Snippets (reusable replies)
+  getSnippets(userId: string, accountId?: number): Promise<Snippet[]>;
+  getSnippet(id: number, userId: string): Promise<Snippet | undefined>;
+  getSnippetByName(userId: string, name: string): Promise<Snippet | undefined>;
+  createSnippet(entry: InsertSnippet): Promise<Snippet>;
+  updateSnippet(id: number, userId: string, data: Partial<InsertSnippet>): Promise<Snippet | undefined>;
+  deleteSnippet(id: number, userId: string): Promise<void>;
+
+  // Automation Rules
+  getAutomationRules(userId: string): Promise<AutomationRule[]>;
+  getActiveAutomationRules(userId: string, accountId: number | null): Promise<AutomationRule[]>;
+  getAutomationRule(id: number, userId: string): Promise<AutomationRule | undefined>;
+  createAutomationRule(rule: InsertAutomationRule): Promise<AutomationRule>;
+  updateAutomationRule(id: number, userId: string, data: Partial<InsertAutomationRule>): Promise<AutomationRule | undefined>;
+  deleteAutomationRule(id: number, userId: string): Promise<void>;
+  recordAutomationRuleMatch(id: number): Promise<void>;
+
+  // Private Replies (comment -> DM)
+  queuePrivateReply(entry: InsertPrivateReply): Promise<PrivateReply | undefined>;
+  getPrivateRepliesForConversation(conversationId: number, userId: string): Promise<(PrivateReply & { comment: InstagramMessage })[]>;
+  claimNextPrivateReply(): Promise<PrivateReply | undefined>;
+  completePrivateReply(id: number, instagramMessageId: string | null, recipientId: string | null): Promise<PrivateReply | undefined>;
+  failPrivateReply(id: number, error: string, retryAt: Date | null): Promise<PrivateReply | undefined>;
+  deferPrivateReply(id: number, retryAt: Date, reason: string): Promise<void>;
+  failInterruptedPrivateReplies(): Promise<PrivateReply[]>;
+  linkPrivateReplyConversation(conversation: DmConversation): Promise<number>;
+
+  // Comment Moderation (audit trail)
+  addCommentModerationLog(entry: InsertCommentModerationLogEntry): Promise<CommentModerationLogEntry>;
+  getCommentModerationLog(messageId: number, userId: string): Promise<CommentModerationLogEntry[]>;
+
+  // Contacts (per-person notes/tags and aggregated activity)
+  getContact(userId: string, igsid: string): Promise<Contact | undefined>;
+  upsertContact(userId: string, igsid: string, data: ContactInput & { username?: string | null; name?: string | null; updatedBy?: string | null }): Promise<Contact>;
+  recordContactActivity(message: InstagramMessage): Promise<void>;
+  fillContactDetails(userId: string, igsid: string, details: ExtractedContactDetails): Promise<void>;
+  searchContacts(userId: string, filter: ContactSegmentFilter, limit: number): Promise<ContactListItem[]>;
+  getContactSegments(userId: string): Promise<ContactSegment[]>;
+  getContactSegment(id: number, userId: string): Promise<ContactSegment | undefined>;
+  createContactSegment(userId: string, data: ContactSegmentInput, createdBy: string | null): Promise<ContactSegment>;
+  updateContactSegment(id: number, userId: string, data: Partial<ContactSegmentInput>): Promise<ContactSegment | undefined>;
+  deleteContactSegment(id: number, userId: string): Promise<boolean>;
+  getContactMessages(userId: string, igsid: string, limit: number): Promise<MessageWithResponse[]>;
+  getContactActivity(userId: string, igsid: string): Promise<ContactActivity>;
+  getDialectInteractionsForUsername(userId: string, username: string, limit: number): Promise<InteractionDialectEntry[]>;
+
+  // System Prompt Versions (history of users.aiContext)
+  getLatestPromptVersion(userId: string): Promise<SystemPromptVersion | undefined>;
+  getPromptVersion(id: number, userId: string): Promise<SystemPromptVersion | undefined>;
+  getPromptVersions(userId: string, limit: number): Promise<PromptVersionSummary[]>;
+  createPromptVersion(data: { userId: string; content: string | null; source: PromptVersionSource; authorId: string | null; restoredFromId?: number | null }): Promise<SystemPromptVersion>;
+
+  // Prompt Experiments (A/B tests of the system prompt)
+  getPromptExperiments(userId: string, limit: number): Promise<PromptExperimentSummary[]>;
+  getPromptExperiment(id: number, userId: string): Promise<PromptExperiment | undefined>;
+  getRunningPromptExperiment(userId: string, accountId: number | null): Promise<PromptExperiment | undefined>;
+  createPromptExperiment(userId: string, data: PromptExperimentInput, createdBy: string | null): Promise<PromptExperiment>;
+  updatePromptExperiment(id: number, userId: string, data: Partial<Pick<PromptExperiment, "name" | "trafficSplit" | "status" | "winner" | "endedBy" | "endedAt">>): Promise<PromptExperiment | undefined>;
+  assignExperimentVariant(experimentId: number, senderKey: string, variant: ExperimentVariant): Promise<ExperimentVariant>;
+
+  // Evaluation Suites (golden sets, runs and results)
+  getEvalSuites(userId: string): Promise<EvalSuiteSummary[]>;
+  getEvalSuite(id: number, userId: string): Promise<EvalSuite | undefined>;
+  createEvalSuite(userId: string, data: EvalSuiteInput, createdBy: string | null): Promise<EvalSuite>;
+  updateEvalSuite(id: number, userId: string, data: Partial<EvalSuiteInput>): Promise<EvalSuite | undefined>;
+  deleteEvalSuite(id: number, userId: string): Promise<void>;
+  getEvalCases(suiteId: number): Promise<EvalCase[]>;
+  createEvalCases(cases: InsertEvalCase[]): Promise<EvalCase[]>;
+  updateEvalCase(id: number, suiteId: number, data: Partial<EvalCaseInput>): Promise<EvalCase | undefined>;
+  deleteEvalCase(id: number, suiteId: number): Promise<void>;
+  getApprovedReplies(userId: string, limit: number): Promise<ApprovedReply[]>;
+  getEvalRuns(suiteId: number): Promise<EvalRun[]>;
+  getEvalRun(id: number, userId: string): Promise<EvalRun | undefined>;
+  createEvalRun(data: Pick<EvalRun, "suiteId" | "userId" | "label" | "systemPrompt" | "caseCount" | "startedBy">): Promise<EvalRun>;
+  updateEvalRun(id: number, data: Partial<Pick<EvalRun, "status" | "avgScore" | "error" | "finishedAt">>): Promise<void>;
+  saveEvalResult(entry: Omit<EvalResult, "id" | "createdAt">): Promise<void>;
+  getEvalResults(runId: number): Promise<EvalResult[]>;
+
+  // Simulator Sessions (multi-turn trainer transcripts)
+  getSimulatorSessions(userId: string, limit: number): Promise<SimulatorSessionSummary[]>;
+  getSimulatorSession(id: number, userId: string): Promise<SimulatorSession | undefined>;
+  createSimulatorSession(data: Pick<SimulatorSession, "userId" | "title" | "senderName" | "source" | "conversationId" | "createdBy">): Promise<SimulatorSession>;
+  updateSimulatorSession(id: number, userId: string, data: Partial<Pick<SimulatorSession, "title" | "savedAt">>): Promise<void>;
+  deleteSimulatorSession(id: number, userId: string): Promise<void>;
+  getSimulatorTurns(sessionId: number): Promise<SimulatorTurn[]>;
+  addSimulatorTurns(turns: InsertSimulatorTurn[]): Promise<SimulatorTurn[]>;
+  updateSimulatorTurn(id: number, sessionId: number, data: Partial<Pick<SimulatorTurn, "content" | "originalContent" | "manualQaId">>): Promise<SimulatorTurn | undefined>;
+
+  // Copilot Change Sets (agent-proposed changes awaiting confirmation; audit trail)
+  getCopilotChangeSets(userId: string, limit: number): Promise<CopilotChangeSet[]>;
+  getCopilotChangeSet(id: number, userId: string): Promise<CopilotChangeSet | undefined>;
+  createCopilotChangeSet(data: Pick<CopilotChangeSet, "userId" | "requestedBy" | "request" | "changes">): Promise<CopilotChangeSet>;
+  decideCopilotChangeSet(id: number, userId: string, status: "applying" | "rejected", decidedBy: string): Promise<CopilotChangeSet | undefined>;
+  finishCopilotChangeSet(id: number, status: CopilotChangeSetStatus, results: CopilotChangeResult[]): Promise<CopilotChangeSet>;
+
+  // Knowledge Embeddings (vector retrieval)
+  getKnowledgePendingEmbedding(provider: string, limit: number): Promise<PendingKnowledgeEmbedding[]>;
+  upsertKnowledgeEmbedding(entry: PendingKnowledgeEmbedding & { provider: string; embedding: number[] }): Promise<void>;
+  recordKnowledgeEmbeddingFailure(entry: PendingKnowledgeEmbedding & { provider: string; error: string }): Promise<void>;
+  findNearestKnowledge(userId: string, provider: string, embedding: number[], limit: number): Promise<KnowledgeMatch[]>;
+  getKnowledgeCandidates(matches: KnowledgeMatch[]): Promise<KnowledgeCandidate[]>;
+  getUnembeddedKnowledge(userId: string, provider: string | null): Promise<KnowledgeCandidate[]>;
+  cleanupOrphanKnowledgeEmbeddings(): Promise<number>;
+  getKnowledgeEmbeddingStats(provider: string): Promise<Record<KnowledgeSource, { total: number; embedded: number }>>;
+}
+
+// A knowledge row whose text has no current vector (new, edited or from another provider)
+export interface PendingKnowledgeEmbedding {
+  userId: string;
+  source: KnowledgeSource;
+  sourceId: number;
+  text: string;
+  contentHash: string;
+}
+
+export interface KnowledgeMatch {
+  source: KnowledgeSource;
+  sourceId: number;
+  similarity: number;
+}
+
+// How retrieval reads each knowledge table (alias t): the text that gets embedded (its md5
+// marks edits), the text queries are compared against, the Q/A pair shown to the model and
+// which rows are usable at all. Mirrors the per-source rules retrieval always had.
+const KNOWLEDGE_SOURCE_SQL: Record<KnowledgeSource, {
+  table: string;
+  text: string;
+  match: string;
+  question: string;
+  answer: string;
+  where: string;
+}> = {
+  gold: {
+    table: "manual_qa",
+    text: "t.question",
+    match: "t.question",
+    question: "t.question",
+    answer: "t.answer",
+    where: "TRUE",
+  },
+  dataset: {
+    table: "ai_dataset",
+    text: "t.question",
+    match: "t.question",
+    question: "t.question",
+    answer: "t.answer",
+    where: "TRUE",
+  },
+  media: {
+    table: "media_library",
+    text: "concat_ws(E'\\n', t.caption, t.image_description, t.video_transcription)",
+    match: "t.caption",
+    question: "'Sobre o post: ' || left(t.caption, 100) || '...'",
+    answer: "COALESCE(NULLIF(t.image_description, ''), NULLIF(t.video_transcription, ''), t.caption)",
+    where: "t.caption IS NOT NULL AND t.caption <> ''",
+  },
+  interaction: {
+    table: "interaction_dialect",
+    text: "t.user_message",
+    match: "t.user_message",
+    question: "t.user_message",
+    answer: "t.my_response",
+    where: "t.my_response IS NOT NULL AND t.my_response <> ''",
+  },
+};
+
+// A row whose embedding keeps failing is retried after 2, 4, 8... minutes and dropped from the
+// backfill after this many attempts, until its text or the provider changes
+const MAX_EMBEDDING_ATTEMPTS = 5;
+
+function knowledgeCandidateColumns(source: KnowledgeSource) {
+  const c = KNOWLEDGE_SOURCE_SQL[source];
+  return sql.raw(`t.id, ${c.question} AS question, ${c.answer} AS answer, ${c.match} AS match_text`);
+}
+
+// Same text-search config for the query and the GIN indexes in ensure-schema, or the indexes go unused
+const MESSAGE_CONTENT_TSV = sql`to_tsvector('portuguese', coalesce(${instagramMessages.content}, ''))`;
+const AI_RESPONSE_TSV = sql`to_tsvector('portuguese', coalesce(${aiResponses.finalResponse}, ${aiResponses.suggestedResponse}))`;
+
+// Search cursors carry the last row's created_at as Postgres text (microsecond precision) plus its ID
+function encodeMessageCursor(createdAt: string, id: number): string {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString("base64url");
+}
+
+// A search cursor this server did not produce (tampered or truncated): the route answers 400
+export class InvalidSearchCursorError extends Error {
+  constructor() {
+    super("Invalid search cursor");
+    this.name = "InvalidSearchCursorError";
+  }
+}
+
+function decodeMessageCursor(cursor: string): { createdAt: string; id: number } | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof createdAt !== "string" || !Number.isInteger(id) || isNaN(Date.parse(createdAt))) return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// A snooze that ran out reads as an open thread; the row itself is reset by the next write
+// (inbound message or status change), so listing threads never writes
+function withSnoozeExpiry(conversation: DmConversation, now: Date): DmConversation {
+  return conversation.status === "snoozed" && conversation.snoozedUntil && conversation.snoozedUntil < now
+    ? { ...conversation, status: "open", snoozedUntil: null }
+    : conversation;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -175,7 +549,7 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]> {
+  async getMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]> {
     // ... (Existing implementation verified as secure)
     const validExcludeIds = excludeSenderIds?.filter(id => id && id.trim() !== '') || [];
     const validExcludeUsernames = excludeSenderUsernames?.filter(u => u && u.trim() !== '') || [];
@@ -211,11 +585,15 @@ export class DatabaseStorage implements IStorage {
     condition = excludeCondition
       ? and(eq(instagramMessages.userId, userId), excludeCondition)
       : eq(instagramMessages.userId, userId);
+    if (accountId) {
+      condition = and(condition, eq(instagramMessages.accountId, accountId));
+    }
 
     const query = db
       .select()
       .from(instagramMessages)
-      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId));
+      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .leftJoin(privateReplies, eq(instagramMessages.id, privateReplies.messageId));
 
     const messages = condition
       ? await query.where(condition).orderBy(desc(instagramMessages.createdAt))
@@ -224,10 +602,11 @@ export class DatabaseStorage implements IStorage {
     return messages.map((row) => ({
       ...row.instagram_messages,
       aiResponse: row.ai_responses,
+      privateReply: row.private_replies,
     }));
   }
 
-  async getPendingMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]> {
+  async getPendingMessages(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]> {
     // ... (Existing implementation verified as secure)
     const baseCondition = eq(instagramMessages.status, "pending");
     const validExcludeIds = excludeSenderIds?.filter(id => id && id.trim() !== '') || [];
@@ -264,21 +643,26 @@ export class DatabaseStorage implements IStorage {
     condition = excludeCondition
       ? and(baseCondition, eq(instagramMessages.userId, userId), excludeCondition)
       : and(baseCondition, eq(instagramMessages.userId, userId));
+    if (accountId) {
+      condition = and(condition, eq(instagramMessages.accountId, accountId));
+    }
 
     const messages = await db
       .select()
       .from(instagramMessages)
       .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .leftJoin(privateReplies, eq(instagramMessages.id, privateReplies.messageId))
       .where(condition)
       .orderBy(desc(instagramMessages.createdAt));
 
     return messages.map((row) => ({
       ...row.instagram_messages,
       aiResponse: row.ai_responses,
+      privateReply: row.private_replies,
     }));
   }
 
-  async getRecentMessages(limit: number = 10, userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<MessageWithResponse[]> {
+  async getRecentMessages(limit: number = 10, userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<MessageWithResponse[]> {
     // ... (Existing implementation verified as secure)
     const validExcludeIds = excludeSenderIds?.filter(id => id && id.trim() !== '') || [];
     const validExcludeUsernames = excludeSenderUsernames?.filter(u => u && u.trim() !== '') || [];
@@ -314,11 +698,15 @@ export class DatabaseStorage implements IStorage {
     condition = excludeCondition
       ? and(eq(instagramMessages.userId, userId), excludeCondition)
       : eq(instagramMessages.userId, userId);
+    if (accountId) {
+      condition = and(condition, eq(instagramMessages.accountId, accountId));
+    }
 
     const query = db
       .select()
       .from(instagramMessages)
-      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId));
+      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .leftJoin(privateReplies, eq(instagramMessages.id, privateReplies.messageId));
 
     const messages = condition
       ? await query.where(condition).orderBy(desc(instagramMessages.createdAt)).limit(limit)
@@ -327,15 +715,131 @@ export class DatabaseStorage implements IStorage {
     return messages.map((row) => ({
       ...row.instagram_messages,
       aiResponse: row.ai_responses,
+      privateReply: row.private_replies,
     }));
   }
 
+  async searchMessages(
+    userId: string,
+    query: MessageSearchQuery,
+    scope: { accountId?: number; excludeSenderIds?: string[]; excludeSenderUsernames?: string[] } = {}
+  ): Promise<MessageSearchPage> {
+    const conditions: (SQL | undefined)[] = [eq(instagramMessages.userId, userId)];
+    if (scope.accountId) {
+      conditions.push(eq(instagramMessages.accountId, scope.accountId));
+    }
+
+    const validExcludeIds = scope.excludeSenderIds?.filter(id => id && id.trim() !== '') || [];
+    if (validExcludeIds.length > 0) {
+      conditions.push(or(isNull(instagramMessages.senderId), and(...validExcludeIds.map(id => ne(instagramMessages.senderId, id)))));
+    }
+    const validExcludeUsernames = scope.excludeSenderUsernames?.filter(u => u && u.trim() !== '') || [];
+    if (validExcludeUsernames.length > 0) {
+      conditions.push(or(
+        isNull(instagramMessages.senderUsername),
+        and(...validExcludeUsernames.map(u => ne(sql`lower(${instagramMessages.senderUsername})`, u.toLowerCase())))
+      ));
+    }
+
+    if (query.q) {
+      const tsQuery = sql`websearch_to_tsquery('portuguese', ${query.q})`;
+      const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        sql`${MESSAGE_CONTENT_TSV} @@ ${tsQuery}`,
+        sql`${AI_RESPONSE_TSV} @@ ${tsQuery}`,
+        sql`${instagramMessages.senderUsername} ILIKE ${pattern}`,
+        sql`${instagramMessages.senderName} ILIKE ${pattern}`
+      ));
+    }
+    if (query.type) {
+      conditions.push(eq(instagramMessages.type, query.type));
+    }
+    if (query.status) {
+      conditions.push(inArray(instagramMessages.status, query.status));
+    }
+    if (query.mediaType) {
+      conditions.push(inArray(instagramMessages.mediaType, query.mediaType));
+    }
+    if (query.from) {
+      conditions.push(gte(instagramMessages.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(instagramMessages.createdAt, query.to));
+    }
+    if (query.sender) {
+      conditions.push(or(
+        eq(sql`lower(${instagramMessages.senderUsername})`, query.sender.toLowerCase()),
+        eq(instagramMessages.senderId, query.sender)
+      ));
+    }
+    if (query.postId) {
+      conditions.push(eq(instagramMessages.postId, query.postId));
+    }
+    if (query.minConfidence !== undefined) {
+      conditions.push(gte(aiResponses.confidenceScore, query.minConfidence));
+    }
+    if (query.maxConfidence !== undefined) {
+      conditions.push(lt(aiResponses.confidenceScore, query.maxConfidence));
+    }
+    if (query.wasEdited !== undefined) {
+      conditions.push(eq(aiResponses.wasEdited, query.wasEdited));
+    }
+    if (query.feedback === "none") {
+      conditions.push(isNull(aiResponses.feedbackStatus));
+    } else if (query.feedback) {
+      conditions.push(eq(aiResponses.feedbackStatus, query.feedback));
+    }
+
+    // Keyset pagination: rows strictly after the last one returned, in (created_at, id) order
+    if (query.cursor) {
+      const cursor = decodeMessageCursor(query.cursor);
+      if (!cursor) {
+        throw new InvalidSearchCursorError();
+      }
+      conditions.push(sql`(${instagramMessages.createdAt}, ${instagramMessages.id}) < (${cursor.createdAt}::timestamp, ${cursor.id})`);
+    }
+
+    const rows = await db
+      .select({
+        message: instagramMessages,
+        aiResponse: aiResponses,
+        cursorAt: sql<string>`${instagramMessages.createdAt}::text`,
+      })
+      .from(instagramMessages)
+      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .where(and(...conditions))
+      .orderBy(desc(instagramMessages.createdAt), desc(instagramMessages.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    // Latest private reply per comment, looked up apart so it can never multiply the page rows
+    const commentIds = page.filter(row => row.message.type === "comment").map(row => row.message.id);
+    const latestPrivateReplies = commentIds.length === 0 ? [] : await db
+      .selectDistinctOn([privateReplies.messageId])
+      .from(privateReplies)
+      .where(inArray(privateReplies.messageId, commentIds))
+      .orderBy(privateReplies.messageId, desc(privateReplies.createdAt), desc(privateReplies.id));
+    const privateReplyByMessage = new Map(latestPrivateReplies.map(reply => [reply.messageId, reply]));
+
+    return {
+      items: page.map((row) => ({
+        ...row.message,
+        aiResponse: row.aiResponse,
+        privateReply: privateReplyByMessage.get(row.message.id) ?? null,
+      })),
+      nextCursor: rows.length > query.limit && last ? encodeMessageCursor(last.cursorAt, last.message.id) : null,
+    };
+  }
+
   // 🛡️ SECURITY FIX: Added userId mandatory check
   async getMessage(id: number, userId: string): Promise<MessageWithResponse | undefined> {
     const [result] = await db
       .select()
       .from(instagramMessages)
       .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .leftJoin(privateReplies, eq(instagramMessages.id, privateReplies.messageId))
       .where(and(eq(instagramMessages.id, id), eq(instagramMessages.userId, userId))); // ✅ Filter by userId
 
     if (!result) return undefined;
@@ -343,6 +847,7 @@ export class DatabaseStorage implements IStorage {
     return {
       ...result.instagram_messages,
       aiResponse: result.ai_responses,
+      privateReply: result.private_replies,
     };
   }
 
@@ -406,11 +911,13 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Message writes publish live events here so every path (webhooks, jobs, routes) reaches open tabs
   async createMessage(message: InsertInstagramMessage): Promise<InstagramMessage> {
     const [created] = await db
       .insert(instagramMessages)
       .values(message)
       .returning();
+    publishEvent(created.userId, "message.created", { messageId: created.id, type: created.type, accountId: created.accountId });
     return created;
   }
 
@@ -420,6 +927,7 @@ export class DatabaseStorage implements IStorage {
       .update(instagramMessages)
       .set({ status, processedAt: new Date() })
       .where(and(eq(instagramMessages.id, id), eq(instagramMessages.userId, userId))); // ✅ Filter by userId
+    publishEvent(userId, status === "auto_sent" ? "message.auto_sent" : "message.status_changed", { messageId: id, status });
   }
 
   // 🛡️ SECURITY FIX: Added userId mandatory check
@@ -430,6 +938,31 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(instagramMessages.id, id), eq(instagramMessages.userId, userId))); // ✅ Filter by userId
   }
 
+  // Merges into the existing tags (no duplicates)
+  async addMessageTags(id: number, userId: string, tags: string[]): Promise<void> {
+    if (tags.length === 0) return;
+    await db
+      .update(instagramMessages)
+      .set({
+        tags: sql`(SELECT coalesce(jsonb_agg(DISTINCT t), '[]'::jsonb) FROM jsonb_array_elements_text(${instagramMessages.tags} || ${JSON.stringify(tags)}::jsonb) AS t)`,
+      })
+      .where(and(eq(instagramMessages.id, id), eq(instagramMessages.userId, userId)));
+  }
+
+  // No other message from this sender in the workspace (DMs or comments)
+  async isFirstContact(userId: string, senderId: string, exceptMessageId: number): Promise<boolean> {
+    const [earlier] = await db
+      .select({ id: instagramMessages.id })
+      .from(instagramMessages)
+      .where(and(
+        eq(instagramMessages.userId, userId),
+        eq(instagramMessages.senderId, senderId),
+        ne(instagramMessages.id, exceptMessageId)
+      ))
+      .limit(1);
+    return !earlier;
+  }
+
   // 🛡️ SECURITY FIX: Added userId mandatory check
   async updateMessageTranscription(id: number, userId: string, transcription: string): Promise<void> {
     await db
@@ -462,6 +995,14 @@ export class DatabaseStorage implements IStorage {
       .insert(aiResponses)
       .values(response)
       .returning();
+
+    const [owner] = await db
+      .select({ userId: instagramMessages.userId })
+      .from(instagramMessages)
+      .where(eq(instagramMessages.id, created.messageId));
+    if (owner) {
+      publishEvent(owner.userId, "message.draft_ready", { messageId: created.messageId });
+    }
     return created;
   }
 
@@ -498,6 +1039,9 @@ export class DatabaseStorage implements IStorage {
 
     if (message.length > 0) {
       await db.update(aiResponses).set(updates).where(eq(aiResponses.id, id));
+      if (updates.suggestedResponse !== undefined || updates.safetyFlags !== undefined) {
+        publishEvent(userId, "message.draft_ready", { messageId });
+      }
     } else {
       console.warn(`[SECURITY] Blocked updateAiResponse for user ${userId} targeting response ${id} (not owner)`);
     }
@@ -536,6 +1080,20 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Generation Traces
+  async createGenerationTrace(trace: InsertGenerationTrace): Promise<GenerationTrace> {
+    const [created] = await db.insert(generationTraces).values(trace).returning();
+    return created;
+  }
+
+  async getGenerationTrace(id: number, userId: string): Promise<GenerationTrace | undefined> {
+    const [trace] = await db
+      .select()
+      .from(generationTraces)
+      .where(and(eq(generationTraces.id, id), eq(generationTraces.userId, userId)));
+    return trace;
+  }
+
   async createLearningEntry(entry: InsertLearningHistory): Promise<LearningHistory> {
     const [created] = await db
       .insert(learningHistory)
@@ -647,6 +1205,7 @@ export class DatabaseStorage implements IStorage {
     const deletedResponses = await db.delete(aiResponses).returning();
     // Then delete messages
     const deletedMessages = await db.delete(instagramMessages).returning();
+    await db.delete(dmConversations);
 
     return {
       aiResponses: deletedResponses.length,
@@ -654,7 +1213,7 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getPendingMessagesCount(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<number> {
+  async getPendingMessagesCount(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<number> {
     const baseCondition = eq(instagramMessages.status, "pending");
 
     const validExcludeIds = excludeSenderIds?.filter(id => id && id.trim() !== '') || [];
@@ -690,9 +1249,12 @@ export class DatabaseStorage implements IStorage {
       return 0;
     }
 
-    const condition = excludeCondition
+    let condition = excludeCondition
       ? and(baseCondition, eq(instagramMessages.userId, userId), excludeCondition)
       : and(baseCondition, eq(instagramMessages.userId, userId));
+    if (accountId) {
+      condition = and(condition, eq(instagramMessages.accountId, accountId));
+    }
 
     const [result] = await db
       .select({ count: sql<number>`count(*)` })
@@ -702,7 +1264,7 @@ export class DatabaseStorage implements IStorage {
     return Number(result?.count) || 0;
   }
 
-  async getStats(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[]): Promise<{
+  async getStats(userId?: string, isAdmin?: boolean, excludeSenderIds?: string[], excludeSenderUsernames?: string[], accountId?: number): Promise<{
     totalMessages: number;
     pendingMessages: number;
     approvedToday: number;
@@ -719,7 +1281,9 @@ export class DatabaseStorage implements IStorage {
       console.warn("[SECURITY] getStats called without userId - returning zeros");
       return { totalMessages: 0, pendingMessages: 0, approvedToday: 0, rejectedToday: 0, autoSentToday: 0, avgConfidence: 0 };
     }
-    const userCondition = eq(instagramMessages.userId, userId);
+    const userCondition = accountId
+      ? and(eq(instagramMessages.userId, userId), eq(instagramMessages.accountId, accountId))
+      : eq(instagramMessages.userId, userId);
 
     const [totalResult] = await db
       .select({ count: sql<number>`count(*)` })
@@ -727,7 +1291,7 @@ export class DatabaseStorage implements IStorage {
       .where(userCondition);
 
     // Use the centralized function for pending count to ensure consistency
-    const pendingMessagesCount = await this.getPendingMessagesCount(userId, isAdmin, excludeSenderIds, excludeSenderUsernames);
+    const pendingMessagesCount = await this.getPendingMessagesCount(userId, isAdmin, excludeSenderIds, excludeSenderUsernames, accountId);
 
     const [approvedResult] = await db
       .select({ count: sql<number>`count(*)` })
@@ -820,6 +1384,7 @@ export class DatabaseStorage implements IStorage {
     const deleted = await db.delete(instagramMessages)
       .where(eq(instagramMessages.userId, userId))
       .returning();
+    await db.delete(dmConversations).where(eq(dmConversations.userId, userId));
     return { messages: deleted.length };
   }
 
@@ -885,6 +1450,11 @@ export class DatabaseStorage implements IStorage {
 
   // Get all knowledge content for AI context
   async getKnowledgeContext(userId: string): Promise<string> {
+    return (await this.getKnowledgeContextWithSources(userId)).context;
+  }
+
+  // Same context, plus which links/files contributed (recorded in generation traces)
+  async getKnowledgeContextWithSources(userId: string): Promise<{ context: string; sources: { source: "link" | "file"; id: number }[] }> {
     const links = await db
       .select()
       .from(knowledgeLinks)
@@ -902,24 +1472,30 @@ export class DatabaseStorage implements IStorage {
       ));
 
     const sections: string[] = [];
+    const sources: { source: "link" | "file"; id: number }[] = [];
 
     for (const link of links) {
       if (link.content) {
         sections.push(`--- Source: ${link.title || link.url} ---\n${link.content}`);
+        sources.push({ source: "link", id: link.id });
       }
     }
 
     for (const file of files) {
       if (file.content) {
         sections.push(`--- Source: ${file.fileName} ---\n${file.content}`);
+        sources.push({ source: "file", id: file.id });
       }
     }
 
     if (sections.length === 0) {
-      return "";
+      return { context: "", sources };
     }
 
-    return `=== KNOWLEDGE BASE ===\n\n${sections.join("\n\n")}\n\n=== END KNOWLEDGE BASE ===`;
+    return {
+      context: `=== KNOWLEDGE BASE ===\n\n${sections.join("\n\n")}\n\n=== END KNOWLEDGE BASE ===`,
+      sources,
+    };
   }
 
   async getDataset(userId: string): Promise<AiDatasetEntry[]> {
@@ -1089,11 +1665,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Media Library (50 posts per user)
-  async getMediaLibrary(userId: string): Promise<MediaLibraryEntry[]> {
+  async getMediaLibrary(userId: string, accountId?: number): Promise<MediaLibraryEntry[]> {
     return db
       .select()
       .from(mediaLibrary)
-      .where(eq(mediaLibrary.userId, userId))
+      .where(accountId
+        ? and(eq(mediaLibrary.userId, userId), eq(mediaLibrary.accountId, accountId))
+        : eq(mediaLibrary.userId, userId))
       .orderBy(desc(mediaLibrary.syncedAt));
   }
 
@@ -1135,30 +1713,26 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
-  async getMediaLibraryCount(userId: string): Promise<number> {
+  async getMediaLibraryCount(userId: string, accountId?: number): Promise<number> {
     const result = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(mediaLibrary)
-      .where(eq(mediaLibrary.userId, userId));
+      .where(accountId
+        ? and(eq(mediaLibrary.userId, userId), eq(mediaLibrary.accountId, accountId))
+        : eq(mediaLibrary.userId, userId));
     return result[0]?.count || 0;
   }
 
   // Interaction Dialect (200 interactions per user)
-  async getInteractionDialect(userId: string, channelType?: string): Promise<InteractionDialectEntry[]> {
-    if (channelType) {
-      return db
-        .select()
-        .from(interactionDialect)
-        .where(and(
-          eq(interactionDialect.userId, userId),
-          eq(interactionDialect.channelType, channelType)
-        ))
-        .orderBy(desc(interactionDialect.interactedAt));
-    }
+  async getInteractionDialect(userId: string, channelType?: string, accountId?: number): Promise<InteractionDialectEntry[]> {
     return db
       .select()
       .from(interactionDialect)
-      .where(eq(interactionDialect.userId, userId))
+      .where(and(
+        eq(interactionDialect.userId, userId),
+        channelType ? eq(interactionDialect.channelType, channelType) : undefined,
+        accountId ? eq(interactionDialect.accountId, accountId) : undefined
+      ))
       .orderBy(desc(interactionDialect.interactedAt));
   }
 
@@ -1213,11 +1787,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(interactionDialect.interactedAt));
   }
 
-  async getInteractionDialectCount(userId: string): Promise<number> {
+  async getInteractionDialectCount(userId: string, accountId?: number): Promise<number> {
     const result = await db
       .select({ count: sql<number>`count(*)::int` })
       .from(interactionDialect)
-      .where(eq(interactionDialect.userId, userId));
+      .where(accountId
+        ? and(eq(interactionDialect.userId, userId), eq(interactionDialect.accountId, accountId))
+        : eq(interactionDialect.userId, userId));
     return result[0]?.count || 0;
   }
 
@@ -1264,6 +1840,1818 @@ export class DatabaseStorage implements IStorage {
       .where(eq(userGuidelines.userId, userId));
     return result[0]?.count || 0;
   }
+
+  // ============================================
+  // Instagram Accounts
+  // ============================================
+
+  // Tokens are stored encrypted (same scheme as users.instagramAccessToken)
+  // and handed back decrypted so callers can use them directly
+  private decryptAccount(account: InstagramAccount): InstagramAccount {
+    if (account.accessToken && isEncrypted(account.accessToken)) {
+      try {
+        return { ...account, accessToken: decrypt(account.accessToken) };
+      } catch (e) {
+        console.error(`Failed to decrypt access token for Instagram account ${account.id}:`, e);
+        return { ...account, accessToken: null };
+      }
+    }
+    return account;
+  }
+
+  private encryptAccountFields<T extends Partial<InsertInstagramAccount>>(data: T): T {
+    if (data.accessToken && !isEncrypted(data.accessToken)) {
+      return { ...data, accessToken: encrypt(data.accessToken) };
+    }
+    return data;
+  }
+
+  async getInstagramAccounts(userId: string): Promise<InstagramAccount[]> {
+    const accounts = await db
+      .select()
+      .from(instagramAccounts)
+      .where(eq(instagramAccounts.userId, userId))
+      .orderBy(instagramAccounts.createdAt);
+    return accounts.map((a) => this.decryptAccount(a));
+  }
+
+  async getInstagramAccount(id: number, userId: string): Promise<InstagramAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(instagramAccounts)
+      .where(and(eq(instagramAccounts.id, id), eq(instagramAccounts.userId, userId)));
+    return account ? this.decryptAccount(account) : undefined;
+  }
+
+  async getAllInstagramAccounts(): Promise<InstagramAccount[]> {
+    const accounts = await db.select().from(instagramAccounts);
+    return accounts.map((a) => this.decryptAccount(a));
+  }
+
+  // Webhooks may carry the Facebook Page ID, the IG Business ID or the
+  // app-scoped recipient ID depending on the event type
+  async findInstagramAccountByWebhookId(webhookId: string): Promise<InstagramAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(instagramAccounts)
+      .where(or(
+        eq(instagramAccounts.facebookPageId, webhookId),
+        eq(instagramAccounts.instagramAccountId, webhookId),
+        eq(instagramAccounts.instagramRecipientId, webhookId)
+      ))
+      .limit(1);
+    return account ? this.decryptAccount(account) : undefined;
+  }
+
+  async upsertInstagramAccount(data: InsertInstagramAccount): Promise<InstagramAccount> {
+    const values = this.encryptAccountFields(data);
+    const [account] = await db
+      .insert(instagramAccounts)
+      .values(values)
+      .onConflictDoUpdate({
+        target: instagramAccounts.instagramAccountId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return this.decryptAccount(account);
+  }
+
+  async updateInstagramAccount(id: number, userId: string, data: Partial<InsertInstagramAccount>): Promise<InstagramAccount | undefined> {
+    const [account] = await db
+      .update(instagramAccounts)
+      .set({ ...this.encryptAccountFields(data), updatedAt: new Date() })
+      .where(and(eq(instagramAccounts.id, id), eq(instagramAccounts.userId, userId)))
+      .returning();
+    return account ? this.decryptAccount(account) : undefined;
+  }
+
+  async deleteInstagramAccount(id: number, userId: string): Promise<void> {
+    await db
+      .delete(mediaLibrary)
+      .where(and(eq(mediaLibrary.userId, userId), eq(mediaLibrary.accountId, id)));
+    await db
+      .delete(interactionDialect)
+      .where(and(eq(interactionDialect.userId, userId), eq(interactionDialect.accountId, id)));
+    await db
+      .delete(instagramAccounts)
+      .where(and(eq(instagramAccounts.id, id), eq(instagramAccounts.userId, userId)));
+  }
+
+  // ============================================
+  // Team Workspaces
+  // ============================================
+
+  async getOrganizationByOwner(ownerId: string): Promise<Organization | undefined> {
+    const [organization] = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.ownerId, ownerId));
+    return organization || undefined;
+  }
+
+  async createOrganization(data: InsertOrganization): Promise<Organization> {
+    const [organization] = await db.insert(organizations).values(data).returning();
+    return organization;
+  }
+
+  async getMembershipForUser(userId: string): Promise<{ member: OrganizationMember; organization: Organization } | undefined> {
+    const [row] = await db
+      .select({ member: organizationMembers, organization: organizations })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId));
+    return row || undefined;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return db
+      .select()
+      .from(organizationMembers)
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(organizationMembers.createdAt);
+  }
+
+  async addOrganizationMember(data: InsertOrganizationMember): Promise<OrganizationMember> {
+    const [member] = await db.insert(organizationMembers).values(data).returning();
+    return member;
+  }
+
+  async updateOrganizationMemberRole(organizationId: number, userId: string, role: string): Promise<OrganizationMember | undefined> {
+    const [member] = await db
+      .update(organizationMembers)
+      .set({ role })
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<void> {
+    await db
+      .delete(organizationMembers)
+      .where(and(
+        eq(organizationMembers.organizationId, organizationId),
+        eq(organizationMembers.userId, userId)
+      ));
+  }
+
+  async createOrganizationInvite(data: InsertOrganizationInvite): Promise<OrganizationInvite> {
+    const [invite] = await db.insert(organizationInvites).values(data).returning();
+    return invite;
+  }
+
+  async getOrganizationInviteByToken(token: string): Promise<OrganizationInvite | undefined> {
+    const [invite] = await db
+      .select()
+      .from(organizationInvites)
+      .where(eq(organizationInvites.token, token));
+    return invite || undefined;
+  }
+
+  async getPendingOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]> {
+    return db
+      .select()
+      .from(organizationInvites)
+      .where(and(
+        eq(organizationInvites.organizationId, organizationId),
+        isNull(organizationInvites.acceptedAt),
+        sql`${organizationInvites.expiresAt} > NOW()`
+      ))
+      .orderBy(desc(organizationInvites.createdAt));
+  }
+
+  async acceptOrganizationInvite(id: number, userId: string): Promise<void> {
+    await db
+      .update(organizationInvites)
+      .set({ acceptedBy: userId, acceptedAt: new Date() })
+      .where(eq(organizationInvites.id, id));
+  }
+
+  async deleteOrganizationInvite(id: number, organizationId: number): Promise<void> {
+    await db
+      .delete(organizationInvites)
+      .where(and(
+        eq(organizationInvites.id, id),
+        eq(organizationInvites.organizationId, organizationId)
+      ));
+  }
+
+  // ============================================
+  // DM Conversations
+  // ============================================
+
+  async getConversations(userId: string, filters: { accountId?: number; status?: ConversationStatus; assignedTo?: string } = {}): Promise<DmConversation[]> {
+    const now = new Date();
+    const snoozeExpired = and(eq(dmConversations.status, "snoozed"), lt(dmConversations.snoozedUntil, now));
+
+    const conditions: (SQL | undefined)[] = [eq(dmConversations.userId, userId)];
+    if (filters.accountId !== undefined) {
+      conditions.push(eq(dmConversations.accountId, filters.accountId));
+    }
+    if (filters.status === "open") {
+      conditions.push(or(eq(dmConversations.status, "open"), snoozeExpired));
+    } else if (filters.status === "snoozed") {
+      conditions.push(and(
+        eq(dmConversations.status, "snoozed"),
+        or(isNull(dmConversations.snoozedUntil), gte(dmConversations.snoozedUntil, now))
+      ));
+    } else if (filters.status) {
+      conditions.push(eq(dmConversations.status, filters.status));
+    }
+    if (filters.assignedTo) {
+      conditions.push(eq(dmConversations.assignedTo, filters.assignedTo));
+    }
+
+    return db
+      .select()
+      .from(dmConversations)
+      .where(and(...conditions))
+      .orderBy(desc(dmConversations.lastMessageAt))
+      .then(rows => rows.map(row => withSnoozeExpiry(row, now)));
+  }
+
+  async getConversation(id: number, userId: string): Promise<DmConversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(dmConversations)
+      .where(and(eq(dmConversations.id, id), eq(dmConversations.userId, userId)));
+    return conversation ? withSnoozeExpiry(conversation, new Date()) : undefined;
+  }
+
+  // Whole thread, oldest first
+  async getConversationMessages(conversationId: number, userId: string): Promise<MessageWithResponse[]> {
+    const rows = await db
+      .select({
+        message: instagramMessages,
+        aiResponse: aiResponses,
+      })
+      .from(instagramMessages)
+      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .where(and(
+        eq(instagramMessages.conversationId, conversationId),
+        eq(instagramMessages.userId, userId)
+      ))
+      .orderBy(instagramMessages.createdAt);
+
+    return rows.map((row) => ({
+      ...row.message,
+      aiResponse: row.aiResponse || undefined,
+    }));
+  }
+
+  // Attaches a DM to its thread, creating the thread on first contact.
+  // participantId is the other person's IGSID (the recipient for our own echoed messages).
+  // Webhook jobs are processed one at a time, so select-then-insert is safe here.
+  async recordConversationMessage(message: InstagramMessage, participantId: string, inbound: boolean): Promise<DmConversation> {
+    const preview = (message.content || (message.mediaType ? `[${message.mediaType}]` : "")).substring(0, 200);
+    const now = new Date();
+
+    const [existing] = await db
+      .select()
+      .from(dmConversations)
+      .where(and(
+        eq(dmConversations.userId, message.userId),
+        message.accountId ? eq(dmConversations.accountId, message.accountId) : isNull(dmConversations.accountId),
+        eq(dmConversations.senderId, participantId)
+      ));
+
+    let conversation: DmConversation;
+    if (existing) {
+      // Retried or out-of-order webhooks must not move the thread back in time
+      const messageAt = sql`${message.createdAt.toISOString()}::timestamp`;
+      [conversation] = await db
+        .update(dmConversations)
+        .set({
+          lastMessageAt: sql`GREATEST(${dmConversations.lastMessageAt}, ${messageAt})`,
+          lastMessagePreview: sql`CASE WHEN ${dmConversations.lastMessageAt} <= ${messageAt} THEN ${preview} ELSE ${dmConversations.lastMessagePreview} END`,
+          updatedAt: now,
+          // A new inbound message reopens snoozed/closed threads
+          ...(inbound ? {
+            unreadCount: sql`${dmConversations.unreadCount} + 1`,
+            status: "open",
+            snoozedUntil: null,
+            senderName: message.senderName,
+            senderUsername: message.senderUsername,
+            senderAvatar: message.senderAvatar || existing.senderAvatar,
+          } : {}),
+        })
+        .where(eq(dmConversations.id, existing.id))
+        .returning();
+    } else {
+      // The unique (user, account, sender) index settles concurrent first messages: the loser
+      // inserts nothing and updates the winner's thread instead
+      [conversation] = await db
+        .insert(dmConversations)
+        .values({
+          userId: message.userId,
+          accountId: message.accountId,
+          senderId: participantId,
+          // Our own messages don't carry the participant's profile; the next inbound fills it in
+          senderName: inbound ? message.senderName : null,
+          senderUsername: inbound ? message.senderUsername : null,
+          senderAvatar: inbound ? message.senderAvatar : null,
+          lastMessageAt: message.createdAt,
+          lastMessagePreview: preview,
+          unreadCount: inbound ? 1 : 0,
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (!conversation) {
+        return this.recordConversationMessage(message, participantId, inbound);
+      }
+    }
+
+    await db
+      .update(instagramMessages)
+      .set({ conversationId: conversation.id })
+      .where(eq(instagramMessages.id, message.id));
+
+    return conversation;
+  }
+
+  async updateConversation(id: number, userId: string, data: Partial<InsertDmConversation>): Promise<DmConversation | undefined> {
+    const [updated] = await db
+      .update(dmConversations)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(dmConversations.id, id), eq(dmConversations.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async markConversationRead(id: number, userId: string): Promise<void> {
+    await db
+      .update(dmConversations)
+      .set({ unreadCount: 0 })
+      .where(and(eq(dmConversations.id, id), eq(dmConversations.userId, userId)));
+  }
+
+  // ============================================
+  // Webhook Ingestion Queue
+  // ============================================
+
+  // Returns undefined when a job with the same idempotency key already exists
+  async enqueueWebhookJob(job: InsertWebhookJob): Promise<WebhookJob | undefined> {
+    const [created] = await db
+      .insert(webhookJobs)
+      .values(job)
+      .onConflictDoNothing({ target: webhookJobs.idempotencyKey })
+      .returning();
+    return created;
+  }
+
+  // Atomically claims the oldest due job; SKIP LOCKED keeps concurrent workers from taking the same row
+  async claimNextWebhookJob(): Promise<WebhookJob | undefined> {
+    const [job] = await db
+      .update(webhookJobs)
+      .set({
+        status: "processing",
+        lockedAt: new Date(),
+        attempts: sql`${webhookJobs.attempts} + 1`,
+      })
+      .where(
+        eq(
+          webhookJobs.id,
+          sql`(
+            SELECT id FROM webhook_jobs
+            WHERE status = 'pending' AND next_attempt_at <= now()
+            ORDER BY id
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+          )`
+        )
+      )
+      .returning();
+    return job;
+  }
+
+  async completeWebhookJob(id: number): Promise<void> {
+    await db
+      .update(webhookJobs)
+      .set({ status: "done", lockedAt: null, lastError: null, processedAt: new Date() })
+      .where(eq(webhookJobs.id, id));
+  }
+
+  // nextAttemptAt = null moves the job to the dead-letter list
+  async failWebhookJob(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(webhookJobs)
+      .set(
+        nextAttemptAt
+          ? { status: "pending", lockedAt: null, lastError: error, nextAttemptAt }
+          : { status: "dead", lockedAt: null, lastError: error, processedAt: new Date() }
+      )
+      .where(eq(webhookJobs.id, id));
+  }
+
+  // Jobs left in 'processing' by a crashed worker go back to the queue
+  async requeueStaleWebhookJobs(lockedBefore: Date): Promise<number> {
+    const result = await db
+      .update(webhookJobs)
+      .set({ status: "pending", lockedAt: null, nextAttemptAt: new Date() })
+      .where(and(eq(webhookJobs.status, "processing"), lt(webhookJobs.lockedAt, lockedBefore)))
+      .returning({ id: webhookJobs.id });
+    return result.length;
+  }
+
+  async cleanupProcessedWebhookJobs(processedBefore: Date): Promise<number> {
+    const result = await db
+      .delete(webhookJobs)
+      .where(and(eq(webhookJobs.status, "done"), lt(webhookJobs.processedAt, processedBefore)))
+      .returning({ id: webhookJobs.id });
+    return result.length;
+  }
+
+  async getWebhookJobStats(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: webhookJobs.status, count: sql<number>`count(*)::int` })
+      .from(webhookJobs)
+      .groupBy(webhookJobs.status);
+
+    const stats: Record<string, number> = { pending: 0, processing: 0, done: 0, dead: 0 };
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  async getDeadWebhookJobs(limit: number = 50): Promise<WebhookJob[]> {
+    return db
+      .select()
+      .from(webhookJobs)
+      .where(eq(webhookJobs.status, "dead"))
+      .orderBy(desc(webhookJobs.processedAt))
+      .limit(limit);
+  }
+
+  async retryWebhookJob(id: number): Promise<WebhookJob | undefined> {
+    const [job] = await db
+      .update(webhookJobs)
+      .set({ status: "pending", attempts: 0, lockedAt: null, nextAttemptAt: new Date(), processedAt: null })
+      .where(and(eq(webhookJobs.id, id), eq(webhookJobs.status, "dead")))
+      .returning();
+    return job;
+  }
+
+  async deleteWebhookJob(id: number): Promise<void> {
+    await db.delete(webhookJobs).where(eq(webhookJobs.id, id));
+  }
+
+  // ============================================
+  // Send Scheduler (outbox)
+  // ============================================
+
+  async createScheduledSend(entry: InsertScheduledSend): Promise<ScheduledSend> {
+    const [created] = await db.insert(scheduledSends).values(entry).returning();
+    return created;
+  }
+
+  async getScheduledSends(
+    userId: string,
+    options: { accountId?: number; statuses: ScheduledSendStatus[] }
+  ): Promise<ScheduledSendWithMessage[]> {
+    const conditions = [
+      eq(scheduledSends.userId, userId),
+      inArray(scheduledSends.status, options.statuses),
+    ];
+    if (options.accountId) {
+      conditions.push(eq(scheduledSends.accountId, options.accountId));
+    }
+
+    const rows = await db
+      .select({
+        send: scheduledSends,
+        message: {
+          type: instagramMessages.type,
+          senderName: instagramMessages.senderName,
+          senderUsername: instagramMessages.senderUsername,
+          senderAvatar: instagramMessages.senderAvatar,
+          content: instagramMessages.content,
+          mediaType: instagramMessages.mediaType,
+        },
+      })
+      .from(scheduledSends)
+      .innerJoin(instagramMessages, eq(scheduledSends.messageId, instagramMessages.id))
+      .where(and(...conditions))
+      .orderBy(scheduledSends.sendAt)
+      .limit(200);
+
+    return rows.map(row => ({ ...row.send, message: row.message }));
+  }
+
+  async getScheduledSend(id: number, userId: string): Promise<ScheduledSend | undefined> {
+    const [send] = await db
+      .select()
+      .from(scheduledSends)
+      .where(and(eq(scheduledSends.id, id), eq(scheduledSends.userId, userId)));
+    return send;
+  }
+
+  // Only sends still waiting can be edited or cancelled
+  async updateScheduledSend(
+    id: number,
+    userId: string,
+    data: { responseText?: string; sendAt?: Date }
+  ): Promise<ScheduledSend | undefined> {
+    const [send] = await db
+      .update(scheduledSends)
+      .set(data)
+      .where(and(eq(scheduledSends.id, id), eq(scheduledSends.userId, userId), eq(scheduledSends.status, "scheduled")))
+      .returning();
+    return send;
+  }
+
+  async cancelScheduledSend(id: number, userId: string): Promise<ScheduledSend | undefined> {
+    const [send] = await db
+      .update(scheduledSends)
+      .set({ status: "cancelled", lockedAt: null })
+      .where(and(eq(scheduledSends.id, id), eq(scheduledSends.userId, userId), eq(scheduledSends.status, "scheduled")))
+      .returning();
+    return send;
+  }
+
+  // A new approval replaces whatever was already waiting for the same message
+  async cancelScheduledSendsForMessage(messageId: number, userId: string): Promise<number> {
+    const result = await db
+      .update(scheduledSends)
+      .set({ status: "cancelled", lockedAt: null })
+      .where(and(
+        eq(scheduledSends.messageId, messageId),
+        eq(scheduledSends.userId, userId),
+        eq(scheduledSends.status, "scheduled")
+      ))
+      .returning({ id: scheduledSends.id });
+    return result.length;
+  }
+
+  async claimNextScheduledSend(): Promise<ScheduledSend | undefined> {
+    const [send] = await db
+      .update(scheduledSends)
+      .set({
+        status: "sending",
+        lockedAt: new Date(),
+        attempts: sql`${scheduledSends.attempts} + 1`,
+      })
+      .where(
+        eq(
+          scheduledSends.id,
+          sql`(
+            SELECT id FROM scheduled_sends
+            WHERE status = 'scheduled' AND send_at <= now()
+            ORDER BY send_at
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+          )`
+        )
+      )
+      .returning();
+    return send;
+  }
+
+  async completeScheduledSend(id: number): Promise<void> {
+    await db
+      .update(scheduledSends)
+      .set({ status: "sent", lockedAt: null, lastError: null, sentAt: new Date() })
+      .where(eq(scheduledSends.id, id));
+  }
+
+  // retryAt = null gives up: the send stays in the outbox as 'failed'
+  async failScheduledSend(id: number, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(scheduledSends)
+      .set(
+        retryAt
+          ? { status: "scheduled", lockedAt: null, lastError: error, sendAt: retryAt }
+          : { status: "failed", lockedAt: null, lastError: error }
+      )
+      .where(eq(scheduledSends.id, id));
+  }
+
+  // Out of Graph API budget: back to the queue without spending an attempt
+  async deferScheduledSend(id: number, retryAt: Date, reason: string): Promise<void> {
+    await db
+      .update(scheduledSends)
+      .set({
+        status: "scheduled",
+        lockedAt: null,
+        lastError: reason,
+        sendAt: retryAt,
+        attempts: sql`GREATEST(${scheduledSends.attempts} - 1, 0)`,
+      })
+      .where(eq(scheduledSends.id, id));
+  }
+
+  // A send left in 'sending' by a restart may or may not have reached Instagram,
+  // so it is failed for a human to check instead of being retried blindly
+  async failInterruptedScheduledSends(): Promise<ScheduledSend[]> {
+    return db
+      .update(scheduledSends)
+      .set({ status: "failed", lockedAt: null, lastError: "Envio interrompido por reinício do servidor" })
+      .where(eq(scheduledSends.status, "sending"))
+      .returning();
+  }
+
+  // ============================================
+  // Snippets (reusable replies)
+  // ============================================
+
+  // With an account: its own snippets plus the workspace-wide ones (accountId null)
+  async getSnippets(userId: string, accountId?: number): Promise<Snippet[]> {
+    const conditions = [eq(snippets.userId, userId)];
+    if (accountId) {
+      conditions.push(or(eq(snippets.accountId, accountId), isNull(snippets.accountId))!);
+    }
+    return db
+      .select()
+      .from(snippets)
+      .where(and(...conditions))
+      .orderBy(snippets.name);
+  }
+
+  async getSnippet(id: number, userId: string): Promise<Snippet | undefined> {
+    const [snippet] = await db
+      .select()
+      .from(snippets)
+      .where(and(eq(snippets.id, id), eq(snippets.userId, userId)));
+    return snippet;
+  }
+
+  async getSnippetByName(userId: string, name: string): Promise<Snippet | undefined> {
+    const [snippet] = await db
+      .select()
+      .from(snippets)
+      .where(and(eq(snippets.userId, userId), eq(snippets.name, name)));
+    return snippet;
+  }
+
+  async createSnippet(entry: InsertSnippet): Promise<Snippet> {
+    const [snippet] = await db.insert(snippets).values(entry).returning();
+    return snippet;
+  }
+
+  async updateSnippet(id: number, userId: string, data: Partial<InsertSnippet>): Promise<Snippet | undefined> {
+    const [snippet] = await db
+      .update(snippets)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(snippets.id, id), eq(snippets.userId, userId)))
+      .returning();
+    return snippet;
+  }
+
+  async deleteSnippet(id: number, userId: string): Promise<void> {
+    await db.delete(snippets).where(and(eq(snippets.id, id), eq(snippets.userId, userId)));
+  }
+
+  // ============================================
+  // Automation Rules
+  // ============================================
+
+  async getAutomationRules(userId: string): Promise<AutomationRule[]> {
+    return db
+      .select()
+      .from(automationRules)
+      .where(eq(automationRules.userId, userId))
+      .orderBy(automationRules.priority, automationRules.id);
+  }
+
+  // Rules the webhook pipeline evaluates for a message received by accountId, in evaluation order
+  async getActiveAutomationRules(userId: string, accountId: number | null): Promise<AutomationRule[]> {
+    return db
+      .select()
+      .from(automationRules)
+      .where(and(
+        eq(automationRules.userId, userId),
+        eq(automationRules.isActive, true),
+        accountId
+          ? or(eq(automationRules.accountId, accountId), isNull(automationRules.accountId))
+          : isNull(automationRules.accountId)
+      ))
+      .orderBy(automationRules.priority, automationRules.id);
+  }
+
+  async getAutomationRule(id: number, userId: string): Promise<AutomationRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(automationRules)
+      .where(and(eq(automationRules.id, id), eq(automationRules.userId, userId)));
+    return rule;
+  }
+
+  async createAutomationRule(rule: InsertAutomationRule): Promise<AutomationRule> {
+    const [created] = await db.insert(automationRules).values(rule).returning();
+    return created;
+  }
+
+  async updateAutomationRule(id: number, userId: string, data: Partial<InsertAutomationRule>): Promise<AutomationRule | undefined> {
+    const [rule] = await db
+      .update(automationRules)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(automationRules.id, id), eq(automationRules.userId, userId)))
+      .returning();
+    return rule;
+  }
+
+  async deleteAutomationRule(id: number, userId: string): Promise<void> {
+    await db.delete(automationRules).where(and(eq(automationRules.id, id), eq(automationRules.userId, userId)));
+  }
+
+  async recordAutomationRuleMatch(id: number): Promise<void> {
+    await db
+      .update(automationRules)
+      .set({ matchCount: sql`${automationRules.matchCount} + 1`, lastMatchedAt: new Date() })
+      .where(eq(automationRules.id, id));
+  }
+
+  // ============================================
+  // Private Replies (comment -> DM)
+  // ============================================
+
+  // One private reply per comment: a failed one is queued again with the new text,
+  // a queued/sent one is left alone and undefined is returned
+  async queuePrivateReply(entry: InsertPrivateReply): Promise<PrivateReply | undefined> {
+    const [reply] = await db
+      .insert(privateReplies)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: privateReplies.messageId,
+        set: {
+          text: entry.text,
+          origin: entry.origin,
+          createdBy: entry.createdBy,
+          status: "queued",
+          attempts: 0,
+          lastError: null,
+          sendAt: new Date(),
+          createdAt: new Date(),
+        },
+        setWhere: eq(privateReplies.status, "failed"),
+      })
+      .returning();
+    return reply;
+  }
+
+  // The comments whose private reply opened (or landed in) this DM thread
+  async getPrivateRepliesForConversation(conversationId: number, userId: string): Promise<(PrivateReply & { comment: InstagramMessage })[]> {
+    const rows = await db
+      .select({ reply: privateReplies, comment: instagramMessages })
+      .from(privateReplies)
+      .innerJoin(instagramMessages, eq(privateReplies.messageId, instagramMessages.id))
+      .where(and(eq(privateReplies.conversationId, conversationId), eq(privateReplies.userId, userId)))
+      .orderBy(privateReplies.createdAt);
+    return rows.map((row) => ({ ...row.reply, comment: row.comment }));
+  }
+
+  async claimNextPrivateReply(): Promise<PrivateReply | undefined> {
+    const [reply] = await db
+      .update(privateReplies)
+      .set({
+        status: "sending",
+        attempts: sql`${privateReplies.attempts} + 1`,
+      })
+      .where(
+        eq(
+          privateReplies.id,
+          sql`(
+            SELECT id FROM private_replies
+            WHERE status = 'queued' AND send_at <= now()
+            ORDER BY send_at
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+          )`
+        )
+      )
+      .returning();
+    return reply;
+  }
+
+  // The DM thread usually already exists when the commenter had messaged before;
+  // otherwise linkPrivateReplyConversation links it when they answer
+  async completePrivateReply(id: number, instagramMessageId: string | null, recipientId: string | null): Promise<PrivateReply | undefined> {
+    const [reply] = await db
+      .update(privateReplies)
+      .set({
+        status: "sent",
+        lastError: null,
+        sentAt: new Date(),
+        instagramMessageId,
+        recipientId,
+        conversationId: sql`(
+          SELECT c.id FROM dm_conversations c
+          WHERE c.user_id = ${privateReplies.userId}
+            AND c.sender_id = ${recipientId}
+            AND c.account_id IS NOT DISTINCT FROM ${privateReplies.accountId}
+          LIMIT 1
+        )`,
+      })
+      .where(eq(privateReplies.id, id))
+      .returning();
+    return reply;
+  }
+
+  // retryAt = null gives up: the reply stays on the comment as 'failed'
+  async failPrivateReply(id: number, error: string, retryAt: Date | null): Promise<PrivateReply | undefined> {
+    const [reply] = await db
+      .update(privateReplies)
+      .set(
+        retryAt
+          ? { status: "queued", lastError: error, sendAt: retryAt }
+          : { status: "failed", lastError: error }
+      )
+      .where(eq(privateReplies.id, id))
+      .returning();
+    return reply;
+  }
+
+  // Out of Graph API budget: back to the queue without spending an attempt
+  async deferPrivateReply(id: number, retryAt: Date, reason: string): Promise<void> {
+    await db
+      .update(privateReplies)
+      .set({
+        status: "queued",
+        lastError: reason,
+        sendAt: retryAt,
+        attempts: sql`GREATEST(${privateReplies.attempts} - 1, 0)`,
+      })
+      .where(eq(privateReplies.id, id));
+  }
+
+  // Same rule as scheduled sends: an interrupted send may have reached Instagram, so it is not retried
+  async failInterruptedPrivateReplies(): Promise<PrivateReply[]> {
+    return db
+      .update(privateReplies)
+      .set({ status: "failed", lastError: "Envio interrompido por reinício do servidor" })
+      .where(eq(privateReplies.status, "sending"))
+      .returning();
+  }
+
+  // Called for every DM thread touched by the webhook: links the private replies
+  // sent to that participant that are not linked to a thread yet
+  async linkPrivateReplyConversation(conversation: DmConversation): Promise<number> {
+    const linked = await db
+      .update(privateReplies)
+      .set({ conversationId: conversation.id })
+      .where(
+        and(
+          eq(privateReplies.userId, conversation.userId),
+          eq(privateReplies.recipientId, conversation.senderId),
+          eq(privateReplies.status, "sent"),
+          isNull(privateReplies.conversationId),
+          conversation.accountId
+            ? eq(privateReplies.accountId, conversation.accountId)
+            : isNull(privateReplies.accountId)
+        )
+      )
+      .returning({ id: privateReplies.id });
+    return linked.length;
+  }
+
+  // ============================================
+  // Comment Moderation (audit trail)
+  // ============================================
+
+  async addCommentModerationLog(entry: InsertCommentModerationLogEntry): Promise<CommentModerationLogEntry> {
+    const [logEntry] = await db.insert(commentModerationLog).values(entry).returning();
+    return logEntry;
+  }
+
+  async getCommentModerationLog(messageId: number, userId: string): Promise<CommentModerationLogEntry[]> {
+    return db
+      .select()
+      .from(commentModerationLog)
+      .where(and(eq(commentModerationLog.messageId, messageId), eq(commentModerationLog.userId, userId)))
+      .orderBy(desc(commentModerationLog.createdAt));
+  }
+
+  // ============================================
+  // Contacts (per-person notes/tags and aggregated activity)
+  // ============================================
+
+  async getContact(userId: string, igsid: string): Promise<Contact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.userId, userId), eq(contacts.igsid, igsid)));
+    return contact;
+  }
+
+  async upsertContact(
+    userId: string,
+    igsid: string,
+    data: ContactInput & { username?: string | null; name?: string | null; updatedBy?: string | null }
+  ): Promise<Contact> {
+    const [contact] = await db
+      .insert(contacts)
+      .values({ ...data, userId, igsid })
+      .onConflictDoUpdate({
+        target: [contacts.userId, contacts.igsid],
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return contact;
+  }
+
+  // Called for every inbound message: creates the contact or refreshes name/username/last seen
+  async recordContactActivity(message: InstagramMessage): Promise<void> {
+    if (!message.senderId) return;
+    await db
+      .insert(contacts)
+      .values({
+        userId: message.userId,
+        igsid: message.senderId,
+        username: message.senderUsername,
+        name: message.senderName,
+        firstSeenAt: message.createdAt,
+        lastSeenAt: message.createdAt,
+      })
+      .onConflictDoUpdate({
+        target: [contacts.userId, contacts.igsid],
+        set: {
+          username: message.senderUsername,
+          name: message.senderName,
+          lastSeenAt: sql`greatest(${contacts.lastSeenAt}, ${message.createdAt})`,
+        },
+      });
+  }
+
+  async fillContactDetails(userId: string, igsid: string, details: ExtractedContactDetails): Promise<void> {
+    const interest = details.interest ? { interest: details.interest } : {};
+    await db
+      .update(contacts)
+      .set({
+        email: sql`coalesce(${contacts.email}, ${details.email ?? null})`,
+        phone: sql`coalesce(${contacts.phone}, ${details.phone ?? null})`,
+        // Existing keys win: the team may have corrected the value
+        customFields: sql`${JSON.stringify(interest)}::jsonb || ${contacts.customFields}`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(contacts.userId, userId), eq(contacts.igsid, igsid)));
+  }
+
+  async searchContacts(userId: string, filter: ContactSegmentFilter, limit: number): Promise<ContactListItem[]> {
+    const conditions: (SQL | undefined)[] = [eq(contacts.userId, userId)];
+
+    if (filter.q) {
+      const pattern = `%${filter.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(
+        sql`${contacts.username} ILIKE ${pattern}`,
+        sql`${contacts.name} ILIKE ${pattern}`,
+        sql`${contacts.email} ILIKE ${pattern}`,
+        sql`${contacts.phone} ILIKE ${pattern}`,
+        sql`${contacts.notes} ILIKE ${pattern}`
+      ));
+    }
+    if (filter.tags) {
+      conditions.push(sql`${contacts.tags} ?| array[${sql.join(filter.tags.map(t => sql`${t}`), sql`, `)}]::text[]`);
+    }
+    if (filter.leadStages) {
+      conditions.push(inArray(contacts.leadStage, filter.leadStages));
+    }
+    if (filter.hasEmail !== undefined) {
+      conditions.push(filter.hasEmail ? isNotNull(contacts.email) : isNull(contacts.email));
+    }
+    if (filter.hasPhone !== undefined) {
+      conditions.push(filter.hasPhone ? isNotNull(contacts.phone) : isNull(contacts.phone));
+    }
+
+    // Message conditions: one message of theirs must match all of them
+    if (filter.keywords || filter.messageType || filter.activeWithinDays) {
+      const messageConditions: SQL[] = [sql`m.user_id = ${contacts.userId}`, sql`m.sender_id = ${contacts.igsid}`];
+      if (filter.messageType) {
+        messageConditions.push(sql`m.type = ${filter.messageType}`);
+      }
+      if (filter.activeWithinDays) {
+        const since = new Date(Date.now() - filter.activeWithinDays * 24 * 60 * 60 * 1000);
+        messageConditions.push(sql`m.created_at >= ${since}`);
+      }
+      if (filter.keywords) {
+        const patterns = filter.keywords.map(k => sql`m.content ILIKE ${`%${k.replace(/[\\%_]/g, "\\$&")}%`}`);
+        messageConditions.push(sql`(${sql.join(patterns, sql` OR `)})`);
+      }
+      conditions.push(sql`EXISTS (SELECT 1 FROM instagram_messages m WHERE ${sql.join(messageConditions, sql` AND `)})`);
+    }
+
+    const messageCount = (type: "dm" | "comment") =>
+      sql<number>`(SELECT count(*) FROM instagram_messages m WHERE m.user_id = ${contacts.userId} AND m.sender_id = ${contacts.igsid} AND m.type = ${type})`;
+
+    const rows = await db
+      .select({
+        contact: contacts,
+        dmCount: messageCount("dm"),
+        commentCount: messageCount("comment"),
+      })
+      .from(contacts)
+      .where(and(...conditions))
+      .orderBy(desc(contacts.lastSeenAt))
+      .limit(limit);
+
+    return rows.map(row => ({ ...row.contact, dmCount: Number(row.dmCount), commentCount: Number(row.commentCount) }));
+  }
+
+  async getContactSegments(userId: string): Promise<ContactSegment[]> {
+    return db.select().from(contactSegments).where(eq(contactSegments.userId, userId)).orderBy(contactSegments.name);
+  }
+
+  async getContactSegment(id: number, userId: string): Promise<ContactSegment | undefined> {
+    const [segment] = await db
+      .select()
+      .from(contactSegments)
+      .where(and(eq(contactSegments.id, id), eq(contactSegments.userId, userId)));
+    return segment;
+  }
+
+  async createContactSegment(userId: string, data: ContactSegmentInput, createdBy: string | null): Promise<ContactSegment> {
+    const [segment] = await db.insert(contactSegments).values({ ...data, userId, createdBy }).returning();
+    return segment;
+  }
+
+  async updateContactSegment(id: number, userId: string, data: Partial<ContactSegmentInput>): Promise<ContactSegment | undefined> {
+    const [segment] = await db
+      .update(contactSegments)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(contactSegments.id, id), eq(contactSegments.userId, userId)))
+      .returning();
+    return segment;
+  }
+
+  // false = no such segment in this workspace
+  async deleteContactSegment(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(contactSegments)
+      .where(and(eq(contactSegments.id, id), eq(contactSegments.userId, userId)))
+      .returning({ id: contactSegments.id });
+    return deleted.length > 0;
+  }
+
+  // Newest first, DMs and comments alike
+  async getContactMessages(userId: string, igsid: string, limit: number): Promise<MessageWithResponse[]> {
+    const rows = await db
+      .select({
+        message: instagramMessages,
+        aiResponse: aiResponses,
+      })
+      .from(instagramMessages)
+      .leftJoin(aiResponses, eq(instagramMessages.id, aiResponses.messageId))
+      .where(and(eq(instagramMessages.userId, userId), eq(instagramMessages.senderId, igsid)))
+      .orderBy(desc(instagramMessages.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row.message,
+      aiResponse: row.aiResponse || undefined,
+    }));
+  }
+
+  async getContactActivity(userId: string, igsid: string): Promise<ContactActivity> {
+    const byPerson = and(eq(instagramMessages.userId, userId), eq(instagramMessages.senderId, igsid));
+
+    const [totals] = await db
+      .select({
+        dmCount: sql<number>`count(*) filter (where ${instagramMessages.type} = 'dm')`,
+        commentCount: sql<number>`count(*) filter (where ${instagramMessages.type} = 'comment')`,
+        firstSeenAt: sql<Date | null>`min(${instagramMessages.createdAt})`,
+        lastSeenAt: sql<Date | null>`max(${instagramMessages.createdAt})`,
+      })
+      .from(instagramMessages)
+      .where(byPerson);
+
+    const posts = await db
+      .select({
+        postId: sql<string>`${instagramMessages.postId}`,
+        permalink: sql<string | null>`max(${instagramMessages.postPermalink})`,
+        caption: sql<string | null>`max(${instagramMessages.postCaption})`,
+        thumbnailUrl: sql<string | null>`max(${instagramMessages.postThumbnailUrl})`,
+        comments: sql<number>`count(*)`,
+        lastAt: sql<Date>`max(${instagramMessages.createdAt})`,
+      })
+      .from(instagramMessages)
+      .where(and(byPerson, eq(instagramMessages.type, "comment"), sql`${instagramMessages.postId} IS NOT NULL`))
+      .groupBy(instagramMessages.postId)
+      .orderBy(sql`max(${instagramMessages.createdAt}) DESC`)
+      .limit(10);
+
+    // Aggregates come back as strings from node-postgres
+    return {
+      dmCount: Number(totals?.dmCount || 0),
+      commentCount: Number(totals?.commentCount || 0),
+      firstSeenAt: totals?.firstSeenAt ? new Date(totals.firstSeenAt) : null,
+      lastSeenAt: totals?.lastSeenAt ? new Date(totals.lastSeenAt) : null,
+      posts: posts.map(p => ({ ...p, comments: Number(p.comments), lastAt: new Date(p.lastAt) })),
+    };
+  }
+
+  // Synced history only knows the @username, not the IGSID
+  async getDialectInteractionsForUsername(userId: string, username: string, limit: number): Promise<InteractionDialectEntry[]> {
+    return db
+      .select()
+      .from(interactionDialect)
+      .where(and(
+        eq(interactionDialect.userId, userId),
+        eq(sql`lower(${interactionDialect.senderUsername})`, username.replace(/^@/, "").toLowerCase())
+      ))
+      .orderBy(desc(interactionDialect.interactedAt))
+      .limit(limit);
+  }
+
+  // ============================================
+  // System Prompt Versions
+  // ============================================
+
+  async getLatestPromptVersion(userId: string): Promise<SystemPromptVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(systemPromptVersions)
+      .where(eq(systemPromptVersions.userId, userId))
+      .orderBy(desc(systemPromptVersions.version))
+      .limit(1);
+    return version;
+  }
+
+  async getPromptVersion(id: number, userId: string): Promise<SystemPromptVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(systemPromptVersions)
+      .where(and(eq(systemPromptVersions.id, id), eq(systemPromptVersions.userId, userId)));
+    return version;
+  }
+
+  // Newest first, with the author's name and how the replies generated under each version did
+  async getPromptVersions(userId: string, limit: number): Promise<PromptVersionSummary[]> {
+    const rows = await db
+      .select({
+        version: systemPromptVersions,
+        authorName: sql<string | null>`nullif(trim(concat_ws(' ', ${users.firstName}, ${users.lastName})), '')`,
+        authorEmail: users.email,
+        responseCount: sql<number>`(SELECT count(*) FROM ai_responses r WHERE r.prompt_version_id = ${systemPromptVersions.id})`,
+        approvedCount: sql<number>`(SELECT count(*) FROM ai_responses r WHERE r.prompt_version_id = ${systemPromptVersions.id} AND r.was_approved = true)`,
+        editedCount: sql<number>`(SELECT count(*) FROM ai_responses r WHERE r.prompt_version_id = ${systemPromptVersions.id} AND r.was_edited = true)`,
+        avgConfidence: sql<number | null>`(SELECT avg(r.confidence_score) FROM ai_responses r WHERE r.prompt_version_id = ${systemPromptVersions.id})`,
+      })
+      .from(systemPromptVersions)
+      .leftJoin(users, eq(systemPromptVersions.authorId, users.id))
+      .where(eq(systemPromptVersions.userId, userId))
+      .orderBy(desc(systemPromptVersions.version))
+      .limit(limit);
+
+    // Aggregates come back as strings from node-postgres
+    return rows.map(row => ({
+      ...row.version,
+      authorName: row.authorName || row.authorEmail || null,
+      responseCount: Number(row.responseCount),
+      approvedCount: Number(row.approvedCount),
+      editedCount: Number(row.editedCount),
+      avgConfidence: row.avgConfidence === null ? null : Number(row.avgConfidence),
+    }));
+  }
+
+  // Next version number is computed in the insert; the unique (user, version) key rejects a concurrent save that got the same one
+  async createPromptVersion(data: { userId: string; content: string | null; source: PromptVersionSource; authorId: string | null; restoredFromId?: number | null }): Promise<SystemPromptVersion> {
+    const [version] = await db
+      .insert(systemPromptVersions)
+      .values({
+        ...data,
+        version: sql`(SELECT coalesce(max(version), 0) + 1 FROM system_prompt_versions WHERE user_id = ${data.userId})`,
+      })
+      .returning();
+    return version;
+  }
+
+  // ============================================
+  // Prompt Experiments
+  // ============================================
+
+  // Newest first, with per-variant outcomes of the replies generated during each experiment
+  async getPromptExperiments(userId: string, limit: number): Promise<PromptExperimentSummary[]> {
+    const experiments = await db
+      .select({ experiment: promptExperiments, accountUsername: instagramAccounts.instagramUsername })
+      .from(promptExperiments)
+      .leftJoin(instagramAccounts, eq(promptExperiments.accountId, instagramAccounts.id))
+      .where(eq(promptExperiments.userId, userId))
+      .orderBy(desc(promptExperiments.createdAt))
+      .limit(limit);
+    if (experiments.length === 0) return [];
+
+    const ids = experiments.map(e => e.experiment.id);
+    const idList = sql.join(ids.map(id => sql`${id}`), sql`, `);
+    // "Contact replied": the sender wrote again within 7 days of the reply going out
+    const [stats, senders] = await Promise.all([
+      db.execute(sql`
+        SELECT r.experiment_id, r.experiment_variant AS variant,
+          count(*) AS responses,
+          count(*) FILTER (WHERE r.was_approved = true) AS approved,
+          count(*) FILTER (WHERE r.was_approved = false) AS rejected,
+          count(*) FILTER (WHERE r.was_approved = true AND r.was_edited = true) AS edited,
+          count(*) FILTER (WHERE r.feedback_status = 'like') AS likes,
+          count(*) FILTER (WHERE r.feedback_status = 'dislike') AS dislikes,
+          count(*) FILTER (WHERE r.approved_at IS NOT NULL) AS sent,
+          count(*) FILTER (WHERE r.approved_at IS NOT NULL AND m.sender_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM instagram_messages next
+            WHERE next.user_id = m.user_id
+              AND next.sender_id = m.sender_id
+              AND next.created_at > r.approved_at
+              AND next.created_at <= r.approved_at + interval '7 days'
+          )) AS contact_replied,
+          avg(t.latency_ms) AS avg_latency_ms,
+          avg(extract(epoch FROM r.approved_at - m.created_at)) FILTER (WHERE r.approved_at IS NOT NULL) AS avg_seconds_to_send
+        FROM ai_responses r
+        JOIN instagram_messages m ON m.id = r.message_id
+        LEFT JOIN generation_traces t ON t.id = r.trace_id
+        WHERE r.experiment_id IN (${idList})
+        GROUP BY r.experiment_id, r.experiment_variant
+      `),
+      db.execute(sql`
+        SELECT experiment_id, variant, count(*) AS senders
+        FROM prompt_experiment_assignments
+        WHERE experiment_id IN (${idList})
+        GROUP BY experiment_id, variant
+      `),
+    ]);
+
+    const num = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+    const statsRows = stats.rows as any[];
+    const senderRows = senders.rows as any[];
+    return experiments.map(({ experiment, accountUsername }) => ({
+      ...experiment,
+      accountUsername,
+      variants: (["a", "b"] as const).map((variant): ExperimentVariantStats => {
+        const row = statsRows.find(r => r.experiment_id === experiment.id && r.variant === variant);
+        const assigned = senderRows.find(r => r.experiment_id === experiment.id && r.variant === variant);
+        return {
+          variant,
+          senders: Number(assigned?.senders ?? 0),
+          responses: Number(row?.responses ?? 0),
+          approved: Number(row?.approved ?? 0),
+          rejected: Number(row?.rejected ?? 0),
+          edited: Number(row?.edited ?? 0),
+          likes: Number(row?.likes ?? 0),
+          dislikes: Number(row?.dislikes ?? 0),
+          sent: Number(row?.sent ?? 0),
+          contactReplied: Number(row?.contact_replied ?? 0),
+          avgLatencyMs: num(row?.avg_latency_ms),
+          avgSecondsToSend: num(row?.avg_seconds_to_send),
+        };
+      }),
+    }));
+  }
+
+  async getPromptExperiment(id: number, userId: string): Promise<PromptExperiment | undefined> {
+    const [experiment] = await db
+      .select()
+      .from(promptExperiments)
+      .where(and(eq(promptExperiments.id, id), eq(promptExperiments.userId, userId)));
+    return experiment;
+  }
+
+  // The experiment a message to this account takes part in: the account's own, else one for all accounts
+  async getRunningPromptExperiment(userId: string, accountId: number | null): Promise<PromptExperiment | undefined> {
+    const scope = accountId === null
+      ? isNull(promptExperiments.accountId)
+      : or(isNull(promptExperiments.accountId), eq(promptExperiments.accountId, accountId));
+    const [experiment] = await db
+      .select()
+      .from(promptExperiments)
+      .where(and(eq(promptExperiments.userId, userId), eq(promptExperiments.status, "running"), scope))
+      .orderBy(sql`${promptExperiments.accountId} IS NULL`, desc(promptExperiments.createdAt))
+      .limit(1);
+    return experiment;
+  }
+
+  async createPromptExperiment(userId: string, data: PromptExperimentInput, createdBy: string | null): Promise<PromptExperiment> {
+    const [experiment] = await db
+      .insert(promptExperiments)
+      .values({ ...data, userId, createdBy })
+      .returning();
+    return experiment;
+  }
+
+  async updatePromptExperiment(
+    id: number,
+    userId: string,
+    data: Partial<Pick<PromptExperiment, "name" | "trafficSplit" | "status" | "winner" | "endedBy" | "endedAt">>
+  ): Promise<PromptExperiment | undefined> {
+    const [experiment] = await db
+      .update(promptExperiments)
+      .set(data)
+      .where(and(eq(promptExperiments.id, id), eq(promptExperiments.userId, userId)))
+      .returning();
+    return experiment;
+  }
+
+  // First assignment wins: a concurrent message from the same sender gets the stored variant back
+  async assignExperimentVariant(experimentId: number, senderKey: string, variant: ExperimentVariant): Promise<ExperimentVariant> {
+    await db
+      .insert(promptExperimentAssignments)
+      .values({ experimentId, senderKey, variant })
+      .onConflictDoNothing();
+    const [assignment] = await db
+      .select({ variant: promptExperimentAssignments.variant })
+      .from(promptExperimentAssignments)
+      .where(and(
+        eq(promptExperimentAssignments.experimentId, experimentId),
+        eq(promptExperimentAssignments.senderKey, senderKey)
+      ));
+    return (assignment?.variant as ExperimentVariant | undefined) ?? variant;
+  }
+
+  // ============================================
+  // Evaluation Suites (golden sets)
+  // ============================================
+
+  async getEvalSuites(userId: string): Promise<EvalSuiteSummary[]> {
+    const suites = await db
+      .select({
+        suite: evalSuites,
+        caseCount: sql<number>`(SELECT count(*) FROM eval_cases c WHERE c.suite_id = ${evalSuites.id})`,
+      })
+      .from(evalSuites)
+      .where(eq(evalSuites.userId, userId))
+      .orderBy(evalSuites.name);
+    if (suites.length === 0) return [];
+
+    const lastRuns = await db
+      .selectDistinctOn([evalRuns.suiteId])
+      .from(evalRuns)
+      .where(inArray(evalRuns.suiteId, suites.map(s => s.suite.id)))
+      .orderBy(evalRuns.suiteId, desc(evalRuns.createdAt));
+    const lastRunBySuite = new Map(lastRuns.map(run => [run.suiteId, run]));
+
+    return suites.map(({ suite, caseCount }) => ({
+      ...suite,
+      caseCount: Number(caseCount),
+      lastRun: lastRunBySuite.get(suite.id) ?? null,
+    }));
+  }
+
+  async getEvalSuite(id: number, userId: string): Promise<EvalSuite | undefined> {
+    const [suite] = await db
+      .select()
+      .from(evalSuites)
+      .where(and(eq(evalSuites.id, id), eq(evalSuites.userId, userId)));
+    return suite;
+  }
+
+  async createEvalSuite(userId: string, data: EvalSuiteInput, createdBy: string | null): Promise<EvalSuite> {
+    const [suite] = await db.insert(evalSuites).values({ ...data, userId, createdBy }).returning();
+    return suite;
+  }
+
+  async updateEvalSuite(id: number, userId: string, data: Partial<EvalSuiteInput>): Promise<EvalSuite | undefined> {
+    const [suite] = await db
+      .update(evalSuites)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(evalSuites.id, id), eq(evalSuites.userId, userId)))
+      .returning();
+    return suite;
+  }
+
+  async deleteEvalSuite(id: number, userId: string): Promise<void> {
+    await db.delete(evalSuites).where(and(eq(evalSuites.id, id), eq(evalSuites.userId, userId)));
+  }
+
+  // Callers check that the suite belongs to the workspace first
+  async getEvalCases(suiteId: number): Promise<EvalCase[]> {
+    return db.select().from(evalCases).where(eq(evalCases.suiteId, suiteId)).orderBy(evalCases.id);
+  }
+
+  async createEvalCases(cases: InsertEvalCase[]): Promise<EvalCase[]> {
+    if (cases.length === 0) return [];
+    return db.insert(evalCases).values(cases).returning();
+  }
+
+  async updateEvalCase(id: number, suiteId: number, data: Partial<EvalCaseInput>): Promise<EvalCase | undefined> {
+    const [evalCase] = await db
+      .update(evalCases)
+      .set(data)
+      .where(and(eq(evalCases.id, id), eq(evalCases.suiteId, suiteId)))
+      .returning();
+    return evalCase;
+  }
+
+  async deleteEvalCase(id: number, suiteId: number): Promise<void> {
+    await db.delete(evalCases).where(and(eq(evalCases.id, id), eq(evalCases.suiteId, suiteId)));
+  }
+
+  // Most recently approved first; the reply is what was sent (edited or not)
+  async getApprovedReplies(userId: string, limit: number): Promise<ApprovedReply[]> {
+    const rows = await db
+      .select({
+        aiResponseId: aiResponses.id,
+        type: instagramMessages.type,
+        content: sql<string>`${instagramMessages.content}`,
+        senderName: instagramMessages.senderName,
+        postCaption: instagramMessages.postCaption,
+        reply: sql<string>`coalesce(${aiResponses.finalResponse}, ${aiResponses.suggestedResponse})`,
+      })
+      .from(aiResponses)
+      .innerJoin(instagramMessages, eq(aiResponses.messageId, instagramMessages.id))
+      .where(and(
+        eq(instagramMessages.userId, userId),
+        eq(aiResponses.wasApproved, true),
+        sql`${instagramMessages.content} <> ''`
+      ))
+      .orderBy(desc(aiResponses.approvedAt))
+      .limit(limit);
+    return rows;
+  }
+
+  async getEvalRuns(suiteId: number): Promise<EvalRun[]> {
+    return db.select().from(evalRuns).where(eq(evalRuns.suiteId, suiteId)).orderBy(desc(evalRuns.createdAt));
+  }
+
+  async getEvalRun(id: number, userId: string): Promise<EvalRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(evalRuns)
+      .where(and(eq(evalRuns.id, id), eq(evalRuns.userId, userId)));
+    return run;
+  }
+
+  async createEvalRun(data: Pick<EvalRun, "suiteId" | "userId" | "label" | "systemPrompt" | "caseCount" | "startedBy">): Promise<EvalRun> {
+    const [run] = await db.insert(evalRuns).values(data).returning();
+    return run;
+  }
+
+  async updateEvalRun(id: number, data: Partial<Pick<EvalRun, "status" | "avgScore" | "error" | "finishedAt">>): Promise<void> {
+    await db.update(evalRuns).set(data).where(eq(evalRuns.id, id));
+  }
+
+  // Stores one case's outcome and advances the run's progress counter
+  async saveEvalResult(entry: Omit<EvalResult, "id" | "createdAt">): Promise<void> {
+    await db.insert(evalResults).values(entry).onConflictDoNothing();
+    await db
+      .update(evalRuns)
+      .set({ completedCount: sql`${evalRuns.completedCount} + 1` })
+      .where(eq(evalRuns.id, entry.runId));
+  }
+
+  async getEvalResults(runId: number): Promise<EvalResult[]> {
+    return db.select().from(evalResults).where(eq(evalResults.runId, runId)).orderBy(evalResults.caseId);
+  }
+
+  // ============================================
+  // Simulator Sessions
+  // ============================================
+
+  // Most recently active first
+  async getSimulatorSessions(userId: string, limit: number): Promise<SimulatorSessionSummary[]> {
+    const rows = await db
+      .select({
+        session: simulatorSessions,
+        turnCount: sql<number>`(SELECT count(*) FROM simulator_turns t WHERE t.session_id = ${simulatorSessions.id})`,
+        editedCount: sql<number>`(SELECT count(*) FROM simulator_turns t WHERE t.session_id = ${simulatorSessions.id} AND t.original_content IS NOT NULL)`,
+      })
+      .from(simulatorSessions)
+      .where(eq(simulatorSessions.userId, userId))
+      .orderBy(desc(simulatorSessions.updatedAt))
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...row.session,
+      turnCount: Number(row.turnCount),
+      editedCount: Number(row.editedCount),
+    }));
+  }
+
+  async getSimulatorSession(id: number, userId: string): Promise<SimulatorSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(simulatorSessions)
+      .where(and(eq(simulatorSessions.id, id), eq(simulatorSessions.userId, userId)));
+    return session;
+  }
+
+  async createSimulatorSession(
+    data: Pick<SimulatorSession, "userId" | "title" | "senderName" | "source" | "conversationId" | "createdBy">
+  ): Promise<SimulatorSession> {
+    const [session] = await db.insert(simulatorSessions).values(data).returning();
+    return session;
+  }
+
+  async updateSimulatorSession(id: number, userId: string, data: Partial<Pick<SimulatorSession, "title" | "savedAt">>): Promise<void> {
+    await db
+      .update(simulatorSessions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(simulatorSessions.id, id), eq(simulatorSessions.userId, userId)));
+  }
+
+  async deleteSimulatorSession(id: number, userId: string): Promise<void> {
+    await db
+      .delete(simulatorSessions)
+      .where(and(eq(simulatorSessions.id, id), eq(simulatorSessions.userId, userId)));
+  }
+
+  async getSimulatorTurns(sessionId: number): Promise<SimulatorTurn[]> {
+    return db.select().from(simulatorTurns).where(eq(simulatorTurns.sessionId, sessionId)).orderBy(simulatorTurns.position);
+  }
+
+  // Positions come from the caller; the unique (session, position) key rejects a concurrent append
+  async addSimulatorTurns(turns: InsertSimulatorTurn[]): Promise<SimulatorTurn[]> {
+    if (turns.length === 0) return [];
+    return db.insert(simulatorTurns).values(turns).returning();
+  }
+
+  async updateSimulatorTurn(
+    id: number,
+    sessionId: number,
+    data: Partial<Pick<SimulatorTurn, "content" | "originalContent" | "manualQaId">>
+  ): Promise<SimulatorTurn | undefined> {
+    const [turn] = await db
+      .update(simulatorTurns)
+      .set(data)
+      .where(and(eq(simulatorTurns.id, id), eq(simulatorTurns.sessionId, sessionId)))
+      .returning();
+    return turn;
+  }
+
+  // ============================================
+  // Copilot Change Sets
+  // ============================================
+
+  async getCopilotChangeSets(userId: string, limit: number): Promise<CopilotChangeSet[]> {
+    return db
+      .select()
+      .from(copilotChangeSets)
+      .where(eq(copilotChangeSets.userId, userId))
+      .orderBy(desc(copilotChangeSets.createdAt))
+      .limit(limit);
+  }
+
+  async getCopilotChangeSet(id: number, userId: string): Promise<CopilotChangeSet | undefined> {
+    const [changeSet] = await db
+      .select()
+      .from(copilotChangeSets)
+      .where(and(eq(copilotChangeSets.id, id), eq(copilotChangeSets.userId, userId)));
+    return changeSet;
+  }
+
+  async createCopilotChangeSet(
+    data: Pick<CopilotChangeSet, "userId" | "requestedBy" | "request" | "changes">
+  ): Promise<CopilotChangeSet> {
+    const [changeSet] = await db.insert(copilotChangeSets).values(data).returning();
+    return changeSet;
+  }
+
+  // Only a pending set can be decided, so two confirmations never apply it twice
+  async decideCopilotChangeSet(
+    id: number,
+    userId: string,
+    status: "applying" | "rejected",
+    decidedBy: string
+  ): Promise<CopilotChangeSet | undefined> {
+    const [changeSet] = await db
+      .update(copilotChangeSets)
+      .set({ status, decidedBy, decidedAt: new Date() })
+      .where(and(
+        eq(copilotChangeSets.id, id),
+        eq(copilotChangeSets.userId, userId),
+        eq(copilotChangeSets.status, "pending")
+      ))
+      .returning();
+    return changeSet;
+  }
+
+  async finishCopilotChangeSet(id: number, status: CopilotChangeSetStatus, results: CopilotChangeResult[]): Promise<CopilotChangeSet> {
+    const [changeSet] = await db
+      .update(copilotChangeSets)
+      .set({ status, results })
+      .where(eq(copilotChangeSets.id, id))
+      .returning();
+    return changeSet;
+  }
+
+  // ============================================
+  // Knowledge Embeddings (vector retrieval)
+  // ============================================
+
+  // Rows of every user that need a (new) vector; consumed by the embedding backfill job
+  async getKnowledgePendingEmbedding(provider: string, limit: number): Promise<PendingKnowledgeEmbedding[]> {
+    const pending: PendingKnowledgeEmbedding[] = [];
+
+    for (const source of KNOWLEDGE_SOURCES) {
+      if (pending.length >= limit) break;
+      const c = KNOWLEDGE_SOURCE_SQL[source];
+      const result = await db.execute(sql`
+        SELECT t.id AS source_id, t.user_id, ${sql.raw(c.text)} AS text, md5(${sql.raw(c.text)}) AS content_hash
+        FROM ${sql.identifier(c.table)} t
+        LEFT JOIN knowledge_embeddings e ON e.source = ${source} AND e.source_id = t.id
+        LEFT JOIN knowledge_embedding_failures f ON f.source = ${source} AND f.source_id = t.id
+          AND f.provider = ${provider} AND f.content_hash = md5(${sql.raw(c.text)})
+        WHERE ${sql.raw(c.where)}
+          AND (e.id IS NULL OR e.provider <> ${provider} OR e.content_hash <> md5(${sql.raw(c.text)}))
+          AND (f.id IS NULL OR (
+            f.attempts < ${MAX_EMBEDDING_ATTEMPTS}
+            AND f.last_attempt_at < now() - interval '1 minute' * power(2, f.attempts)
+          ))
+        ORDER BY f.attempts NULLS FIRST, t.id DESC
+        LIMIT ${limit - pending.length}
+      `);
+
+      for (const row of result.rows as any[]) {
+        pending.push({
+          userId: row.user_id,
+          source,
+          sourceId: row.source_id,
+          text: row.text,
+          contentHash: row.content_hash,
+        });
+      }
+    }
+
+    return pending;
+  }
+
+  async upsertKnowledgeEmbedding(entry: PendingKnowledgeEmbedding & { provider: string; embedding: number[] }): Promise<void> {
+    const values = {
+      userId: entry.userId,
+      source: entry.source,
+      sourceId: entry.sourceId,
+      provider: entry.provider,
+      contentHash: entry.contentHash,
+      embedding: entry.embedding,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(knowledgeEmbeddings)
+      .values(values)
+      .onConflictDoUpdate({ target: [knowledgeEmbeddings.source, knowledgeEmbeddings.sourceId], set: values })
+      .returning({ id: knowledgeEmbeddings.id });
+
+    // Keep the indexed pgvector copy in sync (vectors of another size stay JSON-only)
+    if (isPgvectorAvailable()) {
+      const vector = canUsePgvector(entry.embedding) ? toVectorLiteral(entry.embedding) : null;
+      await db.execute(sql`UPDATE knowledge_embeddings SET embedding_vec = ${vector}::vector WHERE id = ${saved.id}`);
+    }
+
+    await db
+      .delete(knowledgeEmbeddingFailures)
+      .where(and(eq(knowledgeEmbeddingFailures.source, entry.source), eq(knowledgeEmbeddingFailures.sourceId, entry.sourceId)));
+  }
+
+  // Attempts only accumulate for the same text and provider; an edit or a provider switch starts over
+  async recordKnowledgeEmbeddingFailure(entry: PendingKnowledgeEmbedding & { provider: string; error: string }): Promise<void> {
+    const sameTarget = and(
+      eq(knowledgeEmbeddingFailures.provider, entry.provider),
+      eq(knowledgeEmbeddingFailures.contentHash, entry.contentHash)
+    );
+    await db
+      .insert(knowledgeEmbeddingFailures)
+      .values({
+        source: entry.source,
+        sourceId: entry.sourceId,
+        provider: entry.provider,
+        contentHash: entry.contentHash,
+        lastError: entry.error.substring(0, 1000),
+      })
+      .onConflictDoUpdate({
+        target: [knowledgeEmbeddingFailures.source, knowledgeEmbeddingFailures.sourceId],
+        set: {
+          provider: entry.provider,
+          contentHash: entry.contentHash,
+          attempts: sql`CASE WHEN ${sameTarget} THEN ${knowledgeEmbeddingFailures.attempts} + 1 ELSE 1 END`,
+          lastError: entry.error.substring(0, 1000),
+          lastAttemptAt: new Date(),
+        },
+      });
+  }
+
+  // Nearest neighbours across all four sources: pgvector index when available, otherwise cosine in-process
+  async findNearestKnowledge(userId: string, provider: string, embedding: number[], limit: number): Promise<KnowledgeMatch[]> {
+    if (canUsePgvector(embedding)) {
+      const vector = toVectorLiteral(embedding);
+      const result = await db.execute(sql`
+        SELECT source, source_id, 1 - (embedding_vec <=> ${vector}::vector) AS similarity
+        FROM knowledge_embeddings
+        WHERE user_id = ${userId} AND provider = ${provider} AND embedding_vec IS NOT NULL
+        ORDER BY embedding_vec <=> ${vector}::vector
+        LIMIT ${limit}
+      `);
+      return (result.rows as any[]).map((row) => ({
+        source: row.source as KnowledgeSource,
+        sourceId: row.source_id,
+        similarity: Number(row.similarity),
+      }));
+    }
+
+    const rows = await db
+      .select({
+        source: knowledgeEmbeddings.source,
+        sourceId: knowledgeEmbeddings.sourceId,
+        embedding: knowledgeEmbeddings.embedding,
+      })
+      .from(knowledgeEmbeddings)
+      .where(and(eq(knowledgeEmbeddings.userId, userId), eq(knowledgeEmbeddings.provider, provider)));
+
+    return rows
+      .map((row) => ({
+        source: row.source as KnowledgeSource,
+        sourceId: row.sourceId,
+        similarity: cosineSimilarity(embedding, row.embedding as number[]),
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  // Loads the current text of matched rows; rows deleted since they were embedded drop out
+  async getKnowledgeCandidates(matches: KnowledgeMatch[]): Promise<KnowledgeCandidate[]> {
+    const candidates: KnowledgeCandidate[] = [];
+
+    for (const source of KNOWLEDGE_SOURCES) {
+      const similarities = new Map(
+        matches.filter((m) => m.source === source).map((m) => [m.sourceId, m.similarity])
+      );
+      if (similarities.size === 0) continue;
+
+      const c = KNOWLEDGE_SOURCE_SQL[source];
+      const ids = Array.from(similarities.keys());
+      const result = await db.execute(sql`
+        SELECT ${knowledgeCandidateColumns(source)}
+        FROM ${sql.identifier(c.table)} t
+        WHERE ${sql.raw(c.where)} AND t.id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})
+      `);
+
+      for (const row of result.rows as any[]) {
+        candidates.push({
+          source,
+          id: row.id,
+          question: row.question,
+          answer: row.answer,
+          matchText: row.match_text,
+          similarity: similarities.get(row.id) ?? null,
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  // Rows the backfill job has not reached yet; retrieval scores these by word overlap.
+  // provider = null returns every row (used when the query itself could not be embedded).
+  async getUnembeddedKnowledge(userId: string, provider: string | null): Promise<KnowledgeCandidate[]> {
+    const candidates: KnowledgeCandidate[] = [];
+
+    for (const source of KNOWLEDGE_SOURCES) {
+      const c = KNOWLEDGE_SOURCE_SQL[source];
+      const result = await db.execute(sql`
+        SELECT ${knowledgeCandidateColumns(source)}
+        FROM ${sql.identifier(c.table)} t
+        LEFT JOIN knowledge_embeddings e ON e.source = ${source} AND e.source_id = t.id AND e.provider = ${provider ?? ""}
+        WHERE t.user_id = ${userId} AND ${sql.raw(c.where)} AND e.id IS NULL
+      `);
+
+      for (const row of result.rows as any[]) {
+        candidates.push({
+          source,
+          id: row.id,
+          question: row.question,
+          answer: row.answer,
+          matchText: row.match_text,
+          similarity: null,
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  // Source rows are pruned by the FIFO limits and by users, so their vectors are swept here
+  async cleanupOrphanKnowledgeEmbeddings(): Promise<number> {
+    let removed = 0;
+    for (const source of KNOWLEDGE_SOURCES) {
+      const c = KNOWLEDGE_SOURCE_SQL[source];
+      const result = await db.execute(sql`
+        DELETE FROM knowledge_embeddings e
+        WHERE e.source = ${source}
+          AND NOT EXISTS (SELECT 1 FROM ${sql.identifier(c.table)} t WHERE t.id = e.source_id)
+      `);
+      removed += result.rowCount || 0;
+      await db.execute(sql`
+        DELETE FROM knowledge_embedding_failures f
+        WHERE f.source = ${source}
+          AND NOT EXISTS (SELECT 1 FROM ${sql.identifier(c.table)} t WHERE t.id = f.source_id)
+      `);
+    }
+    return removed;
+  }
+
+  async getKnowledgeEmbeddingStats(provider: string): Promise<Record<KnowledgeSource, { total: number; embedded: number }>> {
+    const stats = {} as Record<KnowledgeSource, { total: number; embedded: number }>;
+
+    for (const source of KNOWLEDGE_SOURCES) {
+      const c = KNOWLEDGE_SOURCE_SQL[source];
+      const result = await db.execute(sql`
+        SELECT
+          count(*)::int AS total,
+          count(e.id) FILTER (WHERE e.provider = ${provider} AND e.content_hash = md5(${sql.raw(c.text)}))::int AS embedded
+        FROM ${sql.identifier(c.table)} t
+        LEFT JOIN knowledge_embeddings e ON e.source = ${source} AND e.source_id = t.id
+        WHERE ${sql.raw(c.where)}
+      `);
+      const row = (result.rows as any[])[0];
+      stats[source] = { total: row?.total || 0, embedded: row?.embedded || 0 };
+    }
+
+    return stats;
+  }
 }
 
 export const storage = new DatabaseStorage();
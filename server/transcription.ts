@@ -1,4 +1,4 @@
-import { getOpenAIConfig } from "./utils/openai-config";
+import { transcribeAudio, LLMError } from "./lib/llm";
 
 interface TranscriptionResult {
   transcription: string | null;
@@ -8,16 +8,6 @@ interface TranscriptionResult {
 export async function transcribeVideoAudio(videoUrl: string): Promise<TranscriptionResult> {
   console.log("[Transcription] Starting video audio transcription...");
 
-  const config = getOpenAIConfig();
-
-  if (!config.apiKey) {
-    console.error("[Transcription] API key not available");
-    return {
-      transcription: null,
-      error: "Chave da API OpenAI não configurada"
-    };
-  }
-
   try {
     console.log("[Transcription] Downloading video from:", videoUrl.substring(0, 50) + "...");
 
@@ -44,27 +34,23 @@ export async function transcribeVideoAudio(videoUrl: string): Promise<Transcript
       };
     }
 
-    const formData = new FormData();
-    formData.append("file", videoBlob, "video.mp4");
-    formData.append("model", "whisper-1");
-    formData.append("language", "pt");
-    formData.append("response_format", "text");
-
-    console.log("[Transcription] Sending to Whisper API...");
+    console.log("[Transcription] Sending to transcription provider...");
 
-    const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${config.apiKey}`,
-      },
-      body: formData,
-    });
+    let transcription: string;
+    try {
+      transcription = await transcribeAudio(videoBlob, "video.mp4", "pt");
+    } catch (providerError) {
+      const message = providerError instanceof Error ? providerError.message : String(providerError);
+      console.error("[Transcription] Provider error:", message);
 
-    if (!transcriptionResponse.ok) {
-      const errorText = await transcriptionResponse.text();
-      console.error("[Transcription] Whisper API error:", transcriptionResponse.status, errorText);
+      if (providerError instanceof LLMError && providerError.code === "MISSING_API_KEY") {
+        return {
+          transcription: null,
+          error: "Chave da API de transcrição não configurada"
+        };
+      }
 
-      if (transcriptionResponse.status === 400 && errorText.includes("Could not process audio")) {
+      if (message.includes("Could not process audio")) {
         return {
           transcription: null,
           error: "Não foi possível extrair áudio do vídeo (pode não ter áudio)"
@@ -77,8 +63,6 @@ export async function transcribeVideoAudio(videoUrl: string): Promise<Transcript
       };
     }
 
-    const transcription = await transcriptionResponse.text();
-
     if (!transcription || transcription.trim().length === 0) {
       console.log("[Transcription] No speech detected in video");
       return {
@@ -1,24 +1,52 @@
-import type { Request } from "express";
+import type { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 
+export type WorkspaceRole = "owner" | "editor" | "reviewer" | "viewer";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "editor", "reviewer", "viewer"];
+
+// Roles that can be granted through an invite (there is exactly one owner)
+export const INVITABLE_ROLES: WorkspaceRole[] = ["editor", "reviewer", "viewer"];
+
+export interface UserContext {
+    userId: string;              // Workspace owner: all inbox/brain data is keyed by this ID
+    actorUserId: string;         // The logged-in user (differs from userId for team members)
+    role: WorkspaceRole;
+    isAdmin: boolean;
+    excludeSenderIds: string[];
+    excludeSenderUsernames: string[];
+    accountId?: number;
+}
+
 // Helper to extract user info from request
-export async function getUserContext(req: Request): Promise<{ userId: string; isAdmin: boolean; excludeSenderIds: string[]; excludeSenderUsernames: string[] }> {
+// accountId is the Instagram account selected in the UI (x-instagram-account-id header);
+// undefined means "all accounts" of the workspace
+export async function getUserContext(req: Request): Promise<UserContext> {
     const user = req.user as any;
 
     // Use actualUserId for OIDC users with existing email accounts, fallback to claims.sub or id
     // CRITICAL: This logic must match the original implementation to support all auth providers (Replit, internal, etc)
-    const userId = user?.actualUserId || user?.claims?.sub || user?.id || (req.session as any)?.passport?.user;
+    const actorUserId = user?.actualUserId || user?.claims?.sub || user?.id || (req.session as any)?.passport?.user;
 
-    if (!userId) {
+    if (!actorUserId) {
         throw new Error("Usuário não autenticado");
     }
 
     // Verify user exists in storage
-    const dbUser = await storage.getUser(userId);
-    if (!dbUser) {
+    const actor = await storage.getUser(actorUserId);
+    if (!actor) {
         throw new Error("Usuário não encontrado");
     }
 
+    // Team members work inside the owner's workspace
+    const membership = await storage.getMembershipForUser(String(actorUserId));
+    const role: WorkspaceRole = membership ? membership.member.role as WorkspaceRole : "owner";
+    const userId = membership ? membership.organization.ownerId : String(actorUserId);
+    const dbUser = membership ? await storage.getUser(userId) : actor;
+    if (!dbUser) {
+        throw new Error("Workspace não encontrado");
+    }
+
     const excludeSenderIds: string[] = [];
     const excludeSenderUsernames: string[] = [];
 
@@ -33,10 +61,93 @@ export async function getUserContext(req: Request): Promise<{ userId: string; is
         excludeSenderUsernames.push(dbUser.instagramUsername.toLowerCase());
     }
 
+    // Messages sent by any of the workspace's own accounts are never shown as inbound
+    const accounts = await storage.getInstagramAccounts(userId);
+    for (const account of accounts) {
+        excludeSenderIds.push(account.instagramAccountId);
+        if (account.instagramRecipientId) {
+            excludeSenderIds.push(account.instagramRecipientId);
+        }
+        if (account.instagramUsername) {
+            excludeSenderUsernames.push(account.instagramUsername.toLowerCase());
+        }
+    }
+
+    // Ignore stale or foreign account IDs instead of failing the request
+    const requestedAccountId = parseInt(String(req.headers["x-instagram-account-id"] || ""), 10);
+    const accountId = accounts.some(a => a.id === requestedAccountId) ? requestedAccountId : undefined;
+
     return {
-        userId: String(userId),
-        isAdmin: dbUser.isAdmin === true,
-        excludeSenderIds,
-        excludeSenderUsernames
+        userId,
+        actorUserId: String(actorUserId),
+        role,
+        isAdmin: actor.isAdmin === true,
+        excludeSenderIds: Array.from(new Set(excludeSenderIds)),
+        excludeSenderUsernames: Array.from(new Set(excludeSenderUsernames)),
+        accountId
     };
 }
+
+// Members of the workspace a thread can be assigned to (the owner plus team members)
+export async function getAssignableUserIds(ownerId: string): Promise<string[]> {
+    const ids = [ownerId];
+    const organization = await storage.getOrganizationByOwner(ownerId);
+    if (organization) {
+        for (const member of await storage.getOrganizationMembers(organization.id)) {
+            ids.push(member.userId);
+        }
+    }
+    return ids;
+}
+
+// Reviewers may only touch the suggested reply, never send it
+const REVIEWER_WRITE_ROUTES = [
+    /^\/api\/messages\/\d+\/response$/,
+    /^\/api\/messages\/\d+\/regenerate$/,
+    /^\/api\/messages\/\d+\/feedback$/,
+];
+
+// Owner-only areas, reads included: the Facebook app secret, the data purge and demo seeding
+const OWNER_ONLY_PREFIXES = ["/api/my-data", "/api/facebook", "/api/seed-demo"];
+
+// Minimum role needed for a request. Reads are open to every member; writes depend on the area.
+function requiredRoles(method: string, path: string): WorkspaceRole[] {
+    if (OWNER_ONLY_PREFIXES.some(prefix => path.startsWith(prefix))) {
+        return ["owner"];
+    }
+    if (method === "GET" || method === "HEAD" || method === "OPTIONS") {
+        return WORKSPACE_ROLES;
+    }
+    // Opening a thread clears its unread counter for everyone
+    if (/^\/api\/conversations\/\d+\/read$/.test(path)) {
+        return WORKSPACE_ROLES;
+    }
+    if (path.startsWith("/api/messages") && REVIEWER_WRITE_ROUTES.some(r => r.test(path))) {
+        return ["owner", "editor", "reviewer"];
+    }
+    // Connecting/removing Instagram accounts stays with the owner
+    if (path.startsWith("/api/instagram") && path !== "/api/instagram/sync") {
+        return ["owner"];
+    }
+    return ["owner", "editor"];
+}
+
+// Middleware: enforces workspace roles on shared-workspace routes.
+// Unauthenticated requests fall through so isAuthenticated can answer 401.
+export async function enforceWorkspaceRole(req: Request, res: Response, next: NextFunction) {
+    let ctx: UserContext;
+    try {
+        ctx = await getUserContext(req);
+    } catch {
+        return next();
+    }
+
+    const path = req.originalUrl.split("?")[0];
+    const allowed = requiredRoles(req.method, path);
+    if (!allowed.includes(ctx.role)) {
+        console.log(`[Team] 🚫 ${ctx.actorUserId} (${ctx.role}) bloqueado em ${req.method} ${path}`);
+        return res.status(403).json({ error: "Your role does not allow this action", code: "ROLE_FORBIDDEN", role: ctx.role });
+    }
+
+    next();
+}
@@ -0,0 +1,135 @@
+import vm from "vm";
+import type { AutomationAction, AutomationConditions, AutomationRule, MessageIntent } from "@shared/schema";
+
+// What the conditions are evaluated against, gathered once per incoming message
+export interface AutomationFacts {
+  type: "dm" | "comment";
+  text: string;
+  intent: MessageIntent;
+  postId: string | null;
+  followersCount: number | null; // null = unknown, never matches a follower range
+  firstContact: boolean;
+}
+
+// Combined effect of the matched rules on the rest of the pipeline
+export interface AutomationPlan {
+  matchedRules: AutomationRule[];
+  actions: AutomationAction[];
+  reply: string | null;        // Last send_reply wins
+  privateReply: string | null; // Last send_dm wins
+  skipAI: boolean;
+  manualReview: boolean;
+  tags: string[];
+  assignTo: string | null;
+}
+
+// Only the start of long texts is matched (bounds user-supplied regex cost)
+const MAX_MATCH_LENGTH = 2000;
+
+// Patterns run in a separate context with a time limit: a backtracking pattern saved before
+// the save-time check (or one it misses) gives up instead of blocking the event loop
+const PATTERN_TIMEOUT_MS = 50;
+const patternContext = vm.createContext({ pattern: "", text: "" });
+const patternScript = new vm.Script(`new RegExp(pattern, "iu").test(text)`);
+
+function testPattern(pattern: string, text: string): boolean {
+  patternContext.pattern = pattern;
+  patternContext.text = text;
+  return patternScript.runInContext(patternContext, { timeout: PATTERN_TIMEOUT_MS }) === true;
+}
+
+// Lowercase without accents, so "promoção" matches "promocao"
+function fold(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function containsKeyword(foldedText: string, keyword: string): boolean {
+  const word = escapeRegExp(fold(keyword.trim()));
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${word}($|[^\\p{L}\\p{N}])`, "u").test(foldedText);
+}
+
+export function matchesConditions(conditions: AutomationConditions, facts: AutomationFacts): boolean {
+  const text = facts.text.slice(0, MAX_MATCH_LENGTH);
+
+  if (conditions.messageTypes && !conditions.messageTypes.includes(facts.type)) return false;
+  if (conditions.postIds && (!facts.postId || !conditions.postIds.includes(facts.postId))) return false;
+  if (conditions.intents && !conditions.intents.includes(facts.intent)) return false;
+  if (conditions.firstContact !== undefined && conditions.firstContact !== facts.firstContact) return false;
+
+  if (conditions.minFollowers !== undefined || conditions.maxFollowers !== undefined) {
+    if (facts.followersCount === null) return false;
+    if (conditions.minFollowers !== undefined && facts.followersCount < conditions.minFollowers) return false;
+    if (conditions.maxFollowers !== undefined && facts.followersCount > conditions.maxFollowers) return false;
+  }
+
+  if (conditions.keywords) {
+    const foldedText = fold(text);
+    if (!conditions.keywords.some(keyword => containsKeyword(foldedText, keyword))) return false;
+  }
+
+  if (conditions.pattern) {
+    try {
+      if (!testPattern(conditions.pattern, text)) return false;
+    } catch (error) {
+      if ((error as { code?: string }).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+        console.warn(`[Automation] Padrão "${conditions.pattern}" excedeu ${PATTERN_TIMEOUT_MS}ms e foi ignorado`);
+      }
+      return false; // Validated on save; a pattern that stopped compiling or timed out never matches
+    }
+  }
+
+  return true;
+}
+
+// Walks the rules in order (they come sorted by priority) and merges the actions of every match
+// until a rule with stopOnMatch fires
+export function planAutomation(rules: AutomationRule[], facts: AutomationFacts): AutomationPlan {
+  const plan: AutomationPlan = {
+    matchedRules: [],
+    actions: [],
+    reply: null,
+    privateReply: null,
+    skipAI: false,
+    manualReview: false,
+    tags: [],
+    assignTo: null,
+  };
+
+  for (const rule of rules) {
+    if (!matchesConditions(rule.conditions as AutomationConditions, facts)) continue;
+
+    plan.matchedRules.push(rule);
+    for (const action of rule.actions as AutomationAction[]) {
+      plan.actions.push(action);
+      switch (action.type) {
+        case "send_reply":
+          plan.reply = action.text;
+          break;
+        case "send_dm":
+          if (facts.type === "comment") plan.privateReply = action.text;
+          break;
+        case "manual_review":
+          plan.manualReview = true;
+          break;
+        case "skip_ai":
+          plan.skipAI = true;
+          break;
+        case "tag":
+          for (const tag of action.tags) {
+            if (!plan.tags.includes(tag)) plan.tags.push(tag);
+          }
+          break;
+        case "assign":
+          plan.assignTo = action.userId;
+          break;
+      }
+    }
+    if (rule.stopOnMatch) break;
+  }
+
+  return plan;
+}
@@ -0,0 +1,58 @@
+import { callLLM } from "../lib/llm";
+import { commentModerationSchema, type CommentModerationConfig, type CommentModerationReason } from "@shared/schema";
+
+export interface CommentVerdict {
+  reason: Exclude<CommentModerationReason, "manual">;
+  detail: string;
+}
+
+// Stored configs are jsonb: anything malformed is treated as "moderation off"
+export function parseCommentModeration(value: unknown): CommentModerationConfig | null {
+  if (!value) return null;
+  const parsed = commentModerationSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+async function classifyComment(text: string, userId: string): Promise<{ category: "spam" | "offensive" | "ok"; reason: string }> {
+  try {
+    const response = await callLLM([
+      {
+        role: "system",
+        content: "Você modera comentários recebidos no Instagram de uma empresa. Classifique como \"spam\" (divulgação de outros perfis, links suspeitos, golpes, correntes, bots, \"sigam meu perfil\"), \"offensive\" (insultos, discurso de ódio, assédio, conteúdo sexual explícito) ou \"ok\" (todo o resto, inclusive reclamações e críticas educadas). Na dúvida, use \"ok\". Responda em JSON: {\"category\": \"spam\" | \"offensive\" | \"ok\", \"reason\": string}",
+      },
+      { role: "user", content: text },
+    ], { jsonMode: true, fast: true, temperature: 0, maxTokens: 150, userId });
+
+    const result = JSON.parse(response.content || "{}");
+    const category = ["spam", "offensive"].includes(result.category) ? result.category : "ok";
+    return { category, reason: String(result.reason || "") };
+  } catch (error) {
+    // Fail open: hiding is public, a customer's comment must not vanish because the classifier is down
+    console.error("[Comment Moderation] Erro na classificação:", error);
+    return { category: "ok", reason: "" };
+  }
+}
+
+// Decides whether an incoming comment should be hidden. The blocklist is checked first and
+// costs nothing; the classifier only runs when one of the auto-hide switches is on.
+export async function evaluateComment(
+  comment: { text: string; username: string | null },
+  config: CommentModerationConfig,
+  userId: string
+): Promise<CommentVerdict | null> {
+  const username = (comment.username || "").replace(/^@/, "").toLowerCase();
+  if (username && config.blockedUsernames.includes(username)) {
+    return { reason: "blocklist", detail: `@${username} está na lista de bloqueio` };
+  }
+
+  if (!comment.text.trim() || (!config.autoHideSpam && !config.autoHideOffensive)) return null;
+
+  const { category, reason } = await classifyComment(comment.text, userId);
+  if (category === "spam" && config.autoHideSpam) {
+    return { reason: "spam", detail: reason || "Classificado como spam" };
+  }
+  if (category === "offensive" && config.autoHideOffensive) {
+    return { reason: "offensive", detail: reason || "Classificado como ofensivo" };
+  }
+  return null;
+}
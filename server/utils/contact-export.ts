@@ -0,0 +1,45 @@
+import type { ContactListItem } from "@shared/schema";
+
+// Largest list a single export returns
+export const CONTACT_EXPORT_LIMIT = 5000;
+
+const BASE_COLUMNS: [string, (c: ContactListItem) => unknown][] = [
+  ["igsid", c => c.igsid],
+  ["username", c => c.username],
+  ["name", c => c.name],
+  ["email", c => c.email],
+  ["phone", c => c.phone],
+  ["lead_stage", c => c.leadStage],
+  ["tags", c => ((c.tags as string[]) || []).join("; ")],
+  ["notes", c => c.notes],
+  ["dm_count", c => c.dmCount],
+  ["comment_count", c => c.commentCount],
+  ["first_seen_at", c => c.firstSeenAt.toISOString()],
+  ["last_seen_at", c => c.lastSeenAt.toISOString()],
+];
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  // Spreadsheets run cells starting with = + - @ as formulas (phone numbers like +55... are left alone)
+  if (/^[=@]/.test(text) || /^[+-](?![\d\s().-]+$)/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One column per custom field used by any of the contacts, after the fixed ones
+export function contactsToCsv(items: ContactListItem[]): string {
+  const customKeys = Array.from(new Set(
+    items.flatMap(c => Object.keys((c.customFields as Record<string, string>) || {}))
+  )).sort();
+
+  const header = [...BASE_COLUMNS.map(([name]) => name), ...customKeys];
+  const rows = items.map(c => {
+    const custom = (c.customFields as Record<string, string>) || {};
+    return [
+      ...BASE_COLUMNS.map(([, get]) => get(c)),
+      ...customKeys.map(key => custom[key]),
+    ].map(csvCell).join(",");
+  });
+
+  // BOM so Excel opens accents correctly
+  return "\uFEFF" + [header.join(","), ...rows].join("\r\n");
+}
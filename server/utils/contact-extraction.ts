@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { callLLM } from "../lib/llm";
+import type { ExtractedContactDetails } from "../storage";
+
+const EMAIL_PATTERN = /[^\s@<>()]+@[^\s@<>()]+\.[a-z]{2,}/i;
+// 8+ digits, optionally grouped: "+55 (11) 98765-4321", "11987654321"
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/;
+
+const emailSchema = z.string().trim().toLowerCase().email().max(200);
+
+function normalizePhone(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 8 || digits.length > 15) return null;
+  return value.trim().startsWith("+") ? `+${digits}` : digits;
+}
+
+function normalizeEmail(value: unknown): string | null {
+  const parsed = emailSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// Contact details someone typed in a DM. The patterns only decide whether it's worth asking the
+// model (most DMs have neither), the model tells a phone number from an order number or a price.
+export async function extractContactDetails(text: string, userId: string): Promise<ExtractedContactDetails | null> {
+  const emailMatch = text.match(EMAIL_PATTERN)?.[0] ?? null;
+  const phoneMatch = text.match(PHONE_PATTERN)?.[0] ?? null;
+  if (!emailMatch && !phoneMatch) return null;
+
+  try {
+    const response = await callLLM([
+      {
+        role: "system",
+        content: "Você extrai dados de contato de mensagens de clientes recebidas no Instagram. Retorne apenas dados que a própria pessoa informou como SEUS (não números de pedido, CPF, preços, datas ou contatos de terceiros). \"interest\" é o produto/serviço em que a pessoa demonstrou interesse, em até 5 palavras, ou null. Responda em JSON: {\"email\": string | null, \"phone\": string | null, \"interest\": string | null}",
+      },
+      { role: "user", content: text.slice(0, 2000) },
+    ], { jsonMode: true, fast: true, temperature: 0, maxTokens: 150, userId });
+
+    const result = JSON.parse(response.content || "{}");
+    const details: ExtractedContactDetails = {
+      email: normalizeEmail(result.email),
+      phone: normalizePhone(result.phone),
+      interest: typeof result.interest === "string" && result.interest.trim() ? result.interest.trim().slice(0, 100) : null,
+    };
+    return details.email || details.phone || details.interest ? details : null;
+  } catch (error) {
+    // Without the model an e-mail address is still unambiguous; a bare number isn't
+    console.error("[Contacts] Erro na extração de dados de contato:", error);
+    const email = normalizeEmail(emailMatch);
+    return email ? { email } : null;
+  }
+}
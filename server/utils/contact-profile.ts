@@ -0,0 +1,107 @@
+import { storage } from "../storage";
+import { detectMessageIntent, type ContactContext } from "../openai";
+import type { ContactProfile, ContactSentiment, InstagramMessage, LeadStage, MessageIntent } from "@shared/schema";
+
+// How far back the profile reads: enough for a trend without loading a whole history
+const PROFILE_MESSAGE_LIMIT = 50;
+const PROFILE_REPLY_LIMIT = 10;
+const SENTIMENT_POINTS = 20;
+
+const SENTIMENT_SCORE: Record<ContactSentiment, number> = { positive: 1, neutral: 0, negative: -1 };
+
+// Keyword intents are the only signal we have per message; praise/complaint carry the tone
+function sentimentFromIntent(intent: MessageIntent): ContactSentiment {
+  if (intent === "praise") return "positive";
+  if (intent === "complaint") return "negative";
+  return "neutral";
+}
+
+// Compares the average tone of the older and the newer half of the points
+function sentimentTrend(points: ContactProfile["sentiment"]): ContactProfile["sentimentTrend"] {
+  if (points.length < 4) return null;
+  const average = (slice: ContactProfile["sentiment"]) =>
+    slice.reduce((sum, p) => sum + SENTIMENT_SCORE[p.sentiment], 0) / slice.length;
+  const middle = Math.floor(points.length / 2);
+  const delta = average(points.slice(middle)) - average(points.slice(0, middle));
+  if (delta > 0.25) return "improving";
+  if (delta < -0.25) return "worsening";
+  return "stable";
+}
+
+export async function buildContactProfile(userId: string, igsid: string): Promise<ContactProfile | null> {
+  const [contact, messages, activity] = await Promise.all([
+    storage.getContact(userId, igsid),
+    storage.getContactMessages(userId, igsid, PROFILE_MESSAGE_LIMIT),
+    storage.getContactActivity(userId, igsid),
+  ]);
+  if (!contact && messages.length === 0) return null;
+
+  const latest = messages[0];
+  const username = latest?.senderUsername || contact?.username || null;
+  // Synced history (before the webhook was connected) is only matched by @username
+  const dialect = username ? await storage.getDialectInteractionsForUsername(userId, username, PROFILE_MESSAGE_LIMIT) : [];
+
+  const previousReplies: ContactProfile["previousReplies"] = [
+    ...messages.flatMap(m => {
+      const reply = m.aiResponse?.finalResponse || m.aiResponse?.suggestedResponse;
+      if (!reply || (m.status !== "approved" && m.status !== "auto_sent")) return [];
+      return [{
+        messageId: m.id,
+        channel: m.type as "dm" | "comment",
+        message: m.content,
+        reply,
+        at: m.processedAt || m.createdAt,
+      }];
+    }),
+    ...dialect.flatMap(d => d.myResponse && !d.isOwnerReply ? [{
+      messageId: null,
+      channel: d.channelType === "private_dm" ? "dm" as const : "comment" as const,
+      message: d.userMessage,
+      reply: d.myResponse,
+      at: d.interactedAt,
+    }] : []),
+  ]
+    .sort((a, b) => b.at.getTime() - a.at.getTime())
+    .slice(0, PROFILE_REPLY_LIMIT);
+
+  const sentiment = messages
+    .filter(m => m.content?.trim())
+    .slice(0, SENTIMENT_POINTS)
+    .reverse()
+    .map(m => ({ at: m.createdAt, sentiment: sentimentFromIntent(detectMessageIntent(m.content!)) }));
+
+  const dialectFirstSeen = dialect.length > 0 ? dialect[dialect.length - 1].interactedAt : null;
+  const firstSeenAt = [activity.firstSeenAt, dialectFirstSeen]
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+
+  return {
+    igsid,
+    name: latest?.senderName || null,
+    username,
+    avatar: latest?.senderAvatar || null,
+    followersCount: messages.find(m => m.senderFollowersCount !== null)?.senderFollowersCount ?? null,
+    firstSeenAt,
+    lastSeenAt: activity.lastSeenAt,
+    dmCount: activity.dmCount,
+    commentCount: activity.commentCount,
+    posts: activity.posts,
+    previousReplies,
+    sentiment,
+    sentimentTrend: sentimentTrend(sentiment),
+    email: contact?.email ?? null,
+    phone: contact?.phone ?? null,
+    leadStage: (contact?.leadStage as LeadStage | null | undefined) ?? null,
+    customFields: (contact?.customFields as Record<string, string> | undefined) ?? {},
+    notes: contact?.notes ?? null,
+    tags: (contact?.tags as string[] | undefined) ?? [],
+  };
+}
+
+// The team's notes on the sender, for generateAIResponse/regenerateResponse
+export async function contactContextFor(message: Pick<InstagramMessage, "userId" | "senderId">): Promise<ContactContext | undefined> {
+  if (!message.senderId) return undefined;
+  const contact = await storage.getContact(message.userId, message.senderId);
+  if (!contact) return undefined;
+  return { notes: contact.notes, tags: (contact.tags as string[]) || [] };
+}
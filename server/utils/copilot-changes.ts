@@ -0,0 +1,103 @@
+import { storage } from "../storage";
+import { saveSystemPrompt } from "./prompt-versions";
+import type { AiResponse, CopilotChange, CopilotChangeResult, CopilotChangeSetStatus, MessageWithResponse } from "@shared/schema";
+
+// Contacts tagged by one tag_contacts change (same cap as a contact export)
+const MAX_TAGGED_CONTACTS = 500;
+// contactInputSchema allows at most 20 tags per contact
+const MAX_CONTACT_TAGS = 20;
+
+export interface CopilotApplyContext {
+  userId: string;
+  actorUserId: string;
+  // Draft regeneration lives with the rest of the approval queue in routes/index.ts
+  regenerateDraft: (message: MessageWithResponse) => Promise<{ aiResponse?: AiResponse; error?: string; errorCode?: string }>;
+}
+
+async function applyChange(change: CopilotChange, ctx: CopilotApplyContext): Promise<CopilotChangeResult> {
+  const { userId, actorUserId } = ctx;
+
+  switch (change.type) {
+    case "add_guideline": {
+      const guideline = await storage.addGuideline({
+        userId,
+        rule: change.rule,
+        priority: change.priority ?? 1,
+        category: change.category ?? "geral",
+        isActive: true,
+      });
+      return { status: "applied", detail: `Diretriz #${guideline.id} criada` };
+    }
+
+    case "update_guideline": {
+      const { id, rule, priority, isActive } = change;
+      const guideline = await storage.updateGuideline(id, userId, { rule, priority, isActive });
+      return guideline
+        ? { status: "applied", detail: `Diretriz #${id} atualizada` }
+        : { status: "failed", detail: `Diretriz #${id} não encontrada` };
+    }
+
+    case "add_manual_qa": {
+      const entry = await storage.addManualQA({ userId, question: change.question, answer: change.answer, source: "copilot" });
+      return { status: "applied", detail: `Correção de ouro #${entry.id} criada` };
+    }
+
+    case "update_system_prompt": {
+      const version = await saveSystemPrompt(userId, change.prompt, "copilot", actorUserId);
+      return version
+        ? { status: "applied", detail: `Prompt salvo como v${version.version}` }
+        : { status: "applied", detail: "O prompt já estava com este conteúdo" };
+    }
+
+    case "tag_contacts": {
+      const matches = await storage.searchContacts(userId, change.filter, MAX_TAGGED_CONTACTS);
+      for (const contact of matches) {
+        const tags = Array.from(new Set([...(contact.tags as string[]), ...change.tags])).slice(0, MAX_CONTACT_TAGS);
+        await storage.upsertContact(userId, contact.igsid, { tags, updatedBy: actorUserId });
+      }
+      return { status: "applied", detail: `${matches.length} contato(s) marcados` };
+    }
+
+    case "regenerate_drafts": {
+      let regenerated = 0;
+      const problems: string[] = [];
+      for (const id of change.messageIds) {
+        const message = await storage.getMessage(id, userId);
+        if (!message || message.status !== "pending") {
+          problems.push(`#${id} não está pendente`);
+          continue;
+        }
+        const result = await ctx.regenerateDraft(message);
+        if (result.aiResponse) {
+          regenerated++;
+        } else {
+          problems.push(`#${id}: ${result.error || result.errorCode || "erro ao gerar resposta"}`);
+        }
+      }
+      return {
+        status: regenerated > 0 ? "applied" : "failed",
+        detail: [`${regenerated} rascunho(s) regenerados`, ...problems].join(" · "),
+      };
+    }
+  }
+}
+
+// Applies the changes one by one; a failed change never stops the ones after it
+export async function applyCopilotChanges(
+  changes: CopilotChange[],
+  ctx: CopilotApplyContext
+): Promise<{ status: CopilotChangeSetStatus; results: CopilotChangeResult[] }> {
+  const results: CopilotChangeResult[] = [];
+  for (const change of changes) {
+    try {
+      results.push(await applyChange(change, ctx));
+    } catch (error) {
+      console.error(`[Copilot] Erro ao aplicar ${change.type}:`, error);
+      results.push({ status: "failed", detail: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const applied = results.filter(r => r.status === "applied").length;
+  const status = applied === results.length ? "applied" : applied === 0 ? "failed" : "partial";
+  return { status, results };
+}
@@ -0,0 +1,90 @@
+import { storage } from "../storage";
+import { generateAIResponse } from "../openai";
+import { batchProcess } from "../replit_integrations/batch";
+import { snippetVariablesFor } from "./snippets";
+import { scoreEvalResponse } from "./eval-scoring";
+import type { EvalCase, EvalRun, EvalSuite } from "@shared/schema";
+
+// Generates and scores every case of a suite for one run. Started without awaiting by the
+// route; progress and the outcome are only visible through the run/result rows.
+export async function executeEvalRun(run: EvalRun, suite: EvalSuite, cases: EvalCase[]): Promise<void> {
+  const userId = run.userId;
+  console.log(`[Evals] Run ${run.id} started: suite ${suite.id}, ${cases.length} cases`);
+
+  try {
+    const guidelines = (await storage.getGuidelines(userId))
+      .filter(g => g.isActive)
+      .sort((a, b) => b.priority - a.priority)
+      .map(g => g.rule);
+    const suiteForbiddenPhrases = (suite.forbiddenPhrases as string[]) || [];
+
+    await batchProcess(cases, async (evalCase) => {
+      const senderName = evalCase.senderName || "Seguidor";
+      const generated = await generateAIResponse(
+        evalCase.message,
+        evalCase.messageType === "comment" ? "comment" : "dm",
+        senderName,
+        userId,
+        evalCase.postCaption ? { postCaption: evalCase.postCaption } : undefined,
+        undefined,
+        undefined,
+        {
+          snippets: { accountId: null, variables: snippetVariablesFor({ senderName }) },
+          overrides: {
+            systemPrompt: run.systemPrompt ?? undefined,
+            excludeManualQAIds: evalCase.source === "manual_qa" && evalCase.sourceId ? [evalCase.sourceId] : [],
+          },
+        }
+      );
+
+      // Thrown so batchProcess backs off and retries the case
+      if (generated.errorCode === "RATE_LIMIT") {
+        throw new Error(`rate limit: ${generated.error}`);
+      }
+
+      if (generated.error || !generated.suggestedResponse) {
+        await storage.saveEvalResult({
+          runId: run.id,
+          caseId: evalCase.id,
+          response: null,
+          error: generated.error || "Resposta vazia",
+          scores: null,
+          score: null,
+          judgeNotes: null,
+          traceId: generated.traceId ?? null,
+        });
+        return;
+      }
+
+      const { scores, score, judgeNotes } = await scoreEvalResponse(evalCase, generated.suggestedResponse, {
+        guidelines,
+        suiteForbiddenPhrases,
+        userId,
+      });
+      await storage.saveEvalResult({
+        runId: run.id,
+        caseId: evalCase.id,
+        response: generated.suggestedResponse,
+        error: null,
+        scores,
+        score,
+        judgeNotes,
+        traceId: generated.traceId ?? null,
+      });
+    });
+
+    const scored = (await storage.getEvalResults(run.id)).filter(r => r.score !== null);
+    const avgScore = scored.length > 0
+      ? scored.reduce((sum, r) => sum + (r.score ?? 0), 0) / scored.length
+      : null;
+    await storage.updateEvalRun(run.id, { status: "completed", avgScore, finishedAt: new Date() });
+    console.log(`[Evals] Run ${run.id} completed: ${scored.length}/${cases.length} scored, average ${avgScore?.toFixed(2) ?? "-"}`);
+  } catch (error) {
+    console.error(`[Evals] Run ${run.id} failed:`, error);
+    await storage.updateEvalRun(run.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    }).catch(err => console.error("[Evals] Error marking run as failed:", err));
+  }
+}
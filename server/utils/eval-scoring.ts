@@ -0,0 +1,129 @@
+import { callLLM } from "../lib/llm";
+import { generateEmbedding, cosineSimilarity } from "./openai_embeddings";
+import type { EvalCase, EvalScores } from "@shared/schema";
+
+// Share of the final score per check; checks a case doesn't define are left out and the rest reweighted
+const SCORE_WEIGHTS = {
+  judge: 0.35,
+  guidelines: 0.2,
+  traits: 0.15,
+  similarity: 0.15,
+  length: 0.05,
+  forbidden: 0.1,
+};
+
+interface JudgeVerdict {
+  overall: number | null;
+  guidelines: number | null;
+  traits: { trait: string; met: boolean }[];
+  notes: string | null;
+}
+
+// Lowercase without accents, so "promoção" matches "promocao"
+function fold(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function clamp01(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+}
+
+export function findForbiddenPhrases(response: string, phrases: string[]): string[] {
+  const folded = fold(response);
+  return phrases.filter(phrase => folded.includes(fold(phrase)));
+}
+
+// Word overlap, for when embeddings are unavailable
+function wordOverlap(a: string, b: string): number {
+  const words = (text: string) => new Set(fold(text).split(/\W+/).filter(w => w.length > 3));
+  const setA = words(a);
+  const setB = words(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  for (const word of setA) if (setB.has(word)) shared++;
+  return shared / (setA.size + setB.size - shared);
+}
+
+async function similarityTo(response: string, golden: string): Promise<number> {
+  try {
+    const [a, b] = await Promise.all([generateEmbedding(response), generateEmbedding(golden)]);
+    return Math.max(0, cosineSimilarity(a, b));
+  } catch (err) {
+    console.error("[Evals] Embeddings unavailable, using word overlap:", err);
+    return wordOverlap(response, golden);
+  }
+}
+
+async function judge(evalCase: EvalCase, response: string, guidelines: string[], userId: string): Promise<JudgeVerdict> {
+  const traits = (evalCase.expectedTraits as string[]) || [];
+  const parts = [
+    `MENSAGEM (${evalCase.messageType === "comment" ? "comentário" : "DM"}): "${evalCase.message}"`,
+    evalCase.postCaption ? `LEGENDA DO POST: "${evalCase.postCaption}"` : "",
+    evalCase.goldenAnswer ? `RESPOSTA DE REFERÊNCIA (aprovada pelo dono da conta): "${evalCase.goldenAnswer}"` : "",
+    `RESPOSTA AVALIADA: "${response}"`,
+    guidelines.length > 0 ? `DIRETRIZES DA CONTA:\n${guidelines.map((g, i) => `${i + 1}. ${g}`).join("\n")}` : "",
+    traits.length > 0 ? `CARACTERÍSTICAS ESPERADAS:\n${traits.map((t, i) => `${i + 1}. ${t}`).join("\n")}` : "",
+  ].filter(Boolean);
+
+  try {
+    const result = await callLLM([
+      {
+        role: "system",
+        content: "Você avalia respostas de uma IA que responde DMs e comentários do Instagram em nome do dono da conta. Dê notas de 0 a 1. \"overall\": qualidade geral (adequação à mensagem, tom, utilidade e, se houver, proximidade da resposta de referência em conteúdo, não em palavras). \"guidelines\": quanto a resposta respeita as diretrizes (null se não houver diretrizes). \"traits\": para cada característica esperada, se a resposta a atende. \"notes\": uma frase explicando a nota. Responda em JSON: {\"overall\": number, \"guidelines\": number | null, \"traits\": [{\"trait\": string, \"met\": boolean}], \"notes\": string}",
+      },
+      { role: "user", content: parts.join("\n\n") },
+    ], { jsonMode: true, temperature: 0, maxTokens: 400, userId });
+
+    const parsed = JSON.parse(result.content || "{}");
+    const judged: { trait?: unknown; met?: unknown }[] = Array.isArray(parsed.traits) ? parsed.traits : [];
+    return {
+      overall: clamp01(parsed.overall),
+      guidelines: guidelines.length > 0 ? clamp01(parsed.guidelines) : null,
+      // Keep the case's own wording; the judge answers in the same order
+      traits: traits.map((trait, i) => ({ trait, met: judged[i]?.met === true })),
+      notes: typeof parsed.notes === "string" ? parsed.notes.slice(0, 500) : null,
+    };
+  } catch (err) {
+    console.error("[Evals] Judge failed:", err);
+    return { overall: null, guidelines: null, traits: [], notes: null };
+  }
+}
+
+export function combineScores(scores: EvalScores): number {
+  const parts: [number, number][] = [];
+  if (scores.judge !== null) parts.push([SCORE_WEIGHTS.judge, scores.judge]);
+  if (scores.guidelines !== null) parts.push([SCORE_WEIGHTS.guidelines, scores.guidelines]);
+  if (scores.traits.length > 0) {
+    parts.push([SCORE_WEIGHTS.traits, scores.traits.filter(t => t.met).length / scores.traits.length]);
+  }
+  if (scores.similarity !== null) parts.push([SCORE_WEIGHTS.similarity, scores.similarity]);
+  if (scores.length !== null) parts.push([SCORE_WEIGHTS.length, scores.length ? 1 : 0]);
+  parts.push([SCORE_WEIGHTS.forbidden, scores.forbidden.length === 0 ? 1 : 0]);
+
+  const totalWeight = parts.reduce((sum, [weight]) => sum + weight, 0);
+  return parts.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight;
+}
+
+// Rule-based checks plus the LLM judge for one generated reply
+export async function scoreEvalResponse(
+  evalCase: EvalCase,
+  response: string,
+  context: { guidelines: string[]; suiteForbiddenPhrases: string[]; userId: string }
+): Promise<{ scores: EvalScores; score: number; judgeNotes: string | null }> {
+  const forbiddenPhrases = [...context.suiteForbiddenPhrases, ...((evalCase.forbiddenPhrases as string[]) || [])];
+
+  const [verdict, similarity] = await Promise.all([
+    judge(evalCase, response, context.guidelines, context.userId),
+    evalCase.goldenAnswer ? similarityTo(response, evalCase.goldenAnswer) : Promise.resolve(null),
+  ]);
+
+  const scores: EvalScores = {
+    judge: verdict.overall,
+    guidelines: verdict.guidelines,
+    traits: verdict.traits,
+    similarity,
+    length: evalCase.maxLength ? response.length <= evalCase.maxLength : null,
+    forbidden: findForbiddenPhrases(response, forbiddenPhrases),
+  };
+  return { scores, score: combineScores(scores), judgeNotes: verdict.notes };
+}
@@ -0,0 +1,24 @@
+import type { InstagramMessage } from "@shared/schema";
+import type { GenerationContext } from "../openai";
+import { snippetVariablesFor } from "./snippets";
+import { storyContextFor } from "./story-context";
+import { contactContextFor } from "./contact-profile";
+import { experimentAssignmentFor, type ExperimentAssignment } from "./prompt-experiments";
+
+// What generateAIResponse/regenerateResponse get for a stored message, the same on every path
+// (webhooks, sync, manual entry, regeneration). experiment is returned so the caller can record
+// the variant on the AI response.
+export async function generationContextFor(
+  message: InstagramMessage
+): Promise<{ context: GenerationContext; experiment?: ExperimentAssignment }> {
+  const experiment = await experimentAssignmentFor(message);
+  return {
+    context: {
+      snippets: { accountId: message.accountId, variables: snippetVariablesFor(message) },
+      story: storyContextFor(message),
+      contact: await contactContextFor(message),
+      overrides: { systemPrompt: experiment?.systemPrompt },
+    },
+    experiment,
+  };
+}
@@ -0,0 +1,243 @@
+// Per-account budget for Instagram Graph API calls.
+// Each connected account gets two token buckets: "send" (DMs and comment replies) and
+// "read" (profile lookups, business discovery, post/parent comment fetches). Meta's usage
+// headers (X-App-Usage, X-Business-Use-Case-Usage) and rate-limit errors pause the account
+// until the reported regain time, so we slow down before Instagram blocks it.
+// State is in memory: a restart starts with full buckets, Meta's headers catch up on the first call.
+
+export type GraphCallKind = "send" | "read";
+
+const BUCKETS: Record<GraphCallKind, { capacity: number; perHour: number }> = {
+  send: { capacity: 10, perHour: 150 },   // Burst of 10, then 150/h (Meta allows ~200 automated DMs/h)
+  read: { capacity: 30, perHour: 180 },   // Burst of 30, then 180/h (Graph API: 200 calls/h per user)
+};
+const THROTTLE_USAGE_PCT = 80;            // Above this, usage headers halve the refill rate
+const BLOCK_USAGE_PCT = 95;               // Above this, the account pauses until usage resets
+const DEFAULT_BLOCK_MS = 5 * 60 * 1000;   // Pause when Meta doesn't say how long
+const RATE_LIMIT_ERROR_CODES = [4, 17, 32, 613]; // Graph API "too many calls" errors
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface AccountBudget {
+  buckets: Record<GraphCallKind, Bucket>;
+  appUsagePct: number;         // Highest metric in X-App-Usage
+  businessUsagePct: number;    // Highest metric in X-Business-Use-Case-Usage
+  usageUpdatedAt: number | null;
+  blockedUntil: number;        // Epoch ms; 0 = not paused
+  lastLimitError: string | null;
+  sent: number;                // Calls made since boot (for the dashboard)
+  reads: number;
+}
+
+export interface AccountUsageSnapshot {
+  accountKey: string;
+  send: { tokens: number; capacity: number; perHour: number };
+  read: { tokens: number; capacity: number; perHour: number };
+  appUsagePct: number;
+  businessUsagePct: number;
+  usageUpdatedAt: string | null;
+  blockedUntil: string | null;
+  lastLimitError: string | null;
+  sent: number;
+  reads: number;
+}
+
+export class GraphRateLimitError extends Error {
+  retryAt: Date;
+
+  constructor(accountKey: string, kind: GraphCallKind, retryAt: Date) {
+    super(`Rate limit: account ${accountKey} has no ${kind} budget until ${retryAt.toISOString()}`);
+    this.name = "GraphRateLimitError";
+    this.retryAt = retryAt;
+  }
+}
+
+const budgets = new Map<string, AccountBudget>();
+
+function getBudget(accountKey: string): AccountBudget {
+  let budget = budgets.get(accountKey);
+  if (!budget) {
+    const now = Date.now();
+    budget = {
+      buckets: {
+        send: { tokens: BUCKETS.send.capacity, updatedAt: now },
+        read: { tokens: BUCKETS.read.capacity, updatedAt: now },
+      },
+      appUsagePct: 0,
+      businessUsagePct: 0,
+      usageUpdatedAt: null,
+      blockedUntil: 0,
+      lastLimitError: null,
+      sent: 0,
+      reads: 0,
+    };
+    budgets.set(accountKey, budget);
+  }
+  return budget;
+}
+
+// Tokens per millisecond, halved while Meta reports heavy usage
+function refillRate(budget: AccountBudget, kind: GraphCallKind): number {
+  const rate = BUCKETS[kind].perHour / (60 * 60 * 1000);
+  return Math.max(budget.appUsagePct, budget.businessUsagePct) >= THROTTLE_USAGE_PCT ? rate / 2 : rate;
+}
+
+function refill(budget: AccountBudget, kind: GraphCallKind, now: number) {
+  const bucket = budget.buckets[kind];
+  const elapsed = now - bucket.updatedAt;
+  bucket.tokens = Math.min(BUCKETS[kind].capacity, bucket.tokens + elapsed * refillRate(budget, kind));
+  bucket.updatedAt = now;
+}
+
+// Takes a token if one is available; otherwise says when to try again
+export function tryAcquire(accountKey: string, kind: GraphCallKind): { ok: true } | { ok: false; retryAt: Date } {
+  const budget = getBudget(accountKey);
+  const now = Date.now();
+
+  if (budget.blockedUntil > now) {
+    return { ok: false, retryAt: new Date(budget.blockedUntil) };
+  }
+
+  refill(budget, kind, now);
+  const bucket = budget.buckets[kind];
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    if (kind === "send") budget.sent++;
+    else budget.reads++;
+    return { ok: true };
+  }
+
+  const waitMs = Math.ceil((1 - bucket.tokens) / refillRate(budget, kind));
+  return { ok: false, retryAt: new Date(now + waitMs) };
+}
+
+// Waits up to maxWaitMs for a token; throws GraphRateLimitError beyond that
+export async function acquire(accountKey: string, kind: GraphCallKind, maxWaitMs: number = 0): Promise<void> {
+  const deadline = Date.now() + maxWaitMs;
+  for (;;) {
+    const result = tryAcquire(accountKey, kind);
+    if (result.ok) return;
+    if (result.retryAt.getTime() > deadline) {
+      throw new GraphRateLimitError(accountKey, kind, result.retryAt);
+    }
+    await new Promise(resolve => setTimeout(resolve, Math.max(50, result.retryAt.getTime() - Date.now())));
+  }
+}
+
+function pauseAccount(budget: AccountBudget, untilMs: number, reason: string) {
+  if (untilMs > budget.blockedUntil) {
+    budget.blockedUntil = untilMs;
+    budget.lastLimitError = reason;
+    console.warn(`[Rate Limit] Conta pausada até ${new Date(untilMs).toISOString()}: ${reason}`);
+  }
+}
+
+function highestMetric(usage: any): number {
+  if (!usage || typeof usage !== "object") return 0;
+  return Math.max(0, ...["call_count", "total_time", "total_cputime"].map(key => Number(usage[key]) || 0));
+}
+
+type HeaderSource = Headers | Record<string, any> | undefined | null;
+
+function readHeader(headers: HeaderSource, name: string): string | null {
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === "function") return (headers as Headers).get(name);
+  const value = (headers as Record<string, any>)[name.toLowerCase()];
+  return value === undefined ? null : String(value);
+}
+
+// Reads Meta's usage headers (percentages of the hourly quota) from any Graph API response
+export function recordUsageHeaders(accountKey: string, headers: HeaderSource) {
+  const budget = getBudget(accountKey);
+  const now = Date.now();
+
+  try {
+    const appUsage = readHeader(headers, "x-app-usage");
+    if (appUsage) {
+      budget.appUsagePct = highestMetric(JSON.parse(appUsage));
+      budget.usageUpdatedAt = now;
+    }
+
+    // {"<business-id>": [{"type": "instagram", "call_count": 12, ..., "estimated_time_to_regain_access": 0}]}
+    const businessUsage = readHeader(headers, "x-business-use-case-usage");
+    if (businessUsage) {
+      let highest = 0;
+      let regainMinutes = 0;
+      for (const entries of Object.values(JSON.parse(businessUsage)) as any[]) {
+        for (const entry of Array.isArray(entries) ? entries : []) {
+          highest = Math.max(highest, highestMetric(entry));
+          regainMinutes = Math.max(regainMinutes, Number(entry.estimated_time_to_regain_access) || 0);
+        }
+      }
+      budget.businessUsagePct = highest;
+      budget.usageUpdatedAt = now;
+
+      if (regainMinutes > 0) {
+        pauseAccount(budget, now + regainMinutes * 60 * 1000, `Meta pediu ${regainMinutes} min de pausa`);
+      }
+    }
+  } catch (e) {
+    console.log("[Rate Limit] Cabeçalho de uso inválido:", e instanceof Error ? e.message : e);
+  }
+
+  const usage = Math.max(budget.appUsagePct, budget.businessUsagePct);
+  if (usage >= BLOCK_USAGE_PCT) {
+    pauseAccount(budget, now + DEFAULT_BLOCK_MS, `Uso da API em ${usage}%`);
+  }
+}
+
+export function isRateLimitError(error: any): boolean {
+  return !!error && RATE_LIMIT_ERROR_CODES.includes(Number(error.code));
+}
+
+// A Graph API "too many calls" error pauses the account; returns when to retry
+export function recordRateLimitError(accountKey: string, error: any): Date {
+  const budget = getBudget(accountKey);
+  pauseAccount(budget, Date.now() + DEFAULT_BLOCK_MS, `Erro ${error?.code}: ${error?.message || "limite atingido"}`);
+  return new Date(budget.blockedUntil);
+}
+
+// fetch() for Graph API reads: takes a read token (waiting up to maxWaitMs), records the
+// usage headers and pauses the account on rate-limit errors. Throws GraphRateLimitError
+// when there is no budget, so best-effort lookups can simply be skipped.
+export async function graphFetch(
+  accountKey: string,
+  url: string,
+  init?: RequestInit,
+  maxWaitMs: number = 0
+): Promise<Response> {
+  await acquire(accountKey, "read", maxWaitMs);
+  const response = await fetch(url, init);
+  recordUsageHeaders(accountKey, response.headers);
+
+  if (response.status === 429 || response.status === 400 || response.status === 403) {
+    const body = await response.clone().json().catch(() => null);
+    if (response.status === 429 || isRateLimitError(body?.error)) {
+      recordRateLimitError(accountKey, body?.error || { code: 429, message: "HTTP 429" });
+    }
+  }
+  return response;
+}
+
+export function getUsageSnapshot(accountKey: string): AccountUsageSnapshot {
+  const budget = getBudget(accountKey);
+  const now = Date.now();
+  refill(budget, "send", now);
+  refill(budget, "read", now);
+
+  return {
+    accountKey,
+    send: { tokens: Math.floor(budget.buckets.send.tokens), ...BUCKETS.send },
+    read: { tokens: Math.floor(budget.buckets.read.tokens), ...BUCKETS.read },
+    appUsagePct: budget.appUsagePct,
+    businessUsagePct: budget.businessUsagePct,
+    usageUpdatedAt: budget.usageUpdatedAt ? new Date(budget.usageUpdatedAt).toISOString() : null,
+    blockedUntil: budget.blockedUntil > now ? new Date(budget.blockedUntil).toISOString() : null,
+    lastLimitError: budget.lastLimitError,
+    sent: budget.sent,
+    reads: budget.reads,
+  };
+}
@@ -1,4 +1,5 @@
 import axios, { AxiosError } from 'axios';
+import { acquire, GraphRateLimitError, isRateLimitError, recordRateLimitError, recordUsageHeaders } from './graph-rate-limiter';
 
 interface RetryConfig {
   maxRetries: number;
@@ -12,23 +13,39 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffMultiplier: 2
 };
 
+// accountKey: conta Instagram cujo orçamento de leitura é consumido (ver graph-rate-limiter)
 export async function instagramApiCall<T>(
   url: string,
   config: any = {},
-  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  accountKey?: string
 ): Promise<T> {
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
     try {
+      if (accountKey) await acquire(accountKey, 'read');
       const response = await axios.get(url, config);
+      if (accountKey) recordUsageHeaders(accountKey, response.headers);
       return response.data as T;
     } catch (error) {
       lastError = error as Error;
       const axiosError = error as AxiosError;
+      const graphError = (axiosError.response?.data as any)?.error;
+      const rateLimited = axiosError.response?.status === 429 || isRateLimitError(graphError);
 
-      // Não fazer retry em erros 4xx (cliente)
-      if (axiosError.response && axiosError.response.status < 500) {
+      if (accountKey && axiosError.response) {
+        recordUsageHeaders(accountKey, axiosError.response.headers);
+        if (rateLimited) recordRateLimitError(accountKey, graphError || { code: 429 });
+      }
+
+      // Sem orçamento na conta: não adianta tentar de novo agora
+      if (error instanceof GraphRateLimitError) {
+        throw error;
+      }
+
+      // Não fazer retry em erros 4xx (cliente), exceto limite de requisições
+      if (axiosError.response && axiosError.response.status < 500 && !rateLimited) {
         throw error;
       }
 
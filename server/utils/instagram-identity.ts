@@ -1,6 +1,7 @@
 
 import { authStorage } from "../replit_integrations/auth/storage";
 import { User } from "../../shared/schema";
+import { graphFetch, GraphRateLimitError } from "./graph-rate-limiter";
 
 // Debug logging controlled by env var (default: off)
 const IDENTITY_DEBUG = process.env.IDENTITY_DEBUG === "1";
@@ -142,7 +143,8 @@ async function fetchFromApi(userId: string, token: string, userIgId?: string) {
   for (const ep of endpoints) {
     try {
       debugLog(`ep=${ep.name} attempting...`);
-      const res = await fetch(ep.url);
+      // Lookups count against the receiving account's read budget
+      const res = userIgId ? await graphFetch(userIgId, ep.url) : await fetch(ep.url);
       const data = await res.json();
 
       // SAFE DEBUG LOG: HTTP status only, no tokens or payload
@@ -166,6 +168,10 @@ async function fetchFromApi(userId: string, token: string, userIgId?: string) {
         );
       }
     } catch (e) {
+      if (e instanceof GraphRateLimitError) {
+        debugLog(`ep=${ep.name} SKIPPED: no read budget`);
+        break;
+      }
       debugLog(`ep=${ep.name} EXCEPTION:`, e instanceof Error ? e.message : 'unknown');
     }
   }
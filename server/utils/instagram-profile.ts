@@ -11,14 +11,18 @@ interface InstagramUserInfo {
 export async function fetchUserProfilePicture(
   igsid: string,
   accessToken: string,
-  username?: string
+  username?: string,
+  accountKey?: string
 ): Promise<string | null> {
   // Estratégia em cascata para buscar foto de perfil
 
   // 1. Tentar endpoint direto com IGSID
   try {
     const data = await instagramApiCall<InstagramUserInfo>(
-      `https://graph.instagram.com/v21.0/${igsid}?fields=profile_pic,profile_picture_url&access_token=${accessToken}`
+      `https://graph.instagram.com/v21.0/${igsid}?fields=profile_pic,profile_picture_url&access_token=${accessToken}`,
+      {},
+      undefined,
+      accountKey
     );
 
     if (data.profile_pic) return data.profile_pic;
@@ -30,7 +34,10 @@ export async function fetchUserProfilePicture(
   // 2. Tentar via Facebook Graph API
   try {
     const data = await instagramApiCall<InstagramUserInfo>(
-      `https://graph.facebook.com/v21.0/${igsid}?fields=profile_pic&access_token=${accessToken}`
+      `https://graph.facebook.com/v21.0/${igsid}?fields=profile_pic&access_token=${accessToken}`,
+      {},
+      undefined,
+      accountKey
     );
 
     if (data.profile_pic) return data.profile_pic;
@@ -43,7 +50,10 @@ export async function fetchUserProfilePicture(
     try {
       const cleanUsername = username.replace('@', '');
       const data = await instagramApiCall<any>(
-        `https://graph.instagram.com/v21.0/me?fields=business_discovery.username(${cleanUsername}){profile_picture_url}&access_token=${accessToken}`
+        `https://graph.instagram.com/v21.0/me?fields=business_discovery.username(${cleanUsername}){profile_picture_url}&access_token=${accessToken}`,
+        {},
+        undefined,
+        accountKey
       );
 
       if (data.business_discovery?.profile_picture_url) {
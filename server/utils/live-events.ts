@@ -0,0 +1,57 @@
+import type { Response } from "express";
+import type { LiveEventType } from "@shared/schema";
+
+// Open Server-Sent Events streams per workspace (owner userId).
+// In memory: each server process only reaches the tabs connected to it,
+// which is fine for the single instance we run; clients fall back to polling otherwise.
+const streams = new Map<string, Set<Response>>();
+
+const HEARTBEAT_MS = 25 * 1000; // Keeps proxies from closing idle streams
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+function ensureHeartbeat() {
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    for (const clients of Array.from(streams.values())) {
+      for (const res of Array.from(clients)) {
+        res.write(": ping\n\n");
+      }
+    }
+  }, HEARTBEAT_MS);
+  heartbeatTimer.unref();
+}
+
+// Registers an already-open SSE response; returns the cleanup for req "close"
+export function addEventStream(userId: string, res: Response): () => void {
+  let clients = streams.get(userId);
+  if (!clients) {
+    clients = new Set();
+    streams.set(userId, clients);
+  }
+  clients.add(res);
+  ensureHeartbeat();
+
+  return () => {
+    clients!.delete(res);
+    if (clients!.size === 0) streams.delete(userId);
+    if (streams.size === 0 && heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+  };
+}
+
+// Fire-and-forget: a write failure on one tab never affects the caller
+export function publishEvent(userId: string, type: LiveEventType, data: Record<string, unknown> = {}) {
+  const clients = streams.get(userId);
+  if (!clients || clients.size === 0) return;
+
+  const payload = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const res of Array.from(clients)) {
+    try {
+      res.write(payload);
+    } catch (error) {
+      console.error("[Live Events] Erro ao enviar evento:", error);
+    }
+  }
+}
@@ -72,7 +72,10 @@ export async function downloadAndStoreMedia(
       throw new Error(`Downloaded media too large: ${buffer.length} bytes`);
     }
     
-    const extension = getExtensionFromUrl(mediaUrl) || 'jpg';
+    // Story/lookaside URLs usually have no extension; the content type tells image from video
+    const extension = getExtensionFromUrl(mediaUrl)
+      || getExtensionFromContentType(response.headers.get('content-type'))
+      || 'jpg';
     const hash = crypto.createHash('md5').update(messageId).digest('hex');
     const filename = `${hash}.${extension}`;
     const filepath = path.join(MEDIA_DIR, filename);
@@ -99,6 +102,43 @@ function getExtensionFromUrl(url: string): string | null {
   return match ? match[1] : null;
 }
 
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+function getExtensionFromContentType(contentType: string | null): string | null {
+  if (!contentType) return null;
+  return CONTENT_TYPE_EXTENSIONS[contentType.split(';')[0].trim().toLowerCase()] || null;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  'jpg': 'image/jpeg',
+  'jpeg': 'image/jpeg',
+  'png': 'image/png',
+  'gif': 'image/gif',
+  'webp': 'image/webp',
+};
+
+// Stored images as a data URI, for vision calls (the model can't reach our /api/media URLs).
+// Returns null for anything that isn't a stored image.
+export function storedMediaAsDataUri(url: string | null | undefined): string | null {
+  if (!url?.startsWith('/api/media/')) return null;
+  const filename = path.basename(url);
+  const mimeType = IMAGE_MIME_TYPES[filename.split('.').pop()?.toLowerCase() || ''];
+  const filepath = path.join(MEDIA_DIR, filename);
+  if (!mimeType || !fs.existsSync(filepath)) return null;
+  return `data:${mimeType};base64,${fs.readFileSync(filepath).toString('base64')}`;
+}
+
 export function setupMediaEndpoint(app: Express) {
   app.get('/api/media/:filename', async (req, res) => {
     try {
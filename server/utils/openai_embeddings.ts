@@ -1,30 +1,9 @@
-import { getOpenAIConfig } from "./openai-config";
-import OpenAI from "openai";
+import { embedText } from "../lib/llm";
 
-// Calculate embedding for text
+// Calculate embedding for text (provider chosen in the global AI settings)
 export async function generateEmbedding(text: string): Promise<number[]> {
-  const config = getOpenAIConfig();
-  if (!config.apiKey) {
-    throw new Error("OpenAI API Key not configured");
-  }
-
-  const openai = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL: config.baseURL,
-  });
-
   try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
-      encoding_format: "float",
-    });
-
-    if (!response.data || !response.data[0] || !response.data[0].embedding) {
-      throw new Error("Invalid embedding response");
-    }
-
-    return response.data[0].embedding;
+    return await embedText(text);
   } catch (error) {
     console.error("Error generating embedding:", error);
     throw error;
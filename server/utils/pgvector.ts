@@ -0,0 +1,25 @@
+// pgvector is optional. ensure-schema flips this flag when the extension and the
+// knowledge_embeddings.embedding_vec column are in place; otherwise vector search
+// scores the stored JSON vectors in-process.
+let pgvectorAvailable = false;
+
+// The indexed column has a fixed size: text-embedding-3-small (and the mock provider).
+// Vectors of other sizes are still stored as JSON and searched in-process.
+export const PGVECTOR_DIMENSIONS = 1536;
+
+export function setPgvectorAvailable(available: boolean) {
+  pgvectorAvailable = available;
+}
+
+export function canUsePgvector(embedding: number[]): boolean {
+  return pgvectorAvailable && embedding.length === PGVECTOR_DIMENSIONS;
+}
+
+export function isPgvectorAvailable(): boolean {
+  return pgvectorAvailable;
+}
+
+// pgvector text input format: '[0.1,0.2,...]'
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
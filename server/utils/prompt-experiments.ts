@@ -0,0 +1,34 @@
+import { storage } from "../storage";
+import type { ExperimentVariant, InstagramMessage } from "@shared/schema";
+
+export interface ExperimentAssignment {
+  experimentId: number;
+  variant: ExperimentVariant;
+  systemPrompt?: string; // Only for the challenger; the control keeps the prompt in use
+}
+
+// The A/B variant a message is answered with, for generateAIResponse/regenerateResponse.
+// Undefined when no experiment covers the account or the sender can't be identified.
+export async function experimentAssignmentFor(
+  message: Pick<InstagramMessage, "userId" | "accountId" | "senderId" | "senderUsername">
+): Promise<ExperimentAssignment | undefined> {
+  const senderKey = message.senderId || (message.senderUsername ? `@${message.senderUsername}` : null);
+  if (!senderKey) return undefined;
+
+  try {
+    const experiment = await storage.getRunningPromptExperiment(message.userId, message.accountId);
+    if (!experiment) return undefined;
+
+    const drawn: ExperimentVariant = Math.random() * 100 < experiment.trafficSplit ? "b" : "a";
+    const variant = await storage.assignExperimentVariant(experiment.id, senderKey, drawn);
+    return {
+      experimentId: experiment.id,
+      variant,
+      systemPrompt: variant === "b" ? experiment.challengerPrompt : undefined,
+    };
+  } catch (err) {
+    // A broken experiment must never block the reply itself
+    console.error("[Experiments] Error assigning variant:", err);
+    return undefined;
+  }
+}
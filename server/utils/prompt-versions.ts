@@ -0,0 +1,29 @@
+import { storage } from "../storage";
+import { authStorage } from "../replit_integrations/auth";
+import type { PromptVersionSource, SystemPromptVersion } from "@shared/schema";
+
+// The only way users.aiContext should change: writes the prompt and records it as a new version.
+// Saving the prompt already in use records nothing and returns null.
+export async function saveSystemPrompt(
+  userId: string,
+  content: string | null,
+  source: PromptVersionSource,
+  authorId: string | null,
+  restoredFromId: number | null = null
+): Promise<SystemPromptVersion | null> {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error("Usuário não encontrado");
+  if ((user.aiContext ?? null) === content) return null;
+
+  await authStorage.updateUser(userId, { aiContext: content });
+  const version = await storage.createPromptVersion({ userId, content, source, authorId, restoredFromId });
+  console.log(`[Prompt Versions] v${version.version} (${source}) saved for user ${userId}`);
+  return version;
+}
+
+// Rollback = the old content saved again as the newest version, so the history never loses an entry
+export async function rollbackSystemPrompt(userId: string, versionId: number, authorId: string): Promise<SystemPromptVersion | null | undefined> {
+  const target = await storage.getPromptVersion(versionId, userId);
+  if (!target) return undefined;
+  return saveSystemPrompt(userId, target.content, "rollback", authorId, target.id);
+}
@@ -0,0 +1,146 @@
+import { storage } from "../storage";
+import { callLLM } from "../lib/llm";
+import { safetyFilterSchema, type SafetyFilterConfig, type SafetyFlag } from "@shared/schema";
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /(?:\+?\d{1,3}[\s.-]?)?\(?\d{2,3}\)?[\s.-]?\d{4,5}[\s.-]?\d{4}\b/g;
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<>()]+|\b(?:[a-z0-9-]+\.)+[a-z]{2,}(?:\/[^\s<>()]*)?/gi;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+// Stored configs are jsonb: anything malformed is treated as "filter off"
+export function parseSafetyFilter(value: unknown): SafetyFilterConfig | null {
+  if (!value) return null;
+  const parsed = safetyFilterSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// Lowercase without accents, so "promoção" matches "promocao"
+function fold(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, "").replace(/^0+/, "");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function hostOf(link: string): string {
+  const withScheme = /^https?:\/\//i.test(link) ? link : `https://${link}`;
+  try {
+    return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return link.toLowerCase();
+  }
+}
+
+// What the model was given for this reply, from its generation trace:
+// knowledge = prompt sections and few-shot examples; conversation = the incoming message and its context
+async function loadGrounding(userId: string, traceId?: number | null): Promise<{ knowledge: string; conversation: string }> {
+  if (!traceId) return { knowledge: "", conversation: "" };
+  const trace = await storage.getGenerationTrace(traceId, userId);
+  if (!trace) return { knowledge: "", conversation: "" };
+
+  const sections = (trace.sections as { content: string }[]) || [];
+  const fewShot = (trace.fewShot as { question: string; answer: string }[] | null) || [];
+  return {
+    knowledge: [
+      ...sections.map(s => s.content),
+      ...fewShot.map(f => `${f.question}\n${f.answer}`),
+    ].join("\n"),
+    conversation: trace.userPrompt || "",
+  };
+}
+
+async function moderate(text: string, userId: string): Promise<string | null> {
+  try {
+    const response = await callLLM([
+      {
+        role: "system",
+        content: "Você revisa respostas que uma empresa vai publicar no Instagram. Marque como inadequada se for ofensiva, discriminatória, sexual, violenta, assediadora, fizer promessas médicas/financeiras perigosas ou expuser dados pessoais. Responda em JSON: {\"flagged\": boolean, \"reason\": string}",
+      },
+      { role: "user", content: text },
+    ], { jsonMode: true, fast: true, temperature: 0, maxTokens: 200, userId });
+
+    const result = JSON.parse(response.content || "{}");
+    return result.flagged ? (result.reason || "Conteúdo marcado como inadequado") : null;
+  } catch (error) {
+    // Fail closed: an auto-send we couldn't review waits for a human
+    console.error("[Safety Filter] Erro na moderação:", error);
+    return "Moderação indisponível, revisão manual necessária";
+  }
+}
+
+// Runs every enabled check against a reply about to be auto-sent. An empty result means it may go out.
+export async function runSafetyChecks(
+  text: string,
+  config: SafetyFilterConfig,
+  context: { userId: string; traceId?: number | null }
+): Promise<SafetyFlag[]> {
+  const flags: SafetyFlag[] = [];
+  const folded = fold(text);
+
+  const blocked = config.blockedWords.filter(word =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(fold(word))}($|[^\\p{L}\\p{N}])`, "u").test(folded)
+  );
+  if (blocked.length > 0) {
+    flags.push({ check: "blocked_word", reason: `Palavras bloqueadas: ${blocked.join(", ")}` });
+  }
+
+  if (config.maxLength && text.length > config.maxLength) {
+    flags.push({ check: "length", reason: `Resposta com ${text.length} caracteres (limite: ${config.maxLength})` });
+  }
+
+  const emails = text.match(EMAIL_PATTERN) || [];
+  const withoutEmails = text.replace(EMAIL_PATTERN, " ");
+
+  if (config.checkLinks) {
+    const allowed = config.allowedDomains.map(hostOf);
+    const blockedHosts = Array.from(new Set((withoutEmails.match(URL_PATTERN) || []).map(hostOf)))
+      .filter(host => !allowed.some(domain => host === domain || host.endsWith(`.${domain}`)));
+    if (blockedHosts.length > 0) {
+      flags.push({ check: "link", reason: `Links fora da lista permitida: ${blockedHosts.join(", ")}` });
+    }
+  }
+
+  const needsGrounding = config.blockContactInfo || config.requireGroundedNumbers;
+  const grounding = needsGrounding
+    ? await loadGrounding(context.userId, context.traceId)
+    : { knowledge: "", conversation: "" };
+
+  if (config.blockContactInfo) {
+    const knowledge = grounding.knowledge.toLowerCase();
+    const knowledgeDigits = grounding.knowledge.replace(/\D/g, "");
+    const leaked = [
+      ...emails.filter(email => !knowledge.includes(email.toLowerCase())),
+      ...(withoutEmails.match(PHONE_PATTERN) || []).filter(phone => !knowledgeDigits.includes(digitsOf(phone))),
+    ];
+    if (leaked.length > 0) {
+      flags.push({ check: "contact_info", reason: `Contato que não está na base de conhecimento: ${leaked.join(", ")}` });
+    }
+  }
+
+  if (config.requireGroundedNumbers) {
+    // Single digits ("1 dia", "2 opções") are too common to be worth checking
+    const known = new Set(
+      (`${grounding.knowledge}\n${grounding.conversation}`.match(NUMBER_PATTERN) || []).map(digitsOf)
+    );
+    const ungrounded = Array.from(new Set(
+      (withoutEmails.match(NUMBER_PATTERN) || []).filter(n => digitsOf(n).length >= 2 && !known.has(digitsOf(n)))
+    ));
+    if (ungrounded.length > 0) {
+      flags.push({ check: "ungrounded_number", reason: `Números sem fonte no conhecimento: ${ungrounded.join(", ")}` });
+    }
+  }
+
+  if (config.moderation) {
+    const reason = await moderate(text, context.userId);
+    if (reason) {
+      flags.push({ check: "moderation", reason });
+    }
+  }
+
+  return flags;
+}
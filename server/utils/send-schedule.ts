@@ -0,0 +1,102 @@
+import { sendScheduleSchema, type SendSchedule } from "@shared/schema";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_HOLDS = 14; // Enough hops to clear a week of closed days plus quiet hours
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Stored schedules are jsonb: anything malformed is treated as "no schedule"
+export function parseSendSchedule(value: unknown): SendSchedule | null {
+  if (!value) return null;
+  const parsed = sendScheduleSchema.safeParse(value);
+  if (!parsed.success || !isValidTimeZone(parsed.data.timezone)) return null;
+  return parsed.data;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Weekday (0 = Sunday) and minute of the day as seen in the account's timezone
+function localClock(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || "0";
+
+  return {
+    day: WEEKDAYS.indexOf(get("weekday")),
+    minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+  };
+}
+
+// Windows may wrap past midnight (22:00-08:00)
+function inWindow(minutes: number, start: number, end: number): boolean {
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// Minutes to wait before a send is allowed at this local time (0 = allowed now)
+function minutesUntilAllowed(schedule: SendSchedule, day: number, minutes: number): number {
+  if (schedule.quietHours) {
+    const start = toMinutes(schedule.quietHours.start);
+    const end = toMinutes(schedule.quietHours.end);
+    if (inWindow(minutes, start, end)) {
+      return (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+    }
+  }
+
+  if (schedule.businessHours) {
+    const { days } = schedule.businessHours;
+    const start = toMinutes(schedule.businessHours.start);
+    const end = toMinutes(schedule.businessHours.end);
+    if (days.includes(day) && inWindow(minutes, start, end)) return 0;
+
+    // Next opening: later today or on the next business day
+    for (let offset = 0; offset <= 7; offset++) {
+      if (!days.includes((day + offset) % 7)) continue;
+      const wait = offset * MINUTES_PER_DAY + start - minutes;
+      if (wait > 0) return wait;
+    }
+  }
+
+  return 0;
+}
+
+function randomDelayMs(schedule: SendSchedule): number {
+  const { min, max } = schedule.delaySeconds;
+  return Math.round((min + Math.random() * (max - min)) * 1000);
+}
+
+// When an auto-send should go out: a random "typing" delay, then pushed past quiet hours and
+// closed business hours. Held sends get a fresh random delay after the window opens so a
+// night's backlog doesn't leave in one burst.
+export function computeSendAt(schedule: SendSchedule, from: Date = new Date()): Date {
+  let sendAt = new Date(from.getTime() + randomDelayMs(schedule));
+
+  for (let hold = 0; hold < MAX_HOLDS; hold++) {
+    const { day, minutes } = localClock(sendAt, schedule.timezone);
+    const wait = minutesUntilAllowed(schedule, day, minutes);
+    if (wait === 0) break;
+
+    // Jump to the start of the opening minute, then add the human-like delay
+    const opening = sendAt.getTime() + wait * 60 * 1000 - sendAt.getUTCSeconds() * 1000 - sendAt.getUTCMilliseconds();
+    sendAt = new Date(opening + randomDelayMs(schedule));
+  }
+
+  return sendAt;
+}
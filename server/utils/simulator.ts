@@ -0,0 +1,78 @@
+import type { ConversationHistoryEntry } from "../openai";
+import type { DmConversation, MessageWithResponse, SimulatorTurn } from "@shared/schema";
+
+// Same depth the webhook gives the model for real DMs
+const HISTORY_DEPTH = 10;
+
+// One follower message of a real thread and what the account actually answered to it
+export interface ReplayExchange {
+  message: MessageWithResponse;
+  content: string;
+  realResponse: string | null;
+}
+
+// Session transcript -> generateAIResponse history (newest first, like getConversationHistory)
+export function historyFromTurns(turns: Pick<SimulatorTurn, "role" | "content" | "createdAt">[], senderName: string): ConversationHistoryEntry[] {
+  const entries: ConversationHistoryEntry[] = [];
+  for (const turn of turns) {
+    if (turn.role === "follower") {
+      entries.push({ senderName, content: turn.content, response: null, timestamp: turn.createdAt });
+    } else if (entries.length > 0 && !entries[entries.length - 1].response) {
+      entries[entries.length - 1].response = turn.content;
+    }
+  }
+  return entries.reverse().slice(0, HISTORY_DEPTH);
+}
+
+// The trainer's one-off chat (oldest first, ending with the message being answered) -> history
+export function simulatorChatHistory(chat: unknown, senderName: string): ConversationHistoryEntry[] | undefined {
+  if (!Array.isArray(chat) || chat.length < 2) return undefined;
+  const now = new Date();
+  const turns = chat
+    .slice(0, -1)
+    .filter((m): m is { role: string; content: string } => typeof m?.content === "string")
+    .map(m => ({ role: m.role === "user" ? "follower" : "ai", content: m.content, createdAt: now }));
+  return historyFromTurns(turns, senderName);
+}
+
+// Groups a thread (oldest first) into follower messages with the reply that followed each one:
+// the account's own messages up to the next follower message, else the AI reply if it was sent
+export function replayExchanges(conversation: DmConversation, messages: MessageWithResponse[]): ReplayExchange[] {
+  const exchanges: (ReplayExchange & { ownMessages: string[] })[] = [];
+  for (const message of messages) {
+    if (message.senderId === conversation.senderId) {
+      exchanges.push({
+        message,
+        content: message.content || `[${message.mediaType || "mídia"}]`,
+        realResponse: null,
+        ownMessages: [],
+      });
+    } else if (exchanges.length > 0 && message.content) {
+      exchanges[exchanges.length - 1].ownMessages.push(message.content);
+    }
+  }
+
+  return exchanges.map(({ ownMessages, ...exchange }) => {
+    const ai = exchange.message.aiResponse;
+    const aiSent = ai && (exchange.message.status === "approved" || exchange.message.status === "auto_sent");
+    return {
+      ...exchange,
+      realResponse: ownMessages.length > 0
+        ? ownMessages.join("\n")
+        : aiSent ? ai.finalResponse || ai.suggestedResponse : null,
+    };
+  });
+}
+
+// What the model saw of the thread before the exchange at `index` (real replies, newest first)
+export function historyBeforeExchange(exchanges: ReplayExchange[], index: number, senderName: string): ConversationHistoryEntry[] {
+  return exchanges
+    .slice(Math.max(0, index - HISTORY_DEPTH), index)
+    .map(exchange => ({
+      senderName,
+      content: exchange.content,
+      response: exchange.realResponse,
+      timestamp: exchange.message.createdAt,
+    }))
+    .reverse();
+}
@@ -0,0 +1,94 @@
+import { SNIPPET_VARIABLES, type InstagramMessage, type Snippet, type SnippetVariable } from "@shared/schema";
+
+export type SnippetVariables = Partial<Record<SnippetVariable, string | null>>;
+
+// Where a generated reply gets its snippets and variable values from
+export interface SnippetContext {
+  accountId?: number | null;
+  variables: SnippetVariables;
+}
+
+const VARIABLE_PATTERN = new RegExp(`\\{(${SNIPPET_VARIABLES.join("|")})\\}`, "g");
+const REFERENCE_PATTERN = /\{\{\s*snippet:([a-z0-9][a-z0-9_-]*)\s*\}\}/gi;
+
+// Snippets listed in the prompt; beyond this the model only sees the names guidelines mention
+const MAX_PROMPT_SNIPPETS = 40;
+
+export function snippetVariablesFor(message: {
+  senderName?: InstagramMessage["senderName"] | null;
+  senderUsername?: InstagramMessage["senderUsername"] | null;
+  postPermalink?: InstagramMessage["postPermalink"];
+}): SnippetVariables {
+  const fullName = message.senderName?.trim() || null;
+  return {
+    first_name: fullName ? fullName.split(/\s+/)[0] : message.senderUsername || null,
+    full_name: fullName,
+    username: message.senderUsername ? `@${message.senderUsername.replace(/^@/, "")}` : null,
+    post_link: message.postPermalink || null,
+  };
+}
+
+// Fills {variable} placeholders. Values we don't have stay as the placeholder so a human notices.
+export function renderSnippet(body: string, variables: SnippetVariables): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: SnippetVariable) => variables[name] || placeholder);
+}
+
+// Replaces {{snippet:name}} references with the rendered snippet. `unresolved` lists unknown
+// snippet names and variables left without a value.
+export function expandSnippetReferences(
+  text: string,
+  available: Snippet[],
+  variables: SnippetVariables
+): { text: string; unresolved: string[] } {
+  const byName = new Map(available.map(s => [s.name, s]));
+  const unresolved: string[] = [];
+
+  const expanded = text.replace(REFERENCE_PATTERN, (reference, name: string) => {
+    const snippet = byName.get(name.toLowerCase());
+    if (!snippet) {
+      unresolved.push(reference);
+      return reference;
+    }
+    return snippet.body;
+  });
+
+  // Also fills placeholders the model copied straight from a snippet body
+  const rendered = renderSnippet(expanded, variables);
+  unresolved.push(...(rendered.match(VARIABLE_PATTERN) || []));
+  return { text: rendered, unresolved };
+}
+
+// Swap the references the model wrote for the approved text. Anything left unresolved caps
+// the confidence, so the reply goes to the approval queue instead of being auto-sent.
+export function applySnippets<T extends { suggestedResponse: string; confidenceScore: number }>(
+  result: T,
+  available: Snippet[],
+  variables: SnippetVariables
+): T {
+  if (!result.suggestedResponse) return result;
+  const { text, unresolved } = expandSnippetReferences(result.suggestedResponse, available, variables);
+  if (unresolved.length === 0) {
+    return text === result.suggestedResponse ? result : { ...result, suggestedResponse: text };
+  }
+  console.warn(`[Snippets] Referências sem valor na resposta gerada: ${unresolved.join(", ")}`);
+  return { ...result, suggestedResponse: text, confidenceScore: Math.min(result.confidenceScore, 0.5) };
+}
+
+export function formatSnippetsContext(available: Snippet[]): string {
+  if (available.length === 0) return "";
+  const list = available
+    .slice(0, MAX_PROMPT_SNIPPETS)
+    .map(s => `- {{snippet:${s.name}}} (${s.title}): "${s.body.length > 300 ? `${s.body.slice(0, 300)}...` : s.body}"`)
+    .join("\n");
+
+  return `
+═══════════════════════════════════════════════════════
+RESPOSTAS PRONTAS (TEXTOS APROVADOS):
+${list}
+═══════════════════════════════════════════════════════
+Quando uma destas respostas se aplicar, ou quando uma diretriz citar {{snippet:nome}},
+escreva exatamente {{snippet:nome}} no ponto da resposta: o texto aprovado é inserido
+depois, palavra por palavra. Não reescreva, resuma nem traduza o conteúdo de um snippet.
+
+`;
+}
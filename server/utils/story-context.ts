@@ -0,0 +1,62 @@
+import { STORY_MEDIA_TYPES, type InstagramMessage, type StoryMediaType } from "@shared/schema";
+import { storedMediaAsDataUri } from "./media-storage";
+
+// What the AI is told about the story a DM points at
+export interface StoryContext {
+  kind: StoryMediaType;
+  imageUrl: string | null; // Data URI of the stored story image (or the CDN URL if it couldn't be stored)
+  isVideo: boolean;
+  expired: boolean;        // Story media was gone before we could download it
+}
+
+const VIDEO_EXTENSIONS = ["mp4", "mov", "webm"];
+
+export function isStoryMediaType(mediaType: string | null | undefined): mediaType is StoryMediaType {
+  return !!mediaType && (STORY_MEDIA_TYPES as readonly string[]).includes(mediaType);
+}
+
+export function storyContextFor(message: Pick<InstagramMessage, "mediaType" | "mediaUrl">): StoryContext | undefined {
+  if (!isStoryMediaType(message.mediaType)) return undefined;
+
+  const url = message.mediaUrl;
+  if (!url) {
+    return { kind: message.mediaType, imageUrl: null, isVideo: false, expired: true };
+  }
+
+  const extension = url.split("?")[0].split(".").pop()?.toLowerCase() || "";
+  const isVideo = VIDEO_EXTENSIONS.includes(extension);
+  // Stored copies outlive the story; a CDN URL is only there because the download failed and
+  // may have expired too (the vision call falls back to text-only if so)
+  const imageUrl = isVideo ? null : (storedMediaAsDataUri(url) ?? (url.startsWith("http") ? url : null));
+  return { kind: message.mediaType, imageUrl, isVideo, expired: false };
+}
+
+export function formatStoryContext(story: StoryContext): string {
+  const lines = [
+    story.kind === "story_reply"
+      ? "Esta pessoa RESPONDEU A UM STORY SEU: a mensagem dela é uma reação a esse story."
+      : "Esta pessoa MENCIONOU VOCÊ NO STORY DELA (a mensagem é a notificação da menção).",
+  ];
+
+  if (story.imageUrl) {
+    lines.push("IMAGEM DO STORY: [Anexada abaixo - analise visualmente o conteúdo]");
+  } else if (story.isVideo) {
+    lines.push("O story é um vídeo (não disponível para análise visual).");
+  } else {
+    lines.push("O story expirou ou não está acessível: não invente o que ele mostrava.");
+  }
+
+  const guidance = story.kind === "story_reply"
+    ? "Responda considerando o que o story mostrava; a mensagem pode não fazer sentido sem ele."
+    : "Agradeça a menção de forma calorosa e breve; se a imagem mostrar algo específico, comente sobre isso.";
+
+  return `
+═══════════════════════════════════════════════════════
+CONTEXTO DO STORY:
+${lines.join("\n")}
+═══════════════════════════════════════════════════════
+
+IMPORTANTE: ${guidance}
+
+`;
+}
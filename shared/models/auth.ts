@@ -43,6 +43,8 @@ export const users = pgTable("users", {
   autoApproveThreshold: varchar("auto_approve_threshold").default("0.9"),
   aiTone: varchar("ai_tone"),
   aiContext: varchar("ai_context"),
+  aiProvider: varchar("ai_provider"), // null = inherit global LLM provider
+  aiModel: varchar("ai_model"),       // null = provider default
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -1,15 +1,64 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, timestamp, boolean, real, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, timestamp, boolean, real, jsonb, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Export auth models (users and sessions tables)
 export * from "./models/auth";
 
+// Instagram accounts connected to a workspace (one user can manage several)
+// The user's primary connection is mirrored in the users table for legacy code paths
+export const instagramAccounts = pgTable("instagram_accounts", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),                                  // Workspace owner
+  instagramAccountId: text("instagram_account_id").notNull().unique(), // IG Business Account ID
+  instagramUsername: text("instagram_username"),
+  instagramProfilePic: text("instagram_profile_pic"),
+  instagramRecipientId: text("instagram_recipient_id"),               // ID seen as entry.id/recipient in webhooks
+  facebookPageId: text("facebook_page_id"),                           // Page ID for DM webhook matching
+  accessToken: text("access_token"),                                  // Encrypted long-lived token
+  tokenExpiresAt: timestamp("token_expires_at"),
+  tokenRefreshedAt: timestamp("token_refreshed_at"),
+  refreshAttempts: integer("refresh_attempts").notNull().default(0),
+  lastRefreshError: text("last_refresh_error"),
+  showTokenWarning: boolean("show_token_warning").notNull().default(false),
+  operationMode: text("operation_mode"),                              // null = inherit from user settings
+  autoApproveThreshold: text("auto_approve_threshold"),               // null = inherit from user settings
+  sendSchedule: jsonb("send_schedule"),                               // SendSchedule; null = auto-send immediately
+  safetyFilter: jsonb("safety_filter"),                               // SafetyFilterConfig; null = no outbound checks
+  commentModeration: jsonb("comment_moderation"),                     // CommentModerationConfig; null = no auto-hide
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// DM conversation threads: one per account + sender IGSID
+export const dmConversations = pgTable("dm_conversations", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "set null" }),
+  senderId: text("sender_id").notNull(),      // IGSID of the other participant
+  senderName: text("sender_name"),
+  senderUsername: text("sender_username"),
+  senderAvatar: text("sender_avatar"),
+  lastMessageAt: timestamp("last_message_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  lastMessagePreview: text("last_message_preview"),
+  unreadCount: integer("unread_count").notNull().default(0),
+  assignedTo: text("assigned_to"),            // Workspace member handling the thread
+  status: text("status").notNull().default("open"), // 'open', 'snoozed', 'closed'
+  snoozedUntil: timestamp("snoozed_until"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  // One thread per (owner, account, sender); NULL accounts collide too
+  uniqueIndex("dm_conversations_user_account_sender_idx").on(table.userId, sql`COALESCE(${table.accountId}, 0)`, table.senderId),
+]);
+
 // Instagram messages (DMs and Comments)
 export const instagramMessages = pgTable("instagram_messages", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "set null" }), // Account that received it
+  conversationId: integer("conversation_id").references(() => dmConversations.id, { onDelete: "set null" }), // DM thread (null for comments)
   instagramId: text("instagram_id").notNull().unique(),
   type: text("type").notNull(), // 'dm' or 'comment'
   senderName: text("sender_name").notNull(),
@@ -31,6 +80,9 @@ export const instagramMessages = pgTable("instagram_messages", {
   parentCommentText: text("parent_comment_text"), // For reply comments, the text of the parent comment
   parentCommentUsername: text("parent_comment_username"), // For reply comments, the username of the parent comment author
   status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'auto_sent'
+  tags: jsonb("tags").notNull().default([]), // string[] - added by automation rules
+  moderationStatus: text("moderation_status"), // Comments only: null (visible), 'hidden' or 'deleted' on Instagram
+  storyId: text("story_id"), // story_mention/story_reply DMs: the Instagram ID of the story, when the webhook sends it
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   processedAt: timestamp("processed_at"),
 });
@@ -48,8 +100,81 @@ export const aiResponses = pgTable("ai_responses", {
   feedbackStatus: text("feedback_status"), // 'like' or 'dislike'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   approvedAt: timestamp("approved_at"),
+  approvedBy: text("approved_by"), // User ID of the team member who approved/sent the reply
+  traceId: integer("trace_id").references(() => generationTraces.id, { onDelete: "set null" }), // Trace of the current suggestion
+  safetyFlags: jsonb("safety_flags"), // SafetyFlag[] - why the safety filter held an auto-send for review
+  promptVersionId: integer("prompt_version_id").references(() => systemPromptVersions.id, { onDelete: "set null" }), // null = global/default prompt
+  experimentId: integer("experiment_id").references(() => promptExperiments.id, { onDelete: "set null" }), // A/B test the reply was part of
+  experimentVariant: text("experiment_variant"), // 'a' (prompt in use) or 'b' (challenger)
 });
 
+// Generation Traces - exactly what the model saw for a suggestion (prompt sections with
+// their source rows, few-shot examples, model, latency and the model's own reasoning).
+// Regenerating a reply creates a new trace and repoints ai_responses.trace_id.
+export const generationTraces = pgTable("generation_traces", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  kind: text("kind").notNull().default("generate"), // 'generate' or 'regenerate'
+  provider: text("provider"),
+  model: text("model"),
+  latencyMs: integer("latency_ms"),
+  promptTokens: integer("prompt_tokens"),           // As reported by the provider
+  completionTokens: integer("completion_tokens"),
+  sections: jsonb("sections").notNull(),            // TraceSection[] in prompt order
+  fewShot: jsonb("few_shot"),                       // TraceFewShot[] (golden corrections sent as chat turns)
+  userPrompt: text("user_prompt"),
+  rawOutput: text("raw_output"),
+  reasoning: text("reasoning"),                     // The model's "reasoning" field
+  usedVision: boolean("used_vision").notNull().default(false),
+  attempts: integer("attempts").notNull().default(1), // >1 when anti-repetition regenerated
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// System prompt history: every change to users.ai_context is stored as a new version, including
+// rollbacks (which copy an older version's content), so the latest row is always the prompt in use
+export const systemPromptVersions = pgTable("system_prompt_versions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  version: integer("version").notNull(),       // 1, 2, 3... per workspace
+  content: text("content"),                    // null = cleared (falls back to the global prompt)
+  source: text("source").notNull(),            // PROMPT_VERSION_SOURCES
+  authorId: text("author_id"),                 // null = created by the system (backfill)
+  restoredFromId: integer("restored_from_id"), // Rollbacks: the version whose content was restored
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("system_prompt_versions_user_version_unique").on(table.userId, table.version),
+]);
+
+// A/B tests of the system prompt on live traffic. Variant "a" is the prompt in use
+// (users.aiContext), variant "b" the challenger. At most one experiment runs per account
+// scope; an account-specific one takes precedence over one covering all accounts.
+export const promptExperiments = pgTable("prompt_experiments", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "cascade" }), // null = all accounts
+  name: text("name").notNull(),
+  challengerPrompt: text("challenger_prompt").notNull(),
+  trafficSplit: integer("traffic_split").notNull().default(50), // % of new senders assigned to "b"
+  status: text("status").notNull().default("running"), // 'running', 'stopped', 'promoted'
+  winner: text("winner"),                      // Promoted variant
+  createdBy: text("created_by"),
+  endedBy: text("ended_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Sticky variant per sender: assigned on their first message during the experiment, so a
+// person never gets replies in both styles (even if the split changes later)
+export const promptExperimentAssignments = pgTable("prompt_experiment_assignments", {
+  id: serial("id").primaryKey(),
+  experimentId: integer("experiment_id").notNull().references(() => promptExperiments.id, { onDelete: "cascade" }),
+  senderKey: text("sender_key").notNull(),     // Sender IGSID ("@username" when there is none)
+  variant: text("variant").notNull(),          // 'a' or 'b'
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("prompt_experiment_assignments_experiment_sender_unique").on(table.experimentId, table.senderKey),
+]);
+
 // AI Dataset (Memory) for RAG - LEGACY, kept for backward compatibility
 export const aiDataset = pgTable("ai_dataset", {
   id: serial("id").primaryKey(),
@@ -71,7 +196,7 @@ export const manualQA = pgTable("manual_qa", {
   userId: text("user_id").notNull(),
   question: text("question").notNull(),        // Original message/comment
   answer: text("answer").notNull(),            // Corrected/approved response
-  source: text("source").notNull().default("approval_queue"), // 'approval_queue' or 'simulator'
+  source: text("source").notNull().default("approval_queue"), // 'approval_queue', 'simulator' or 'copilot'
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
@@ -80,6 +205,7 @@ export const manualQA = pgTable("manual_qa", {
 export const mediaLibrary = pgTable("media_library", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
+  accountId: integer("account_id"),                       // Instagram account the post was synced from
   instagramMediaId: text("instagram_media_id").notNull(), // Unique post ID from Meta
   caption: text("caption"),                               // Post caption/text
   mediaType: text("media_type").notNull(),                // 'image', 'video', 'carousel'
@@ -97,6 +223,7 @@ export const mediaLibrary = pgTable("media_library", {
 export const interactionDialect = pgTable("interaction_dialect", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
+  accountId: integer("account_id"),                       // Instagram account the conversation was synced from
   mediaId: integer("media_id").references(() => mediaLibrary.id, { onDelete: "cascade" }), // FK to media_library
   channelType: text("channel_type").notNull(),            // 'public_comment' or 'private_dm'
   senderName: text("sender_name"),                        // Who sent the message (fallback: "Eleitor")
@@ -185,6 +312,327 @@ export const instagramProfiles = pgTable("instagram_profiles", {
   createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Webhook Ingestion Queue - signature-verified events persisted before processing
+// The idempotency key (comment ID / DM mid) makes deduplication survive restarts
+export const webhookJobs = pgTable("webhook_jobs", {
+  id: serial("id").primaryKey(),
+  idempotencyKey: text("idempotency_key").notNull().unique(), // e.g. 'comment:<id>', 'dm:<mid>'
+  eventType: text("event_type").notNull(),     // 'comment', 'mention', 'message', 'graph_message'
+  entryId: text("entry_id").notNull(),         // entry.id from the webhook (account that received it)
+  payload: jsonb("payload").notNull(),         // Raw event (change.value or messaging event)
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'done', 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  lockedAt: timestamp("locked_at"),            // When a worker claimed the job
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  processedAt: timestamp("processed_at"),
+});
+
+// Scheduled Sends - outbox of replies waiting for their send time (delayed auto-sends held by
+// the account's SendSchedule, or approvals with an explicit "send at"). Drained by the send
+// scheduler job, so pending sends survive restarts.
+export const scheduledSends = pgTable("scheduled_sends", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "set null" }),
+  messageId: integer("message_id").notNull().references(() => instagramMessages.id, { onDelete: "cascade" }),
+  responseText: text("response_text").notNull(),
+  origin: text("origin").notNull(),            // 'auto' (auto-send) or 'manual' (approved with send-at)
+  status: text("status").notNull().default("scheduled"), // 'scheduled', 'sending', 'sent', 'failed', 'cancelled'
+  sendAt: timestamp("send_at").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  createdBy: text("created_by"),               // Team member who scheduled it (null for auto-sends)
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Snippets - reusable approved replies ("respostas prontas"), per account or (accountId null)
+// for every account of the workspace. Bodies may use the SNIPPET_VARIABLES, filled from the
+// message being answered. Operators insert them with "/name" in the approval editor; guidelines,
+// the system prompt and the model itself reference them as {{snippet:name}}.
+export const snippets = pgTable("snippets", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),                // Slug, unique per workspace so {{snippet:name}} is unambiguous
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  tags: jsonb("tags").notNull().default([]),   // string[]
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("snippets_user_name_unique").on(table.userId, table.name),
+]);
+
+// People who wrote to the workspace, keyed by their Instagram-scoped ID. One row per sender, kept
+// current by the webhooks; activity details (posts, replies) are aggregated from messages on read.
+export const contacts = pgTable("contacts", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  igsid: text("igsid").notNull(),              // senderId on instagram_messages
+  username: text("username"),                  // Last known @username
+  name: text("name"),                          // Last known display name
+  email: text("email"),                        // Typed by the team or extracted from their DMs
+  phone: text("phone"),
+  leadStage: text("lead_stage"),               // LEAD_STAGES, null = not a lead yet
+  customFields: jsonb("custom_fields").notNull().default({}), // Record<string, string> (interest, city, ...)
+  notes: text("notes"),                        // Also given to the AI when answering this person
+  tags: jsonb("tags").notNull().default([]),   // string[]
+  updatedBy: text("updated_by"),               // Team member who last edited the contact
+  firstSeenAt: timestamp("first_seen_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  lastSeenAt: timestamp("last_seen_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("contacts_user_igsid_unique").on(table.userId, table.igsid),
+]);
+
+// Saved contact filters ("asked about price last week"), exportable as CSV/JSON
+export const contactSegments = pgTable("contact_segments", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  name: text("name").notNull(),
+  filter: jsonb("filter").notNull(),           // ContactSegmentFilter
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("contact_segments_user_name_unique").on(table.userId, table.name),
+]);
+
+// Audit trail of hide/unhide/delete actions taken on Instagram comments, manual or automatic
+export const commentModerationLog = pgTable("comment_moderation_log", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "set null" }),
+  messageId: integer("message_id").references(() => instagramMessages.id, { onDelete: "set null" }),
+  commentId: text("comment_id").notNull(),    // Instagram comment ID (kept if the message row goes away)
+  action: text("action").notNull(),           // 'hide', 'unhide', 'delete'
+  reason: text("reason").notNull(),           // 'manual', 'spam', 'offensive', 'blocklist'
+  detail: text("detail"),                     // Classifier explanation or matched username
+  actorUserId: text("actor_user_id"),         // null = automatic
+  success: boolean("success").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Private replies: a DM to the author of a comment, sent through the comment itself
+// (Instagram allows one per comment, within 7 days of it). Queued and sent by the private
+// reply job within the account's send budget. conversationId links the DM thread that the
+// reply opens back to the comment once Instagram reports the message.
+export const privateReplies = pgTable("private_replies", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "set null" }),
+  messageId: integer("message_id").notNull().unique().references(() => instagramMessages.id, { onDelete: "cascade" }), // The comment
+  conversationId: integer("conversation_id").references(() => dmConversations.id, { onDelete: "set null" }),
+  recipientId: text("recipient_id"),          // Commenter's IGSID, as returned by Instagram
+  text: text("text").notNull(),
+  origin: text("origin").notNull(),           // 'automation' | 'manual'
+  status: text("status").notNull().default("queued"), // 'queued', 'sending', 'sent', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  sendAt: timestamp("send_at").default(sql`CURRENT_TIMESTAMP`).notNull(), // Moves forward when out of send budget
+  lastError: text("last_error"),
+  instagramMessageId: text("instagram_message_id"),
+  createdBy: text("created_by"),              // null = automation rule
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Automation rules: evaluated in the webhook pipeline before the AI generates a reply.
+// Active rules run in priority order; a match applies its actions and, with stopOnMatch, ends the evaluation.
+export const automationRules = pgTable("automation_rules", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  accountId: integer("account_id").references(() => instagramAccounts.id, { onDelete: "cascade" }), // null = all accounts
+  name: text("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  priority: integer("priority").notNull().default(0), // Lower runs first
+  conditions: jsonb("conditions").notNull(),   // AutomationConditions (all must match)
+  actions: jsonb("actions").notNull(),         // AutomationAction[]
+  stopOnMatch: boolean("stop_on_match").notNull().default(true),
+  matchCount: integer("match_count").notNull().default(0),
+  lastMatchedAt: timestamp("last_matched_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Evaluation suites ("golden sets"): saved cases the persona is re-run against after a change
+// to the system prompt, guidelines or identity, to catch replies getting worse
+export const evalSuites = pgTable("eval_suites", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  name: text("name").notNull(),
+  description: text("description"),
+  forbiddenPhrases: jsonb("forbidden_phrases").notNull().default([]), // string[] - checked on every case
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const evalCases = pgTable("eval_cases", {
+  id: serial("id").primaryKey(),
+  suiteId: integer("suite_id").notNull().references(() => evalSuites.id, { onDelete: "cascade" }),
+  message: text("message").notNull(),
+  messageType: text("message_type").notNull().default("dm"), // 'dm' or 'comment'
+  senderName: text("sender_name"),
+  postCaption: text("post_caption"),           // Comments: caption of the post being commented
+  goldenAnswer: text("golden_answer"),         // Reference reply; null = judged on traits only
+  expectedTraits: jsonb("expected_traits").notNull().default([]),     // string[] ("mentions the link in bio")
+  forbiddenPhrases: jsonb("forbidden_phrases").notNull().default([]), // string[] - on top of the suite's
+  maxLength: integer("max_length"),            // Characters
+  source: text("source").notNull().default("manual"), // 'manual', 'manual_qa' or 'ai_response'
+  sourceId: integer("source_id"),              // Row the case was imported from
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// One execution of a suite against a prompt version. Runs execute in the server process;
+// results are written as cases finish so the trainer can show progress.
+export const evalRuns = pgTable("eval_runs", {
+  id: serial("id").primaryKey(),
+  suiteId: integer("suite_id").notNull().references(() => evalSuites.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  label: text("label").notNull(),              // "Prompt atual", "Candidato 2"...
+  systemPrompt: text("system_prompt"),         // Prompt version under test; null = the one in use
+  status: text("status").notNull().default("running"), // 'running', 'completed', 'failed'
+  caseCount: integer("case_count").notNull().default(0),
+  completedCount: integer("completed_count").notNull().default(0),
+  avgScore: real("avg_score"),                 // 0-1, over cases that produced a reply
+  error: text("error"),
+  startedBy: text("started_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const evalResults = pgTable("eval_results", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => evalRuns.id, { onDelete: "cascade" }),
+  caseId: integer("case_id").notNull().references(() => evalCases.id, { onDelete: "cascade" }),
+  response: text("response"),
+  error: text("error"),                        // Generation failed; the case is not scored
+  scores: jsonb("scores"),                     // EvalScores
+  score: real("score"),                        // 0-1, weighted over the scores that apply
+  judgeNotes: text("judge_notes"),
+  traceId: integer("trace_id").references(() => generationTraces.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("eval_results_run_case_unique").on(table.runId, table.caseId),
+]);
+
+// Trainer simulator sessions: a persistent multi-turn DM transcript where the operator plays the
+// follower. Replays start from a real thread, generating what the AI would answer now at each turn.
+export const simulatorSessions = pgTable("simulator_sessions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner
+  title: text("title").notNull(),
+  senderName: text("sender_name").notNull().default("Seguidor"), // The follower the operator plays
+  source: text("source").notNull().default("manual"), // 'manual' or 'replay'
+  conversationId: integer("conversation_id").references(() => dmConversations.id, { onDelete: "set null" }), // Replayed thread
+  createdBy: text("created_by"),
+  savedAt: timestamp("saved_at"),              // Last time the thread was saved as training data
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const simulatorTurns = pgTable("simulator_turns", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => simulatorSessions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),     // Order in the transcript, from 0
+  role: text("role").notNull(),                // 'follower' or 'ai'
+  content: text("content").notNull(),          // AI turns: the operator's correction once edited
+  originalContent: text("original_content"),   // AI turns: what the model answered, kept when edited
+  realResponse: text("real_response"),         // Replays: what was actually sent at this point of the thread
+  confidence: real("confidence"),
+  traceId: integer("trace_id").references(() => generationTraces.id, { onDelete: "set null" }),
+  manualQaId: integer("manual_qa_id").references(() => manualQA.id, { onDelete: "set null" }), // Golden correction saved from this turn
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("simulator_turns_session_position_unique").on(table.sessionId, table.position),
+]);
+
+// Changes proposed by the trainer copilot (guidelines, golden corrections, prompt, contact tags,
+// drafts). Nothing is applied until someone confirms; the row stays as the audit record.
+export const copilotChangeSets = pgTable("copilot_change_sets", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),           // Workspace owner the changes apply to
+  requestedBy: text("requested_by"),           // Who was chatting with the copilot
+  request: text("request"),                    // The chat message that led to the proposal
+  changes: jsonb("changes").notNull(),         // CopilotChange[]
+  status: text("status").notNull().default("pending"), // COPILOT_CHANGE_SET_STATUSES
+  results: jsonb("results"),                   // CopilotChangeResult[] once applied
+  decidedBy: text("decided_by"),               // Who applied or rejected it
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  decidedAt: timestamp("decided_at"),
+});
+
+// Organizations (team workspaces): the owner's inbox, brain and settings are
+// shared with invited members. Data stays keyed by the owner's user ID.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: text("owner_id").notNull().unique(),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Roles: 'editor' (approve/edit replies), 'reviewer' (suggest only), 'viewer' (read only)
+// The owner is implicit (organizations.ownerId) and never stored here
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().unique(), // A user belongs to at most one team
+  role: text("role").notNull(),
+  invitedBy: text("invited_by"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Invites are shared as copyable links (no email delivery)
+export const organizationInvites = pgTable("organization_invites", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(),
+  role: text("role").notNull(),
+  createdBy: text("created_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: text("accepted_by"),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+// Knowledge Embeddings - one vector per row of manual_qa, ai_dataset, media_library and
+// interaction_dialect, filled by the embedding backfill job. content_hash (md5 of the embedded
+// text) and provider mark rows for re-embedding when the text or embedding provider changes.
+// When pgvector is installed, ensure-schema adds an indexed "embedding_vec" copy of the vector.
+export const knowledgeEmbeddings = pgTable("knowledge_embeddings", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  source: text("source").notNull(),            // 'gold', 'dataset', 'media', 'interaction'
+  sourceId: integer("source_id").notNull(),    // ID in the source table
+  provider: text("provider").notNull(),        // Embedding provider that produced the vector
+  contentHash: text("content_hash").notNull(),
+  embedding: jsonb("embedding").notNull(),     // Vector as array of numbers
+  updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("knowledge_embeddings_source_unique").on(table.source, table.sourceId),
+]);
+
+// Backfill failures per knowledge row, for its current text and provider: the job backs off
+// between attempts and gives up after a few, instead of retrying the same rows every tick
+export const knowledgeEmbeddingFailures = pgTable("knowledge_embedding_failures", {
+  id: serial("id").primaryKey(),
+  source: text("source").notNull(),
+  sourceId: integer("source_id").notNull(),
+  provider: text("provider").notNull(),
+  contentHash: text("content_hash").notNull(),
+  attempts: integer("attempts").notNull().default(1),
+  lastError: text("last_error"),
+  lastAttemptAt: timestamp("last_attempt_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+}, (table) => [
+  unique("knowledge_embedding_failures_source_unique").on(table.source, table.sourceId),
+]);
+
 // Relations
 export const instagramMessagesRelations = relations(instagramMessages, ({ one }) => ({
   aiResponse: one(aiResponses, {
@@ -221,6 +669,11 @@ export const insertAiResponseSchema = createInsertSchema(aiResponses).omit({
   approvedAt: true,
 });
 
+export const insertGenerationTraceSchema = createInsertSchema(generationTraces).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertAiDatasetSchema = createInsertSchema(aiDataset).omit({
   id: true,
   createdAt: true,
@@ -273,9 +726,31 @@ export const insertInteractionDialectSchema = createInsertSchema(interactionDial
 export type InstagramMessage = typeof instagramMessages.$inferSelect;
 export type InsertInstagramMessage = z.infer<typeof insertInstagramMessageSchema>;
 
+// DMs that point at one of our stories: a mention of us in their story, or an answer to ours
+export const STORY_MEDIA_TYPES = ["story_mention", "story_reply"] as const;
+export type StoryMediaType = typeof STORY_MEDIA_TYPES[number];
+
 export type AiResponse = typeof aiResponses.$inferSelect;
 export type InsertAiResponse = z.infer<typeof insertAiResponseSchema>;
 
+export type GenerationTrace = typeof generationTraces.$inferSelect;
+export type InsertGenerationTrace = z.infer<typeof insertGenerationTraceSchema>;
+
+// One block of the assembled system prompt
+export interface TraceSection {
+  key: string;               // 'system_prompt', 'guidelines', 'style_intent', 'knowledge', 'rag', ...
+  label: string;
+  content: string;
+  tokens: number;            // Estimated (~4 characters per token)
+  sources?: { source: string; id: number | string; score?: number }[];
+}
+
+export interface TraceFewShot {
+  id: number;                // manual_qa ID
+  question: string;
+  answer: string;
+}
+
 export type AiDatasetEntry = typeof aiDataset.$inferSelect;
 export type InsertAiDatasetEntry = z.infer<typeof insertAiDatasetSchema>;
 
@@ -304,6 +779,22 @@ export type InsertMediaLibraryEntry = z.infer<typeof insertMediaLibrarySchema>;
 export type InteractionDialectEntry = typeof interactionDialect.$inferSelect;
 export type InsertInteractionDialectEntry = z.infer<typeof insertInteractionDialectSchema>;
 
+// Knowledge sources searched by retrieval (each one has an embedding column)
+export const KNOWLEDGE_SOURCES = ["gold", "dataset", "media", "interaction"] as const;
+export type KnowledgeSource = typeof KNOWLEDGE_SOURCES[number];
+
+// A retrieval candidate normalized across the four knowledge tables
+export interface KnowledgeCandidate {
+  source: KnowledgeSource;
+  id: number;
+  question: string;
+  answer: string;
+  matchText: string;          // Text the query is compared against
+  similarity: number | null;  // Cosine similarity; null when the row has no embedding yet
+}
+
+export type KnowledgeEmbedding = typeof knowledgeEmbeddings.$inferSelect;
+
 // Insert schema for user guidelines
 export const insertGuidelineSchema = createInsertSchema(userGuidelines).omit({
   id: true,
@@ -313,7 +804,631 @@ export const insertGuidelineSchema = createInsertSchema(userGuidelines).omit({
 export type UserGuideline = typeof userGuidelines.$inferSelect;
 export type InsertUserGuideline = z.infer<typeof insertGuidelineSchema>;
 
+// Insert schema for connected Instagram accounts
+export const insertInstagramAccountSchema = createInsertSchema(instagramAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InstagramAccount = typeof instagramAccounts.$inferSelect;
+export type InsertInstagramAccount = z.infer<typeof insertInstagramAccountSchema>;
+
+// Insert schema for webhook ingestion queue
+export const insertWebhookJobSchema = createInsertSchema(webhookJobs).omit({
+  id: true,
+  processedAt: true,
+});
+
+export type WebhookJob = typeof webhookJobs.$inferSelect;
+export type InsertWebhookJob = z.infer<typeof insertWebhookJobSchema>;
+
+// Insert schema for the send scheduler outbox
+export const insertScheduledSendSchema = createInsertSchema(scheduledSends).omit({
+  id: true,
+  createdAt: true,
+  sentAt: true,
+  lockedAt: true,
+});
+
+export type ScheduledSend = typeof scheduledSends.$inferSelect;
+export type InsertScheduledSend = z.infer<typeof insertScheduledSendSchema>;
+
+export const SCHEDULED_SEND_STATUSES = ["scheduled", "sending", "sent", "failed", "cancelled"] as const;
+export type ScheduledSendStatus = typeof SCHEDULED_SEND_STATUSES[number];
+
+export const PRIVATE_REPLY_STATUSES = ["queued", "sending", "sent", "failed"] as const;
+export type PrivateReplyStatus = typeof PRIVATE_REPLY_STATUSES[number];
+
+export type PrivateReply = typeof privateReplies.$inferSelect;
+export type InsertPrivateReply = Pick<PrivateReply, "userId" | "accountId" | "messageId" | "text" | "origin" | "createdBy">;
+
+// Instagram only accepts private replies to comments up to 7 days old
+export const PRIVATE_REPLY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Body of POST /api/messages/:id/private-reply
+export const privateReplyInputSchema = z.object({
+  text: z.string().trim().min(1).max(1000),
+});
+
+export const PROMPT_VERSION_SOURCES = ["manual", "architect", "merge", "synthesis", "rollback", "admin", "initial", "experiment", "copilot"] as const;
+export type PromptVersionSource = typeof PROMPT_VERSION_SOURCES[number];
+
+export type SystemPromptVersion = typeof systemPromptVersions.$inferSelect;
+
+// GET /api/brain/prompt-versions entry: the version, who made it and how its replies did
+export type PromptVersionSummary = SystemPromptVersion & {
+  authorName: string | null;
+  responseCount: number;
+  approvedCount: number;
+  editedCount: number;
+  avgConfidence: number | null;
+};
+
+export const SIMULATOR_TURN_ROLES = ["follower", "ai"] as const;
+export type SimulatorTurnRole = typeof SIMULATOR_TURN_ROLES[number];
+
+// Body of POST /api/simulator/sessions
+export const simulatorSessionInputSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  senderName: z.string().trim().min(1).max(100).optional(),
+});
+
+// Body of POST /api/simulator/sessions/:id/turns - the follower's next message
+export const simulatorTurnInputSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+  attachments: z.array(z.string()).max(4).optional(), // Images for vision; not stored
+});
+
+// Body of PATCH /api/simulator/sessions/:id/turns/:turnId
+export const simulatorTurnUpdateSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+// Body of POST /api/simulator/replay
+export const simulatorReplayInputSchema = z.object({
+  conversationId: z.number().int().positive(),
+});
+
+export type SimulatorSession = typeof simulatorSessions.$inferSelect;
+export type SimulatorTurn = typeof simulatorTurns.$inferSelect;
+export type InsertSimulatorTurn = Omit<typeof simulatorTurns.$inferInsert, "id" | "createdAt">;
+
+// GET /api/simulator/sessions entry
+export type SimulatorSessionSummary = SimulatorSession & {
+  turnCount: number;
+  editedCount: number;
+};
+
+export const EXPERIMENT_VARIANTS = ["a", "b"] as const;
+export type ExperimentVariant = typeof EXPERIMENT_VARIANTS[number];
+
+// Body of POST /api/experiments (userId is injected by the server)
+export const promptExperimentInputSchema = z.object({
+  accountId: z.number().int().positive().nullable().default(null),
+  name: z.string().trim().min(1).max(100),
+  challengerPrompt: z.string().trim().min(1).max(20000),
+  trafficSplit: z.number().int().min(1).max(99).default(50),
+});
+export type PromptExperimentInput = z.infer<typeof promptExperimentInputSchema>;
+
+// Body of PATCH /api/experiments/:id - a new split only affects senders not yet assigned
+export const promptExperimentUpdateSchema = promptExperimentInputSchema.pick({ name: true, trafficSplit: true }).partial();
+
+export type PromptExperiment = typeof promptExperiments.$inferSelect;
+
+// Outcome of the replies generated under one variant
+export interface ExperimentVariantStats {
+  variant: ExperimentVariant;
+  senders: number;             // Contacts assigned to the variant
+  responses: number;
+  approved: number;            // wasApproved = true
+  rejected: number;            // wasApproved = false
+  edited: number;              // Approved after the team changed the text
+  likes: number;               // feedbackStatus
+  dislikes: number;
+  sent: number;                // Replies that went out (approvedAt set)
+  contactReplied: number;      // Sent replies the contact wrote back to within 7 days
+  avgLatencyMs: number | null; // Generation time, from the trace
+  avgSecondsToSend: number | null; // From the message arriving to the reply going out
+}
+
+// GET /api/experiments entry
+export type PromptExperimentSummary = PromptExperiment & {
+  accountUsername: string | null;
+  variants: ExperimentVariantStats[]; // Always "a" then "b"
+};
+
+export const SNIPPET_VARIABLES = ["first_name", "full_name", "username", "post_link"] as const;
+export type SnippetVariable = typeof SNIPPET_VARIABLES[number];
+
+// Body of POST/PATCH /api/snippets (userId is injected by the server)
+export const snippetInputSchema = z.object({
+  accountId: z.number().int().positive().nullable().default(null),
+  name: z.string().trim().toLowerCase().min(1).max(50).regex(/^[a-z0-9][a-z0-9_-]*$/, "Use letras, números, - ou _"),
+  title: z.string().trim().min(1).max(100),
+  body: z.string().trim().min(1).max(2000),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).default([]),
+});
+export type SnippetInput = z.infer<typeof snippetInputSchema>;
+
+export type Snippet = typeof snippets.$inferSelect;
+export type InsertSnippet = SnippetInput & { userId: string };
+
+// Snippet as returned for a specific message (?messageId=): body with the variables filled in
+export type RenderedSnippet = Snippet & { rendered: string };
+
+export const LEAD_STAGES = ["new", "contacted", "qualified", "customer", "lost"] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+// Body of PATCH /api/contacts/:igsid
+export const contactInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(200).nullable().optional(),
+  phone: z.string().trim().regex(/^\+?[\d\s().-]{8,20}$/, "Telefone inválido").nullable().optional(),
+  leadStage: z.enum(LEAD_STAGES).nullable().optional(),
+  customFields: z.record(z.string().trim().min(1).max(40), z.string().trim().max(500))
+    .refine(fields => Object.keys(fields).length <= 30, { message: "No máximo 30 campos" })
+    .optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(20).optional(),
+});
+export type ContactInput = z.infer<typeof contactInputSchema>;
+
+export type Contact = typeof contacts.$inferSelect;
+export type ContactSegment = typeof contactSegments.$inferSelect;
+
+export const CONTACT_SENTIMENTS = ["positive", "neutral", "negative"] as const;
+export type ContactSentiment = typeof CONTACT_SENTIMENTS[number];
+
+// GET /api/contacts/:igsid - everything we know about one person, for the review screen
+export type ContactProfile = {
+  igsid: string;
+  name: string | null;
+  username: string | null;
+  avatar: string | null;
+  followersCount: number | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  dmCount: number;
+  commentCount: number;
+  posts: { postId: string; permalink: string | null; caption: string | null; thumbnailUrl: string | null; comments: number; lastAt: Date }[];
+  previousReplies: { messageId: number | null; channel: "dm" | "comment"; message: string | null; reply: string; at: Date }[];
+  sentiment: { at: Date; sentiment: ContactSentiment }[];     // Oldest first
+  sentimentTrend: "improving" | "worsening" | "stable" | null; // null with too few messages to tell
+  email: string | null;
+  phone: string | null;
+  leadStage: LeadStage | null;
+  customFields: Record<string, string>;
+  notes: string | null;
+  tags: string[];
+};
+
+const phraseList = z.array(z.string().trim().min(1).max(200)).max(30);
+
+// Body of POST/PATCH /api/evals/suites
+export const evalSuiteInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  forbiddenPhrases: phraseList.default([]),
+});
+export type EvalSuiteInput = z.infer<typeof evalSuiteInputSchema>;
+
+// Body of POST/PATCH /api/evals/suites/:id/cases (hand-written cases)
+export const evalCaseInputSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+  messageType: z.enum(["dm", "comment"]).default("dm"),
+  senderName: z.string().trim().max(100).nullable().optional(),
+  postCaption: z.string().trim().max(2000).nullable().optional(),
+  goldenAnswer: z.string().trim().max(2000).nullable().optional(),
+  expectedTraits: z.array(z.string().trim().min(1).max(200)).max(10).default([]),
+  forbiddenPhrases: phraseList.default([]),
+  maxLength: z.number().int().min(10).max(5000).nullable().optional(),
+});
+export type EvalCaseInput = z.infer<typeof evalCaseInputSchema>;
+
+// Body of POST /api/evals/suites/:id/import: cases from golden corrections or approved replies
+export const evalImportSchema = z.object({
+  source: z.enum(["manual_qa", "ai_response"]),
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+// Body of POST /api/evals/suites/:id/runs
+export const evalRunInputSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  systemPrompt: z.string().trim().min(1).max(20000).nullable().optional(), // null/absent = prompt in use
+});
+export type EvalRunInput = z.infer<typeof evalRunInputSchema>;
+
+export type EvalSuite = typeof evalSuites.$inferSelect;
+export type EvalCase = typeof evalCases.$inferSelect;
+export type InsertEvalCase = Omit<typeof evalCases.$inferInsert, "id" | "createdAt">;
+export type EvalRun = typeof evalRuns.$inferSelect;
+export type EvalResult = typeof evalResults.$inferSelect;
+
+// Suite list entry
+export type EvalSuiteSummary = EvalSuite & { caseCount: number; lastRun: EvalRun | null };
+
+// eval_results.scores. Rule-based checks are null when the case doesn't define them.
+export type EvalScores = {
+  judge: number | null;        // LLM judge's overall grade, 0-1 (null when the judge failed)
+  guidelines: number | null;   // Compliance with the active guidelines, 0-1
+  traits: { trait: string; met: boolean }[];
+  similarity: number | null;   // To the golden answer, 0-1
+  length: boolean | null;      // Within maxLength
+  forbidden: string[];         // Forbidden phrases found in the reply
+};
+
+// GET /api/evals/compare?a=&b= - two runs of the same suite, case by case
+export type EvalComparison = {
+  a: EvalRun;
+  b: EvalRun;
+  cases: { case: EvalCase; a: EvalResult | null; b: EvalResult | null }[];
+};
+
+// Intents from the keyword classifier in server/openai.ts (detectMessageIntent)
+export const MESSAGE_INTENTS = ["question", "complaint", "praise", "request", "casual", "urgent"] as const;
+export type MessageIntent = typeof MESSAGE_INTENTS[number];
+
+// Every condition that is set must match; an empty object matches every message
+export const automationConditionsSchema = z.object({
+  messageTypes: z.array(z.enum(["dm", "comment"])).min(1).optional(),
+  keywords: z.array(z.string().trim().min(1).max(100)).min(1).max(50).optional(), // Any of, whole words, ignoring case and accents
+  pattern: z.string().min(1).max(200)
+    .refine(isValidRegex, "Invalid regular expression")
+    .refine(hasNoNestedQuantifiers, "Repeated groups cannot contain quantifiers or alternatives (e.g. (a+)+ or (a|b)*)")
+    .optional(),
+  intents: z.array(z.enum(MESSAGE_INTENTS)).min(1).optional(),
+  postIds: z.array(z.string().trim().min(1)).min(1).max(50).optional(),
+  minFollowers: z.number().int().min(0).optional(),
+  maxFollowers: z.number().int().min(0).optional(),
+  firstContact: z.boolean().optional(),        // true = first message ever from this sender, false = returning sender
+});
+export type AutomationConditions = z.infer<typeof automationConditionsSchema>;
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "iu");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Rejects the shapes behind catastrophic backtracking: a repeated group (*, +, {n,}) that itself
+// contains a quantifier or an alternation, like (a+)+ or (a|a)*. Conservative by design.
+function hasNoNestedQuantifiers(pattern: string): boolean {
+  const groups: { risky: boolean }[] = [{ risky: false }];
+  let lastClosedRisky = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+    let closedRisky = false;
+
+    if (char === "\\") {
+      i++; // Escaped character (or class like \d): a single atom
+    } else if (char === "[") {
+      // Character class: skip to its closing bracket
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ risky: false });
+      const modifier = /^\(\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(pattern.slice(i)); // (?:, lookarounds, named
+      if (modifier) i += modifier[0].length - 1;
+    } else if (char === ")") {
+      if (groups.length > 1) {
+        closedRisky = groups.pop()!.risky;
+        groups[groups.length - 1].risky ||= closedRisky;
+      }
+    } else if (char === "|") {
+      current.risky = true;
+    } else if (char === "*" || char === "+" || char === "{") {
+      if (char === "{") {
+        const bound = /^\{\d+(,\d*)?\}/.exec(pattern.slice(i));
+        if (!bound) continue; // A literal brace
+        i += bound[0].length - 1;
+        if (!bound[1]) { lastClosedRisky = false; continue; } // {n}: fixed count, no backtracking
+      }
+      if (lastClosedRisky) return false;
+      current.risky = true;
+    } else if (char === "?") {
+      current.risky = true;
+    }
+    lastClosedRisky = closedRisky;
+  }
+  return true;
+}
+
+export const AUTOMATION_ACTION_TYPES = ["send_reply", "send_dm", "manual_review", "skip_ai", "tag", "assign"] as const;
+export type AutomationActionType = typeof AUTOMATION_ACTION_TYPES[number];
+
+// Reply texts accept {{snippet:name}} references and snippet variables ({first_name}, {post_link}...)
+export const automationActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("send_reply"), text: z.string().trim().min(1).max(2000) }), // Public reply to a comment / DM reply; replaces the AI reply
+  z.object({ type: z.literal("send_dm"), text: z.string().trim().min(1).max(1000) }),    // Private reply to a commenter (comments only)
+  z.object({ type: z.literal("manual_review") }),                                         // AI drafts, but never auto-sends
+  z.object({ type: z.literal("skip_ai") }),                                               // No AI draft; stays in the queue for a human
+  z.object({ type: z.literal("tag"), tags: z.array(z.string().trim().min(1).max(30)).min(1).max(10) }),
+  z.object({ type: z.literal("assign"), userId: z.string().min(1) }),                     // DM thread assignee
+]);
+export type AutomationAction = z.infer<typeof automationActionSchema>;
+
+export const automationRuleInputSchema = z.object({
+  accountId: z.number().int().positive().nullable().default(null),
+  name: z.string().trim().min(1).max(100),
+  isActive: z.boolean().default(true),
+  priority: z.number().int().min(0).max(1000).default(0),
+  conditions: automationConditionsSchema,
+  actions: z.array(automationActionSchema).min(1).max(10),
+  stopOnMatch: z.boolean().default(true),
+});
+export type AutomationRuleInput = z.infer<typeof automationRuleInputSchema>;
+
+export type AutomationRule = typeof automationRules.$inferSelect;
+export type InsertAutomationRule = AutomationRuleInput & { userId: string };
+
+// Per-account send timing. Times are "HH:MM" in the account's timezone.
+// Auto-sends wait a random delay, then are held outside business hours and during quiet hours.
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const sendScheduleSchema = z.object({
+  timezone: z.string().min(1),
+  delaySeconds: z.object({
+    min: z.number().int().min(0).max(3600),
+    max: z.number().int().min(0).max(3600),
+  }).refine(d => d.max >= d.min, { message: "max must be >= min" }),
+  businessHours: z.object({
+    days: z.array(z.number().int().min(0).max(6)).min(1), // 0 = Sunday
+    start: timeOfDay,
+    end: timeOfDay,
+  }).nullable(),
+  quietHours: z.object({
+    start: timeOfDay,
+    end: timeOfDay,                                       // May wrap past midnight (22:00-08:00)
+  }).nullable(),
+});
+
+export type SendSchedule = z.infer<typeof sendScheduleSchema>;
+
+// Per-account outbound safety filter. Runs on every reply about to be auto-sent;
+// any failed check keeps the message in the approval queue with the reasons.
+export const safetyFilterSchema = z.object({
+  blockedWords: z.array(z.string().trim().min(1).max(100)).max(200),
+  checkLinks: z.boolean(),
+  allowedDomains: z.array(z.string().trim().min(1).max(253)).max(100), // Links to other domains are held
+  blockContactInfo: z.boolean(),       // Phones and e-mails that aren't in the knowledge base
+  requireGroundedNumbers: z.boolean(), // Prices, quantities... must appear in what the model saw
+  maxLength: z.number().int().min(1).max(2200).nullable(),
+  moderation: z.boolean(),             // Ask the LLM whether the reply is offensive or unsafe
+});
+
+export type SafetyFilterConfig = z.infer<typeof safetyFilterSchema>;
+
+// Per-account inbound comment moderation, applied by the comment webhook before any reply is drafted
+export const commentModerationSchema = z.object({
+  autoHideSpam: z.boolean(),      // Hide comments the classifier marks as spam (links, bots, "sigam meu perfil")
+  autoHideOffensive: z.boolean(), // Hide insults, hate speech and harassment
+  blockedUsernames: z.array(z.string().trim().min(1).max(30).transform(u => u.replace(/^@/, "").toLowerCase())).max(1000),
+});
+
+export type CommentModerationConfig = z.infer<typeof commentModerationSchema>;
+
+export const COMMENT_MODERATION_ACTIONS = ["hide", "unhide", "delete"] as const;
+export type CommentModerationAction = typeof COMMENT_MODERATION_ACTIONS[number];
+
+export const COMMENT_MODERATION_REASONS = ["manual", "spam", "offensive", "blocklist"] as const;
+export type CommentModerationReason = typeof COMMENT_MODERATION_REASONS[number];
+
+// Body of POST /api/messages/:id/moderation
+export const commentModerationActionSchema = z.object({
+  action: z.enum(COMMENT_MODERATION_ACTIONS),
+});
+
+export type CommentModerationLogEntry = typeof commentModerationLog.$inferSelect;
+export type InsertCommentModerationLogEntry = Omit<CommentModerationLogEntry, "id" | "createdAt">;
+
+export const SAFETY_CHECKS = ["blocked_word", "link", "contact_info", "ungrounded_number", "length", "moderation"] as const;
+export type SafetyCheck = typeof SAFETY_CHECKS[number];
+
+export interface SafetyFlag {
+  check: SafetyCheck;
+  reason: string;
+}
+
+// Insert schemas for team workspaces
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrganizationMemberSchema = createInsertSchema(organizationMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertOrganizationInviteSchema = createInsertSchema(organizationInvites).omit({
+  id: true,
+  createdAt: true,
+  acceptedBy: true,
+  acceptedAt: true,
+});
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = z.infer<typeof insertOrganizationMemberSchema>;
+
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+export type InsertOrganizationInvite = z.infer<typeof insertOrganizationInviteSchema>;
+
+// Insert schema for DM conversation threads
+export const insertDmConversationSchema = createInsertSchema(dmConversations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type DmConversation = typeof dmConversations.$inferSelect;
+export type InsertDmConversation = z.infer<typeof insertDmConversationSchema>;
+
+export const CONVERSATION_STATUSES = ["open", "snoozed", "closed"] as const;
+export type ConversationStatus = typeof CONVERSATION_STATUSES[number];
+
 // Combined type for message with AI response
 export type MessageWithResponse = InstagramMessage & {
   aiResponse?: AiResponse | null;
+  privateReply?: PrivateReply | null; // Comments only: the DM sent to the commenter
+};
+
+// Server-side message search (GET /api/messages/search). Query-string values arrive as
+// strings; lists are comma-separated. Results are newest first, keyset-paginated by cursor.
+export const MESSAGE_STATUSES = ["pending", "approved", "rejected", "auto_sent"] as const;
+export type MessageStatus = typeof MESSAGE_STATUSES[number];
+
+const commaList = (value: unknown) =>
+  typeof value === "string" ? value.split(",").map(v => v.trim()).filter(Boolean) : value;
+
+export const messageSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),             // Full-text over content and replies, plus sender name/username
+  type: z.enum(["dm", "comment"]).optional(),
+  status: z.preprocess(commaList, z.array(z.enum(MESSAGE_STATUSES)).min(1)).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sender: z.string().trim().max(100).optional(),        // Exact username or sender ID (a whole conversation)
+  postId: z.string().trim().max(100).optional(),
+  minConfidence: z.coerce.number().min(0).max(1).optional(),
+  maxConfidence: z.coerce.number().min(0).max(1).optional(),   // Exclusive, so bands don't overlap
+  wasEdited: z.enum(["true", "false"]).transform(v => v === "true").optional(),
+  feedback: z.enum(["like", "dislike", "none"]).optional(),
+  mediaType: z.preprocess(commaList, z.array(z.string().trim().min(1).max(30)).min(1)).optional(), // e.g. STORY_MEDIA_TYPES
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+export type MessageSearchQuery = z.infer<typeof messageSearchSchema>;
+
+// Contact list/segment filter (GET /api/contacts, saved in contact_segments.filter). Every field
+// that is set must match. Query-string values arrive as strings; lists are comma-separated.
+const queryBoolean = (value: unknown) => value === "true" ? true : value === "false" ? false : value;
+
+export const contactSegmentFilterSchema = z.object({
+  q: z.string().trim().max(200).optional(),             // Name, @username, e-mail, phone or notes
+  tags: z.preprocess(commaList, z.array(z.string().trim().min(1).max(30)).min(1)).optional(), // Any of
+  leadStages: z.preprocess(commaList, z.array(z.enum(LEAD_STAGES)).min(1)).optional(),
+  hasEmail: z.preprocess(queryBoolean, z.boolean()).optional(),
+  hasPhone: z.preprocess(queryBoolean, z.boolean()).optional(),
+  // A message of theirs contains one of these words (e.g. "preço, valor, quanto custa")...
+  keywords: z.preprocess(commaList, z.array(z.string().trim().min(2).max(50)).min(1).max(20)).optional(),
+  messageType: z.enum(["dm", "comment"]).optional(),
+  // ...sent in the last N days (alone: anyone who wrote in that window)
+  activeWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+});
+export type ContactSegmentFilter = z.infer<typeof contactSegmentFilterSchema>;
+
+export const contactSegmentInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filter: contactSegmentFilterSchema,
+});
+export type ContactSegmentInput = z.infer<typeof contactSegmentInputSchema>;
+
+// Row of the contact list/export: the contact plus how many messages they sent
+export type ContactListItem = Contact & { dmCount: number; commentCount: number };
+
+// One change proposed by the copilot's write tools (validated again when applied)
+export const copilotChangeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("add_guideline"),
+    rule: z.string().trim().min(1).max(1000),
+    priority: z.number().int().min(1).max(5).optional(),
+    category: z.string().trim().min(1).max(40).optional(),
+  }),
+  z.object({
+    type: z.literal("update_guideline"),
+    id: z.number().int().positive(),
+    rule: z.string().trim().min(1).max(1000).optional(),
+    priority: z.number().int().min(1).max(5).optional(),
+    isActive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("add_manual_qa"),
+    question: z.string().trim().min(1).max(2000),
+    answer: z.string().trim().min(1).max(2000),
+  }),
+  z.object({
+    type: z.literal("update_system_prompt"),
+    prompt: z.string().trim().min(1).max(20000),
+  }),
+  z.object({
+    type: z.literal("tag_contacts"),
+    filter: contactSegmentFilterSchema,
+    tags: z.array(z.string().trim().min(1).max(30)).min(1).max(10),
+  }),
+  z.object({
+    type: z.literal("regenerate_drafts"),
+    messageIds: z.array(z.number().int().positive()).min(1).max(20),
+  }),
+]);
+export type CopilotChange = z.infer<typeof copilotChangeSchema>;
+export type CopilotChangeType = CopilotChange["type"];
+
+export const COPILOT_CHANGE_SET_STATUSES = ["pending", "applying", "applied", "partial", "failed", "rejected"] as const;
+export type CopilotChangeSetStatus = typeof COPILOT_CHANGE_SET_STATUSES[number];
+
+// Outcome of each change, in the order of CopilotChangeSet.changes
+export type CopilotChangeResult = {
+  status: "applied" | "failed";
+  detail: string;
 };
+
+export type CopilotChangeSet = typeof copilotChangeSets.$inferSelect;
+
+export type MessageSearchPage = {
+  items: MessageWithResponse[];
+  nextCursor: string | null; // null on the last page
+};
+
+// Bulk actions on the approval queue (POST /api/messages/bulk). Targets either explicit
+// messageIds or every pending message matching a search filter ("approve all above 90%").
+export const BULK_MESSAGE_ACTIONS = ["approve", "reject", "regenerate"] as const;
+export type BulkMessageAction = typeof BULK_MESSAGE_ACTIONS[number];
+
+export const bulkMessageActionSchema = z.object({
+  action: z.enum(BULK_MESSAGE_ACTIONS),
+  messageIds: z.array(z.number().int().positive()).min(1).optional(),
+  filter: messageSearchSchema.pick({ q: true, type: true, mediaType: true, postId: true, minConfidence: true, maxConfidence: true }).optional(),
+}).refine(data => !!data.messageIds !== !!data.filter, { message: "Send either messageIds or filter" });
+
+export type BulkItemStatus = "sent" | "scheduled" | "rejected" | "regenerated" | "skipped" | "failed";
+
+// One entry per targeted message: sends can fail individually (token, rate limit, deleted comment...)
+export type BulkItemResult = {
+  messageId: number;
+  status: BulkItemStatus;
+  error?: string;
+  sendAt?: string;
+};
+
+export type BulkActionResponse = {
+  results: BulkItemResult[];
+  counts: Record<BulkItemStatus, number>;
+  truncated: boolean; // Filter matched more than one batch; run it again for the rest
+};
+
+// Outbox entry with the message it answers
+export type ScheduledSendWithMessage = ScheduledSend & {
+  message: Pick<InstagramMessage, "type" | "senderName" | "senderUsername" | "senderAvatar" | "content" | "mediaType">;
+};
+
+// Real-time events pushed to open tabs over GET /api/events (Server-Sent Events).
+// Every event is scoped to a workspace (owner userId); the data is a small reference
+// (message ID, status...) and the client refetches what it needs.
+export const LIVE_EVENT_TYPES = [
+  "message.created",
+  "message.draft_ready",
+  "message.status_changed",
+  "message.auto_sent",
+  "message.private_reply",
+  "sync.progress",
+  "token.warning",
+] as const;
+export type LiveEventType = typeof LIVE_EVENT_TYPES[number];